@@ -6,9 +6,9 @@ export * from 'expo-router';
 declare module 'expo-router' {
   export namespace ExpoRouter {
     export interface __routes<T extends string | object = string> {
-      hrefInputParams: { pathname: Router.RelativePathString, params?: Router.UnknownInputParams } | { pathname: Router.ExternalPathString, params?: Router.UnknownInputParams } | { pathname: `/conversation`; params?: Router.UnknownInputParams; } | { pathname: `/debug-connection`; params?: Router.UnknownInputParams; } | { pathname: `/delete-test`; params?: Router.UnknownInputParams; } | { pathname: `/edit-profile`; params?: Router.UnknownInputParams; } | { pathname: `/followers-following`; params?: Router.UnknownInputParams; } | { pathname: `/host-registration`; params?: Router.UnknownInputParams; } | { pathname: `/`; params?: Router.UnknownInputParams; } | { pathname: `/login`; params?: Router.UnknownInputParams; } | { pathname: `/photos-videos`; params?: Router.UnknownInputParams; } | { pathname: `/profile-completion`; params?: Router.UnknownInputParams; } | { pathname: `/ProfileScreen`; params?: Router.UnknownInputParams; } | { pathname: `/story-editor`; params?: Router.UnknownInputParams; } | { pathname: `/_sitemap`; params?: Router.UnknownInputParams; } | { pathname: `${'/(tabs)'}/create` | `/create`; params?: Router.UnknownInputParams; } | { pathname: `${'/(tabs)'}` | `/`; params?: Router.UnknownInputParams; } | { pathname: `${'/(tabs)'}/messages` | `/messages`; params?: Router.UnknownInputParams; } | { pathname: `${'/(tabs)'}/profile` | `/profile`; params?: Router.UnknownInputParams; } | { pathname: `${'/(tabs)'}/reels` | `/reels`; params?: Router.UnknownInputParams; } | { pathname: `${'/(tabs)'}/search` | `/search`; params?: Router.UnknownInputParams; } | { pathname: `${'/(tabs)'}/trending` | `/trending`; params?: Router.UnknownInputParams; } | { pathname: `/lib/supabase-enhanced`; params?: Router.UnknownInputParams; } | { pathname: `/lib/supabase-optimized`; params?: Router.UnknownInputParams; } | { pathname: `/lib/supabase-rn-optimized`; params?: Router.UnknownInputParams; } | { pathname: `/lib/supabase-stable`; params?: Router.UnknownInputParams; } | { pathname: `/lib/supabase`; params?: Router.UnknownInputParams; } | { pathname: `/+not-found`, params: Router.UnknownInputParams & {  } };
-      hrefOutputParams: { pathname: Router.RelativePathString, params?: Router.UnknownOutputParams } | { pathname: Router.ExternalPathString, params?: Router.UnknownOutputParams } | { pathname: `/conversation`; params?: Router.UnknownOutputParams; } | { pathname: `/debug-connection`; params?: Router.UnknownOutputParams; } | { pathname: `/delete-test`; params?: Router.UnknownOutputParams; } | { pathname: `/edit-profile`; params?: Router.UnknownOutputParams; } | { pathname: `/followers-following`; params?: Router.UnknownOutputParams; } | { pathname: `/host-registration`; params?: Router.UnknownOutputParams; } | { pathname: `/`; params?: Router.UnknownOutputParams; } | { pathname: `/login`; params?: Router.UnknownOutputParams; } | { pathname: `/photos-videos`; params?: Router.UnknownOutputParams; } | { pathname: `/profile-completion`; params?: Router.UnknownOutputParams; } | { pathname: `/ProfileScreen`; params?: Router.UnknownOutputParams; } | { pathname: `/story-editor`; params?: Router.UnknownOutputParams; } | { pathname: `/_sitemap`; params?: Router.UnknownOutputParams; } | { pathname: `${'/(tabs)'}/create` | `/create`; params?: Router.UnknownOutputParams; } | { pathname: `${'/(tabs)'}` | `/`; params?: Router.UnknownOutputParams; } | { pathname: `${'/(tabs)'}/messages` | `/messages`; params?: Router.UnknownOutputParams; } | { pathname: `${'/(tabs)'}/profile` | `/profile`; params?: Router.UnknownOutputParams; } | { pathname: `${'/(tabs)'}/reels` | `/reels`; params?: Router.UnknownOutputParams; } | { pathname: `${'/(tabs)'}/search` | `/search`; params?: Router.UnknownOutputParams; } | { pathname: `${'/(tabs)'}/trending` | `/trending`; params?: Router.UnknownOutputParams; } | { pathname: `/lib/supabase-enhanced`; params?: Router.UnknownOutputParams; } | { pathname: `/lib/supabase-optimized`; params?: Router.UnknownOutputParams; } | { pathname: `/lib/supabase-rn-optimized`; params?: Router.UnknownOutputParams; } | { pathname: `/lib/supabase-stable`; params?: Router.UnknownOutputParams; } | { pathname: `/lib/supabase`; params?: Router.UnknownOutputParams; } | { pathname: `/+not-found`, params: Router.UnknownOutputParams & {  } };
-      href: Router.RelativePathString | Router.ExternalPathString | `/conversation${`?${string}` | `#${string}` | ''}` | `/debug-connection${`?${string}` | `#${string}` | ''}` | `/delete-test${`?${string}` | `#${string}` | ''}` | `/edit-profile${`?${string}` | `#${string}` | ''}` | `/followers-following${`?${string}` | `#${string}` | ''}` | `/host-registration${`?${string}` | `#${string}` | ''}` | `/${`?${string}` | `#${string}` | ''}` | `/login${`?${string}` | `#${string}` | ''}` | `/photos-videos${`?${string}` | `#${string}` | ''}` | `/profile-completion${`?${string}` | `#${string}` | ''}` | `/ProfileScreen${`?${string}` | `#${string}` | ''}` | `/story-editor${`?${string}` | `#${string}` | ''}` | `/_sitemap${`?${string}` | `#${string}` | ''}` | `${'/(tabs)'}/create${`?${string}` | `#${string}` | ''}` | `/create${`?${string}` | `#${string}` | ''}` | `${'/(tabs)'}${`?${string}` | `#${string}` | ''}` | `/${`?${string}` | `#${string}` | ''}` | `${'/(tabs)'}/messages${`?${string}` | `#${string}` | ''}` | `/messages${`?${string}` | `#${string}` | ''}` | `${'/(tabs)'}/profile${`?${string}` | `#${string}` | ''}` | `/profile${`?${string}` | `#${string}` | ''}` | `${'/(tabs)'}/reels${`?${string}` | `#${string}` | ''}` | `/reels${`?${string}` | `#${string}` | ''}` | `${'/(tabs)'}/search${`?${string}` | `#${string}` | ''}` | `/search${`?${string}` | `#${string}` | ''}` | `${'/(tabs)'}/trending${`?${string}` | `#${string}` | ''}` | `/trending${`?${string}` | `#${string}` | ''}` | `/lib/supabase-enhanced${`?${string}` | `#${string}` | ''}` | `/lib/supabase-optimized${`?${string}` | `#${string}` | ''}` | `/lib/supabase-rn-optimized${`?${string}` | `#${string}` | ''}` | `/lib/supabase-stable${`?${string}` | `#${string}` | ''}` | `/lib/supabase${`?${string}` | `#${string}` | ''}` | { pathname: Router.RelativePathString, params?: Router.UnknownInputParams } | { pathname: Router.ExternalPathString, params?: Router.UnknownInputParams } | { pathname: `/conversation`; params?: Router.UnknownInputParams; } | { pathname: `/debug-connection`; params?: Router.UnknownInputParams; } | { pathname: `/delete-test`; params?: Router.UnknownInputParams; } | { pathname: `/edit-profile`; params?: Router.UnknownInputParams; } | { pathname: `/followers-following`; params?: Router.UnknownInputParams; } | { pathname: `/host-registration`; params?: Router.UnknownInputParams; } | { pathname: `/`; params?: Router.UnknownInputParams; } | { pathname: `/login`; params?: Router.UnknownInputParams; } | { pathname: `/photos-videos`; params?: Router.UnknownInputParams; } | { pathname: `/profile-completion`; params?: Router.UnknownInputParams; } | { pathname: `/ProfileScreen`; params?: Router.UnknownInputParams; } | { pathname: `/story-editor`; params?: Router.UnknownInputParams; } | { pathname: `/_sitemap`; params?: Router.UnknownInputParams; } | { pathname: `${'/(tabs)'}/create` | `/create`; params?: Router.UnknownInputParams; } | { pathname: `${'/(tabs)'}` | `/`; params?: Router.UnknownInputParams; } | { pathname: `${'/(tabs)'}/messages` | `/messages`; params?: Router.UnknownInputParams; } | { pathname: `${'/(tabs)'}/profile` | `/profile`; params?: Router.UnknownInputParams; } | { pathname: `${'/(tabs)'}/reels` | `/reels`; params?: Router.UnknownInputParams; } | { pathname: `${'/(tabs)'}/search` | `/search`; params?: Router.UnknownInputParams; } | { pathname: `${'/(tabs)'}/trending` | `/trending`; params?: Router.UnknownInputParams; } | { pathname: `/lib/supabase-enhanced`; params?: Router.UnknownInputParams; } | { pathname: `/lib/supabase-optimized`; params?: Router.UnknownInputParams; } | { pathname: `/lib/supabase-rn-optimized`; params?: Router.UnknownInputParams; } | { pathname: `/lib/supabase-stable`; params?: Router.UnknownInputParams; } | { pathname: `/lib/supabase`; params?: Router.UnknownInputParams; } | `/+not-found${`?${string}` | `#${string}` | ''}` | { pathname: `/+not-found`, params: Router.UnknownInputParams & {  } };
+      hrefInputParams: { pathname: Router.RelativePathString, params?: Router.UnknownInputParams } | { pathname: Router.ExternalPathString, params?: Router.UnknownInputParams } | { pathname: `/conversation`; params?: Router.UnknownInputParams; } | { pathname: `/conversations`; params?: Router.UnknownInputParams; } | { pathname: `/debug-connection`; params?: Router.UnknownInputParams; } | { pathname: `/delete-test`; params?: Router.UnknownInputParams; } | { pathname: `/edit-profile`; params?: Router.UnknownInputParams; } | { pathname: `/followers-following`; params?: Router.UnknownInputParams; } | { pathname: `/hashtag`; params?: Router.UnknownInputParams; } | { pathname: `/host-application-status`; params?: Router.UnknownInputParams; } | { pathname: `/host-applications`; params?: Router.UnknownInputParams; } | { pathname: `/host-availability`; params?: Router.UnknownInputParams; } | { pathname: `/host-registration`; params?: Router.UnknownInputParams; } | { pathname: `/`; params?: Router.UnknownInputParams; } | { pathname: `/login`; params?: Router.UnknownInputParams; } | { pathname: `/message-search`; params?: Router.UnknownInputParams; } | { pathname: `/moderation-queue`; params?: Router.UnknownInputParams; } | { pathname: `/photos-videos`; params?: Router.UnknownInputParams; } | { pathname: `/profile-completion`; params?: Router.UnknownInputParams; } | { pathname: `/ProfileScreen`; params?: Router.UnknownInputParams; } | { pathname: `/story-editor`; params?: Router.UnknownInputParams; } | { pathname: `/_sitemap`; params?: Router.UnknownInputParams; } | { pathname: `${'/(tabs)'}/create` | `/create`; params?: Router.UnknownInputParams; } | { pathname: `${'/(tabs)'}` | `/`; params?: Router.UnknownInputParams; } | { pathname: `${'/(tabs)'}/messages` | `/messages`; params?: Router.UnknownInputParams; } | { pathname: `${'/(tabs)'}/profile` | `/profile`; params?: Router.UnknownInputParams; } | { pathname: `${'/(tabs)'}/reels` | `/reels`; params?: Router.UnknownInputParams; } | { pathname: `${'/(tabs)'}/search` | `/search`; params?: Router.UnknownInputParams; } | { pathname: `${'/(tabs)'}/trending` | `/trending`; params?: Router.UnknownInputParams; } | { pathname: `/lib/supabase-enhanced`; params?: Router.UnknownInputParams; } | { pathname: `/lib/supabase-optimized`; params?: Router.UnknownInputParams; } | { pathname: `/lib/supabase-rn-optimized`; params?: Router.UnknownInputParams; } | { pathname: `/lib/supabase-stable`; params?: Router.UnknownInputParams; } | { pathname: `/lib/supabase`; params?: Router.UnknownInputParams; } | { pathname: `/+not-found`, params: Router.UnknownInputParams & {  } };
+      hrefOutputParams: { pathname: Router.RelativePathString, params?: Router.UnknownOutputParams } | { pathname: Router.ExternalPathString, params?: Router.UnknownOutputParams } | { pathname: `/conversation`; params?: Router.UnknownOutputParams; } | { pathname: `/conversations`; params?: Router.UnknownOutputParams; } | { pathname: `/debug-connection`; params?: Router.UnknownOutputParams; } | { pathname: `/delete-test`; params?: Router.UnknownOutputParams; } | { pathname: `/edit-profile`; params?: Router.UnknownOutputParams; } | { pathname: `/followers-following`; params?: Router.UnknownOutputParams; } | { pathname: `/hashtag`; params?: Router.UnknownOutputParams; } | { pathname: `/host-application-status`; params?: Router.UnknownOutputParams; } | { pathname: `/host-applications`; params?: Router.UnknownOutputParams; } | { pathname: `/host-availability`; params?: Router.UnknownOutputParams; } | { pathname: `/host-registration`; params?: Router.UnknownOutputParams; } | { pathname: `/`; params?: Router.UnknownOutputParams; } | { pathname: `/login`; params?: Router.UnknownOutputParams; } | { pathname: `/message-search`; params?: Router.UnknownOutputParams; } | { pathname: `/moderation-queue`; params?: Router.UnknownOutputParams; } | { pathname: `/photos-videos`; params?: Router.UnknownOutputParams; } | { pathname: `/profile-completion`; params?: Router.UnknownOutputParams; } | { pathname: `/ProfileScreen`; params?: Router.UnknownOutputParams; } | { pathname: `/story-editor`; params?: Router.UnknownOutputParams; } | { pathname: `/_sitemap`; params?: Router.UnknownOutputParams; } | { pathname: `${'/(tabs)'}/create` | `/create`; params?: Router.UnknownOutputParams; } | { pathname: `${'/(tabs)'}` | `/`; params?: Router.UnknownOutputParams; } | { pathname: `${'/(tabs)'}/messages` | `/messages`; params?: Router.UnknownOutputParams; } | { pathname: `${'/(tabs)'}/profile` | `/profile`; params?: Router.UnknownOutputParams; } | { pathname: `${'/(tabs)'}/reels` | `/reels`; params?: Router.UnknownOutputParams; } | { pathname: `${'/(tabs)'}/search` | `/search`; params?: Router.UnknownOutputParams; } | { pathname: `${'/(tabs)'}/trending` | `/trending`; params?: Router.UnknownOutputParams; } | { pathname: `/lib/supabase-enhanced`; params?: Router.UnknownOutputParams; } | { pathname: `/lib/supabase-optimized`; params?: Router.UnknownOutputParams; } | { pathname: `/lib/supabase-rn-optimized`; params?: Router.UnknownOutputParams; } | { pathname: `/lib/supabase-stable`; params?: Router.UnknownOutputParams; } | { pathname: `/lib/supabase`; params?: Router.UnknownOutputParams; } | { pathname: `/+not-found`, params: Router.UnknownOutputParams & {  } };
+      href: Router.RelativePathString | Router.ExternalPathString | `/conversation${`?${string}` | `#${string}` | ''}` | `/conversations${`?${string}` | `#${string}` | ''}` | `/debug-connection${`?${string}` | `#${string}` | ''}` | `/delete-test${`?${string}` | `#${string}` | ''}` | `/edit-profile${`?${string}` | `#${string}` | ''}` | `/followers-following${`?${string}` | `#${string}` | ''}` | `/hashtag${`?${string}` | `#${string}` | ''}` | `/host-application-status${`?${string}` | `#${string}` | ''}` | `/host-applications${`?${string}` | `#${string}` | ''}` | `/host-availability${`?${string}` | `#${string}` | ''}` | `/host-registration${`?${string}` | `#${string}` | ''}` | `/${`?${string}` | `#${string}` | ''}` | `/login${`?${string}` | `#${string}` | ''}` | `/message-search${`?${string}` | `#${string}` | ''}` | `/moderation-queue${`?${string}` | `#${string}` | ''}` | `/photos-videos${`?${string}` | `#${string}` | ''}` | `/profile-completion${`?${string}` | `#${string}` | ''}` | `/ProfileScreen${`?${string}` | `#${string}` | ''}` | `/story-editor${`?${string}` | `#${string}` | ''}` | `/_sitemap${`?${string}` | `#${string}` | ''}` | `${'/(tabs)'}/create${`?${string}` | `#${string}` | ''}` | `/create${`?${string}` | `#${string}` | ''}` | `${'/(tabs)'}${`?${string}` | `#${string}` | ''}` | `/${`?${string}` | `#${string}` | ''}` | `${'/(tabs)'}/messages${`?${string}` | `#${string}` | ''}` | `/messages${`?${string}` | `#${string}` | ''}` | `${'/(tabs)'}/profile${`?${string}` | `#${string}` | ''}` | `/profile${`?${string}` | `#${string}` | ''}` | `${'/(tabs)'}/reels${`?${string}` | `#${string}` | ''}` | `/reels${`?${string}` | `#${string}` | ''}` | `${'/(tabs)'}/search${`?${string}` | `#${string}` | ''}` | `/search${`?${string}` | `#${string}` | ''}` | `${'/(tabs)'}/trending${`?${string}` | `#${string}` | ''}` | `/trending${`?${string}` | `#${string}` | ''}` | `/lib/supabase-enhanced${`?${string}` | `#${string}` | ''}` | `/lib/supabase-optimized${`?${string}` | `#${string}` | ''}` | `/lib/supabase-rn-optimized${`?${string}` | `#${string}` | ''}` | `/lib/supabase-stable${`?${string}` | `#${string}` | ''}` | `/lib/supabase${`?${string}` | `#${string}` | ''}` | { pathname: Router.RelativePathString, params?: Router.UnknownInputParams } | { pathname: Router.ExternalPathString, params?: Router.UnknownInputParams } | { pathname: `/conversation`; params?: Router.UnknownInputParams; } | { pathname: `/conversations`; params?: Router.UnknownInputParams; } | { pathname: `/debug-connection`; params?: Router.UnknownInputParams; } | { pathname: `/delete-test`; params?: Router.UnknownInputParams; } | { pathname: `/edit-profile`; params?: Router.UnknownInputParams; } | { pathname: `/followers-following`; params?: Router.UnknownInputParams; } | { pathname: `/hashtag`; params?: Router.UnknownInputParams; } | { pathname: `/host-application-status`; params?: Router.UnknownInputParams; } | { pathname: `/host-applications`; params?: Router.UnknownInputParams; } | { pathname: `/host-availability`; params?: Router.UnknownInputParams; } | { pathname: `/host-registration`; params?: Router.UnknownInputParams; } | { pathname: `/`; params?: Router.UnknownInputParams; } | { pathname: `/login`; params?: Router.UnknownInputParams; } | { pathname: `/message-search`; params?: Router.UnknownInputParams; } | { pathname: `/moderation-queue`; params?: Router.UnknownInputParams; } | { pathname: `/photos-videos`; params?: Router.UnknownInputParams; } | { pathname: `/profile-completion`; params?: Router.UnknownInputParams; } | { pathname: `/ProfileScreen`; params?: Router.UnknownInputParams; } | { pathname: `/story-editor`; params?: Router.UnknownInputParams; } | { pathname: `/_sitemap`; params?: Router.UnknownInputParams; } | { pathname: `${'/(tabs)'}/create` | `/create`; params?: Router.UnknownInputParams; } | { pathname: `${'/(tabs)'}` | `/`; params?: Router.UnknownInputParams; } | { pathname: `${'/(tabs)'}/messages` | `/messages`; params?: Router.UnknownInputParams; } | { pathname: `${'/(tabs)'}/profile` | `/profile`; params?: Router.UnknownInputParams; } | { pathname: `${'/(tabs)'}/reels` | `/reels`; params?: Router.UnknownInputParams; } | { pathname: `${'/(tabs)'}/search` | `/search`; params?: Router.UnknownInputParams; } | { pathname: `${'/(tabs)'}/trending` | `/trending`; params?: Router.UnknownInputParams; } | { pathname: `/lib/supabase-enhanced`; params?: Router.UnknownInputParams; } | { pathname: `/lib/supabase-optimized`; params?: Router.UnknownInputParams; } | { pathname: `/lib/supabase-rn-optimized`; params?: Router.UnknownInputParams; } | { pathname: `/lib/supabase-stable`; params?: Router.UnknownInputParams; } | { pathname: `/lib/supabase`; params?: Router.UnknownInputParams; } | `/+not-found${`?${string}` | `#${string}` | ''}` | { pathname: `/+not-found`, params: Router.UnknownInputParams & {  } };
     }
   }
 }
@@ -30,11 +30,13 @@ import Animated, {
 import * as Haptics from 'expo-haptics';
 import * as ImagePicker from 'expo-image-picker';
 import CameraScreen from '../../components/CameraScreen';
+import AutocompleteSuggestions from '@/components/AutocompleteSuggestions';
 import { useDebugLogger, debug } from '@/utils/debugLogger';
 import { useUser } from '@/contexts/UserContext';
 import { dataService } from '@/services/dataService';
 import { Video as VideoPlayer, ResizeMode } from 'expo-av';
 import { VideoThumbnailGenerator } from '@/utils/videoThumbnailGenerator';
+import { extractHashtags } from '@/utils/hashtags';
 
 const AnimatedTouchableOpacity = Animated.createAnimatedComponent(TouchableOpacity);
 
@@ -55,6 +57,7 @@ export default function CreateScreen() {
     name: string;
   } | null>(null);
   const [postContent, setPostContent] = useState('');
+  const [captionCursor, setCaptionCursor] = useState(0);
   const [isUploading, setIsUploading] = useState(false);
   const [generatedThumbnail, setGeneratedThumbnail] = useState<{
     uri: string;
@@ -292,11 +295,12 @@ export default function CreateScreen() {
 
       // Create the post, reel, or story based on user's mode selection
       const content = postContent.trim() || `Check out my ${capturedMedia.type}!`;
+      const hashtags = extractHashtags(content);
       
       let post = null;
       if (createMode === 'post') {
         // Create a post (for images or videos)
-        post = await dataService.post.createPost(user.id, content, uploadResult.url);
+        post = await dataService.post.createPost(user.id, content, uploadResult.url, hashtags);
       } else if (createMode === 'reel') {
         // Create a reel (for images or videos) with thumbnail
         post = await dataService.reel.createReel(
@@ -304,7 +308,7 @@ export default function CreateScreen() {
           uploadResult.url,
           content,
           0, // duration will be calculated by the app
-          undefined, // hashtags
+          hashtags,
           undefined, // musicInfo
           thumbnailUrl // pass the thumbnail URL
         );
@@ -618,14 +622,23 @@ export default function CreateScreen() {
             {/* Post Content Input - Hide for stories */}
             {createMode !== 'story' && (
               <View style={styles.postInputContainer}>
+                <AutocompleteSuggestions
+                  text={postContent}
+                  cursor={captionCursor}
+                  onSelect={(text, cursor) => {
+                    setPostContent(text);
+                    setCaptionCursor(cursor);
+                  }}
+                />
                 <TextInput
                   style={styles.postInput}
-                  placeholder="Write a caption..."
+                  placeholder="Write a caption... Use #tags and @mentions"
                   placeholderTextColor="#888888"
                   multiline
                   maxLength={500}
                   value={postContent}
                   onChangeText={setPostContent}
+                  onSelectionChange={event => setCaptionCursor(event.nativeEvent.selection.end)}
                   returnKeyType="done"
                   blurOnSubmit={true}
                   onSubmitEditing={dismissKeyboard}
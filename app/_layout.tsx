@@ -68,6 +68,34 @@ export default function RootLayout() {
               }} 
             />
             <Stack.Screen name="host-registration" />
+            <Stack.Screen 
+              name="host-availability" 
+              options={{ 
+                headerShown: false,
+                gestureEnabled: true 
+              }} 
+            />
+            <Stack.Screen 
+              name="host-application-status" 
+              options={{ 
+                headerShown: false,
+                gestureEnabled: true 
+              }} 
+            />
+            <Stack.Screen 
+              name="host-applications" 
+              options={{ 
+                headerShown: false,
+                gestureEnabled: true 
+              }} 
+            />
+            <Stack.Screen 
+              name="moderation-queue" 
+              options={{ 
+                headerShown: false,
+                gestureEnabled: true 
+              }} 
+            />
             <Stack.Screen 
               name="conversation" 
               options={{ 
@@ -76,6 +104,22 @@ export default function RootLayout() {
                 gestureEnabled: true 
               }} 
             />
+            <Stack.Screen 
+              name="message-search" 
+              options={{ 
+                headerShown: false,
+                presentation: 'card',
+                gestureEnabled: true 
+              }} 
+            />
+            <Stack.Screen 
+              name="hashtag" 
+              options={{ 
+                headerShown: false,
+                presentation: 'card',
+                gestureEnabled: true 
+              }} 
+            />
             <Stack.Screen name="profile-completion" />
             <Stack.Screen 
               name="edit-profile" 
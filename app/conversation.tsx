@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useCallback, useRef } from 'react';
 import {
   View,
   Text,
@@ -39,6 +39,8 @@ import {
   MoreVertical,
   Clock,
   User,
+  Users,
+  Timer,
   X
 } from 'lucide-react-native';
 import MediaMessageInput from '@/components/MediaMessageInput';
@@ -47,16 +49,34 @@ import ImageViewerModal from '@/components/ImageViewerModal';
 import MessageOptionsModal from '@/components/MessageOptionsModal';
 import EditMessageModal from '@/components/EditMessageModal';
 import ConfirmationModal from '@/components/ConfirmationModal';
+import BookingsSection from '@/components/BookingsSection';
+import GroupInfoModal from '@/components/GroupInfoModal';
+import NewGroupModal from '@/components/NewGroupModal';
+import ScheduleMessageModal, { formatSendAt } from '@/components/ScheduleMessageModal';
 import { useUser } from '@/contexts/UserContext';
 import { usePresenceContext } from '@/contexts/PresenceContext';
 import { useMessaging } from '@/hooks/useMessaging';
-import { dataService } from '@/services/dataService';
-import { Conversation, Message, User as UserType, Post, Reel } from '@/types';
+import { useConversationBroadcast } from '@/hooks/useConversationBroadcast';
+import { dataService, MESSAGE_PAGE_SIZE } from '@/services/dataService';
+import { notificationService } from '@/services/notificationService';
+import { messageOutbox } from '@/services/messageOutbox';
+import { scheduledMessages } from '@/services/scheduledMessages';
+import { Conversation, ConversationDetails, Message, User as UserType, Post, Reel } from '@/types';
 import { debug, useDebugLogger } from '@/utils/debugLogger';
+import { MessageOptimizer } from '@/utils/messageOptimizer';
+import { applyReceiptUpdates, getDeliveredTo, getSeenBy } from '@/utils/messageReceipts';
+import { applyReactionUpdate, getReplyPreview, getReplyPreviewText, getUserReaction } from '@/utils/messageReactions';
+import { DISAPPEARING_MESSAGE_OPTIONS, getDisappearingLabel, getDisappearingShortLabel } from '@/utils/disappearingMessages';
 
 const AnimatedTouchableOpacity = Animated.createAnimatedComponent(TouchableOpacity);
 const AnimatedFlatList = Animated.createAnimatedComponent(FlatList);
 
+// How far back history is paged when opening a search result
+const MAX_JUMP_PAGES = 10;
+
+// How often disappearing messages are checked while a conversation is open
+const EXPIRY_CHECK_INTERVAL = 30 * 1000;
+
 interface MessageBubbleProps {
   message: Message;
   isOwn: boolean;
@@ -114,6 +134,7 @@ export default function ConversationScreen() {
     userName?: string;
     mode?: 'list' | 'chat';
     createWithUserId?: string;
+    messageId?: string; // Scroll to this message once the conversation is open
   }>();
   
   const { user: currentUser } = useUser();
@@ -127,7 +148,15 @@ export default function ConversationScreen() {
     params.conversationId || null
   );
   const [messages, setMessages] = useState<Message[]>([]);
+  const [outboxMessages, setOutboxMessages] = useState<Message[]>([]);
+  const [scheduledItems, setScheduledItems] = useState<Message[]>([]);
+  const [scheduleText, setScheduleText] = useState<string | null>(null);
+  const [hasMoreMessages, setHasMoreMessages] = useState(false);
+  const [loadingOlder, setLoadingOlder] = useState(false);
   const [otherUser, setOtherUser] = useState<UserType | null>(null);
+  const [conversationDetails, setConversationDetails] = useState<ConversationDetails | null>(null);
+  const [groupInfoVisible, setGroupInfoVisible] = useState(false);
+  const [newGroupVisible, setNewGroupVisible] = useState(false);
   const [newMessage, setNewMessage] = useState('');
   const [loading, setLoading] = useState(false);
   const [refreshing, setRefreshing] = useState(false);
@@ -140,6 +169,9 @@ export default function ConversationScreen() {
   const [imageViewerUri, setImageViewerUri] = useState('');
   const [messageOptionsVisible, setMessageOptionsVisible] = useState(false);
   const [selectedMessage, setSelectedMessage] = useState<Message | null>(null);
+  const [replyingTo, setReplyingTo] = useState<Message | null>(null);
+  const [highlightedMessageId, setHighlightedMessageId] = useState<string | null>(null);
+  const messagesListRef = useRef<any>(null);
   const [editMessageVisible, setEditMessageVisible] = useState(false);
   const [confirmationVisible, setConfirmationVisible] = useState(false);
   const [confirmationData, setConfirmationData] = useState<{
@@ -196,13 +228,19 @@ export default function ConversationScreen() {
   }, [currentUser?.id, mode]); // Only load when user or mode changes
 
   // Load messages for a specific conversation
-  const loadMessages = async (conversationId: string) => {
+  const loadMessages = async (conversationId: string): Promise<Message[]> => {
     console.error('🚨🚨🚨 LOADMESSAGES_START - Function called!', { conversationId, userId: currentUser?.id });
-    if (!currentUser?.id) return;
+    if (!currentUser?.id) return [];
     
     try {
       setLoading(true);
       debugLogger.info('LOAD_MESSAGES', `Loading messages for conversation: ${conversationId}`);
+
+      // Group title, avatar and members for the header and sender names
+      dataService.message.getConversationDetails(conversationId).then(setConversationDetails);
+
+      // Expired disappearing messages are deleted here too in case the server job is not set up
+      dataService.message.purgeExpiredMessages(conversationId);
       
       // Get conversation details and participants
       const conversation = conversations.find(c => c.id === conversationId);
@@ -229,7 +267,12 @@ export default function ConversationScreen() {
       
       // Load messages
       console.error('🚨🚨🚨 CONVERSATION_SCREEN - About to call getMessages for conversation:', conversationId);
-      const messages = await dataService.message.getMessages(conversationId, currentUser.id);
+      const page = await dataService.message.getMessages(conversationId, currentUser.id);
+      const messages = MessageOptimizer.cacheMessagePage(conversationId, page, {
+        older: false,
+        hasMore: page.length === MESSAGE_PAGE_SIZE,
+      });
+      setHasMoreMessages(MessageOptimizer.hasMoreCachedHistory(conversationId));
       console.error('🚨🚨🚨 CONVERSATION_SCREEN - Received messages count:', messages.length);
       console.error('🚨🚨🚨 CONVERSATION_SCREEN - Sample message:', messages.length > 0 ? JSON.stringify(messages[0], null, 2) : 'NO MESSAGES');
       setMessages(messages);
@@ -243,14 +286,77 @@ export default function ConversationScreen() {
       loadConversations();
       
       debugLogger.success('LOAD_MESSAGES', `Loaded ${messages.length} messages`);
+      return messages;
     } catch (err) {
       debugLogger.error('LOAD_MESSAGES', 'Failed to load messages', err);
       Alert.alert('Error', 'Failed to load messages');
+      return [];
     } finally {
       setLoading(false);
     }
   };
 
+  // Page back through history until a message is loaded, then scroll to it
+  // and highlight it briefly. Used when opening a message search result.
+  const scrollToMessage = async (conversationId: string, messageId: string, loaded: Message[]) => {
+    if (!currentUser?.id) return;
+
+    let history = loaded;
+    let hasMore = MessageOptimizer.hasMoreCachedHistory(conversationId);
+
+    try {
+      for (let page = 0; page < MAX_JUMP_PAGES && hasMore && !history.some(m => m.id === messageId); page++) {
+        const cursor = MessageOptimizer.getOlderCursor(history);
+        if (!cursor) break;
+
+        const older = await dataService.message.getOlderMessages(conversationId, currentUser.id, cursor);
+        hasMore = older.length === MESSAGE_PAGE_SIZE;
+        MessageOptimizer.cacheMessagePage(conversationId, older, { older: true, hasMore });
+        history = MessageOptimizer.mergeMessages(history, older);
+      }
+    } catch (err) {
+      debugLogger.error('SCROLL_TO_MESSAGE', 'Failed to load history', err);
+    }
+
+    setMessages(history);
+    setHasMoreMessages(hasMore);
+
+    const index = history.filter(item => item && item.id).findIndex(m => m.id === messageId);
+    if (index < 0) {
+      Alert.alert('Message Not Found', 'This message is too far back in the conversation or no longer available.');
+      return;
+    }
+
+    setHighlightedMessageId(messageId);
+    setTimeout(() => {
+      messagesListRef.current?.scrollToIndex({ index: index + scheduledItems.length + outboxMessages.length, animated: true, viewPosition: 0.5 });
+    }, 300);
+    setTimeout(() => setHighlightedMessageId(null), 3000);
+  };
+
+  // Load the page before the oldest loaded message (the top of the inverted list)
+  const loadOlderMessages = async () => {
+    if (!selectedConversation || !currentUser?.id || !hasMoreMessages || loadingOlder) return;
+
+    const cursor = MessageOptimizer.getOlderCursor(messages);
+    if (!cursor) return;
+
+    try {
+      setLoadingOlder(true);
+      const older = await dataService.message.getOlderMessages(selectedConversation, currentUser.id, cursor);
+      const hasMore = older.length === MESSAGE_PAGE_SIZE;
+
+      MessageOptimizer.cacheMessagePage(selectedConversation, older, { older: true, hasMore });
+      setMessages(prev => MessageOptimizer.mergeMessages(prev, older));
+      setHasMoreMessages(hasMore);
+      debugLogger.info('LOAD_OLDER_MESSAGES', `Loaded ${older.length} older messages`);
+    } catch (err) {
+      debugLogger.error('LOAD_OLDER_MESSAGES', 'Failed to load older messages', err);
+    } finally {
+      setLoadingOlder(false);
+    }
+  };
+
   // Send a message
   const sendMessage = async () => {
     if (!newMessage.trim() || !selectedConversation || !currentUser?.id) return;
@@ -262,28 +368,75 @@ export default function ConversationScreen() {
         contentLength: newMessage.trim().length
       });
       
-      const message = await dataService.message.sendMessage(
-        selectedConversation,
-        currentUser.id,
-        newMessage.trim(),
-        'text'
-      );
-      
-      if (message) {
-        // Add message to local state immediately for optimistic UI
-        // Since FlatList is inverted, add new messages to the beginning of the array
-        setMessages(prev => [message, ...prev]);
-        setNewMessage('');
-        debugLogger.success('SEND_MESSAGE', 'Message sent successfully', { messageId: message.id });
-      } else {
-        throw new Error('Failed to send message - no message returned');
-      }
+      // Queued first so messages written offline are kept and sent in order
+      const pending = await messageOutbox.enqueue({
+        conversationId: selectedConversation,
+        senderId: currentUser.id,
+        content: newMessage.trim(),
+        messageType: 'text',
+        replyTo: replyingTo ? getReplyPreview(replyingTo) : undefined,
+      });
+      setNewMessage('');
+      setReplyingTo(null);
+      debugLogger.success('SEND_MESSAGE', 'Message queued', { clientId: pending.clientId });
     } catch (err) {
       debugLogger.error('SEND_MESSAGE', 'Failed to send message', err);
       Alert.alert('Error', 'Failed to send message');
     }
   };
 
+  // Store the typed message to be sent at a later time
+  const scheduleMessage = async (sendAt: Date) => {
+    if (!scheduleText || !selectedConversation) return;
+
+    const scheduled = await scheduledMessages.schedule(selectedConversation, scheduleText, sendAt, {
+      replyToMessageId: replyingTo?.id,
+    });
+    if (!scheduled) {
+      Alert.alert('Error', 'Failed to schedule message');
+      return;
+    }
+
+    setNewMessage('');
+    setReplyingTo(null);
+    setScheduleText(null);
+  };
+
+  // Pending scheduled messages for the open conversation
+  const showScheduledMessages = () => {
+    if (!selectedConversation) return;
+
+    const items = scheduledMessages.getItems(selectedConversation);
+    if (items.length === 0) {
+      Alert.alert('Scheduled Messages', 'No messages are scheduled in this conversation.');
+      return;
+    }
+
+    const list = items
+      .map(item => `${formatSendAt(new Date(item.sendAt))}\n${item.content}`)
+      .join('\n\n');
+    Alert.alert('Scheduled Messages', `${list}\n\nTap a scheduled message to cancel it.`);
+  };
+
+  const handleScheduledPress = (message: Message) => {
+    if (!message.scheduledMessageId || !message.scheduledFor) return;
+
+    const scheduledMessageId = message.scheduledMessageId;
+    Alert.alert('Scheduled Message', `Will be sent ${formatSendAt(new Date(message.scheduledFor))}`, [
+      { text: 'Keep', style: 'cancel' },
+      {
+        text: 'Cancel Message',
+        style: 'destructive',
+        onPress: async () => {
+          const success = await scheduledMessages.cancel(scheduledMessageId);
+          if (!success) {
+            Alert.alert('Error', 'This message could not be canceled. It may have already been sent.');
+          }
+        },
+      },
+    ]);
+  };
+
   // Load recent posts and reels for sharing
   const loadRecentContent = useCallback(async () => {
     try {
@@ -365,6 +518,7 @@ export default function ConversationScreen() {
         mediaUrl: message.mediaUrl,
         thumbnailUrl: message.thumbnailUrl,
         duration: message.duration,
+        waveform: message.waveform,
         sharedReel: message.sharedReel,
         sharedPost: message.sharedPost,
         timestamp: new Date().toISOString(),
@@ -378,7 +532,7 @@ export default function ConversationScreen() {
       let uploadedMediaUrl = null;
       
       // Upload media to storage if this is a media message (not for shared content)
-      if (message.type && ['image', 'video', 'audio'].includes(message.type) && message.mediaUrl) {
+      if (message.type && ['image', 'video', 'audio', 'voice'].includes(message.type) && message.mediaUrl) {
         debugLogger.info('SEND_MEDIA', 'UPLOADING', `Uploading ${message.type} to storage`);
         
         try {
@@ -419,7 +573,7 @@ export default function ConversationScreen() {
       try {
         const messageContent = message.content || 
                               (message.type === 'image' ? '📷 Photo' : 
-                               message.type === 'audio' ? '🎤 Voice message' : 
+                               message.type === 'audio' || message.type === 'voice' ? '🎤 Voice message' : 
                                message.type === 'video' ? '🎥 Video' :
                                message.type === 'reel' ? `📹 Shared a reel` :
                                message.type === 'post' ? `📸 Shared a post` : 'Media');
@@ -431,7 +585,11 @@ export default function ConversationScreen() {
           message.type || 'text',
           message.sharedPost,
           message.sharedReel,
-          uploadedMediaUrl || undefined
+          undefined,
+          uploadedMediaUrl || undefined,
+          undefined,
+          undefined,
+          message.type === 'voice' ? { duration: message.duration, waveform: message.waveform } : undefined
         );
 
         if (savedMessage) {
@@ -446,6 +604,7 @@ export default function ConversationScreen() {
               mediaUrl: uploadedMediaUrl || savedMessage.mediaUrl,
               type: message.type || savedMessage.type,
               duration: message.duration,
+              waveform: message.waveform,
               thumbnailUrl: message.thumbnailUrl
             } : msg
           ));
@@ -477,6 +636,7 @@ export default function ConversationScreen() {
       mediaUrl: data.mediaUrl || data.uri,
       thumbnailUrl: data.thumbnailUrl,
       duration: data.duration,
+      waveform: data.waveform,
       sharedReel: data.sharedReel,
       sharedPost: data.sharedPost
     });
@@ -530,7 +690,10 @@ export default function ConversationScreen() {
       setMode('list');
       setSelectedConversation(null);
       setMessages([]);
+      setHasMoreMessages(false);
       setOtherUser(null);
+      setConversationDetails(null);
+      setReplyingTo(null);
     } else {
       // Navigate to feeds screen from messages list
       router.push('/(tabs)' as any);
@@ -542,6 +705,107 @@ export default function ConversationScreen() {
     loadConversations();
   }, [currentUser?.id]);
 
+  // Show queued messages for the open conversation and swap in the stored
+  // copy once each one is sent
+  useEffect(() => {
+    if (!selectedConversation) {
+      setOutboxMessages([]);
+      return;
+    }
+
+    const conversationId = selectedConversation;
+    setOutboxMessages(messageOutbox.getMessages(conversationId).reverse());
+
+    return messageOutbox.subscribe(({ sent }) => {
+      setOutboxMessages(messageOutbox.getMessages(conversationId).reverse());
+
+      if (sent && sent.message.conversationId === conversationId) {
+        setMessages(prev => MessageOptimizer.mergeMessages(prev, [sent.message]));
+        MessageOptimizer.addMessageToCache(conversationId, sent.message);
+      }
+    });
+  }, [selectedConversation]);
+
+  // Show scheduled messages until they go out, then load the sent copies
+  useEffect(() => {
+    if (!selectedConversation || !currentUser?.id) {
+      setScheduledItems([]);
+      return;
+    }
+
+    const conversationId = selectedConversation;
+    const userId = currentUser.id;
+    setScheduledItems(scheduledMessages.getMessages(conversationId).reverse());
+
+    return scheduledMessages.subscribe(async ({ sentConversationIds }) => {
+      setScheduledItems(scheduledMessages.getMessages(conversationId).reverse());
+
+      if (sentConversationIds?.includes(conversationId)) {
+        const latest = await dataService.message.getMessages(conversationId, userId);
+        setMessages(prev => MessageOptimizer.mergeMessages(prev, latest));
+      }
+    });
+  }, [selectedConversation, currentUser?.id]);
+
+  // Remove disappearing messages from the open conversation as they expire
+  useEffect(() => {
+    if (mode !== 'chat' || !selectedConversation) return;
+
+    const conversationId = selectedConversation;
+    const interval = setInterval(() => {
+      MessageOptimizer.evictExpiredMessages(conversationId);
+      setMessages(prev => MessageOptimizer.withoutExpired(prev));
+    }, EXPIRY_CHECK_INTERVAL);
+
+    return () => clearInterval(interval);
+  }, [mode, selectedConversation]);
+
+  // No alerts for the conversation that is on screen
+  useEffect(() => {
+    if (mode !== 'chat' || !selectedConversation) return;
+
+    notificationService.setActiveConversation(selectedConversation);
+    return () => notificationService.setActiveConversation(null);
+  }, [mode, selectedConversation]);
+
+  // Receipts and reactions from the other participants
+  useConversationBroadcast(mode === 'chat' ? selectedConversation : null, {
+    onReceipts: (updates) => setMessages(prev => applyReceiptUpdates(prev, updates)),
+    onReaction: (update) => setMessages(prev => applyReactionUpdate(prev, update)),
+  });
+
+  // "Seen by" list for group messages
+  const handleShowReceipts = (message: Message) => {
+    const nameFor = (userId: string) => {
+      const member = conversationDetails?.members.find(m => m.user.id === userId);
+      return member?.user.username || member?.user.fullName || 'Former member';
+    };
+    const formatTime = (time?: string) =>
+      time ? new Date(time).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' }) : '';
+
+    const seenBy = getSeenBy(message).map(receipt => `${nameFor(receipt.userId)} · ${formatTime(receipt.readAt)}`);
+    const deliveredTo = getDeliveredTo(message).map(receipt => nameFor(receipt.userId));
+
+    const sections = [
+      seenBy.length > 0 ? `Seen by\n${seenBy.join('\n')}` : 'Not seen yet',
+      deliveredTo.length > 0 ? `Delivered to\n${deliveredTo.join('\n')}` : '',
+    ].filter(Boolean);
+
+    Alert.alert('Message Info', sections.join('\n\n'));
+  };
+
+  const handleRetryMessage = (message: Message) => {
+    if (message.clientId) {
+      messageOutbox.retry(message.clientId);
+    }
+  };
+
+  const handleDiscardMessage = (message: Message) => {
+    if (message.clientId) {
+      messageOutbox.discard(message.clientId);
+    }
+  };
+
   // Handle initial conversation if provided
   useEffect(() => {
     if (params.conversationId && params.userId && params.mode !== 'list') {
@@ -561,8 +825,14 @@ export default function ConversationScreen() {
         });
       }
       
-      // Load messages
-      loadMessages(params.conversationId);
+      // Load messages, then jump to a search result if one was opened
+      const conversationId = params.conversationId;
+      const messageId = params.messageId;
+      loadMessages(conversationId).then(loaded => {
+        if (messageId) {
+          scrollToMessage(conversationId, messageId, loaded);
+        }
+      });
     } else if (params.conversationId && params.userId && params.mode === 'list') {
       debugLogger.info('INIT_CONVERSATION', 'Skipping conversation load - staying in list mode', { 
         conversationId: params.conversationId,
@@ -570,7 +840,7 @@ export default function ConversationScreen() {
         mode: params.mode 
       });
     }
-  }, [params.conversationId, params.userId, params.mode]);
+  }, [params.conversationId, params.userId, params.mode, params.messageId]);
 
   // Handle createWithUserId parameter - auto-create conversation with specific user
   useEffect(() => {
@@ -677,6 +947,7 @@ export default function ConversationScreen() {
     
     // Since getConversations already filters out current user, participants array contains only other users
     const otherParticipant = conversation.participants[0]; // Take the first (and likely only) other participant
+    const isGroup = conversation.type === 'group';
     
     // Get real-time presence status for this participant
     const isOnline = otherParticipant ? isUserOnline(otherParticipant.id) : false;
@@ -736,9 +1007,13 @@ export default function ConversationScreen() {
         activeOpacity={0.7}
       >
         <View style={styles.modernAvatarContainer}>
-          {otherParticipant.avatar ? (
+          {isGroup && !conversation.avatar ? (
+            <View style={styles.modernPlaceholderAvatar}>
+              <Users color="#FFFFFF" size={20} />
+            </View>
+          ) : (isGroup ? conversation.avatar : otherParticipant.avatar) ? (
             <CachedImage 
-              source={{ uri: otherParticipant.avatar }} 
+              source={{ uri: (isGroup ? conversation.avatar : otherParticipant.avatar) || '' }} 
               style={styles.modernConversationAvatar} 
               cacheType="thumbnail"
             />
@@ -749,14 +1024,16 @@ export default function ConversationScreen() {
           )}
           <View style={[
             styles.modernOnlineIndicator,
-            { backgroundColor: isOnline ? '#00D084' : 'transparent' }
+            { backgroundColor: isOnline && !isGroup ? '#00D084' : 'transparent' }
           ]} />
         </View>
         
         <View style={styles.modernConversationContent}>
           <View style={styles.modernConversationHeader}>
             <Text style={styles.modernConversationName} numberOfLines={1}>
-              {otherParticipant.fullName || otherParticipant.username}
+              {isGroup
+                ? conversation.title || conversation.participants.map(p => p.username).join(', ')
+                : otherParticipant.fullName || otherParticipant.username}
             </Text>
             <Text style={styles.modernConversationTime}>
               {new Date(conversation.lastMessage?.timestamp || conversation.updatedAt || '').toLocaleTimeString('en-US', {
@@ -767,7 +1044,9 @@ export default function ConversationScreen() {
           </View>
           
           <Text style={styles.modernConversationPreview} numberOfLines={1}>
-            {conversation.lastMessage?.content || 'No messages yet'}
+            {isGroup && conversation.lastMessage?.senderName && conversation.lastMessage.type !== 'system'
+              ? `${conversation.lastMessage.senderId === currentUser?.id ? 'You' : conversation.lastMessage.senderName}: ${conversation.lastMessage.content}`
+              : conversation.lastMessage?.content || 'No messages yet'}
           </Text>
         </View>
         
@@ -862,6 +1141,99 @@ export default function ConversationScreen() {
     console.log('🔥 MODAL_OPENING - Message options modal should be visible now');
   };
 
+  // Group info for groups, pending scheduled messages, disappearing messages,
+  // then mute or unmute notifications for this conversation
+  const handleConversationOptions = () => {
+    if (!selectedConversation) return;
+
+    const isGroup = conversationDetails?.type === 'group';
+    Alert.alert(isGroup ? conversationDetails?.title || 'Group' : 'Conversation', undefined, [
+      ...(isGroup ? [{ text: 'Group Info', onPress: () => setGroupInfoVisible(true) }] : []),
+      ...(scheduledItems.length > 0
+        ? [{ text: `Scheduled Messages (${scheduledItems.length})`, onPress: showScheduledMessages }]
+        : []),
+      { text: 'Disappearing Messages', onPress: handleDisappearingMessages },
+      { text: 'Notifications', onPress: handleMuteOptions },
+      { text: 'Cancel', style: 'cancel' as const },
+    ]);
+  };
+
+  // Pick how long new messages last. Messages already sent keep their timer.
+  const handleDisappearingMessages = () => {
+    if (!selectedConversation || !conversationDetails) return;
+    const conversationId = selectedConversation;
+    const current = conversationDetails.messageTtlSeconds ?? null;
+
+    Alert.alert(
+      'Disappearing Messages',
+      `New messages will disappear for everyone after the selected time. Currently: ${getDisappearingLabel(current)}.`,
+      [
+        ...DISAPPEARING_MESSAGE_OPTIONS
+          .filter(option => option.seconds !== current)
+          .map(option => ({
+            text: option.seconds === null ? 'Turn Off' : option.label,
+            onPress: async () => {
+              const success = await dataService.message.setMessageTtl(conversationId, option.seconds);
+              if (!success) {
+                Alert.alert('Error', conversationDetails.type === 'group'
+                  ? 'Only group admins can change disappearing messages.'
+                  : 'Failed to change disappearing messages');
+                return;
+              }
+
+              setConversationDetails(prev => prev && prev.id === conversationId
+                ? { ...prev, messageTtlSeconds: option.seconds }
+                : prev);
+
+              // Pick up the system message recording the change
+              if (currentUser?.id) {
+                const latest = await dataService.message.getMessages(conversationId, currentUser.id);
+                setMessages(prev => MessageOptimizer.mergeMessages(prev, latest));
+              }
+            },
+          })),
+        { text: 'Cancel', style: 'cancel' as const },
+      ]
+    );
+  };
+
+  const handleMuteOptions = () => {
+    if (!selectedConversation) return;
+    const conversationId = selectedConversation;
+
+    const mute = async (hours: number | null) => {
+      const mutedUntil = hours ? new Date(Date.now() + hours * 60 * 60 * 1000) : null;
+      const success = await notificationService.muteConversation(conversationId, mutedUntil);
+      if (!success) {
+        Alert.alert('Error', 'Failed to mute conversation');
+      }
+    };
+
+    if (notificationService.isConversationMuted(conversationId)) {
+      Alert.alert('Notifications', 'This conversation is muted.', [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Unmute',
+          onPress: async () => {
+            const success = await notificationService.unmuteConversation(conversationId);
+            if (!success) {
+              Alert.alert('Error', 'Failed to unmute conversation');
+            }
+          },
+        },
+      ]);
+      return;
+    }
+
+    Alert.alert('Mute Notifications', 'Stop notifications from this conversation for:', [
+      { text: '1 hour', onPress: () => mute(1) },
+      { text: '8 hours', onPress: () => mute(8) },
+      { text: '1 week', onPress: () => mute(24 * 7) },
+      { text: 'Until I turn it back on', onPress: () => mute(null) },
+      { text: 'Cancel', style: 'cancel' },
+    ]);
+  };
+
   // Handle message copy
   const handleMessageCopy = async (message: Message) => {
     try {
@@ -872,6 +1244,28 @@ export default function ConversationScreen() {
     }
   };
 
+  // Choosing the current reaction again removes it
+  const handleMessageReact = async (message: Message, emoji: string) => {
+    if (!currentUser?.id || !message.conversationId) return;
+
+    const previous = getUserReaction(message, currentUser.id) || null;
+    const next = previous === emoji ? null : emoji;
+    const update = { messageId: message.id, conversationId: message.conversationId, userId: currentUser.id };
+
+    setMessages(prev => applyReactionUpdate(prev, { ...update, emoji: next }));
+
+    const success = await dataService.message.setReaction(message.conversationId, message.id, currentUser.id, next);
+    if (!success) {
+      setMessages(prev => applyReactionUpdate(prev, { ...update, emoji: previous }));
+      Alert.alert('Error', 'Failed to update reaction');
+    }
+  };
+
+  // Handle message reply
+  const handleMessageReply = (message: Message) => {
+    setReplyingTo(message);
+  };
+
   // Handle message edit
   const handleMessageEdit = (message: Message) => {
     setSelectedMessage(message);
@@ -944,15 +1338,28 @@ export default function ConversationScreen() {
   const renderMessage = ({ item, index }: { item: any; index: number }) => {
     const message = item as Message;
     const isOwn = message.senderId === currentUser?.id;
+    const isGroup = conversationDetails?.type === 'group';
+    const sender = isGroup
+      ? conversationDetails?.members.find(member => member.user.id === message.senderId)?.user
+      : otherUser;
     return (
-      <MediaMessageBubble 
-        message={message} 
-        isOwn={isOwn} 
-        otherUser={otherUser || undefined}
-        onImagePress={handleImagePress}
-        onContentPress={handleContentPress}
-        onLongPress={handleMessageLongPress}
-      />
+      <View style={message.id === highlightedMessageId ? styles.highlightedMessage : undefined}>
+        <MediaMessageBubble 
+          message={message} 
+          isOwn={isOwn} 
+          otherUser={sender || undefined}
+          showSenderName={isGroup}
+          onImagePress={handleImagePress}
+          onContentPress={handleContentPress}
+          onLongPress={handleMessageLongPress}
+          onRetry={handleRetryMessage}
+          onDiscard={handleDiscardMessage}
+          onShowReceipts={isGroup ? handleShowReceipts : undefined}
+          currentUserId={currentUser?.id}
+          onReactionPress={message.deliveryStatus || message.scheduledFor ? undefined : handleMessageReact}
+          onScheduledPress={handleScheduledPress}
+        />
+      </View>
     );
   };
 
@@ -973,7 +1380,25 @@ export default function ConversationScreen() {
               </TouchableOpacity>
               
               <View style={styles.chatHeaderInfo}>
-                {otherUser ? (
+                {conversationDetails?.type === 'group' ? (
+                  <TouchableOpacity style={styles.chatHeaderGroup} onPress={() => setGroupInfoVisible(true)}>
+                    {conversationDetails.avatar ? (
+                      <Image source={{ uri: conversationDetails.avatar }} style={styles.chatHeaderAvatar} />
+                    ) : (
+                      <View style={styles.placeholderAvatar}>
+                        <Users size={20} color="#FFFFFF" />
+                      </View>
+                    )}
+                    <View style={styles.chatHeaderText}>
+                      <Text style={styles.chatHeaderName} numberOfLines={1}>
+                        {conversationDetails.title || 'Group'}
+                      </Text>
+                      <Text style={styles.chatHeaderStatus}>
+                        {conversationDetails.members.length} members
+                      </Text>
+                    </View>
+                  </TouchableOpacity>
+                ) : otherUser ? (
                   <>
                     <Image 
                       source={{ uri: otherUser.avatar || otherUser.profilePicture || 'https://via.placeholder.com/40' }} 
@@ -1011,11 +1436,23 @@ export default function ConversationScreen() {
                 )}
               </View>
               
-              <TouchableOpacity style={styles.moreButton}>
+              {!!conversationDetails?.messageTtlSeconds && (
+                <TouchableOpacity style={styles.disappearingBadge} onPress={handleDisappearingMessages}>
+                  <Timer size={14} color="#A29BFE" />
+                  <Text style={styles.disappearingBadgeText}>
+                    {getDisappearingShortLabel(conversationDetails.messageTtlSeconds)}
+                  </Text>
+                </TouchableOpacity>
+              )}
+
+              <TouchableOpacity style={styles.moreButton} onPress={handleConversationOptions}>
                 <MoreVertical size={24} color="#FFFFFF" />
               </TouchableOpacity>
             </View>
 
+            {/* Upcoming bookings with this user */}
+            {otherUser && conversationDetails?.type !== 'group' && <BookingsSection user={otherUser} compact />}
+
             {/* Messages */}
             <View style={[styles.messagesContainer, Platform.OS === 'ios' && keyboardHeight > 0 && { marginBottom: 0 }]}>
               {loading ? (
@@ -1025,7 +1462,8 @@ export default function ConversationScreen() {
                 </View>
               ) : (
                 <AnimatedFlatList
-                  data={messages.filter(item => item && item.id) as Message[]}
+                  ref={messagesListRef}
+                  data={[...scheduledItems, ...outboxMessages, ...messages.filter(item => item && item.id)] as Message[]}
                   renderItem={renderMessage}
                   keyExtractor={(item: any) => item?.id || `message-${Math.random()}`}
                   contentContainerStyle={[
@@ -1034,6 +1472,18 @@ export default function ConversationScreen() {
                   ]}
                   showsVerticalScrollIndicator={false}
                   inverted
+                  onEndReached={loadOlderMessages}
+                  onScrollToIndexFailed={({ index, averageItemLength }: { index: number; averageItemLength: number }) => {
+                    // Rows have different heights; get close first, then retry
+                    messagesListRef.current?.scrollToOffset({ offset: index * averageItemLength, animated: false });
+                    setTimeout(() => {
+                      messagesListRef.current?.scrollToIndex({ index, animated: true, viewPosition: 0.5 });
+                    }, 250);
+                  }}
+                  onEndReachedThreshold={0.3}
+                  ListFooterComponent={
+                    loadingOlder ? <ActivityIndicator style={styles.olderMessagesLoader} size="small" color="#6C5CE7" /> : null
+                  }
                 />
               )}
             </View>
@@ -1043,6 +1493,23 @@ export default function ConversationScreen() {
               styles.inputWrapper,
               Platform.OS === 'ios' && keyboardHeight > 0 && { marginBottom: 0 }
             ]}>
+              {replyingTo && (
+                <View style={styles.replyBar}>
+                  <View style={styles.replyBarContent}>
+                    <Text style={styles.replyBarTitle} numberOfLines={1}>
+                      Replying to {replyingTo.senderId === currentUser?.id
+                        ? 'yourself'
+                        : replyingTo.senderName || otherUser?.username || 'message'}
+                    </Text>
+                    <Text style={styles.replyBarText} numberOfLines={1}>
+                      {getReplyPreviewText(getReplyPreview(replyingTo))}
+                    </Text>
+                  </View>
+                  <TouchableOpacity onPress={() => setReplyingTo(null)} style={styles.replyBarClose}>
+                    <X size={18} color="#999999" />
+                  </TouchableOpacity>
+                </View>
+              )}
               <MediaMessageInput
                 value={newMessage}
                 onChangeText={setNewMessage}
@@ -1052,6 +1519,7 @@ export default function ConversationScreen() {
                 disabled={loading}
                 recentPosts={recentPosts}
                 recentReels={recentReels}
+                onScheduleText={setScheduleText}
               />
             </View>
           </LinearGradient>
@@ -1073,6 +1541,17 @@ export default function ConversationScreen() {
           onEdit={handleMessageEdit}
           onDelete={handleMessageDelete}
           onCopy={handleMessageCopy}
+          onReply={handleMessageReply}
+          onReact={handleMessageReact}
+          currentReaction={selectedMessage ? getUserReaction(selectedMessage, currentUser?.id) : undefined}
+        />
+
+        {/* Schedule Message Modal */}
+        <ScheduleMessageModal
+          visible={scheduleText !== null}
+          onClose={() => setScheduleText(null)}
+          onSchedule={scheduleMessage}
+          preview={scheduleText || undefined}
         />
 
         {/* Edit Message Modal */}
@@ -1096,6 +1575,24 @@ export default function ConversationScreen() {
           }}
           isDestructive={true}
         />
+
+        {/* Group Info Modal */}
+        <GroupInfoModal
+          visible={groupInfoVisible}
+          onClose={() => setGroupInfoVisible(false)}
+          details={conversationDetails}
+          currentUserId={currentUser?.id}
+          onChanged={() => {
+            if (selectedConversation) {
+              loadMessages(selectedConversation);
+            }
+          }}
+          onLeft={() => {
+            setGroupInfoVisible(false);
+            handleBack();
+            loadConversations();
+          }}
+        />
       </SafeAreaView>
     );
   }
@@ -1113,6 +1610,14 @@ export default function ConversationScreen() {
             <MessageCircle size={28} color="#6C5CE7" />
             <Text style={styles.modernHeaderTitle}>Messages</Text>
           </View>
+          <View style={styles.headerActions}>
+            <TouchableOpacity onPress={() => setNewGroupVisible(true)} style={styles.messageSearchButton}>
+              <Users size={22} color="#FFFFFF" />
+            </TouchableOpacity>
+            <TouchableOpacity onPress={() => router.push('/message-search')} style={styles.messageSearchButton}>
+              <Search size={22} color="#FFFFFF" />
+            </TouchableOpacity>
+          </View>
         </Animated.View>
 
         {/* Search Bar */}
@@ -1282,6 +1787,18 @@ export default function ConversationScreen() {
           </LinearGradient>
         </TouchableOpacity>
       </LinearGradient>
+
+      {/* New Group Modal */}
+      <NewGroupModal
+        visible={newGroupVisible}
+        onClose={() => setNewGroupVisible(false)}
+        currentUserId={currentUser?.id}
+        onCreated={(conversationId) => {
+          setNewGroupVisible(false);
+          loadMessages(conversationId);
+          loadConversations();
+        }}
+      />
     </SafeAreaView>
   );
 }
@@ -1299,6 +1816,32 @@ const styles = StyleSheet.create({
   inputWrapper: {
     // Wrapper for message input to handle keyboard positioning
   },
+  replyBar: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#2A2A2A',
+    borderLeftWidth: 3,
+    borderLeftColor: '#6C5CE7',
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+  },
+  replyBarContent: {
+    flex: 1,
+  },
+  replyBarTitle: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#A29BFE',
+  },
+  replyBarText: {
+    fontSize: 13,
+    color: '#CCCCCC',
+    marginTop: 2,
+  },
+  replyBarClose: {
+    padding: 4,
+    marginLeft: 8,
+  },
   // Header styles
   header: {
     flexDirection: 'row',
@@ -1441,6 +1984,11 @@ const styles = StyleSheet.create({
     flexDirection: 'row',
     alignItems: 'center',
   },
+  chatHeaderGroup: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
   chatHeaderAvatar: {
     width: 40,
     height: 40,
@@ -1452,6 +2000,21 @@ const styles = StyleSheet.create({
     fontWeight: '600',
     color: '#FFFFFF',
   },
+  disappearingBadge: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: 'rgba(108, 92, 231, 0.2)',
+    borderRadius: 12,
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+    marginRight: 8,
+  },
+  disappearingBadgeText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#A29BFE',
+    marginLeft: 4,
+  },
   chatHeaderStatus: {
     fontSize: 12,
     color: '#666',
@@ -1478,6 +2041,9 @@ const styles = StyleSheet.create({
   messagesList: {
     paddingVertical: 20,
   },
+  olderMessagesLoader: {
+    marginVertical: 12,
+  },
   messageBubble: {
     maxWidth: '80%',
     marginVertical: 5,
@@ -1567,10 +2133,29 @@ const styles = StyleSheet.create({
 
   // Modern UI Styles
   modernHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
     paddingHorizontal: 24,
     paddingTop: Platform.OS === 'android' ? 16 : 0,
     paddingBottom: 16,
   },
+  headerActions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  messageSearchButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: 'rgba(255, 255, 255, 0.1)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  highlightedMessage: {
+    backgroundColor: 'rgba(108, 92, 231, 0.25)',
+  },
   headerLeft: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -0,0 +1,3 @@
+import HashtagScreen from '@/screens/HashtagScreen';
+
+export default HashtagScreen;
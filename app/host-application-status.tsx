@@ -0,0 +1,3 @@
+import HostApplicationStatusScreen from '@/screens/HostApplicationStatusScreen';
+
+export default HostApplicationStatusScreen;
@@ -0,0 +1,3 @@
+import HostApplicationsReviewScreen from '@/screens/HostApplicationsReviewScreen';
+
+export default HostApplicationsReviewScreen;
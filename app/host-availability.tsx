@@ -0,0 +1,3 @@
+import HostAvailabilityScreen from '@/screens/HostAvailabilityScreen';
+
+export default HostAvailabilityScreen;
@@ -0,0 +1,3 @@
+import MessageSearchScreen from '@/screens/MessageSearchScreen';
+
+export default MessageSearchScreen;
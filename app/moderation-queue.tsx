@@ -0,0 +1,3 @@
+import ModerationQueueScreen from '@/screens/ModerationQueueScreen';
+
+export default ModerationQueueScreen;
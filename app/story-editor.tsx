@@ -17,7 +17,7 @@ import {
   Dimensions,
 } from 'react-native';
 import { LinearGradient } from 'expo-linear-gradient';
-import { ArrowLeft, Send, X, Type, Palette, Sticker } from 'lucide-react-native';
+import { ArrowLeft, Send, X, Type, Palette, Sticker, Globe, Star, Lock } from 'lucide-react-native';
 import { useRouter, useLocalSearchParams } from 'expo-router';
 import Animated, {
   useSharedValue,
@@ -32,10 +32,18 @@ import * as Haptics from 'expo-haptics';
 import { useDebugLogger } from '@/utils/debugLogger';
 import { useUser } from '@/contexts/UserContext';
 import { dataService } from '@/services/dataService';
+import { StoryVisibility } from '@/types';
+import CloseFriendsModal from '@/components/CloseFriendsModal';
 
 const { width: SCREEN_WIDTH, height: SCREEN_HEIGHT } = Dimensions.get('window');
 const AnimatedTouchableOpacity = Animated.createAnimatedComponent(TouchableOpacity);
 
+const AUDIENCE_OPTIONS: { visibility: StoryVisibility; label: string; icon: typeof Globe }[] = [
+  { visibility: 'public', label: 'Everyone', icon: Globe },
+  { visibility: 'friends', label: 'Close Friends', icon: Star },
+  { visibility: 'private', label: 'Only Me', icon: Lock },
+];
+
 export default function StoryEditorScreen() {
   const debugLogger = useDebugLogger('StoryEditor');
   const router = useRouter();
@@ -49,6 +57,9 @@ export default function StoryEditorScreen() {
   const [caption, setCaption] = useState('');
   const [isPosting, setIsPosting] = useState(false);
   const [showTextEditor, setShowTextEditor] = useState(false);
+  const [audience, setAudience] = useState<StoryVisibility>('public');
+  const [closeFriendCount, setCloseFriendCount] = useState(0);
+  const [showCloseFriends, setShowCloseFriends] = useState(false);
 
   // Animation values
   const postButtonScale = useSharedValue(1);
@@ -58,6 +69,11 @@ export default function StoryEditorScreen() {
     debugLogger.info('STORY_EDITOR', 'LOADED', `Editing ${mediaType} story`);
   }, [mediaType]);
 
+  useEffect(() => {
+    if (!user?.id) return;
+    dataService.user.getCloseFriends(user.id).then(friends => setCloseFriendCount(friends.length));
+  }, [user?.id]);
+
   const dismissKeyboard = () => {
     Keyboard.dismiss();
   };
@@ -83,12 +99,25 @@ export default function StoryEditorScreen() {
     }
   };
 
+  const handleSelectAudience = (visibility: StoryVisibility) => {
+    setAudience(visibility);
+    if (visibility === 'friends' && closeFriendCount === 0) {
+      setShowCloseFriends(true);
+    }
+  };
+
   const handlePostStory = async () => {
     if (!user?.id || !mediaUri) {
       Alert.alert('Error', 'Unable to post story. Please try again.');
       return;
     }
 
+    if (audience === 'friends' && closeFriendCount === 0) {
+      Alert.alert('No Close Friends', 'Add people to your close friends list before sharing with them.');
+      setShowCloseFriends(true);
+      return;
+    }
+
     try {
       Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
     } catch (error) {
@@ -103,17 +132,29 @@ export default function StoryEditorScreen() {
     setIsPosting(true);
 
     try {
-      debugLogger.info('STORY_EDITOR', 'POSTING', 'Creating story with media');
+      debugLogger.info('STORY_EDITOR', 'POSTING', `Creating story for audience: ${audience}`);
+
+      // Upload the media, then create the story for the chosen audience
+      const fileName = mediaUri.split('/').pop() || `story_${Date.now()}`;
+      const uploadResult = mediaType === 'video'
+        ? await dataService.storage.uploadVideo(
+            { uri: mediaUri, type: 'video/mp4', name: fileName },
+            'user-media',
+            user.id,
+            { folder: 'stories' }
+          )
+        : await dataService.storage.uploadImage(
+            { uri: mediaUri, type: 'image/jpeg', name: fileName },
+            'user-media',
+            user.id,
+            { quality: 1.0, folder: 'stories' }
+          );
 
-      // Create the story
-      const storyData = {
-        mediaUri,
-        mediaType,
-        caption: caption.trim(),
-        userId: user.id,
-      };
+      if (!uploadResult) {
+        throw new Error('Failed to upload media');
+      }
 
-      const result = await dataService.story.createStory(storyData);
+      const result = await dataService.story.createStory(user.id, uploadResult.url, mediaType, 24, audience);
       
       if (result) {
         debugLogger.success('STORY_EDITOR', 'POSTED', 'Story created successfully');
@@ -233,6 +274,35 @@ export default function StoryEditorScreen() {
             style={styles.captionContainer}
             entering={SlideInUp.delay(300)}
           >
+            {/* Audience Picker */}
+            <View style={styles.audienceRow}>
+              {AUDIENCE_OPTIONS.map(option => {
+                const selected = option.visibility === audience;
+                const isFriends = option.visibility === 'friends';
+                const Icon = option.icon;
+                return (
+                  <TouchableOpacity
+                    key={option.visibility}
+                    style={[
+                      styles.audienceChip,
+                      selected && (isFriends ? styles.audienceChipFriends : styles.audienceChipSelected),
+                    ]}
+                    onPress={() => handleSelectAudience(option.visibility)}
+                  >
+                    <Icon size={14} color="#FFFFFF" strokeWidth={2} />
+                    <Text style={styles.audienceText}>{option.label}</Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+            {audience === 'friends' && (
+              <TouchableOpacity onPress={() => setShowCloseFriends(true)}>
+                <Text style={styles.closeFriendsLink}>
+                  {closeFriendCount === 1 ? '1 person' : `${closeFriendCount} people`} · Edit list
+                </Text>
+              </TouchableOpacity>
+            )}
+
             <TextInput
               style={styles.captionInput}
               placeholder="Add a caption to your story..."
@@ -287,6 +357,12 @@ export default function StoryEditorScreen() {
           </Animated.View>
         </View>
       </TouchableWithoutFeedback>
+
+      <CloseFriendsModal
+        visible={showCloseFriends}
+        onClose={() => setShowCloseFriends(false)}
+        onChange={ids => setCloseFriendCount(ids.length)}
+      />
     </SafeAreaView>
   );
 }
@@ -385,6 +461,37 @@ const styles = StyleSheet.create({
     right: 20,
     zIndex: 10,
   },
+  audienceRow: {
+    flexDirection: 'row',
+    gap: 8,
+    marginBottom: 8,
+  },
+  audienceChip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    backgroundColor: 'rgba(0, 0, 0, 0.4)',
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 16,
+  },
+  audienceChipSelected: {
+    backgroundColor: '#6C5CE7',
+  },
+  audienceChipFriends: {
+    backgroundColor: '#22C55E',
+  },
+  audienceText: {
+    color: '#FFFFFF',
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  closeFriendsLink: {
+    color: '#4ADE80',
+    fontSize: 13,
+    fontWeight: '500',
+    marginBottom: 8,
+  },
   captionInput: {
     color: '#FFFFFF',
     fontSize: 16,
@@ -0,0 +1,145 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, StyleSheet, ScrollView, TouchableOpacity, Image, StyleProp, ViewStyle } from 'react-native';
+import { Hash } from 'lucide-react-native';
+import { dataService } from '@/services/dataService';
+import { Hashtag, User } from '@/types';
+import { AutocompleteToken, applyAutocomplete, getAutocompleteToken } from '@/utils/mentions';
+
+const SEARCH_DEBOUNCE_MS = 200;
+const MAX_SUGGESTIONS = 6;
+
+interface AutocompleteSuggestionsProps {
+  text: string;
+  cursor: number; // Selection end in the input
+  onSelect: (text: string, cursor: number) => void;
+  style?: StyleProp<ViewStyle>;
+}
+
+type Suggestions =
+  | { trigger: '#'; items: Hashtag[] }
+  | { trigger: '@'; items: User[] };
+
+// Suggests hashtags (most used first) or people (followed first) for the
+// #tag or @handle being typed at the cursor
+const AutocompleteSuggestions: React.FC<AutocompleteSuggestionsProps> = ({ text, cursor, onSelect, style }) => {
+  const [suggestions, setSuggestions] = useState<Suggestions | null>(null);
+  const token = getAutocompleteToken(text, cursor);
+  const trigger = token?.trigger;
+  const query = token?.query;
+
+  useEffect(() => {
+    if (!trigger || query === undefined) {
+      setSuggestions(null);
+      return;
+    }
+
+    let cancelled = false;
+    const timeout = setTimeout(async () => {
+      const next: Suggestions = trigger === '#'
+        ? { trigger, items: await dataService.hashtag.searchHashtags(query, MAX_SUGGESTIONS) }
+        : { trigger, items: await dataService.user.searchMentionCandidates(query, MAX_SUGGESTIONS) };
+      if (!cancelled) setSuggestions(next);
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+    };
+  }, [trigger, query]);
+
+  if (!token || !suggestions || suggestions.trigger !== token.trigger || suggestions.items.length === 0) {
+    return null;
+  }
+
+  const select = (activeToken: AutocompleteToken, value: string) => {
+    const result = applyAutocomplete(text, activeToken, value);
+    setSuggestions(null);
+    onSelect(result.text, result.cursor);
+  };
+
+  return (
+    <View style={[styles.container, style]}>
+      <ScrollView keyboardShouldPersistTaps="handled" nestedScrollEnabled>
+        {suggestions.trigger === '#'
+          ? suggestions.items.map(hashtag => (
+              <TouchableOpacity key={hashtag.id} style={styles.row} onPress={() => select(token, hashtag.name)}>
+                <View style={styles.hashIcon}>
+                  <Hash size={16} color="#A29BFE" />
+                </View>
+                <View style={styles.info}>
+                  <Text style={styles.primary}>#{hashtag.name}</Text>
+                  <Text style={styles.secondary}>
+                    {hashtag.postCount + hashtag.reelCount} {hashtag.postCount + hashtag.reelCount === 1 ? 'post' : 'posts'}
+                  </Text>
+                </View>
+              </TouchableOpacity>
+            ))
+          : suggestions.items.map(user => (
+              <TouchableOpacity
+                key={user.id}
+                style={styles.row}
+                onPress={() => select(token, user.handle || user.username)}
+              >
+                <Image source={{ uri: user.avatar }} style={styles.avatar} />
+                <View style={styles.info}>
+                  <Text style={styles.primary}>{user.fullName || user.username}</Text>
+                  <Text style={styles.secondary}>
+                    @{user.handle || user.username}
+                    {user.isFollowing ? ' · Following' : ''}
+                  </Text>
+                </View>
+              </TouchableOpacity>
+            ))}
+      </ScrollView>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    maxHeight: 220,
+    backgroundColor: '#2A2A2A',
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: 'rgba(108, 92, 231, 0.3)',
+    marginBottom: 8,
+    overflow: 'hidden',
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+  },
+  avatar: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    backgroundColor: '#333',
+    marginRight: 10,
+  },
+  hashIcon: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    backgroundColor: 'rgba(108, 92, 231, 0.15)',
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginRight: 10,
+  },
+  info: {
+    flex: 1,
+  },
+  primary: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+  secondary: {
+    fontSize: 12,
+    color: '#A0A0A0',
+    marginTop: 1,
+  },
+});
+
+export default AutocompleteSuggestions;
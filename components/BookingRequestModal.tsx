@@ -0,0 +1,299 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  Modal,
+  TextInput,
+  ScrollView,
+  Alert,
+} from 'react-native';
+import { useFonts, Inter_400Regular, Inter_500Medium, Inter_600SemiBold } from '@expo-google-fonts/inter';
+import { X, Clock, DollarSign } from 'lucide-react-native';
+import { useUser } from '@/contexts/UserContext';
+import { dataService } from '@/services/dataService';
+import { Booking, BookingSlot, User } from '@/types';
+import SlotPicker from './SlotPicker';
+
+interface BookingRequestModalProps {
+  visible: boolean;
+  host: User;
+  onClose: () => void;
+  onBooked?: (booking: Booking) => void;
+}
+
+const DURATION_OPTIONS = [1, 2, 3];
+
+const BookingRequestModal: React.FC<BookingRequestModalProps> = ({ visible, host, onClose, onBooked }) => {
+  const { user: currentUser } = useUser();
+  const [duration, setDuration] = useState(1);
+  const [selectedSlot, setSelectedSlot] = useState<BookingSlot | null>(null);
+  const [description, setDescription] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [fontsLoaded] = useFonts({
+    Inter_400Regular,
+    Inter_500Medium,
+    Inter_600SemiBold,
+  });
+
+  const amount = (host.hourlyRate || 0) * duration;
+
+  const handleSubmit = async () => {
+    if (!currentUser) return;
+
+    if (!selectedSlot) {
+      Alert.alert('Pick a Time', 'Please choose one of the available times.');
+      return;
+    }
+
+    try {
+      setSubmitting(true);
+      const booking = await dataService.booking.requestBooking({
+        hostId: host.id,
+        clientId: currentUser.id,
+        startTime: selectedSlot.startTime,
+        endTime: selectedSlot.endTime,
+        description: description.trim() || undefined,
+      });
+
+      if (booking) {
+        setDescription('');
+        setSelectedSlot(null);
+        onBooked?.(booking);
+        onClose();
+        Alert.alert('Request Sent', `${host.username} will confirm your session soon.`);
+      } else {
+        Alert.alert('Error', 'Failed to request booking. The time may no longer be available.');
+      }
+    } catch (error) {
+      console.error('Error requesting booking:', error);
+      Alert.alert('Error', 'Failed to request booking');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  if (!fontsLoaded) return null;
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={onClose}
+    >
+      <View style={styles.modalContainer}>
+        <View style={styles.modalHeader}>
+          <TouchableOpacity onPress={onClose} style={styles.closeButton}>
+            <X size={24} color="#FFFFFF" />
+          </TouchableOpacity>
+          <Text style={[styles.modalTitle, { fontFamily: 'Inter_600SemiBold' }]}>
+            Book a Session
+          </Text>
+          <View style={styles.headerSpacer} />
+        </View>
+
+        <ScrollView style={styles.modalContent} showsVerticalScrollIndicator={false}>
+          <Text style={[styles.modalSubtitle, { fontFamily: 'Inter_500Medium' }]}>
+            Request time with {host.username}
+          </Text>
+
+          {/* Duration Selection */}
+          <View style={styles.section}>
+            <Text style={[styles.sectionLabel, { fontFamily: 'Inter_500Medium' }]}>Duration</Text>
+            <View style={styles.chipGrid}>
+              {DURATION_OPTIONS.map(hours => (
+                <TouchableOpacity
+                  key={hours}
+                  style={[styles.chip, duration === hours && styles.chipSelected]}
+                  onPress={() => setDuration(hours)}
+                >
+                  <Text style={[styles.chipText, { fontFamily: 'Inter_500Medium' }]}>
+                    {hours} {hours === 1 ? 'hour' : 'hours'}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+          </View>
+
+          {/* Time Slot Selection */}
+          <View style={styles.section}>
+            <View style={styles.sectionLabelRow}>
+              <Clock size={16} color="#6C5CE7" />
+              <Text style={[styles.sectionLabel, { fontFamily: 'Inter_500Medium' }]}>Available Times</Text>
+            </View>
+            <SlotPicker
+              hostId={host.id}
+              durationMinutes={duration * 60}
+              selectedSlot={selectedSlot}
+              onSelectSlot={setSelectedSlot}
+            />
+          </View>
+
+          {/* Note Input */}
+          <View style={styles.section}>
+            <Text style={[styles.sectionLabel, { fontFamily: 'Inter_500Medium' }]}>
+              Note (Optional)
+            </Text>
+            <TextInput
+              style={[styles.noteInput, { fontFamily: 'Inter_400Regular' }]}
+              placeholder="What would you like to talk about?"
+              placeholderTextColor="#666"
+              value={description}
+              onChangeText={setDescription}
+              multiline
+              numberOfLines={3}
+              textAlignVertical="top"
+            />
+          </View>
+
+          {/* Price Summary */}
+          <View style={styles.priceSummary}>
+            <DollarSign size={18} color="#00D46A" />
+            <Text style={[styles.priceText, { fontFamily: 'Inter_600SemiBold' }]}>
+              ${amount.toFixed(2)}
+            </Text>
+            <Text style={[styles.priceDetail, { fontFamily: 'Inter_400Regular' }]}>
+              {duration} × ${host.hourlyRate || 0}/hr
+            </Text>
+          </View>
+        </ScrollView>
+
+        <View style={styles.modalFooter}>
+          <TouchableOpacity
+            style={[styles.submitButton, submitting && styles.submitButtonDisabled]}
+            onPress={handleSubmit}
+            disabled={submitting}
+          >
+            <Text style={[styles.submitButtonText, { fontFamily: 'Inter_600SemiBold' }]}>
+              {submitting ? 'Sending...' : 'Request Booking'}
+            </Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  modalContainer: {
+    flex: 1,
+    backgroundColor: '#0A0A0A',
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    paddingTop: 60,
+    borderBottomWidth: 1,
+    borderBottomColor: '#333',
+  },
+  closeButton: {
+    padding: 8,
+  },
+  modalTitle: {
+    fontSize: 20,
+    color: '#FFFFFF',
+  },
+  headerSpacer: {
+    width: 40,
+  },
+  modalContent: {
+    flex: 1,
+    paddingHorizontal: 20,
+    paddingTop: 20,
+  },
+  modalSubtitle: {
+    fontSize: 16,
+    color: '#FFFFFF',
+    marginBottom: 24,
+  },
+  section: {
+    marginBottom: 24,
+  },
+  sectionLabelRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginBottom: 12,
+  },
+  sectionLabel: {
+    fontSize: 16,
+    color: '#FFFFFF',
+    marginBottom: 12,
+  },
+  chipGrid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+  },
+  chip: {
+    backgroundColor: '#1A1A1A',
+    borderWidth: 1,
+    borderColor: '#333',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    marginRight: 8,
+    marginBottom: 8,
+  },
+  chipSelected: {
+    backgroundColor: '#6C5CE7',
+    borderColor: '#6C5CE7',
+  },
+  chipText: {
+    fontSize: 14,
+    color: '#FFFFFF',
+  },
+  noteInput: {
+    backgroundColor: '#1A1A1A',
+    borderRadius: 12,
+    padding: 16,
+    fontSize: 16,
+    color: '#FFFFFF',
+    borderWidth: 1,
+    borderColor: '#333',
+    minHeight: 80,
+  },
+  priceSummary: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#1A1A1A',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 24,
+  },
+  priceText: {
+    fontSize: 18,
+    color: '#FFFFFF',
+    marginLeft: 8,
+  },
+  priceDetail: {
+    fontSize: 14,
+    color: '#888',
+    marginLeft: 12,
+  },
+  modalFooter: {
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    borderTopWidth: 1,
+    borderTopColor: '#333',
+  },
+  submitButton: {
+    backgroundColor: '#6C5CE7',
+    paddingVertical: 16,
+    borderRadius: 12,
+    alignItems: 'center',
+  },
+  submitButtonDisabled: {
+    opacity: 0.6,
+  },
+  submitButtonText: {
+    fontSize: 16,
+    color: '#FFFFFF',
+  },
+});
+
+export default BookingRequestModal;
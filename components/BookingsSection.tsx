@@ -0,0 +1,427 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  Alert,
+  Image,
+} from 'react-native';
+import { useFonts, Inter_400Regular, Inter_500Medium, Inter_600SemiBold } from '@expo-google-fonts/inter';
+import { CalendarClock, Check, X, Ban, CheckCircle, Plus } from 'lucide-react-native';
+import { useUser } from '@/contexts/UserContext';
+import { dataService, canTransitionBooking } from '@/services/dataService';
+import { Booking, BookingStatus, User } from '@/types';
+import BookingRequestModal from './BookingRequestModal';
+
+interface BookingsSectionProps {
+  // Profile owner, or the other participant when shown inside a conversation
+  user: User;
+  // Compact mode only shows upcoming bookings (used in the conversation header)
+  compact?: boolean;
+}
+
+interface BookingItemProps {
+  booking: Booking;
+  currentUserId: string;
+  onChangeStatus: (booking: Booking, status: BookingStatus) => void;
+}
+
+const STATUS_COLORS: Record<BookingStatus, string> = {
+  pending: '#FFA500',
+  accepted: '#00D46A',
+  declined: '#FF6B6B',
+  cancelled: '#888',
+  completed: '#6C5CE7',
+};
+
+const formatBookingTime = (booking: Booking) => {
+  const start = new Date(booking.startTime);
+  const end = new Date(booking.endTime);
+  const day = start.toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric' });
+  const from = start.toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' });
+  const to = end.toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' });
+  return `${day} · ${from} - ${to}`;
+};
+
+const BookingItem: React.FC<BookingItemProps> = ({ booking, currentUserId, onChangeStatus }) => {
+  const isHost = booking.hostId === currentUserId;
+  const counterpart = isHost ? booking.client : booking.host;
+  const hasStarted = new Date(booking.startTime).getTime() <= Date.now();
+
+  const canAccept = isHost && canTransitionBooking(booking.status, 'accepted');
+  const canDecline = isHost && canTransitionBooking(booking.status, 'declined');
+  const canComplete = isHost && hasStarted && canTransitionBooking(booking.status, 'completed');
+  const canCancel = canTransitionBooking(booking.status, 'cancelled');
+
+  return (
+    <View style={styles.bookingItem}>
+      <View style={styles.bookingHeader}>
+        {counterpart?.avatar ? (
+          <Image source={{ uri: counterpart.avatar }} style={styles.avatar} />
+        ) : (
+          <View style={styles.avatarPlaceholder}>
+            <Text style={[styles.avatarText, { fontFamily: 'Inter_600SemiBold' }]}>
+              {counterpart?.username?.charAt(0) || 'U'}
+            </Text>
+          </View>
+        )}
+        <View style={styles.bookingDetails}>
+          <Text style={[styles.bookingTitle, { fontFamily: 'Inter_600SemiBold' }]}>
+            {isHost ? 'Session with' : 'Session hosted by'} {counterpart?.fullName || counterpart?.username || 'Unknown'}
+          </Text>
+          <Text style={[styles.bookingTime, { fontFamily: 'Inter_400Regular' }]}>
+            {formatBookingTime(booking)}
+          </Text>
+        </View>
+        <View style={styles.bookingMeta}>
+          <Text style={[styles.bookingAmount, { fontFamily: 'Inter_600SemiBold' }]}>
+            ${booking.amount.toFixed(2)}
+          </Text>
+          <Text style={[styles.statusBadge, { color: STATUS_COLORS[booking.status], fontFamily: 'Inter_500Medium' }]}>
+            {booking.status}
+          </Text>
+        </View>
+      </View>
+
+      {booking.description ? (
+        <Text style={[styles.bookingDescription, { fontFamily: 'Inter_400Regular' }]} numberOfLines={2}>
+          {booking.description}
+        </Text>
+      ) : null}
+
+      {(canAccept || canDecline || canComplete || canCancel) && (
+        <View style={styles.actionsRow}>
+          {canAccept && (
+            <TouchableOpacity style={[styles.actionButton, styles.acceptButton]} onPress={() => onChangeStatus(booking, 'accepted')}>
+              <Check size={14} color="#FFFFFF" />
+              <Text style={[styles.actionText, { fontFamily: 'Inter_500Medium' }]}>Accept</Text>
+            </TouchableOpacity>
+          )}
+          {canDecline && (
+            <TouchableOpacity style={styles.actionButton} onPress={() => onChangeStatus(booking, 'declined')}>
+              <X size={14} color="#FFFFFF" />
+              <Text style={[styles.actionText, { fontFamily: 'Inter_500Medium' }]}>Decline</Text>
+            </TouchableOpacity>
+          )}
+          {canComplete && (
+            <TouchableOpacity style={[styles.actionButton, styles.completeButton]} onPress={() => onChangeStatus(booking, 'completed')}>
+              <CheckCircle size={14} color="#FFFFFF" />
+              <Text style={[styles.actionText, { fontFamily: 'Inter_500Medium' }]}>Complete</Text>
+            </TouchableOpacity>
+          )}
+          {canCancel && (
+            <TouchableOpacity style={styles.actionButton} onPress={() => onChangeStatus(booking, 'cancelled')}>
+              <Ban size={14} color="#FF6B6B" />
+              <Text style={[styles.actionText, styles.cancelText, { fontFamily: 'Inter_500Medium' }]}>Cancel</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+      )}
+    </View>
+  );
+};
+
+const BookingsSection: React.FC<BookingsSectionProps> = ({ user, compact = false }) => {
+  const { user: currentUser } = useUser();
+  const [upcoming, setUpcoming] = useState<Booking[]>([]);
+  const [past, setPast] = useState<Booking[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [showPast, setShowPast] = useState(false);
+  const [showRequestModal, setShowRequestModal] = useState(false);
+  const [isApprovedHost, setIsApprovedHost] = useState(false);
+  const [fontsLoaded] = useFonts({
+    Inter_400Regular,
+    Inter_500Medium,
+    Inter_600SemiBold,
+  });
+
+  const isOwnProfile = currentUser?.id === user.id;
+  // Hosts can only be booked once their application is approved
+  const canRequestBooking = !!currentUser && !isOwnProfile && !!user.isHost && isApprovedHost;
+
+  useEffect(() => {
+    if (!user.isHost || isOwnProfile) {
+      setIsApprovedHost(false);
+      return;
+    }
+
+    let cancelled = false;
+    dataService.host.isApprovedHost(user.id).then(approved => {
+      if (!cancelled) setIsApprovedHost(approved);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [user.id, user.isHost, isOwnProfile]);
+
+  const loadBookings = useCallback(async () => {
+    if (!currentUser) return;
+
+    try {
+      setLoading(true);
+      // Bookings are private to their participants, so other profiles only show shared bookings
+      const bookings = await dataService.booking.getUserBookings(
+        currentUser.id,
+        isOwnProfile ? undefined : user.id
+      );
+      setUpcoming(bookings.upcoming);
+      setPast(bookings.past);
+    } catch (error) {
+      console.error('Error loading bookings:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [currentUser, user.id, isOwnProfile]);
+
+  useEffect(() => {
+    loadBookings();
+  }, [loadBookings]);
+
+  const handleChangeStatus = (booking: Booking, status: BookingStatus) => {
+    if (!currentUser) return;
+
+    const labels: Record<BookingStatus, string> = {
+      pending: 'Request',
+      accepted: 'Accept',
+      declined: 'Decline',
+      cancelled: 'Cancel',
+      completed: 'Complete',
+    };
+
+    Alert.alert(
+      `${labels[status]} Booking`,
+      `Are you sure you want to ${labels[status].toLowerCase()} this booking?`,
+      [
+        { text: 'No', style: 'cancel' },
+        {
+          text: 'Yes',
+          style: status === 'cancelled' || status === 'declined' ? 'destructive' : 'default',
+          onPress: async () => {
+            const updated = await dataService.booking.updateBookingStatus(booking.id, currentUser.id, status);
+            if (updated) {
+              loadBookings();
+            } else {
+              Alert.alert('Error', 'Failed to update booking');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  if (!fontsLoaded || !currentUser) return null;
+
+  // Nothing to show on someone else's profile unless there is history or they can be booked
+  if (!isOwnProfile && !canRequestBooking && !loading && upcoming.length === 0 && past.length === 0) {
+    return null;
+  }
+
+  if (compact && upcoming.length === 0) return null;
+
+  return (
+    <View style={[styles.container, compact && styles.compactContainer]}>
+      <View style={styles.sectionHeader}>
+        <View style={styles.titleContainer}>
+          <CalendarClock size={20} color="#6C5CE7" />
+          <Text style={[styles.sectionTitle, { fontFamily: 'Inter_600SemiBold' }]}>
+            {compact ? 'Upcoming Sessions' : `Bookings (${upcoming.length})`}
+          </Text>
+        </View>
+
+        {canRequestBooking && !compact && (
+          <TouchableOpacity style={styles.bookButton} onPress={() => setShowRequestModal(true)}>
+            <Plus size={16} color="#FFFFFF" />
+            <Text style={[styles.bookButtonText, { fontFamily: 'Inter_500Medium' }]}>Book Session</Text>
+          </TouchableOpacity>
+        )}
+      </View>
+
+      {loading ? (
+        <Text style={[styles.emptyText, { fontFamily: 'Inter_400Regular' }]}>Loading bookings...</Text>
+      ) : upcoming.length === 0 ? (
+        <Text style={[styles.emptyText, { fontFamily: 'Inter_400Regular' }]}>No upcoming sessions</Text>
+      ) : (
+        upcoming.map(booking => (
+          <BookingItem
+            key={booking.id}
+            booking={booking}
+            currentUserId={currentUser.id}
+            onChangeStatus={handleChangeStatus}
+          />
+        ))
+      )}
+
+      {!compact && past.length > 0 && (
+        <>
+          <TouchableOpacity style={styles.pastToggle} onPress={() => setShowPast(!showPast)}>
+            <Text style={[styles.pastToggleText, { fontFamily: 'Inter_500Medium' }]}>
+              {showPast ? 'Hide past sessions' : `Show past sessions (${past.length})`}
+            </Text>
+          </TouchableOpacity>
+          {showPast && past.map(booking => (
+            <BookingItem
+              key={booking.id}
+              booking={booking}
+              currentUserId={currentUser.id}
+              onChangeStatus={handleChangeStatus}
+            />
+          ))}
+        </>
+      )}
+
+      {canRequestBooking && (
+        <BookingRequestModal
+          visible={showRequestModal}
+          host={user}
+          onClose={() => setShowRequestModal(false)}
+          onBooked={() => loadBookings()}
+        />
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: '#0A0A0A',
+    marginBottom: 20,
+  },
+  compactContainer: {
+    paddingHorizontal: 16,
+    paddingTop: 8,
+    marginBottom: 0,
+  },
+  sectionHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  titleContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  sectionTitle: {
+    fontSize: 18,
+    color: '#FFFFFF',
+    marginLeft: 8,
+  },
+  bookButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#6C5CE7',
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 8,
+  },
+  bookButtonText: {
+    fontSize: 14,
+    color: '#FFFFFF',
+    marginLeft: 4,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#888',
+    paddingVertical: 8,
+  },
+  bookingItem: {
+    backgroundColor: '#1A1A1A',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 12,
+  },
+  bookingHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  avatar: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    marginRight: 12,
+  },
+  avatarPlaceholder: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    backgroundColor: '#6C5CE7',
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginRight: 12,
+  },
+  avatarText: {
+    fontSize: 14,
+    color: '#FFFFFF',
+  },
+  bookingDetails: {
+    flex: 1,
+  },
+  bookingTitle: {
+    fontSize: 14,
+    color: '#FFFFFF',
+    marginBottom: 2,
+  },
+  bookingTime: {
+    fontSize: 12,
+    color: '#888',
+  },
+  bookingMeta: {
+    alignItems: 'flex-end',
+  },
+  bookingAmount: {
+    fontSize: 14,
+    color: '#FFFFFF',
+  },
+  statusBadge: {
+    fontSize: 12,
+    textTransform: 'capitalize',
+    marginTop: 2,
+  },
+  bookingDescription: {
+    fontSize: 13,
+    color: '#CCCCCC',
+    marginTop: 10,
+    lineHeight: 18,
+  },
+  actionsRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginTop: 12,
+  },
+  actionButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#2A2A2A',
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 8,
+    marginRight: 8,
+    marginTop: 4,
+  },
+  acceptButton: {
+    backgroundColor: '#00A854',
+  },
+  completeButton: {
+    backgroundColor: '#6C5CE7',
+  },
+  actionText: {
+    fontSize: 13,
+    color: '#FFFFFF',
+    marginLeft: 4,
+  },
+  cancelText: {
+    color: '#FF6B6B',
+  },
+  pastToggle: {
+    paddingVertical: 8,
+    marginBottom: 8,
+  },
+  pastToggleText: {
+    fontSize: 14,
+    color: '#6C5CE7',
+  },
+});
+
+export default BookingsSection;
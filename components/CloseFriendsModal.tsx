@@ -0,0 +1,257 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  StyleSheet,
+  Modal,
+  TextInput,
+  FlatList,
+  Image,
+  ActivityIndicator,
+  Alert,
+} from 'react-native';
+import { Check, Search, Star, X } from 'lucide-react-native';
+import { useUser } from '@/contexts/UserContext';
+import { dataService } from '@/services/dataService';
+import { User } from '@/types';
+
+interface CloseFriendsModalProps {
+  visible: boolean;
+  onClose: () => void;
+  onChange?: (closeFriendIds: string[]) => void;
+}
+
+// Manage the close-friends list: everyone you follow, with a toggle each
+export default function CloseFriendsModal({ visible, onClose, onChange }: CloseFriendsModalProps) {
+  const { user } = useUser();
+  const [people, setPeople] = useState<User[]>([]);
+  const [closeFriendIds, setCloseFriendIds] = useState<Set<string>>(new Set());
+  const [query, setQuery] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [updatingId, setUpdatingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!visible || !user) return;
+
+    const load = async () => {
+      setLoading(true);
+      setQuery('');
+      const [following, closeFriends] = await Promise.all([
+        dataService.user.getFollowing(user.id),
+        dataService.user.getCloseFriends(user.id),
+      ]);
+
+      // Close friends come first, followed by the rest of the people you follow
+      const followingOnly = following.filter(person => !closeFriends.some(friend => friend.id === person.id));
+      setPeople([...closeFriends, ...followingOnly]);
+      setCloseFriendIds(new Set(closeFriends.map(friend => friend.id)));
+      setLoading(false);
+    };
+
+    load();
+  }, [visible, user?.id]);
+
+  const filteredPeople = useMemo(() => {
+    const term = query.trim().toLowerCase();
+    if (!term) return people;
+    return people.filter(person =>
+      person.username?.toLowerCase().includes(term) || person.fullName?.toLowerCase().includes(term)
+    );
+  }, [people, query]);
+
+  const handleToggle = async (person: User) => {
+    if (!user || updatingId) return;
+
+    const isCloseFriend = closeFriendIds.has(person.id);
+    setUpdatingId(person.id);
+    const success = isCloseFriend
+      ? await dataService.user.removeCloseFriend(user.id, person.id)
+      : await dataService.user.addCloseFriend(user.id, person.id);
+    setUpdatingId(null);
+
+    if (!success) {
+      Alert.alert('Error', 'Failed to update your close friends. Please try again.');
+      return;
+    }
+
+    const next = new Set(closeFriendIds);
+    if (isCloseFriend) {
+      next.delete(person.id);
+    } else {
+      next.add(person.id);
+    }
+    setCloseFriendIds(next);
+    onChange?.(Array.from(next));
+  };
+
+  const renderPerson = ({ item }: { item: User }) => {
+    const selected = closeFriendIds.has(item.id);
+    return (
+      <TouchableOpacity style={styles.personRow} onPress={() => handleToggle(item)}>
+        <Image source={{ uri: item.avatar }} style={styles.avatar} />
+        <View style={styles.personText}>
+          <Text style={styles.username} numberOfLines={1}>{item.username}</Text>
+          {!!item.fullName && <Text style={styles.fullName} numberOfLines={1}>{item.fullName}</Text>}
+        </View>
+        {updatingId === item.id ? (
+          <ActivityIndicator size="small" color="#22C55E" />
+        ) : (
+          <View style={[styles.toggle, selected && styles.toggleSelected]}>
+            {selected && <Check size={14} color="#FFFFFF" strokeWidth={3} />}
+          </View>
+        )}
+      </TouchableOpacity>
+    );
+  };
+
+  return (
+    <Modal visible={visible} transparent animationType="slide" onRequestClose={onClose}>
+      <View style={styles.overlay}>
+        <View style={styles.sheet}>
+          <View style={styles.header}>
+            <Star size={18} color="#22C55E" fill="#22C55E" />
+            <Text style={styles.headerText}>Close Friends</Text>
+            <TouchableOpacity onPress={onClose} hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}>
+              <X size={22} color="#FFFFFF" />
+            </TouchableOpacity>
+          </View>
+
+          <Text style={styles.subtitle}>
+            Only people on this list can see stories you share with Close Friends. They are not told when you add or remove them.
+          </Text>
+
+          <View style={styles.searchBar}>
+            <Search size={16} color="#888" />
+            <TextInput
+              style={styles.searchInput}
+              placeholder="Search people you follow"
+              placeholderTextColor="#666"
+              value={query}
+              onChangeText={setQuery}
+              autoCapitalize="none"
+              autoCorrect={false}
+            />
+          </View>
+
+          {loading ? (
+            <ActivityIndicator size="large" color="#6C5CE7" style={styles.loading} />
+          ) : (
+            <FlatList
+              data={filteredPeople}
+              keyExtractor={item => item.id}
+              renderItem={renderPerson}
+              keyboardShouldPersistTaps="handled"
+              ListEmptyComponent={
+                <Text style={styles.emptyText}>
+                  {query ? 'No matches' : 'Follow people to add them to your close friends.'}
+                </Text>
+              }
+            />
+          )}
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.6)',
+    justifyContent: 'flex-end',
+  },
+  sheet: {
+    backgroundColor: '#2A2A2A',
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    height: '80%',
+    paddingBottom: 24,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+    paddingVertical: 16,
+    paddingHorizontal: 20,
+    borderBottomWidth: 1,
+    borderBottomColor: 'rgba(255, 255, 255, 0.08)',
+  },
+  headerText: {
+    flex: 1,
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+  subtitle: {
+    fontSize: 13,
+    color: '#888',
+    paddingHorizontal: 20,
+    marginTop: 12,
+  },
+  searchBar: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    backgroundColor: '#1E1E1E',
+    borderRadius: 12,
+    paddingHorizontal: 12,
+    marginHorizontal: 20,
+    marginVertical: 12,
+  },
+  searchInput: {
+    flex: 1,
+    paddingVertical: 10,
+    fontSize: 14,
+    color: '#FFFFFF',
+  },
+  loading: {
+    marginTop: 40,
+  },
+  personRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 10,
+    paddingHorizontal: 20,
+  },
+  avatar: {
+    width: 44,
+    height: 44,
+    borderRadius: 22,
+    backgroundColor: '#1E1E1E',
+  },
+  personText: {
+    flex: 1,
+    marginLeft: 12,
+  },
+  username: {
+    fontSize: 15,
+    fontWeight: '500',
+    color: '#FFFFFF',
+  },
+  fullName: {
+    fontSize: 13,
+    color: '#888',
+    marginTop: 2,
+  },
+  toggle: {
+    width: 24,
+    height: 24,
+    borderRadius: 12,
+    borderWidth: 2,
+    borderColor: '#555',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  toggleSelected: {
+    backgroundColor: '#22C55E',
+    borderColor: '#22C55E',
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#888',
+    textAlign: 'center',
+    marginTop: 40,
+    paddingHorizontal: 20,
+  },
+});
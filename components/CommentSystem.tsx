@@ -28,6 +28,9 @@ import Animated, {
 import * as Haptics from 'expo-haptics';
 import { Send, X, Heart, MessageCircle, MoveHorizontal as MoreHorizontal, CreditCard as Edit3, Trash2, Reply, ChevronRight } from 'lucide-react-native';
 import { dataService } from '../services/dataService';
+import ReportModal from './ReportModal';
+import MentionText from './MentionText';
+import AutocompleteSuggestions from './AutocompleteSuggestions';
 import { Comment } from '../types';
 
 const { height: SCREEN_HEIGHT } = Dimensions.get('window');
@@ -47,9 +50,10 @@ const CommentItem: React.FC<{
   onReply: (comment: Comment) => void;
   onEdit: (comment: Comment) => void;
   onDelete: (commentId: string) => void;
+  onReport: (comment: Comment) => void;
   currentUserId: string;
   isReply?: boolean;
-}> = ({ comment, onLike, onReply, onEdit, onDelete, currentUserId, isReply = false }) => {
+}> = ({ comment, onLike, onReply, onEdit, onDelete, onReport, currentUserId, isReply = false }) => {
   const router = useRouter();
   const likeScale = useSharedValue(1);
   const [showActions, setShowActions] = useState(false);
@@ -110,6 +114,11 @@ const CommentItem: React.FC<{
     onReply(comment);
   };
 
+  const handleReport = () => {
+    setShowActions(false);
+    onReport(comment);
+  };
+
   const likeAnimatedStyle = useAnimatedStyle(() => ({
     transform: [{ scale: likeScale.value }],
   }));
@@ -133,7 +142,7 @@ const CommentItem: React.FC<{
               {comment.user?.username || 'Unknown User'}
             </Text>
           </TouchableOpacity>
-          <Text style={styles.commentText}>{comment.content}</Text>
+          <MentionText text={comment.content} mentions={comment.mentions} style={styles.commentText} />
         </View>
         
         <View style={styles.commentActions}>
@@ -185,7 +194,7 @@ const CommentItem: React.FC<{
             )}
             {!isOwner && (
               <>
-                <TouchableOpacity style={styles.actionMenuItem}>
+                <TouchableOpacity style={styles.actionMenuItem} onPress={handleReport}>
                   <Text style={styles.actionMenuText}>Report</Text>
                 </TouchableOpacity>
                 <TouchableOpacity style={styles.actionMenuItem} onPress={handleDelete}>
@@ -261,10 +270,12 @@ export default function CommentSystem({ visible, onClose, postId, postType }: Co
   };
   
   const [newComment, setNewComment] = useState('');
+  const [commentCursor, setCommentCursor] = useState(0);
   const [replyTo, setReplyTo] = useState<Comment | null>(null);
   const [editingComment, setEditingComment] = useState<Comment | null>(null);
   const [editText, setEditText] = useState('');
   const [sendingComment, setSendingComment] = useState(false);
+  const [reportingComment, setReportingComment] = useState<Comment | null>(null);
   const flatListRef = useRef<FlatList>(null);
   const textInputRef = useRef<TextInput>(null);
   const slideUp = useSharedValue(0);
@@ -402,6 +413,7 @@ export default function CommentSystem({ visible, onClose, postId, postType }: Co
       onReply={handleReplyToComment}
       onEdit={handleEditComment}
       onDelete={handleDeleteComment}
+      onReport={setReportingComment}
       currentUserId={currentUserId}
     />
   );
@@ -498,6 +510,14 @@ export default function CommentSystem({ visible, onClose, postId, postType }: Co
 
             {/* Input */}
             <View style={styles.inputContainer}>
+              <AutocompleteSuggestions
+                text={newComment}
+                cursor={commentCursor}
+                onSelect={(text, cursor) => {
+                  setNewComment(text);
+                  setCommentCursor(cursor);
+                }}
+              />
               <View style={styles.inputRow}>
                 <TextInput
                   ref={textInputRef}
@@ -506,6 +526,7 @@ export default function CommentSystem({ visible, onClose, postId, postType }: Co
                   placeholderTextColor="#A0A0A0"
                   value={newComment}
                   onChangeText={setNewComment}
+                  onSelectionChange={event => setCommentCursor(event.nativeEvent.selection.end)}
                   multiline
                   maxLength={2000}
                   onFocus={() => {
@@ -532,6 +553,16 @@ export default function CommentSystem({ visible, onClose, postId, postType }: Co
           </KeyboardAvoidingView>
         </Animated.View>
       </View>
+
+      {reportingComment && (
+        <ReportModal
+          visible={!!reportingComment}
+          onClose={() => setReportingComment(null)}
+          targetType="comment"
+          targetId={reportingComment.id}
+          targetUserId={reportingComment.userId}
+        />
+      )}
     </Modal>
   );
 }
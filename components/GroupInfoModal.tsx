@@ -0,0 +1,516 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  FlatList,
+  StyleSheet,
+  Modal,
+  TextInput,
+  ActivityIndicator,
+  Alert,
+} from 'react-native';
+import { X, Search, Check, UserPlus, LogOut, Shield, Users } from 'lucide-react-native';
+import CachedImage from './CachedImage';
+import { dataService } from '../services/dataService';
+import { ConversationDetails, ConversationMember, User } from '@/types';
+
+interface GroupInfoModalProps {
+  visible: boolean;
+  onClose: () => void;
+  details: ConversationDetails | null;
+  currentUserId?: string;
+  onChanged: () => void;
+  onLeft: () => void;
+}
+
+const GroupInfoModal: React.FC<GroupInfoModalProps> = ({
+  visible,
+  onClose,
+  details,
+  currentUserId,
+  onChanged,
+  onLeft,
+}) => {
+  const [title, setTitle] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [addingMembers, setAddingMembers] = useState(false);
+  const [candidates, setCandidates] = useState<User[]>([]);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [searchQuery, setSearchQuery] = useState('');
+  const [loadingCandidates, setLoadingCandidates] = useState(false);
+
+  const members = details?.members || [];
+  const isAdmin = members.some(m => m.user.id === currentUserId && m.role === 'admin');
+
+  useEffect(() => {
+    if (visible) {
+      setTitle(details?.title || '');
+      setAddingMembers(false);
+      setSelectedIds([]);
+      setSearchQuery('');
+    }
+  }, [visible, details?.title]);
+
+  const loadCandidates = async () => {
+    if (!currentUserId) return;
+
+    try {
+      setLoadingCandidates(true);
+      const following = await dataService.user.getFollowing(currentUserId, currentUserId);
+      const memberIds = new Set(members.map(m => m.user.id));
+      setCandidates(following.filter(user => !memberIds.has(user.id)));
+    } catch (error) {
+      console.error('Error loading people to add:', error);
+    } finally {
+      setLoadingCandidates(false);
+    }
+  };
+
+  const handleStartAdding = () => {
+    setAddingMembers(true);
+    loadCandidates();
+  };
+
+  const toggleSelected = (userId: string) => {
+    setSelectedIds(prev =>
+      prev.includes(userId) ? prev.filter(id => id !== userId) : [...prev, userId]
+    );
+  };
+
+  const handleAddMembers = async () => {
+    if (!details || selectedIds.length === 0) return;
+
+    setSaving(true);
+    const added = await dataService.message.addGroupMembers(details.id, selectedIds);
+    setSaving(false);
+
+    if (added === 0) {
+      Alert.alert('Error', 'Failed to add members');
+      return;
+    }
+
+    setAddingMembers(false);
+    setSelectedIds([]);
+    onChanged();
+  };
+
+  const handleSaveTitle = async () => {
+    if (!details) return;
+
+    const trimmed = title.trim();
+    if (!trimmed) {
+      Alert.alert('Group Name', 'Please enter a name for the group');
+      return;
+    }
+    if (trimmed === details.title) return;
+
+    setSaving(true);
+    const success = await dataService.message.updateGroupDetails(details.id, trimmed, details.avatar);
+    setSaving(false);
+
+    if (!success) {
+      Alert.alert('Error', 'Failed to rename group');
+      return;
+    }
+    onChanged();
+  };
+
+  const handleMemberPress = (member: ConversationMember) => {
+    if (!details || !isAdmin || member.user.id === currentUserId) return;
+
+    const name = member.user.username || member.user.fullName || 'this member';
+    const memberIsAdmin = member.role === 'admin';
+
+    Alert.alert(name, undefined, [
+      {
+        text: memberIsAdmin ? 'Remove as Admin' : 'Make Admin',
+        onPress: async () => {
+          const success = await dataService.message.setGroupAdmin(details.id, member.user.id, !memberIsAdmin);
+          if (!success) {
+            Alert.alert('Error', 'Failed to change role');
+            return;
+          }
+          onChanged();
+        },
+      },
+      {
+        text: 'Remove from Group',
+        style: 'destructive',
+        onPress: async () => {
+          const success = await dataService.message.removeGroupMember(details.id, member.user.id);
+          if (!success) {
+            Alert.alert('Error', 'Failed to remove member');
+            return;
+          }
+          onChanged();
+        },
+      },
+      { text: 'Cancel', style: 'cancel' },
+    ]);
+  };
+
+  const handleLeave = () => {
+    if (!details) return;
+
+    Alert.alert('Leave Group', 'You will stop receiving messages from this group.', [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Leave',
+        style: 'destructive',
+        onPress: async () => {
+          const success = await dataService.message.leaveGroupConversation(details.id);
+          if (!success) {
+            Alert.alert('Error', 'Failed to leave group');
+            return;
+          }
+          onLeft();
+        },
+      },
+    ]);
+  };
+
+  const renderMember = ({ item: member }: { item: ConversationMember }) => (
+    <TouchableOpacity
+      style={styles.userItem}
+      onPress={() => handleMemberPress(member)}
+      disabled={!isAdmin || member.user.id === currentUserId}
+    >
+      <CachedImage
+        source={{ uri: member.user.avatar }}
+        style={styles.avatar}
+        cacheType="thumbnail"
+        showLoader={false}
+      />
+      <Text style={styles.username} numberOfLines={1}>
+        {member.user.id === currentUserId ? 'You' : member.user.username || member.user.fullName}
+      </Text>
+      {member.role === 'admin' && (
+        <View style={styles.adminBadge}>
+          <Shield size={12} color="#6C5CE7" />
+          <Text style={styles.adminBadgeText}>Admin</Text>
+        </View>
+      )}
+    </TouchableOpacity>
+  );
+
+  const renderCandidate = ({ item: user }: { item: User }) => {
+    const selected = selectedIds.includes(user.id);
+    return (
+      <TouchableOpacity style={styles.userItem} onPress={() => toggleSelected(user.id)}>
+        <CachedImage
+          source={{ uri: user.avatar }}
+          style={styles.avatar}
+          cacheType="thumbnail"
+          showLoader={false}
+        />
+        <Text style={styles.username} numberOfLines={1}>{user.username}</Text>
+        <View style={[styles.checkbox, selected && styles.checkboxSelected]}>
+          {selected && <Check size={14} color="#FFFFFF" />}
+        </View>
+      </TouchableOpacity>
+    );
+  };
+
+  const filteredCandidates = candidates.filter(user =>
+    user.username?.toLowerCase().includes(searchQuery.toLowerCase())
+  );
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={onClose}
+    >
+      <View style={styles.container}>
+        <View style={styles.header}>
+          <Text style={styles.title}>{addingMembers ? 'Add Members' : 'Group Info'}</Text>
+          <TouchableOpacity
+            onPress={addingMembers ? () => setAddingMembers(false) : onClose}
+            style={styles.closeButton}
+          >
+            <X size={24} color="#FFFFFF" />
+          </TouchableOpacity>
+        </View>
+
+        {addingMembers ? (
+          <>
+            <View style={styles.searchContainer}>
+              <Search size={20} color="#999" style={styles.searchIcon} />
+              <TextInput
+                style={styles.searchInput}
+                placeholder="Search people you follow..."
+                value={searchQuery}
+                onChangeText={setSearchQuery}
+                placeholderTextColor="#999"
+              />
+            </View>
+
+            {loadingCandidates ? (
+              <View style={styles.loadingContainer}>
+                <ActivityIndicator size="large" color="#6C5CE7" />
+              </View>
+            ) : (
+              <FlatList
+                data={filteredCandidates}
+                renderItem={renderCandidate}
+                keyExtractor={(item) => item.id}
+                style={styles.userList}
+                ListEmptyComponent={<Text style={styles.emptyText}>No one else to add</Text>}
+              />
+            )}
+
+            <TouchableOpacity
+              style={[styles.primaryButton, (selectedIds.length === 0 || saving) && styles.buttonDisabled]}
+              onPress={handleAddMembers}
+              disabled={selectedIds.length === 0 || saving}
+            >
+              {saving ? (
+                <ActivityIndicator size="small" color="#FFFFFF" />
+              ) : (
+                <Text style={styles.primaryButtonText}>
+                  Add {selectedIds.length > 0 ? `(${selectedIds.length})` : ''}
+                </Text>
+              )}
+            </TouchableOpacity>
+          </>
+        ) : (
+          <>
+            <View style={styles.groupSummary}>
+              {details?.avatar ? (
+                <CachedImage source={{ uri: details.avatar }} style={styles.groupAvatar} cacheType="thumbnail" />
+              ) : (
+                <View style={[styles.groupAvatar, styles.groupAvatarPlaceholder]}>
+                  <Users size={32} color="#FFFFFF" />
+                </View>
+              )}
+              {isAdmin ? (
+                <View style={styles.titleRow}>
+                  <TextInput
+                    style={styles.titleInput}
+                    value={title}
+                    onChangeText={setTitle}
+                    placeholder="Group name"
+                    placeholderTextColor="#999"
+                    maxLength={60}
+                    onSubmitEditing={handleSaveTitle}
+                    returnKeyType="done"
+                  />
+                  {title.trim() !== (details?.title || '') && (
+                    <TouchableOpacity onPress={handleSaveTitle} disabled={saving}>
+                      <Text style={styles.saveText}>Save</Text>
+                    </TouchableOpacity>
+                  )}
+                </View>
+              ) : (
+                <Text style={styles.groupTitle}>{details?.title || 'Group'}</Text>
+              )}
+              <Text style={styles.memberCount}>{members.length} members</Text>
+            </View>
+
+            <FlatList
+              data={members}
+              renderItem={renderMember}
+              keyExtractor={(item) => item.user.id}
+              style={styles.userList}
+            />
+
+            {isAdmin && (
+              <TouchableOpacity style={styles.actionRow} onPress={handleStartAdding}>
+                <UserPlus size={20} color="#6C5CE7" />
+                <Text style={styles.actionText}>Add Members</Text>
+              </TouchableOpacity>
+            )}
+            <TouchableOpacity style={styles.actionRow} onPress={handleLeave}>
+              <LogOut size={20} color="#EF4444" />
+              <Text style={[styles.actionText, styles.leaveText]}>Leave Group</Text>
+            </TouchableOpacity>
+          </>
+        )}
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#1E1E1E',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: '#2A2A2A',
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+  closeButton: {
+    padding: 4,
+  },
+  groupSummary: {
+    alignItems: 'center',
+    paddingVertical: 20,
+    paddingHorizontal: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: '#2A2A2A',
+  },
+  groupAvatar: {
+    width: 72,
+    height: 72,
+    borderRadius: 36,
+    marginBottom: 12,
+  },
+  groupAvatarPlaceholder: {
+    backgroundColor: '#6C5CE7',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  titleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  titleInput: {
+    minWidth: 160,
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#FFFFFF',
+    textAlign: 'center',
+    paddingVertical: 4,
+    borderBottomWidth: 1,
+    borderBottomColor: '#444',
+  },
+  saveText: {
+    marginLeft: 12,
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#6C5CE7',
+  },
+  groupTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+  memberCount: {
+    marginTop: 4,
+    fontSize: 13,
+    color: '#999',
+  },
+  searchContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    margin: 16,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    backgroundColor: '#2A2A2A',
+    borderRadius: 20,
+  },
+  searchIcon: {
+    marginRight: 8,
+  },
+  searchInput: {
+    flex: 1,
+    fontSize: 16,
+    color: '#FFFFFF',
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  userList: {
+    flex: 1,
+  },
+  userItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: '#2A2A2A',
+  },
+  avatar: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    marginRight: 12,
+  },
+  username: {
+    flex: 1,
+    fontSize: 16,
+    color: '#FFFFFF',
+    fontWeight: '500',
+  },
+  adminBadge: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+    borderRadius: 10,
+    backgroundColor: 'rgba(108, 92, 231, 0.15)',
+  },
+  adminBadgeText: {
+    marginLeft: 4,
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#6C5CE7',
+  },
+  checkbox: {
+    width: 22,
+    height: 22,
+    borderRadius: 11,
+    borderWidth: 2,
+    borderColor: '#666',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  checkboxSelected: {
+    backgroundColor: '#6C5CE7',
+    borderColor: '#6C5CE7',
+  },
+  emptyText: {
+    textAlign: 'center',
+    color: '#999',
+    fontSize: 14,
+    marginTop: 32,
+  },
+  actionRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 16,
+    borderTopWidth: 1,
+    borderTopColor: '#2A2A2A',
+  },
+  actionText: {
+    marginLeft: 12,
+    fontSize: 16,
+    fontWeight: '500',
+    color: '#6C5CE7',
+  },
+  leaveText: {
+    color: '#EF4444',
+  },
+  primaryButton: {
+    margin: 16,
+    paddingVertical: 14,
+    borderRadius: 24,
+    backgroundColor: '#6C5CE7',
+    alignItems: 'center',
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+  primaryButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+});
+
+export default GroupInfoModal;
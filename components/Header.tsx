@@ -18,6 +18,7 @@ import Animated, {
 } from 'react-native-reanimated';
 import * as Haptics from 'expo-haptics';
 import { useUser } from '@/contexts/UserContext';
+import { notificationService } from '@/services/notificationService';
 
 interface HeaderProps {
   onMessagesPress?: () => void;
@@ -30,7 +31,12 @@ export default function Header({ onMessagesPress }: HeaderProps) {
   const { user } = useUser();
   const logoGlow = useSharedValue(0);
   const messageScale = useSharedValue(1);
-  const [unreadCount] = useState(2);
+  const [unreadCount, setUnreadCount] = useState(0);
+
+  // Unread conversations from the shared badge counts
+  React.useEffect(() => {
+    return notificationService.subscribeToBadge(counts => setUnreadCount(counts.conversations));
+  }, []);
 
   // Don't render if no user data
   if (!user) {
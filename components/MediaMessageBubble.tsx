@@ -1,4 +1,4 @@
-import React, { useState, useRef, useEffect } from 'react';
+import React, { useState, useEffect } from 'react';
 import {
   View,
   Text,
@@ -10,19 +10,23 @@ import {
   Clipboard,
 } from 'react-native';
 import { LinearGradient } from 'expo-linear-gradient';
-import { Audio } from 'expo-av';
 import * as Haptics from 'expo-haptics';
 import { 
   Play, 
-  Pause, 
-  Volume2, 
   Heart, 
   MessageCircle, 
   Share,
-  User
+  User,
+  Clock,
+  AlertCircle,
+  Check,
+  CheckCheck
 } from 'lucide-react-native';
 import { Message, User as UserType, Post, Reel } from '@/types';
+import VoiceMessagePlayer from '@/components/VoiceMessagePlayer';
 import { generateThumbnailAtTime } from '@/utils/videoThumbnailGenerator';
+import { getReceiptStatus } from '@/utils/messageReceipts';
+import { getReplyPreviewText, summarizeReactions } from '@/utils/messageReactions';
 
 const { width } = Dimensions.get('window');
 
@@ -30,34 +34,34 @@ interface MediaMessageBubbleProps {
   message: Message;
   isOwn: boolean;
   otherUser?: UserType;
+  showSenderName?: boolean; // Group conversations label each bubble with its sender
   onImagePress?: (imageUri: string) => void;
   onContentPress?: (content: Post | Reel) => void;
   onLongPress?: (message: Message) => void;
+  onRetry?: (message: Message) => void;
+  onDiscard?: (message: Message) => void;
+  onShowReceipts?: (message: Message) => void; // "Seen by" list, used in group conversations
+  currentUserId?: string; // Highlights the current user's reaction
+  onReactionPress?: (message: Message, emoji: string) => void;
+  onScheduledPress?: (message: Message) => void; // Options for a message that has not been sent yet
 }
 
 export default function MediaMessageBubble({
   message,
   isOwn,
   otherUser,
+  showSenderName = false,
   onImagePress,
   onContentPress,
-  onLongPress
+  onLongPress,
+  onRetry,
+  onDiscard,
+  onShowReceipts,
+  currentUserId,
+  onReactionPress,
+  onScheduledPress
 }: MediaMessageBubbleProps) {
-  const [isPlaying, setIsPlaying] = useState(false);
-  const [playbackPosition, setPlaybackPosition] = useState(0);
-  const [playbackDuration, setPlaybackDuration] = useState(0);
   const [generatedThumbnails, setGeneratedThumbnails] = useState<{[key: string]: string}>({});
-  const soundRef = useRef<Audio.Sound | null>(null);
-
-  // Clean up audio on unmount
-  useEffect(() => {
-    return () => {
-      if (soundRef.current) {
-        soundRef.current.unloadAsync();
-      }
-    };
-  }, []);
-
   // Generate thumbnail for video stories
   useEffect(() => {
     const generateStoryThumbnail = async () => {
@@ -92,54 +96,6 @@ export default function MediaMessageBubble({
     generateStoryThumbnail();
   }, [message.type, message.sharedStory?.id, message.sharedStory?.videoUrl, message.sharedStory?.video, message.sharedStory?.image]);
 
-  // Handle voice message playback
-  const toggleVoicePlayback = async () => {
-    try {
-      if (!message.mediaUrl) return;
-
-      if (!soundRef.current) {
-        const { sound } = await Audio.Sound.createAsync(
-          { uri: message.mediaUrl },
-          { shouldPlay: false }
-        );
-        soundRef.current = sound;
-
-        // Set up playback status update
-        soundRef.current.setOnPlaybackStatusUpdate((status) => {
-          if (status.isLoaded) {
-            setPlaybackPosition(status.positionMillis || 0);
-            setPlaybackDuration(status.durationMillis || 0);
-            
-            if (status.didJustFinish) {
-              setIsPlaying(false);
-              setPlaybackPosition(0);
-            }
-          }
-        });
-      }
-
-      if (isPlaying) {
-        await soundRef.current.pauseAsync();
-        setIsPlaying(false);
-      } else {
-        await soundRef.current.playAsync();
-        setIsPlaying(true);
-      }
-
-      Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
-    } catch (error) {
-      Alert.alert('Error', 'Failed to play voice message');
-    }
-  };
-
-  // Format duration for voice messages
-  const formatDuration = (millis: number) => {
-    const seconds = Math.floor(millis / 1000);
-    const mins = Math.floor(seconds / 60);
-    const secs = seconds % 60;
-    return `${mins}:${secs.toString().padStart(2, '0')}`;
-  };
-
   // Handle long press
   const handleLongPress = () => {
     console.log('🔥 LONG_PRESS - Message bubble long pressed:', { messageId: message.id, messageType: message.type });
@@ -149,6 +105,17 @@ export default function MediaMessageBubble({
     onLongPress?.(message);
   };
 
+  // Messages that could not be sent can be retried or thrown away
+  const handlePress = () => {
+    if (message.deliveryStatus !== 'failed') return;
+
+    Alert.alert('Message Not Sent', 'This message could not be delivered.', [
+      { text: 'Cancel', style: 'cancel' },
+      { text: 'Discard', style: 'destructive', onPress: () => onDiscard?.(message) },
+      { text: 'Retry', onPress: () => onRetry?.(message) },
+    ]);
+  };
+
   // Render different message types
   const renderMessageContent = () => {
     switch (message.type) {
@@ -193,53 +160,7 @@ export default function MediaMessageBubble({
 
       case 'voice':
         return (
-          <TouchableOpacity
-            style={styles.voiceContainer}
-            onLongPress={handleLongPress}
-            delayLongPress={500}
-            activeOpacity={0.7}
-          >
-            <TouchableOpacity
-              onPress={toggleVoicePlayback}
-              style={[styles.voicePlayButton, isOwn && styles.ownVoicePlayButton]}
-            >
-              {isPlaying ? (
-                <Pause size={16} color={isOwn ? "#FFFFFF" : "#6C5CE7"} />
-              ) : (
-                <Play size={16} color={isOwn ? "#FFFFFF" : "#6C5CE7"} />
-              )}
-            </TouchableOpacity>
-            
-            <View style={styles.voiceInfo}>
-              <View style={[styles.voiceWaveform, isOwn && styles.ownVoiceWaveform]}>
-                {/* Simple waveform visualization */}
-                {Array.from({ length: 20 }).map((_, index) => (
-                  <View
-                    key={index}
-                    style={[
-                      styles.waveformBar,
-                      isOwn && styles.ownWaveformBar,
-                      {
-                        height: Math.random() * 20 + 4,
-                        opacity: playbackDuration > 0 
-                          ? (playbackPosition / playbackDuration) > (index / 20) ? 1 : 0.3
-                          : 0.6
-                      }
-                    ]}
-                  />
-                ))}
-              </View>
-              
-              <Text style={[styles.voiceDuration, isOwn && styles.ownMessageText]}>
-                {playbackDuration > 0 
-                  ? formatDuration(playbackPosition) 
-                  : formatDuration((message.duration || 0) * 1000)
-                }
-              </Text>
-            </View>
-
-            <Volume2 size={16} color={isOwn ? "#FFFFFF" : "#666"} style={styles.voiceIcon} />
-          </TouchableOpacity>
+          <VoiceMessagePlayer message={message} isOwn={isOwn} onLongPress={handleLongPress} />
         );
 
       case 'post':
@@ -506,32 +427,147 @@ export default function MediaMessageBubble({
     }
   };
 
-  return (
-    <View style={[styles.container, isOwn && styles.ownContainer]}>
+  // Membership changes in group conversations are shown as centered notices
+  if (message.type === 'system') {
+    return (
+      <View style={styles.systemContainer}>
+        <Text style={styles.systemText}>{message.content}</Text>
+      </View>
+    );
+  }
+
+  const senderName = otherUser?.username || message.senderName;
+
+  // One tick when stored, two when delivered, two highlighted when read
+  const renderReceiptTicks = () => {
+    const status = getReceiptStatus(message);
+    const ticks = status === 'sent' ? (
+      <Check size={14} color="rgba(255, 255, 255, 0.7)" />
+    ) : (
+      <CheckCheck size={14} color={status === 'read' ? '#4FC3F7' : 'rgba(255, 255, 255, 0.7)'} />
+    );
+
+    if (!onShowReceipts) {
+      return <View style={styles.receiptTicks}>{ticks}</View>;
+    }
+
+    return (
       <TouchableOpacity
-        onLongPress={handleLongPress}
-        delayLongPress={500}
-        activeOpacity={0.7}
-        style={[
-          styles.bubble,
-          isOwn ? styles.ownBubble : styles.otherBubble,
-          message.type === 'image' && styles.imageBubble,
-          message.isDeleted && styles.deletedBubble
-        ]}
+        style={styles.receiptTicks}
+        onPress={() => onShowReceipts(message)}
+        hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
       >
-        {renderMessageContent()}
-        
-        <Text style={[styles.timestamp, isOwn && styles.ownTimestamp]}>
-          {new Date(message.timestamp).toLocaleTimeString('en-US', {
-            hour: '2-digit',
-            minute: '2-digit'
-          })}
-        </Text>
+        {ticks}
       </TouchableOpacity>
+    );
+  };
+
+  // Quoted message above a reply
+  const renderReplyPreview = () => {
+    if (!message.replyTo) return null;
+
+    const quotedName = message.replyTo.senderId === currentUserId
+      ? 'You'
+      : message.replyTo.senderName || (message.replyTo.senderId === otherUser?.id ? otherUser?.username : undefined);
+
+    return (
+      <View style={[styles.replyPreview, isOwn && styles.ownReplyPreview]}>
+        {!!quotedName && <Text style={styles.replySender} numberOfLines={1}>{quotedName}</Text>}
+        <Text style={styles.replyText} numberOfLines={2}>{getReplyPreviewText(message.replyTo)}</Text>
+      </View>
+    );
+  };
+
+  // Reaction counts under the bubble; tapping one toggles the current user's reaction
+  const renderReactions = () => {
+    const summaries = summarizeReactions(message.reactions, currentUserId);
+    if (summaries.length === 0) return null;
+
+    return (
+      <View style={[styles.reactions, isOwn && styles.ownReactions]}>
+        {summaries.map(summary => (
+          <TouchableOpacity
+            key={summary.emoji}
+            style={[styles.reactionChip, summary.reactedByMe && styles.ownReactionChip]}
+            onPress={() => onReactionPress?.(message, summary.emoji)}
+            disabled={!onReactionPress}
+          >
+            <Text style={styles.reactionEmoji}>{summary.emoji}</Text>
+            {summary.count > 1 && <Text style={styles.reactionCount}>{summary.count}</Text>}
+          </TouchableOpacity>
+        ))}
+      </View>
+    );
+  };
+
+  return (
+    <View style={[styles.container, isOwn && styles.ownContainer]}>
+      <View style={[styles.bubbleColumn, isOwn && styles.ownBubbleColumn]}>
+        <TouchableOpacity
+          onPress={
+            message.scheduledFor
+              ? () => onScheduledPress?.(message)
+              : message.deliveryStatus === 'failed' ? handlePress : undefined
+          }
+          onLongPress={message.deliveryStatus || message.scheduledFor ? undefined : handleLongPress}
+          delayLongPress={500}
+          activeOpacity={0.7}
+          style={[
+            styles.bubble,
+            isOwn ? styles.ownBubble : styles.otherBubble,
+            message.type === 'image' && styles.imageBubble,
+            message.isDeleted && styles.deletedBubble,
+            message.deliveryStatus === 'pending' && styles.pendingBubble,
+            message.deliveryStatus === 'failed' && styles.failedBubble,
+            !!message.scheduledFor && styles.scheduledBubble
+          ]}
+        >
+          {showSenderName && !isOwn && !!senderName && (
+            <Text style={styles.senderName} numberOfLines={1}>{senderName}</Text>
+          )}
+          {renderReplyPreview()}
+          {renderMessageContent()}
+        
+          {message.scheduledFor ? (
+            <View style={styles.deliveryStatus}>
+              <Clock size={12} color="rgba(255, 255, 255, 0.7)" />
+              <Text style={[styles.deliveryStatusText, isOwn && styles.ownTimestamp]}>
+                Scheduled · {new Date(message.scheduledFor).toLocaleString('en-US', {
+                  month: 'short',
+                  day: 'numeric',
+                  hour: 'numeric',
+                  minute: '2-digit'
+                })}
+              </Text>
+            </View>
+          ) : message.deliveryStatus === 'pending' ? (
+            <View style={styles.deliveryStatus}>
+              <Clock size={12} color="rgba(255, 255, 255, 0.7)" />
+              <Text style={[styles.deliveryStatusText, isOwn && styles.ownTimestamp]}>Sending…</Text>
+            </View>
+          ) : message.deliveryStatus === 'failed' ? (
+            <View style={styles.deliveryStatus}>
+              <AlertCircle size={12} color="#FFB4B4" />
+              <Text style={[styles.deliveryStatusText, styles.failedStatusText]}>Not sent · Tap to retry</Text>
+            </View>
+          ) : (
+            <View style={styles.timestampRow}>
+              <Text style={[styles.timestamp, isOwn && styles.ownTimestamp]}>
+                {new Date(message.timestamp).toLocaleTimeString('en-US', {
+                  hour: '2-digit',
+                  minute: '2-digit'
+                })}
+              </Text>
+              {isOwn && renderReceiptTicks()}
+            </View>
+          )}
+        </TouchableOpacity>
+        {renderReactions()}
+      </View>
       
       {!isOwn && (
         <Image
-          source={{ uri: otherUser?.avatar || 'https://via.placeholder.com/32' }}
+          source={{ uri: otherUser?.avatar || message.senderAvatar || 'https://via.placeholder.com/32' }}
           style={styles.avatar}
         />
       )}
@@ -549,6 +585,12 @@ const styles = StyleSheet.create({
   ownContainer: {
     justifyContent: 'flex-end',
   },
+  bubbleColumn: {
+    alignItems: 'flex-start',
+  },
+  ownBubbleColumn: {
+    alignItems: 'flex-end',
+  },
   bubble: {
     maxWidth: width * 0.75,
     borderRadius: 18,
@@ -584,6 +626,111 @@ const styles = StyleSheet.create({
   ownTimestamp: {
     color: 'rgba(255, 255, 255, 0.7)',
   },
+  timestampRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'flex-end',
+  },
+  receiptTicks: {
+    marginLeft: 4,
+    marginTop: 4,
+  },
+  pendingBubble: {
+    opacity: 0.7,
+  },
+  failedBubble: {
+    borderWidth: 1,
+    borderColor: '#EF4444',
+  },
+  scheduledBubble: {
+    backgroundColor: 'rgba(108, 92, 231, 0.35)',
+    borderWidth: 1,
+    borderStyle: 'dashed',
+    borderColor: '#A29BFE',
+  },
+  deliveryStatus: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'flex-end',
+    marginTop: 4,
+  },
+  deliveryStatusText: {
+    fontSize: 12,
+    color: '#999',
+    marginLeft: 4,
+  },
+  failedStatusText: {
+    color: '#FFB4B4',
+  },
+  replyPreview: {
+    borderLeftWidth: 3,
+    borderLeftColor: '#A29BFE',
+    backgroundColor: 'rgba(0, 0, 0, 0.2)',
+    borderRadius: 8,
+    paddingHorizontal: 8,
+    paddingVertical: 6,
+    marginBottom: 6,
+  },
+  ownReplyPreview: {
+    borderLeftColor: '#FFFFFF',
+  },
+  replySender: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#FFFFFF',
+    marginBottom: 2,
+  },
+  replyText: {
+    fontSize: 13,
+    color: 'rgba(255, 255, 255, 0.8)',
+  },
+  reactions: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginTop: -6,
+    marginHorizontal: 12,
+  },
+  ownReactions: {
+    justifyContent: 'flex-end',
+  },
+  reactionChip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#2A2A2A',
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#1E1E1E',
+    paddingHorizontal: 6,
+    paddingVertical: 2,
+    marginRight: 4,
+  },
+  ownReactionChip: {
+    borderColor: '#6C5CE7',
+  },
+  reactionEmoji: {
+    fontSize: 14,
+  },
+  reactionCount: {
+    fontSize: 12,
+    color: '#FFFFFF',
+    marginLeft: 3,
+  },
+  senderName: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#A29BFE',
+    marginBottom: 4,
+  },
+  systemContainer: {
+    alignItems: 'center',
+    marginVertical: 8,
+    paddingHorizontal: 32,
+  },
+  systemText: {
+    fontSize: 12,
+    color: '#999',
+    textAlign: 'center',
+  },
   avatar: {
     width: 32,
     height: 32,
@@ -619,53 +766,6 @@ const styles = StyleSheet.create({
     fontSize: 14,
     color: '#FFFFFF',
   },
-  voiceContainer: {
-    flexDirection: 'row',
-    alignItems: 'center',
-    minWidth: 200,
-    paddingVertical: 4,
-  },
-  voicePlayButton: {
-    width: 32,
-    height: 32,
-    borderRadius: 16,
-    backgroundColor: 'rgba(108, 92, 231, 0.2)',
-    alignItems: 'center',
-    justifyContent: 'center',
-    marginRight: 12,
-  },
-  ownVoicePlayButton: {
-    backgroundColor: 'rgba(255, 255, 255, 0.2)',
-  },
-  voiceInfo: {
-    flex: 1,
-    marginRight: 8,
-  },
-  voiceWaveform: {
-    flexDirection: 'row',
-    alignItems: 'center',
-    height: 24,
-    marginBottom: 4,
-  },
-  ownVoiceWaveform: {
-    // Styling for own voice messages
-  },
-  waveformBar: {
-    width: 2,
-    backgroundColor: '#6C5CE7',
-    marginHorizontal: 1,
-    borderRadius: 1,
-  },
-  ownWaveformBar: {
-    backgroundColor: '#FFFFFF',
-  },
-  voiceDuration: {
-    fontSize: 12,
-    color: '#999',
-  },
-  voiceIcon: {
-    opacity: 0.6,
-  },
   sharedContentContainer: {
     backgroundColor: 'rgba(255, 255, 255, 0.05)',
     borderRadius: 12,
@@ -29,6 +29,11 @@ import {
   Square
 } from 'lucide-react-native';
 import { Post, Reel, Message } from '@/types';
+import { compressWaveform, meteringToLevel } from '@/utils/voiceMessages';
+import AutocompleteSuggestions from './AutocompleteSuggestions';
+
+const RECORDING_STATUS_INTERVAL = 100; // Milliseconds between metering samples
+const LIVE_LEVEL_BARS = 24;
 
 interface MediaMessageInputProps {
   value: string;
@@ -39,6 +44,7 @@ interface MediaMessageInputProps {
   disabled?: boolean;
   recentPosts?: Post[];
   recentReels?: Reel[];
+  onScheduleText?: (content: string) => void; // Long press on send to pick a send time
 }
 
 export default function MediaMessageInput({
@@ -49,9 +55,11 @@ export default function MediaMessageInput({
   placeholder = "Type a message...",
   disabled = false,
   recentPosts = [],
-  recentReels = []
+  recentReels = [],
+  onScheduleText
 }: MediaMessageInputProps) {
   const [showMediaMenu, setShowMediaMenu] = useState(false);
+  const [cursor, setCursor] = useState(0);
   const [showContentPicker, setShowContentPicker] = useState(false);
   const [contentType, setContentType] = useState<'posts' | 'reels'>('posts');
   const [isRecording, setIsRecording] = useState(false);
@@ -59,6 +67,8 @@ export default function MediaMessageInput({
   
   const recordingRef = useRef<Audio.Recording | null>(null);
   const durationIntervalRef = useRef<NodeJS.Timeout | null>(null);
+  const levelsRef = useRef<number[]>([]);
+  const [liveLevels, setLiveLevels] = useState<number[]>([]);
   const menuScaleAnim = useRef(new Animated.Value(0)).current;
 
   // Request permissions
@@ -165,8 +175,19 @@ export default function MediaMessageInput({
         playsInSilentModeIOS: true,
       });
 
+      // Metering gives the input level on every status update; the samples
+      // become the waveform stored with the message
+      levelsRef.current = [];
+      setLiveLevels([]);
       const { recording } = await Audio.Recording.createAsync(
-        Audio.RecordingOptionsPresets.HIGH_QUALITY
+        { ...Audio.RecordingOptionsPresets.HIGH_QUALITY, isMeteringEnabled: true },
+        (status) => {
+          if (!status.isRecording) return;
+          const level = meteringToLevel(status.metering);
+          levelsRef.current.push(level);
+          setLiveLevels(prev => [...prev.slice(-(LIVE_LEVEL_BARS - 1)), level]);
+        },
+        RECORDING_STATUS_INTERVAL
       );
 
       recordingRef.current = recording;
@@ -197,11 +218,14 @@ export default function MediaMessageInput({
           uri,
           type: 'audio',
           mediaUrl: uri,
-          duration: recordingDuration
+          duration: recordingDuration,
+          waveform: compressWaveform(levelsRef.current)
         });
       }
 
       recordingRef.current = null;
+      levelsRef.current = [];
+      setLiveLevels([]);
       setIsRecording(false);
       setRecordingDuration(0);
       
@@ -222,6 +246,8 @@ export default function MediaMessageInput({
     try {
       await recordingRef.current.stopAndUnloadAsync();
       recordingRef.current = null;
+      levelsRef.current = [];
+      setLiveLevels([]);
       setIsRecording(false);
       setRecordingDuration(0);
       
@@ -287,6 +313,11 @@ export default function MediaMessageInput({
             <View style={styles.recordingDot} />
             <Text style={styles.recordingText}>Recording...</Text>
             <Text style={styles.recordingDuration}>{formatDuration(recordingDuration)}</Text>
+            <View style={styles.recordingLevels}>
+              {liveLevels.map((level, index) => (
+                <View key={index} style={[styles.recordingLevel, { height: 2 + level * 18 }]} />
+              ))}
+            </View>
           </View>
           <View style={styles.recordingActions}>
             <TouchableOpacity onPress={cancelRecording} style={styles.recordingCancel}>
@@ -299,6 +330,19 @@ export default function MediaMessageInput({
         </View>
       )}
 
+      {/* #tag and @mention suggestions */}
+      {!isRecording && (
+        <AutocompleteSuggestions
+          text={value}
+          cursor={cursor}
+          onSelect={(text, nextCursor) => {
+            onChangeText(text);
+            setCursor(nextCursor);
+          }}
+          style={styles.suggestions}
+        />
+      )}
+
       {/* Normal Input */}
       {!isRecording && (
         <View style={styles.inputContainer}>
@@ -313,6 +357,7 @@ export default function MediaMessageInput({
             style={styles.textInput}
             value={value}
             onChangeText={onChangeText}
+            onSelectionChange={event => setCursor(event.nativeEvent.selection.end)}
             placeholder={placeholder}
             placeholderTextColor="#666"
             multiline
@@ -322,6 +367,7 @@ export default function MediaMessageInput({
           <TouchableOpacity 
             style={[styles.sendButton, !value.trim() && styles.sendButtonDisabled]}
             onPress={handleSendText}
+            onLongPress={onScheduleText ? () => onScheduleText(value.trim()) : undefined}
             disabled={!value.trim() || disabled}
           >
             <Send size={20} color={value.trim() ? "#FFFFFF" : "#666"} />
@@ -422,6 +468,9 @@ const styles = StyleSheet.create({
   container: {
     position: 'relative',
   },
+  suggestions: {
+    marginHorizontal: 16,
+  },
   inputContainer: {
     flexDirection: 'row',
     alignItems: 'flex-end',
@@ -495,6 +544,18 @@ const styles = StyleSheet.create({
     fontSize: 16,
     fontWeight: '500',
   },
+  recordingLevels: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    height: 20,
+    marginLeft: 12,
+  },
+  recordingLevel: {
+    width: 2,
+    borderRadius: 1,
+    marginHorizontal: 1,
+    backgroundColor: '#FF6B6B',
+  },
   recordingActions: {
     flexDirection: 'row',
     gap: 12,
@@ -0,0 +1,45 @@
+import React from 'react';
+import { Text, StyleSheet, StyleProp, TextStyle } from 'react-native';
+import { useRouter } from 'expo-router';
+import { Mention } from '@/types';
+import { splitRichText } from '@/utils/mentions';
+
+interface MentionTextProps {
+  text: string;
+  mentions?: Mention[];
+  style?: StyleProp<TextStyle>;
+  linkStyle?: StyleProp<TextStyle>;
+  numberOfLines?: number;
+}
+
+// Text with tappable @mentions (to the profile) and #hashtags (to the hashtag page)
+const MentionText: React.FC<MentionTextProps> = ({ text, mentions, style, linkStyle, numberOfLines }) => {
+  const router = useRouter();
+
+  return (
+    <Text style={style} numberOfLines={numberOfLines}>
+      {splitRichText(text, mentions).map((segment, index) => {
+        if (segment.type === 'text') return segment.text;
+
+        const onPress = segment.type === 'mention'
+          ? () => router.push({ pathname: '/ProfileScreen', params: { userId: segment.userId } })
+          : () => router.push({ pathname: '/hashtag', params: { name: segment.hashtag } });
+
+        return (
+          <Text key={index} style={[styles.link, linkStyle]} onPress={onPress} suppressHighlighting>
+            {segment.text}
+          </Text>
+        );
+      })}
+    </Text>
+  );
+};
+
+const styles = StyleSheet.create({
+  link: {
+    color: '#A29BFE',
+    fontWeight: '600',
+  },
+});
+
+export default MentionText;
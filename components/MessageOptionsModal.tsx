@@ -1,4 +1,4 @@
-import React from 'react';
+import React, { useEffect, useState } from 'react';
 import {
   View,
   Text,
@@ -7,9 +7,10 @@ import {
   Modal,
   TouchableWithoutFeedback,
 } from 'react-native';
-import { Edit3, Trash2, Copy, Reply } from 'lucide-react-native';
+import { Edit3, Trash2, Copy, Reply, SmilePlus } from 'lucide-react-native';
 import * as Haptics from 'expo-haptics';
 import { Message } from '@/types';
+import { QUICK_REACTIONS } from '@/utils/messageReactions';
 
 interface MessageOptionsModalProps {
   visible: boolean;
@@ -20,6 +21,8 @@ interface MessageOptionsModalProps {
   onDelete: (message: Message) => void;
   onCopy: (message: Message) => void;
   onReply?: (message: Message) => void;
+  onReact?: (message: Message, emoji: string) => void;
+  currentReaction?: string; // The current user's reaction, highlighted in the picker
 }
 
 export default function MessageOptionsModal({
@@ -31,7 +34,17 @@ export default function MessageOptionsModal({
   onDelete,
   onCopy,
   onReply,
+  onReact,
+  currentReaction,
 }: MessageOptionsModalProps) {
+  const [showReactions, setShowReactions] = useState(false);
+
+  // Start from the option list every time the modal opens
+  useEffect(() => {
+    if (!visible) {
+      setShowReactions(false);
+    }
+  }, [visible]);
 
   console.log('🔥 MODAL_RENDER - MessageOptionsModal rendering:', { visible, messageId: message?.id, isOwn });
 
@@ -61,7 +74,33 @@ export default function MessageOptionsModal({
                 <Text style={styles.headerText}>Message Options</Text>
               </View>
               
+              {/* Emoji picker, shown after choosing React */}
+              {showReactions && onReact && (
+                <View style={styles.reactionsRow}>
+                  {QUICK_REACTIONS.map(emoji => (
+                    <TouchableOpacity
+                      key={emoji}
+                      style={[styles.reactionButton, emoji === currentReaction && styles.selectedReaction]}
+                      onPress={() => handleOptionPress(() => onReact(message, emoji))}
+                    >
+                      <Text style={styles.reactionEmoji}>{emoji}</Text>
+                    </TouchableOpacity>
+                  ))}
+                </View>
+              )}
+
               <View style={styles.optionsContainer}>
+                {/* React option - available for all sent messages */}
+                {onReact && !message.isDeleted && !showReactions && (
+                  <TouchableOpacity
+                    style={styles.option}
+                    onPress={() => setShowReactions(true)}
+                  >
+                    <SmilePlus size={20} color="#FFFFFF" />
+                    <Text style={styles.optionText}>React</Text>
+                  </TouchableOpacity>
+                )}
+
                 {/* Copy option - available for all messages */}
                 <TouchableOpacity
                   style={styles.option}
@@ -72,7 +111,7 @@ export default function MessageOptionsModal({
                 </TouchableOpacity>
 
                 {/* Reply option - available for all messages */}
-                {onReply && (
+                {onReply && !message.isDeleted && (
                   <TouchableOpacity
                     style={styles.option}
                     onPress={() => handleOptionPress(() => onReply(message))}
@@ -142,6 +181,27 @@ const styles = StyleSheet.create({
   optionsContainer: {
     paddingVertical: 8,
   },
+  reactionsRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-around',
+    paddingVertical: 12,
+    paddingHorizontal: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: 'rgba(255, 255, 255, 0.1)',
+  },
+  reactionButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  selectedReaction: {
+    backgroundColor: 'rgba(108, 92, 231, 0.4)',
+  },
+  reactionEmoji: {
+    fontSize: 24,
+  },
   option: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -0,0 +1,309 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  FlatList,
+  StyleSheet,
+  Modal,
+  TextInput,
+  ActivityIndicator,
+  Alert,
+} from 'react-native';
+import { X, Search, Check, Users } from 'lucide-react-native';
+import CachedImage from './CachedImage';
+import { dataService } from '../services/dataService';
+import { User } from '@/types';
+
+// A group needs the creator and at least this many other members
+const MIN_GROUP_MEMBERS = 2;
+
+interface NewGroupModalProps {
+  visible: boolean;
+  onClose: () => void;
+  currentUserId?: string;
+  onCreated: (conversationId: string) => void;
+}
+
+const NewGroupModal: React.FC<NewGroupModalProps> = ({
+  visible,
+  onClose,
+  currentUserId,
+  onCreated,
+}) => {
+  const [title, setTitle] = useState('');
+  const [candidates, setCandidates] = useState<User[]>([]);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [searchQuery, setSearchQuery] = useState('');
+  const [loadingCandidates, setLoadingCandidates] = useState(false);
+  const [creating, setCreating] = useState(false);
+
+  useEffect(() => {
+    if (!visible || !currentUserId) return;
+
+    setTitle('');
+    setSelectedIds([]);
+    setSearchQuery('');
+
+    let cancelled = false;
+    setLoadingCandidates(true);
+    dataService.user.getFollowing(currentUserId, currentUserId)
+      .then(following => {
+        if (!cancelled) setCandidates(following);
+      })
+      .catch(error => console.error('Error loading people for new group:', error))
+      .finally(() => {
+        if (!cancelled) setLoadingCandidates(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [visible, currentUserId]);
+
+  const toggleSelected = (userId: string) => {
+    setSelectedIds(prev =>
+      prev.includes(userId) ? prev.filter(id => id !== userId) : [...prev, userId]
+    );
+  };
+
+  const canCreate = title.trim().length > 0 && selectedIds.length >= MIN_GROUP_MEMBERS && !creating;
+
+  const handleCreate = async () => {
+    if (!canCreate) return;
+
+    setCreating(true);
+    const conversationId = await dataService.message.createGroupConversation(title, selectedIds);
+    setCreating(false);
+
+    if (!conversationId) {
+      Alert.alert('Error', 'Failed to create group');
+      return;
+    }
+
+    onCreated(conversationId);
+  };
+
+  const renderCandidate = ({ item: user }: { item: User }) => {
+    const selected = selectedIds.includes(user.id);
+    return (
+      <TouchableOpacity style={styles.userItem} onPress={() => toggleSelected(user.id)}>
+        <CachedImage
+          source={{ uri: user.avatar }}
+          style={styles.avatar}
+          cacheType="thumbnail"
+          showLoader={false}
+        />
+        <Text style={styles.username} numberOfLines={1}>{user.username}</Text>
+        <View style={[styles.checkbox, selected && styles.checkboxSelected]}>
+          {selected && <Check size={14} color="#FFFFFF" />}
+        </View>
+      </TouchableOpacity>
+    );
+  };
+
+  const filteredCandidates = candidates.filter(user =>
+    user.username?.toLowerCase().includes(searchQuery.toLowerCase())
+  );
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={onClose}
+    >
+      <View style={styles.container}>
+        <View style={styles.header}>
+          <Text style={styles.headerTitle}>New Group</Text>
+          <TouchableOpacity onPress={onClose} style={styles.closeButton}>
+            <X size={24} color="#FFFFFF" />
+          </TouchableOpacity>
+        </View>
+
+        <View style={styles.titleRow}>
+          <View style={styles.groupAvatar}>
+            <Users size={24} color="#FFFFFF" />
+          </View>
+          <TextInput
+            style={styles.titleInput}
+            value={title}
+            onChangeText={setTitle}
+            placeholder="Group name"
+            placeholderTextColor="#999"
+            maxLength={60}
+            returnKeyType="done"
+          />
+        </View>
+
+        <View style={styles.searchContainer}>
+          <Search size={20} color="#999" style={styles.searchIcon} />
+          <TextInput
+            style={styles.searchInput}
+            placeholder="Search people you follow..."
+            value={searchQuery}
+            onChangeText={setSearchQuery}
+            placeholderTextColor="#999"
+          />
+        </View>
+
+        {loadingCandidates ? (
+          <View style={styles.loadingContainer}>
+            <ActivityIndicator size="large" color="#6C5CE7" />
+          </View>
+        ) : (
+          <FlatList
+            data={filteredCandidates}
+            renderItem={renderCandidate}
+            keyExtractor={(item) => item.id}
+            style={styles.userList}
+            ListEmptyComponent={<Text style={styles.emptyText}>Follow people to add them to a group</Text>}
+          />
+        )}
+
+        <TouchableOpacity
+          style={[styles.primaryButton, !canCreate && styles.buttonDisabled]}
+          onPress={handleCreate}
+          disabled={!canCreate}
+        >
+          {creating ? (
+            <ActivityIndicator size="small" color="#FFFFFF" />
+          ) : (
+            <Text style={styles.primaryButtonText}>
+              {selectedIds.length < MIN_GROUP_MEMBERS
+                ? `Select at least ${MIN_GROUP_MEMBERS} people`
+                : `Create Group (${selectedIds.length})`}
+            </Text>
+          )}
+        </TouchableOpacity>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#1E1E1E',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: '#2A2A2A',
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+  closeButton: {
+    padding: 4,
+  },
+  titleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingTop: 16,
+  },
+  groupAvatar: {
+    width: 48,
+    height: 48,
+    borderRadius: 24,
+    marginRight: 12,
+    backgroundColor: '#6C5CE7',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  titleInput: {
+    flex: 1,
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#FFFFFF',
+    paddingVertical: 6,
+    borderBottomWidth: 1,
+    borderBottomColor: '#444',
+  },
+  searchContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    margin: 16,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    backgroundColor: '#2A2A2A',
+    borderRadius: 20,
+  },
+  searchIcon: {
+    marginRight: 8,
+  },
+  searchInput: {
+    flex: 1,
+    fontSize: 16,
+    color: '#FFFFFF',
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  userList: {
+    flex: 1,
+  },
+  userItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: '#2A2A2A',
+  },
+  avatar: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    marginRight: 12,
+  },
+  username: {
+    flex: 1,
+    fontSize: 16,
+    color: '#FFFFFF',
+    fontWeight: '500',
+  },
+  checkbox: {
+    width: 22,
+    height: 22,
+    borderRadius: 11,
+    borderWidth: 2,
+    borderColor: '#666',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  checkboxSelected: {
+    backgroundColor: '#6C5CE7',
+    borderColor: '#6C5CE7',
+  },
+  emptyText: {
+    textAlign: 'center',
+    color: '#999',
+    fontSize: 14,
+    marginTop: 32,
+  },
+  primaryButton: {
+    margin: 16,
+    paddingVertical: 14,
+    borderRadius: 24,
+    backgroundColor: '#6C5CE7',
+    alignItems: 'center',
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+  primaryButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+});
+
+export default NewGroupModal;
@@ -4,33 +4,31 @@ import {
   Text,
   StyleSheet,
   TouchableOpacity,
-  ScrollView,
+  SectionList,
   Modal,
   SafeAreaView,
   Animated,
-  Platform,
   Dimensions,
+  ActivityIndicator,
+  Image,
 } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
 import { BlurView } from 'expo-blur';
+import { Notification } from '@/types';
 
 const { width: SCREEN_WIDTH, height: SCREEN_HEIGHT } = Dimensions.get('window');
 
-interface Notification {
-  id: string;
-  type: 'like' | 'comment' | 'follow' | 'mention';
-  user: string;
-  message: string;
-  timestamp: string;
-  isRead: boolean;
-  avatar?: string;
-}
-
 interface NotificationPanelProps {
   visible: boolean;
   onClose: () => void;
   notifications: Notification[];
   onMarkAllRead: () => void;
+  onPressNotification: (notification: Notification) => void;
+  unreadCount?: number;
+  loading?: boolean;
+  loadingMore?: boolean;
+  hasMore?: boolean;
+  onLoadMore?: () => void;
 }
 
 const NotificationPanel: React.FC<NotificationPanelProps> = ({
@@ -38,6 +36,12 @@ const NotificationPanel: React.FC<NotificationPanelProps> = ({
   onClose,
   notifications,
   onMarkAllRead,
+  onPressNotification,
+  unreadCount = 0,
+  loading = false,
+  loadingMore = false,
+  hasMore = false,
+  onLoadMore,
 }) => {
   const [slideAnim] = useState(new Animated.Value(SCREEN_WIDTH));
 
@@ -66,63 +70,86 @@ const NotificationPanel: React.FC<NotificationPanelProps> = ({
         return <Ionicons name="chatbubble" size={20} color="#7A4FE2" />;
       case 'follow':
         return <Ionicons name="person-add" size={20} color="#7A4FE2" />;
+      case 'message':
+        return <Ionicons name="mail" size={20} color="#7A4FE2" />;
+      case 'reel_share':
+        return <Ionicons name="paper-plane" size={20} color="#7A4FE2" />;
       case 'mention':
         return <Ionicons name="at" size={20} color="#7A4FE2" />;
+      case 'review':
+        return <Ionicons name="star" size={20} color="#FFD700" />;
+      case 'booking':
+        return <Ionicons name="calendar" size={20} color="#7A4FE2" />;
       default:
         return <Ionicons name="notifications" size={20} color="#7A4FE2" />;
     }
   };
 
   const groupNotificationsByDay = (notifications: Notification[]) => {
-    const grouped: { [key: string]: Notification[] } = {};
+    const sections: { title: string; data: Notification[] }[] = [];
     
     notifications.forEach(notification => {
-      const date = new Date(notification.timestamp).toDateString();
-      if (!grouped[date]) {
-        grouped[date] = [];
+      const date = new Date(notification.createdAt || Date.now()).toDateString();
+      const section = sections[sections.length - 1];
+      if (section && section.title === date) {
+        section.data.push(notification);
+      } else {
+        sections.push({ title: date, data: [notification] });
       }
-      grouped[date].push(notification);
     });
     
-    return grouped;
+    return sections;
   };
 
-  const mockNotifications: Notification[] = [
-    {
-      id: '1',
-      type: 'like',
-      user: 'sarah_dev',
-      message: 'liked your post',
-      timestamp: new Date().toISOString(),
-      isRead: false,
-    },
-    {
-      id: '2',
-      type: 'comment',
-      user: 'mike_creator',
-      message: 'commented on your reel',
-      timestamp: new Date(Date.now() - 3600000).toISOString(),
-      isRead: false,
-    },
-    {
-      id: '3',
-      type: 'follow',
-      user: 'alex_photo',
-      message: 'started following you',
-      timestamp: new Date(Date.now() - 7200000).toISOString(),
-      isRead: true,
-    },
-    {
-      id: '4',
-      type: 'mention',
-      user: 'jenny_art',
-      message: 'mentioned you in a comment',
-      timestamp: new Date(Date.now() - 86400000).toISOString(),
-      isRead: true,
-    },
-  ];
+  const renderNotification = ({ item: notification }: { item: Notification }) => {
+    const messageCount = notification.type === 'message' ? notification.data?.messageCount || 1 : 1;
+
+    return (
+      <TouchableOpacity
+        style={[
+          styles.notificationItem,
+          !notification.isRead && styles.unreadNotification,
+        ]}
+        activeOpacity={0.7}
+        onPress={() => onPressNotification(notification)}
+      >
+        <View style={styles.notificationIcon}>
+          {notification.data?.actorAvatar ? (
+            <Image source={{ uri: notification.data.actorAvatar }} style={styles.actorAvatar} />
+          ) : (
+            getNotificationIcon(notification.type)
+          )}
+          {notification.data?.actorAvatar && (
+            <View style={styles.typeBadge}>
+              {getNotificationIcon(notification.type)}
+            </View>
+          )}
+        </View>
+        
+        <View style={styles.notificationContent}>
+          <Text style={styles.notificationText} numberOfLines={3}>
+            <Text style={styles.username}>{notification.data?.actorName || notification.title}</Text>
+            {' '}
+            <Text style={styles.message}>
+              {messageCount > 1 ? `sent ${messageCount} messages` : notification.message}
+            </Text>
+          </Text>
+          <Text style={styles.timestamp}>
+            {new Date(notification.createdAt || Date.now()).toLocaleTimeString([], {
+              hour: '2-digit',
+              minute: '2-digit',
+            })}
+          </Text>
+        </View>
+        
+        {!notification.isRead && (
+          <View style={styles.unreadDot} />
+        )}
+      </TouchableOpacity>
+    );
+  };
 
-  const groupedNotifications = groupNotificationsByDay(mockNotifications);
+  const sections = groupNotificationsByDay(notifications);
 
   return (
     <Modal
@@ -152,12 +179,14 @@ const NotificationPanel: React.FC<NotificationPanelProps> = ({
               <View style={styles.header}>
                 <Text style={styles.title}>Notifications</Text>
                 <View style={styles.headerActions}>
-                  <TouchableOpacity
-                    style={styles.markAllButton}
-                    onPress={onMarkAllRead}
-                  >
-                    <Text style={styles.markAllText}>Mark all read</Text>
-                  </TouchableOpacity>
+                  {unreadCount > 0 && (
+                    <TouchableOpacity
+                      style={styles.markAllButton}
+                      onPress={onMarkAllRead}
+                    >
+                      <Text style={styles.markAllText}>Mark all read</Text>
+                    </TouchableOpacity>
+                  )}
                   <TouchableOpacity
                     style={styles.closeButton}
                     onPress={onClose}
@@ -168,51 +197,40 @@ const NotificationPanel: React.FC<NotificationPanelProps> = ({
               </View>
 
               {/* Notifications List */}
-              <ScrollView
-                style={styles.scrollView}
-                showsVerticalScrollIndicator={false}
-              >
-                {Object.entries(groupedNotifications).map(([date, dayNotifications]) => (
-                  <View key={date} style={styles.dayGroup}>
+              {loading && notifications.length === 0 ? (
+                <View style={styles.emptyState}>
+                  <ActivityIndicator size="small" color="#7A4FE2" />
+                </View>
+              ) : (
+                <SectionList
+                  style={styles.scrollView}
+                  sections={sections}
+                  keyExtractor={(item) => item.id}
+                  renderItem={renderNotification}
+                  renderSectionHeader={({ section }) => (
                     <Text style={styles.dayHeader}>
-                      {date === new Date().toDateString() ? 'Today' : date}
+                      {section.title === new Date().toDateString() ? 'Today' : section.title}
                     </Text>
-                    
-                    {dayNotifications.map((notification) => (
-                      <TouchableOpacity
-                        key={notification.id}
-                        style={[
-                          styles.notificationItem,
-                          !notification.isRead && styles.unreadNotification,
-                        ]}
-                        activeOpacity={0.7}
-                      >
-                        <View style={styles.notificationIcon}>
-                          {getNotificationIcon(notification.type)}
-                        </View>
-                        
-                        <View style={styles.notificationContent}>
-                          <Text style={styles.notificationText}>
-                            <Text style={styles.username}>@{notification.user}</Text>
-                            {' '}
-                            <Text style={styles.message}>{notification.message}</Text>
-                          </Text>
-                          <Text style={styles.timestamp}>
-                            {new Date(notification.timestamp).toLocaleTimeString([], {
-                              hour: '2-digit',
-                              minute: '2-digit',
-                            })}
-                          </Text>
-                        </View>
-                        
-                        {!notification.isRead && (
-                          <View style={styles.unreadDot} />
-                        )}
-                      </TouchableOpacity>
-                    ))}
-                  </View>
-                ))}
-              </ScrollView>
+                  )}
+                  stickySectionHeadersEnabled={false}
+                  showsVerticalScrollIndicator={false}
+                  onEndReached={() => {
+                    if (hasMore && !loadingMore) onLoadMore?.();
+                  }}
+                  onEndReachedThreshold={0.5}
+                  ListEmptyComponent={
+                    <View style={styles.emptyState}>
+                      <Ionicons name="notifications-off-outline" size={40} color="#666" />
+                      <Text style={styles.emptyText}>No notifications yet</Text>
+                    </View>
+                  }
+                  ListFooterComponent={
+                    loadingMore ? (
+                      <ActivityIndicator style={styles.footerLoader} size="small" color="#7A4FE2" />
+                    ) : null
+                  }
+                />
+              )}
             </SafeAreaView>
           </BlurView>
         </Animated.View>
@@ -285,14 +303,12 @@ const styles = StyleSheet.create({
   scrollView: {
     flex: 1,
   },
-  dayGroup: {
-    marginBottom: 24,
-  },
   dayHeader: {
     fontSize: 14,
     fontWeight: '600',
     color: '#B0B0B0',
     marginHorizontal: 20,
+    marginTop: 12,
     marginBottom: 12,
     fontFamily: 'Inter-SemiBold',
   },
@@ -320,6 +336,23 @@ const styles = StyleSheet.create({
     alignItems: 'center',
     marginRight: 12,
   },
+  actorAvatar: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+  },
+  typeBadge: {
+    position: 'absolute',
+    right: -4,
+    bottom: -4,
+    width: 22,
+    height: 22,
+    borderRadius: 11,
+    backgroundColor: '#2A2A2A',
+    justifyContent: 'center',
+    alignItems: 'center',
+    transform: [{ scale: 0.8 }],
+  },
   notificationContent: {
     flex: 1,
   },
@@ -342,6 +375,20 @@ const styles = StyleSheet.create({
     color: '#999999',
     fontFamily: 'Inter-Regular',
   },
+  emptyState: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 60,
+    gap: 12,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#999999',
+    fontFamily: 'Inter-Regular',
+  },
+  footerLoader: {
+    marginVertical: 16,
+  },
   unreadDot: {
     width: 8,
     height: 8,
@@ -5,6 +5,7 @@ import {
   TouchableOpacity,
   StyleSheet,
   Dimensions,
+  Alert,
 } from 'react-native';
 import { useRouter } from 'expo-router';
 import { LinearGradient } from 'expo-linear-gradient';
@@ -17,11 +18,13 @@ import Animated, {
   interpolate,
 } from 'react-native-reanimated';
 import * as Haptics from 'expo-haptics';
-import { Heart, MessageCircle, Share2, TrendingUp, Send } from 'lucide-react-native';
+import { Heart, MessageCircle, Share2, TrendingUp, Send, MoreHorizontal } from 'lucide-react-native';
 import { Post } from '../types';
 import { useComments } from '../contexts/CommentContext';
 import ShareToUserModal from './ShareToUserModal';
+import ReportModal from './ReportModal';
 import CachedImage from './CachedImage';
+import MentionText from './MentionText';
 import { useUser } from '@/contexts/UserContext';
 
 interface PostCardProps {
@@ -40,6 +43,7 @@ export default function PostCard({ post, onLike, onComment, onShare }: PostCardP
   const [isLiked, setIsLiked] = useState(post.isLiked);
   const [likes, setLikes] = useState(post.likes);
   const [showShareModal, setShowShareModal] = useState(false);
+  const [showReportModal, setShowReportModal] = useState(false);
   const { getCommentCount } = useComments();
   
   const likeScale = useSharedValue(1);
@@ -146,6 +150,13 @@ export default function PostCard({ post, onLike, onComment, onShare }: PostCardP
     });
   };
 
+  const handleMoreOptions = () => {
+    Alert.alert('Post Options', undefined, [
+      { text: 'Report Post', style: 'destructive', onPress: () => setShowReportModal(true) },
+      { text: 'Cancel', style: 'cancel' },
+    ]);
+  };
+
   const handleImagePress = () => {
     try {
       Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
@@ -240,6 +251,15 @@ export default function PostCard({ post, onLike, onComment, onShare }: PostCardP
                 <Text style={styles.timestamp}>{post?.timestamp ?? 'Just now'}</Text>
               </View>
             </TouchableOpacity>
+            {post.user.id !== currentUser.id && (
+              <TouchableOpacity
+                style={styles.moreButton}
+                onPress={handleMoreOptions}
+                hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
+              >
+                <MoreHorizontal size={22} color="#FFFFFF" />
+              </TouchableOpacity>
+            )}
           </View>
 
           {/* Action Buttons */}
@@ -306,7 +326,7 @@ export default function PostCard({ post, onLike, onComment, onShare }: PostCardP
           <View style={styles.captionContainer}>
             <Text style={styles.caption}>
               <Text style={styles.captionUsername}>@{post?.user?.username ?? 'Guest'}</Text>
-              <Text style={styles.captionText}> {post?.content ?? ''}</Text>
+              <MentionText text={` ${post?.content ?? ''}`} mentions={post?.mentions} style={styles.captionText} />
             </Text>
           </View>
 
@@ -328,6 +348,14 @@ export default function PostCard({ post, onLike, onComment, onShare }: PostCardP
           setShowShareModal(false);
         }}
       />
+
+      <ReportModal
+        visible={showReportModal}
+        onClose={() => setShowReportModal(false)}
+        targetType="post"
+        targetId={post.id}
+        targetUserId={post.user.id}
+      />
     </Animated.View>
   );
 }
@@ -403,12 +431,18 @@ const styles = StyleSheet.create({
     paddingBottom: 16,
   },
   userSection: {
+    flexDirection: 'row',
+    alignItems: 'center',
     marginBottom: 12,
   },
   userInfo: {
+    flex: 1,
     flexDirection: 'row',
     alignItems: 'center',
   },
+  moreButton: {
+    padding: 4,
+  },
   avatar: {
     width: 40,
     height: 40,
@@ -28,14 +28,17 @@ import Animated, {
 } from 'react-native-reanimated';
 import { Gesture, GestureDetector } from 'react-native-gesture-handler';
 import * as Haptics from 'expo-haptics';
-import { Heart, MessageCircle, Share2, Bookmark, Music, Volume2, VolumeX, Play, Trash2, Send } from 'lucide-react-native';
+import { Heart, MessageCircle, Share2, Bookmark, Music, Volume2, VolumeX, Play, Trash2, Send, Flag } from 'lucide-react-native';
 import { Reel } from '../types';
 import { useComments } from '../contexts/CommentContext';
 import CommentSystem from './CommentSystem';
 import ShareToUserModal from './ShareToUserModal';
+import ReportModal from './ReportModal';
 import CachedImage from './CachedImage';
 import CachedVideo from './CachedVideo';
+import MentionText from './MentionText';
 import { useUser } from '@/contexts/UserContext';
+import { normalizeHashtag } from '@/utils/hashtags';
 
 const { width: SCREEN_WIDTH, height: SCREEN_HEIGHT } = Dimensions.get('window');
 
@@ -54,8 +57,12 @@ interface ReelItemProps {
   onComment: (reelId: string) => void;
   onShare: (reelId: string) => void;
   onDelete?: (reelId: string, reelUsername: string) => void;
+  onWatched?: (reelId: string) => void; // Played to the end, at most once per mount
 }
 
+// Share of a reel that counts as watching it to the end
+const WATCHED_FRACTION = 0.95;
+
 const AnimatedTouchableOpacity = Animated.createAnimatedComponent(TouchableOpacity);
 
 export default function ReelItem({
@@ -66,7 +73,11 @@ export default function ReelItem({
   onComment,
   onShare,
   onDelete,
+  onWatched,
 }: ReelItemProps) {
+  // Declared before the early return so the hook order never changes
+  const [showReportModal, setShowReportModal] = useState(false);
+  const watchedReportedRef = useRef(false);
   
   // Early return if reel or reel.user is null/undefined
   if (!reel || !reel.user) {
@@ -166,8 +177,13 @@ export default function ReelItem({
     if (!isSeeking) {
       const pos = status.positionMillis ?? 0;
       setUiPosition(pos);
+
+      if (!watchedReportedRef.current && dur > 0 && (status.didJustFinish || pos >= dur * WATCHED_FRACTION)) {
+        watchedReportedRef.current = true;
+        onWatched?.(reel.id);
+      }
     }
-  }, [duration, isSeeking]);
+  }, [duration, isSeeking, onWatched, reel.id]);
 
   // User interactions
   const handleUserPress = () => {
@@ -515,6 +531,14 @@ export default function ReelItem({
               </View>
             </TouchableOpacity>
           )}
+
+          {currentUser && reel.user && reel.user.id !== currentUser.id && (
+            <TouchableOpacity style={styles.actionButton} onPress={() => setShowReportModal(true)}>
+              <View style={styles.actionIconContainer}>
+                <Flag size={20} color="#FFFFFF" strokeWidth={2} />
+              </View>
+            </TouchableOpacity>
+          )}
         </View>
 
         {/* Music info button */}
@@ -618,9 +642,7 @@ export default function ReelItem({
 
             {/* Caption + hashtags */}
             <View style={styles.captionContainer}>
-              <Text style={styles.caption} numberOfLines={2}>
-                {reel?.caption || ''}
-              </Text>
+              <MentionText text={reel?.caption || ''} mentions={reel?.mentions} style={styles.caption} numberOfLines={2} />
 
               <ScrollView
                 horizontal
@@ -629,7 +651,11 @@ export default function ReelItem({
                 contentContainerStyle={styles.hashtagContainer}
               >
                 {reel?.hashtags?.map((hashtag, index) => (
-                  <TouchableOpacity key={index} style={styles.hashtag}>
+                  <TouchableOpacity
+                    key={index}
+                    style={styles.hashtag}
+                    onPress={() => router.push({ pathname: '/hashtag', params: { name: normalizeHashtag(hashtag) } })}
+                  >
                     <Text style={styles.hashtagText}>{hashtag}</Text>
                   </TouchableOpacity>
                 )) || []}
@@ -656,6 +682,14 @@ export default function ReelItem({
         onClose={() => setShowShareModal(false)}
         sharedReel={reel}
       />
+
+      <ReportModal
+        visible={showReportModal}
+        onClose={() => setShowReportModal(false)}
+        targetType="reel"
+        targetId={reel.id}
+        targetUserId={reel.user?.id}
+      />
     </>
   );
 }
@@ -0,0 +1,234 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  StyleSheet,
+  Modal,
+  TextInput,
+  ScrollView,
+  Alert,
+  ActivityIndicator,
+  KeyboardAvoidingView,
+  Platform,
+} from 'react-native';
+import { Check, Flag, X } from 'lucide-react-native';
+import { useUser } from '@/contexts/UserContext';
+import { dataService } from '@/services/dataService';
+import { ReportReason, ReportTargetType } from '@/types';
+import { REPORT_NOTES_MAX_LENGTH, REPORT_REASONS, REPORT_TARGET_LABELS } from '@/utils/contentReports';
+
+interface ReportModalProps {
+  visible: boolean;
+  onClose: () => void;
+  targetType: ReportTargetType;
+  targetId: string;
+  targetUserId?: string; // Author of the content, or the reported user
+  onReported?: () => void;
+}
+
+// Report content or a user to the moderators: pick a reason, optionally add notes
+export default function ReportModal({
+  visible,
+  onClose,
+  targetType,
+  targetId,
+  targetUserId,
+  onReported,
+}: ReportModalProps) {
+  const { user } = useUser();
+  const [reason, setReason] = useState<ReportReason | null>(null);
+  const [notes, setNotes] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (visible) {
+      setReason(null);
+      setNotes('');
+    }
+  }, [visible, targetId]);
+
+  const targetLabel = REPORT_TARGET_LABELS[targetType];
+
+  const handleSubmit = async () => {
+    if (!user || !reason) return;
+
+    if (reason === 'other' && !notes.trim()) {
+      Alert.alert('Add Details', 'Tell us what is wrong so a moderator can review it.');
+      return;
+    }
+
+    setSubmitting(true);
+    const success = await dataService.moderation.reportContent(
+      user.id,
+      targetType,
+      targetId,
+      reason,
+      notes,
+      targetUserId
+    );
+    setSubmitting(false);
+
+    if (success) {
+      onClose();
+      onReported?.();
+      Alert.alert('Thanks for Reporting', `A moderator will review this ${targetLabel}.`);
+    } else {
+      Alert.alert('Error', 'Failed to send your report. Please try again.');
+    }
+  };
+
+  return (
+    <Modal visible={visible} transparent animationType="slide" onRequestClose={onClose}>
+      <KeyboardAvoidingView
+        style={styles.overlay}
+        behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+      >
+        <View style={styles.sheet}>
+          <View style={styles.header}>
+            <Flag size={18} color="#FF6B6B" />
+            <Text style={styles.headerText}>Report {targetLabel}</Text>
+            <TouchableOpacity onPress={onClose} hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}>
+              <X size={22} color="#FFFFFF" />
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView style={styles.body} keyboardShouldPersistTaps="handled">
+            <Text style={styles.prompt}>Why are you reporting this {targetLabel}?</Text>
+
+            {REPORT_REASONS.map(option => {
+              const selected = option.reason === reason;
+              return (
+                <TouchableOpacity
+                  key={option.reason}
+                  style={[styles.reason, selected && styles.reasonSelected]}
+                  onPress={() => setReason(option.reason)}
+                >
+                  <View style={styles.reasonText}>
+                    <Text style={styles.reasonLabel}>{option.label}</Text>
+                    <Text style={styles.reasonDescription}>{option.description}</Text>
+                  </View>
+                  {selected && <Check size={18} color="#A29BFE" />}
+                </TouchableOpacity>
+              );
+            })}
+
+            {reason && (
+              <TextInput
+                style={styles.notesInput}
+                placeholder={reason === 'other' ? 'What is wrong?' : 'Anything else we should know? (optional)'}
+                placeholderTextColor="#666"
+                value={notes}
+                onChangeText={setNotes}
+                multiline
+                maxLength={REPORT_NOTES_MAX_LENGTH}
+                textAlignVertical="top"
+              />
+            )}
+          </ScrollView>
+
+          <TouchableOpacity
+            style={[styles.submitButton, (!reason || submitting) && styles.submitButtonDisabled]}
+            onPress={handleSubmit}
+            disabled={!reason || submitting}
+          >
+            {submitting ? (
+              <ActivityIndicator size="small" color="#FFFFFF" />
+            ) : (
+              <Text style={styles.submitText}>Submit Report</Text>
+            )}
+          </TouchableOpacity>
+        </View>
+      </KeyboardAvoidingView>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.6)',
+    justifyContent: 'flex-end',
+  },
+  sheet: {
+    backgroundColor: '#2A2A2A',
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    maxHeight: '85%',
+    paddingBottom: 24,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+    paddingVertical: 16,
+    paddingHorizontal: 20,
+    borderBottomWidth: 1,
+    borderBottomColor: 'rgba(255, 255, 255, 0.08)',
+  },
+  headerText: {
+    flex: 1,
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+  body: {
+    paddingHorizontal: 20,
+  },
+  prompt: {
+    fontSize: 14,
+    color: '#CCCCCC',
+    marginVertical: 12,
+  },
+  reason: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 12,
+    paddingHorizontal: 12,
+    borderRadius: 10,
+    marginBottom: 6,
+    backgroundColor: '#1E1E1E',
+  },
+  reasonSelected: {
+    backgroundColor: 'rgba(108, 92, 231, 0.2)',
+  },
+  reasonText: {
+    flex: 1,
+  },
+  reasonLabel: {
+    fontSize: 15,
+    fontWeight: '500',
+    color: '#FFFFFF',
+  },
+  reasonDescription: {
+    fontSize: 12,
+    color: '#888',
+    marginTop: 2,
+  },
+  notesInput: {
+    backgroundColor: '#1E1E1E',
+    borderRadius: 12,
+    padding: 12,
+    fontSize: 14,
+    color: '#FFFFFF',
+    minHeight: 90,
+    marginTop: 8,
+    marginBottom: 12,
+  },
+  submitButton: {
+    backgroundColor: '#FF6B6B',
+    borderRadius: 12,
+    paddingVertical: 14,
+    alignItems: 'center',
+    marginHorizontal: 20,
+    marginTop: 12,
+  },
+  submitButtonDisabled: {
+    opacity: 0.5,
+  },
+  submitText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+});
@@ -11,10 +11,10 @@ import {
   ScrollView,
 } from 'react-native';
 import { useFonts, Inter_400Regular, Inter_500Medium, Inter_600SemiBold } from '@expo-google-fonts/inter';
-import { Star, Shield, MessageCircle, Trash2, Plus, X } from 'lucide-react-native';
+import { Star, Shield, MessageCircle, Trash2, Plus, X, CheckCircle, CornerDownRight } from 'lucide-react-native';
 import { useUser } from '@/contexts/UserContext';
 import { dataService } from '@/services/dataService';
-import { Review, User } from '@/types';
+import { Booking, Review, User } from '@/types';
 
 interface ReviewsSectionProps {
   user: User;
@@ -22,15 +22,15 @@ interface ReviewsSectionProps {
 }
 
 interface ReviewItemProps {
-  review: Review & {
-    reviewerName?: string;
-    reviewerAvatar?: string;
-    canDelete?: boolean;
-  };
+  review: Review;
   onDelete: (reviewId: string) => void;
+  onReply: (reviewId: string, reply: string) => Promise<boolean>;
 }
 
-const ReviewItem: React.FC<ReviewItemProps> = ({ review, onDelete }) => {
+const ReviewItem: React.FC<ReviewItemProps> = ({ review, onDelete, onReply }) => {
+  const [showReplyInput, setShowReplyInput] = useState(false);
+  const [replyText, setReplyText] = useState('');
+  const [sendingReply, setSendingReply] = useState(false);
   const [fontsLoaded] = useFonts({
     Inter_400Regular,
     Inter_500Medium,
@@ -57,6 +57,19 @@ const ReviewItem: React.FC<ReviewItemProps> = ({ review, onDelete }) => {
     ));
   };
 
+  const handleSendReply = async () => {
+    if (!replyText.trim()) return;
+
+    setSendingReply(true);
+    const success = await onReply(review.id, replyText);
+    setSendingReply(false);
+
+    if (success) {
+      setShowReplyInput(false);
+      setReplyText('');
+    }
+  };
+
   if (!fontsLoaded) return null;
 
   return (
@@ -69,9 +82,19 @@ const ReviewItem: React.FC<ReviewItemProps> = ({ review, onDelete }) => {
             </Text>
           </View>
           <View style={styles.reviewerDetails}>
-            <Text style={[styles.reviewerName, { fontFamily: 'Inter_600SemiBold' }]}>
-              {review.reviewerName || 'Anonymous'}
-            </Text>
+            <View style={styles.reviewerNameRow}>
+              <Text style={[styles.reviewerName, { fontFamily: 'Inter_600SemiBold' }]}>
+                {review.reviewerName || 'Anonymous'}
+              </Text>
+              {review.isVerified && (
+                <View style={styles.verifiedBadge}>
+                  <CheckCircle size={12} color="#00D46A" />
+                  <Text style={[styles.verifiedText, { fontFamily: 'Inter_500Medium' }]}>
+                    Verified session
+                  </Text>
+                </View>
+              )}
+            </View>
             <Text style={[styles.reviewDate, { fontFamily: 'Inter_400Regular' }]}>
               {formatDate(review.createdAt || '')}
             </Text>
@@ -99,13 +122,68 @@ const ReviewItem: React.FC<ReviewItemProps> = ({ review, onDelete }) => {
           {review.comment}
         </Text>
       )}
+
+      {review.hostReply ? (
+        <View style={styles.hostReply}>
+          <View style={styles.hostReplyHeader}>
+            <CornerDownRight size={14} color="#6C5CE7" />
+            <Text style={[styles.hostReplyTitle, { fontFamily: 'Inter_600SemiBold' }]}>
+              Response from host
+            </Text>
+            {review.hostReplyAt && (
+              <Text style={[styles.reviewDate, { fontFamily: 'Inter_400Regular' }]}>
+                {formatDate(review.hostReplyAt)}
+              </Text>
+            )}
+          </View>
+          <Text style={[styles.hostReplyText, { fontFamily: 'Inter_400Regular' }]}>
+            {review.hostReply}
+          </Text>
+        </View>
+      ) : review.canReply && (
+        showReplyInput ? (
+          <View style={styles.replyInputContainer}>
+            <TextInput
+              style={[styles.replyInput, { fontFamily: 'Inter_400Regular' }]}
+              placeholder="Write a public reply..."
+              placeholderTextColor="#666"
+              value={replyText}
+              onChangeText={setReplyText}
+              multiline
+              maxLength={500}
+            />
+            <View style={styles.replyActions}>
+              <TouchableOpacity onPress={() => setShowReplyInput(false)} disabled={sendingReply}>
+                <Text style={[styles.replyCancelText, { fontFamily: 'Inter_500Medium' }]}>Cancel</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[styles.replySendButton, (!replyText.trim() || sendingReply) && styles.submitButtonDisabled]}
+                onPress={handleSendReply}
+                disabled={!replyText.trim() || sendingReply}
+              >
+                <Text style={[styles.replySendText, { fontFamily: 'Inter_600SemiBold' }]}>
+                  {sendingReply ? 'Posting...' : 'Post Reply'}
+                </Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        ) : (
+          <TouchableOpacity style={styles.replyButton} onPress={() => setShowReplyInput(true)}>
+            <CornerDownRight size={14} color="#6C5CE7" />
+            <Text style={[styles.replyButtonText, { fontFamily: 'Inter_500Medium' }]}>Reply</Text>
+          </TouchableOpacity>
+        )
+      )}
     </View>
   );
 };
 
 const ReviewsSection: React.FC<ReviewsSectionProps> = ({ user, onRefresh }) => {
   const { user: currentUser } = useUser();
-  const [reviews, setReviews] = useState<(Review & { reviewerName?: string; reviewerAvatar?: string; canDelete?: boolean })[]>([]);
+  const [reviews, setReviews] = useState<Review[]>([]);
+  const [ratingSummary, setRatingSummary] = useState({ rating: 0, totalReviews: 0, verifiedReviews: 0 });
+  const [reviewableBookings, setReviewableBookings] = useState<Booking[]>([]);
+  const [selectedBookingId, setSelectedBookingId] = useState<string | null>(null);
   const [loading, setLoading] = useState(true);
   const [showAddReview, setShowAddReview] = useState(false);
   const [newReview, setNewReview] = useState({
@@ -122,11 +200,17 @@ const ReviewsSection: React.FC<ReviewsSectionProps> = ({ user, onRefresh }) => {
   const loadReviews = async () => {
     try {
       setLoading(true);
-      const userReviews = await dataService.review.getUserReviews(
-        user.id,
-        currentUser?.id
-      );
+      const [userReviews, summary, bookings] = await Promise.all([
+        dataService.review.getUserReviews(user.id, currentUser?.id),
+        dataService.review.getRatingSummary(user.id),
+        currentUser && currentUser.id !== user.id
+          ? dataService.review.getReviewableBookings(currentUser.id, user.id)
+          : Promise.resolve([]),
+      ]);
       setReviews(userReviews);
+      setRatingSummary(summary);
+      setReviewableBookings(bookings);
+      setSelectedBookingId(bookings[0]?.id || null);
     } catch (error) {
       console.error('Error loading reviews:', error);
     } finally {
@@ -154,7 +238,7 @@ const ReviewsSection: React.FC<ReviewsSectionProps> = ({ user, onRefresh }) => {
                 currentUser?.id || ''
               );
               if (success) {
-                setReviews(reviews.filter(r => r.id !== reviewId));
+                loadReviews();
                 onRefresh?.();
               } else {
                 Alert.alert('Error', 'Failed to delete review');
@@ -174,14 +258,18 @@ const ReviewsSection: React.FC<ReviewsSectionProps> = ({ user, onRefresh }) => {
     try {
       setSubmitting(true);
       
-      // Check if user has already reviewed
+      // Check if user has already reviewed this session (or the user, outside a session)
       const hasReviewed = await dataService.review.hasUserReviewed(
         currentUser.id,
-        user.id
+        user.id,
+        selectedBookingId || undefined
       );
 
       if (hasReviewed) {
-        Alert.alert('Already Reviewed', 'You have already reviewed this user.');
+        Alert.alert(
+          'Already Reviewed',
+          selectedBookingId ? 'You have already reviewed this session.' : 'You have already reviewed this user.'
+        );
         return;
       }
 
@@ -190,10 +278,11 @@ const ReviewsSection: React.FC<ReviewsSectionProps> = ({ user, onRefresh }) => {
         reviewedId: user.id,
         rating: newReview.rating,
         comment: newReview.comment.trim() || undefined,
+        bookingId: selectedBookingId || undefined,
       });
 
       if (review) {
-        setReviews([review, ...reviews]);
+        loadReviews();
         setShowAddReview(false);
         setNewReview({ rating: 5, comment: '' });
         onRefresh?.();
@@ -208,6 +297,25 @@ const ReviewsSection: React.FC<ReviewsSectionProps> = ({ user, onRefresh }) => {
     }
   };
 
+  const handleReply = async (reviewId: string, reply: string) => {
+    if (!currentUser) return false;
+
+    const success = await dataService.review.replyToReview(reviewId, currentUser.id, reply);
+    if (success) {
+      loadReviews();
+    } else {
+      Alert.alert('Error', 'Failed to post reply');
+    }
+    return success;
+  };
+
+  const formatSessionDate = (booking: Booking) =>
+    new Date(booking.startTime).toLocaleDateString('en-US', {
+      weekday: 'short',
+      month: 'short',
+      day: 'numeric',
+    });
+
   const canAddReview = currentUser && currentUser.id !== user.id;
 
   const getTrustScoreColor = (score: number) => {
@@ -255,7 +363,7 @@ const ReviewsSection: React.FC<ReviewsSectionProps> = ({ user, onRefresh }) => {
               {getTrustScoreLabel(user.communityTrustScore || 0)}
             </Text>
             <Text style={[styles.scoreDescription, { fontFamily: 'Inter_400Regular' }]}>
-              Based on {user.totalReviews || 0} reviews, profile completion, and verification status
+              Based on {ratingSummary.totalReviews} reviews, profile completion, and verification status
             </Text>
           </View>
         </View>
@@ -266,8 +374,21 @@ const ReviewsSection: React.FC<ReviewsSectionProps> = ({ user, onRefresh }) => {
         <View style={styles.reviewsTitleContainer}>
           <MessageCircle size={20} color="#6C5CE7" />
           <Text style={[styles.reviewsTitle, { fontFamily: 'Inter_600SemiBold' }]}>
-            Reviews ({reviews.length})
+            Reviews ({ratingSummary.totalReviews})
           </Text>
+          {ratingSummary.totalReviews > 0 && (
+            <View style={styles.averageRating}>
+              <Star size={14} color="#FFD700" fill="#FFD700" />
+              <Text style={[styles.averageRatingText, { fontFamily: 'Inter_500Medium' }]}>
+                {ratingSummary.rating.toFixed(1)}
+              </Text>
+              {ratingSummary.verifiedReviews > 0 && (
+                <Text style={[styles.verifiedCountText, { fontFamily: 'Inter_400Regular' }]}>
+                  · {ratingSummary.verifiedReviews} verified
+                </Text>
+              )}
+            </View>
+          )}
         </View>
         
         {canAddReview && (
@@ -305,7 +426,7 @@ const ReviewsSection: React.FC<ReviewsSectionProps> = ({ user, onRefresh }) => {
           data={reviews}
           keyExtractor={(item) => item.id}
           renderItem={({ item }) => (
-            <ReviewItem review={item} onDelete={handleDeleteReview} />
+            <ReviewItem review={item} onDelete={handleDeleteReview} onReply={handleReply} />
           )}
           showsVerticalScrollIndicator={false}
           contentContainerStyle={styles.reviewsList}
@@ -338,6 +459,41 @@ const ReviewsSection: React.FC<ReviewsSectionProps> = ({ user, onRefresh }) => {
               Rate your experience with {user.username}
             </Text>
 
+            {/* Session Selection */}
+            {reviewableBookings.length > 0 && (
+              <View style={styles.ratingSelection}>
+                <Text style={[styles.ratingLabel, { fontFamily: 'Inter_500Medium' }]}>
+                  Session
+                </Text>
+                <View style={styles.sessionOptions}>
+                  {reviewableBookings.map(booking => (
+                    <TouchableOpacity
+                      key={booking.id}
+                      style={[styles.sessionChip, selectedBookingId === booking.id && styles.sessionChipSelected]}
+                      onPress={() => setSelectedBookingId(booking.id)}
+                    >
+                      <Text style={[styles.sessionChipText, { fontFamily: 'Inter_500Medium' }]}>
+                        {formatSessionDate(booking)}
+                      </Text>
+                    </TouchableOpacity>
+                  ))}
+                  <TouchableOpacity
+                    style={[styles.sessionChip, selectedBookingId === null && styles.sessionChipSelected]}
+                    onPress={() => setSelectedBookingId(null)}
+                  >
+                    <Text style={[styles.sessionChipText, { fontFamily: 'Inter_500Medium' }]}>
+                      Not a session
+                    </Text>
+                  </TouchableOpacity>
+                </View>
+                <Text style={[styles.sessionHint, { fontFamily: 'Inter_400Regular' }]}>
+                  {selectedBookingId
+                    ? 'Reviews of completed sessions are shown as verified.'
+                    : 'This review will not be marked as verified.'}
+                </Text>
+              </View>
+            )}
+
             {/* Rating Selection */}
             <View style={styles.ratingSelection}>
               <Text style={[styles.ratingLabel, { fontFamily: 'Inter_500Medium' }]}>
@@ -537,10 +693,29 @@ const styles = StyleSheet.create({
   reviewerDetails: {
     flex: 1,
   },
+  reviewerNameRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    flexWrap: 'wrap',
+    marginBottom: 2,
+  },
   reviewerName: {
     fontSize: 14,
     color: '#FFFFFF',
-    marginBottom: 2,
+  },
+  verifiedBadge: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: 'rgba(0, 212, 106, 0.12)',
+    paddingHorizontal: 6,
+    paddingVertical: 2,
+    borderRadius: 6,
+    marginLeft: 8,
+  },
+  verifiedText: {
+    fontSize: 11,
+    color: '#00D46A',
+    marginLeft: 4,
   },
   reviewDate: {
     fontSize: 12,
@@ -564,6 +739,114 @@ const styles = StyleSheet.create({
     color: '#FFFFFF',
     lineHeight: 20,
   },
+  averageRating: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginLeft: 12,
+  },
+  averageRatingText: {
+    fontSize: 14,
+    color: '#FFFFFF',
+    marginLeft: 4,
+  },
+  verifiedCountText: {
+    fontSize: 12,
+    color: '#888',
+    marginLeft: 4,
+  },
+  hostReply: {
+    backgroundColor: '#2A2A2A',
+    borderRadius: 8,
+    padding: 12,
+    marginTop: 12,
+  },
+  hostReplyHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 6,
+    gap: 6,
+  },
+  hostReplyTitle: {
+    flex: 1,
+    fontSize: 13,
+    color: '#FFFFFF',
+  },
+  hostReplyText: {
+    fontSize: 14,
+    color: '#CCCCCC',
+    lineHeight: 20,
+  },
+  replyButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'flex-start',
+    marginTop: 12,
+    gap: 4,
+  },
+  replyButtonText: {
+    fontSize: 13,
+    color: '#6C5CE7',
+  },
+  replyInputContainer: {
+    marginTop: 12,
+  },
+  replyInput: {
+    backgroundColor: '#2A2A2A',
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 14,
+    color: '#FFFFFF',
+    minHeight: 60,
+    textAlignVertical: 'top',
+  },
+  replyActions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    alignItems: 'center',
+    marginTop: 8,
+    gap: 16,
+  },
+  replyCancelText: {
+    fontSize: 13,
+    color: '#888',
+  },
+  replySendButton: {
+    backgroundColor: '#6C5CE7',
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 8,
+  },
+  replySendText: {
+    fontSize: 13,
+    color: '#FFFFFF',
+  },
+  sessionOptions: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+  },
+  sessionChip: {
+    backgroundColor: '#1A1A1A',
+    borderWidth: 1,
+    borderColor: '#333',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    marginRight: 8,
+    marginBottom: 8,
+  },
+  sessionChipSelected: {
+    backgroundColor: '#6C5CE7',
+    borderColor: '#6C5CE7',
+  },
+  sessionChipText: {
+    fontSize: 14,
+    color: '#FFFFFF',
+  },
+  sessionHint: {
+    fontSize: 12,
+    color: '#888',
+    marginTop: 4,
+  },
   modalContainer: {
     flex: 1,
     backgroundColor: '#0A0A0A',
@@ -0,0 +1,492 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  Alert,
+  ImageBackground,
+  ScrollView,
+  Modal,
+  TextInput,
+  ActivityIndicator,
+  Dimensions,
+} from 'react-native';
+import { useRouter } from 'expo-router';
+import { Bookmark, FolderPlus, MoreHorizontal, Play } from 'lucide-react-native';
+import { dataService } from '@/services/dataService';
+import { SavedReel, SavedReelCollection } from '@/types';
+
+interface SavedReelsSectionProps {
+  // Only the owner ever sees their saves
+  userId: string;
+}
+
+const PAGE_SIZE = 18;
+const COLLECTION_NAME_MAX_LENGTH = 50;
+
+const { width } = Dimensions.get('window');
+const imageSize = (width - 56) / 3;
+
+// The "Saved" tab on the owner's profile: saved reels, filterable by collection
+export default function SavedReelsSection({ userId }: SavedReelsSectionProps) {
+  const router = useRouter();
+  const [collections, setCollections] = useState<SavedReelCollection[]>([]);
+  const [selectedCollectionId, setSelectedCollectionId] = useState<string | undefined>(undefined);
+  const [savedReels, setSavedReels] = useState<SavedReel[]>([]);
+  const [hasMore, setHasMore] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+
+  // Name prompt shared by "new collection" and "rename"
+  const [namePrompt, setNamePrompt] = useState<{ collection?: SavedReelCollection; reelId?: string } | null>(null);
+  const [nameInput, setNameInput] = useState('');
+
+  const loadCollections = useCallback(async () => {
+    setCollections(await dataService.reel.getSaveCollections(userId));
+  }, [userId]);
+
+  const loadSavedReels = useCallback(async () => {
+    setLoading(true);
+    const page = await dataService.reel.getSavedReels(userId, PAGE_SIZE, 0, selectedCollectionId);
+    setSavedReels(page);
+    setHasMore(page.length === PAGE_SIZE);
+    setLoading(false);
+  }, [userId, selectedCollectionId]);
+
+  useEffect(() => {
+    loadCollections();
+  }, [loadCollections]);
+
+  useEffect(() => {
+    loadSavedReels();
+  }, [loadSavedReels]);
+
+  const handleLoadMore = async () => {
+    if (loadingMore) return;
+    setLoadingMore(true);
+    const page = await dataService.reel.getSavedReels(userId, PAGE_SIZE, savedReels.length, selectedCollectionId);
+    setSavedReels(prev => [...prev, ...page]);
+    setHasMore(page.length === PAGE_SIZE);
+    setLoadingMore(false);
+  };
+
+  const moveReel = async (item: SavedReel, collectionId: string | null) => {
+    const success = await dataService.reel.moveSavedReel(userId, item.reel.id, collectionId);
+    if (!success) {
+      Alert.alert('Error', 'Failed to move this reel. Please try again.');
+      return;
+    }
+
+    if (selectedCollectionId && collectionId !== selectedCollectionId) {
+      setSavedReels(prev => prev.filter(saved => saved.reel.id !== item.reel.id));
+    } else {
+      setSavedReels(prev => prev.map(saved =>
+        saved.reel.id === item.reel.id ? { ...saved, collectionId: collectionId || undefined } : saved
+      ));
+    }
+    loadCollections();
+  };
+
+  const removeReel = async (item: SavedReel) => {
+    const success = await dataService.reel.removeSavedReel(userId, item.reel.id);
+    if (!success) {
+      Alert.alert('Error', 'Failed to remove this reel. Please try again.');
+      return;
+    }
+
+    setSavedReels(prev => prev.filter(saved => saved.reel.id !== item.reel.id));
+    if (item.collectionId) loadCollections();
+  };
+
+  const handleMovePress = (item: SavedReel) => {
+    const targets = collections.filter(collection => collection.id !== item.collectionId);
+    Alert.alert('Move to Collection', undefined, [
+      ...targets.map(collection => ({
+        text: collection.name,
+        onPress: () => moveReel(item, collection.id),
+      })),
+      { text: 'New Collection...', onPress: () => openNamePrompt({ reelId: item.reel.id }) },
+      ...(item.collectionId
+        ? [{ text: 'Remove from Collection', onPress: () => moveReel(item, null) }]
+        : []),
+      { text: 'Cancel', style: 'cancel' as const },
+    ]);
+  };
+
+  const handleReelOptions = (item: SavedReel) => {
+    Alert.alert('Saved Reel', undefined, [
+      { text: 'Move to Collection', onPress: () => handleMovePress(item) },
+      { text: 'Remove from Saved', style: 'destructive', onPress: () => removeReel(item) },
+      { text: 'Cancel', style: 'cancel' },
+    ]);
+  };
+
+  const handleCollectionOptions = (collection: SavedReelCollection) => {
+    Alert.alert(collection.name, undefined, [
+      { text: 'Rename', onPress: () => openNamePrompt({ collection }) },
+      {
+        text: 'Delete Collection',
+        style: 'destructive',
+        onPress: () => Alert.alert(
+          'Delete Collection?',
+          `"${collection.name}" will be deleted. The reels in it stay in your saved reels.`,
+          [
+            { text: 'Cancel', style: 'cancel' },
+            { text: 'Delete', style: 'destructive', onPress: () => deleteCollection(collection) },
+          ]
+        ),
+      },
+      { text: 'Cancel', style: 'cancel' },
+    ]);
+  };
+
+  const deleteCollection = async (collection: SavedReelCollection) => {
+    const success = await dataService.reel.deleteSaveCollection(collection.id);
+    if (!success) {
+      Alert.alert('Error', 'Failed to delete this collection. Please try again.');
+      return;
+    }
+
+    setCollections(prev => prev.filter(item => item.id !== collection.id));
+    if (selectedCollectionId === collection.id) {
+      setSelectedCollectionId(undefined);
+    } else {
+      setSavedReels(prev => prev.map(saved =>
+        saved.collectionId === collection.id ? { ...saved, collectionId: undefined } : saved
+      ));
+    }
+  };
+
+  const openNamePrompt = (prompt: { collection?: SavedReelCollection; reelId?: string }) => {
+    setNameInput(prompt.collection?.name || '');
+    setNamePrompt(prompt);
+  };
+
+  const handleSaveName = async () => {
+    const name = nameInput.trim();
+    if (!namePrompt || !name) return;
+
+    const duplicate = collections.some(collection =>
+      collection.id !== namePrompt.collection?.id && collection.name.toLowerCase() === name.toLowerCase()
+    );
+    if (duplicate) {
+      Alert.alert('Name Taken', 'You already have a collection with that name.');
+      return;
+    }
+
+    if (namePrompt.collection) {
+      const collectionId = namePrompt.collection.id;
+      const success = await dataService.reel.renameSaveCollection(collectionId, name);
+      if (!success) {
+        Alert.alert('Error', 'Failed to rename this collection. Please try again.');
+        return;
+      }
+      setCollections(prev => prev.map(collection => (collection.id === collectionId ? { ...collection, name } : collection)));
+    } else {
+      const created = await dataService.reel.createSaveCollection(userId, name);
+      if (!created) {
+        Alert.alert('Error', 'Failed to create this collection. Please try again.');
+        return;
+      }
+      setCollections(prev => [...prev, created]);
+
+      // Created from a reel's "Move to Collection" menu: file that reel into it
+      const item = savedReels.find(saved => saved.reel.id === namePrompt.reelId);
+      if (item) await moveReel(item, created.id);
+    }
+
+    setNamePrompt(null);
+  };
+
+  const renderCollectionChip = (collection: SavedReelCollection) => {
+    const selected = selectedCollectionId === collection.id;
+    return (
+      <TouchableOpacity
+        key={collection.id}
+        style={[styles.chip, selected && styles.chipSelected]}
+        onPress={() => setSelectedCollectionId(collection.id)}
+        onLongPress={() => handleCollectionOptions(collection)}
+      >
+        <Text style={[styles.chipText, selected && styles.chipTextSelected]} numberOfLines={1}>
+          {collection.name} · {collection.reelCount}
+        </Text>
+      </TouchableOpacity>
+    );
+  };
+
+  const renderSavedReel = (item: SavedReel, index: number) => (
+    <TouchableOpacity
+      key={item.reel.id}
+      style={[styles.gridItem, { marginRight: (index + 1) % 3 === 0 ? 0 : 6 }]}
+      onPress={() => router.push({ pathname: '/(tabs)/reels', params: { startReelId: item.reel.id } })}
+      onLongPress={() => handleReelOptions(item)}
+      activeOpacity={0.8}
+    >
+      <ImageBackground
+        source={{ uri: item.reel.thumbnailUrl || 'https://images.pexels.com/photos/1181677/pexels-photo-1181677.jpeg?auto=compress&cs=tinysrgb&w=400' }}
+        style={styles.gridImage}
+        imageStyle={styles.gridImageStyle}
+      >
+        <View style={styles.playOverlay}>
+          <Play size={16} color="#FFFFFF" fill="#FFFFFF" />
+        </View>
+        <TouchableOpacity
+          style={styles.optionsButton}
+          onPress={() => handleReelOptions(item)}
+          hitSlop={{ top: 12, bottom: 12, left: 12, right: 12 }}
+        >
+          <MoreHorizontal size={16} color="#FFFFFF" />
+        </TouchableOpacity>
+      </ImageBackground>
+    </TouchableOpacity>
+  );
+
+  const selectedCollection = collections.find(collection => collection.id === selectedCollectionId);
+
+  return (
+    <View>
+      {/* Collections */}
+      <ScrollView
+        horizontal
+        showsHorizontalScrollIndicator={false}
+        contentContainerStyle={styles.chipRow}
+      >
+        <TouchableOpacity
+          style={[styles.chip, !selectedCollectionId && styles.chipSelected]}
+          onPress={() => setSelectedCollectionId(undefined)}
+        >
+          <Text style={[styles.chipText, !selectedCollectionId && styles.chipTextSelected]}>All</Text>
+        </TouchableOpacity>
+        {collections.map(renderCollectionChip)}
+        <TouchableOpacity style={styles.newChip} onPress={() => openNamePrompt({})}>
+          <FolderPlus size={14} color="#A29BFE" />
+          <Text style={styles.newChipText}>New</Text>
+        </TouchableOpacity>
+      </ScrollView>
+
+      {/* Saved Reels Grid */}
+      {loading ? (
+        <ActivityIndicator size="small" color="#6C5CE7" style={styles.loading} />
+      ) : savedReels.length > 0 ? (
+        <View style={styles.grid}>
+          {savedReels.map(renderSavedReel)}
+        </View>
+      ) : (
+        <View style={styles.emptyState}>
+          <Bookmark size={48} color="#666666" />
+          <Text style={[styles.emptyText, { fontFamily: 'Inter_600SemiBold' }]}>
+            {selectedCollection ? `Nothing in ${selectedCollection.name} yet` : 'No saved reels yet'}
+          </Text>
+          <Text style={[styles.emptySubtext, { fontFamily: 'Inter_400Regular' }]}>
+            {selectedCollection
+              ? 'Long-press a saved reel to move it here'
+              : 'Tap the bookmark on a reel to save it for later. Only you can see what you saved.'}
+          </Text>
+        </View>
+      )}
+
+      {!loading && hasMore && (
+        <TouchableOpacity style={styles.loadMoreButton} onPress={handleLoadMore} disabled={loadingMore}>
+          {loadingMore ? (
+            <ActivityIndicator size="small" color="#FFFFFF" />
+          ) : (
+            <Text style={[styles.loadMoreText, { fontFamily: 'Inter_600SemiBold' }]}>Load More</Text>
+          )}
+        </TouchableOpacity>
+      )}
+
+      {/* Collection Name Prompt */}
+      <Modal visible={!!namePrompt} transparent animationType="fade" onRequestClose={() => setNamePrompt(null)}>
+        <View style={styles.promptOverlay}>
+          <View style={styles.prompt}>
+            <Text style={[styles.promptTitle, { fontFamily: 'Inter_600SemiBold' }]}>
+              {namePrompt?.collection ? 'Rename Collection' : 'New Collection'}
+            </Text>
+            <TextInput
+              style={styles.promptInput}
+              placeholder="Date ideas, Workouts..."
+              placeholderTextColor="#666"
+              value={nameInput}
+              onChangeText={setNameInput}
+              maxLength={COLLECTION_NAME_MAX_LENGTH}
+              autoFocus
+              returnKeyType="done"
+              onSubmitEditing={handleSaveName}
+            />
+            <View style={styles.promptButtons}>
+              <TouchableOpacity style={styles.promptButton} onPress={() => setNamePrompt(null)}>
+                <Text style={styles.promptCancelText}>Cancel</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[styles.promptButton, styles.promptSaveButton, !nameInput.trim() && styles.promptSaveDisabled]}
+                onPress={handleSaveName}
+                disabled={!nameInput.trim()}
+              >
+                <Text style={styles.promptSaveText}>Save</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        </View>
+      </Modal>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  chipRow: {
+    gap: 8,
+    paddingBottom: 16,
+  },
+  chip: {
+    backgroundColor: '#2A2A2A',
+    borderRadius: 16,
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    maxWidth: 180,
+  },
+  chipSelected: {
+    backgroundColor: '#6C5CE7',
+  },
+  chipText: {
+    color: '#B0B0B0',
+    fontSize: 13,
+    fontWeight: '500',
+  },
+  chipTextSelected: {
+    color: '#FFFFFF',
+  },
+  newChip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: 'rgba(162, 155, 254, 0.4)',
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+  },
+  newChipText: {
+    color: '#A29BFE',
+    fontSize: 13,
+    fontWeight: '500',
+  },
+  loading: {
+    marginVertical: 40,
+  },
+  grid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    paddingBottom: 16,
+  },
+  gridItem: {
+    width: imageSize,
+    height: imageSize,
+    borderRadius: 16,
+    overflow: 'hidden',
+    marginBottom: 8,
+    backgroundColor: '#2A2A2A',
+  },
+  gridImage: {
+    width: '100%',
+    height: '100%',
+  },
+  gridImageStyle: {
+    borderRadius: 16,
+  },
+  playOverlay: {
+    position: 'absolute',
+    bottom: 8,
+    left: 8,
+  },
+  optionsButton: {
+    position: 'absolute',
+    top: 6,
+    right: 6,
+    width: 26,
+    height: 26,
+    borderRadius: 13,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  emptyState: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingTop: 40,
+    paddingHorizontal: 24,
+  },
+  emptyText: {
+    fontSize: 20,
+    color: '#FFFFFF',
+    fontWeight: '600',
+    marginTop: 12,
+    marginBottom: 12,
+  },
+  emptySubtext: {
+    fontSize: 16,
+    color: '#B0B0B0',
+    textAlign: 'center',
+  },
+  loadMoreButton: {
+    backgroundColor: '#2A2A2A',
+    borderRadius: 12,
+    paddingVertical: 12,
+    alignItems: 'center',
+    marginBottom: 32,
+  },
+  loadMoreText: {
+    color: '#FFFFFF',
+    fontSize: 14,
+  },
+  promptOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.6)',
+    justifyContent: 'center',
+    paddingHorizontal: 32,
+  },
+  prompt: {
+    backgroundColor: '#2A2A2A',
+    borderRadius: 16,
+    padding: 20,
+  },
+  promptTitle: {
+    color: '#FFFFFF',
+    fontSize: 18,
+    marginBottom: 16,
+  },
+  promptInput: {
+    backgroundColor: '#1E1E1E',
+    borderRadius: 12,
+    padding: 12,
+    fontSize: 15,
+    color: '#FFFFFF',
+  },
+  promptButtons: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: 12,
+    marginTop: 16,
+  },
+  promptButton: {
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    borderRadius: 10,
+  },
+  promptSaveButton: {
+    backgroundColor: '#6C5CE7',
+  },
+  promptSaveDisabled: {
+    opacity: 0.5,
+  },
+  promptCancelText: {
+    color: '#B0B0B0',
+    fontSize: 15,
+    fontWeight: '500',
+  },
+  promptSaveText: {
+    color: '#FFFFFF',
+    fontSize: 15,
+    fontWeight: '600',
+  },
+});
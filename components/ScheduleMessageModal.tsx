@@ -0,0 +1,281 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  StyleSheet,
+  Modal,
+  TouchableWithoutFeedback,
+} from 'react-native';
+import { Calendar, Clock, Minus, Plus, X } from 'lucide-react-native';
+import DatePicker from '@/components/DatePicker';
+
+interface ScheduleMessageModalProps {
+  visible: boolean;
+  onClose: () => void;
+  onSchedule: (sendAt: Date) => void;
+  preview?: string; // The message being scheduled
+}
+
+const STEP_MINUTES = 15;
+
+const atTime = (base: Date, dayOffset: number, hours: number, minutes = 0) =>
+  new Date(base.getFullYear(), base.getMonth(), base.getDate() + dayOffset, hours, minutes);
+
+// Next quarter hour at least an hour from now
+const defaultSendAt = () => {
+  const date = new Date(Date.now() + 60 * 60 * 1000);
+  date.setMinutes(Math.ceil(date.getMinutes() / STEP_MINUTES) * STEP_MINUTES, 0, 0);
+  return date;
+};
+
+export const formatSendAt = (date: Date) =>
+  date.toLocaleString('en-US', {
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+
+const getPresets = (now: Date): { label: string; date: Date }[] => {
+  const presets = [{ label: 'In 1 hour', date: new Date(now.getTime() + 60 * 60 * 1000) }];
+
+  const tonight = atTime(now, 0, 20);
+  if (tonight.getTime() - now.getTime() > 60 * 60 * 1000) {
+    presets.push({ label: 'Tonight', date: tonight });
+  }
+
+  presets.push({ label: 'Tomorrow morning', date: atTime(now, 1, 9) });
+
+  const daysUntilMonday = ((8 - now.getDay()) % 7) || 7;
+  if (daysUntilMonday > 1) {
+    presets.push({ label: 'Monday morning', date: atTime(now, daysUntilMonday, 9) });
+  }
+
+  return presets;
+};
+
+// Pick when a message should be sent: a few common times or a custom date and time
+export default function ScheduleMessageModal({ visible, onClose, onSchedule, preview }: ScheduleMessageModalProps) {
+  const [sendAt, setSendAt] = useState(defaultSendAt);
+  const [showDatePicker, setShowDatePicker] = useState(false);
+
+  useEffect(() => {
+    if (visible) {
+      setSendAt(defaultSendAt());
+      setShowDatePicker(false);
+    }
+  }, [visible]);
+
+  const isInFuture = sendAt.getTime() > Date.now();
+
+  const moveTime = (minutes: number) => {
+    setSendAt(prev => new Date(prev.getTime() + minutes * 60 * 1000));
+  };
+
+  const changeDate = (date: Date) => {
+    setSendAt(prev => new Date(date.getFullYear(), date.getMonth(), date.getDate(), prev.getHours(), prev.getMinutes()));
+    setShowDatePicker(false);
+  };
+
+  const handleSchedule = (date: Date) => {
+    onSchedule(date);
+    onClose();
+  };
+
+  return (
+    <Modal visible={visible} transparent animationType="fade" onRequestClose={onClose}>
+      <TouchableWithoutFeedback onPress={onClose}>
+        <View style={styles.overlay}>
+          <TouchableWithoutFeedback onPress={() => {}}>
+            {showDatePicker ? (
+              <DatePicker
+                selectedDate={sendAt}
+                minimumDate={new Date()}
+                onDateChange={changeDate}
+                onCancel={() => setShowDatePicker(false)}
+              />
+            ) : (
+              <View style={styles.modalContainer}>
+                <View style={styles.header}>
+                  <Text style={styles.headerText}>Schedule Message</Text>
+                  <TouchableOpacity onPress={onClose}>
+                    <X size={22} color="#FFFFFF" />
+                  </TouchableOpacity>
+                </View>
+
+                {!!preview && (
+                  <Text style={styles.preview} numberOfLines={2}>{preview}</Text>
+                )}
+
+                {getPresets(new Date()).map(preset => (
+                  <TouchableOpacity
+                    key={preset.label}
+                    style={styles.preset}
+                    onPress={() => handleSchedule(preset.date)}
+                  >
+                    <Text style={styles.presetLabel}>{preset.label}</Text>
+                    <Text style={styles.presetTime}>{formatSendAt(preset.date)}</Text>
+                  </TouchableOpacity>
+                ))}
+
+                <View style={styles.customSection}>
+                  <Text style={styles.customTitle}>Custom</Text>
+                  <View style={styles.customRow}>
+                    <TouchableOpacity style={styles.dateButton} onPress={() => setShowDatePicker(true)}>
+                      <Calendar size={16} color="#FFFFFF" />
+                      <Text style={styles.dateText}>
+                        {sendAt.toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric' })}
+                      </Text>
+                    </TouchableOpacity>
+                    <View style={styles.stepper}>
+                      <TouchableOpacity style={styles.stepperButton} onPress={() => moveTime(-STEP_MINUTES)}>
+                        <Minus size={14} color="#FFFFFF" />
+                      </TouchableOpacity>
+                      <View style={styles.timeValue}>
+                        <Clock size={14} color="#A29BFE" />
+                        <Text style={styles.timeText}>
+                          {sendAt.toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' })}
+                        </Text>
+                      </View>
+                      <TouchableOpacity style={styles.stepperButton} onPress={() => moveTime(STEP_MINUTES)}>
+                        <Plus size={14} color="#FFFFFF" />
+                      </TouchableOpacity>
+                    </View>
+                  </View>
+                  <TouchableOpacity
+                    style={[styles.scheduleButton, !isInFuture && styles.scheduleButtonDisabled]}
+                    onPress={() => handleSchedule(sendAt)}
+                    disabled={!isInFuture}
+                  >
+                    <Text style={styles.scheduleButtonText}>
+                      {isInFuture ? `Schedule for ${formatSendAt(sendAt)}` : 'Pick a time in the future'}
+                    </Text>
+                  </TouchableOpacity>
+                </View>
+              </View>
+            )}
+          </TouchableWithoutFeedback>
+        </View>
+      </TouchableWithoutFeedback>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.6)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  modalContainer: {
+    backgroundColor: '#2A2A2A',
+    borderRadius: 16,
+    width: '85%',
+    maxWidth: 360,
+    overflow: 'hidden',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    backgroundColor: '#6C5CE7',
+    paddingVertical: 16,
+    paddingHorizontal: 20,
+  },
+  headerText: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+  preview: {
+    fontSize: 14,
+    color: '#CCCCCC',
+    fontStyle: 'italic',
+    paddingHorizontal: 20,
+    paddingTop: 12,
+  },
+  preset: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingVertical: 14,
+    paddingHorizontal: 20,
+    borderBottomWidth: 1,
+    borderBottomColor: 'rgba(255, 255, 255, 0.05)',
+  },
+  presetLabel: {
+    fontSize: 16,
+    color: '#FFFFFF',
+  },
+  presetTime: {
+    fontSize: 13,
+    color: '#999999',
+  },
+  customSection: {
+    padding: 20,
+  },
+  customTitle: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#A29BFE',
+    marginBottom: 12,
+  },
+  customRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  dateButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#1E1E1E',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+  },
+  dateText: {
+    color: '#FFFFFF',
+    fontSize: 14,
+    marginLeft: 6,
+  },
+  stepper: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  stepperButton: {
+    width: 28,
+    height: 28,
+    borderRadius: 14,
+    backgroundColor: '#1E1E1E',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  timeValue: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginHorizontal: 8,
+  },
+  timeText: {
+    color: '#FFFFFF',
+    fontSize: 14,
+    marginLeft: 4,
+  },
+  scheduleButton: {
+    backgroundColor: '#6C5CE7',
+    borderRadius: 10,
+    paddingVertical: 12,
+    alignItems: 'center',
+    marginTop: 16,
+  },
+  scheduleButtonDisabled: {
+    backgroundColor: '#3A3A3A',
+  },
+  scheduleButtonText: {
+    color: '#FFFFFF',
+    fontSize: 15,
+    fontWeight: '600',
+  },
+});
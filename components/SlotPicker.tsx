@@ -0,0 +1,196 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  Modal,
+  ActivityIndicator,
+} from 'react-native';
+import { Calendar, ChevronDown } from 'lucide-react-native';
+import { dataService } from '@/services/dataService';
+import { BookingSlot } from '@/types';
+import DatePicker from './DatePicker';
+
+interface SlotPickerProps {
+  hostId: string;
+  durationMinutes: number;
+  selectedSlot: BookingSlot | null;
+  // Should be stable (e.g. a state setter); a new function reloads the slots
+  onSelectSlot: (slot: BookingSlot | null) => void;
+  // How far ahead slots are offered
+  daysAhead?: number;
+}
+
+// Calendar day of a slot in the viewer's local time
+const localDayKey = (date: Date) =>
+  `${date.getFullYear()}-${date.getMonth()}-${date.getDate()}`;
+
+const SlotPicker: React.FC<SlotPickerProps> = ({
+  hostId,
+  durationMinutes,
+  selectedSlot,
+  onSelectSlot,
+  daysAhead = 30,
+}) => {
+  const [slots, setSlots] = useState<BookingSlot[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [selectedDate, setSelectedDate] = useState<Date | null>(null);
+  const [showCalendar, setShowCalendar] = useState(false);
+
+  useEffect(() => {
+    const loadSlots = async () => {
+      try {
+        setLoading(true);
+        onSelectSlot(null);
+        const from = new Date();
+        const to = new Date(from.getTime() + daysAhead * 24 * 60 * 60 * 1000);
+        const available = await dataService.availability.getBookableSlots(hostId, from, to, durationMinutes);
+        setSlots(available);
+        setSelectedDate(available.length > 0 ? new Date(available[0].startTime) : null);
+      } catch (error) {
+        console.error('Error loading slots:', error);
+        setSlots([]);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadSlots();
+  }, [hostId, durationMinutes, daysAhead, onSelectSlot]);
+
+  const daysWithSlots = new Set(slots.map(slot => localDayKey(new Date(slot.startTime))));
+  const slotsForDay = selectedDate
+    ? slots.filter(slot => localDayKey(new Date(slot.startTime)) === localDayKey(selectedDate))
+    : [];
+
+  if (loading) {
+    return (
+      <View style={styles.loadingContainer}>
+        <ActivityIndicator size="small" color="#6C5CE7" />
+        <Text style={styles.emptyText}>Loading available times...</Text>
+      </View>
+    );
+  }
+
+  if (slots.length === 0 || !selectedDate) {
+    return (
+      <Text style={styles.emptyText}>
+        No open times in the next {daysAhead} days. Message the host to arrange a session.
+      </Text>
+    );
+  }
+
+  return (
+    <View>
+      <TouchableOpacity style={styles.dateButton} onPress={() => setShowCalendar(true)}>
+        <Calendar size={16} color="#6C5CE7" />
+        <Text style={styles.dateButtonText}>
+          {selectedDate.toLocaleDateString('en-US', { weekday: 'long', month: 'long', day: 'numeric' })}
+        </Text>
+        <ChevronDown size={16} color="#888" />
+      </TouchableOpacity>
+
+      <View style={styles.slotGrid}>
+        {slotsForDay.map(slot => {
+          const isSelected = selectedSlot?.startTime === slot.startTime;
+          return (
+            <TouchableOpacity
+              key={slot.startTime}
+              style={[styles.slotChip, isSelected && styles.slotChipSelected]}
+              onPress={() => onSelectSlot(isSelected ? null : slot)}
+            >
+              <Text style={styles.slotText}>
+                {new Date(slot.startTime).toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' })}
+              </Text>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+
+      <Modal
+        visible={showCalendar}
+        transparent={true}
+        animationType="fade"
+        onRequestClose={() => setShowCalendar(false)}
+      >
+        <View style={styles.modalOverlay}>
+          <DatePicker
+            selectedDate={selectedDate}
+            minimumDate={new Date()}
+            maximumDate={new Date(Date.now() + daysAhead * 24 * 60 * 60 * 1000)}
+            isDateDisabled={(date) => !daysWithSlots.has(localDayKey(date))}
+            onDateChange={(date) => {
+              setSelectedDate(date);
+              onSelectSlot(null);
+              setShowCalendar(false);
+            }}
+            onCancel={() => setShowCalendar(false)}
+          />
+        </View>
+      </Modal>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  loadingContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#888',
+    fontFamily: 'Inter_400Regular',
+  },
+  dateButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#1A1A1A',
+    borderWidth: 1,
+    borderColor: '#333',
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    marginBottom: 12,
+    gap: 8,
+  },
+  dateButtonText: {
+    flex: 1,
+    fontSize: 15,
+    color: '#FFFFFF',
+    fontFamily: 'Inter_500Medium',
+  },
+  slotGrid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+  },
+  slotChip: {
+    backgroundColor: '#1A1A1A',
+    borderWidth: 1,
+    borderColor: '#333',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    marginRight: 8,
+    marginBottom: 8,
+  },
+  slotChipSelected: {
+    backgroundColor: '#6C5CE7',
+    borderColor: '#6C5CE7',
+  },
+  slotText: {
+    fontSize: 14,
+    color: '#FFFFFF',
+    fontFamily: 'Inter_500Medium',
+  },
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.7)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+});
+
+export default SlotPicker;
@@ -36,6 +36,10 @@ interface StoryCarouselProps {
 
 const AnimatedTouchableOpacity = Animated.createAnimatedComponent(TouchableOpacity);
 
+// Ring colours: the usual gradient, and green when the user has a close-friends story
+const STORY_RING_COLORS = ['#6C5CE7', '#8B5CF6', '#A855F7'] as const;
+const CLOSE_FRIENDS_RING_COLORS = ['#00B894', '#22C55E', '#4ADE80'] as const;
+
 export default function StoryCarousel({
   stories,
   onAddStory,
@@ -133,8 +137,9 @@ export default function StoryCarousel({
 
   console.log('✅ Current user in StoryCarousel:', currentUser?.id, currentUser?.username);
 
-  const StoryItem = ({ story, isCurrentUser = false, hasStories = false, index = 0, storyCount = 1 }: { story?: Story; isCurrentUser?: boolean; hasStories?: boolean; index?: number; storyCount?: number }) => {
+  const StoryItem = ({ story, isCurrentUser = false, hasStories = false, index = 0, storyCount = 1, isCloseFriends = false }: { story?: Story; isCurrentUser?: boolean; hasStories?: boolean; index?: number; storyCount?: number; isCloseFriends?: boolean }) => {
     const scale = useSharedValue(1);
+    const ringColors = isCloseFriends ? CLOSE_FRIENDS_RING_COLORS : STORY_RING_COLORS;
 
     // Removed glow and pulse animations
 
@@ -201,7 +206,7 @@ export default function StoryCarousel({
           <View style={hasStories ? styles.storyBorder : styles.addStoryBorder}>
             {hasStories ? (
               <LinearGradient
-                colors={['#6C5CE7', '#8B5CF6', '#A855F7']}
+                colors={ringColors}
                 style={styles.storyGradientBorder}
               >
                 <View style={styles.storyImageContainer}>
@@ -272,7 +277,7 @@ export default function StoryCarousel({
         >
         <View style={styles.storyBorder}>
           <LinearGradient
-            colors={['#6C5CE7', '#8B5CF6', '#A855F7']}
+            colors={ringColors}
             style={styles.storyGradientBorder}
           >
             <View style={styles.storyImageContainer}>
@@ -315,6 +320,7 @@ export default function StoryCarousel({
         {(() => {
           const userStoryMap = new Map<string, Story>();
           const userStoryCountMap = new Map<string, number>();
+          const closeFriendsUserIds = new Set<string>();
           const filteredStories = stories?.filter(story => story && story.user) || [];
           
           // Group stories by user ID, keeping the most recent one and counting total stories
@@ -323,6 +329,9 @@ export default function StoryCarousel({
               // Count stories per user
               const currentCount = userStoryCountMap.get(story.user.id) || 0;
               userStoryCountMap.set(story.user.id, currentCount + 1);
+              if (story.storySettings?.visibility === 'friends') {
+                closeFriendsUserIds.add(story.user.id);
+              }
               
               // Keep the most recent story for display
               const existingStory = userStoryMap.get(story.user.id);
@@ -354,6 +363,7 @@ export default function StoryCarousel({
                 hasStories={!!currentUserStory}
                 index={0}
                 storyCount={currentUserStoryCount}
+                isCloseFriends={closeFriendsUserIds.has(currentUser?.id || '')}
               />
               
               {/* Other users' stories */}
@@ -366,6 +376,7 @@ export default function StoryCarousel({
                     index={index + 1} 
                     hasStories={true}
                     storyCount={userStoryCount}
+                    isCloseFriends={closeFriendsUserIds.has(story.user?.id || '')}
                   />
                 );
               })}
@@ -27,6 +27,7 @@ import Animated, {
 import { X, Heart, MessageCircle, Share2, MoreHorizontal, ChevronLeft, ChevronRight, Play, Pause, Volume2, VolumeX, Trash2, Send } from 'lucide-react-native';
 import CachedImage from './CachedImage';
 import ShareToUserModal from './ShareToUserModal';
+import ReportModal from './ReportModal';
 import * as Haptics from 'expo-haptics';
 import { Story } from '../types';
 import { useUser } from '@/contexts/UserContext';
@@ -59,6 +60,7 @@ export default function StoryViewer({
   const [videoStatus, setVideoStatus] = useState<any>({});
   const [isDeleting, setIsDeleting] = useState(false);
   const [showShareModal, setShowShareModal] = useState(false);
+  const [showReportModal, setShowReportModal] = useState(false);
   
   const timerRef = useRef<NodeJS.Timeout | null>(null);
   const videoRef = useRef<Video>(null);
@@ -273,6 +275,20 @@ export default function StoryViewer({
     setShowShareModal(true);
   };
 
+  // Hold the story while the report sheet is open
+  const handleReport = () => {
+    if (!currentStory?.user?.id) return;
+    setIsPaused(true);
+    pauseStoryTimer();
+    setShowReportModal(true);
+  };
+
+  const handleReportClose = () => {
+    setShowReportModal(false);
+    setIsPaused(false);
+    startStoryTimer();
+  };
+
   const handleReply = () => {
     if (!currentStory?.user?.id || currentStory.user.id === currentUser?.id) return;
     
@@ -401,6 +417,12 @@ export default function StoryViewer({
                     <Share2 size={24} color="#FFFFFF" />
                   </TouchableOpacity>
                 )}
+
+                {currentStory.user?.id !== currentUser?.id && (
+                  <TouchableOpacity onPress={handleReport} style={styles.actionButton}>
+                    <MoreHorizontal size={24} color="#FFFFFF" />
+                  </TouchableOpacity>
+                )}
                 
                 {/* Delete button - only show for current user's stories */}
                 {currentUser && currentStory.user.id === currentUser.id && (
@@ -568,6 +590,14 @@ export default function StoryViewer({
         onClose={() => setShowShareModal(false)}
         sharedStory={currentStory}
       />
+
+      <ReportModal
+        visible={showReportModal}
+        onClose={handleReportClose}
+        targetType="story"
+        targetId={currentStory.id}
+        targetUserId={currentStory.user?.id}
+      />
     </Modal>
   );
 }
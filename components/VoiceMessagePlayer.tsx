@@ -0,0 +1,310 @@
+import React, { useState, useRef, useEffect } from 'react';
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  StyleSheet,
+  Alert,
+  GestureResponderEvent,
+  LayoutChangeEvent,
+} from 'react-native';
+import { Audio } from 'expo-av';
+import * as Haptics from 'expo-haptics';
+import { Play, Pause } from 'lucide-react-native';
+import { Message } from '@/types';
+import {
+  PlaybackSpeed,
+  getNextPlaybackSpeed,
+  getPlaybackPosition,
+  getWaveformBars,
+  savePlaybackPosition,
+} from '@/utils/voiceMessages';
+
+interface VoiceMessagePlayerProps {
+  message: Message;
+  isOwn: boolean;
+  onLongPress?: () => void;
+}
+
+// Voice note with a scrubbable waveform and playback speed. Playback resumes
+// where the user last stopped listening to this message.
+export default function VoiceMessagePlayer({ message, isOwn, onLongPress }: VoiceMessagePlayerProps) {
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [position, setPosition] = useState(0);
+  const [duration, setDuration] = useState((message.duration || 0) * 1000);
+  const [speed, setSpeed] = useState<PlaybackSpeed>(1);
+  const [scrubPosition, setScrubPosition] = useState<number | null>(null);
+  const soundRef = useRef<Audio.Sound | null>(null);
+  const positionRef = useRef(0);
+  const waveformWidth = useRef(0);
+
+  const bars = getWaveformBars(message.waveform);
+
+  // Restore the saved position, and save it again when the bubble goes away
+  useEffect(() => {
+    let active = true;
+    getPlaybackPosition(message.id).then(saved => {
+      if (active && saved > 0 && !soundRef.current) {
+        positionRef.current = saved;
+        setPosition(saved);
+      }
+    });
+
+    return () => {
+      active = false;
+      if (soundRef.current) {
+        savePlaybackPosition(message.id, positionRef.current);
+        soundRef.current.unloadAsync();
+        soundRef.current = null;
+      }
+    };
+  }, [message.id]);
+
+  const loadSound = async (): Promise<Audio.Sound | null> => {
+    if (soundRef.current) return soundRef.current;
+    if (!message.mediaUrl) return null;
+
+    const { sound } = await Audio.Sound.createAsync(
+      { uri: message.mediaUrl },
+      {
+        shouldPlay: false,
+        positionMillis: positionRef.current,
+        rate: speed,
+        shouldCorrectPitch: true,
+        progressUpdateIntervalMillis: 100,
+      }
+    );
+
+    sound.setOnPlaybackStatusUpdate((status) => {
+      if (!status.isLoaded) return;
+
+      if (status.durationMillis) {
+        setDuration(status.durationMillis);
+      }
+
+      if (status.didJustFinish) {
+        positionRef.current = 0;
+        setPosition(0);
+        setIsPlaying(false);
+        savePlaybackPosition(message.id, 0);
+        sound.stopAsync();
+        return;
+      }
+
+      positionRef.current = status.positionMillis || 0;
+      setPosition(positionRef.current);
+    });
+
+    soundRef.current = sound;
+    return sound;
+  };
+
+  const togglePlayback = async () => {
+    try {
+      const sound = await loadSound();
+      if (!sound) return;
+
+      if (isPlaying) {
+        await sound.pauseAsync();
+        setIsPlaying(false);
+        savePlaybackPosition(message.id, positionRef.current);
+      } else {
+        await sound.playAsync();
+        setIsPlaying(true);
+      }
+
+      Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    } catch (error) {
+      console.error('Error playing voice message:', error);
+      Alert.alert('Error', 'Failed to play voice message');
+    }
+  };
+
+  const changeSpeed = async () => {
+    const next = getNextPlaybackSpeed(speed);
+    setSpeed(next);
+
+    try {
+      await soundRef.current?.setRateAsync(next, true);
+    } catch (error) {
+      console.error('Error changing playback speed:', error);
+    }
+  };
+
+  // Scrubbing: touch or drag along the waveform to pick a position
+  const positionFromTouch = (event: GestureResponderEvent) => {
+    if (!waveformWidth.current || !duration) return null;
+    const ratio = Math.min(Math.max(event.nativeEvent.locationX / waveformWidth.current, 0), 1);
+    return Math.round(ratio * duration);
+  };
+
+  const handleScrubMove = (event: GestureResponderEvent) => {
+    const next = positionFromTouch(event);
+    if (next !== null) setScrubPosition(next);
+  };
+
+  const handleScrubEnd = async (event: GestureResponderEvent) => {
+    const next = positionFromTouch(event) ?? scrubPosition;
+    setScrubPosition(null);
+    if (next === null) return;
+
+    positionRef.current = next;
+    setPosition(next);
+    savePlaybackPosition(message.id, next);
+
+    try {
+      await soundRef.current?.setPositionAsync(next);
+    } catch (error) {
+      console.error('Error seeking voice message:', error);
+    }
+  };
+
+  const formatTime = (millis: number) => {
+    const seconds = Math.floor(millis / 1000);
+    const mins = Math.floor(seconds / 60);
+    const secs = seconds % 60;
+    return `${mins}:${secs.toString().padStart(2, '0')}`;
+  };
+
+  const shownPosition = scrubPosition ?? position;
+  const progress = duration > 0 ? shownPosition / duration : 0;
+  const iconColor = isOwn ? '#FFFFFF' : '#6C5CE7';
+
+  return (
+    <TouchableOpacity
+      style={styles.container}
+      onLongPress={onLongPress}
+      delayLongPress={500}
+      activeOpacity={0.7}
+    >
+      <View style={styles.row}>
+        <TouchableOpacity
+          onPress={togglePlayback}
+          style={[styles.playButton, isOwn && styles.ownPlayButton]}
+        >
+          {isPlaying ? <Pause size={16} color={iconColor} /> : <Play size={16} color={iconColor} />}
+        </TouchableOpacity>
+
+        <View style={styles.info}>
+          <View
+            style={styles.waveform}
+            onLayout={(event: LayoutChangeEvent) => {
+              waveformWidth.current = event.nativeEvent.layout.width;
+            }}
+            onStartShouldSetResponder={() => duration > 0}
+            onMoveShouldSetResponder={() => duration > 0}
+            onResponderTerminationRequest={() => false}
+            onResponderGrant={handleScrubMove}
+            onResponderMove={handleScrubMove}
+            onResponderRelease={handleScrubEnd}
+          >
+            {bars.map((level, index) => (
+              <View
+                key={index}
+                pointerEvents="none"
+                style={[
+                  styles.bar,
+                  isOwn && styles.ownBar,
+                  {
+                    height: 3 + (level / 100) * 21,
+                    opacity: (index + 0.5) / bars.length <= progress ? 1 : 0.35,
+                  },
+                ]}
+              />
+            ))}
+          </View>
+
+          <View style={styles.footer}>
+            <Text style={[styles.time, isOwn && styles.ownText]}>
+              {shownPosition > 0 || isPlaying ? formatTime(shownPosition) : formatTime(duration)}
+            </Text>
+            <TouchableOpacity
+              onPress={changeSpeed}
+              style={[styles.speedButton, isOwn && styles.ownSpeedButton]}
+              hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
+            >
+              <Text style={[styles.speedText, isOwn && styles.ownText]}>{speed}x</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </View>
+
+      {!!message.transcript && (
+        <Text style={[styles.transcript, isOwn && styles.ownText]}>{message.transcript}</Text>
+      )}
+    </TouchableOpacity>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    minWidth: 220,
+    paddingVertical: 4,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  playButton: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    backgroundColor: 'rgba(108, 92, 231, 0.2)',
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginRight: 12,
+  },
+  ownPlayButton: {
+    backgroundColor: 'rgba(255, 255, 255, 0.2)',
+  },
+  info: {
+    flex: 1,
+  },
+  waveform: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    height: 28,
+    marginBottom: 4,
+  },
+  bar: {
+    width: 2,
+    backgroundColor: '#6C5CE7',
+    borderRadius: 1,
+  },
+  ownBar: {
+    backgroundColor: '#FFFFFF',
+  },
+  footer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  time: {
+    fontSize: 12,
+    color: '#999',
+  },
+  ownText: {
+    color: 'rgba(255, 255, 255, 0.85)',
+  },
+  speedButton: {
+    paddingHorizontal: 6,
+    paddingVertical: 1,
+    borderRadius: 8,
+    backgroundColor: 'rgba(108, 92, 231, 0.2)',
+  },
+  ownSpeedButton: {
+    backgroundColor: 'rgba(255, 255, 255, 0.2)',
+  },
+  speedText: {
+    fontSize: 11,
+    fontWeight: '600',
+    color: '#A29BFE',
+  },
+  transcript: {
+    fontSize: 13,
+    color: '#CCCCCC',
+    fontStyle: 'italic',
+    marginTop: 6,
+  },
+});
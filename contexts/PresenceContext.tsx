@@ -2,6 +2,7 @@ import React, { createContext, useContext, useEffect, useState, ReactNode } from
 import { supabase } from '@/app/lib/supabase';
 import { useUser } from './UserContext';
 import { usePresence } from '@/hooks/usePresence';
+import { dataService } from '@/services/dataService';
 import { debug, useDebugLogger } from '@/utils/debugLogger';
 
 interface PresenceUser {
@@ -33,6 +34,8 @@ export const PresenceProvider: React.FC<{ children: ReactNode }> = ({ children }
   const debugLogger = useDebugLogger('PresenceContext');
   const [onlineUsers, setOnlineUsers] = useState<Map<string, PresenceUser>>(new Map());
   const lastLoadLogTimeRef = React.useRef<number>(0);
+  // Users blocked in either direction never show up as online
+  const blockedIdsRef = React.useRef<Set<string>>(new Set());
   
   // Initialize user's own presence
   usePresence();
@@ -49,6 +52,7 @@ export const PresenceProvider: React.FC<{ children: ReactNode }> = ({ children }
       .on('broadcast', { event: 'presence_change' }, (payload: any) => {
         try {
           const { userId, username, status, timestamp } = payload.payload;
+          if (blockedIdsRef.current.has(userId)) return;
           
           // Only log status changes, not all presence updates to reduce spam
           if (status === 'offline') {
@@ -113,6 +117,9 @@ export const PresenceProvider: React.FC<{ children: ReactNode }> = ({ children }
         // debugLogger.info('PRESENCE_CONTEXT', 'LOAD_ONLINE', 'Loading online users from database');
       }
 
+      const { blocked } = await dataService.user.getHiddenUserIds(currentUser.id);
+      blockedIdsRef.current = new Set(blocked);
+
       const { data, error } = await supabase
         .from('user_profiles')
         .select('id, username, is_online, last_seen')
@@ -126,6 +133,7 @@ export const PresenceProvider: React.FC<{ children: ReactNode }> = ({ children }
 
       const onlineUsersMap = new Map<string, PresenceUser>();
       data?.forEach(user => {
+        if (blockedIdsRef.current.has(user.id)) return;
         onlineUsersMap.set(user.id, {
           userId: user.id,
           username: user.username || '',
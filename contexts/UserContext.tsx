@@ -6,6 +6,8 @@ import { User } from '../types';
 import { router } from 'expo-router';
 import { dataService } from '@/services/dataService';
 import { notificationService } from '@/services/notificationService';
+import { messageOutbox } from '@/services/messageOutbox';
+import { scheduledMessages } from '@/services/scheduledMessages';
 
 const USER_STORAGE_KEY = '@user_data';
 
@@ -80,6 +82,29 @@ export const UserProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     loadUserData();
   }, []);
 
+  // Deliver local notifications, keep badge counts and send queued messages
+  // for the signed in user, including sessions restored from storage
+  useEffect(() => {
+    if (!state.user?.id) return;
+
+    messageOutbox.initialize(state.user.id);
+    scheduledMessages.initialize(state.user.id);
+
+    notificationService.initialize(state.user.id).then(success => {
+      if (success) {
+        console.log('🔔 Notifications initialized for user');
+      } else {
+        console.error('❌ Failed to initialize notifications');
+      }
+    });
+
+    return () => {
+      notificationService.cleanup();
+      messageOutbox.cleanup();
+      scheduledMessages.cleanup();
+    };
+  }, [state.user?.id]);
+
   // Listen to Supabase auth state changes
   useEffect(() => {
     console.log('🔐 Setting up auth state listener...');
@@ -106,14 +131,6 @@ export const UserProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
           if (userProfile) {
             await AsyncStorage.setItem(USER_STORAGE_KEY, JSON.stringify(userProfile));
             dispatch({ type: 'SET_USER', payload: userProfile });
-            
-            // Initialize notifications for the user
-            try {
-              await notificationService.initialize(userProfile.id);
-              console.log('🔔 Notifications initialized for user');
-            } catch (notificationError) {
-              console.error('❌ Failed to initialize notifications:', notificationError);
-            }
           }
         }
       }
@@ -429,16 +446,20 @@ export const UserProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
         return false;
       }
 
-      // Create host profile using data service
-      const success = await dataService.host.createHostProfile({
+      const applicationData = {
         userId: state.user.id,
         description: hostData.description,
         relationshipRoles: hostData.relationshipRoles,
         interests: hostData.interests,
         expertise: hostData.expertise,
         priceCategory: hostData.priceCategory,
-        isApproved: true, // Auto-approve for development
-      });
+      };
+
+      // A rejected applicant resubmits their existing application for review
+      const existingProfile = await dataService.host.getHostProfile(state.user.id);
+      const success = existingProfile
+        ? await dataService.host.resubmitHostProfile(state.user.id, applicationData)
+        : await dataService.host.createHostProfile(applicationData);
 
       if (!success) {
         console.error('❌ Host profile creation failed');
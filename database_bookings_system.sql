@@ -0,0 +1,148 @@
+-- =====================================================
+-- BOOKINGS SYSTEM
+-- =====================================================
+-- This script turns the bookings table into a working booking system:
+-- a status state machine enforced by a trigger, RLS policies so only the
+-- host and client can see or change a booking, and indexes for the
+-- upcoming/past booking lists.
+--
+-- Status flow:
+--   pending   -> accepted | declined | cancelled
+--   accepted  -> cancelled | completed
+--   declined, cancelled, completed are terminal
+
+-- 1. Add tracking columns
+ALTER TABLE bookings
+ADD COLUMN IF NOT EXISTS status_changed_by UUID REFERENCES user_profiles(id) ON DELETE SET NULL;
+
+ALTER TABLE bookings
+ADD COLUMN IF NOT EXISTS status_changed_at TIMESTAMP WITH TIME ZONE;
+
+-- 2. Normalise legacy statuses and constrain the column
+UPDATE bookings SET status = 'accepted' WHERE status = 'confirmed';
+UPDATE bookings SET status = 'pending' WHERE status IS NULL;
+
+ALTER TABLE bookings DROP CONSTRAINT IF EXISTS bookings_status_check;
+ALTER TABLE bookings ADD CONSTRAINT bookings_status_check
+    CHECK (status IN ('pending', 'accepted', 'declined', 'cancelled', 'completed'));
+
+ALTER TABLE bookings DROP CONSTRAINT IF EXISTS bookings_time_check;
+ALTER TABLE bookings ADD CONSTRAINT bookings_time_check
+    CHECK (end_time > start_time);
+
+ALTER TABLE bookings DROP CONSTRAINT IF EXISTS bookings_participants_check;
+ALTER TABLE bookings ADD CONSTRAINT bookings_participants_check
+    CHECK (host_id <> client_id);
+
+-- 3. Indexes
+CREATE INDEX IF NOT EXISTS idx_bookings_host_id ON bookings(host_id, start_time DESC);
+CREATE INDEX IF NOT EXISTS idx_bookings_client_id ON bookings(client_id, start_time DESC);
+CREATE INDEX IF NOT EXISTS idx_bookings_status ON bookings(status);
+
+-- 4. Enable RLS
+ALTER TABLE bookings ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Participants can view their bookings" ON bookings;
+DROP POLICY IF EXISTS "Clients can request bookings" ON bookings;
+DROP POLICY IF EXISTS "Participants can update their bookings" ON bookings;
+
+-- Only the host and client can see a booking
+CREATE POLICY "Participants can view their bookings" ON bookings
+    FOR SELECT USING (auth.uid() = host_id OR auth.uid() = client_id);
+
+-- Only the client can create a booking, and it must start as pending
+CREATE POLICY "Clients can request bookings" ON bookings
+    FOR INSERT WITH CHECK (
+        auth.uid() = client_id AND
+        status = 'pending'
+    );
+
+-- Host and client can update; the trigger below decides which transitions
+-- and field changes are allowed
+CREATE POLICY "Participants can update their bookings" ON bookings
+    FOR UPDATE USING (auth.uid() = host_id OR auth.uid() = client_id);
+
+-- No DELETE policy: bookings are kept for history and reviews
+
+-- 5. State machine trigger
+CREATE OR REPLACE FUNCTION validate_booking_status_change()
+RETURNS TRIGGER AS $$
+DECLARE
+    actor UUID := auth.uid();
+BEGIN
+    -- Participants and price are fixed once requested
+    IF NEW.host_id <> OLD.host_id OR NEW.client_id <> OLD.client_id OR NEW.amount <> OLD.amount THEN
+        RAISE EXCEPTION 'Booking participants and amount cannot be changed';
+    END IF;
+
+    -- The session time is fixed too, since the price and the host's
+    -- availability were checked for it; request a new booking instead
+    IF NEW.start_time <> OLD.start_time OR NEW.end_time <> OLD.end_time THEN
+        RAISE EXCEPTION 'Booking time cannot be changed';
+    END IF;
+
+    IF NEW.status = OLD.status THEN
+        NEW.updated_at := NOW();
+        RETURN NEW;
+    END IF;
+
+    IF NOT (
+        (OLD.status = 'pending' AND NEW.status IN ('accepted', 'declined', 'cancelled')) OR
+        (OLD.status = 'accepted' AND NEW.status IN ('cancelled', 'completed'))
+    ) THEN
+        RAISE EXCEPTION 'Invalid booking status transition: % -> %', OLD.status, NEW.status;
+    END IF;
+
+    -- Only the host can accept, decline or complete
+    IF NEW.status IN ('accepted', 'declined', 'completed') AND actor IS DISTINCT FROM OLD.host_id THEN
+        RAISE EXCEPTION 'Only the host can mark a booking as %', NEW.status;
+    END IF;
+
+    -- A session can only be completed once it has started
+    IF NEW.status = 'completed' AND OLD.start_time > NOW() THEN
+        RAISE EXCEPTION 'A booking cannot be completed before it starts';
+    END IF;
+
+    NEW.status_changed_by := actor;
+    NEW.status_changed_at := NOW();
+    NEW.updated_at := NOW();
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS trigger_validate_booking_status_change ON bookings;
+
+CREATE TRIGGER trigger_validate_booking_status_change
+    BEFORE UPDATE ON bookings
+    FOR EACH ROW
+    EXECUTE FUNCTION validate_booking_status_change();
+
+-- 6. Price bookings from the host's hourly rate on insert
+CREATE OR REPLACE FUNCTION price_booking_from_hourly_rate()
+RETURNS TRIGGER AS $$
+DECLARE
+    host_rate DECIMAL(10,2);
+BEGIN
+    SELECT hourly_rate INTO host_rate
+    FROM user_profiles
+    WHERE id = NEW.host_id AND is_host = true;
+
+    IF host_rate IS NULL THEN
+        RAISE EXCEPTION 'Bookings can only be requested with a host';
+    END IF;
+
+    NEW.amount := ROUND(host_rate * EXTRACT(EPOCH FROM (NEW.end_time - NEW.start_time)) / 3600.0, 2);
+    NEW.status := 'pending';
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS trigger_price_booking_from_hourly_rate ON bookings;
+
+CREATE TRIGGER trigger_price_booking_from_hourly_rate
+    BEFORE INSERT ON bookings
+    FOR EACH ROW
+    EXECUTE FUNCTION price_booking_from_hourly_rate();
+
+-- 7. Verification
+SELECT 'Bookings system setup completed successfully' AS status;
@@ -0,0 +1,73 @@
+-- =====================================================
+-- CLOSE FRIENDS AND STORY AUDIENCES
+-- =====================================================
+-- Each user keeps a close-friends list. Stories are posted to an audience:
+-- 'public' (everyone who can see the account), 'friends' (only the owner's
+-- close friends) or 'private' (only the owner). Moderators can see every
+-- story so reports can be reviewed. Requires database_host_applications.sql
+-- and database_private_accounts.sql.
+
+-- 1. Close-friends list
+CREATE TABLE IF NOT EXISTS close_friends (
+    user_id UUID NOT NULL REFERENCES user_profiles(id) ON DELETE CASCADE,
+    friend_id UUID NOT NULL REFERENCES user_profiles(id) ON DELETE CASCADE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    PRIMARY KEY (user_id, friend_id),
+    CHECK (user_id <> friend_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_close_friends_friend ON close_friends(friend_id);
+
+ALTER TABLE close_friends ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view close friend lists they are on" ON close_friends;
+DROP POLICY IF EXISTS "Users can add close friends" ON close_friends;
+DROP POLICY IF EXISTS "Users can remove close friends" ON close_friends;
+
+-- The owner sees their list; a friend can see which lists they are on so
+-- their feed can mark close-friends stories
+CREATE POLICY "Users can view close friend lists they are on" ON close_friends
+    FOR SELECT USING (user_id = auth.uid() OR friend_id = auth.uid());
+
+CREATE POLICY "Users can add close friends" ON close_friends
+    FOR INSERT WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can remove close friends" ON close_friends
+    FOR DELETE USING (user_id = auth.uid());
+
+GRANT SELECT, INSERT, DELETE ON close_friends TO authenticated;
+
+CREATE OR REPLACE FUNCTION is_close_friend(p_owner UUID, p_viewer UUID)
+RETURNS BOOLEAN AS $$
+    SELECT EXISTS (
+        SELECT 1 FROM close_friends
+        WHERE user_id = p_owner AND friend_id = p_viewer
+    );
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION is_close_friend(UUID, UUID) TO authenticated;
+
+-- 2. Story audience
+ALTER TABLE stories ADD COLUMN IF NOT EXISTS visibility TEXT NOT NULL DEFAULT 'public';
+
+ALTER TABLE stories DROP CONSTRAINT IF EXISTS stories_visibility_check;
+ALTER TABLE stories ADD CONSTRAINT stories_visibility_check
+    CHECK (visibility IN ('public', 'friends', 'private'));
+
+-- 3. Only the chosen audience can see a story
+DROP POLICY IF EXISTS "Story audience" ON stories;
+
+CREATE POLICY "Story audience" ON stories
+    AS RESTRICTIVE FOR SELECT
+    USING (
+        user_id = auth.uid()
+        OR visibility = 'public'
+        OR (visibility = 'friends' AND is_close_friend(user_id, auth.uid()))
+        OR is_moderator(auth.uid())
+    );
+
+-- 4. Verification
+SELECT
+    'Close friends setup complete' AS status,
+    (SELECT COUNT(*) FROM close_friends) AS close_friend_entries,
+    (SELECT COUNT(*) FROM stories WHERE visibility = 'friends') AS close_friends_stories;
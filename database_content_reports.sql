@@ -0,0 +1,319 @@
+-- =====================================================
+-- CONTENT REPORTS AND MODERATION QUEUE
+-- =====================================================
+-- Anyone can report a post, reel, story, comment or user with a reason and
+-- optional notes. Open reports are grouped per reported item into a queue
+-- that moderators work through. For each item a moderator can:
+--   * dismiss:      close the reports, nothing changes
+--   * hide_content: hide the post, reel, story or comment from everyone
+--   * suspend_user: suspend the author (or the reported user)
+-- Hidden content and everything posted by suspended users is filtered out
+-- for everyone except moderators, and suspended users cannot post, comment
+-- or send messages. Moderators can lift a suspension with unsuspend_user.
+-- Requires database_host_applications.sql for is_moderator().
+
+-- 1. Reports
+CREATE TABLE IF NOT EXISTS content_reports (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    reporter_id UUID NOT NULL REFERENCES user_profiles(id) ON DELETE CASCADE,
+    target_type TEXT NOT NULL CHECK (target_type IN ('post', 'reel', 'story', 'comment', 'user')),
+    target_id UUID NOT NULL,
+    target_user_id UUID REFERENCES user_profiles(id) ON DELETE CASCADE,
+    reason TEXT NOT NULL CHECK (reason IN (
+        'spam', 'harassment', 'hate_speech', 'nudity', 'violence',
+        'self_harm', 'misinformation', 'impersonation', 'scam', 'other'
+    )),
+    notes TEXT CHECK (notes IS NULL OR length(notes) <= 1000),
+    status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'dismissed', 'actioned')),
+    action TEXT CHECK (action IS NULL OR action IN ('dismiss', 'hide_content', 'suspend_user')),
+    reviewed_by UUID REFERENCES user_profiles(id) ON DELETE SET NULL,
+    reviewed_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- One open report per person per item
+CREATE UNIQUE INDEX IF NOT EXISTS idx_content_reports_open_unique
+    ON content_reports(reporter_id, target_type, target_id)
+    WHERE status = 'open';
+
+CREATE INDEX IF NOT EXISTS idx_content_reports_open
+    ON content_reports(target_type, target_id, created_at)
+    WHERE status = 'open';
+
+-- 2. Hidden content and suspended users
+ALTER TABLE posts ADD COLUMN IF NOT EXISTS is_hidden BOOLEAN NOT NULL DEFAULT false;
+ALTER TABLE reels ADD COLUMN IF NOT EXISTS is_hidden BOOLEAN NOT NULL DEFAULT false;
+ALTER TABLE stories ADD COLUMN IF NOT EXISTS is_hidden BOOLEAN NOT NULL DEFAULT false;
+ALTER TABLE comments ADD COLUMN IF NOT EXISTS is_hidden BOOLEAN NOT NULL DEFAULT false;
+
+ALTER TABLE user_profiles ADD COLUMN IF NOT EXISTS is_suspended BOOLEAN NOT NULL DEFAULT false;
+ALTER TABLE user_profiles ADD COLUMN IF NOT EXISTS suspended_at TIMESTAMP WITH TIME ZONE;
+
+CREATE OR REPLACE FUNCTION is_user_suspended(p_user_id UUID)
+RETURNS BOOLEAN AS $$
+    SELECT COALESCE((SELECT is_suspended FROM user_profiles WHERE id = p_user_id), false);
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION is_user_suspended(UUID) TO authenticated;
+
+-- Users cannot lift their own suspension
+CREATE OR REPLACE FUNCTION protect_suspension_flag()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.is_suspended IS DISTINCT FROM OLD.is_suspended AND NOT is_moderator(auth.uid()) THEN
+        NEW.is_suspended := OLD.is_suspended;
+        NEW.suspended_at := OLD.suspended_at;
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_protect_suspension_flag ON user_profiles;
+
+CREATE TRIGGER trigger_protect_suspension_flag
+    BEFORE UPDATE OF is_suspended ON user_profiles
+    FOR EACH ROW
+    EXECUTE FUNCTION protect_suspension_flag();
+
+-- 3. Row level security: reporters see their own reports, moderators see all.
+-- Reports are only ever closed through resolve_content_reports().
+ALTER TABLE content_reports ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own reports" ON content_reports;
+DROP POLICY IF EXISTS "Moderators can view all reports" ON content_reports;
+DROP POLICY IF EXISTS "Users can report content" ON content_reports;
+
+CREATE POLICY "Users can view own reports" ON content_reports
+    FOR SELECT USING (reporter_id = auth.uid());
+
+CREATE POLICY "Moderators can view all reports" ON content_reports
+    FOR SELECT USING (is_moderator(auth.uid()));
+
+CREATE POLICY "Users can report content" ON content_reports
+    FOR INSERT WITH CHECK (
+        reporter_id = auth.uid()
+        AND status = 'open'
+        AND reviewed_by IS NULL
+        AND (target_user_id IS NULL OR target_user_id <> auth.uid())
+    );
+
+GRANT SELECT, INSERT ON content_reports TO authenticated;
+
+-- 4. Moderation queue: one row per reported item, oldest first
+CREATE OR REPLACE FUNCTION get_moderation_queue(p_limit INTEGER DEFAULT 50, p_offset INTEGER DEFAULT 0)
+RETURNS TABLE (
+    target_type TEXT,
+    target_id UUID,
+    target_user_id UUID,
+    report_count BIGINT,
+    reasons TEXT[],
+    notes TEXT[],
+    first_reported_at TIMESTAMP WITH TIME ZONE,
+    last_reported_at TIMESTAMP WITH TIME ZONE,
+    preview_text TEXT,
+    preview_media_url TEXT,
+    content_is_hidden BOOLEAN
+) AS $$
+BEGIN
+    IF NOT is_moderator(auth.uid()) THEN
+        RAISE EXCEPTION 'Only moderators can view the moderation queue';
+    END IF;
+
+    RETURN QUERY
+    SELECT
+        r.target_type,
+        r.target_id,
+        (array_agg(r.target_user_id))[1],
+        COUNT(*),
+        array_agg(DISTINCT r.reason),
+        array_remove(array_agg(r.notes ORDER BY r.created_at), NULL),
+        MIN(r.created_at),
+        MAX(r.created_at),
+        CASE r.target_type
+            WHEN 'post' THEN (SELECT p.content FROM posts p WHERE p.id = r.target_id)
+            WHEN 'reel' THEN (SELECT rl.caption FROM reels rl WHERE rl.id = r.target_id)
+            WHEN 'comment' THEN (SELECT c.content FROM comments c WHERE c.id = r.target_id)
+            WHEN 'user' THEN (SELECT up.bio FROM user_profiles up WHERE up.id = r.target_id)
+        END,
+        CASE r.target_type
+            WHEN 'post' THEN (SELECT p.image_url FROM posts p WHERE p.id = r.target_id)
+            WHEN 'reel' THEN (SELECT rl.thumbnail_url FROM reels rl WHERE rl.id = r.target_id)
+            WHEN 'story' THEN (SELECT s.image_url FROM stories s WHERE s.id = r.target_id)
+            WHEN 'user' THEN (SELECT up.avatar FROM user_profiles up WHERE up.id = r.target_id)
+        END,
+        CASE r.target_type
+            WHEN 'post' THEN (SELECT p.is_hidden FROM posts p WHERE p.id = r.target_id)
+            WHEN 'reel' THEN (SELECT rl.is_hidden FROM reels rl WHERE rl.id = r.target_id)
+            WHEN 'story' THEN (SELECT s.is_hidden FROM stories s WHERE s.id = r.target_id)
+            WHEN 'comment' THEN (SELECT c.is_hidden FROM comments c WHERE c.id = r.target_id)
+            ELSE false
+        END
+    FROM content_reports r
+    WHERE r.status = 'open'
+    GROUP BY r.target_type, r.target_id
+    ORDER BY MIN(r.created_at) ASC
+    LIMIT p_limit OFFSET p_offset;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+-- 5. Resolve every open report on an item
+CREATE OR REPLACE FUNCTION resolve_content_reports(p_target_type TEXT, p_target_id UUID, p_action TEXT)
+RETURNS INTEGER AS $$
+DECLARE
+    v_user_id UUID;
+    v_resolved INTEGER;
+BEGIN
+    IF NOT is_moderator(auth.uid()) THEN
+        RAISE EXCEPTION 'Only moderators can resolve reports';
+    END IF;
+
+    IF p_action NOT IN ('dismiss', 'hide_content', 'suspend_user') THEN
+        RAISE EXCEPTION 'Unknown moderation action: %', p_action;
+    END IF;
+
+    IF p_action = 'hide_content' THEN
+        CASE p_target_type
+            WHEN 'post' THEN UPDATE posts SET is_hidden = true WHERE id = p_target_id;
+            WHEN 'reel' THEN UPDATE reels SET is_hidden = true WHERE id = p_target_id;
+            WHEN 'story' THEN UPDATE stories SET is_hidden = true WHERE id = p_target_id;
+            WHEN 'comment' THEN UPDATE comments SET is_hidden = true WHERE id = p_target_id;
+            ELSE RAISE EXCEPTION 'Users cannot be hidden, suspend them instead';
+        END CASE;
+    ELSIF p_action = 'suspend_user' THEN
+        v_user_id := CASE p_target_type
+            WHEN 'user' THEN p_target_id
+            WHEN 'post' THEN (SELECT user_id FROM posts WHERE id = p_target_id)
+            WHEN 'reel' THEN (SELECT user_id FROM reels WHERE id = p_target_id)
+            WHEN 'story' THEN (SELECT user_id FROM stories WHERE id = p_target_id)
+            WHEN 'comment' THEN (SELECT user_id FROM comments WHERE id = p_target_id)
+        END;
+
+        IF v_user_id IS NULL THEN
+            RAISE EXCEPTION 'Reported user not found';
+        END IF;
+
+        UPDATE user_profiles
+        SET is_suspended = true, suspended_at = NOW()
+        WHERE id = v_user_id AND NOT is_suspended;
+    END IF;
+
+    UPDATE content_reports
+    SET status = CASE WHEN p_action = 'dismiss' THEN 'dismissed' ELSE 'actioned' END,
+        action = p_action,
+        reviewed_by = auth.uid(),
+        reviewed_at = NOW()
+    WHERE target_type = p_target_type
+      AND target_id = p_target_id
+      AND status = 'open';
+
+    GET DIAGNOSTICS v_resolved = ROW_COUNT;
+    RETURN v_resolved;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Lift a suspension; the user's content becomes visible again
+CREATE OR REPLACE FUNCTION unsuspend_user(p_user_id UUID)
+RETURNS VOID AS $$
+BEGIN
+    IF NOT is_moderator(auth.uid()) THEN
+        RAISE EXCEPTION 'Only moderators can lift suspensions';
+    END IF;
+
+    UPDATE user_profiles
+    SET is_suspended = false, suspended_at = NULL
+    WHERE id = p_user_id AND is_suspended;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION get_moderation_queue(INTEGER, INTEGER) TO authenticated;
+GRANT EXECUTE ON FUNCTION resolve_content_reports(TEXT, UUID, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION unsuspend_user(UUID) TO authenticated;
+
+-- 6. Hide hidden content and suspended users' content from non-moderators
+DROP POLICY IF EXISTS "Hide moderated posts" ON posts;
+DROP POLICY IF EXISTS "Hide moderated reels" ON reels;
+DROP POLICY IF EXISTS "Hide moderated stories" ON stories;
+DROP POLICY IF EXISTS "Hide moderated comments" ON comments;
+
+CREATE POLICY "Hide moderated posts" ON posts
+    AS RESTRICTIVE FOR SELECT
+    USING ((NOT is_hidden AND NOT is_user_suspended(user_id)) OR is_moderator(auth.uid()));
+
+CREATE POLICY "Hide moderated reels" ON reels
+    AS RESTRICTIVE FOR SELECT
+    USING ((NOT is_hidden AND NOT is_user_suspended(user_id)) OR is_moderator(auth.uid()));
+
+CREATE POLICY "Hide moderated stories" ON stories
+    AS RESTRICTIVE FOR SELECT
+    USING ((NOT is_hidden AND NOT is_user_suspended(user_id)) OR is_moderator(auth.uid()));
+
+CREATE POLICY "Hide moderated comments" ON comments
+    AS RESTRICTIVE FOR SELECT
+    USING ((NOT is_hidden AND NOT is_user_suspended(user_id)) OR is_moderator(auth.uid()));
+
+-- The comments view runs with its owner's rights, so it filters itself
+CREATE OR REPLACE VIEW comments_with_users AS
+SELECT
+    c.id,
+    c.post_id,
+    c.user_id,
+    c.content,
+    c.likes_count,
+    c.is_edited,
+    c.edited_at,
+    c.parent_id,
+    c.created_at,
+    c.updated_at,
+    up.username,
+    up.avatar,
+    up.bio,
+    up.location,
+    up.age,
+    up.is_host,
+    up.hourly_rate,
+    up.total_chats,
+    up.response_time,
+    EXISTS(
+        SELECT 1 FROM comment_likes cl
+        WHERE cl.comment_id = c.id AND cl.user_id = auth.uid()
+    ) as is_liked_by_current_user
+FROM comments c
+JOIN user_profiles up ON c.user_id = up.id
+WHERE NOT c.is_hidden AND NOT up.is_suspended
+ORDER BY c.created_at ASC;
+
+-- 7. Suspended users cannot post, comment or message
+DROP POLICY IF EXISTS "Suspended users cannot post" ON posts;
+DROP POLICY IF EXISTS "Suspended users cannot post reels" ON reels;
+DROP POLICY IF EXISTS "Suspended users cannot post stories" ON stories;
+DROP POLICY IF EXISTS "Suspended users cannot comment" ON comments;
+DROP POLICY IF EXISTS "Suspended users cannot message" ON messages;
+
+CREATE POLICY "Suspended users cannot post" ON posts
+    AS RESTRICTIVE FOR INSERT
+    WITH CHECK (NOT is_user_suspended(auth.uid()));
+
+CREATE POLICY "Suspended users cannot post reels" ON reels
+    AS RESTRICTIVE FOR INSERT
+    WITH CHECK (NOT is_user_suspended(auth.uid()));
+
+CREATE POLICY "Suspended users cannot post stories" ON stories
+    AS RESTRICTIVE FOR INSERT
+    WITH CHECK (NOT is_user_suspended(auth.uid()));
+
+CREATE POLICY "Suspended users cannot comment" ON comments
+    AS RESTRICTIVE FOR INSERT
+    WITH CHECK (NOT is_user_suspended(auth.uid()));
+
+CREATE POLICY "Suspended users cannot message" ON messages
+    AS RESTRICTIVE FOR INSERT
+    WITH CHECK (NOT is_user_suspended(auth.uid()));
+
+-- 8. Verification
+SELECT
+    'Content reports setup complete' AS status,
+    COUNT(*) FILTER (WHERE status = 'open') AS open_reports,
+    COUNT(*) FILTER (WHERE status = 'dismissed') AS dismissed,
+    COUNT(*) FILTER (WHERE status = 'actioned') AS actioned
+FROM content_reports;
@@ -0,0 +1,312 @@
+-- =====================================================
+-- DISAPPEARING MESSAGES
+-- =====================================================
+-- Each conversation can have a message timer: off, 24 hours, 7 days or
+-- 90 days. Messages sent while the timer is on get an expires_at and are
+-- deleted once it passes, by a pg_cron job where available and whenever a
+-- participant opens the conversation. Changing the timer is recorded as a
+-- 'system' message. Requires database_group_conversations.sql,
+-- database_notifications_inbox.sql and database_message_search.sql.
+
+-- 1. Timer on conversations, expiry on messages
+ALTER TABLE conversations ADD COLUMN IF NOT EXISTS message_ttl_seconds INTEGER;
+
+ALTER TABLE conversations DROP CONSTRAINT IF EXISTS conversations_message_ttl_check;
+ALTER TABLE conversations ADD CONSTRAINT conversations_message_ttl_check
+    CHECK (message_ttl_seconds IS NULL OR message_ttl_seconds IN (86400, 604800, 7776000));
+
+ALTER TABLE messages ADD COLUMN IF NOT EXISTS expires_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX IF NOT EXISTS idx_messages_expires_at
+    ON messages(expires_at)
+    WHERE expires_at IS NOT NULL;
+
+-- 2. Stamp new messages with the conversation's timer. The expiry always
+-- comes from the timer, never from the sender, and cannot be changed later.
+-- System messages stay so the history of timer changes is kept.
+CREATE OR REPLACE FUNCTION set_message_expiry()
+RETURNS TRIGGER AS $$
+DECLARE
+    v_ttl INTEGER;
+BEGIN
+    IF TG_OP = 'UPDATE' THEN
+        NEW.expires_at := OLD.expires_at;
+        RETURN NEW;
+    END IF;
+
+    NEW.expires_at := NULL;
+
+    IF NEW.message_type = 'system' THEN
+        RETURN NEW;
+    END IF;
+
+    SELECT message_ttl_seconds INTO v_ttl
+    FROM conversations
+    WHERE id = NEW.conversation_id;
+
+    IF v_ttl IS NOT NULL THEN
+        NEW.expires_at := NOW() + make_interval(secs => v_ttl);
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS trigger_set_message_expiry ON messages;
+
+CREATE TRIGGER trigger_set_message_expiry
+    BEFORE INSERT OR UPDATE OF expires_at ON messages
+    FOR EACH ROW
+    EXECUTE FUNCTION set_message_expiry();
+
+-- 3. Change the timer. Anyone in a direct conversation can change it; in
+-- groups only admins can.
+CREATE OR REPLACE FUNCTION set_conversation_message_ttl(p_conversation_id UUID, p_ttl_seconds INTEGER)
+RETURNS VOID AS $$
+DECLARE
+    v_type TEXT;
+    v_old_ttl INTEGER;
+    v_label TEXT;
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM conversation_participants
+        WHERE conversation_id = p_conversation_id AND user_id = auth.uid()
+    ) THEN
+        RAISE EXCEPTION 'Not a participant in this conversation';
+    END IF;
+
+    SELECT conversation_type, message_ttl_seconds INTO v_type, v_old_ttl
+    FROM conversations
+    WHERE id = p_conversation_id;
+
+    IF v_type = 'group' AND NOT is_conversation_admin(p_conversation_id, auth.uid()) THEN
+        RAISE EXCEPTION 'Only group admins can change disappearing messages';
+    END IF;
+
+    IF v_old_ttl IS NOT DISTINCT FROM p_ttl_seconds THEN
+        RETURN;
+    END IF;
+
+    UPDATE conversations
+    SET message_ttl_seconds = p_ttl_seconds
+    WHERE id = p_conversation_id;
+
+    v_label := CASE p_ttl_seconds
+        WHEN 86400 THEN '24 hours'
+        WHEN 604800 THEN '7 days'
+        WHEN 7776000 THEN '90 days'
+    END;
+
+    PERFORM add_group_system_message(
+        p_conversation_id, auth.uid(),
+        CASE
+            WHEN p_ttl_seconds IS NULL THEN get_display_name(auth.uid()) || ' turned off disappearing messages'
+            ELSE get_display_name(auth.uid()) || ' set messages to disappear after ' || v_label
+        END
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- 4. Delete expired messages. Receipts and reactions go with them; replies
+-- keep their text and lose the quote. Inbox entries that point at a purged
+-- message (message and mention notifications) are deleted too, since their
+-- preview holds the message text.
+CREATE INDEX IF NOT EXISTS idx_notifications_message_id
+    ON notifications ((data->>'messageId'))
+    WHERE data ? 'messageId';
+
+CREATE OR REPLACE FUNCTION delete_message_notifications(p_message_ids UUID[])
+RETURNS VOID AS $$
+BEGIN
+    IF COALESCE(array_length(p_message_ids, 1), 0) = 0 THEN
+        RETURN;
+    END IF;
+
+    DELETE FROM notifications
+    WHERE data ? 'messageId'
+      AND data->>'messageId' = ANY (p_message_ids::text[]);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION purge_expired_messages()
+RETURNS INTEGER AS $$
+DECLARE
+    v_deleted UUID[];
+BEGIN
+    WITH deleted AS (
+        DELETE FROM messages
+        WHERE id IN (
+            SELECT id FROM messages
+            WHERE expires_at <= NOW()
+            LIMIT 5000
+        )
+        RETURNING id
+    )
+    SELECT array_agg(id) INTO v_deleted FROM deleted;
+
+    PERFORM delete_message_notifications(v_deleted);
+    RETURN COALESCE(array_length(v_deleted, 1), 0);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Used by the app when a conversation is opened, so expired messages are
+-- gone even without pg_cron. Only touches the caller's conversation.
+CREATE OR REPLACE FUNCTION purge_expired_conversation_messages(p_conversation_id UUID)
+RETURNS INTEGER AS $$
+DECLARE
+    v_deleted UUID[];
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM conversation_participants
+        WHERE conversation_id = p_conversation_id AND user_id = auth.uid()
+    ) THEN
+        RETURN 0;
+    END IF;
+
+    WITH deleted AS (
+        DELETE FROM messages
+        WHERE conversation_id = p_conversation_id
+          AND expires_at <= NOW()
+        RETURNING id
+    )
+    SELECT array_agg(id) INTO v_deleted FROM deleted;
+
+    PERFORM delete_message_notifications(v_deleted);
+    RETURN COALESCE(array_length(v_deleted, 1), 0);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION purge_expired_messages() FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION delete_message_notifications(UUID[]) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION set_conversation_message_ttl(UUID, INTEGER) TO authenticated;
+GRANT EXECUTE ON FUNCTION purge_expired_conversation_messages(UUID) TO authenticated;
+
+-- 5. Expired messages stay out of search until they are purged. Recreates
+-- search_messages from database_message_search.sql, so run this script
+-- after it.
+CREATE OR REPLACE FUNCTION search_messages(
+    p_query TEXT,
+    p_sender_id UUID DEFAULT NULL,
+    p_from TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+    p_to TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+    p_types TEXT[] DEFAULT NULL,
+    p_limit INTEGER DEFAULT 20,
+    p_before_created_at TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+    p_before_id UUID DEFAULT NULL
+)
+RETURNS TABLE (
+    id UUID,
+    conversation_id UUID,
+    sender_id UUID,
+    content TEXT,
+    message_type TEXT,
+    media_url TEXT,
+    created_at TIMESTAMP WITH TIME ZONE,
+    snippet TEXT,
+    sender_username TEXT,
+    sender_avatar TEXT,
+    conversation_type TEXT,
+    conversation_title TEXT,
+    other_user_id UUID,
+    other_username TEXT,
+    other_avatar TEXT
+) AS $$
+DECLARE
+    v_words TEXT[];
+    v_tsquery tsquery;
+BEGIN
+    -- Punctuation is dropped; every word must match
+    v_words := array_remove(
+        regexp_split_to_array(regexp_replace(COALESCE(p_query, ''), '[^[:alnum:]_]+', ' ', 'g'), ' '),
+        ''
+    );
+
+    IF array_length(v_words, 1) IS NOT NULL THEN
+        SELECT to_tsquery('simple', string_agg(
+            quote_literal(lower(w.word)) || CASE WHEN w.ord = array_length(v_words, 1) THEN ':*' ELSE '' END,
+            ' & ' ORDER BY w.ord
+        ))
+        INTO v_tsquery
+        FROM unnest(v_words) WITH ORDINALITY AS w(word, ord);
+    END IF;
+
+    RETURN QUERY
+    SELECT
+        m.id,
+        m.conversation_id,
+        m.sender_id,
+        m.content,
+        COALESCE(m.message_type, 'text')::TEXT,
+        m.media_url,
+        m.created_at,
+        CASE
+            WHEN v_tsquery IS NULL THEN left(m.content, 120)
+            ELSE ts_headline(
+                'simple', m.content, v_tsquery,
+                'StartSel=<mark>, StopSel=</mark>, MaxWords=18, MinWords=6, ShortWord=2, MaxFragments=1'
+            )
+        END,
+        sender.username::TEXT,
+        COALESCE(sender.avatar, sender.profile_picture)::TEXT,
+        COALESCE(c.conversation_type, 'direct')::TEXT,
+        c.title::TEXT,
+        other.user_id,
+        other.username::TEXT,
+        other.avatar::TEXT
+    FROM messages m
+    JOIN conversation_participants me
+        ON me.conversation_id = m.conversation_id AND me.user_id = auth.uid()
+    JOIN conversations c ON c.id = m.conversation_id
+    LEFT JOIN user_profiles sender ON sender.id = m.sender_id
+    LEFT JOIN LATERAL (
+        SELECT cp.user_id, up.username, COALESCE(up.avatar, up.profile_picture) AS avatar
+        FROM conversation_participants cp
+        JOIN user_profiles up ON up.id = cp.user_id
+        WHERE cp.conversation_id = m.conversation_id
+          AND cp.user_id <> auth.uid()
+        ORDER BY cp.joined_at
+        LIMIT 1
+    ) other ON TRUE
+    WHERE COALESCE(m.is_deleted, false) = false
+      AND COALESCE(m.message_type, 'text') <> 'system'
+      AND (m.expires_at IS NULL OR m.expires_at > NOW())
+      AND (v_tsquery IS NULL OR m.search_vector @@ v_tsquery)
+      AND (p_sender_id IS NULL OR m.sender_id = p_sender_id)
+      AND (p_from IS NULL OR m.created_at >= p_from)
+      AND (p_to IS NULL OR m.created_at < p_to)
+      AND (p_types IS NULL OR COALESCE(m.message_type, 'text') = ANY (p_types))
+      AND (
+          p_before_created_at IS NULL
+          OR m.created_at < p_before_created_at
+          OR (m.created_at = p_before_created_at AND m.id < p_before_id)
+      )
+    ORDER BY m.created_at DESC, m.id DESC
+    LIMIT LEAST(GREATEST(p_limit, 1), 100);
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION search_messages(TEXT, UUID, TIMESTAMP WITH TIME ZONE, TIMESTAMP WITH TIME ZONE, TEXT[], INTEGER, TIMESTAMP WITH TIME ZONE, UUID) TO authenticated;
+
+-- 6. Server-side purge every 5 minutes (requires pg_cron, see
+-- stories_auto_deletion_cron.sql). Skipped when the extension is missing.
+DO $$
+BEGIN
+    IF EXISTS (SELECT 1 FROM pg_available_extensions WHERE name = 'pg_cron') THEN
+        CREATE EXTENSION IF NOT EXISTS pg_cron;
+
+        PERFORM cron.unschedule(jobid) FROM cron.job WHERE jobname = 'purge-expired-messages';
+        PERFORM cron.schedule(
+            'purge-expired-messages',
+            '*/5 * * * *', -- Every 5 minutes
+            'SELECT purge_expired_messages();'
+        );
+    ELSE
+        RAISE NOTICE 'pg_cron is not available; expired messages are deleted when a participant opens the conversation';
+    END IF;
+END $$;
+
+-- 7. Verification
+SELECT
+    'Disappearing messages setup complete' AS status,
+    (SELECT COUNT(*) FROM conversations WHERE message_ttl_seconds IS NOT NULL) AS conversations_with_timer,
+    (SELECT COUNT(*) FROM messages WHERE expires_at IS NOT NULL) AS expiring_messages;
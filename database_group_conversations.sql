@@ -0,0 +1,316 @@
+-- =====================================================
+-- GROUP CONVERSATIONS
+-- =====================================================
+-- Group chats have a title, an optional avatar and admins. Admins can rename
+-- the group, add and remove members and promote other admins; anyone can
+-- leave. Every membership change is recorded as a 'system' message in the
+-- conversation. Changes go through the SECURITY DEFINER functions below so
+-- the rules are enforced in one place. They also apply the block and
+-- suspension rules that RLS would otherwise enforce, so this script requires
+-- database_user_blocks.sql and database_content_reports.sql.
+
+-- 1. Group details on conversations
+ALTER TABLE conversations ADD COLUMN IF NOT EXISTS title TEXT;
+ALTER TABLE conversations ADD COLUMN IF NOT EXISTS avatar_url TEXT;
+ALTER TABLE conversations ADD COLUMN IF NOT EXISTS created_by UUID REFERENCES user_profiles(id) ON DELETE SET NULL;
+ALTER TABLE conversations ADD COLUMN IF NOT EXISTS conversation_type TEXT DEFAULT 'direct';
+
+-- 2. Member roles
+ALTER TABLE conversation_participants ADD COLUMN IF NOT EXISTS role TEXT NOT NULL DEFAULT 'member';
+
+ALTER TABLE conversation_participants DROP CONSTRAINT IF EXISTS conversation_participants_role_check;
+ALTER TABLE conversation_participants ADD CONSTRAINT conversation_participants_role_check
+    CHECK (role IN ('admin', 'member'));
+
+-- Creators of existing group conversations become their admins
+UPDATE conversation_participants cp
+SET role = 'admin'
+FROM conversations c
+WHERE c.id = cp.conversation_id
+  AND c.conversation_type = 'group'
+  AND c.created_by = cp.user_id;
+
+-- 3. System messages for membership changes
+ALTER TABLE messages DROP CONSTRAINT IF EXISTS messages_message_type_check;
+ALTER TABLE messages ADD CONSTRAINT messages_message_type_check
+    CHECK (message_type IN ('text', 'image', 'video', 'audio', 'voice', 'file', 'post', 'reel', 'story', 'system'));
+
+-- Only add_group_system_message writes system messages; members cannot post
+-- notices that look like they came from the group
+DROP POLICY IF EXISTS "No system messages from clients" ON messages;
+
+CREATE POLICY "No system messages from clients" ON messages
+    AS RESTRICTIVE FOR INSERT
+    WITH CHECK (message_type IS DISTINCT FROM 'system');
+
+CREATE OR REPLACE FUNCTION is_conversation_admin(p_conversation_id UUID, p_user_id UUID)
+RETURNS BOOLEAN AS $$
+    SELECT EXISTS (
+        SELECT 1 FROM conversation_participants
+        WHERE conversation_id = p_conversation_id AND user_id = p_user_id AND role = 'admin'
+    );
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION add_group_system_message(p_conversation_id UUID, p_actor_id UUID, p_content TEXT)
+RETURNS VOID AS $$
+BEGIN
+    INSERT INTO messages (conversation_id, sender_id, content, message_type)
+    VALUES (p_conversation_id, p_actor_id, p_content, 'system');
+
+    UPDATE conversations SET updated_at = NOW() WHERE id = p_conversation_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION get_display_name(p_user_id UUID)
+RETURNS TEXT AS $$
+    SELECT COALESCE(NULLIF(username, ''), NULLIF(full_name, ''), 'Someone')
+    FROM user_profiles WHERE id = p_user_id;
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- 4. Create a group with the caller as admin
+CREATE OR REPLACE FUNCTION create_group_conversation(p_title TEXT, p_member_ids UUID[], p_avatar_url TEXT DEFAULT NULL)
+RETURNS UUID AS $$
+DECLARE
+    v_conversation_id UUID;
+    v_title TEXT := NULLIF(TRIM(p_title), '');
+    v_member_ids UUID[];
+BEGIN
+    IF auth.uid() IS NULL THEN
+        RAISE EXCEPTION 'Not authenticated';
+    END IF;
+
+    IF is_user_suspended(auth.uid()) THEN
+        RAISE EXCEPTION 'Suspended users cannot create groups';
+    END IF;
+
+    IF v_title IS NULL THEN
+        RAISE EXCEPTION 'Group title is required';
+    END IF;
+
+    -- Only people the caller can start a conversation with
+    SELECT COALESCE(array_agg(DISTINCT member_id), '{}') INTO v_member_ids
+    FROM unnest(p_member_ids) AS member_id
+    WHERE member_id <> auth.uid()
+      AND EXISTS (SELECT 1 FROM user_profiles WHERE id = member_id)
+      AND NOT is_blocked_between(auth.uid(), member_id);
+
+    IF COALESCE(array_length(v_member_ids, 1), 0) < 2 THEN
+        RAISE EXCEPTION 'A group needs at least two other members';
+    END IF;
+
+    INSERT INTO conversations (conversation_type, title, avatar_url, created_by)
+    VALUES ('group', v_title, p_avatar_url, auth.uid())
+    RETURNING id INTO v_conversation_id;
+
+    INSERT INTO conversation_participants (conversation_id, user_id, role)
+    VALUES (v_conversation_id, auth.uid(), 'admin');
+
+    INSERT INTO conversation_participants (conversation_id, user_id, role)
+    SELECT v_conversation_id, member_id, 'member'
+    FROM unnest(v_member_ids) AS member_id;
+
+    PERFORM add_group_system_message(
+        v_conversation_id, auth.uid(),
+        get_display_name(auth.uid()) || ' created the group "' || v_title || '"'
+    );
+
+    RETURN v_conversation_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- 5. Rename or change the avatar (admins only)
+CREATE OR REPLACE FUNCTION update_group_details(p_conversation_id UUID, p_title TEXT, p_avatar_url TEXT DEFAULT NULL)
+RETURNS VOID AS $$
+DECLARE
+    v_old_title TEXT;
+    v_title TEXT := NULLIF(TRIM(p_title), '');
+BEGIN
+    IF NOT is_conversation_admin(p_conversation_id, auth.uid()) THEN
+        RAISE EXCEPTION 'Only group admins can change group details';
+    END IF;
+
+    IF v_title IS NULL THEN
+        RAISE EXCEPTION 'Group title is required';
+    END IF;
+
+    SELECT title INTO v_old_title FROM conversations WHERE id = p_conversation_id;
+
+    UPDATE conversations
+    SET title = v_title, avatar_url = p_avatar_url, updated_at = NOW()
+    WHERE id = p_conversation_id;
+
+    IF v_old_title IS DISTINCT FROM v_title THEN
+        PERFORM add_group_system_message(
+            p_conversation_id, auth.uid(),
+            get_display_name(auth.uid()) || ' renamed the group to "' || v_title || '"'
+        );
+    END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- 6. Add members (admins only)
+CREATE OR REPLACE FUNCTION add_group_members(p_conversation_id UUID, p_user_ids UUID[])
+RETURNS INTEGER AS $$
+DECLARE
+    v_member UUID;
+    v_added INTEGER := 0;
+BEGIN
+    IF NOT is_conversation_admin(p_conversation_id, auth.uid()) THEN
+        RAISE EXCEPTION 'Only group admins can add members';
+    END IF;
+
+    IF is_user_suspended(auth.uid()) THEN
+        RAISE EXCEPTION 'Suspended users cannot add members';
+    END IF;
+
+    FOREACH v_member IN ARRAY p_user_ids LOOP
+        IF EXISTS (SELECT 1 FROM user_profiles WHERE id = v_member)
+           AND NOT is_blocked_between(auth.uid(), v_member)
+           AND NOT EXISTS (
+               SELECT 1 FROM conversation_participants
+               WHERE conversation_id = p_conversation_id AND user_id = v_member
+           ) THEN
+            INSERT INTO conversation_participants (conversation_id, user_id, role)
+            VALUES (p_conversation_id, v_member, 'member');
+
+            PERFORM add_group_system_message(
+                p_conversation_id, auth.uid(),
+                get_display_name(auth.uid()) || ' added ' || get_display_name(v_member)
+            );
+            v_added := v_added + 1;
+        END IF;
+    END LOOP;
+
+    RETURN v_added;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- 7. Remove a member (admins only; admins leave with leave_group_conversation)
+CREATE OR REPLACE FUNCTION remove_group_member(p_conversation_id UUID, p_user_id UUID)
+RETURNS VOID AS $$
+BEGIN
+    IF NOT is_conversation_admin(p_conversation_id, auth.uid()) THEN
+        RAISE EXCEPTION 'Only group admins can remove members';
+    END IF;
+
+    IF p_user_id = auth.uid() THEN
+        RAISE EXCEPTION 'Use leave_group_conversation to leave a group';
+    END IF;
+
+    DELETE FROM conversation_participants
+    WHERE conversation_id = p_conversation_id AND user_id = p_user_id;
+
+    IF FOUND THEN
+        PERFORM add_group_system_message(
+            p_conversation_id, auth.uid(),
+            get_display_name(auth.uid()) || ' removed ' || get_display_name(p_user_id)
+        );
+    END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- 8. Promote or demote an admin (admins only)
+CREATE OR REPLACE FUNCTION set_group_admin(p_conversation_id UUID, p_user_id UUID, p_is_admin BOOLEAN)
+RETURNS VOID AS $$
+BEGIN
+    IF NOT is_conversation_admin(p_conversation_id, auth.uid()) THEN
+        RAISE EXCEPTION 'Only group admins can change roles';
+    END IF;
+
+    IF NOT p_is_admin AND (
+        SELECT COUNT(*) FROM conversation_participants
+        WHERE conversation_id = p_conversation_id AND role = 'admin' AND user_id <> p_user_id
+    ) = 0 THEN
+        RAISE EXCEPTION 'A group needs at least one admin';
+    END IF;
+
+    UPDATE conversation_participants
+    SET role = CASE WHEN p_is_admin THEN 'admin' ELSE 'member' END
+    WHERE conversation_id = p_conversation_id AND user_id = p_user_id
+      AND role IS DISTINCT FROM CASE WHEN p_is_admin THEN 'admin' ELSE 'member' END;
+
+    IF FOUND THEN
+        PERFORM add_group_system_message(
+            p_conversation_id, auth.uid(),
+            get_display_name(auth.uid()) || CASE WHEN p_is_admin THEN ' made ' ELSE ' removed admin from ' END
+                || get_display_name(p_user_id)
+        );
+    END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- 9. Leave a group. If the last admin leaves, the longest-standing member
+-- becomes admin.
+CREATE OR REPLACE FUNCTION leave_group_conversation(p_conversation_id UUID)
+RETURNS VOID AS $$
+DECLARE
+    v_next_admin UUID;
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM conversations WHERE id = p_conversation_id AND conversation_type = 'group'
+    ) THEN
+        RAISE EXCEPTION 'Only group conversations can be left';
+    END IF;
+
+    DELETE FROM conversation_participants
+    WHERE conversation_id = p_conversation_id AND user_id = auth.uid();
+
+    IF NOT FOUND THEN
+        RETURN;
+    END IF;
+
+    PERFORM add_group_system_message(
+        p_conversation_id, auth.uid(),
+        get_display_name(auth.uid()) || ' left the group'
+    );
+
+    IF NOT EXISTS (
+        SELECT 1 FROM conversation_participants
+        WHERE conversation_id = p_conversation_id AND role = 'admin'
+    ) THEN
+        SELECT user_id INTO v_next_admin
+        FROM conversation_participants
+        WHERE conversation_id = p_conversation_id
+        ORDER BY joined_at ASC NULLS LAST
+        LIMIT 1;
+
+        IF v_next_admin IS NOT NULL THEN
+            UPDATE conversation_participants SET role = 'admin'
+            WHERE conversation_id = p_conversation_id AND user_id = v_next_admin;
+
+            PERFORM add_group_system_message(
+                p_conversation_id, v_next_admin,
+                get_display_name(v_next_admin) || ' is now an admin'
+            );
+        END IF;
+    END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION is_conversation_admin(UUID, UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION create_group_conversation(TEXT, UUID[], TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION update_group_details(UUID, TEXT, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION add_group_members(UUID, UUID[]) TO authenticated;
+GRANT EXECUTE ON FUNCTION remove_group_member(UUID, UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION set_group_admin(UUID, UUID, BOOLEAN) TO authenticated;
+GRANT EXECUTE ON FUNCTION leave_group_conversation(UUID) TO authenticated;
+
+-- Internal helpers are not callable directly
+REVOKE EXECUTE ON FUNCTION add_group_system_message(UUID, UUID, TEXT) FROM PUBLIC, authenticated;
+
+-- 10. Keep membership changes out of the inbox
+-- They are shown in the conversation only. Recreates the message trigger
+-- from database_notifications_inbox.sql, so run this script after it.
+DROP TRIGGER IF EXISTS trigger_notify_on_message ON messages;
+
+CREATE TRIGGER trigger_notify_on_message
+    AFTER INSERT ON messages
+    FOR EACH ROW
+    WHEN (NEW.message_type IS DISTINCT FROM 'system')
+    EXECUTE FUNCTION notify_on_message();
+
+-- 11. Verification
+SELECT
+    'Group conversations setup complete' AS status,
+    (SELECT COUNT(*) FROM conversations WHERE conversation_type = 'group') AS group_conversations,
+    (SELECT COUNT(*) FROM conversation_participants WHERE role = 'admin') AS admins;
@@ -0,0 +1,288 @@
+-- =====================================================
+-- HASHTAG PAGES
+-- =====================================================
+-- Hashtag names are stored normalized (lowercase, no leading '#') so
+-- #Travel and #travel are the same tag. post_count and reel_count are kept
+-- accurate by triggers on post_hashtags and reel_hashtags. Hashtags are
+-- attached in one call per post or reel, users can follow hashtags, and a
+-- hashtag page lists tagged posts and reels by top or recent along with
+-- hashtags that often appear with it. The home feed includes posts tagged
+-- with followed hashtags. Requires database_trending.sql
+-- (is_trending_candidate) and database_content_reports.sql (is_hidden).
+
+-- 1. Normalized names
+CREATE OR REPLACE FUNCTION normalize_hashtag(p_name TEXT)
+RETURNS TEXT AS $$
+    SELECT lower(btrim(regexp_replace(btrim(p_name), '^#+', '')));
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Merge hashtags that only differ by case or a leading '#' into the oldest one
+DO $$
+DECLARE
+    dup RECORD;
+BEGIN
+    FOR dup IN
+        SELECT h.id, k.keep_id
+        FROM hashtags h
+        JOIN (
+            SELECT DISTINCT ON (normalize_hashtag(name)) normalize_hashtag(name) AS norm, id AS keep_id
+            FROM hashtags
+            ORDER BY normalize_hashtag(name), created_at, id
+        ) k ON k.norm = normalize_hashtag(h.name)
+        WHERE h.id <> k.keep_id
+    LOOP
+        INSERT INTO post_hashtags (post_id, hashtag_id)
+        SELECT post_id, dup.keep_id FROM post_hashtags WHERE hashtag_id = dup.id
+        ON CONFLICT (post_id, hashtag_id) DO NOTHING;
+
+        INSERT INTO reel_hashtags (reel_id, hashtag_id)
+        SELECT reel_id, dup.keep_id FROM reel_hashtags WHERE hashtag_id = dup.id
+        ON CONFLICT (reel_id, hashtag_id) DO NOTHING;
+
+        DELETE FROM hashtags WHERE id = dup.id;
+    END LOOP;
+END $$;
+
+DELETE FROM hashtags WHERE char_length(normalize_hashtag(name)) NOT BETWEEN 1 AND 50;
+UPDATE hashtags SET name = normalize_hashtag(name) WHERE name <> normalize_hashtag(name);
+
+ALTER TABLE hashtags DROP CONSTRAINT IF EXISTS hashtags_name_normalized;
+ALTER TABLE hashtags ADD CONSTRAINT hashtags_name_normalized
+    CHECK (name = normalize_hashtag(name) AND char_length(name) BETWEEN 1 AND 50);
+
+-- 2. Accurate counts
+ALTER TABLE hashtags ADD COLUMN IF NOT EXISTS reel_count INTEGER NOT NULL DEFAULT 0;
+
+CREATE OR REPLACE FUNCTION update_hashtag_post_count()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF TG_TABLE_NAME = 'post_hashtags' THEN
+        IF TG_OP = 'INSERT' THEN
+            UPDATE hashtags SET post_count = COALESCE(post_count, 0) + 1 WHERE id = NEW.hashtag_id;
+        ELSE
+            UPDATE hashtags SET post_count = GREATEST(COALESCE(post_count, 0) - 1, 0) WHERE id = OLD.hashtag_id;
+        END IF;
+    ELSE
+        IF TG_OP = 'INSERT' THEN
+            UPDATE hashtags SET reel_count = reel_count + 1 WHERE id = NEW.hashtag_id;
+        ELSE
+            UPDATE hashtags SET reel_count = GREATEST(reel_count - 1, 0) WHERE id = OLD.hashtag_id;
+        END IF;
+    END IF;
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS update_hashtag_post_count_trigger ON post_hashtags;
+CREATE TRIGGER update_hashtag_post_count_trigger
+    AFTER INSERT OR DELETE ON post_hashtags
+    FOR EACH ROW EXECUTE FUNCTION update_hashtag_post_count();
+
+DROP TRIGGER IF EXISTS update_hashtag_reel_count_trigger ON reel_hashtags;
+CREATE TRIGGER update_hashtag_reel_count_trigger
+    AFTER INSERT OR DELETE ON reel_hashtags
+    FOR EACH ROW EXECUTE FUNCTION update_hashtag_post_count();
+
+-- Reels created before reel_hashtags was written only have the array column
+INSERT INTO hashtags (name)
+SELECT DISTINCT normalize_hashtag(t.tag)
+FROM reels r, unnest(r.hashtags) AS t(tag)
+WHERE char_length(normalize_hashtag(t.tag)) BETWEEN 1 AND 50
+ON CONFLICT (name) DO NOTHING;
+
+INSERT INTO reel_hashtags (reel_id, hashtag_id)
+SELECT DISTINCT r.id, h.id
+FROM reels r, unnest(r.hashtags) AS t(tag)
+JOIN hashtags h ON h.name = normalize_hashtag(t.tag)
+ON CONFLICT (reel_id, hashtag_id) DO NOTHING;
+
+-- Recount once; the triggers keep the counts from here on
+UPDATE hashtags h SET
+    post_count = (SELECT COUNT(*) FROM post_hashtags ph WHERE ph.hashtag_id = h.id),
+    reel_count = (SELECT COUNT(*) FROM reel_hashtags rh WHERE rh.hashtag_id = h.id);
+
+CREATE INDEX IF NOT EXISTS idx_hashtags_popular ON hashtags((COALESCE(post_count, 0) + reel_count) DESC);
+
+-- 3. Attach hashtags to a post or reel in one call (owner only)
+CREATE OR REPLACE FUNCTION attach_hashtags(p_names TEXT[])
+RETURNS SETOF UUID AS $$
+    WITH names AS (
+        SELECT DISTINCT normalize_hashtag(n) AS name
+        FROM unnest(p_names) AS n
+        WHERE char_length(normalize_hashtag(n)) BETWEEN 1 AND 50
+    ),
+    created AS (
+        INSERT INTO hashtags (name)
+        SELECT name FROM names
+        ON CONFLICT (name) DO NOTHING
+        RETURNING id
+    )
+    SELECT id FROM created
+    UNION
+    SELECT h.id FROM hashtags h JOIN names n ON n.name = h.name;
+$$ LANGUAGE sql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION add_post_hashtags(p_post_id UUID, p_names TEXT[])
+RETURNS BOOLEAN AS $$
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM posts WHERE id = p_post_id AND user_id = auth.uid()) THEN
+        RETURN false;
+    END IF;
+
+    INSERT INTO post_hashtags (post_id, hashtag_id)
+    SELECT p_post_id, h.id FROM attach_hashtags(p_names) AS h(id)
+    ON CONFLICT (post_id, hashtag_id) DO NOTHING;
+
+    RETURN true;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION add_reel_hashtags(p_reel_id UUID, p_names TEXT[])
+RETURNS BOOLEAN AS $$
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM reels WHERE id = p_reel_id AND user_id = auth.uid()) THEN
+        RETURN false;
+    END IF;
+
+    INSERT INTO reel_hashtags (reel_id, hashtag_id)
+    SELECT p_reel_id, h.id FROM attach_hashtags(p_names) AS h(id)
+    ON CONFLICT (reel_id, hashtag_id) DO NOTHING;
+
+    RETURN true;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION attach_hashtags(TEXT[]) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION add_post_hashtags(UUID, TEXT[]) TO authenticated;
+GRANT EXECUTE ON FUNCTION add_reel_hashtags(UUID, TEXT[]) TO authenticated;
+
+-- 4. Followed hashtags
+CREATE TABLE IF NOT EXISTS hashtag_follows (
+    user_id UUID NOT NULL REFERENCES user_profiles(id) ON DELETE CASCADE,
+    hashtag_id UUID NOT NULL REFERENCES hashtags(id) ON DELETE CASCADE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    PRIMARY KEY (user_id, hashtag_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_hashtag_follows_hashtag ON hashtag_follows(hashtag_id);
+
+ALTER TABLE hashtag_follows ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own hashtag follows" ON hashtag_follows;
+DROP POLICY IF EXISTS "Users can follow hashtags" ON hashtag_follows;
+DROP POLICY IF EXISTS "Users can unfollow hashtags" ON hashtag_follows;
+
+CREATE POLICY "Users can view own hashtag follows" ON hashtag_follows
+    FOR SELECT USING (user_id = auth.uid());
+
+CREATE POLICY "Users can follow hashtags" ON hashtag_follows
+    FOR INSERT WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can unfollow hashtags" ON hashtag_follows
+    FOR DELETE USING (user_id = auth.uid());
+
+GRANT SELECT, INSERT, DELETE ON hashtag_follows TO authenticated;
+
+-- 5. Hashtag page: tagged posts and reels the caller may see. 'top' ranks by
+-- engagement, 'recent' by age.
+CREATE OR REPLACE FUNCTION get_hashtag_content(
+    p_name TEXT,
+    p_sort TEXT DEFAULT 'top',
+    p_limit INTEGER DEFAULT 30,
+    p_offset INTEGER DEFAULT 0
+)
+RETURNS TABLE (content_type TEXT, content_id UUID, engagement_score DOUBLE PRECISION, created_at TIMESTAMP WITH TIME ZONE) AS $$
+    WITH tag AS (
+        SELECT id FROM hashtags WHERE name = normalize_hashtag(p_name)
+    ),
+    items AS (
+        SELECT
+            'post'::TEXT AS content_type,
+            p.id AS content_id,
+            (COALESCE(p.likes_count, 0) + 2 * COALESCE(p.comments_count, 0))::DOUBLE PRECISION AS engagement_score,
+            p.created_at
+        FROM post_hashtags ph
+        JOIN tag ON tag.id = ph.hashtag_id
+        JOIN posts p ON p.id = ph.post_id
+        WHERE NOT p.is_hidden
+          AND is_trending_candidate(p.user_id)
+        UNION ALL
+        SELECT
+            'reel'::TEXT,
+            r.id,
+            (COALESCE(r.likes_count, 0) + 2 * COALESCE(r.comments_count, 0)
+                + 3 * COALESCE(r.shares_count, 0) + COALESCE(r.view_count, 0) / 50.0)::DOUBLE PRECISION,
+            r.created_at
+        FROM reel_hashtags rh
+        JOIN tag ON tag.id = rh.hashtag_id
+        JOIN reels r ON r.id = rh.reel_id
+        WHERE NOT r.is_hidden
+          AND COALESCE(r.status, 'active') = 'active'
+          AND is_trending_candidate(r.user_id)
+    )
+    SELECT i.content_type, i.content_id, i.engagement_score, i.created_at
+    FROM items i
+    ORDER BY CASE WHEN p_sort = 'top' THEN i.engagement_score ELSE 0 END DESC, i.created_at DESC
+    LIMIT p_limit OFFSET p_offset;
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- Hashtags that most often appear on the same posts and reels, counting
+-- only content the caller may see (same rules as get_hashtag_content)
+CREATE OR REPLACE FUNCTION get_related_hashtags(p_name TEXT, p_limit INTEGER DEFAULT 10)
+RETURNS TABLE (id UUID, name TEXT, post_count INTEGER, reel_count INTEGER, shared_count BIGINT) AS $$
+    WITH tag AS (
+        SELECT h.id FROM hashtags h WHERE h.name = normalize_hashtag(p_name)
+    ),
+    co_tags AS (
+        SELECT other.hashtag_id
+        FROM post_hashtags ph
+        JOIN tag ON tag.id = ph.hashtag_id
+        JOIN posts p ON p.id = ph.post_id
+        JOIN post_hashtags other ON other.post_id = ph.post_id AND other.hashtag_id <> ph.hashtag_id
+        WHERE NOT p.is_hidden
+          AND is_trending_candidate(p.user_id)
+        UNION ALL
+        SELECT other.hashtag_id
+        FROM reel_hashtags rh
+        JOIN tag ON tag.id = rh.hashtag_id
+        JOIN reels r ON r.id = rh.reel_id
+        JOIN reel_hashtags other ON other.reel_id = rh.reel_id AND other.hashtag_id <> rh.hashtag_id
+        WHERE NOT r.is_hidden
+          AND COALESCE(r.status, 'active') = 'active'
+          AND is_trending_candidate(r.user_id)
+    )
+    SELECT h.id, h.name, COALESCE(h.post_count, 0), h.reel_count, COUNT(*) AS shared_count
+    FROM co_tags c
+    JOIN hashtags h ON h.id = c.hashtag_id
+    GROUP BY h.id, h.name, h.post_count, h.reel_count
+    ORDER BY shared_count DESC, COALESCE(h.post_count, 0) + h.reel_count DESC
+    LIMIT p_limit;
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION get_hashtag_content(TEXT, TEXT, INTEGER, INTEGER) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION get_related_hashtags(TEXT, INTEGER) TO anon, authenticated;
+
+-- 6. Home feed: posts from followed users and followed hashtags. Returns
+-- posts rows so the app can embed, filter and page them in one query; runs
+-- as the caller so RLS applies.
+CREATE OR REPLACE FUNCTION get_feed_posts()
+RETURNS SETOF posts AS $$
+    SELECT p.*
+    FROM posts p
+    WHERE p.user_id IN (SELECT following_id FROM followers WHERE follower_id = auth.uid())
+       OR p.id IN (
+           SELECT ph.post_id
+           FROM post_hashtags ph
+           JOIN hashtag_follows hf ON hf.hashtag_id = ph.hashtag_id
+           WHERE hf.user_id = auth.uid()
+       );
+$$ LANGUAGE sql STABLE;
+
+GRANT EXECUTE ON FUNCTION get_feed_posts() TO authenticated;
+
+-- 7. Verification
+SELECT
+    'Hashtag pages setup complete' AS status,
+    (SELECT COUNT(*) FROM hashtags) AS hashtags,
+    (SELECT COUNT(*) FROM hashtags WHERE name <> normalize_hashtag(name)) AS unnormalized_names,
+    (SELECT COUNT(*) FROM hashtag_follows) AS hashtag_follows;
@@ -0,0 +1,146 @@
+-- =====================================================
+-- HOST APPLICATION REVIEW
+-- =====================================================
+-- Host registrations are applications that a moderator approves or rejects:
+--   * pending:  is_approved = false, rejection_reason IS NULL
+--   * approved: is_approved = true, approval_date set
+--   * rejected: is_approved = false, rejection_reason set
+-- Applicants can edit and resubmit a rejected application, which puts it
+-- back into the pending queue. Only moderators can change the decision.
+
+-- 1. Moderator flag on user profiles
+ALTER TABLE user_profiles ADD COLUMN IF NOT EXISTS is_moderator BOOLEAN DEFAULT false;
+
+CREATE OR REPLACE FUNCTION is_moderator(p_user_id UUID)
+RETURNS BOOLEAN AS $$
+    SELECT COALESCE((SELECT is_moderator FROM user_profiles WHERE id = p_user_id), false);
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION is_moderator(UUID) TO authenticated;
+
+-- Users cannot promote themselves
+CREATE OR REPLACE FUNCTION protect_moderator_flag()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.is_moderator IS DISTINCT FROM OLD.is_moderator AND NOT is_moderator(auth.uid()) THEN
+        NEW.is_moderator := OLD.is_moderator;
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_protect_moderator_flag ON user_profiles;
+
+CREATE TRIGGER trigger_protect_moderator_flag
+    BEFORE UPDATE OF is_moderator ON user_profiles
+    FOR EACH ROW
+    EXECUTE FUNCTION protect_moderator_flag();
+
+-- 2. Review columns on host profiles
+ALTER TABLE host_profiles ADD COLUMN IF NOT EXISTS reviewed_by UUID REFERENCES user_profiles(id) ON DELETE SET NULL;
+ALTER TABLE host_profiles ADD COLUMN IF NOT EXISTS submitted_at TIMESTAMP WITH TIME ZONE DEFAULT NOW();
+ALTER TABLE host_profiles ALTER COLUMN is_approved SET DEFAULT false;
+
+UPDATE host_profiles SET submitted_at = COALESCE(created_at, NOW()) WHERE submitted_at IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_host_profiles_pending
+    ON host_profiles(submitted_at)
+    WHERE is_approved = false AND rejection_reason IS NULL;
+
+-- 3. Moderators can review applications
+DROP POLICY IF EXISTS "Moderators can review host profiles" ON host_profiles;
+
+CREATE POLICY "Moderators can review host profiles" ON host_profiles
+    FOR UPDATE USING (is_moderator(auth.uid()));
+
+-- 4. Keep applicants from approving themselves
+-- New applications always start pending. When an applicant edits their
+-- application the decision is cleared so it goes back into the queue.
+CREATE OR REPLACE FUNCTION enforce_host_application_review()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF TG_OP = 'INSERT' THEN
+        IF NOT is_moderator(auth.uid()) THEN
+            NEW.is_approved := false;
+            NEW.approval_date := NULL;
+            NEW.rejection_reason := NULL;
+            NEW.reviewed_by := NULL;
+        END IF;
+        NEW.submitted_at := NOW();
+        RETURN NEW;
+    END IF;
+
+    IF is_moderator(auth.uid()) AND auth.uid() <> NEW.user_id::uuid THEN
+        -- Moderator decision
+        IF NEW.is_approved AND NOT COALESCE(OLD.is_approved, false) THEN
+            NEW.approval_date := NOW();
+            NEW.rejection_reason := NULL;
+            NEW.reviewed_by := auth.uid();
+        ELSIF NOT NEW.is_approved AND NEW.rejection_reason IS NOT NULL
+              AND NEW.rejection_reason IS DISTINCT FROM OLD.rejection_reason THEN
+            NEW.approval_date := NULL;
+            NEW.reviewed_by := auth.uid();
+        END IF;
+        RETURN NEW;
+    END IF;
+
+    -- Applicant resubmission
+    NEW.is_approved := false;
+    NEW.approval_date := NULL;
+    NEW.rejection_reason := NULL;
+    NEW.reviewed_by := NULL;
+    NEW.submitted_at := NOW();
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_enforce_host_application_review ON host_profiles;
+
+CREATE TRIGGER trigger_enforce_host_application_review
+    BEFORE INSERT OR UPDATE ON host_profiles
+    FOR EACH ROW
+    EXECUTE FUNCTION enforce_host_application_review();
+
+-- 5. Only approved hosts can be booked
+-- is_host is set when the application is submitted, so bookings also need
+-- an approved application.
+CREATE OR REPLACE FUNCTION is_approved_host(p_user_id UUID)
+RETURNS BOOLEAN AS $$
+    SELECT EXISTS (
+        SELECT 1
+        FROM user_profiles up
+        JOIN host_profiles hp ON hp.user_id::uuid = up.id
+        WHERE up.id = p_user_id
+        AND up.is_host = true
+        AND hp.is_approved = true
+    );
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION is_approved_host(UUID) TO authenticated;
+
+CREATE OR REPLACE FUNCTION require_approved_host_for_booking()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NOT is_approved_host(NEW.host_id) THEN
+        RAISE EXCEPTION 'Bookings can only be requested with an approved host';
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_require_approved_host_for_booking ON bookings;
+
+CREATE TRIGGER trigger_require_approved_host_for_booking
+    BEFORE INSERT ON bookings
+    FOR EACH ROW
+    EXECUTE FUNCTION require_approved_host_for_booking();
+
+-- 6. Verification
+SELECT
+    'Host application review setup complete' AS status,
+    COUNT(*) FILTER (WHERE is_approved = false AND rejection_reason IS NULL) AS pending,
+    COUNT(*) FILTER (WHERE is_approved) AS approved,
+    COUNT(*) FILTER (WHERE is_approved = false AND rejection_reason IS NOT NULL) AS rejected
+FROM host_profiles;
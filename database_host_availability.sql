@@ -0,0 +1,98 @@
+-- =====================================================
+-- HOST AVAILABILITY
+-- =====================================================
+-- Stores each host's weekly recurring availability, one-off date
+-- exceptions and time zone. Bookable slots are generated on the client
+-- from this data (utils/availabilitySlots.ts) minus the host's busy times.
+--
+-- weekly_schedule: [{ "dayOfWeek": 1, "startTime": "09:00", "endTime": "17:00" }, ...]
+-- exceptions:      [{ "date": "2025-12-25", "windows": [], "reason": "Holiday" }, ...]
+-- Times are wall-clock times in time_zone.
+
+-- 1. Create host_availability table
+CREATE TABLE IF NOT EXISTS host_availability (
+    host_id UUID PRIMARY KEY REFERENCES user_profiles(id) ON DELETE CASCADE,
+    time_zone TEXT NOT NULL DEFAULT 'UTC',
+    weekly_schedule JSONB NOT NULL DEFAULT '[]'::jsonb,
+    exceptions JSONB NOT NULL DEFAULT '[]'::jsonb,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    CONSTRAINT host_availability_schedule_is_array CHECK (jsonb_typeof(weekly_schedule) = 'array'),
+    CONSTRAINT host_availability_exceptions_is_array CHECK (jsonb_typeof(exceptions) = 'array')
+);
+
+-- 2. Enable RLS
+ALTER TABLE host_availability ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Anyone can view host availability" ON host_availability;
+DROP POLICY IF EXISTS "Hosts can insert their availability" ON host_availability;
+DROP POLICY IF EXISTS "Hosts can update their availability" ON host_availability;
+DROP POLICY IF EXISTS "Hosts can delete their availability" ON host_availability;
+
+CREATE POLICY "Anyone can view host availability" ON host_availability
+    FOR SELECT USING (true);
+
+CREATE POLICY "Hosts can insert their availability" ON host_availability
+    FOR INSERT WITH CHECK (auth.uid() = host_id);
+
+CREATE POLICY "Hosts can update their availability" ON host_availability
+    FOR UPDATE USING (auth.uid() = host_id);
+
+CREATE POLICY "Hosts can delete their availability" ON host_availability
+    FOR DELETE USING (auth.uid() = host_id);
+
+-- 3. Busy times for slot generation
+-- Bookings are only visible to their participants, so this exposes just the
+-- time ranges of a host's open bookings without who booked them.
+CREATE OR REPLACE FUNCTION get_host_busy_times(
+    p_host_id UUID,
+    p_from TIMESTAMP WITH TIME ZONE,
+    p_to TIMESTAMP WITH TIME ZONE
+)
+RETURNS TABLE (
+    start_time TIMESTAMP WITH TIME ZONE,
+    end_time TIMESTAMP WITH TIME ZONE
+) AS $$
+BEGIN
+    RETURN QUERY
+    SELECT b.start_time, b.end_time
+    FROM bookings b
+    WHERE b.host_id = p_host_id
+      AND b.status IN ('pending', 'accepted')
+      AND b.start_time < p_to
+      AND b.end_time > p_from
+    ORDER BY b.start_time;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION get_host_busy_times(UUID, TIMESTAMP WITH TIME ZONE, TIMESTAMP WITH TIME ZONE) TO authenticated;
+
+-- 4. Prevent double booking a host, also when times or status change
+CREATE OR REPLACE FUNCTION prevent_overlapping_bookings()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.status IN ('pending', 'accepted') AND EXISTS (
+        SELECT 1
+        FROM bookings b
+        WHERE b.host_id = NEW.host_id
+          AND b.id <> NEW.id
+          AND b.status IN ('pending', 'accepted')
+          AND b.start_time < NEW.end_time
+          AND b.end_time > NEW.start_time
+    ) THEN
+        RAISE EXCEPTION 'This time overlaps another booking with the host';
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS trigger_prevent_overlapping_bookings ON bookings;
+
+CREATE TRIGGER trigger_prevent_overlapping_bookings
+    BEFORE INSERT OR UPDATE OF start_time, end_time, status ON bookings
+    FOR EACH ROW
+    EXECUTE FUNCTION prevent_overlapping_bookings();
+
+-- 5. Verification
+SELECT 'Host availability setup completed successfully' AS status;
@@ -0,0 +1,273 @@
+-- =====================================================
+-- @MENTIONS AND AUTOCOMPLETE
+-- =====================================================
+-- @handles in post and comment text, reel captions and messages are
+-- resolved to users when the row is written and stored on it as structured
+-- entities: mentions = [{ "userId": "...", "handle": "..." }, ...]. The app
+-- reads them to make mentions tappable. Each newly mentioned user gets a
+-- 'mention' inbox notification; editing only notifies people who were not
+-- mentioned before. Blocked users cannot be mentioned, and a message can
+-- only mention members of its conversation. Nobody is notified about hidden
+-- content or content from a private account they cannot see.
+--
+-- Autocomplete uses search_mention_candidates (people the caller follows
+-- first, then their followers, then everyone else) and search_hashtags
+-- (most used first). Requires database_notifications_inbox.sql,
+-- database_notification_preferences.sql, database_user_blocks.sql,
+-- database_content_reports.sql, database_private_accounts.sql and
+-- database_hashtag_pages.sql.
+
+-- 1. Notification type and preference
+ALTER TABLE notifications DROP CONSTRAINT IF EXISTS notifications_type_check;
+ALTER TABLE notifications ADD CONSTRAINT notifications_type_check
+    CHECK (type IN ('like', 'comment', 'follow', 'message', 'booking', 'review', 'reel_share', 'mention'));
+
+ALTER TABLE notification_preferences ADD COLUMN IF NOT EXISTS mention_enabled BOOLEAN NOT NULL DEFAULT true;
+
+-- 2. Mention entities
+ALTER TABLE posts ADD COLUMN IF NOT EXISTS mentions JSONB NOT NULL DEFAULT '[]'::jsonb;
+ALTER TABLE reels ADD COLUMN IF NOT EXISTS mentions JSONB NOT NULL DEFAULT '[]'::jsonb;
+ALTER TABLE comments ADD COLUMN IF NOT EXISTS mentions JSONB NOT NULL DEFAULT '[]'::jsonb;
+ALTER TABLE messages ADD COLUMN IF NOT EXISTS mentions JSONB NOT NULL DEFAULT '[]'::jsonb;
+
+-- Up to 10 distinct users, in the order they appear. A handle matches a
+-- user's handle first, then their username, ignoring case.
+CREATE OR REPLACE FUNCTION resolve_mentions(p_text TEXT, p_author_id UUID)
+RETURNS JSONB AS $$
+    WITH tokens AS (
+        SELECT rtrim(m.match[1], '.') AS handle, m.pos
+        FROM regexp_matches(COALESCE(p_text, ''), '(?:^|[^[:alnum:]_])@([[:alnum:]_.]+)', 'g') WITH ORDINALITY AS m(match, pos)
+    ),
+    resolved AS (
+        SELECT DISTINCT ON (u.id) u.id, t.handle, t.pos
+        FROM tokens t
+        CROSS JOIN LATERAL (
+            SELECT up.id
+            FROM user_profiles up
+            WHERE lower(up.handle) = lower(t.handle) OR lower(up.username) = lower(t.handle)
+            ORDER BY (lower(up.handle) = lower(t.handle)) DESC NULLS LAST
+            LIMIT 1
+        ) u
+        WHERE t.handle <> ''
+          AND NOT is_blocked_between(p_author_id, u.id)
+        ORDER BY u.id, t.pos
+    )
+    SELECT COALESCE(
+        (SELECT jsonb_agg(jsonb_build_object('userId', r.id, 'handle', r.handle) ORDER BY r.pos)
+         FROM (SELECT * FROM resolved ORDER BY pos LIMIT 10) r),
+        '[]'::jsonb
+    );
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- TG_ARGV[0] is the text column, TG_ARGV[1] the author column. Runs on every
+-- update so mentions can only change along with the text.
+CREATE OR REPLACE FUNCTION set_content_mentions()
+RETURNS TRIGGER AS $$
+DECLARE
+    new_row JSONB := to_jsonb(NEW);
+BEGIN
+    IF TG_OP = 'UPDATE' AND (new_row ->> TG_ARGV[0]) IS NOT DISTINCT FROM (to_jsonb(OLD) ->> TG_ARGV[0]) THEN
+        NEW.mentions := OLD.mentions;
+        RETURN NEW;
+    END IF;
+
+    NEW.mentions := resolve_mentions(new_row ->> TG_ARGV[0], (new_row ->> TG_ARGV[1])::uuid);
+
+    IF TG_TABLE_NAME = 'messages' THEN
+        NEW.mentions := COALESCE((
+            SELECT jsonb_agg(m.value)
+            FROM jsonb_array_elements(NEW.mentions) AS m
+            WHERE EXISTS (
+                SELECT 1 FROM conversation_participants cp
+                WHERE cp.conversation_id = (new_row ->> 'conversation_id')::uuid
+                  AND cp.user_id = (m.value ->> 'userId')::uuid
+            )
+        ), '[]'::jsonb);
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS trigger_set_post_mentions ON posts;
+CREATE TRIGGER trigger_set_post_mentions
+    BEFORE INSERT OR UPDATE ON posts
+    FOR EACH ROW EXECUTE FUNCTION set_content_mentions('content', 'user_id');
+
+DROP TRIGGER IF EXISTS trigger_set_reel_mentions ON reels;
+CREATE TRIGGER trigger_set_reel_mentions
+    BEFORE INSERT OR UPDATE ON reels
+    FOR EACH ROW EXECUTE FUNCTION set_content_mentions('caption', 'user_id');
+
+DROP TRIGGER IF EXISTS trigger_set_comment_mentions ON comments;
+CREATE TRIGGER trigger_set_comment_mentions
+    BEFORE INSERT OR UPDATE ON comments
+    FOR EACH ROW EXECUTE FUNCTION set_content_mentions('content', 'user_id');
+
+DROP TRIGGER IF EXISTS trigger_set_message_mentions ON messages;
+CREATE TRIGGER trigger_set_message_mentions
+    BEFORE INSERT OR UPDATE ON messages
+    FOR EACH ROW EXECUTE FUNCTION set_content_mentions('content', 'sender_id');
+
+-- 3. Notify newly mentioned users
+CREATE OR REPLACE FUNCTION notify_on_mention()
+RETURNS TRIGGER AS $$
+DECLARE
+    new_row JSONB := to_jsonb(NEW);
+    author_id UUID;
+    owner_id UUID; -- Whose privacy decides who may see the content
+    hidden BOOLEAN := COALESCE((new_row ->> 'is_hidden')::boolean, false);
+    preview TEXT;
+    place TEXT;
+    target_data JSONB;
+    old_mentions JSONB := '[]'::jsonb;
+    mentioned RECORD;
+BEGIN
+    IF TG_OP = 'UPDATE' THEN
+        old_mentions := OLD.mentions;
+    END IF;
+
+    IF jsonb_array_length(NEW.mentions) = 0 OR NEW.mentions = old_mentions THEN
+        RETURN NEW;
+    END IF;
+
+    CASE TG_TABLE_NAME
+        WHEN 'posts' THEN
+            author_id := (new_row ->> 'user_id')::uuid;
+            owner_id := author_id;
+            preview := LEFT(new_row ->> 'content', 80);
+            place := 'a post';
+            target_data := jsonb_build_object('postId', NEW.id, 'postOwnerId', author_id);
+        WHEN 'reels' THEN
+            author_id := (new_row ->> 'user_id')::uuid;
+            owner_id := author_id;
+            preview := LEFT(new_row ->> 'caption', 80);
+            place := 'a reel';
+            target_data := jsonb_build_object('reelId', NEW.id);
+        WHEN 'comments' THEN
+            author_id := (new_row ->> 'user_id')::uuid;
+            preview := LEFT(new_row ->> 'content', 80);
+            place := 'a comment';
+            -- post_id holds a post or reel id
+            IF EXISTS (SELECT 1 FROM posts WHERE id = (new_row ->> 'post_id')::uuid) THEN
+                SELECT user_id, hidden OR is_hidden INTO owner_id, hidden
+                FROM posts WHERE id = (new_row ->> 'post_id')::uuid;
+                target_data := jsonb_build_object(
+                    'postId', new_row ->> 'post_id',
+                    'postOwnerId', owner_id,
+                    'commentId', NEW.id
+                );
+            ELSE
+                SELECT user_id, hidden OR is_hidden INTO owner_id, hidden
+                FROM reels WHERE id = (new_row ->> 'post_id')::uuid;
+                target_data := jsonb_build_object('reelId', new_row ->> 'post_id', 'commentId', NEW.id);
+            END IF;
+        ELSE
+            IF new_row ->> 'message_type' = 'system' THEN
+                RETURN NEW;
+            END IF;
+            author_id := (new_row ->> 'sender_id')::uuid;
+            preview := LEFT(new_row ->> 'content', 80);
+            place := 'a message';
+            target_data := jsonb_build_object('conversationId', new_row ->> 'conversation_id', 'messageId', NEW.id);
+    END CASE;
+
+    IF hidden THEN
+        RETURN NEW;
+    END IF;
+
+    FOR mentioned IN
+        SELECT DISTINCT (m.value ->> 'userId')::uuid AS user_id
+        FROM jsonb_array_elements(NEW.mentions) AS m
+        WHERE NOT EXISTS (
+            SELECT 1 FROM jsonb_array_elements(old_mentions) AS o
+            WHERE o.value ->> 'userId' = m.value ->> 'userId'
+        )
+          -- Messages have no owner; only conversation members are mentioned
+          AND (owner_id IS NULL OR can_view_user_content((m.value ->> 'userId')::uuid, owner_id))
+    LOOP
+        PERFORM create_inbox_notification(
+            mentioned.user_id, author_id, 'mention', 'New mention',
+            'mentioned you in ' || place || ': ' || COALESCE(preview, ''),
+            target_data
+        );
+    END LOOP;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS trigger_notify_on_post_mention ON posts;
+CREATE TRIGGER trigger_notify_on_post_mention
+    AFTER INSERT OR UPDATE ON posts
+    FOR EACH ROW EXECUTE FUNCTION notify_on_mention();
+
+DROP TRIGGER IF EXISTS trigger_notify_on_reel_mention ON reels;
+CREATE TRIGGER trigger_notify_on_reel_mention
+    AFTER INSERT OR UPDATE ON reels
+    FOR EACH ROW EXECUTE FUNCTION notify_on_mention();
+
+DROP TRIGGER IF EXISTS trigger_notify_on_comment_mention ON comments;
+CREATE TRIGGER trigger_notify_on_comment_mention
+    AFTER INSERT OR UPDATE ON comments
+    FOR EACH ROW EXECUTE FUNCTION notify_on_mention();
+
+DROP TRIGGER IF EXISTS trigger_notify_on_message_mention ON messages;
+CREATE TRIGGER trigger_notify_on_message_mention
+    AFTER INSERT OR UPDATE ON messages
+    FOR EACH ROW EXECUTE FUNCTION notify_on_mention();
+
+-- 4. Autocomplete
+CREATE OR REPLACE FUNCTION search_mention_candidates(p_query TEXT, p_limit INTEGER DEFAULT 8)
+RETURNS TABLE (
+    id UUID,
+    username TEXT,
+    handle TEXT,
+    full_name TEXT,
+    avatar TEXT,
+    relationship_rank INTEGER
+) AS $$
+    SELECT
+        up.id,
+        up.username,
+        up.handle,
+        up.full_name,
+        COALESCE(up.avatar, up.profile_picture),
+        (CASE WHEN f_out.follower_id IS NOT NULL THEN 2 ELSE 0 END
+            + CASE WHEN f_in.follower_id IS NOT NULL THEN 1 ELSE 0 END)::INTEGER
+    FROM user_profiles up
+    LEFT JOIN followers f_out ON f_out.follower_id = auth.uid() AND f_out.following_id = up.id
+    LEFT JOIN followers f_in ON f_in.follower_id = up.id AND f_in.following_id = auth.uid()
+    WHERE up.id <> auth.uid()
+      AND NOT up.is_suspended
+      AND NOT is_blocked_between(auth.uid(), up.id)
+      AND (
+          up.handle ILIKE replace(replace(p_query, '%', ''), '_', '\_') || '%'
+          OR up.username ILIKE replace(replace(p_query, '%', ''), '_', '\_') || '%'
+          OR up.full_name ILIKE '%' || replace(replace(p_query, '%', ''), '_', '\_') || '%'
+      )
+    ORDER BY 6 DESC, lower(COALESCE(up.handle, up.username))
+    LIMIT p_limit;
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION search_hashtags(p_prefix TEXT, p_limit INTEGER DEFAULT 8)
+RETURNS SETOF hashtags AS $$
+    SELECT *
+    FROM hashtags
+    WHERE name LIKE replace(replace(normalize_hashtag(p_prefix), '%', ''), '_', '\_') || '%'
+    ORDER BY COALESCE(post_count, 0) + reel_count DESC, name
+    LIMIT p_limit;
+$$ LANGUAGE sql STABLE;
+
+GRANT EXECUTE ON FUNCTION search_mention_candidates(TEXT, INTEGER) TO authenticated;
+GRANT EXECUTE ON FUNCTION search_hashtags(TEXT, INTEGER) TO anon, authenticated;
+
+-- Only the mention triggers resolve handles
+REVOKE EXECUTE ON FUNCTION resolve_mentions(TEXT, UUID) FROM PUBLIC;
+
+-- 5. Verification
+SELECT
+    'Mentions setup complete' AS status,
+    (SELECT COUNT(*) FROM posts WHERE jsonb_array_length(mentions) > 0) AS posts_with_mentions,
+    (SELECT COUNT(*) FROM comments WHERE jsonb_array_length(mentions) > 0) AS comments_with_mentions,
+    (SELECT COUNT(*) FROM notifications WHERE type = 'mention') AS mention_notifications;
@@ -0,0 +1,19 @@
+-- =====================================================
+-- MESSAGE OUTBOX DEDUPLICATION
+-- =====================================================
+-- Messages written offline are queued on the device and sent when the
+-- connection returns. Each one carries a client-generated id so a retry of a
+-- send that actually reached the server is rejected instead of posting twice.
+
+-- 1. Client id column
+ALTER TABLE messages ADD COLUMN IF NOT EXISTS client_id TEXT;
+
+-- 2. One message per client id and sender
+CREATE UNIQUE INDEX IF NOT EXISTS idx_messages_sender_client_id
+    ON messages(sender_id, client_id)
+    WHERE client_id IS NOT NULL;
+
+-- 3. Verification
+SELECT
+    'Message outbox setup complete' AS status,
+    (SELECT COUNT(*) FROM messages WHERE client_id IS NOT NULL) AS messages_with_client_id;
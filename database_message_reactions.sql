@@ -0,0 +1,99 @@
+-- =====================================================
+-- MESSAGE REACTIONS AND REPLIES
+-- =====================================================
+-- Emoji reactions on messages (one per user and message) and a reference from
+-- a reply to the message it quotes. Reaction changes are pushed to the other
+-- participants over the conversation broadcast channel by the app.
+
+-- 1. Reply reference. Replies keep working when the quoted message is removed.
+ALTER TABLE messages ADD COLUMN IF NOT EXISTS reply_to_message_id UUID REFERENCES messages(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_messages_reply_to
+    ON messages(reply_to_message_id)
+    WHERE reply_to_message_id IS NOT NULL;
+
+-- A reply can only quote a message from the same conversation
+CREATE OR REPLACE FUNCTION validate_reply_to_message()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.reply_to_message_id IS NOT NULL AND NOT EXISTS (
+        SELECT 1 FROM messages
+        WHERE id = NEW.reply_to_message_id
+          AND conversation_id = NEW.conversation_id
+    ) THEN
+        RAISE EXCEPTION 'A reply must quote a message from the same conversation';
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS trigger_validate_reply_to_message ON messages;
+
+CREATE TRIGGER trigger_validate_reply_to_message
+    BEFORE INSERT OR UPDATE OF reply_to_message_id, conversation_id ON messages
+    FOR EACH ROW
+    EXECUTE FUNCTION validate_reply_to_message();
+
+-- 2. Reactions table
+CREATE TABLE IF NOT EXISTS message_reactions (
+    message_id UUID NOT NULL REFERENCES messages(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES user_profiles(id) ON DELETE CASCADE,
+    emoji TEXT NOT NULL CHECK (char_length(emoji) BETWEEN 1 AND 16),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    PRIMARY KEY (message_id, user_id)
+);
+
+-- 3. Row level security: participants see and add reactions in their
+-- conversations; users change and remove only their own, and a changed
+-- reaction must still be on a message in one of their conversations
+ALTER TABLE message_reactions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Participants can view message reactions" ON message_reactions;
+DROP POLICY IF EXISTS "Participants can react to messages" ON message_reactions;
+DROP POLICY IF EXISTS "Users can update own reactions" ON message_reactions;
+DROP POLICY IF EXISTS "Users can remove own reactions" ON message_reactions;
+
+CREATE POLICY "Participants can view message reactions" ON message_reactions
+    FOR SELECT USING (
+        EXISTS (
+            SELECT 1 FROM messages m
+            JOIN conversation_participants cp ON cp.conversation_id = m.conversation_id
+            WHERE m.id = message_reactions.message_id
+              AND cp.user_id = auth.uid()
+        )
+    );
+
+CREATE POLICY "Participants can react to messages" ON message_reactions
+    FOR INSERT WITH CHECK (
+        user_id = auth.uid()
+        AND EXISTS (
+            SELECT 1 FROM messages m
+            JOIN conversation_participants cp ON cp.conversation_id = m.conversation_id
+            WHERE m.id = message_reactions.message_id
+              AND cp.user_id = auth.uid()
+        )
+    );
+
+CREATE POLICY "Users can update own reactions" ON message_reactions
+    FOR UPDATE USING (user_id = auth.uid())
+    WITH CHECK (
+        user_id = auth.uid()
+        AND EXISTS (
+            SELECT 1 FROM messages m
+            JOIN conversation_participants cp ON cp.conversation_id = m.conversation_id
+            WHERE m.id = message_reactions.message_id
+              AND cp.user_id = auth.uid()
+        )
+    );
+
+CREATE POLICY "Users can remove own reactions" ON message_reactions
+    FOR DELETE USING (user_id = auth.uid());
+
+GRANT SELECT, INSERT, UPDATE, DELETE ON message_reactions TO authenticated;
+
+-- 4. Verification
+SELECT
+    'Message reactions setup complete' AS status,
+    (SELECT COUNT(*) FROM message_reactions) AS reactions,
+    (SELECT COUNT(*) FROM messages WHERE reply_to_message_id IS NOT NULL) AS replies;
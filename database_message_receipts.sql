@@ -0,0 +1,127 @@
+-- =====================================================
+-- MESSAGE RECEIPTS
+-- =====================================================
+-- Per-recipient delivery state for every message. A message is "sent" once
+-- it is stored; each recipient's row records when it reached their device
+-- (delivered_at) and when they opened the conversation (read_at).
+-- messages.is_read is still set for older clients and unread counts.
+
+-- 1. Receipts table
+CREATE TABLE IF NOT EXISTS message_receipts (
+    message_id UUID NOT NULL REFERENCES messages(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES user_profiles(id) ON DELETE CASCADE,
+    conversation_id UUID NOT NULL REFERENCES conversations(id) ON DELETE CASCADE,
+    delivered_at TIMESTAMP WITH TIME ZONE,
+    read_at TIMESTAMP WITH TIME ZONE,
+    PRIMARY KEY (message_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_message_receipts_recipient
+    ON message_receipts(user_id, conversation_id)
+    WHERE read_at IS NULL;
+
+-- 2. Row level security: participants can see receipts in their conversations.
+-- Rows are written by the trigger and functions below only.
+ALTER TABLE message_receipts ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Participants can view message receipts" ON message_receipts;
+
+CREATE POLICY "Participants can view message receipts" ON message_receipts
+    FOR SELECT USING (
+        EXISTS (
+            SELECT 1 FROM conversation_participants cp
+            WHERE cp.conversation_id = message_receipts.conversation_id
+              AND cp.user_id = auth.uid()
+        )
+    );
+
+-- 3. One receipt per recipient for each new message
+CREATE OR REPLACE FUNCTION create_message_receipts()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.message_type = 'system' THEN
+        RETURN NEW;
+    END IF;
+
+    INSERT INTO message_receipts (message_id, user_id, conversation_id)
+    SELECT NEW.id, cp.user_id, NEW.conversation_id
+    FROM conversation_participants cp
+    WHERE cp.conversation_id = NEW.conversation_id
+      AND cp.user_id <> NEW.sender_id
+    ON CONFLICT DO NOTHING;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS trigger_create_message_receipts ON messages;
+
+CREATE TRIGGER trigger_create_message_receipts
+    AFTER INSERT ON messages
+    FOR EACH ROW
+    EXECUTE FUNCTION create_message_receipts();
+
+-- Existing messages count as delivered, and as read if already marked read
+INSERT INTO message_receipts (message_id, user_id, conversation_id, delivered_at, read_at)
+SELECT m.id, cp.user_id, m.conversation_id, m.created_at,
+       CASE WHEN m.is_read THEN m.created_at END
+FROM messages m
+JOIN conversation_participants cp ON cp.conversation_id = m.conversation_id
+WHERE cp.user_id <> m.sender_id
+  AND COALESCE(m.message_type, 'text') <> 'system'
+ON CONFLICT DO NOTHING;
+
+-- 4. Mark messages delivered to the caller. Without a conversation id every
+-- conversation is covered. Returns the receipts that changed.
+CREATE OR REPLACE FUNCTION mark_messages_delivered(p_conversation_id UUID DEFAULT NULL)
+RETURNS TABLE (message_id UUID, conversation_id UUID, user_id UUID, delivered_at TIMESTAMP WITH TIME ZONE, read_at TIMESTAMP WITH TIME ZONE) AS $$
+BEGIN
+    RETURN QUERY
+    UPDATE message_receipts r
+    SET delivered_at = NOW()
+    WHERE r.user_id = auth.uid()
+      AND r.delivered_at IS NULL
+      AND (p_conversation_id IS NULL OR r.conversation_id = p_conversation_id)
+    RETURNING r.message_id, r.conversation_id, r.user_id, r.delivered_at, r.read_at;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- 5. Mark every message in a conversation read by the caller, who must be
+-- one of its participants
+CREATE OR REPLACE FUNCTION mark_messages_read(p_conversation_id UUID)
+RETURNS TABLE (message_id UUID, conversation_id UUID, user_id UUID, delivered_at TIMESTAMP WITH TIME ZONE, read_at TIMESTAMP WITH TIME ZONE) AS $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM conversation_participants cp
+        WHERE cp.conversation_id = p_conversation_id
+          AND cp.user_id = auth.uid()
+    ) THEN
+        RAISE EXCEPTION 'Not a participant in this conversation';
+    END IF;
+
+    UPDATE messages m
+    SET is_read = true
+    WHERE m.conversation_id = p_conversation_id
+      AND m.sender_id <> auth.uid()
+      AND m.is_read = false;
+
+    RETURN QUERY
+    UPDATE message_receipts r
+    SET read_at = NOW(),
+        delivered_at = COALESCE(r.delivered_at, NOW())
+    WHERE r.user_id = auth.uid()
+      AND r.conversation_id = p_conversation_id
+      AND r.read_at IS NULL
+    RETURNING r.message_id, r.conversation_id, r.user_id, r.delivered_at, r.read_at;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT SELECT ON message_receipts TO authenticated;
+GRANT EXECUTE ON FUNCTION mark_messages_delivered(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION mark_messages_read(UUID) TO authenticated;
+
+-- 6. Verification
+SELECT
+    'Message receipts setup complete' AS status,
+    (SELECT COUNT(*) FROM message_receipts) AS receipts,
+    (SELECT COUNT(*) FROM message_receipts WHERE read_at IS NOT NULL) AS read_receipts;
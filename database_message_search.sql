@@ -0,0 +1,126 @@
+-- =====================================================
+-- MESSAGE SEARCH
+-- =====================================================
+-- Full-text search over message bodies in every conversation the caller is
+-- part of. Results carry a highlighted snippet (matches wrapped in
+-- <mark></mark>), can be filtered by sender, date range and message type, and
+-- are paged newest first with a created_at/id cursor like conversation history.
+
+-- 1. Search vector. 'simple' keeps names, handles and mixed-language text intact.
+ALTER TABLE messages ADD COLUMN IF NOT EXISTS search_vector tsvector
+    GENERATED ALWAYS AS (to_tsvector('simple', COALESCE(content, ''))) STORED;
+
+CREATE INDEX IF NOT EXISTS idx_messages_search_vector
+    ON messages USING GIN (search_vector);
+
+-- 2. Search function. An empty query lists messages matching the filters only.
+-- The last word of the query also matches as a prefix, so results show up
+-- while the user is still typing.
+DROP FUNCTION IF EXISTS search_messages(TEXT, UUID, TIMESTAMP WITH TIME ZONE, TIMESTAMP WITH TIME ZONE, TEXT[], INTEGER, TIMESTAMP WITH TIME ZONE, UUID);
+
+CREATE OR REPLACE FUNCTION search_messages(
+    p_query TEXT,
+    p_sender_id UUID DEFAULT NULL,
+    p_from TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+    p_to TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+    p_types TEXT[] DEFAULT NULL,
+    p_limit INTEGER DEFAULT 20,
+    p_before_created_at TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+    p_before_id UUID DEFAULT NULL
+)
+RETURNS TABLE (
+    id UUID,
+    conversation_id UUID,
+    sender_id UUID,
+    content TEXT,
+    message_type TEXT,
+    media_url TEXT,
+    created_at TIMESTAMP WITH TIME ZONE,
+    snippet TEXT,
+    sender_username TEXT,
+    sender_avatar TEXT,
+    conversation_type TEXT,
+    conversation_title TEXT,
+    other_user_id UUID,
+    other_username TEXT,
+    other_avatar TEXT
+) AS $$
+DECLARE
+    v_words TEXT[];
+    v_tsquery tsquery;
+BEGIN
+    -- Punctuation is dropped; every word must match
+    v_words := array_remove(
+        regexp_split_to_array(regexp_replace(COALESCE(p_query, ''), '[^[:alnum:]_]+', ' ', 'g'), ' '),
+        ''
+    );
+
+    IF array_length(v_words, 1) IS NOT NULL THEN
+        SELECT to_tsquery('simple', string_agg(
+            quote_literal(lower(w.word)) || CASE WHEN w.ord = array_length(v_words, 1) THEN ':*' ELSE '' END,
+            ' & ' ORDER BY w.ord
+        ))
+        INTO v_tsquery
+        FROM unnest(v_words) WITH ORDINALITY AS w(word, ord);
+    END IF;
+
+    RETURN QUERY
+    SELECT
+        m.id,
+        m.conversation_id,
+        m.sender_id,
+        m.content,
+        COALESCE(m.message_type, 'text')::TEXT,
+        m.media_url,
+        m.created_at,
+        CASE
+            WHEN v_tsquery IS NULL THEN left(m.content, 120)
+            ELSE ts_headline(
+                'simple', m.content, v_tsquery,
+                'StartSel=<mark>, StopSel=</mark>, MaxWords=18, MinWords=6, ShortWord=2, MaxFragments=1'
+            )
+        END,
+        sender.username::TEXT,
+        COALESCE(sender.avatar, sender.profile_picture)::TEXT,
+        COALESCE(c.conversation_type, 'direct')::TEXT,
+        c.title::TEXT,
+        other.user_id,
+        other.username::TEXT,
+        other.avatar::TEXT
+    FROM messages m
+    JOIN conversation_participants me
+        ON me.conversation_id = m.conversation_id AND me.user_id = auth.uid()
+    JOIN conversations c ON c.id = m.conversation_id
+    LEFT JOIN user_profiles sender ON sender.id = m.sender_id
+    LEFT JOIN LATERAL (
+        SELECT cp.user_id, up.username, COALESCE(up.avatar, up.profile_picture) AS avatar
+        FROM conversation_participants cp
+        JOIN user_profiles up ON up.id = cp.user_id
+        WHERE cp.conversation_id = m.conversation_id
+          AND cp.user_id <> auth.uid()
+        ORDER BY cp.joined_at
+        LIMIT 1
+    ) other ON TRUE
+    WHERE COALESCE(m.is_deleted, false) = false
+      AND COALESCE(m.message_type, 'text') <> 'system'
+      AND (v_tsquery IS NULL OR m.search_vector @@ v_tsquery)
+      AND (p_sender_id IS NULL OR m.sender_id = p_sender_id)
+      AND (p_from IS NULL OR m.created_at >= p_from)
+      AND (p_to IS NULL OR m.created_at < p_to)
+      AND (p_types IS NULL OR COALESCE(m.message_type, 'text') = ANY (p_types))
+      AND (
+          p_before_created_at IS NULL
+          OR m.created_at < p_before_created_at
+          OR (m.created_at = p_before_created_at AND m.id < p_before_id)
+      )
+    ORDER BY m.created_at DESC, m.id DESC
+    LIMIT LEAST(GREATEST(p_limit, 1), 100);
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION search_messages(TEXT, UUID, TIMESTAMP WITH TIME ZONE, TIMESTAMP WITH TIME ZONE, TEXT[], INTEGER, TIMESTAMP WITH TIME ZONE, UUID) TO authenticated;
+
+-- 3. Verification
+SELECT
+    'Message search setup complete' AS status,
+    (SELECT COUNT(*) FROM messages WHERE search_vector IS NOT NULL) AS indexed_messages;
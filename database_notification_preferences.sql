@@ -0,0 +1,97 @@
+-- =====================================================
+-- NOTIFICATION PREFERENCES
+-- =====================================================
+-- Per-user switches for each notification type, daily quiet hours in the
+-- user's own time zone, and per-conversation mutes with an optional expiry.
+-- Preferences only control local delivery; inbox entries are always kept.
+
+-- 1. Preferences table (one row per user, created on first save)
+CREATE TABLE IF NOT EXISTS notification_preferences (
+    user_id UUID PRIMARY KEY REFERENCES user_profiles(id) ON DELETE CASCADE,
+    message_enabled BOOLEAN NOT NULL DEFAULT true,
+    follow_enabled BOOLEAN NOT NULL DEFAULT true,
+    like_enabled BOOLEAN NOT NULL DEFAULT true,
+    comment_enabled BOOLEAN NOT NULL DEFAULT true,
+    booking_enabled BOOLEAN NOT NULL DEFAULT true,
+    review_enabled BOOLEAN NOT NULL DEFAULT true,
+    reel_share_enabled BOOLEAN NOT NULL DEFAULT true,
+    quiet_hours_enabled BOOLEAN NOT NULL DEFAULT false,
+    quiet_hours_start TIME NOT NULL DEFAULT '22:00',
+    quiet_hours_end TIME NOT NULL DEFAULT '07:00',
+    time_zone TEXT NOT NULL DEFAULT 'UTC',
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- 2. Conversation mutes (muted_until NULL = muted until turned back on)
+CREATE TABLE IF NOT EXISTS conversation_mutes (
+    user_id UUID NOT NULL REFERENCES user_profiles(id) ON DELETE CASCADE,
+    conversation_id UUID NOT NULL REFERENCES conversations(id) ON DELETE CASCADE,
+    muted_until TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    PRIMARY KEY (user_id, conversation_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_conversation_mutes_user ON conversation_mutes(user_id);
+
+-- 3. Row level security: users only see and change their own settings
+ALTER TABLE notification_preferences ENABLE ROW LEVEL SECURITY;
+ALTER TABLE conversation_mutes ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own notification preferences" ON notification_preferences;
+DROP POLICY IF EXISTS "Users can insert own notification preferences" ON notification_preferences;
+DROP POLICY IF EXISTS "Users can update own notification preferences" ON notification_preferences;
+
+CREATE POLICY "Users can view own notification preferences" ON notification_preferences
+    FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own notification preferences" ON notification_preferences
+    FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own notification preferences" ON notification_preferences
+    FOR UPDATE USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can view own conversation mutes" ON conversation_mutes;
+DROP POLICY IF EXISTS "Users can mute own conversations" ON conversation_mutes;
+DROP POLICY IF EXISTS "Users can update own conversation mutes" ON conversation_mutes;
+DROP POLICY IF EXISTS "Users can delete own conversation mutes" ON conversation_mutes;
+
+CREATE POLICY "Users can view own conversation mutes" ON conversation_mutes
+    FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can mute own conversations" ON conversation_mutes
+    FOR INSERT WITH CHECK (
+        auth.uid() = user_id
+        AND EXISTS (
+            SELECT 1 FROM conversation_participants cp
+            WHERE cp.conversation_id = conversation_mutes.conversation_id
+              AND cp.user_id = auth.uid()
+        )
+    );
+
+CREATE POLICY "Users can update own conversation mutes" ON conversation_mutes
+    FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own conversation mutes" ON conversation_mutes
+    FOR DELETE USING (auth.uid() = user_id);
+
+-- 4. Keep updated_at current
+CREATE OR REPLACE FUNCTION update_notification_preferences_timestamp()
+RETURNS TRIGGER AS $$
+BEGIN
+    NEW.updated_at := NOW();
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_notification_preferences_timestamp ON notification_preferences;
+
+CREATE TRIGGER trigger_notification_preferences_timestamp
+    BEFORE UPDATE ON notification_preferences
+    FOR EACH ROW
+    EXECUTE FUNCTION update_notification_preferences_timestamp();
+
+-- 5. Verification
+SELECT
+    'Notification preferences setup complete' AS status,
+    (SELECT COUNT(*) FROM notification_preferences) AS preference_rows,
+    (SELECT COUNT(*) FROM conversation_mutes) AS conversation_mutes;
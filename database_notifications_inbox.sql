@@ -0,0 +1,402 @@
+-- =====================================================
+-- NOTIFICATIONS INBOX
+-- =====================================================
+-- Persists an in-app notification for follows, likes, comments, reel
+-- shares, reviews and messages. Entries are created by triggers on the
+-- source tables so every client (and every code path) produces them.
+--
+-- data JSONB carries what the app needs to route a tap, e.g.
+--   { "actorId": "...", "actorName": "...", "actorAvatar": "...",
+--     "postId": "...", "reelId": "...", "commentId": "...",
+--     "conversationId": "...", "reviewId": "..." }
+
+-- 1. Columns and types
+ALTER TABLE notifications ADD COLUMN IF NOT EXISTS actor_id UUID REFERENCES user_profiles(id) ON DELETE CASCADE;
+ALTER TABLE notifications ADD COLUMN IF NOT EXISTS read_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE notifications ALTER COLUMN data SET DEFAULT '{}'::jsonb;
+
+ALTER TABLE notifications DROP CONSTRAINT IF EXISTS notifications_type_check;
+ALTER TABLE notifications ADD CONSTRAINT notifications_type_check
+    CHECK (type IN ('like', 'comment', 'follow', 'message', 'booking', 'review', 'reel_share'));
+
+-- Keyset pagination (newest first) and unread counts
+CREATE INDEX IF NOT EXISTS idx_notifications_user_created
+    ON notifications(user_id, created_at DESC, id DESC);
+CREATE INDEX IF NOT EXISTS idx_notifications_user_unread
+    ON notifications(user_id) WHERE is_read = false;
+
+-- 2. RLS: users only see and mark their own notifications.
+-- Inserts happen in SECURITY DEFINER triggers, so clients cannot forge them.
+ALTER TABLE notifications ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own notifications" ON notifications;
+DROP POLICY IF EXISTS "Users can update own notifications" ON notifications;
+DROP POLICY IF EXISTS "Users can delete own notifications" ON notifications;
+DROP POLICY IF EXISTS "Users can insert notifications" ON notifications;
+
+CREATE POLICY "Users can view own notifications" ON notifications
+    FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own notifications" ON notifications
+    FOR UPDATE USING (auth.uid() = user_id)
+    WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own notifications" ON notifications
+    FOR DELETE USING (auth.uid() = user_id);
+
+-- Only the read state can change
+CREATE OR REPLACE FUNCTION protect_notification_fields()
+RETURNS TRIGGER AS $$
+BEGIN
+    NEW.user_id := OLD.user_id;
+    NEW.actor_id := OLD.actor_id;
+    NEW.type := OLD.type;
+    NEW.created_at := OLD.created_at;
+
+    IF NEW.is_read AND NOT COALESCE(OLD.is_read, false) THEN
+        NEW.read_at := NOW();
+    ELSIF NOT NEW.is_read THEN
+        NEW.read_at := NULL;
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_protect_notification_fields ON notifications;
+
+CREATE TRIGGER trigger_protect_notification_fields
+    BEFORE UPDATE ON notifications
+    FOR EACH ROW
+    WHEN (current_user NOT IN ('postgres', 'supabase_admin'))
+    EXECUTE FUNCTION protect_notification_fields();
+
+-- 3. Shared helper used by all triggers below
+-- Skips self-notifications and fills in the actor's name and avatar.
+CREATE OR REPLACE FUNCTION create_inbox_notification(
+    p_recipient_id UUID,
+    p_actor_id UUID,
+    p_type TEXT,
+    p_title TEXT,
+    p_message TEXT,
+    p_data JSONB DEFAULT '{}'::jsonb
+)
+RETURNS UUID AS $$
+DECLARE
+    actor_record RECORD;
+    new_id UUID;
+BEGIN
+    IF p_recipient_id IS NULL OR p_recipient_id = p_actor_id THEN
+        RETURN NULL;
+    END IF;
+
+    SELECT COALESCE(full_name, username, handle) AS name, COALESCE(avatar, profile_picture) AS avatar
+    INTO actor_record
+    FROM user_profiles
+    WHERE id = p_actor_id;
+
+    INSERT INTO notifications (user_id, actor_id, type, title, message, data)
+    VALUES (
+        p_recipient_id,
+        p_actor_id,
+        p_type,
+        p_title,
+        p_message,
+        COALESCE(p_data, '{}'::jsonb) || jsonb_build_object(
+            'actorId', p_actor_id,
+            'actorName', COALESCE(actor_record.name, 'Someone'),
+            'actorAvatar', actor_record.avatar
+        )
+    )
+    RETURNING id INTO new_id;
+
+    RETURN new_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- 4. Follows
+CREATE OR REPLACE FUNCTION notify_on_follow()
+RETURNS TRIGGER AS $$
+BEGIN
+    PERFORM create_inbox_notification(
+        NEW.following_id, NEW.follower_id, 'follow',
+        'New follower', 'started following you',
+        jsonb_build_object('userId', NEW.follower_id)
+    );
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS trigger_notify_on_follow ON followers;
+
+CREATE TRIGGER trigger_notify_on_follow
+    AFTER INSERT ON followers
+    FOR EACH ROW
+    EXECUTE FUNCTION notify_on_follow();
+
+-- 5. Likes on posts, reels and comments
+CREATE OR REPLACE FUNCTION notify_on_like()
+RETURNS TRIGGER AS $$
+DECLARE
+    owner_id UUID;
+BEGIN
+    IF NEW.post_id IS NOT NULL THEN
+        SELECT user_id INTO owner_id FROM posts WHERE id = NEW.post_id;
+        PERFORM create_inbox_notification(
+            owner_id, NEW.user_id, 'like', 'New like', 'liked your post',
+            jsonb_build_object('postId', NEW.post_id)
+        );
+    ELSIF NEW.reel_id IS NOT NULL THEN
+        SELECT user_id INTO owner_id FROM reels WHERE id = NEW.reel_id;
+        PERFORM create_inbox_notification(
+            owner_id, NEW.user_id, 'like', 'New like', 'liked your reel',
+            jsonb_build_object('reelId', NEW.reel_id)
+        );
+    ELSIF NEW.comment_id IS NOT NULL THEN
+        SELECT user_id INTO owner_id FROM comments WHERE id = NEW.comment_id;
+        PERFORM create_inbox_notification(
+            owner_id, NEW.user_id, 'like', 'New like', 'liked your comment',
+            jsonb_build_object('commentId', NEW.comment_id)
+        );
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS trigger_notify_on_like ON likes;
+
+CREATE TRIGGER trigger_notify_on_like
+    AFTER INSERT ON likes
+    FOR EACH ROW
+    EXECUTE FUNCTION notify_on_like();
+
+CREATE OR REPLACE FUNCTION notify_on_reel_like()
+RETURNS TRIGGER AS $$
+DECLARE
+    owner_id UUID;
+BEGIN
+    SELECT user_id INTO owner_id FROM reels WHERE id = NEW.reel_id;
+    PERFORM create_inbox_notification(
+        owner_id, NEW.user_id, 'like', 'New like', 'liked your reel',
+        jsonb_build_object('reelId', NEW.reel_id)
+    );
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS trigger_notify_on_reel_like ON reel_likes;
+
+CREATE TRIGGER trigger_notify_on_reel_like
+    AFTER INSERT ON reel_likes
+    FOR EACH ROW
+    EXECUTE FUNCTION notify_on_reel_like();
+
+CREATE OR REPLACE FUNCTION notify_on_comment_like()
+RETURNS TRIGGER AS $$
+DECLARE
+    owner_id UUID;
+BEGIN
+    SELECT user_id INTO owner_id FROM comments WHERE id = NEW.comment_id;
+    PERFORM create_inbox_notification(
+        owner_id, NEW.user_id, 'like', 'New like', 'liked your comment',
+        jsonb_build_object('commentId', NEW.comment_id)
+    );
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS trigger_notify_on_comment_like ON comment_likes;
+
+CREATE TRIGGER trigger_notify_on_comment_like
+    AFTER INSERT ON comment_likes
+    FOR EACH ROW
+    EXECUTE FUNCTION notify_on_comment_like();
+
+-- 6. Comments (post_id holds a post or reel id) and replies
+CREATE OR REPLACE FUNCTION notify_on_comment()
+RETURNS TRIGGER AS $$
+DECLARE
+    owner_id UUID;
+    parent_author_id UUID;
+    target_data JSONB;
+    preview TEXT := LEFT(NEW.content, 80);
+BEGIN
+    SELECT user_id INTO owner_id FROM posts WHERE id = NEW.post_id;
+
+    IF owner_id IS NOT NULL THEN
+        target_data := jsonb_build_object('postId', NEW.post_id, 'commentId', NEW.id);
+    ELSE
+        SELECT user_id INTO owner_id FROM reels WHERE id = NEW.post_id;
+        target_data := jsonb_build_object('reelId', NEW.post_id, 'commentId', NEW.id);
+    END IF;
+
+    IF NEW.parent_id IS NOT NULL THEN
+        SELECT user_id INTO parent_author_id FROM comments WHERE id = NEW.parent_id;
+        PERFORM create_inbox_notification(
+            parent_author_id, NEW.user_id, 'comment', 'New reply',
+            'replied to your comment: ' || preview, target_data
+        );
+    END IF;
+
+    -- The owner already heard about it if they wrote the parent comment
+    IF parent_author_id IS DISTINCT FROM owner_id THEN
+        PERFORM create_inbox_notification(
+            owner_id, NEW.user_id, 'comment', 'New comment',
+            'commented: ' || preview, target_data
+        );
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS trigger_notify_on_comment ON comments;
+
+CREATE TRIGGER trigger_notify_on_comment
+    AFTER INSERT ON comments
+    FOR EACH ROW
+    EXECUTE FUNCTION notify_on_comment();
+
+-- 7. Reel shares (to the reel owner)
+CREATE OR REPLACE FUNCTION notify_on_reel_share()
+RETURNS TRIGGER AS $$
+DECLARE
+    owner_id UUID;
+BEGIN
+    SELECT user_id INTO owner_id FROM reels WHERE id = NEW.reel_id;
+    PERFORM create_inbox_notification(
+        owner_id, NEW.user_id, 'reel_share', 'Reel shared', 'shared your reel',
+        jsonb_build_object('reelId', NEW.reel_id)
+    );
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS trigger_notify_on_reel_share ON reel_shares;
+
+CREATE TRIGGER trigger_notify_on_reel_share
+    AFTER INSERT ON reel_shares
+    FOR EACH ROW
+    EXECUTE FUNCTION notify_on_reel_share();
+
+-- 8. Reviews
+CREATE OR REPLACE FUNCTION notify_on_review()
+RETURNS TRIGGER AS $$
+BEGIN
+    PERFORM create_inbox_notification(
+        NEW.reviewed_id, NEW.reviewer_id, 'review', 'New review',
+        'left you a ' || NEW.rating || '-star review',
+        jsonb_build_object('reviewId', NEW.id, 'userId', NEW.reviewed_id)
+    );
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS trigger_notify_on_review ON reviews;
+
+CREATE TRIGGER trigger_notify_on_review
+    AFTER INSERT ON reviews
+    FOR EACH ROW
+    EXECUTE FUNCTION notify_on_review();
+
+-- 9. Messages
+-- One unread entry per conversation: a new message refreshes the existing
+-- unread entry instead of flooding the inbox. Reels sent in a chat are
+-- reported as reel shares.
+CREATE OR REPLACE FUNCTION notify_on_message()
+RETURNS TRIGGER AS $$
+DECLARE
+    participant RECORD;
+    existing_id UUID;
+    preview TEXT;
+BEGIN
+    preview := CASE
+        WHEN NEW.shared_reel_id IS NOT NULL THEN 'sent you a reel'
+        WHEN NEW.shared_post_id IS NOT NULL THEN 'sent you a post'
+        WHEN NEW.message_type = 'image' THEN 'sent a photo'
+        WHEN NEW.message_type = 'video' THEN 'sent a video'
+        WHEN NEW.message_type = 'audio' THEN 'sent a voice message'
+        ELSE LEFT(NEW.content, 80)
+    END;
+
+    FOR participant IN
+        SELECT user_id FROM conversation_participants
+        WHERE conversation_id = NEW.conversation_id AND user_id <> NEW.sender_id
+    LOOP
+        IF NEW.shared_reel_id IS NOT NULL THEN
+            PERFORM create_inbox_notification(
+                participant.user_id, NEW.sender_id, 'reel_share', 'Reel shared', preview,
+                jsonb_build_object('reelId', NEW.shared_reel_id, 'conversationId', NEW.conversation_id)
+            );
+            CONTINUE;
+        END IF;
+
+        SELECT id INTO existing_id
+        FROM notifications
+        WHERE user_id = participant.user_id
+          AND type = 'message'
+          AND is_read = false
+          AND data->>'conversationId' = NEW.conversation_id::text
+        LIMIT 1;
+
+        IF existing_id IS NOT NULL THEN
+            UPDATE notifications
+            SET message = preview,
+                actor_id = NEW.sender_id,
+                data = data || jsonb_build_object(
+                    'messageId', NEW.id,
+                    'messageCount', COALESCE((data->>'messageCount')::int, 1) + 1
+                ),
+                created_at = NOW()
+            WHERE id = existing_id;
+        ELSE
+            PERFORM create_inbox_notification(
+                participant.user_id, NEW.sender_id, 'message', 'New message', preview,
+                jsonb_build_object('conversationId', NEW.conversation_id, 'messageId', NEW.id, 'messageCount', 1)
+            );
+        END IF;
+    END LOOP;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS trigger_notify_on_message ON messages;
+
+CREATE TRIGGER trigger_notify_on_message
+    AFTER INSERT ON messages
+    FOR EACH ROW
+    EXECUTE FUNCTION notify_on_message();
+
+-- 10. Unread count
+CREATE OR REPLACE FUNCTION get_unread_notification_count()
+RETURNS INTEGER AS $$
+    SELECT COUNT(*)::integer FROM notifications WHERE user_id = auth.uid() AND is_read = false;
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION get_unread_notification_count() TO authenticated;
+
+-- Only the triggers may create notifications
+REVOKE EXECUTE ON FUNCTION create_inbox_notification(UUID, UUID, TEXT, TEXT, TEXT, JSONB) FROM PUBLIC, anon, authenticated;
+
+-- 11. Realtime delivery
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM pg_publication_tables
+        WHERE pubname = 'supabase_realtime' AND tablename = 'notifications'
+    ) THEN
+        ALTER PUBLICATION supabase_realtime ADD TABLE notifications;
+        RAISE NOTICE '✅ Added notifications table to realtime publication';
+    ELSE
+        RAISE NOTICE 'ℹ️ notifications table already in realtime publication';
+    END IF;
+END $$;
+
+-- 12. Verification
+SELECT
+    'Notifications inbox setup complete' AS status,
+    COUNT(*) AS total_notifications,
+    COUNT(*) FILTER (WHERE is_read = false) AS unread_notifications
+FROM notifications;
@@ -0,0 +1,197 @@
+-- =====================================================
+-- PRIVATE ACCOUNTS AND FOLLOW REQUESTS
+-- =====================================================
+-- A private account's posts, reels, stories and bulletin board notes are
+-- only visible to the owner, their followers and moderators. Following a
+-- private account creates a follow request that the owner approves or
+-- denies; approving turns it into a regular follow. Making an account public
+-- again approves everything still pending. Requires
+-- database_notifications_inbox.sql, database_host_applications.sql and
+-- database_user_blocks.sql.
+
+-- 1. Private flag
+ALTER TABLE user_profiles ADD COLUMN IF NOT EXISTS is_private BOOLEAN NOT NULL DEFAULT false;
+
+CREATE OR REPLACE FUNCTION is_private_account(p_user_id UUID)
+RETURNS BOOLEAN AS $$
+    SELECT COALESCE((SELECT is_private FROM user_profiles WHERE id = p_user_id), false);
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- Whether p_viewer may see content owned by p_owner
+CREATE OR REPLACE FUNCTION can_view_user_content(p_viewer UUID, p_owner UUID)
+RETURNS BOOLEAN AS $$
+    SELECT p_viewer = p_owner
+        OR NOT is_private_account(p_owner)
+        OR EXISTS (
+            SELECT 1 FROM followers
+            WHERE follower_id = p_viewer AND following_id = p_owner
+        )
+        OR is_moderator(p_viewer);
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION is_private_account(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION can_view_user_content(UUID, UUID) TO authenticated;
+
+-- 2. Follow requests
+CREATE TABLE IF NOT EXISTS follow_requests (
+    requester_id UUID NOT NULL REFERENCES user_profiles(id) ON DELETE CASCADE,
+    target_id UUID NOT NULL REFERENCES user_profiles(id) ON DELETE CASCADE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    PRIMARY KEY (requester_id, target_id),
+    CHECK (requester_id <> target_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_follow_requests_target ON follow_requests(target_id, created_at DESC);
+
+ALTER TABLE follow_requests ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own follow requests" ON follow_requests;
+DROP POLICY IF EXISTS "Users can request to follow private accounts" ON follow_requests;
+DROP POLICY IF EXISTS "Users can cancel or deny follow requests" ON follow_requests;
+
+-- Both the requester and the account owner can see a request
+CREATE POLICY "Users can view own follow requests" ON follow_requests
+    FOR SELECT USING (requester_id = auth.uid() OR target_id = auth.uid());
+
+CREATE POLICY "Users can request to follow private accounts" ON follow_requests
+    FOR INSERT WITH CHECK (
+        requester_id = auth.uid()
+        AND is_private_account(target_id)
+        AND NOT is_blocked_with(target_id)
+    );
+
+-- The requester cancels, the owner denies
+CREATE POLICY "Users can cancel or deny follow requests" ON follow_requests
+    FOR DELETE USING (requester_id = auth.uid() OR target_id = auth.uid());
+
+GRANT SELECT, INSERT, DELETE ON follow_requests TO authenticated;
+
+-- 3. Private accounts can only be followed through an approved request
+DROP POLICY IF EXISTS "No direct follows of private accounts" ON followers;
+
+CREATE POLICY "No direct follows of private accounts" ON followers
+    AS RESTRICTIVE FOR INSERT
+    WITH CHECK (NOT is_private_account(following_id));
+
+-- Approve a request to follow the caller
+CREATE OR REPLACE FUNCTION approve_follow_request(p_requester_id UUID)
+RETURNS BOOLEAN AS $$
+BEGIN
+    DELETE FROM follow_requests
+    WHERE requester_id = p_requester_id AND target_id = auth.uid();
+
+    IF NOT FOUND OR is_blocked_between(p_requester_id, auth.uid()) THEN
+        RETURN false;
+    END IF;
+
+    INSERT INTO followers (follower_id, following_id)
+    VALUES (p_requester_id, auth.uid())
+    ON CONFLICT DO NOTHING;
+
+    PERFORM create_inbox_notification(
+        p_requester_id, auth.uid(), 'follow',
+        'Follow request accepted', 'accepted your follow request',
+        jsonb_build_object('userId', auth.uid())
+    );
+
+    RETURN true;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION approve_follow_request(UUID) TO authenticated;
+
+-- 4. Notify the owner about new requests
+CREATE OR REPLACE FUNCTION notify_on_follow_request()
+RETURNS TRIGGER AS $$
+BEGIN
+    PERFORM create_inbox_notification(
+        NEW.target_id, NEW.requester_id, 'follow',
+        'Follow request', 'requested to follow you',
+        jsonb_build_object('userId', NEW.requester_id, 'followRequest', true)
+    );
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS trigger_notify_on_follow_request ON follow_requests;
+
+CREATE TRIGGER trigger_notify_on_follow_request
+    AFTER INSERT ON follow_requests
+    FOR EACH ROW
+    EXECUTE FUNCTION notify_on_follow_request();
+
+-- 5. Going public approves every pending request
+CREATE OR REPLACE FUNCTION approve_requests_when_public()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF OLD.is_private AND NOT NEW.is_private THEN
+        INSERT INTO followers (follower_id, following_id)
+        SELECT requester_id, target_id FROM follow_requests
+        WHERE target_id = NEW.id AND NOT is_blocked_between(requester_id, target_id)
+        ON CONFLICT DO NOTHING;
+
+        DELETE FROM follow_requests WHERE target_id = NEW.id;
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS trigger_approve_requests_when_public ON user_profiles;
+
+CREATE TRIGGER trigger_approve_requests_when_public
+    AFTER UPDATE OF is_private ON user_profiles
+    FOR EACH ROW
+    EXECUTE FUNCTION approve_requests_when_public();
+
+-- 6. Hide private content from non-followers
+DROP POLICY IF EXISTS "Private account posts" ON posts;
+DROP POLICY IF EXISTS "Private account reels" ON reels;
+DROP POLICY IF EXISTS "Private account stories" ON stories;
+DROP POLICY IF EXISTS "Private account bulletin notes" ON bulletin_board;
+
+CREATE POLICY "Private account posts" ON posts
+    AS RESTRICTIVE FOR SELECT
+    USING (can_view_user_content(auth.uid(), user_id));
+
+CREATE POLICY "Private account reels" ON reels
+    AS RESTRICTIVE FOR SELECT
+    USING (can_view_user_content(auth.uid(), user_id));
+
+CREATE POLICY "Private account stories" ON stories
+    AS RESTRICTIVE FOR SELECT
+    USING (can_view_user_content(auth.uid(), user_id));
+
+CREATE POLICY "Private account bulletin notes" ON bulletin_board
+    AS RESTRICTIVE FOR SELECT
+    USING (can_view_user_content(auth.uid(), user_id));
+
+-- 7. Blocking also drops pending follow requests in both directions.
+-- Recreates block_user from database_user_blocks.sql, so run this script
+-- after it.
+CREATE OR REPLACE FUNCTION block_user(p_user_id UUID)
+RETURNS VOID AS $$
+BEGIN
+    IF auth.uid() IS NULL OR p_user_id = auth.uid() THEN
+        RAISE EXCEPTION 'Cannot block this user';
+    END IF;
+
+    INSERT INTO user_blocks (blocker_id, blocked_id)
+    VALUES (auth.uid(), p_user_id)
+    ON CONFLICT DO NOTHING;
+
+    DELETE FROM followers
+    WHERE (follower_id = auth.uid() AND following_id = p_user_id)
+       OR (follower_id = p_user_id AND following_id = auth.uid());
+
+    DELETE FROM follow_requests
+    WHERE (requester_id = auth.uid() AND target_id = p_user_id)
+       OR (requester_id = p_user_id AND target_id = auth.uid());
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- 8. Verification
+SELECT
+    'Private accounts setup complete' AS status,
+    (SELECT COUNT(*) FROM user_profiles WHERE is_private) AS private_accounts,
+    (SELECT COUNT(*) FROM follow_requests) AS pending_requests;
@@ -0,0 +1,177 @@
+-- =====================================================
+-- REEL WATCH HISTORY
+-- =====================================================
+-- Records which reels each user has viewed and which they watched to the
+-- end. The "For You" reels ranking uses it to demote reels already seen and
+-- to find reels similar to ones the viewer finished or liked. A reel's
+-- view_count now only goes up on a user's first view. History is private
+-- to the viewer. get_for_you_candidates picks the reels that ranking
+-- considers. Requires database_content_reports.sql.
+
+-- 1. Views
+CREATE TABLE IF NOT EXISTS reel_views (
+    user_id UUID NOT NULL REFERENCES user_profiles(id) ON DELETE CASCADE,
+    reel_id UUID NOT NULL REFERENCES reels(id) ON DELETE CASCADE,
+    completed BOOLEAN NOT NULL DEFAULT false,
+    viewed_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    PRIMARY KEY (user_id, reel_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_reel_views_user_recent ON reel_views(user_id, viewed_at DESC);
+
+ALTER TABLE reel_views ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own watch history" ON reel_views;
+
+-- Writes go through the functions below
+CREATE POLICY "Users can view own watch history" ON reel_views
+    FOR SELECT USING (user_id = auth.uid());
+
+GRANT SELECT ON reel_views TO authenticated;
+
+-- 2. Record a view; returns true the first time this user views the reel
+DROP FUNCTION IF EXISTS increment_reel_view(UUID);
+
+CREATE OR REPLACE FUNCTION increment_reel_view(p_reel_id UUID)
+RETURNS BOOLEAN AS $$
+DECLARE
+    v_is_new BOOLEAN;
+BEGIN
+    IF auth.uid() IS NULL THEN
+        RETURN false;
+    END IF;
+
+    INSERT INTO reel_views (user_id, reel_id)
+    VALUES (auth.uid(), p_reel_id)
+    ON CONFLICT (user_id, reel_id) DO NOTHING;
+
+    v_is_new := FOUND;
+
+    IF v_is_new THEN
+        UPDATE reels SET view_count = COALESCE(view_count, 0) + 1 WHERE id = p_reel_id;
+    ELSE
+        UPDATE reel_views SET viewed_at = NOW()
+        WHERE user_id = auth.uid() AND reel_id = p_reel_id;
+    END IF;
+
+    RETURN v_is_new;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Watched to the end; also counts as a view
+CREATE OR REPLACE FUNCTION mark_reel_watched(p_reel_id UUID)
+RETURNS VOID AS $$
+BEGIN
+    IF auth.uid() IS NULL THEN
+        RETURN;
+    END IF;
+
+    PERFORM increment_reel_view(p_reel_id);
+
+    UPDATE reel_views SET completed = true, viewed_at = NOW()
+    WHERE user_id = auth.uid() AND reel_id = p_reel_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION get_user_reel_view_status(p_reel_id UUID)
+RETURNS BOOLEAN AS $$
+    SELECT EXISTS (
+        SELECT 1 FROM reel_views WHERE user_id = auth.uid() AND reel_id = p_reel_id
+    );
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION increment_reel_view(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION mark_reel_watched(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_user_reel_view_status(UUID) TO authenticated;
+
+-- 3. Engagement history for the "For You" ranking: the caller's recently
+-- viewed and liked reels with their creator and hashtags
+CREATE OR REPLACE FUNCTION get_reel_engagement_history(p_limit INTEGER DEFAULT 200)
+RETURNS TABLE (
+    reel_id UUID,
+    creator_id UUID,
+    hashtags TEXT[],
+    viewed BOOLEAN,
+    completed BOOLEAN,
+    liked BOOLEAN,
+    engaged_at TIMESTAMP WITH TIME ZONE
+) AS $$
+    WITH liked_reels AS (
+        SELECT l.reel_id, MAX(l.created_at) AS liked_at
+        FROM (
+            SELECT rl.reel_id, rl.created_at FROM reel_likes rl WHERE rl.user_id = auth.uid()
+            UNION ALL
+            SELECT lk.reel_id, lk.created_at FROM likes lk WHERE lk.user_id = auth.uid() AND lk.reel_id IS NOT NULL
+        ) l
+        GROUP BY l.reel_id
+    ),
+    history AS (
+        SELECT
+            COALESCE(v.reel_id, lr.reel_id) AS reel_id,
+            v.reel_id IS NOT NULL AS viewed,
+            COALESCE(v.completed, false) AS completed,
+            lr.reel_id IS NOT NULL AS liked,
+            GREATEST(v.viewed_at, lr.liked_at) AS engaged_at
+        FROM (SELECT * FROM reel_views WHERE user_id = auth.uid()) v
+        FULL OUTER JOIN liked_reels lr ON lr.reel_id = v.reel_id
+    )
+    SELECT h.reel_id, r.user_id, COALESCE(r.hashtags, '{}'), h.viewed, h.completed, h.liked, h.engaged_at
+    FROM history h
+    JOIN reels r ON r.id = h.reel_id
+    ORDER BY h.engaged_at DESC NULLS LAST
+    LIMIT p_limit;
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION get_reel_engagement_history(INTEGER) TO authenticated;
+
+-- 4. Candidates for the "For You" ranking: recent reels from the last
+-- p_days, from followed creators, tagged with the caller's interests or with
+-- hashtags of reels they liked or finished, and the most liked, up to
+-- p_per_source of each. Runs as the caller so RLS leaves out hidden,
+-- blocked and private content.
+CREATE OR REPLACE FUNCTION get_for_you_candidates(p_days INTEGER DEFAULT 30, p_per_source INTEGER DEFAULT 150)
+RETURNS SETOF reels AS $$
+    WITH pool AS (
+        SELECT r.id, r.user_id, r.hashtags, r.created_at, r.likes_count
+        FROM reels r
+        WHERE NOT r.is_hidden
+          AND COALESCE(r.status, 'active') = 'active'
+          AND NOT is_user_suspended(r.user_id)
+          AND r.user_id <> auth.uid()
+          AND r.created_at >= NOW() - make_interval(days => p_days)
+    ),
+    viewer_tags AS (
+        SELECT lower(ltrim(tag, '#')) AS tag
+        FROM user_profiles up, unnest(up.interests) AS tag
+        WHERE up.id = auth.uid()
+        UNION
+        SELECT lower(ltrim(tag, '#'))
+        FROM get_reel_engagement_history() h, unnest(h.hashtags) AS tag
+        WHERE h.liked OR h.completed
+    ),
+    candidate_ids AS (
+        (SELECT p.id FROM pool p ORDER BY p.created_at DESC LIMIT p_per_source)
+        UNION
+        (SELECT p.id FROM pool p
+         WHERE p.user_id IN (SELECT following_id FROM followers WHERE follower_id = auth.uid())
+         ORDER BY p.created_at DESC LIMIT p_per_source)
+        UNION
+        (SELECT p.id FROM pool p
+         WHERE EXISTS (
+             SELECT 1 FROM unnest(p.hashtags) AS tag
+             WHERE lower(ltrim(tag, '#')) IN (SELECT vt.tag FROM viewer_tags vt)
+         )
+         ORDER BY p.created_at DESC LIMIT p_per_source)
+        UNION
+        (SELECT p.id FROM pool p ORDER BY COALESCE(p.likes_count, 0) DESC LIMIT p_per_source)
+    )
+    SELECT r.* FROM reels r WHERE r.id IN (SELECT id FROM candidate_ids);
+$$ LANGUAGE sql STABLE;
+
+GRANT EXECUTE ON FUNCTION get_for_you_candidates(INTEGER, INTEGER) TO authenticated;
+
+-- 5. Verification
+SELECT
+    'Reel watch history setup complete' AS status,
+    (SELECT COUNT(*) FROM reel_views) AS views,
+    (SELECT COUNT(*) FROM reel_views WHERE completed) AS completed_views;
@@ -0,0 +1,226 @@
+-- =====================================================
+-- VERIFIED REVIEWS, HOST REPLIES AND RATING AGGREGATION
+-- =====================================================
+-- Builds on database_reviews_system.sql and database_bookings_system.sql:
+--   * A review can be tied to a completed booking; such reviews are "verified"
+--   * One review per booking, one unverified review per reviewer/reviewed pair
+--   * The reviewed user can post one public reply per review
+--   * user_profiles.rating / total_reviews are always derived from reviews
+--     and cannot be written by clients directly
+
+-- 1. New columns
+ALTER TABLE reviews ADD COLUMN IF NOT EXISTS is_verified BOOLEAN DEFAULT false;
+ALTER TABLE reviews ADD COLUMN IF NOT EXISTS host_reply TEXT;
+ALTER TABLE reviews ADD COLUMN IF NOT EXISTS host_reply_at TIMESTAMP WITH TIME ZONE;
+
+-- 2. Uniqueness rules
+CREATE UNIQUE INDEX IF NOT EXISTS idx_reviews_unique_booking
+    ON reviews(booking_id) WHERE booking_id IS NOT NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_reviews_unique_unverified_pair
+    ON reviews(reviewer_id, reviewed_id) WHERE booking_id IS NULL;
+
+-- 3. Validate booking-linked reviews and set is_verified
+CREATE OR REPLACE FUNCTION validate_review_booking()
+RETURNS TRIGGER AS $$
+DECLARE
+    booking_record RECORD;
+BEGIN
+    IF NEW.booking_id IS NULL THEN
+        NEW.is_verified := false;
+        RETURN NEW;
+    END IF;
+
+    SELECT host_id, client_id, status
+    INTO booking_record
+    FROM bookings
+    WHERE id = NEW.booking_id;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Booking not found';
+    END IF;
+
+    IF booking_record.status <> 'completed' THEN
+        RAISE EXCEPTION 'Only completed bookings can be reviewed';
+    END IF;
+
+    IF booking_record.client_id <> NEW.reviewer_id OR booking_record.host_id <> NEW.reviewed_id THEN
+        RAISE EXCEPTION 'Only the client of a booking can review its host';
+    END IF;
+
+    NEW.is_verified := true;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS trigger_validate_review_booking ON reviews;
+
+CREATE TRIGGER trigger_validate_review_booking
+    BEFORE INSERT ON reviews
+    FOR EACH ROW
+    EXECUTE FUNCTION validate_review_booking();
+
+-- 4. Host replies: the reviewed user may set host_reply once, nothing else may change
+DROP POLICY IF EXISTS "Users can update own reviews" ON reviews;
+DROP POLICY IF EXISTS "Reviewed users can reply to reviews" ON reviews;
+
+CREATE POLICY "Reviewed users can reply to reviews" ON reviews
+    FOR UPDATE USING (auth.uid() = reviewed_id);
+
+CREATE OR REPLACE FUNCTION validate_review_reply()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.reviewer_id <> OLD.reviewer_id
+       OR NEW.reviewed_id <> OLD.reviewed_id
+       OR NEW.rating <> OLD.rating
+       OR NEW.comment IS DISTINCT FROM OLD.comment
+       OR NEW.booking_id IS DISTINCT FROM OLD.booking_id
+       OR NEW.is_verified IS DISTINCT FROM OLD.is_verified THEN
+        RAISE EXCEPTION 'Reviews cannot be edited';
+    END IF;
+
+    IF OLD.host_reply IS NOT NULL AND NEW.host_reply IS DISTINCT FROM OLD.host_reply THEN
+        RAISE EXCEPTION 'A review can only be replied to once';
+    END IF;
+
+    IF NEW.host_reply IS NOT NULL AND OLD.host_reply IS NULL THEN
+        NEW.host_reply_at := NOW();
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_validate_review_reply ON reviews;
+
+CREATE TRIGGER trigger_validate_review_reply
+    BEFORE UPDATE ON reviews
+    FOR EACH ROW
+    EXECUTE FUNCTION validate_review_reply();
+
+-- 5. Rating aggregation from the reviews table
+-- Recalculates both the old and new reviewed user so moves are handled too.
+CREATE OR REPLACE FUNCTION recalculate_user_rating_stats(target_user_id UUID)
+RETURNS VOID AS $$
+BEGIN
+    -- Flag the update so protect_user_rating_stats lets it through
+    PERFORM set_config('app.updating_rating_stats', 'on', true);
+
+    UPDATE user_profiles
+    SET
+        rating = stats.avg_rating,
+        total_reviews = stats.review_count
+    FROM (
+        SELECT
+            COALESCE(ROUND(AVG(rating)::numeric, 2), 0) AS avg_rating,
+            COUNT(*)::integer AS review_count
+        FROM reviews
+        WHERE reviewed_id = target_user_id
+    ) AS stats
+    WHERE id = target_user_id;
+
+    PERFORM set_config('app.updating_rating_stats', 'off', true);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION update_user_rating_stats()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF TG_OP IN ('UPDATE', 'DELETE') THEN
+        PERFORM recalculate_user_rating_stats(OLD.reviewed_id);
+    END IF;
+
+    IF TG_OP IN ('INSERT', 'UPDATE') AND (TG_OP = 'INSERT' OR NEW.reviewed_id <> OLD.reviewed_id) THEN
+        PERFORM recalculate_user_rating_stats(NEW.reviewed_id);
+    END IF;
+
+    RETURN COALESCE(NEW, OLD);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS trigger_update_user_rating_stats ON reviews;
+
+CREATE TRIGGER trigger_update_user_rating_stats
+    AFTER INSERT OR DELETE OR UPDATE ON reviews
+    FOR EACH ROW
+    EXECUTE FUNCTION update_user_rating_stats();
+
+-- 6. Keep clients from writing rating stats directly
+-- Only recalculate_user_rating_stats sets the flag checked here.
+CREATE OR REPLACE FUNCTION protect_user_rating_stats()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF COALESCE(current_setting('app.updating_rating_stats', true), 'off') <> 'on' THEN
+        NEW.rating := OLD.rating;
+        NEW.total_reviews := OLD.total_reviews;
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_protect_user_rating_stats ON user_profiles;
+
+CREATE TRIGGER trigger_protect_user_rating_stats
+    BEFORE UPDATE OF rating, total_reviews ON user_profiles
+    FOR EACH ROW
+    EXECUTE FUNCTION protect_user_rating_stats();
+
+-- 7. Backfill stats for everyone from the reviews table
+DO $$
+DECLARE
+    profile_id UUID;
+BEGIN
+    FOR profile_id IN SELECT id FROM user_profiles LOOP
+        PERFORM recalculate_user_rating_stats(profile_id);
+    END LOOP;
+END $$;
+
+-- 8. Return verification and reply data with reviews
+DROP FUNCTION IF EXISTS get_user_reviews(UUID, UUID);
+
+CREATE OR REPLACE FUNCTION get_user_reviews(target_user_id UUID, current_user_id UUID DEFAULT NULL)
+RETURNS TABLE (
+    review_id UUID,
+    reviewer_id UUID,
+    reviewer_name TEXT,
+    reviewer_avatar TEXT,
+    rating INTEGER,
+    comment TEXT,
+    created_at TIMESTAMP WITH TIME ZONE,
+    can_delete BOOLEAN,
+    booking_id UUID,
+    is_verified BOOLEAN,
+    host_reply TEXT,
+    host_reply_at TIMESTAMP WITH TIME ZONE,
+    can_reply BOOLEAN
+) AS $$
+BEGIN
+    RETURN QUERY
+    SELECT
+        r.id as review_id,
+        r.reviewer_id,
+        up.full_name as reviewer_name,
+        up.avatar as reviewer_avatar,
+        r.rating,
+        r.comment,
+        r.created_at,
+        (r.reviewer_id = current_user_id) as can_delete,
+        r.booking_id,
+        COALESCE(r.is_verified, false) as is_verified,
+        r.host_reply,
+        r.host_reply_at,
+        (r.reviewed_id = current_user_id AND r.host_reply IS NULL) as can_reply
+    FROM reviews r
+    JOIN user_profiles up ON r.reviewer_id = up.id
+    WHERE r.reviewed_id = target_user_id
+    ORDER BY r.is_verified DESC, r.created_at DESC;
+END;
+$$ LANGUAGE plpgsql;
+
+-- 9. Verify the setup
+SELECT
+    'Verified reviews setup complete' as status,
+    COUNT(*) FILTER (WHERE is_verified) as verified_reviews,
+    COUNT(*) FILTER (WHERE host_reply IS NOT NULL) as replied_reviews
+FROM reviews;
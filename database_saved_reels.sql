@@ -0,0 +1,66 @@
+-- =====================================================
+-- SAVED REELS AND COLLECTIONS
+-- =====================================================
+-- Saved reels (reel_saves, filled by toggle_reel_save) can be filed into
+-- named collections such as "Date ideas" or "Workouts". A saved reel is in
+-- at most one collection; deleting a collection keeps its reels saved.
+-- Collections and saves are only visible to their owner.
+
+-- 1. Collections
+CREATE TABLE IF NOT EXISTS reel_save_collections (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES user_profiles(id) ON DELETE CASCADE,
+    name TEXT NOT NULL CHECK (char_length(btrim(name)) BETWEEN 1 AND 50),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_reel_save_collections_name
+    ON reel_save_collections(user_id, lower(btrim(name)));
+
+ALTER TABLE reel_save_collections ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can manage own save collections" ON reel_save_collections;
+
+CREATE POLICY "Users can manage own save collections" ON reel_save_collections
+    FOR ALL USING (user_id = auth.uid())
+    WITH CHECK (user_id = auth.uid());
+
+GRANT SELECT, INSERT, UPDATE, DELETE ON reel_save_collections TO authenticated;
+
+-- 2. File saves into collections
+ALTER TABLE reel_saves ADD COLUMN IF NOT EXISTS collection_id UUID
+    REFERENCES reel_save_collections(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_reel_saves_user_collection
+    ON reel_saves(user_id, collection_id, created_at DESC);
+
+CREATE OR REPLACE FUNCTION owns_save_collection(p_collection_id UUID)
+RETURNS BOOLEAN AS $$
+    SELECT p_collection_id IS NULL OR EXISTS (
+        SELECT 1 FROM reel_save_collections
+        WHERE id = p_collection_id AND user_id = auth.uid()
+    );
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION owns_save_collection(UUID) TO authenticated;
+
+-- A save can only be filed into one of the saver's own collections
+DROP POLICY IF EXISTS "Saves use own collections" ON reel_saves;
+DROP POLICY IF EXISTS "Saves move to own collections" ON reel_saves;
+
+CREATE POLICY "Saves use own collections" ON reel_saves
+    AS RESTRICTIVE FOR INSERT
+    WITH CHECK (owns_save_collection(collection_id));
+
+CREATE POLICY "Saves move to own collections" ON reel_saves
+    AS RESTRICTIVE FOR UPDATE
+    USING (user_id = auth.uid())
+    WITH CHECK (owns_save_collection(collection_id));
+
+GRANT SELECT, INSERT, UPDATE, DELETE ON reel_saves TO authenticated;
+
+-- 3. Verification
+SELECT
+    'Saved reels setup complete' AS status,
+    (SELECT COUNT(*) FROM reel_save_collections) AS collections,
+    (SELECT COUNT(*) FROM reel_saves WHERE collection_id IS NOT NULL) AS filed_saves;
@@ -0,0 +1,205 @@
+-- =====================================================
+-- SCHEDULED MESSAGES
+-- =====================================================
+-- Messages written now and sent at a later time. They are delivered by a
+-- pg_cron job every minute, so they go out even when the sender's app is
+-- closed. While the app is open it also calls deliver_my_scheduled_messages()
+-- when one is due, which covers projects without pg_cron.
+-- Delivered messages carry client_id 'scheduled:<id>' so the unique index from
+-- database_message_outbox.sql stops a message going out twice.
+-- Delivery runs as SECURITY DEFINER, so it checks the block and suspension
+-- rules itself; requires database_user_blocks.sql and
+-- database_content_reports.sql.
+
+-- 1. Scheduled messages table
+CREATE TABLE IF NOT EXISTS scheduled_messages (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    conversation_id UUID NOT NULL REFERENCES conversations(id) ON DELETE CASCADE,
+    sender_id UUID NOT NULL REFERENCES user_profiles(id) ON DELETE CASCADE,
+    content TEXT NOT NULL,
+    message_type TEXT NOT NULL DEFAULT 'text',
+    media_url TEXT,
+    reply_to_message_id UUID REFERENCES messages(id) ON DELETE SET NULL,
+    send_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    status TEXT NOT NULL DEFAULT 'scheduled'
+        CHECK (status IN ('scheduled', 'sent', 'canceled', 'failed')),
+    sent_message_id UUID REFERENCES messages(id) ON DELETE SET NULL,
+    error_message TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- System messages are only written by the group functions, and delivery
+-- runs as definer so it would bypass the policy on messages
+ALTER TABLE scheduled_messages DROP CONSTRAINT IF EXISTS scheduled_messages_not_system;
+ALTER TABLE scheduled_messages ADD CONSTRAINT scheduled_messages_not_system
+    CHECK (message_type <> 'system');
+
+CREATE INDEX IF NOT EXISTS idx_scheduled_messages_due
+    ON scheduled_messages(send_at)
+    WHERE status = 'scheduled';
+
+CREATE INDEX IF NOT EXISTS idx_scheduled_messages_sender
+    ON scheduled_messages(sender_id, conversation_id, send_at)
+    WHERE status = 'scheduled';
+
+-- 2. Row level security: senders manage their own scheduled messages in
+-- conversations they are part of. Only pending messages can be changed.
+ALTER TABLE scheduled_messages ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own scheduled messages" ON scheduled_messages;
+DROP POLICY IF EXISTS "Participants can schedule messages" ON scheduled_messages;
+DROP POLICY IF EXISTS "Users can update own pending scheduled messages" ON scheduled_messages;
+
+CREATE POLICY "Users can view own scheduled messages" ON scheduled_messages
+    FOR SELECT USING (sender_id = auth.uid());
+
+CREATE POLICY "Participants can schedule messages" ON scheduled_messages
+    FOR INSERT WITH CHECK (
+        sender_id = auth.uid()
+        AND status = 'scheduled'
+        AND send_at > NOW()
+        AND EXISTS (
+            SELECT 1 FROM conversation_participants cp
+            WHERE cp.conversation_id = scheduled_messages.conversation_id
+              AND cp.user_id = auth.uid()
+        )
+    );
+
+CREATE POLICY "Users can update own pending scheduled messages" ON scheduled_messages
+    FOR UPDATE USING (sender_id = auth.uid() AND status = 'scheduled')
+    WITH CHECK (sender_id = auth.uid() AND status IN ('scheduled', 'canceled'));
+
+GRANT SELECT, INSERT, UPDATE ON scheduled_messages TO authenticated;
+
+-- Replies are checked when scheduling, like messages (see
+-- database_message_reactions.sql), so delivery never fails on them
+DROP TRIGGER IF EXISTS trigger_validate_scheduled_reply_to_message ON scheduled_messages;
+
+CREATE TRIGGER trigger_validate_scheduled_reply_to_message
+    BEFORE INSERT OR UPDATE OF reply_to_message_id, conversation_id ON scheduled_messages
+    FOR EACH ROW
+    EXECUTE FUNCTION validate_reply_to_message();
+
+-- 3. Send every due message, optionally for one sender only. Returns the
+-- scheduled ids with the messages they became.
+CREATE OR REPLACE FUNCTION deliver_due_scheduled_messages(p_sender_id UUID DEFAULT NULL)
+RETURNS TABLE (scheduled_id UUID, conversation_id UUID, message_id UUID) AS $$
+DECLARE
+    v_scheduled RECORD;
+    v_message_id UUID;
+BEGIN
+    FOR v_scheduled IN
+        SELECT s.*
+        FROM scheduled_messages s
+        WHERE s.status = 'scheduled'
+          AND s.send_at <= NOW()
+          AND (p_sender_id IS NULL OR s.sender_id = p_sender_id)
+        ORDER BY s.send_at
+        LIMIT 200
+        FOR UPDATE SKIP LOCKED
+    LOOP
+        -- The sender may have left the conversation since scheduling
+        IF NOT EXISTS (
+            SELECT 1 FROM conversation_participants cp
+            WHERE cp.conversation_id = v_scheduled.conversation_id
+              AND cp.user_id = v_scheduled.sender_id
+        ) THEN
+            UPDATE scheduled_messages
+            SET status = 'failed', error_message = 'Sender is no longer in the conversation', updated_at = NOW()
+            WHERE id = v_scheduled.id;
+            CONTINUE;
+        END IF;
+
+        IF is_user_suspended(v_scheduled.sender_id) THEN
+            UPDATE scheduled_messages
+            SET status = 'failed', error_message = 'Sender is suspended', updated_at = NOW()
+            WHERE id = v_scheduled.id;
+            CONTINUE;
+        END IF;
+
+        -- Same rule as the "No direct messages across blocks" policy
+        IF EXISTS (
+            SELECT 1
+            FROM conversations c
+            JOIN conversation_participants cp ON cp.conversation_id = c.id
+            WHERE c.id = v_scheduled.conversation_id
+              AND c.conversation_type = 'direct'
+              AND cp.user_id <> v_scheduled.sender_id
+              AND is_blocked_between(v_scheduled.sender_id, cp.user_id)
+        ) THEN
+            UPDATE scheduled_messages
+            SET status = 'failed', error_message = 'Recipient is blocked', updated_at = NOW()
+            WHERE id = v_scheduled.id;
+            CONTINUE;
+        END IF;
+
+        INSERT INTO messages (conversation_id, sender_id, content, message_type, media_url, reply_to_message_id, client_id)
+        VALUES (
+            v_scheduled.conversation_id,
+            v_scheduled.sender_id,
+            v_scheduled.content,
+            v_scheduled.message_type,
+            v_scheduled.media_url,
+            v_scheduled.reply_to_message_id,
+            'scheduled:' || v_scheduled.id
+        )
+        ON CONFLICT (sender_id, client_id) WHERE client_id IS NOT NULL DO NOTHING
+        RETURNING id INTO v_message_id;
+
+        IF v_message_id IS NULL THEN
+            SELECT m.id INTO v_message_id
+            FROM messages m
+            WHERE m.sender_id = v_scheduled.sender_id
+              AND m.client_id = 'scheduled:' || v_scheduled.id;
+        END IF;
+
+        UPDATE scheduled_messages
+        SET status = 'sent', sent_message_id = v_message_id, updated_at = NOW()
+        WHERE id = v_scheduled.id;
+
+        UPDATE conversations
+        SET updated_at = NOW()
+        WHERE id = v_scheduled.conversation_id;
+
+        scheduled_id := v_scheduled.id;
+        conversation_id := v_scheduled.conversation_id;
+        message_id := v_message_id;
+        RETURN NEXT;
+    END LOOP;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Local fallback used by the app: only the caller's own messages
+CREATE OR REPLACE FUNCTION deliver_my_scheduled_messages()
+RETURNS TABLE (scheduled_id UUID, conversation_id UUID, message_id UUID) AS $$
+BEGIN
+    RETURN QUERY SELECT * FROM deliver_due_scheduled_messages(auth.uid());
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION deliver_due_scheduled_messages(UUID) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION deliver_my_scheduled_messages() TO authenticated;
+
+-- 4. Server-side delivery every minute (requires pg_cron, see
+-- stories_auto_deletion_cron.sql). Skipped when the extension is missing.
+DO $$
+BEGIN
+    IF EXISTS (SELECT 1 FROM pg_available_extensions WHERE name = 'pg_cron') THEN
+        CREATE EXTENSION IF NOT EXISTS pg_cron;
+
+        PERFORM cron.unschedule(jobid) FROM cron.job WHERE jobname = 'deliver-scheduled-messages';
+        PERFORM cron.schedule(
+            'deliver-scheduled-messages',
+            '* * * * *', -- Every minute
+            'SELECT deliver_due_scheduled_messages();'
+        );
+    ELSE
+        RAISE NOTICE 'pg_cron is not available; scheduled messages are only sent while the sender has the app open';
+    END IF;
+END $$;
+
+-- 5. Verification
+SELECT
+    'Scheduled messages setup complete' AS status,
+    (SELECT COUNT(*) FROM scheduled_messages WHERE status = 'scheduled') AS pending_scheduled_messages;
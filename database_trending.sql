@@ -0,0 +1,222 @@
+-- =====================================================
+-- TRENDING SCORES FOR REELS AND POSTS
+-- =====================================================
+-- A reel's trending score adds up its likes, comments and shares, each
+-- weighted by how recently it happened (exponential decay with a half-life),
+-- plus its views decayed by the reel's age since views carry no timestamp.
+-- Posts are scored the same way from likes and comments. The trending style
+-- picks the weights:
+--   likes    - likes count most, 24 hour half-life
+--   comments - comments count most, 24 hour half-life
+--   shares   - shares count most, 24 hour half-life
+--   velocity - balanced weights, 4 hour half-life so only bursts of recent
+--              engagement rank high
+-- is_trending on reels and posts marks the top of the 'likes' ranking and
+-- is refreshed by a pg_cron job where available. Requires
+-- database_content_reports.sql, database_user_blocks.sql and
+-- database_private_accounts.sql.
+
+-- 1. Weights and decay
+CREATE OR REPLACE FUNCTION trending_style_weights(
+    p_style TEXT,
+    OUT like_weight DOUBLE PRECISION,
+    OUT comment_weight DOUBLE PRECISION,
+    OUT share_weight DOUBLE PRECISION,
+    OUT view_weight DOUBLE PRECISION,
+    OUT half_life_hours DOUBLE PRECISION
+) AS $$
+    SELECT
+        CASE p_style WHEN 'likes' THEN 3 ELSE 1 END,
+        CASE p_style WHEN 'comments' THEN 3 WHEN 'velocity' THEN 2 ELSE 1 END,
+        CASE p_style WHEN 'shares' THEN 4 WHEN 'velocity' THEN 3 ELSE 1 END,
+        CASE p_style WHEN 'velocity' THEN 0.05 ELSE 0.02 END,
+        CASE p_style WHEN 'velocity' THEN 4 ELSE 24 END;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- 1.0 for engagement happening now, 0.5 one half-life ago, and so on
+CREATE OR REPLACE FUNCTION trending_decay(p_at TIMESTAMP WITH TIME ZONE, p_half_life_hours DOUBLE PRECISION)
+RETURNS DOUBLE PRECISION AS $$
+    SELECT exp(-ln(2) * GREATEST(EXTRACT(EPOCH FROM (NOW() - p_at)), 0) / 3600 / p_half_life_hours);
+$$ LANGUAGE sql STABLE;
+
+-- Content the caller may see: not from a suspended or blocked user and not
+-- from a private account they do not follow. Without a caller (signed out,
+-- or the pg_cron refresh) only public accounts count. Hidden items are
+-- filtered by the queries themselves.
+CREATE OR REPLACE FUNCTION is_trending_candidate(p_owner UUID)
+RETURNS BOOLEAN AS $$
+    SELECT NOT is_user_suspended(p_owner)
+        AND CASE
+            WHEN auth.uid() IS NULL THEN NOT is_private_account(p_owner)
+            ELSE can_view_user_content(auth.uid(), p_owner) AND NOT is_blocked_between(auth.uid(), p_owner)
+        END;
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- 2. Reels
+CREATE OR REPLACE FUNCTION get_trending_reels(
+    p_style TEXT DEFAULT 'likes',
+    p_limit INTEGER DEFAULT 20,
+    p_offset INTEGER DEFAULT 0,
+    p_days INTEGER DEFAULT 7
+)
+RETURNS TABLE (reel_id UUID, trending_score DOUBLE PRECISION) AS $$
+DECLARE
+    w RECORD;
+BEGIN
+    SELECT * INTO w FROM trending_style_weights(p_style);
+
+    RETURN QUERY
+    WITH candidates AS (
+        SELECT r.id, r.created_at, COALESCE(r.view_count, 0) AS view_count
+        FROM reels r
+        WHERE NOT r.is_hidden
+          AND COALESCE(r.status, 'active') = 'active'
+          AND r.created_at >= NOW() - make_interval(days => p_days)
+          AND is_trending_candidate(r.user_id)
+    ),
+    -- Reel likes live in reel_likes, older clients wrote them to likes
+    reel_like_events AS (
+        SELECT rl.reel_id, rl.user_id, MIN(rl.created_at) AS created_at
+        FROM (
+            SELECT l.reel_id, l.user_id, l.created_at FROM reel_likes l
+            UNION ALL
+            SELECT l.reel_id, l.user_id, l.created_at FROM likes l WHERE l.reel_id IS NOT NULL
+        ) rl
+        JOIN candidates c ON c.id = rl.reel_id
+        GROUP BY rl.reel_id, rl.user_id
+    ),
+    like_scores AS (
+        SELECT e.reel_id AS id, SUM(trending_decay(e.created_at, w.half_life_hours)) AS score
+        FROM reel_like_events e
+        GROUP BY e.reel_id
+    ),
+    comment_scores AS (
+        SELECT cm.post_id AS id, SUM(trending_decay(cm.created_at, w.half_life_hours)) AS score
+        FROM comments cm
+        JOIN candidates c ON c.id = cm.post_id
+        WHERE NOT cm.is_hidden
+        GROUP BY cm.post_id
+    ),
+    share_scores AS (
+        SELECT s.reel_id AS id, SUM(trending_decay(s.created_at, w.half_life_hours)) AS score
+        FROM reel_shares s
+        JOIN candidates c ON c.id = s.reel_id
+        GROUP BY s.reel_id
+    )
+    SELECT
+        c.id,
+        (w.like_weight * COALESCE(ls.score, 0)
+            + w.comment_weight * COALESCE(cs.score, 0)
+            + w.share_weight * COALESCE(ss.score, 0)
+            + w.view_weight * c.view_count * trending_decay(c.created_at, w.half_life_hours)
+        )::DOUBLE PRECISION AS trending_score
+    FROM candidates c
+    LEFT JOIN like_scores ls ON ls.id = c.id
+    LEFT JOIN comment_scores cs ON cs.id = c.id
+    LEFT JOIN share_scores ss ON ss.id = c.id
+    ORDER BY 2 DESC, c.created_at DESC
+    LIMIT p_limit OFFSET p_offset;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+-- 3. Posts (no shares or views, so only likes and comments count)
+CREATE OR REPLACE FUNCTION get_trending_posts(
+    p_style TEXT DEFAULT 'likes',
+    p_limit INTEGER DEFAULT 20,
+    p_offset INTEGER DEFAULT 0,
+    p_days INTEGER DEFAULT 7
+)
+RETURNS TABLE (post_id UUID, trending_score DOUBLE PRECISION) AS $$
+DECLARE
+    w RECORD;
+BEGIN
+    SELECT * INTO w FROM trending_style_weights(p_style);
+
+    RETURN QUERY
+    WITH candidates AS (
+        SELECT p.id, p.created_at
+        FROM posts p
+        WHERE NOT p.is_hidden
+          AND p.created_at >= NOW() - make_interval(days => p_days)
+          AND is_trending_candidate(p.user_id)
+    ),
+    like_scores AS (
+        SELECT l.post_id AS id, SUM(trending_decay(l.created_at, w.half_life_hours)) AS score
+        FROM likes l
+        JOIN candidates c ON c.id = l.post_id
+        GROUP BY l.post_id
+    ),
+    comment_scores AS (
+        SELECT cm.post_id AS id, SUM(trending_decay(cm.created_at, w.half_life_hours)) AS score
+        FROM comments cm
+        JOIN candidates c ON c.id = cm.post_id
+        WHERE NOT cm.is_hidden
+        GROUP BY cm.post_id
+    )
+    SELECT
+        c.id,
+        (w.like_weight * COALESCE(ls.score, 0)
+            + w.comment_weight * COALESCE(cs.score, 0)
+        )::DOUBLE PRECISION AS trending_score
+    FROM candidates c
+    LEFT JOIN like_scores ls ON ls.id = c.id
+    LEFT JOIN comment_scores cs ON cs.id = c.id
+    ORDER BY 2 DESC, c.created_at DESC
+    LIMIT p_limit OFFSET p_offset;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION get_trending_reels(TEXT, INTEGER, INTEGER, INTEGER) TO anon, authenticated;
+-- Post scores only feed the is_trending flags below
+REVOKE EXECUTE ON FUNCTION get_trending_posts(TEXT, INTEGER, INTEGER, INTEGER) FROM PUBLIC;
+
+-- 4. is_trending flags: the top 50 of the last 7 days with a meaningful score
+ALTER TABLE reels ADD COLUMN IF NOT EXISTS is_trending BOOLEAN NOT NULL DEFAULT false;
+
+CREATE INDEX IF NOT EXISTS idx_reels_trending ON reels(is_trending, created_at DESC);
+
+CREATE OR REPLACE FUNCTION refresh_trending_flags()
+RETURNS VOID AS $$
+BEGIN
+    -- Runs without a caller, so only public content is flagged
+    WITH top AS (
+        SELECT t.reel_id FROM get_trending_reels('likes', 50, 0, 7) t WHERE t.trending_score >= 10
+    )
+    UPDATE reels SET is_trending = id IN (SELECT reel_id FROM top)
+    WHERE is_trending OR id IN (SELECT reel_id FROM top);
+
+    WITH top AS (
+        SELECT t.post_id FROM get_trending_posts('likes', 50, 0, 7) t WHERE t.trending_score >= 10
+    )
+    UPDATE posts SET is_trending = id IN (SELECT post_id FROM top)
+    WHERE is_trending OR id IN (SELECT post_id FROM top);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION refresh_trending_flags() FROM PUBLIC;
+
+-- 5. Refresh the flags every 15 minutes (requires pg_cron, see
+-- stories_auto_deletion_cron.sql). Skipped when the extension is missing.
+DO $$
+BEGIN
+    IF EXISTS (SELECT 1 FROM pg_available_extensions WHERE name = 'pg_cron') THEN
+        CREATE EXTENSION IF NOT EXISTS pg_cron;
+
+        PERFORM cron.unschedule(jobid) FROM cron.job WHERE jobname = 'refresh-trending-flags';
+        PERFORM cron.schedule(
+            'refresh-trending-flags',
+            '*/15 * * * *', -- Every 15 minutes
+            'SELECT refresh_trending_flags();'
+        );
+    ELSE
+        RAISE NOTICE 'pg_cron is not available; run SELECT refresh_trending_flags(); periodically to update is_trending';
+    END IF;
+END $$;
+
+SELECT refresh_trending_flags();
+
+-- 6. Verification
+SELECT
+    'Trending scores setup complete' AS status,
+    (SELECT COUNT(*) FROM reels WHERE is_trending) AS trending_reels,
+    (SELECT COUNT(*) FROM posts WHERE is_trending) AS trending_posts;
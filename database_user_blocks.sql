@@ -0,0 +1,201 @@
+-- =====================================================
+-- BLOCKING AND MUTING USERS
+-- =====================================================
+-- Blocking works both ways: neither user sees the other's posts, reels,
+-- stories or comments, and the blocked user cannot follow, review, start a
+-- conversation with or message the person who blocked them. Existing follows
+-- between the two are removed. Only the blocker can see the block.
+-- Muting only hides a user's posts, reels and stories from the muter; the
+-- muted user is not affected and is never told.
+-- The restrictive policies below are added on top of the existing ones, so
+-- they only ever take access away. Section 6 adds per-viewer fields so
+-- the app can leave out blocked and muted users in its queries.
+
+-- 1. Tables
+CREATE TABLE IF NOT EXISTS user_blocks (
+    blocker_id UUID NOT NULL REFERENCES user_profiles(id) ON DELETE CASCADE,
+    blocked_id UUID NOT NULL REFERENCES user_profiles(id) ON DELETE CASCADE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    PRIMARY KEY (blocker_id, blocked_id),
+    CHECK (blocker_id <> blocked_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_user_blocks_blocked ON user_blocks(blocked_id);
+
+CREATE TABLE IF NOT EXISTS user_mutes (
+    muter_id UUID NOT NULL REFERENCES user_profiles(id) ON DELETE CASCADE,
+    muted_id UUID NOT NULL REFERENCES user_profiles(id) ON DELETE CASCADE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    PRIMARY KEY (muter_id, muted_id),
+    CHECK (muter_id <> muted_id)
+);
+
+-- 2. Row level security: people manage their own blocks and mutes
+ALTER TABLE user_blocks ENABLE ROW LEVEL SECURITY;
+ALTER TABLE user_mutes ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own blocks" ON user_blocks;
+DROP POLICY IF EXISTS "Users can block others" ON user_blocks;
+DROP POLICY IF EXISTS "Users can unblock" ON user_blocks;
+DROP POLICY IF EXISTS "Users can view own mutes" ON user_mutes;
+DROP POLICY IF EXISTS "Users can mute others" ON user_mutes;
+DROP POLICY IF EXISTS "Users can unmute" ON user_mutes;
+
+CREATE POLICY "Users can view own blocks" ON user_blocks
+    FOR SELECT USING (blocker_id = auth.uid());
+
+CREATE POLICY "Users can block others" ON user_blocks
+    FOR INSERT WITH CHECK (blocker_id = auth.uid());
+
+CREATE POLICY "Users can unblock" ON user_blocks
+    FOR DELETE USING (blocker_id = auth.uid());
+
+CREATE POLICY "Users can view own mutes" ON user_mutes
+    FOR SELECT USING (muter_id = auth.uid());
+
+CREATE POLICY "Users can mute others" ON user_mutes
+    FOR INSERT WITH CHECK (muter_id = auth.uid());
+
+CREATE POLICY "Users can unmute" ON user_mutes
+    FOR DELETE USING (muter_id = auth.uid());
+
+GRANT SELECT, INSERT, DELETE ON user_blocks TO authenticated;
+GRANT SELECT, INSERT, DELETE ON user_mutes TO authenticated;
+
+-- 3. Helpers
+CREATE OR REPLACE FUNCTION is_blocked_between(p_user_a UUID, p_user_b UUID)
+RETURNS BOOLEAN AS $$
+    SELECT EXISTS (
+        SELECT 1 FROM user_blocks
+        WHERE (blocker_id = p_user_a AND blocked_id = p_user_b)
+           OR (blocker_id = p_user_b AND blocked_id = p_user_a)
+    );
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- Whether the caller and p_user_id are blocked in either direction. Clients
+-- and policies use this; is_blocked_between takes any pair of users and is
+-- only for the SECURITY DEFINER functions.
+CREATE OR REPLACE FUNCTION is_blocked_with(p_user_id UUID)
+RETURNS BOOLEAN AS $$
+    SELECT auth.uid() IS NOT NULL AND is_blocked_between(auth.uid(), p_user_id);
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- Everyone the caller blocked or was blocked by
+CREATE OR REPLACE FUNCTION get_blocked_user_ids()
+RETURNS SETOF UUID AS $$
+    SELECT blocked_id FROM user_blocks WHERE blocker_id = auth.uid()
+    UNION
+    SELECT blocker_id FROM user_blocks WHERE blocked_id = auth.uid();
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- Block a user and remove follows in both directions
+CREATE OR REPLACE FUNCTION block_user(p_user_id UUID)
+RETURNS VOID AS $$
+BEGIN
+    IF auth.uid() IS NULL OR p_user_id = auth.uid() THEN
+        RAISE EXCEPTION 'Cannot block this user';
+    END IF;
+
+    INSERT INTO user_blocks (blocker_id, blocked_id)
+    VALUES (auth.uid(), p_user_id)
+    ON CONFLICT DO NOTHING;
+
+    DELETE FROM followers
+    WHERE (follower_id = auth.uid() AND following_id = p_user_id)
+       OR (follower_id = p_user_id AND following_id = auth.uid());
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION is_blocked_between(UUID, UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION is_blocked_with(UUID) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION get_blocked_user_ids() TO authenticated;
+GRANT EXECUTE ON FUNCTION block_user(UUID) TO authenticated;
+
+-- 4. No follows, reviews or direct conversations across a block
+DROP POLICY IF EXISTS "No follows across blocks" ON followers;
+DROP POLICY IF EXISTS "No reviews across blocks" ON reviews;
+DROP POLICY IF EXISTS "No conversations across blocks" ON conversation_participants;
+DROP POLICY IF EXISTS "No direct messages across blocks" ON messages;
+
+CREATE POLICY "No follows across blocks" ON followers
+    AS RESTRICTIVE FOR INSERT
+    WITH CHECK (NOT is_blocked_with(following_id));
+
+CREATE POLICY "No reviews across blocks" ON reviews
+    AS RESTRICTIVE FOR INSERT
+    WITH CHECK (NOT is_blocked_with(reviewed_id));
+
+CREATE POLICY "No conversations across blocks" ON conversation_participants
+    AS RESTRICTIVE FOR INSERT
+    WITH CHECK (user_id = auth.uid() OR NOT is_blocked_with(user_id));
+
+CREATE POLICY "No direct messages across blocks" ON messages
+    AS RESTRICTIVE FOR INSERT
+    WITH CHECK (
+        NOT EXISTS (
+            SELECT 1
+            FROM conversations c
+            JOIN conversation_participants cp ON cp.conversation_id = c.id
+            WHERE c.id = messages.conversation_id
+              AND c.conversation_type = 'direct'
+              AND cp.user_id <> messages.sender_id
+              AND is_blocked_with(cp.user_id)
+        )
+    );
+
+-- 5. Hide content across a block
+DROP POLICY IF EXISTS "Hide posts across blocks" ON posts;
+DROP POLICY IF EXISTS "Hide reels across blocks" ON reels;
+DROP POLICY IF EXISTS "Hide stories across blocks" ON stories;
+DROP POLICY IF EXISTS "Hide comments across blocks" ON comments;
+
+CREATE POLICY "Hide posts across blocks" ON posts
+    AS RESTRICTIVE FOR SELECT
+    USING (NOT is_blocked_with(user_id));
+
+CREATE POLICY "Hide reels across blocks" ON reels
+    AS RESTRICTIVE FOR SELECT
+    USING (NOT is_blocked_with(user_id));
+
+CREATE POLICY "Hide stories across blocks" ON stories
+    AS RESTRICTIVE FOR SELECT
+    USING (NOT is_blocked_with(user_id));
+
+CREATE POLICY "Hide comments across blocks" ON comments
+    AS RESTRICTIVE FOR SELECT
+    USING (NOT is_blocked_with(user_id));
+
+-- 6. Computed fields for filtering lists in the query
+-- PostgREST exposes these as columns, e.g. posts?is_muted=is.false, so lists
+-- are filtered before paging instead of dropping rows from each page.
+CREATE OR REPLACE FUNCTION is_muted(posts)
+RETURNS BOOLEAN AS $$
+    SELECT EXISTS (SELECT 1 FROM user_mutes WHERE muter_id = auth.uid() AND muted_id = $1.user_id);
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION is_muted(reels)
+RETURNS BOOLEAN AS $$
+    SELECT EXISTS (SELECT 1 FROM user_mutes WHERE muter_id = auth.uid() AND muted_id = $1.user_id);
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION is_muted(stories)
+RETURNS BOOLEAN AS $$
+    SELECT EXISTS (SELECT 1 FROM user_mutes WHERE muter_id = auth.uid() AND muted_id = $1.user_id);
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- Blocked in either direction with the caller
+CREATE OR REPLACE FUNCTION is_blocked(user_profiles)
+RETURNS BOOLEAN AS $$
+    SELECT is_blocked_with($1.id);
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION is_muted(posts) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION is_muted(reels) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION is_muted(stories) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION is_blocked(user_profiles) TO anon, authenticated;
+
+-- 7. Verification
+SELECT
+    'User blocks setup complete' AS status,
+    (SELECT COUNT(*) FROM user_blocks) AS blocks,
+    (SELECT COUNT(*) FROM user_mutes) AS mutes;
@@ -0,0 +1,35 @@
+-- =====================================================
+-- VOICE MESSAGE METADATA
+-- =====================================================
+-- Voice notes keep their length and a compact waveform with the message so
+-- bubbles can draw the real shape of the recording before the audio loads.
+-- The waveform is a short list of levels from 0 (silence) to 100 (loudest).
+-- transcript stays NULL until speech-to-text is added.
+
+-- 1. Columns
+ALTER TABLE messages ADD COLUMN IF NOT EXISTS duration INTEGER;
+ALTER TABLE messages ADD COLUMN IF NOT EXISTS waveform SMALLINT[];
+ALTER TABLE messages ADD COLUMN IF NOT EXISTS transcript TEXT;
+
+-- 2. Keep waveforms small and in range
+ALTER TABLE messages DROP CONSTRAINT IF EXISTS messages_waveform_check;
+
+ALTER TABLE messages ADD CONSTRAINT messages_waveform_check CHECK (
+    waveform IS NULL OR (
+        array_length(waveform, 1) <= 128
+        AND 0 <= ALL(waveform)
+        AND 100 >= ALL(waveform)
+    )
+);
+
+ALTER TABLE messages DROP CONSTRAINT IF EXISTS messages_duration_check;
+
+ALTER TABLE messages ADD CONSTRAINT messages_duration_check CHECK (
+    duration IS NULL OR duration >= 0
+);
+
+-- 3. Verification
+SELECT
+    'Voice message metadata setup complete' AS status,
+    (SELECT COUNT(*) FROM messages WHERE message_type = 'voice') AS voice_messages,
+    (SELECT COUNT(*) FROM messages WHERE waveform IS NOT NULL) AS with_waveform;
@@ -0,0 +1,51 @@
+import { useEffect, useRef } from 'react';
+import { supabase } from '@/app/lib/supabase';
+import { MessageReactionUpdate, MessageReceiptUpdate } from '@/types';
+import { debugLogger } from '@/utils/debugLogger';
+import { getConversationChannelName } from '@/utils/conversationBroadcast';
+import { RECEIPTS_BROADCAST_EVENT } from '@/utils/messageReceipts';
+import { REACTIONS_BROADCAST_EVENT } from '@/utils/messageReactions';
+
+interface ConversationBroadcastHandlers {
+  onReceipts?: (updates: MessageReceiptUpdate[]) => void;
+  onReaction?: (update: MessageReactionUpdate) => void;
+}
+
+// Listen for changes pushed by other participants of a conversation:
+// delivery and read receipts, and reactions. Changes made on this device are
+// broadcast by dataService.
+export const useConversationBroadcast = (
+  conversationId: string | null | undefined,
+  handlers: ConversationBroadcastHandlers
+) => {
+  const handlersRef = useRef(handlers);
+  handlersRef.current = handlers;
+
+  useEffect(() => {
+    if (!conversationId) return;
+
+    const channel = supabase
+      .channel(getConversationChannelName(conversationId), {
+        config: { broadcast: { self: false } },
+      })
+      .on('broadcast', { event: RECEIPTS_BROADCAST_EVENT }, ({ payload }) => {
+        if (payload?.conversationId !== conversationId || !Array.isArray(payload.updates)) return;
+
+        debugLogger.info('CONVERSATION_BROADCAST', 'RECEIPTS_RECEIVED', `Received ${payload.updates.length} receipt updates`, { conversationId });
+        handlersRef.current.onReceipts?.(payload.updates);
+      })
+      .on('broadcast', { event: REACTIONS_BROADCAST_EVENT }, ({ payload }) => {
+        if (payload?.conversationId !== conversationId || !payload.messageId) return;
+
+        debugLogger.info('CONVERSATION_BROADCAST', 'REACTION_RECEIVED', 'Received reaction update', { messageId: payload.messageId });
+        handlersRef.current.onReaction?.(payload);
+      })
+      .subscribe((status) => {
+        debugLogger.info('CONVERSATION_BROADCAST', 'SUBSCRIPTION_STATUS', `Conversation subscription status: ${status}`);
+      });
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [conversationId]);
+};
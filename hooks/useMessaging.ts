@@ -1,10 +1,11 @@
 import { useState, useEffect, useCallback, useRef } from 'react';
 import { supabase } from '@/app/lib/supabase';
-import { dataService } from '@/services/dataService';
+import { dataService, MESSAGE_PAGE_SIZE } from '@/services/dataService';
 import { Message, Conversation } from '@/types';
 import { useUser } from '@/contexts/UserContext';
 import { debug, useDebugLogger } from '@/utils/debugLogger';
 import { notificationService, notificationHelpers } from '@/services/notificationService';
+import { MessageOptimizer } from '@/utils/messageOptimizer';
 
 interface UseMessagingProps {
   conversationId?: string;
@@ -27,6 +28,8 @@ export const useMessaging = ({ conversationId, autoMarkAsRead = true }: UseMessa
   const [error, setError] = useState<string | null>(null);
   const [isConnected, setIsConnected] = useState(false);
   const [typingUsers, setTypingUsers] = useState<TypingUser[]>([]);
+  const [hasMoreMessages, setHasMoreMessages] = useState(false);
+  const [loadingOlder, setLoadingOlder] = useState(false);
   
   const messageChannelRef = useRef<any>(null);
   const typingChannelRef = useRef<any>(null);
@@ -54,7 +57,7 @@ export const useMessaging = ({ conversationId, autoMarkAsRead = true }: UseMessa
     }
   }, [currentUser?.id, debugLogger]);
 
-  // Load messages for a conversation
+  // Load the newest page of messages for a conversation (oldest first in state)
   const loadMessages = useCallback(async (convId: string) => {
     if (!currentUser?.id || !convId) return;
 
@@ -63,8 +66,19 @@ export const useMessaging = ({ conversationId, autoMarkAsRead = true }: UseMessa
       setError(null);
       debugLogger.process('MESSAGING', 'LOAD_MESSAGES', `Loading messages for conversation: ${convId}`);
 
-      const messages = await dataService.message.getMessages(convId, currentUser.id);
-      setMessages(messages);
+      // Show cached history straight away while the newest page loads
+      const cached = MessageOptimizer.getCachedMessages(convId);
+      if (cached) {
+        setMessages([...cached].reverse());
+      }
+
+      const page = await dataService.message.getMessages(convId, currentUser.id);
+      const messages = MessageOptimizer.cacheMessagePage(convId, page, {
+        older: false,
+        hasMore: page.length === MESSAGE_PAGE_SIZE,
+      });
+      setMessages([...messages].reverse());
+      setHasMoreMessages(MessageOptimizer.hasMoreCachedHistory(convId));
 
       // Auto-mark as read if enabled
       if (autoMarkAsRead) {
@@ -81,6 +95,32 @@ export const useMessaging = ({ conversationId, autoMarkAsRead = true }: UseMessa
     }
   }, [currentUser?.id, autoMarkAsRead, debugLogger]);
 
+  // Load the page of messages before the oldest one shown
+  const loadOlderMessages = useCallback(async () => {
+    if (!currentUser?.id || !conversationId || !hasMoreMessages || loadingOlder) return;
+
+    const cursor = MessageOptimizer.getOlderCursor(messages);
+    if (!cursor) return;
+
+    try {
+      setLoadingOlder(true);
+      debugLogger.process('LOAD_OLDER_MESSAGES', `Loading messages before ${cursor.createdAt}`);
+
+      const older = await dataService.message.getOlderMessages(conversationId, currentUser.id, cursor);
+      const hasMore = older.length === MESSAGE_PAGE_SIZE;
+
+      MessageOptimizer.cacheMessagePage(conversationId, older, { older: true, hasMore });
+      setMessages(prev => MessageOptimizer.mergeMessages(prev, older, true));
+      setHasMoreMessages(hasMore);
+
+      debugLogger.success('LOAD_OLDER_MESSAGES_SUCCESS', `Loaded ${older.length} older messages`);
+    } catch (err) {
+      debugLogger.error('LOAD_OLDER_MESSAGES_ERROR', 'Failed to load older messages', err);
+    } finally {
+      setLoadingOlder(false);
+    }
+  }, [currentUser?.id, conversationId, hasMoreMessages, loadingOlder, messages, debugLogger]);
+
   // Send a message
   const sendMessage = useCallback(async (content: string, messageType: string = 'text', sharedPost?: any, sharedReel?: any) => {
     if (!currentUser?.id || !conversationId || !content.trim()) return null;
@@ -99,7 +139,8 @@ export const useMessaging = ({ conversationId, autoMarkAsRead = true }: UseMessa
 
       if (message) {
         // Add message to local state immediately for optimistic UI
-        setMessages(prev => [...prev, message]);
+        setMessages(prev => MessageOptimizer.mergeMessages(prev, [message], true));
+        MessageOptimizer.addMessageToCache(conversationId, message);
         debugLogger.success('MESSAGING', 'SEND_MESSAGE_SUCCESS', 'Message sent successfully');
         
         // Update conversations list if it includes this conversation
@@ -181,6 +222,9 @@ export const useMessaging = ({ conversationId, autoMarkAsRead = true }: UseMessa
       if (success) {
         // Remove message from local state
         setMessages(prev => prev.filter(msg => msg.id !== messageId));
+        if (conversationId) {
+          MessageOptimizer.removeMessageFromCache(conversationId, messageId);
+        }
         debugLogger.success('MESSAGING', 'DELETE_MESSAGE_SUCCESS', 'Message deleted successfully');
       }
 
@@ -191,7 +235,7 @@ export const useMessaging = ({ conversationId, autoMarkAsRead = true }: UseMessa
       debugLogger.error('MESSAGING', 'DELETE_MESSAGE_ERROR', errorMessage, err);
       return false;
     }
-  }, [currentUser?.id, debugLogger]);
+  }, [currentUser?.id, conversationId, debugLogger]);
 
   // Send typing indicator
   const sendTypingIndicator = useCallback(() => {
@@ -313,7 +357,10 @@ export const useMessaging = ({ conversationId, autoMarkAsRead = true }: UseMessa
 
           // Only add if it's not from the current user (to avoid duplicates from optimistic updates)
           if (newMessage.senderId !== currentUser.id) {
-            setMessages(prev => [...prev, newMessage]);
+            setMessages(prev => MessageOptimizer.mergeMessages(prev, [newMessage], true));
+            if (newMessage.conversationId) {
+              MessageOptimizer.addMessageToCache(newMessage.conversationId, newMessage);
+            }
             
             // Update conversations list
             setConversations(prev => prev.map(conv => 
@@ -359,6 +406,9 @@ export const useMessaging = ({ conversationId, autoMarkAsRead = true }: UseMessa
           debugLogger.info('MESSAGING', 'REALTIME_MESSAGE_DELETE', 'Message deleted', { messageId: payload.old.id });
           
           setMessages(prev => prev.filter(msg => msg.id !== payload.old.id));
+          if (conversationId) {
+            MessageOptimizer.removeMessageFromCache(conversationId, payload.old.id);
+          }
         }
       )
       .subscribe((status) => {
@@ -430,6 +480,8 @@ export const useMessaging = ({ conversationId, autoMarkAsRead = true }: UseMessa
     loading,
     error,
     isConnected,
+    hasMoreMessages,
+    loadingOlder,
     
     // Actions
     sendMessage,
@@ -438,6 +490,7 @@ export const useMessaging = ({ conversationId, autoMarkAsRead = true }: UseMessa
     markAsRead,
     loadConversations,
     loadMessages,
+    loadOlderMessages,
     handleTyping,
     sendTypingIndicator,
     stopTypingIndicator,
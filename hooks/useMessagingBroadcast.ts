@@ -17,10 +17,11 @@ const checkDatabaseHealth = async () => {
     return { healthy: false, error: error.message || 'Connection timeout', duration: 3000 };
   }
 };
-import { dataService } from '@/services/dataService';
+import { dataService, MESSAGE_PAGE_SIZE } from '@/services/dataService';
 import { Message, Conversation } from '@/types';
 import { useUser } from '@/contexts/UserContext';
 import { useDebugLogger } from '@/utils/debugLogger';
+import { MessageOptimizer } from '@/utils/messageOptimizer';
 import NetInfo from '@react-native-community/netinfo';
 
 interface UseMessagingProps {
@@ -45,6 +46,8 @@ export const useMessaging = ({ conversationId, autoMarkAsRead = true }: UseMessa
   const [isConnected, setIsConnected] = useState(false);
   const [networkStatus, setNetworkStatus] = useState<boolean>(true);
   const [typingUsers, setTypingUsers] = useState<TypingUser[]>([]);
+  const [hasMoreMessages, setHasMoreMessages] = useState(false);
+  const [loadingOlder, setLoadingOlder] = useState(false);
   
   const channelRef = useRef<any>(null);
   const typingTimeoutRef = useRef<NodeJS.Timeout | null>(null);
@@ -89,8 +92,20 @@ export const useMessaging = ({ conversationId, autoMarkAsRead = true }: UseMessa
       setError(null);
       debugLogger.info('LOAD_MESSAGES_START', `Loading messages for conversation: ${targetConversationId}`);
 
-      const messages = await dataService.message.getMessages(targetConversationId, currentUser.id);
-      setMessages(messages);
+      // Show cached history straight away while the newest page loads
+      const cached = MessageOptimizer.getCachedMessages(targetConversationId);
+      if (cached) {
+        setMessages([...cached].reverse());
+      }
+
+      // Newest page first; state is kept oldest first for rendering
+      const page = await dataService.message.getMessages(targetConversationId, currentUser.id);
+      const messages = MessageOptimizer.cacheMessagePage(targetConversationId, page, {
+        older: false,
+        hasMore: page.length === MESSAGE_PAGE_SIZE,
+      });
+      setMessages([...messages].reverse());
+      setHasMoreMessages(MessageOptimizer.hasMoreCachedHistory(targetConversationId));
 
       if (autoMarkAsRead) {
         await dataService.message.markAsRead(targetConversationId, currentUser.id);
@@ -107,6 +122,33 @@ export const useMessaging = ({ conversationId, autoMarkAsRead = true }: UseMessa
     }
   }, [currentUser?.id, conversationId, autoMarkAsRead, debugLogger]);
 
+  // Load the page of messages before the oldest one shown
+  const loadOlderMessages = useCallback(async () => {
+    if (!currentUser?.id || !conversationId || !hasMoreMessages || loadingOlder) return;
+
+    const cursor = MessageOptimizer.getOlderCursor(messages);
+    if (!cursor) return;
+
+    try {
+      setLoadingOlder(true);
+      debugLogger.info('LOAD_OLDER_MESSAGES_START', `Loading messages before ${cursor.createdAt}`);
+
+      const older = await dataService.message.getOlderMessages(conversationId, currentUser.id, cursor);
+      const hasMore = older.length === MESSAGE_PAGE_SIZE;
+
+      MessageOptimizer.cacheMessagePage(conversationId, older, { older: true, hasMore });
+      setMessages(prev => MessageOptimizer.mergeMessages(prev, older, true));
+      setHasMoreMessages(hasMore);
+
+      debugLogger.info('LOAD_OLDER_MESSAGES_SUCCESS', `Loaded ${older.length} older messages`);
+    } catch (err: any) {
+      debugLogger.info('LOAD_OLDER_MESSAGES_ERROR', 'Failed to load older messages', err);
+      console.error('Load older messages error:', err);
+    } finally {
+      setLoadingOlder(false);
+    }
+  }, [currentUser?.id, conversationId, hasMoreMessages, loadingOlder, messages, debugLogger]);
+
   // Send a message using broadcast
   const sendMessage = useCallback(async (content: string, messageType: string = 'text') => {
     if (!currentUser?.id || !conversationId || !content.trim()) {
@@ -127,7 +169,8 @@ export const useMessaging = ({ conversationId, autoMarkAsRead = true }: UseMessa
 
       if (message) {
         // Add message to local state immediately for optimistic UI
-        setMessages(prev => [...prev, message]);
+        setMessages(prev => MessageOptimizer.mergeMessages(prev, [message], true));
+        MessageOptimizer.addMessageToCache(conversationId, message);
         debugLogger.info('SEND_MESSAGE_SUCCESS', 'Message sent successfully');
         
         // Update conversations list
@@ -216,6 +259,9 @@ export const useMessaging = ({ conversationId, autoMarkAsRead = true }: UseMessa
       if (success) {
         // Remove from local state
         setMessages(prev => prev.filter(msg => msg.id !== messageId));
+        if (conversationId) {
+          MessageOptimizer.removeMessageFromCache(conversationId, messageId);
+        }
         debugLogger.info('DELETE_MESSAGE_SUCCESS', 'Message deleted successfully');
 
         // Broadcast deletion to other participants
@@ -444,8 +490,9 @@ export const useMessaging = ({ conversationId, autoMarkAsRead = true }: UseMessa
               setMessages(prev => {
                 // Avoid duplicates
                 if (prev.some(msg => msg.id === message.id)) return prev;
-                return [...prev, message];
+                return MessageOptimizer.mergeMessages(prev, [message], true);
               });
+              MessageOptimizer.addMessageToCache(message.conversationId, message);
               
               // Update conversations list
               setConversations(prev => prev.map(conv => 
@@ -478,6 +525,9 @@ export const useMessaging = ({ conversationId, autoMarkAsRead = true }: UseMessa
             // Only process if it's not from current user
             if (userId !== currentUser.id) {
               setMessages(prev => prev.filter(msg => msg.id !== messageId));
+              if (conversationId) {
+                MessageOptimizer.removeMessageFromCache(conversationId, messageId);
+              }
             }
           } catch (err) {
             debugLogger.info('PROCESS_DELETE_ERROR', 'Error processing message deletion', err);
@@ -623,10 +673,13 @@ export const useMessaging = ({ conversationId, autoMarkAsRead = true }: UseMessa
     error,
     isConnected: networkStatus && isConnected, // Combined connection status
     typingUsers,
+    hasMoreMessages,
+    loadingOlder,
     
     // Actions
     loadConversations,
     loadMessages,
+    loadOlderMessages,
     sendMessage,
     createConversation,
     deleteMessage,
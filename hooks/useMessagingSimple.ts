@@ -1,8 +1,9 @@
-import React, { useState, useCallback, useRef, useEffect } from 'react';
+import React, { useState, useCallback, useRef, useEffect, useMemo } from 'react';
 import { supabase } from '@/app/lib/supabase';
 import { Message, Conversation } from '@/types';
 import { useUser } from '@/contexts/UserContext';
 import { dataService } from '@/services/dataService';
+import { messageOutbox } from '@/services/messageOutbox';
 import { useDebugLogger } from '@/utils/debugLogger';
 import NetInfo from '@react-native-community/netinfo';
 
@@ -16,6 +17,7 @@ export const useMessaging = ({ conversationId, autoMarkAsRead = true }: UseMessa
   const debugLogger = useDebugLogger('useMessaging');
   
   const [messages, setMessages] = useState<Message[]>([]);
+  const [outboxMessages, setOutboxMessages] = useState<Message[]>([]);
   const [conversations, setConversations] = useState<Conversation[]>([]);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -152,28 +154,47 @@ export const useMessaging = ({ conversationId, autoMarkAsRead = true }: UseMessa
       return null;
     }
 
-    if (!networkStatus) {
-      debugLogger.info('MESSAGING', 'SEND_MESSAGE_SKIP', 'No network connection');
-      setError('No network connection. Message will be sent when connection is restored.');
-      return null;
-    }
-
     try {
       setError(null);
-      debugLogger.info('MESSAGING', 'SEND_MESSAGE_START', `Sending message to conversation: ${conversationId}`);
+      debugLogger.info('MESSAGING', 'SEND_MESSAGE_START', `Queueing message for conversation: ${conversationId}`);
 
-      const message = await dataService.message.sendMessage(
+      // The outbox shows the message as pending and sends it once online
+      const message = await messageOutbox.enqueue({
         conversationId,
-        currentUser.id,
-        content.trim(),
-        messageType
-      );
-
-      if (message) {
-        // Add message to local state immediately for optimistic UI
-        setMessages(prev => [...prev, message]);
-        
-        // Update conversations list
+        senderId: currentUser.id,
+        content: content.trim(),
+        messageType,
+      });
+
+      if (!networkStatus) {
+        debugLogger.info('MESSAGING', 'SEND_MESSAGE_QUEUED', 'No network connection, message will be sent when connection is restored');
+      }
+      return message;
+    } catch (err: any) {
+      const errorMessage = 'Failed to send message';
+      setError(errorMessage);
+      debugLogger.info('MESSAGING', 'SEND_MESSAGE_ERROR', errorMessage, err);
+      console.error('Send message error:', err);
+      return null;
+    }
+  }, [currentUser?.id, conversationId, networkStatus, debugLogger]);
+
+  // Track queued messages for this conversation and add each one to the
+  // history once it reaches the server
+  useEffect(() => {
+    if (!conversationId) {
+      setOutboxMessages([]);
+      return;
+    }
+
+    setOutboxMessages(messageOutbox.getMessages(conversationId));
+
+    return messageOutbox.subscribe(({ sent }) => {
+      setOutboxMessages(messageOutbox.getMessages(conversationId));
+
+      if (sent && sent.message.conversationId === conversationId) {
+        const message = sent.message;
+        setMessages(prev => prev.some(msg => msg.id === message.id) ? prev : [...prev, message]);
         setConversations(prev => prev.map(conv => 
           conv.id === conversationId 
             ? { 
@@ -183,20 +204,13 @@ export const useMessaging = ({ conversationId, autoMarkAsRead = true }: UseMessa
               }
             : conv
         ));
-        
-        debugLogger.info('MESSAGING', 'SEND_MESSAGE_SUCCESS', 'Message sent successfully');
-        return message;
-      } else {
-        throw new Error('Failed to send message');
       }
-    } catch (err: any) {
-      const errorMessage = 'Failed to send message';
-      setError(errorMessage);
-      debugLogger.info('MESSAGING', 'SEND_MESSAGE_ERROR', errorMessage, err);
-      console.error('Send message error:', err);
-      return null;
-    }
-  }, [currentUser?.id, conversationId, networkStatus, debugLogger]);
+    });
+  }, [conversationId]);
+
+  const retryMessage = useCallback((clientId: string) => messageOutbox.retry(clientId), []);
+
+  const discardMessage = useCallback((clientId: string) => messageOutbox.discard(clientId), []);
 
   // Create a new conversation
   const createConversation = useCallback(async (participants: string[]) => {
@@ -239,6 +253,13 @@ export const useMessaging = ({ conversationId, autoMarkAsRead = true }: UseMessa
       return false;
     }
 
+    // Messages still in the outbox are removed from the queue instead
+    const queued = outboxMessages.find(msg => msg.id === messageId);
+    if (queued?.clientId) {
+      await messageOutbox.discard(queued.clientId);
+      return true;
+    }
+
     if (!networkStatus) {
       debugLogger.info('MESSAGING', 'DELETE_MESSAGE_SKIP', 'No network connection');
       setError('No network connection. Cannot delete message.');
@@ -266,7 +287,7 @@ export const useMessaging = ({ conversationId, autoMarkAsRead = true }: UseMessa
       console.error('Delete message error:', err);
       return false;
     }
-  }, [currentUser?.id, networkStatus, debugLogger]);
+  }, [currentUser?.id, networkStatus, outboxMessages, debugLogger]);
 
   // Mark messages as read
   const markAsRead = useCallback(async (conversationId: string) => {
@@ -368,9 +389,14 @@ export const useMessaging = ({ conversationId, autoMarkAsRead = true }: UseMessa
     });
   }, [networkStatus, isConnected, debugLogger]);
 
+  const messagesWithOutbox = useMemo(
+    () => outboxMessages.length > 0 ? [...messages, ...outboxMessages] : messages,
+    [messages, outboxMessages]
+  );
+
   return {
     // State
-    messages,
+    messages: messagesWithOutbox,
     conversations,
     loading,
     error,
@@ -381,6 +407,8 @@ export const useMessaging = ({ conversationId, autoMarkAsRead = true }: UseMessa
     loadConversations,
     loadMessages,
     sendMessage,
+    retryMessage,
+    discardMessage,
     createConversation,
     deleteMessage,
     markAsRead,
@@ -0,0 +1,174 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { supabase } from '@/app/lib/supabase';
+import { useUser } from '@/contexts/UserContext';
+import { dataService, mapNotification } from '@/services/dataService';
+import { Notification, NotificationCursor } from '@/types';
+import { debugLogger } from '@/utils/debugLogger';
+
+const PAGE_SIZE = 20;
+
+// Newest first, matching the inbox query order
+const sortNotifications = (items: Notification[]) =>
+  [...items].sort((a, b) =>
+    (b.createdAt || '').localeCompare(a.createdAt || '') || b.id.localeCompare(a.id)
+  );
+
+export const useNotifications = () => {
+  const { user: currentUser } = useUser();
+  const [notifications, setNotifications] = useState<Notification[]>([]);
+  const [unreadCount, setUnreadCount] = useState(0);
+  const [loading, setLoading] = useState(false);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [hasMore, setHasMore] = useState(false);
+  const cursorRef = useRef<NotificationCursor | null>(null);
+  const channelRef = useRef<any>(null);
+
+  // Load the first page and the unread count
+  const refresh = useCallback(async () => {
+    if (!currentUser?.id) return;
+
+    try {
+      setLoading(true);
+      const [page, count] = await Promise.all([
+        dataService.inbox.getNotifications(currentUser.id, PAGE_SIZE),
+        dataService.inbox.getUnreadCount(currentUser.id),
+      ]);
+
+      cursorRef.current = page.nextCursor;
+      setNotifications(page.notifications);
+      setHasMore(!!page.nextCursor);
+      setUnreadCount(count);
+    } catch (error) {
+      debugLogger.error('NOTIFICATIONS', 'LOAD_ERROR', 'Failed to load notifications', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [currentUser?.id]);
+
+  // Load the next (older) page
+  const loadMore = useCallback(async () => {
+    if (!currentUser?.id || !cursorRef.current || loadingMore) return;
+
+    try {
+      setLoadingMore(true);
+      const page = await dataService.inbox.getNotifications(currentUser.id, PAGE_SIZE, cursorRef.current);
+
+      cursorRef.current = page.nextCursor;
+      setHasMore(!!page.nextCursor);
+      setNotifications(prev => {
+        const existingIds = new Set(prev.map(item => item.id));
+        return [...prev, ...page.notifications.filter(item => !existingIds.has(item.id))];
+      });
+    } catch (error) {
+      debugLogger.error('NOTIFICATIONS', 'LOAD_MORE_ERROR', 'Failed to load more notifications', error);
+    } finally {
+      setLoadingMore(false);
+    }
+  }, [currentUser?.id, loadingMore]);
+
+  const markAsRead = useCallback(async (notificationId: string) => {
+    if (!currentUser?.id) return;
+
+    const target = notifications.find(item => item.id === notificationId);
+    if (!target || target.isRead) return;
+
+    // Optimistic update, reverted if the write fails
+    setNotifications(prev => prev.map(item => item.id === notificationId ? { ...item, isRead: true } : item));
+    setUnreadCount(prev => Math.max(0, prev - 1));
+
+    const success = await dataService.inbox.markAsRead(notificationId, currentUser.id);
+    if (!success) {
+      setNotifications(prev => prev.map(item => item.id === notificationId ? { ...item, isRead: false } : item));
+      setUnreadCount(prev => prev + 1);
+    }
+  }, [currentUser?.id, notifications]);
+
+  const markAllAsRead = useCallback(async () => {
+    if (!currentUser?.id) return;
+
+    const previous = notifications;
+    const previousCount = unreadCount;
+    setNotifications(prev => prev.map(item => ({ ...item, isRead: true })));
+    setUnreadCount(0);
+
+    const success = await dataService.inbox.markAllAsRead(currentUser.id);
+    if (!success) {
+      setNotifications(previous);
+      setUnreadCount(previousCount);
+    }
+  }, [currentUser?.id, notifications, unreadCount]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  // Realtime delivery of new and refreshed notifications
+  useEffect(() => {
+    if (!currentUser?.id) return;
+
+    channelRef.current = supabase
+      .channel(`notifications_${currentUser.id}`)
+      .on(
+        'postgres_changes',
+        {
+          event: 'INSERT',
+          schema: 'public',
+          table: 'notifications',
+          filter: `user_id=eq.${currentUser.id}`,
+        },
+        (payload) => {
+          const notification = mapNotification(payload.new);
+          debugLogger.info('NOTIFICATIONS', 'REALTIME_INSERT', 'New notification received', { id: notification.id });
+
+          setNotifications(prev => {
+            if (prev.some(item => item.id === notification.id)) return prev;
+            return sortNotifications([notification, ...prev]);
+          });
+          if (!notification.isRead) {
+            setUnreadCount(prev => prev + 1);
+          }
+        }
+      )
+      .on(
+        'postgres_changes',
+        {
+          event: 'UPDATE',
+          schema: 'public',
+          table: 'notifications',
+          filter: `user_id=eq.${currentUser.id}`,
+        },
+        (payload) => {
+          const notification = mapNotification(payload.new);
+
+          // Message entries are refreshed in place when new messages arrive
+          setNotifications(prev => sortNotifications([
+            notification,
+            ...prev.filter(item => item.id !== notification.id),
+          ]));
+          dataService.inbox.getUnreadCount(currentUser.id).then(setUnreadCount);
+        }
+      )
+      .subscribe((status) => {
+        debugLogger.info('NOTIFICATIONS', 'REALTIME_STATUS', `Notification subscription status: ${status}`);
+      });
+
+    return () => {
+      if (channelRef.current) {
+        supabase.removeChannel(channelRef.current);
+        channelRef.current = null;
+      }
+    };
+  }, [currentUser?.id]);
+
+  return {
+    notifications,
+    unreadCount,
+    loading,
+    loadingMore,
+    hasMore,
+    refresh,
+    loadMore,
+    markAsRead,
+    markAllAsRead,
+  };
+};
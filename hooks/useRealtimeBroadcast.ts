@@ -4,6 +4,8 @@ import { dataService } from '@/services/dataService';
 import { Message, Conversation } from '@/types';
 import { useUser } from '@/contexts/UserContext';
 import { useDebugLogger } from '@/utils/debugLogger';
+import { applyReceiptUpdates, RECEIPTS_BROADCAST_EVENT } from '@/utils/messageReceipts';
+import { applyReactionUpdate, getUserReaction, REACTIONS_BROADCAST_EVENT } from '@/utils/messageReactions';
 import NetInfo from '@react-native-community/netinfo';
 
 interface UseRealtimeBroadcastProps {
@@ -99,8 +101,9 @@ export const useRealtimeBroadcast = ({
     }
   }, [currentUser?.id, conversationId, autoMarkAsRead, debugLogger]);
 
-  // Send message using broadcast (follows Supabase documentation pattern)
-  const sendMessage = useCallback(async (content: string, messageType: string = 'text') => {
+  // Send message using broadcast (follows Supabase documentation pattern).
+  // Pass replyTo to quote an earlier message.
+  const sendMessage = useCallback(async (content: string, messageType: string = 'text', replyTo?: Message) => {
     if (!currentUser?.id || !conversationId || !content.trim()) {
       debugLogger.info('BROADCAST', 'SEND_SKIP', 'Missing required data for sending message');
       return null;
@@ -120,7 +123,13 @@ export const useRealtimeBroadcast = ({
         conversationId,
         currentUser.id,
         content.trim(),
-        messageType
+        messageType,
+        undefined,
+        undefined,
+        undefined,
+        undefined,
+        undefined,
+        replyTo?.id
       );
 
       if (message) {
@@ -249,16 +258,45 @@ export const useRealtimeBroadcast = ({
     }
   }, [currentUser?.id, conversationId, debugLogger]);
 
-  // Mark messages as read with broadcast
+  // React to a message; choosing the current reaction again removes it. The
+  // change is broadcast to the other participants by dataService.
+  const toggleReaction = useCallback(async (message: Message, emoji: string) => {
+    if (!currentUser?.id) return false;
+
+    const targetConversationId = message.conversationId || conversationId;
+    if (!targetConversationId) return false;
+
+    const previous = getUserReaction(message, currentUser.id) || null;
+    const next = previous === emoji ? null : emoji;
+    const update = { messageId: message.id, conversationId: targetConversationId, userId: currentUser.id };
+
+    setMessages(prev => applyReactionUpdate(prev, { ...update, emoji: next }));
+
+    try {
+      const success = await dataService.message.setReaction(targetConversationId, message.id, currentUser.id, next);
+      if (!success) {
+        setMessages(prev => applyReactionUpdate(prev, { ...update, emoji: previous }));
+      }
+      return success;
+    } catch (err: any) {
+      setMessages(prev => applyReactionUpdate(prev, { ...update, emoji: previous }));
+      debugLogger.info('REACTION_ERROR', 'Failed to update reaction', err);
+      return false;
+    }
+  }, [currentUser?.id, conversationId, debugLogger]);
+
+  // Mark messages as read; the read receipts are broadcast to the other
+  // participants by dataService
   const markAsRead = useCallback(async (convId: string) => {
     if (!currentUser?.id) return false;
 
     try {
-      const success = await dataService.message.markAsRead(convId, currentUser.id);
+      const updates = await dataService.message.markMessagesRead(convId);
+      const success = updates !== null;
       
-      if (success) {
+      if (updates) {
         // Update local state
-        setMessages(prev => prev.map(msg => 
+        setMessages(prev => applyReceiptUpdates(prev, updates).map(msg => 
           msg.conversationId === convId && msg.senderId !== currentUser.id
             ? { ...msg, isRead: true }
             : msg
@@ -269,24 +307,6 @@ export const useRealtimeBroadcast = ({
             ? { ...conv, unreadCount: 0 }
             : conv
         ));
-
-        // Broadcast read status to other participants
-        if (channelRef.current) {
-          try {
-            await channelRef.current.send({
-              type: 'broadcast',
-              event: 'messages_read',
-              payload: {
-                conversationId: convId,
-                userId: currentUser.id,
-                timestamp: Date.now()
-              }
-            });
-            debugLogger.info('BROADCAST', 'READ_BROADCAST_SUCCESS', 'Read status broadcasted');
-          } catch (broadcastError) {
-            debugLogger.info('BROADCAST', 'READ_BROADCAST_ERROR', 'Failed to broadcast read status', broadcastError);
-          }
-        }
       }
 
       return success;
@@ -425,6 +445,9 @@ export const useRealtimeBroadcast = ({
               if (prev.some(msg => msg.id === message.id)) return prev;
               return [...prev, message];
             });
+
+            // The message reached this device
+            dataService.message.markMessagesDelivered(message.conversationId);
             
             // Update conversations list
             setConversations(prev => prev.map(conv => 
@@ -460,22 +483,27 @@ export const useRealtimeBroadcast = ({
             debugLogger.info('BROADCAST', 'DELETE_PROCESS_ERROR', 'Error processing message deletion', err);
           }
         })
-        .on('broadcast', { event: 'messages_read' }, (payload: any) => {
+        .on('broadcast', { event: RECEIPTS_BROADCAST_EVENT }, ({ payload }: any) => {
           try {
-            debugLogger.info('BROADCAST', 'READ_RECEIVED', 'Read status received', payload);
+            debugLogger.info('BROADCAST', 'RECEIPTS_RECEIVED', 'Message receipts received', payload);
             
-            const { conversationId: readConvId, userId } = payload;
+            const updates = Array.isArray(payload?.updates) ? payload.updates : [];
             
-            // Only process if it's not from current user
-            if (userId !== currentUser.id) {
-              setMessages(prev => prev.map(msg => 
-                msg.conversationId === readConvId && msg.senderId === currentUser.id
-                  ? { ...msg, isRead: true }
-                  : msg
-              ));
+            // Only receipts from other participants arrive here (self: false)
+            setMessages(prev => applyReceiptUpdates(prev, updates));
+          } catch (err) {
+            debugLogger.info('BROADCAST', 'RECEIPTS_PROCESS_ERROR', 'Error processing message receipts', err);
+          }
+        })
+        .on('broadcast', { event: REACTIONS_BROADCAST_EVENT }, ({ payload }: any) => {
+          try {
+            debugLogger.info('REACTION_RECEIVED', 'Message reaction received', payload);
+            
+            if (payload?.messageId && payload.userId !== currentUser.id) {
+              setMessages(prev => applyReactionUpdate(prev, payload));
             }
           } catch (err) {
-            debugLogger.info('BROADCAST', 'READ_PROCESS_ERROR', 'Error processing read status', err);
+            debugLogger.info('REACTION_PROCESS_ERROR', 'Error processing message reaction', err);
           }
         })
         .on('broadcast', { event: 'typing' }, (payload: any) => {
@@ -584,6 +612,7 @@ export const useRealtimeBroadcast = ({
     sendMessage,
     createConversation,
     deleteMessage,
+    toggleReaction,
     markAsRead,
     sendTypingIndicator,
     stopTypingIndicator,
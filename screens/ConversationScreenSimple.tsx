@@ -11,6 +11,7 @@ import {
   Platform,
   Dimensions,
   KeyboardAvoidingView,
+  ActivityIndicator,
 } from 'react-native';
 import SafeAreaWrapper from '@/components/SafeAreaWrapper';
 import { useRouter, useLocalSearchParams } from 'expo-router';
@@ -95,7 +96,10 @@ export default function ConversationScreen() {
     sendMessage, 
     deleteMessage,
     markAsRead,
-    loadMessages 
+    loadMessages,
+    loadOlderMessages,
+    hasMoreMessages,
+    loadingOlder
   } = useMessaging({ 
     conversationId, 
     autoMarkAsRead: true 
@@ -104,6 +108,7 @@ export default function ConversationScreen() {
   const [messageText, setMessageText] = useState('');
   const [sending, setSending] = useState(false);
   const scrollViewRef = useRef<ScrollView>(null);
+  const lastMessageIdRef = useRef<string | null>(null);
 
   useEffect(() => {
     if (conversationId) {
@@ -113,14 +118,23 @@ export default function ConversationScreen() {
   }, [conversationId, loadMessages, debugLogger]);
 
   useEffect(() => {
-    // Auto-scroll to bottom when new messages arrive
-    if (messages.length > 0) {
+    // Auto-scroll to bottom when new messages arrive, but not when older ones are prepended
+    const lastMessageId = messages.length > 0 ? messages[messages.length - 1].id : null;
+    if (lastMessageId && lastMessageId !== lastMessageIdRef.current) {
       setTimeout(() => {
         scrollViewRef.current?.scrollToEnd({ animated: true });
       }, 100);
     }
+    lastMessageIdRef.current = lastMessageId;
   }, [messages]);
 
+  // Load older messages when scrolled near the top
+  const handleScroll = (event: any) => {
+    if (event.nativeEvent.contentOffset.y < 60 && hasMoreMessages && !loadingOlder) {
+      loadOlderMessages();
+    }
+  };
+
   const handleSend = async () => {
     if (!messageText.trim() || sending) return;
 
@@ -303,7 +317,13 @@ export default function ConversationScreen() {
           style={styles.messagesList}
           contentContainerStyle={styles.messagesContent}
           showsVerticalScrollIndicator={false}
+          onScroll={handleScroll}
+          scrollEventThrottle={200}
+          maintainVisibleContentPosition={{ minIndexForVisible: 0 }}
         >
+          {loadingOlder && (
+            <ActivityIndicator style={styles.olderLoader} size="small" color="#666666" />
+          )}
           {loading && messages.length === 0 ? (
             <View style={styles.loadingContainer}>
               <Text style={styles.loadingText}>Loading messages...</Text>
@@ -422,6 +442,9 @@ const styles = StyleSheet.create({
     flexGrow: 1,
     paddingVertical: 10,
   },
+  olderLoader: {
+    marginVertical: 10,
+  },
   loadingContainer: {
     flex: 1,
     justifyContent: 'center',
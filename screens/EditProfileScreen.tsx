@@ -1,4 +1,4 @@
-import React, { useState, useRef } from 'react';
+import React, { useState, useRef, useEffect } from 'react';
 import {
   View,
   Text,
@@ -12,6 +12,7 @@ import {
   Platform,
   Dimensions,
   ActivityIndicator,
+  Switch,
 } from 'react-native';
 import { LinearGradient } from 'expo-linear-gradient';
 import { useRouter } from 'expo-router';
@@ -24,13 +25,17 @@ import Animated, {
   interpolate,
 } from 'react-native-reanimated';
 import * as Haptics from 'expo-haptics';
-import { ArrowLeft, Save, Crown, Flag, Camera, Check, ChevronDown } from 'lucide-react-native';
+import { ArrowLeft, Save, Crown, Flag, Camera, Check, ChevronDown, BellOff } from 'lucide-react-native';
 import { useUser } from '@/contexts/UserContext';
 import AvatarUploader from '@/components/AvatarUploader';
 import FormInput from '@/components/FormInput';
 import DropdownField from '@/components/DropdownField';
 import LocationSearch from '@/components/LocationSearch';
 import { handleBackNavigation } from '@/utils/navigation';
+import { notificationService } from '@/services/notificationService';
+import { dataService } from '@/services/dataService';
+import { getDeviceTimeZone, isValidTimeZone } from '@/utils/availabilitySlots';
+import { NotificationPreferences, NotificationType } from '@/types';
 
 const { width } = Dimensions.get('window');
 
@@ -67,6 +72,19 @@ const locationSuggestions = [
   'Atlanta, GA',
 ];
 
+const NOTIFICATION_TYPE_LABELS: { type: NotificationType; label: string }[] = [
+  { type: 'message', label: 'Messages' },
+  { type: 'follow', label: 'New followers' },
+  { type: 'like', label: 'Likes' },
+  { type: 'comment', label: 'Comments' },
+  { type: 'booking', label: 'Bookings' },
+  { type: 'review', label: 'Reviews' },
+  { type: 'reel_share', label: 'Shared reels' },
+  { type: 'mention', label: 'Mentions' },
+];
+
+const TIME_OF_DAY_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
 const AnimatedTouchableOpacity = Animated.createAnimatedComponent(TouchableOpacity);
 
 export default function EditProfileScreen() {
@@ -88,6 +106,13 @@ export default function EditProfileScreen() {
   });
 
   const [errors, setErrors] = useState<Partial<FormData>>({});
+  const [isPrivate, setIsPrivate] = useState(user?.isPrivate || false);
+  const [notificationPreferences, setNotificationPreferences] = useState<NotificationPreferences>(
+    () => notificationService.getPreferences()
+  );
+  const [preferencesChanged, setPreferencesChanged] = useState(false);
+  const [quietHoursError, setQuietHoursError] = useState<string | undefined>();
+  const [conversationNames, setConversationNames] = useState<Record<string, string>>({});
   const saveButtonScale = useSharedValue(1);
 
   // Load Inter fonts
@@ -98,6 +123,20 @@ export default function EditProfileScreen() {
     Inter_700Bold,
   });
 
+  // Label muted conversations with the other participants' names
+  const hasMutedConversations = notificationPreferences.mutedConversations.length > 0;
+  useEffect(() => {
+    if (!user?.id || !hasMutedConversations) return;
+
+    dataService.message.getConversations(user.id).then(conversations => {
+      const names: Record<string, string> = {};
+      conversations.forEach(conversation => {
+        names[conversation.id] = conversation.participants.map(participant => participant.username).join(', ');
+      });
+      setConversationNames(names);
+    });
+  }, [user?.id, hasMutedConversations]);
+
   const validateForm = (): boolean => {
     const newErrors: Partial<FormData> = {};
     
@@ -120,7 +159,21 @@ export default function EditProfileScreen() {
     }
 
     setErrors(newErrors);
-    return Object.keys(newErrors).length === 0;
+
+    const { quietHours } = notificationPreferences;
+    let newQuietHoursError: string | undefined;
+    if (quietHours.enabled) {
+      if (!TIME_OF_DAY_PATTERN.test(quietHours.start) || !TIME_OF_DAY_PATTERN.test(quietHours.end)) {
+        newQuietHoursError = 'Use 24-hour times like 22:00';
+      } else if (quietHours.start === quietHours.end) {
+        newQuietHoursError = 'Start and end times must be different';
+      } else if (!isValidTimeZone(quietHours.timeZone)) {
+        newQuietHoursError = 'Enter a valid time zone, e.g. Europe/London';
+      }
+    }
+    setQuietHoursError(newQuietHoursError);
+
+    return Object.keys(newErrors).length === 0 && !newQuietHoursError;
   };
 
   const handleInputChange = (field: keyof FormData, value: string) => {
@@ -133,6 +186,37 @@ export default function EditProfileScreen() {
     }
   };
 
+  const handleNotificationTypeChange = (type: NotificationType, enabled: boolean) => {
+    setNotificationPreferences(prev => ({ ...prev, types: { ...prev.types, [type]: enabled } }));
+    setPreferencesChanged(true);
+    setHasChanges(true);
+  };
+
+  const handleQuietHoursChange = (changes: Partial<NotificationPreferences['quietHours']>) => {
+    setNotificationPreferences(prev => ({ ...prev, quietHours: { ...prev.quietHours, ...changes } }));
+    setPreferencesChanged(true);
+    setHasChanges(true);
+    setQuietHoursError(undefined);
+  };
+
+  // Unmuting takes effect right away and is not part of the form
+  const handleUnmuteConversation = async (conversationId: string) => {
+    const success = await notificationService.unmuteConversation(conversationId);
+    if (success) {
+      setNotificationPreferences(prev => ({
+        ...prev,
+        mutedConversations: prev.mutedConversations.filter(mute => mute.conversationId !== conversationId),
+      }));
+    } else {
+      Alert.alert('Error', 'Failed to unmute conversation. Please try again.');
+    }
+  };
+
+  const formatMutedUntil = (mutedUntil: string | null) =>
+    mutedUntil
+      ? `Muted until ${new Date(mutedUntil).toLocaleString([], { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' })}`
+      : 'Muted until you turn it back on';
+
   const handleSave = async () => {
     if (!validateForm()) {
       Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
@@ -155,8 +239,20 @@ export default function EditProfileScreen() {
         longitude: formData.longitude,
         age: formData.age ? parseInt(formData.age) : undefined,
         avatar: formData.avatar,
+        isPrivate,
       });
 
+      if (preferencesChanged) {
+        const saved = await notificationService.updatePreferences({
+          types: notificationPreferences.types,
+          quietHours: notificationPreferences.quietHours,
+        });
+        if (!saved) {
+          throw new Error('Failed to save notification preferences');
+        }
+        setPreferencesChanged(false);
+      }
+
       Alert.alert(
         'Profile Updated',
         'Your profile has been updated successfully!',
@@ -353,6 +449,139 @@ export default function EditProfileScreen() {
               </View>
             </View>
 
+            {/* Privacy */}
+            <View style={styles.section}>
+              <Text style={[styles.sectionTitle, { fontFamily: 'Inter_600SemiBold' }]}>
+                Privacy
+              </Text>
+
+              <View style={styles.toggleRow}>
+                <View style={styles.toggleText}>
+                  <Text style={[styles.toggleLabel, { fontFamily: 'Inter_500Medium' }]}>
+                    Private Account
+                  </Text>
+                  <Text style={[styles.toggleHint, { fontFamily: 'Inter_400Regular' }]}>
+                    Only approved followers see your posts, reels, stories and notes
+                  </Text>
+                </View>
+                <Switch
+                  value={isPrivate}
+                  onValueChange={(enabled) => {
+                    setIsPrivate(enabled);
+                    setHasChanges(true);
+                  }}
+                  trackColor={{ false: '#333', true: '#6C5CE7' }}
+                  thumbColor={isPrivate ? '#FFFFFF' : '#B0B0B0'}
+                />
+              </View>
+            </View>
+
+            {/* Notification Preferences */}
+            <View style={styles.section}>
+              <Text style={[styles.sectionTitle, { fontFamily: 'Inter_600SemiBold' }]}>
+                Notifications
+              </Text>
+
+              {NOTIFICATION_TYPE_LABELS.map(({ type, label }) => (
+                <View key={type} style={styles.toggleRow}>
+                  <Text style={[styles.toggleLabel, { fontFamily: 'Inter_500Medium' }]}>
+                    {label}
+                  </Text>
+                  <Switch
+                    value={notificationPreferences.types[type]}
+                    onValueChange={(enabled) => handleNotificationTypeChange(type, enabled)}
+                    trackColor={{ false: '#333', true: '#6C5CE7' }}
+                    thumbColor={notificationPreferences.types[type] ? '#FFFFFF' : '#B0B0B0'}
+                  />
+                </View>
+              ))}
+
+              <View style={[styles.toggleRow, styles.quietHoursToggle]}>
+                <View style={styles.toggleText}>
+                  <Text style={[styles.toggleLabel, { fontFamily: 'Inter_500Medium' }]}>
+                    Quiet Hours
+                  </Text>
+                  <Text style={[styles.toggleHint, { fontFamily: 'Inter_400Regular' }]}>
+                    No notifications during these hours each day
+                  </Text>
+                </View>
+                <Switch
+                  value={notificationPreferences.quietHours.enabled}
+                  onValueChange={(enabled) => handleQuietHoursChange({ enabled })}
+                  trackColor={{ false: '#333', true: '#6C5CE7' }}
+                  thumbColor={notificationPreferences.quietHours.enabled ? '#FFFFFF' : '#B0B0B0'}
+                />
+              </View>
+
+              {notificationPreferences.quietHours.enabled && (
+                <>
+                  <View style={styles.row}>
+                    <View style={styles.halfWidth}>
+                      <FormInput
+                        label="From"
+                        value={notificationPreferences.quietHours.start}
+                        onChangeText={(start) => handleQuietHoursChange({ start })}
+                        placeholder="22:00"
+                        maxLength={5}
+                        keyboardType="numbers-and-punctuation"
+                      />
+                    </View>
+                    <View style={styles.halfWidth}>
+                      <FormInput
+                        label="Until"
+                        value={notificationPreferences.quietHours.end}
+                        onChangeText={(end) => handleQuietHoursChange({ end })}
+                        placeholder="07:00"
+                        maxLength={5}
+                        keyboardType="numbers-and-punctuation"
+                      />
+                    </View>
+                  </View>
+
+                  <FormInput
+                    label="Time Zone"
+                    value={notificationPreferences.quietHours.timeZone}
+                    onChangeText={(timeZone) => handleQuietHoursChange({ timeZone })}
+                    placeholder="Europe/London"
+                    error={quietHoursError}
+                    autoCapitalize="none"
+                  />
+
+                  {notificationPreferences.quietHours.timeZone !== getDeviceTimeZone() && (
+                    <TouchableOpacity onPress={() => handleQuietHoursChange({ timeZone: getDeviceTimeZone() })}>
+                      <Text style={[styles.linkText, { fontFamily: 'Inter_500Medium' }]}>
+                        Use device time zone ({getDeviceTimeZone()})
+                      </Text>
+                    </TouchableOpacity>
+                  )}
+                </>
+              )}
+
+              {notificationPreferences.mutedConversations.length > 0 && (
+                <View style={styles.mutedList}>
+                  <Text style={[styles.mutedListTitle, { fontFamily: 'Inter_600SemiBold' }]}>
+                    Muted Conversations
+                  </Text>
+                  {notificationPreferences.mutedConversations.map(mute => (
+                    <View key={mute.conversationId} style={styles.mutedRow}>
+                      <BellOff size={18} color="#B0B0B0" />
+                      <View style={styles.mutedInfo}>
+                        <Text style={[styles.mutedName, { fontFamily: 'Inter_500Medium' }]} numberOfLines={1}>
+                          {conversationNames[mute.conversationId] || 'Conversation'}
+                        </Text>
+                        <Text style={[styles.toggleHint, { fontFamily: 'Inter_400Regular' }]}>
+                          {formatMutedUntil(mute.mutedUntil)}
+                        </Text>
+                      </View>
+                      <TouchableOpacity onPress={() => handleUnmuteConversation(mute.conversationId)}>
+                        <Text style={[styles.linkText, { fontFamily: 'Inter_500Medium' }]}>Unmute</Text>
+                      </TouchableOpacity>
+                    </View>
+                  ))}
+                </View>
+              )}
+            </View>
+
             {/* Host Status Section */}
             {user.isHost && (
               <View style={styles.section}>
@@ -499,6 +728,57 @@ const styles = StyleSheet.create({
   halfWidth: {
     flex: 1,
   },
+  toggleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingVertical: 10,
+  },
+  toggleText: {
+    flex: 1,
+    marginRight: 12,
+  },
+  toggleLabel: {
+    fontSize: 16,
+    color: '#FFFFFF',
+  },
+  toggleHint: {
+    fontSize: 13,
+    color: '#888',
+    marginTop: 2,
+  },
+  quietHoursToggle: {
+    marginTop: 12,
+    marginBottom: 8,
+    borderTopWidth: 1,
+    borderTopColor: 'rgba(255, 255, 255, 0.08)',
+    paddingTop: 20,
+  },
+  linkText: {
+    fontSize: 14,
+    color: '#6C5CE7',
+  },
+  mutedList: {
+    marginTop: 24,
+  },
+  mutedListTitle: {
+    fontSize: 16,
+    color: '#FFFFFF',
+    marginBottom: 12,
+  },
+  mutedRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 10,
+    gap: 12,
+  },
+  mutedInfo: {
+    flex: 1,
+  },
+  mutedName: {
+    fontSize: 15,
+    color: '#FFFFFF',
+  },
   hostStatusCard: {
     backgroundColor: 'rgba(108, 92, 231, 0.1)',
     borderRadius: 16,
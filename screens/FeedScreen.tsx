@@ -264,7 +264,7 @@ const FeedScreenContent = () => {
       setIsLoading(true);
       const [postsData, storiesData] = await Promise.all([
         dataService.post.getPosts(20, 0, currentUser?.id),
-        dataService.story.getStories(),
+        dataService.story.getStories(currentUser?.id),
       ]);
       
       // Debug: Log posts with image information
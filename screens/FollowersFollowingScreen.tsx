@@ -14,14 +14,14 @@ import {
 } from 'react-native';
 import { useRouter, useLocalSearchParams, useFocusEffect } from 'expo-router';
 import { LinearGradient } from 'expo-linear-gradient';
-import { ArrowLeft, UserPlus, UserMinus, Users, UserCheck } from 'lucide-react-native';
+import { ArrowLeft, UserPlus, UserMinus, Users, UserCheck, Clock, Check, X } from 'lucide-react-native';
 import { useUser } from '@/contexts/UserContext';
 import { dataService } from '@/services/dataService';
-import { User } from '@/types';
+import { FollowRequest, User } from '@/types';
 import { handleProfileBackNavigation } from '@/utils/navigation';
 import { useDebugLogger, debug } from '@/utils/debugLogger';
 
-type TabType = 'followers' | 'following';
+type TabType = 'followers' | 'following' | 'requests';
 
 interface FollowersFollowingScreenProps {
   route?: {
@@ -40,10 +40,14 @@ export default function FollowersFollowingScreen({ route }: FollowersFollowingSc
   
   const userId = route?.params?.userId || params?.userId || currentUser?.id || '';
   const initialTab = (route?.params?.initialTab || params?.tab || 'followers') as TabType;
+  // Follow requests are only shown on your own lists
+  const isOwnList = !!currentUser && userId === currentUser.id;
   
   const [activeTab, setActiveTab] = useState<TabType>(initialTab);
   const [followers, setFollowers] = useState<User[]>([]);
   const [following, setFollowing] = useState<User[]>([]);
+  const [followRequests, setFollowRequests] = useState<FollowRequest[]>([]);
+  const [requestedIds, setRequestedIds] = useState<string[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [isRefreshing, setIsRefreshing] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -69,9 +73,10 @@ export default function FollowersFollowingScreen({ route }: FollowersFollowingSc
       setIsLoading(true);
       setError(null);
       
-      const [followersData, followingData] = await Promise.all([
+      const [followersData, followingData, requestsData] = await Promise.all([
         dataService.user.getFollowers(userId, currentUser?.id),
         dataService.user.getFollowing(userId, currentUser?.id),
+        isOwnList ? dataService.user.getFollowRequests(userId) : Promise.resolve([]),
       ]);
       
       console.log('🔍 FollowersFollowingScreen: Data loaded', {
@@ -81,6 +86,7 @@ export default function FollowersFollowingScreen({ route }: FollowersFollowingSc
       
       setFollowers(followersData);
       setFollowing(followingData);
+      setFollowRequests(requestsData);
       
     } catch (err) {
       console.error('❌ FollowersFollowingScreen: Error loading data:', err);
@@ -103,11 +109,26 @@ export default function FollowersFollowingScreen({ route }: FollowersFollowingSc
     }
 
     try {
+      // Tapping "Requested" withdraws the request
+      if (requestedIds.includes(targetUserId)) {
+        if (await dataService.user.cancelFollowRequest(currentUser.id, targetUserId)) {
+          setRequestedIds(prev => prev.filter(id => id !== targetUserId));
+        } else {
+          Alert.alert('Error', 'Failed to cancel follow request');
+        }
+        return;
+      }
+
       let success = false;
       if (isCurrentlyFollowing) {
         success = await dataService.user.unfollowUser(currentUser.id, targetUserId);
       } else {
-        success = await dataService.user.followUser(currentUser.id, targetUserId);
+        const followState = await dataService.user.followUser(currentUser.id, targetUserId);
+        if (followState === 'requested') {
+          setRequestedIds(prev => [...prev, targetUserId]);
+          return;
+        }
+        success = followState === 'following';
       }
 
       if (success) {
@@ -140,6 +161,25 @@ export default function FollowersFollowingScreen({ route }: FollowersFollowingSc
     }
   };
 
+  const handleRequest = async (requesterId: string, approve: boolean) => {
+    if (!currentUser) return;
+
+    const success = approve
+      ? await dataService.user.approveFollowRequest(currentUser.id, requesterId)
+      : await dataService.user.denyFollowRequest(currentUser.id, requesterId);
+
+    if (!success) {
+      Alert.alert('Error', `Failed to ${approve ? 'approve' : 'deny'} follow request`);
+      return;
+    }
+
+    const request = followRequests.find(item => item.user.id === requesterId);
+    setFollowRequests(prev => prev.filter(item => item.user.id !== requesterId));
+    if (approve && request) {
+      setFollowers(prev => [request.user, ...prev]);
+    }
+  };
+
   const handleUserPress = (user: User) => {
     router.push(`/profile?userId=${user.id}`);
   };
@@ -159,6 +199,7 @@ export default function FollowersFollowingScreen({ route }: FollowersFollowingSc
   const renderUserItem = ({ item }: { item: User }) => {
     const isCurrentUser = item.id === currentUser?.id;
     const isFollowing = item.isFollowing || false;
+    const isRequested = requestedIds.includes(item.id);
 
     return (
       <View style={styles.userItem}>
@@ -192,18 +233,20 @@ export default function FollowersFollowingScreen({ route }: FollowersFollowingSc
             <TouchableOpacity
               style={[
                 styles.followButton,
-                isFollowing && styles.followingButton
+                (isFollowing || isRequested) && styles.followingButton
               ]}
               onPress={() => handleFollowToggle(item.id, isFollowing)}
               activeOpacity={0.7}
             >
-              {isFollowing ? (
+              {isRequested ? (
+                <Clock size={16} color="#FFFFFF" />
+              ) : isFollowing ? (
                 <UserMinus size={16} color="#FFFFFF" />
               ) : (
                 <UserPlus size={16} color="#FFFFFF" />
               )}
               <Text style={styles.followButtonText}>
-                {isFollowing ? 'Unfollow' : 'Follow'}
+                {isRequested ? 'Requested' : isFollowing ? 'Unfollow' : 'Follow'}
               </Text>
             </TouchableOpacity>
           )}
@@ -212,7 +255,53 @@ export default function FollowersFollowingScreen({ route }: FollowersFollowingSc
     );
   };
 
-  const renderEmptyState = () => (
+  const renderRequestItem = ({ item }: { item: FollowRequest }) => (
+    <View style={styles.userItem}>
+      <TouchableOpacity 
+        style={styles.userItemContent}
+        onPress={() => handleUserPress(item.user)}
+        activeOpacity={0.7}
+      >
+        <Image source={{ uri: item.user.avatar }} style={styles.userAvatar} />
+
+        <View style={styles.userInfo}>
+          <Text style={styles.userName}>
+            {item.user.fullName || item.user.username || 'Unknown User'}
+          </Text>
+          <Text style={styles.userHandle}>
+            @{item.user.handle || item.user.username || 'unknown'}
+          </Text>
+        </View>
+
+        <TouchableOpacity
+          style={[styles.requestButton, styles.approveButton]}
+          onPress={() => handleRequest(item.user.id, true)}
+          activeOpacity={0.7}
+        >
+          <Check size={18} color="#FFFFFF" />
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={styles.requestButton}
+          onPress={() => handleRequest(item.user.id, false)}
+          activeOpacity={0.7}
+        >
+          <X size={18} color="#FFFFFF" />
+        </TouchableOpacity>
+      </TouchableOpacity>
+    </View>
+  );
+
+  const renderEmptyState = () => activeTab === 'requests' ? (
+    <View style={styles.emptyState}>
+      <View style={styles.emptyStateIcon}>
+        <Clock size={64} color="#6C5CE7" />
+      </View>
+      <Text style={styles.emptyStateTitle}>No Follow Requests</Text>
+      <Text style={styles.emptyStateText}>
+        When someone asks to follow your private account, you will see it here.
+      </Text>
+    </View>
+  ) : (
     <View style={styles.emptyState}>
       <View style={styles.emptyStateIcon}>
         {activeTab === 'followers' ? (
@@ -306,7 +395,7 @@ export default function FollowersFollowingScreen({ route }: FollowersFollowingSc
         </TouchableOpacity>
         
         <Text style={styles.headerTitle}>
-          {activeTab === 'followers' ? 'Followers' : 'Following'}
+          {activeTab === 'followers' ? 'Followers' : activeTab === 'following' ? 'Following' : 'Requests'}
         </Text>
         
         <View style={styles.headerSpacer} />
@@ -331,6 +420,17 @@ export default function FollowersFollowingScreen({ route }: FollowersFollowingSc
             Following ({following.length})
           </Text>
         </TouchableOpacity>
+
+        {isOwnList && (
+          <TouchableOpacity
+            style={[styles.tab, activeTab === 'requests' && styles.activeTab]}
+            onPress={() => setActiveTab('requests')}
+          >
+            <Text style={[styles.tabText, activeTab === 'requests' && styles.activeTabText]}>
+              Requests ({followRequests.length})
+            </Text>
+          </TouchableOpacity>
+        )}
       </View>
 
       {/* Content */}
@@ -342,10 +442,12 @@ export default function FollowersFollowingScreen({ route }: FollowersFollowingSc
           </TouchableOpacity>
         </View>
       ) : (
-        <FlatList
-          data={activeTab === 'followers' ? followers : following}
-          renderItem={renderUserItem}
-          keyExtractor={(item) => item.id}
+        <FlatList<User | FollowRequest>
+          data={activeTab === 'requests' ? followRequests : activeTab === 'followers' ? followers : following}
+          renderItem={({ item }) => activeTab === 'requests'
+            ? renderRequestItem({ item: item as FollowRequest })
+            : renderUserItem({ item: item as User })}
+          keyExtractor={(item) => 'user' in item ? item.user.id : item.id}
           contentContainerStyle={styles.listContainer}
           refreshControl={
             <RefreshControl
@@ -479,6 +581,18 @@ const styles = StyleSheet.create({
     color: '#FFFFFF',
     fontWeight: '500',
   },
+  requestButton: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    backgroundColor: '#333',
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginLeft: 8,
+  },
+  approveButton: {
+    backgroundColor: '#6C5CE7',
+  },
   emptyState: {
     alignItems: 'center',
     justifyContent: 'center',
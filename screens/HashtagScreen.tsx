@@ -0,0 +1,468 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  SafeAreaView,
+  FlatList,
+  ScrollView,
+  TouchableOpacity,
+  Image,
+  ActivityIndicator,
+  Alert,
+  Dimensions,
+} from 'react-native';
+import { LinearGradient } from 'expo-linear-gradient';
+import { useRouter, useLocalSearchParams } from 'expo-router';
+import { useFonts, Inter_400Regular, Inter_500Medium, Inter_600SemiBold } from '@expo-google-fonts/inter';
+import { ArrowLeft, Hash, Heart, Image as ImageIcon, Play } from 'lucide-react-native';
+import { useUser } from '@/contexts/UserContext';
+import { dataService } from '@/services/dataService';
+import { Hashtag, HashtagContentItem, HashtagSort } from '@/types';
+import { formatHashtag, normalizeHashtag } from '@/utils/hashtags';
+import { handleBackNavigation } from '@/utils/navigation';
+
+const PAGE_SIZE = 30;
+
+const { width } = Dimensions.get('window');
+const tileSize = (width - 4) / 3;
+
+const SORT_OPTIONS: { sort: HashtagSort; label: string }[] = [
+  { sort: 'top', label: 'Top' },
+  { sort: 'recent', label: 'Recent' },
+];
+
+const formatCount = (count: number) =>
+  count >= 1000000 ? `${(count / 1000000).toFixed(1)}M` : count >= 1000 ? `${(count / 1000).toFixed(1)}K` : `${count}`;
+
+export default function HashtagScreen() {
+  const router = useRouter();
+  const { user } = useUser();
+  const params = useLocalSearchParams<{ name: string }>();
+  const name = normalizeHashtag(params.name || '');
+
+  const [hashtag, setHashtag] = useState<Hashtag | null>(null);
+  const [related, setRelated] = useState<Hashtag[]>([]);
+  const [content, setContent] = useState<HashtagContentItem[]>([]);
+  const [sort, setSort] = useState<HashtagSort>('top');
+  const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [hasMore, setHasMore] = useState(false);
+  const [followPending, setFollowPending] = useState(false);
+  const [fontsLoaded] = useFonts({
+    Inter_400Regular,
+    Inter_500Medium,
+    Inter_600SemiBold,
+  });
+
+  useEffect(() => {
+    if (!name) return;
+    dataService.hashtag.getHashtag(name, user?.id).then(setHashtag);
+    dataService.hashtag.getRelatedHashtags(name).then(setRelated);
+  }, [name, user?.id]);
+
+  const loadContent = useCallback(async () => {
+    if (!name) {
+      setLoading(false);
+      return;
+    }
+
+    setLoading(true);
+    const page = await dataService.hashtag.getHashtagContent(name, sort, PAGE_SIZE, 0, user?.id);
+    setContent(page);
+    setHasMore(page.length === PAGE_SIZE);
+    setLoading(false);
+  }, [name, sort, user?.id]);
+
+  useEffect(() => {
+    loadContent();
+  }, [loadContent]);
+
+  const handleLoadMore = async () => {
+    if (loadingMore || !hasMore) return;
+
+    setLoadingMore(true);
+    const page = await dataService.hashtag.getHashtagContent(name, sort, PAGE_SIZE, content.length, user?.id);
+    setContent(prev => [...prev, ...page]);
+    setHasMore(page.length === PAGE_SIZE);
+    setLoadingMore(false);
+  };
+
+  const handleToggleFollow = async () => {
+    if (!user?.id || !hashtag || followPending) return;
+
+    const following = !hashtag.isFollowing;
+    setFollowPending(true);
+    setHashtag({ ...hashtag, isFollowing: following });
+
+    const success = following
+      ? await dataService.hashtag.followHashtag(user.id, hashtag.id)
+      : await dataService.hashtag.unfollowHashtag(user.id, hashtag.id);
+
+    if (!success) {
+      setHashtag({ ...hashtag, isFollowing: !following });
+      Alert.alert('Error', `Failed to ${following ? 'follow' : 'unfollow'} ${formatHashtag(hashtag.name)}. Please try again.`);
+    }
+    setFollowPending(false);
+  };
+
+  // There is no single post screen; posts are shown on their owner's profile
+  const handleOpenItem = (item: HashtagContentItem) => {
+    if (item.type === 'reel') {
+      router.push({
+        pathname: '/(tabs)/reels',
+        params: { startReelId: item.id, hashtags: JSON.stringify([formatHashtag(name)]) },
+      });
+    } else {
+      router.push({ pathname: '/ProfileScreen', params: { userId: item.ownerId } });
+    }
+  };
+
+  const renderItem = ({ item }: { item: HashtagContentItem }) => (
+    <TouchableOpacity style={styles.tile} onPress={() => handleOpenItem(item)} activeOpacity={0.8}>
+      {item.mediaUrl ? (
+        <Image source={{ uri: item.mediaUrl }} style={styles.tileImage} />
+      ) : (
+        <View style={[styles.tileImage, styles.tilePlaceholder]}>
+          <ImageIcon size={24} color="#666" />
+        </View>
+      )}
+      <View style={styles.tileOverlay}>
+        {item.type === 'reel' ? (
+          <>
+            <Play size={12} color="#FFFFFF" fill="#FFFFFF" />
+            <Text style={[styles.tileStat, { fontFamily: 'Inter_500Medium' }]}>{formatCount(item.viewCount || 0)}</Text>
+          </>
+        ) : (
+          <>
+            <Heart size={12} color="#FFFFFF" fill="#FFFFFF" />
+            <Text style={[styles.tileStat, { fontFamily: 'Inter_500Medium' }]}>{formatCount(item.likes)}</Text>
+          </>
+        )}
+      </View>
+    </TouchableOpacity>
+  );
+
+  const renderHeader = () => (
+    <View>
+      <View style={styles.summary}>
+        <View style={styles.hashIcon}>
+          <Hash size={36} color="#A29BFE" />
+        </View>
+        <View style={styles.summaryInfo}>
+          <Text style={[styles.counts, { fontFamily: 'Inter_400Regular' }]}>
+            {formatCount(hashtag?.postCount || 0)} {hashtag?.postCount === 1 ? 'post' : 'posts'} ·{' '}
+            {formatCount(hashtag?.reelCount || 0)} {hashtag?.reelCount === 1 ? 'reel' : 'reels'}
+          </Text>
+          {!!user?.id && !!hashtag && (
+            <TouchableOpacity
+              style={[styles.followButton, hashtag.isFollowing && styles.followingButton]}
+              onPress={handleToggleFollow}
+              disabled={followPending}
+            >
+              <Text style={[styles.followText, { fontFamily: 'Inter_600SemiBold' }]}>
+                {hashtag.isFollowing ? 'Following' : 'Follow'}
+              </Text>
+            </TouchableOpacity>
+          )}
+        </View>
+      </View>
+
+      {related.length > 0 && (
+        <ScrollView
+          horizontal
+          showsHorizontalScrollIndicator={false}
+          contentContainerStyle={styles.relatedRow}
+        >
+          {related.map(tag => (
+            <TouchableOpacity
+              key={tag.id}
+              style={styles.relatedChip}
+              onPress={() => router.push({ pathname: '/hashtag', params: { name: tag.name } })}
+            >
+              <Text style={[styles.relatedText, { fontFamily: 'Inter_500Medium' }]}>{formatHashtag(tag.name)}</Text>
+            </TouchableOpacity>
+          ))}
+        </ScrollView>
+      )}
+
+      <View style={styles.sortRow}>
+        {SORT_OPTIONS.map(option => (
+          <TouchableOpacity
+            key={option.sort}
+            style={[styles.sortTab, sort === option.sort && styles.activeSortTab]}
+            onPress={() => setSort(option.sort)}
+          >
+            <Text
+              style={[
+                styles.sortText,
+                sort === option.sort && styles.activeSortText,
+                { fontFamily: 'Inter_600SemiBold' },
+              ]}
+            >
+              {option.label}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+    </View>
+  );
+
+  if (!fontsLoaded) {
+    return (
+      <View style={styles.loadingContainer}>
+        <ActivityIndicator size="large" color="#6C5CE7" />
+        <Text style={styles.loadingText}>Loading...</Text>
+      </View>
+    );
+  }
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <LinearGradient
+        colors={['#1E1E1E', '#2A2A2A', '#1E1E1E']}
+        style={styles.background}
+      >
+        {/* Header */}
+        <View style={styles.header}>
+          <TouchableOpacity onPress={() => handleBackNavigation()} style={styles.backButton}>
+            <ArrowLeft size={28} color="#FFFFFF" />
+          </TouchableOpacity>
+          <Text style={[styles.headerTitle, { fontFamily: 'Inter_600SemiBold' }]} numberOfLines={1}>
+            {formatHashtag(name)}
+          </Text>
+          <View style={styles.headerSpacer} />
+        </View>
+
+        <FlatList
+          data={loading ? [] : content}
+          keyExtractor={item => `${item.type}:${item.id}`}
+          renderItem={renderItem}
+          numColumns={3}
+          columnWrapperStyle={styles.gridRow}
+          ListHeaderComponent={renderHeader}
+          contentContainerStyle={styles.listContent}
+          ListEmptyComponent={
+            loading ? (
+              <ActivityIndicator size="large" color="#6C5CE7" style={styles.listLoading} />
+            ) : (
+              <View style={styles.emptyContainer}>
+                <Hash size={48} color="#666" />
+                <Text style={[styles.emptyTitle, { fontFamily: 'Inter_600SemiBold' }]}>
+                  Nothing here yet
+                </Text>
+                <Text style={[styles.emptyText, { fontFamily: 'Inter_400Regular' }]}>
+                  Posts and reels tagged {formatHashtag(name)} will show up here.
+                </Text>
+              </View>
+            )
+          }
+          ListFooterComponent={
+            !loading && hasMore ? (
+              <TouchableOpacity style={styles.loadMoreButton} onPress={handleLoadMore} disabled={loadingMore}>
+                {loadingMore ? (
+                  <ActivityIndicator size="small" color="#FFFFFF" />
+                ) : (
+                  <Text style={[styles.loadMoreText, { fontFamily: 'Inter_600SemiBold' }]}>Load More</Text>
+                )}
+              </TouchableOpacity>
+            ) : null
+          }
+        />
+      </LinearGradient>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  background: {
+    flex: 1,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: '#1E1E1E',
+  },
+  loadingText: {
+    color: '#FFFFFF',
+    fontSize: 16,
+    marginTop: 12,
+    fontFamily: 'Inter_400Regular',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: 'rgba(108, 92, 231, 0.2)',
+  },
+  backButton: {
+    padding: 16,
+    minWidth: 52,
+    minHeight: 52,
+    backgroundColor: 'rgba(255, 255, 255, 0.1)',
+    borderRadius: 26,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  headerTitle: {
+    flex: 1,
+    fontSize: 20,
+    fontWeight: '600',
+    color: '#FFFFFF',
+    textAlign: 'center',
+    marginHorizontal: 12,
+  },
+  headerSpacer: {
+    minWidth: 52,
+  },
+  listContent: {
+    paddingBottom: 40,
+    flexGrow: 1,
+  },
+  summary: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingVertical: 20,
+  },
+  hashIcon: {
+    width: 80,
+    height: 80,
+    borderRadius: 40,
+    backgroundColor: 'rgba(108, 92, 231, 0.15)',
+    borderWidth: 2,
+    borderColor: '#6C5CE7',
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginRight: 20,
+  },
+  summaryInfo: {
+    flex: 1,
+  },
+  counts: {
+    fontSize: 14,
+    color: '#CCCCCC',
+    marginBottom: 12,
+  },
+  followButton: {
+    backgroundColor: '#6C5CE7',
+    borderRadius: 10,
+    paddingVertical: 10,
+    alignItems: 'center',
+  },
+  followingButton: {
+    backgroundColor: '#333',
+  },
+  followText: {
+    fontSize: 14,
+    color: '#FFFFFF',
+  },
+  relatedRow: {
+    paddingHorizontal: 20,
+    paddingBottom: 16,
+    gap: 8,
+  },
+  relatedChip: {
+    backgroundColor: 'rgba(108, 92, 231, 0.15)',
+    borderRadius: 16,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+  },
+  relatedText: {
+    fontSize: 13,
+    color: '#A29BFE',
+  },
+  sortRow: {
+    flexDirection: 'row',
+    borderBottomWidth: 1,
+    borderBottomColor: '#333',
+    marginBottom: 2,
+  },
+  sortTab: {
+    flex: 1,
+    alignItems: 'center',
+    paddingVertical: 12,
+    borderBottomWidth: 2,
+    borderBottomColor: 'transparent',
+  },
+  activeSortTab: {
+    borderBottomColor: '#6C5CE7',
+  },
+  sortText: {
+    fontSize: 14,
+    color: '#888',
+  },
+  activeSortText: {
+    color: '#FFFFFF',
+  },
+  gridRow: {
+    gap: 2,
+    marginBottom: 2,
+  },
+  tile: {
+    width: tileSize,
+    height: tileSize * 1.3,
+  },
+  tileImage: {
+    width: '100%',
+    height: '100%',
+    backgroundColor: '#333',
+  },
+  tilePlaceholder: {
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  tileOverlay: {
+    position: 'absolute',
+    left: 6,
+    bottom: 6,
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+  },
+  tileStat: {
+    fontSize: 12,
+    color: '#FFFFFF',
+    textShadowColor: 'rgba(0, 0, 0, 0.6)',
+    textShadowRadius: 3,
+  },
+  listLoading: {
+    marginTop: 40,
+  },
+  emptyContainer: {
+    alignItems: 'center',
+    paddingHorizontal: 40,
+    paddingTop: 48,
+  },
+  emptyTitle: {
+    fontSize: 18,
+    color: '#FFFFFF',
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#888',
+    textAlign: 'center',
+    lineHeight: 20,
+  },
+  loadMoreButton: {
+    backgroundColor: '#6C5CE7',
+    borderRadius: 10,
+    paddingVertical: 12,
+    marginHorizontal: 20,
+    marginTop: 16,
+    alignItems: 'center',
+  },
+  loadMoreText: {
+    fontSize: 14,
+    color: '#FFFFFF',
+  },
+});
@@ -0,0 +1,333 @@
+import React, { useState, useCallback } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  SafeAreaView,
+  ScrollView,
+  TouchableOpacity,
+  ActivityIndicator,
+  RefreshControl,
+} from 'react-native';
+import { LinearGradient } from 'expo-linear-gradient';
+import { useFonts, Inter_400Regular, Inter_500Medium, Inter_600SemiBold } from '@expo-google-fonts/inter';
+import { ArrowLeft, Clock, CheckCircle, XCircle, Crown } from 'lucide-react-native';
+import { useRouter, useFocusEffect } from 'expo-router';
+import { useUser } from '@/contexts/UserContext';
+import { dataService } from '@/services/dataService';
+import { HostApplicationStatus, HostProfile } from '@/types';
+import { handleBackNavigation } from '@/utils/navigation';
+
+const STATUS_DETAILS: Record<HostApplicationStatus, { title: string; description: string; color: string }> = {
+  pending: {
+    title: 'Under Review',
+    description: 'Your application is waiting for review. Your host profile will become visible in search once it is approved.',
+    color: '#FFA500',
+  },
+  approved: {
+    title: 'Approved',
+    description: 'You are an approved host. People can now find you in search and book sessions with you.',
+    color: '#00D46A',
+  },
+  rejected: {
+    title: 'Not Approved',
+    description: 'Your application was not approved. Review the feedback below, update your application and resubmit it.',
+    color: '#FF6B6B',
+  },
+};
+
+const formatDate = (dateString?: string) =>
+  dateString
+    ? new Date(dateString).toLocaleDateString('en-US', { year: 'numeric', month: 'short', day: 'numeric' })
+    : '';
+
+export default function HostApplicationStatusScreen() {
+  const router = useRouter();
+  const { user } = useUser();
+  const [application, setApplication] = useState<HostProfile | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [fontsLoaded] = useFonts({
+    Inter_400Regular,
+    Inter_500Medium,
+    Inter_600SemiBold,
+  });
+
+  const loadApplication = useCallback(async () => {
+    if (!user?.id) return;
+
+    try {
+      const hostProfile = await dataService.host.getHostProfile(user.id);
+      setApplication(hostProfile);
+    } catch (error) {
+      console.error('Error loading host application:', error);
+    } finally {
+      setLoading(false);
+      setRefreshing(false);
+    }
+  }, [user?.id]);
+
+  // Reload when coming back from a resubmission
+  useFocusEffect(
+    useCallback(() => {
+      loadApplication();
+    }, [loadApplication])
+  );
+
+  const handleRefresh = () => {
+    setRefreshing(true);
+    loadApplication();
+  };
+
+  if (!fontsLoaded || loading) {
+    return (
+      <View style={styles.loadingContainer}>
+        <ActivityIndicator size="large" color="#6C5CE7" />
+        <Text style={styles.loadingText}>Loading...</Text>
+      </View>
+    );
+  }
+
+  const details = application ? STATUS_DETAILS[application.status] : null;
+  const StatusIcon = application?.status === 'approved'
+    ? CheckCircle
+    : application?.status === 'rejected'
+      ? XCircle
+      : Clock;
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <LinearGradient
+        colors={['#1E1E1E', '#2A2A2A', '#1E1E1E']}
+        style={styles.background}
+      >
+        {/* Header */}
+        <View style={styles.header}>
+          <TouchableOpacity onPress={() => handleBackNavigation()} style={styles.backButton}>
+            <ArrowLeft size={28} color="#FFFFFF" />
+          </TouchableOpacity>
+          <Text style={[styles.headerTitle, { fontFamily: 'Inter_600SemiBold' }]}>
+            Host Application
+          </Text>
+          <View style={styles.headerSpacer} />
+        </View>
+
+        <ScrollView
+          style={styles.scrollView}
+          contentContainerStyle={styles.scrollContent}
+          showsVerticalScrollIndicator={false}
+          refreshControl={<RefreshControl refreshing={refreshing} onRefresh={handleRefresh} tintColor="#6C5CE7" />}
+        >
+          {!application || !details ? (
+            <View style={styles.emptyContainer}>
+              <Crown size={48} color="#666" />
+              <Text style={[styles.emptyTitle, { fontFamily: 'Inter_600SemiBold' }]}>
+                No application yet
+              </Text>
+              <Text style={[styles.emptyText, { fontFamily: 'Inter_400Regular' }]}>
+                Apply to become a host to start offering sessions.
+              </Text>
+              <TouchableOpacity style={styles.primaryButton} onPress={() => router.push('/host-registration')}>
+                <Text style={[styles.primaryButtonText, { fontFamily: 'Inter_600SemiBold' }]}>
+                  Apply Now
+                </Text>
+              </TouchableOpacity>
+            </View>
+          ) : (
+            <>
+              <View style={[styles.statusCard, { borderColor: details.color }]}>
+                <StatusIcon size={40} color={details.color} />
+                <Text style={[styles.statusTitle, { fontFamily: 'Inter_600SemiBold', color: details.color }]}>
+                  {details.title}
+                </Text>
+                <Text style={[styles.statusDescription, { fontFamily: 'Inter_400Regular' }]}>
+                  {details.description}
+                </Text>
+              </View>
+
+              <View style={styles.infoCard}>
+                <View style={styles.infoRow}>
+                  <Text style={[styles.infoLabel, { fontFamily: 'Inter_500Medium' }]}>Submitted</Text>
+                  <Text style={[styles.infoValue, { fontFamily: 'Inter_400Regular' }]}>
+                    {formatDate(application.submittedAt)}
+                  </Text>
+                </View>
+                {application.status === 'approved' && application.approvalDate && (
+                  <View style={styles.infoRow}>
+                    <Text style={[styles.infoLabel, { fontFamily: 'Inter_500Medium' }]}>Approved</Text>
+                    <Text style={[styles.infoValue, { fontFamily: 'Inter_400Regular' }]}>
+                      {formatDate(application.approvalDate)}
+                    </Text>
+                  </View>
+                )}
+              </View>
+
+              {application.status === 'rejected' && (
+                <>
+                  <View style={styles.reasonCard}>
+                    <Text style={[styles.reasonLabel, { fontFamily: 'Inter_600SemiBold' }]}>
+                      Reason
+                    </Text>
+                    <Text style={[styles.reasonText, { fontFamily: 'Inter_400Regular' }]}>
+                      {application.rejectionReason}
+                    </Text>
+                  </View>
+
+                  <TouchableOpacity style={styles.primaryButton} onPress={() => router.push('/host-registration')}>
+                    <Text style={[styles.primaryButtonText, { fontFamily: 'Inter_600SemiBold' }]}>
+                      Update and Resubmit
+                    </Text>
+                  </TouchableOpacity>
+                </>
+              )}
+
+              {application.status === 'approved' && (
+                <TouchableOpacity style={styles.primaryButton} onPress={() => router.push('/host-availability')}>
+                  <Text style={[styles.primaryButtonText, { fontFamily: 'Inter_600SemiBold' }]}>
+                    Manage Availability
+                  </Text>
+                </TouchableOpacity>
+              )}
+            </>
+          )}
+        </ScrollView>
+      </LinearGradient>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  background: {
+    flex: 1,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: '#1E1E1E',
+  },
+  loadingText: {
+    color: '#FFFFFF',
+    fontSize: 16,
+    marginTop: 12,
+    fontFamily: 'Inter_400Regular',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: 'rgba(108, 92, 231, 0.2)',
+  },
+  backButton: {
+    padding: 16,
+    minWidth: 52,
+    minHeight: 52,
+    backgroundColor: 'rgba(255, 255, 255, 0.1)',
+    borderRadius: 26,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+  headerSpacer: {
+    minWidth: 52,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  scrollContent: {
+    paddingHorizontal: 20,
+    paddingVertical: 20,
+  },
+  statusCard: {
+    backgroundColor: '#1A1A1A',
+    borderRadius: 16,
+    borderWidth: 1,
+    padding: 24,
+    alignItems: 'center',
+    marginBottom: 16,
+  },
+  statusTitle: {
+    fontSize: 22,
+    marginTop: 12,
+    marginBottom: 8,
+  },
+  statusDescription: {
+    fontSize: 14,
+    color: '#CCCCCC',
+    textAlign: 'center',
+    lineHeight: 20,
+  },
+  infoCard: {
+    backgroundColor: '#1A1A1A',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 16,
+  },
+  infoRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingVertical: 6,
+  },
+  infoLabel: {
+    fontSize: 14,
+    color: '#888',
+  },
+  infoValue: {
+    fontSize: 14,
+    color: '#FFFFFF',
+  },
+  reasonCard: {
+    backgroundColor: 'rgba(255, 107, 107, 0.1)',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 20,
+  },
+  reasonLabel: {
+    fontSize: 14,
+    color: '#FF6B6B',
+    marginBottom: 6,
+  },
+  reasonText: {
+    fontSize: 14,
+    color: '#FFFFFF',
+    lineHeight: 20,
+  },
+  primaryButton: {
+    backgroundColor: '#6C5CE7',
+    paddingVertical: 16,
+    borderRadius: 12,
+    alignItems: 'center',
+    alignSelf: 'stretch',
+    marginTop: 8,
+  },
+  primaryButtonText: {
+    fontSize: 16,
+    color: '#FFFFFF',
+  },
+  emptyContainer: {
+    padding: 40,
+    alignItems: 'center',
+  },
+  emptyTitle: {
+    fontSize: 18,
+    color: '#FFFFFF',
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#888',
+    textAlign: 'center',
+    marginBottom: 16,
+  },
+});
@@ -0,0 +1,511 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  SafeAreaView,
+  FlatList,
+  TouchableOpacity,
+  TextInput,
+  Alert,
+  Modal,
+  Image,
+  ActivityIndicator,
+  RefreshControl,
+} from 'react-native';
+import { LinearGradient } from 'expo-linear-gradient';
+import { useFonts, Inter_400Regular, Inter_500Medium, Inter_600SemiBold } from '@expo-google-fonts/inter';
+import { ArrowLeft, Check, X, ShieldCheck } from 'lucide-react-native';
+import { useUser } from '@/contexts/UserContext';
+import { dataService } from '@/services/dataService';
+import { HostProfile } from '@/types';
+import { handleBackNavigation } from '@/utils/navigation';
+
+interface ApplicationItemProps {
+  application: HostProfile;
+  processing: boolean;
+  onApprove: (application: HostProfile) => void;
+  onReject: (application: HostProfile) => void;
+}
+
+const ApplicationItem: React.FC<ApplicationItemProps> = ({ application, processing, onApprove, onReject }) => {
+  const applicant = application.user;
+  const tags = [
+    ...(application.relationshipRoles || []),
+    ...(application.interests || []),
+    ...(application.expertise || []),
+  ];
+
+  return (
+    <View style={styles.applicationCard}>
+      <View style={styles.applicantRow}>
+        <Image source={{ uri: applicant?.avatar }} style={styles.avatar} />
+        <View style={styles.applicantInfo}>
+          <Text style={[styles.applicantName, { fontFamily: 'Inter_600SemiBold' }]}>
+            {applicant?.fullName || applicant?.username || 'Unknown user'}
+          </Text>
+          <Text style={[styles.applicantMeta, { fontFamily: 'Inter_400Regular' }]}>
+            @{applicant?.handle || applicant?.username} · {application.priceCategory}
+            {applicant?.hourlyRate ? ` · $${applicant.hourlyRate}/hr` : ''}
+          </Text>
+          {application.submittedAt && (
+            <Text style={[styles.applicantMeta, { fontFamily: 'Inter_400Regular' }]}>
+              Submitted {new Date(application.submittedAt).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}
+            </Text>
+          )}
+        </View>
+      </View>
+
+      {application.description ? (
+        <Text style={[styles.description, { fontFamily: 'Inter_400Regular' }]}>
+          {application.description}
+        </Text>
+      ) : null}
+
+      {tags.length > 0 && (
+        <View style={styles.tags}>
+          {tags.map(tag => (
+            <View key={tag} style={styles.tag}>
+              <Text style={[styles.tagText, { fontFamily: 'Inter_500Medium' }]}>{tag}</Text>
+            </View>
+          ))}
+        </View>
+      )}
+
+      <View style={styles.actions}>
+        <TouchableOpacity
+          style={[styles.actionButton, styles.rejectButton]}
+          onPress={() => onReject(application)}
+          disabled={processing}
+        >
+          <X size={16} color="#FF6B6B" />
+          <Text style={[styles.rejectText, { fontFamily: 'Inter_600SemiBold' }]}>Reject</Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={[styles.actionButton, styles.approveButton]}
+          onPress={() => onApprove(application)}
+          disabled={processing}
+        >
+          {processing ? (
+            <ActivityIndicator size="small" color="#FFFFFF" />
+          ) : (
+            <>
+              <Check size={16} color="#FFFFFF" />
+              <Text style={[styles.approveText, { fontFamily: 'Inter_600SemiBold' }]}>Approve</Text>
+            </>
+          )}
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+};
+
+export default function HostApplicationsReviewScreen() {
+  const { user } = useUser();
+  const [applications, setApplications] = useState<HostProfile[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [processingId, setProcessingId] = useState<string | null>(null);
+  const [rejecting, setRejecting] = useState<HostProfile | null>(null);
+  const [rejectionReason, setRejectionReason] = useState('');
+  const [fontsLoaded] = useFonts({
+    Inter_400Regular,
+    Inter_500Medium,
+    Inter_600SemiBold,
+  });
+
+  const loadApplications = useCallback(async () => {
+    try {
+      const pending = await dataService.host.getPendingHostApplications();
+      setApplications(pending);
+    } catch (error) {
+      console.error('Error loading host applications:', error);
+    } finally {
+      setLoading(false);
+      setRefreshing(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (user?.isModerator) {
+      loadApplications();
+    } else {
+      setLoading(false);
+    }
+  }, [user?.isModerator, loadApplications]);
+
+  const removeFromQueue = (applicationId: string) => {
+    setApplications(prev => prev.filter(item => item.id !== applicationId));
+  };
+
+  const handleApprove = (application: HostProfile) => {
+    if (!user) return;
+
+    Alert.alert(
+      'Approve Host',
+      `Approve ${application.user?.username || 'this user'} as a host?`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Approve',
+          onPress: async () => {
+            setProcessingId(application.id);
+            const success = await dataService.host.approveHostApplication(application.id, user.id);
+            setProcessingId(null);
+
+            if (success) {
+              removeFromQueue(application.id);
+            } else {
+              Alert.alert('Error', 'Failed to approve application. It may have already been reviewed.');
+              loadApplications();
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const handleConfirmReject = async () => {
+    if (!user || !rejecting) return;
+
+    if (!rejectionReason.trim()) {
+      Alert.alert('Reason Required', 'Let the applicant know why their application was not approved.');
+      return;
+    }
+
+    const application = rejecting;
+    setProcessingId(application.id);
+    const success = await dataService.host.rejectHostApplication(application.id, user.id, rejectionReason);
+    setProcessingId(null);
+
+    if (success) {
+      removeFromQueue(application.id);
+      setRejecting(null);
+      setRejectionReason('');
+    } else {
+      Alert.alert('Error', 'Failed to reject application. It may have already been reviewed.');
+      loadApplications();
+    }
+  };
+
+  if (!fontsLoaded || loading) {
+    return (
+      <View style={styles.loadingContainer}>
+        <ActivityIndicator size="large" color="#6C5CE7" />
+        <Text style={styles.loadingText}>Loading...</Text>
+      </View>
+    );
+  }
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <LinearGradient
+        colors={['#1E1E1E', '#2A2A2A', '#1E1E1E']}
+        style={styles.background}
+      >
+        {/* Header */}
+        <View style={styles.header}>
+          <TouchableOpacity onPress={() => handleBackNavigation()} style={styles.backButton}>
+            <ArrowLeft size={28} color="#FFFFFF" />
+          </TouchableOpacity>
+          <Text style={[styles.headerTitle, { fontFamily: 'Inter_600SemiBold' }]}>
+            Host Applications
+          </Text>
+          <View style={styles.headerSpacer} />
+        </View>
+
+        {!user?.isModerator ? (
+          <View style={styles.emptyContainer}>
+            <ShieldCheck size={48} color="#666" />
+            <Text style={[styles.emptyTitle, { fontFamily: 'Inter_600SemiBold' }]}>
+              Moderators only
+            </Text>
+            <Text style={[styles.emptyText, { fontFamily: 'Inter_400Regular' }]}>
+              You do not have access to review host applications.
+            </Text>
+          </View>
+        ) : (
+          <FlatList
+            data={applications}
+            keyExtractor={(item) => item.id}
+            renderItem={({ item }) => (
+              <ApplicationItem
+                application={item}
+                processing={processingId === item.id}
+                onApprove={handleApprove}
+                onReject={setRejecting}
+              />
+            )}
+            contentContainerStyle={styles.listContent}
+            refreshControl={
+              <RefreshControl
+                refreshing={refreshing}
+                onRefresh={() => {
+                  setRefreshing(true);
+                  loadApplications();
+                }}
+                tintColor="#6C5CE7"
+              />
+            }
+            ListEmptyComponent={
+              <View style={styles.emptyContainer}>
+                <ShieldCheck size={48} color="#666" />
+                <Text style={[styles.emptyTitle, { fontFamily: 'Inter_600SemiBold' }]}>
+                  All caught up
+                </Text>
+                <Text style={[styles.emptyText, { fontFamily: 'Inter_400Regular' }]}>
+                  There are no host applications waiting for review.
+                </Text>
+              </View>
+            }
+          />
+        )}
+
+        {/* Rejection Reason Modal */}
+        <Modal
+          visible={!!rejecting}
+          transparent={true}
+          animationType="fade"
+          onRequestClose={() => setRejecting(null)}
+        >
+          <View style={styles.modalOverlay}>
+            <View style={styles.modalContent}>
+              <Text style={[styles.modalTitle, { fontFamily: 'Inter_600SemiBold' }]}>
+                Reject Application
+              </Text>
+              <Text style={[styles.modalSubtitle, { fontFamily: 'Inter_400Regular' }]}>
+                The applicant will see this reason and can resubmit.
+              </Text>
+              <TextInput
+                style={[styles.reasonInput, { fontFamily: 'Inter_400Regular' }]}
+                placeholder="Reason for rejection"
+                placeholderTextColor="#666"
+                value={rejectionReason}
+                onChangeText={setRejectionReason}
+                multiline
+                maxLength={500}
+                textAlignVertical="top"
+              />
+              <View style={styles.modalActions}>
+                <TouchableOpacity
+                  style={[styles.actionButton, styles.cancelButton]}
+                  onPress={() => {
+                    setRejecting(null);
+                    setRejectionReason('');
+                  }}
+                >
+                  <Text style={[styles.cancelText, { fontFamily: 'Inter_600SemiBold' }]}>Cancel</Text>
+                </TouchableOpacity>
+                <TouchableOpacity
+                  style={[styles.actionButton, styles.confirmRejectButton]}
+                  onPress={handleConfirmReject}
+                  disabled={!!processingId}
+                >
+                  {processingId ? (
+                    <ActivityIndicator size="small" color="#FFFFFF" />
+                  ) : (
+                    <Text style={[styles.approveText, { fontFamily: 'Inter_600SemiBold' }]}>Reject</Text>
+                  )}
+                </TouchableOpacity>
+              </View>
+            </View>
+          </View>
+        </Modal>
+      </LinearGradient>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  background: {
+    flex: 1,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: '#1E1E1E',
+  },
+  loadingText: {
+    color: '#FFFFFF',
+    fontSize: 16,
+    marginTop: 12,
+    fontFamily: 'Inter_400Regular',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: 'rgba(108, 92, 231, 0.2)',
+  },
+  backButton: {
+    padding: 16,
+    minWidth: 52,
+    minHeight: 52,
+    backgroundColor: 'rgba(255, 255, 255, 0.1)',
+    borderRadius: 26,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+  headerSpacer: {
+    minWidth: 52,
+  },
+  listContent: {
+    paddingHorizontal: 20,
+    paddingVertical: 20,
+    flexGrow: 1,
+  },
+  applicationCard: {
+    backgroundColor: '#1A1A1A',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 12,
+  },
+  applicantRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  avatar: {
+    width: 48,
+    height: 48,
+    borderRadius: 24,
+    backgroundColor: '#333',
+    marginRight: 12,
+  },
+  applicantInfo: {
+    flex: 1,
+  },
+  applicantName: {
+    fontSize: 16,
+    color: '#FFFFFF',
+    marginBottom: 2,
+  },
+  applicantMeta: {
+    fontSize: 12,
+    color: '#888',
+  },
+  description: {
+    fontSize: 14,
+    color: '#CCCCCC',
+    lineHeight: 20,
+    marginBottom: 12,
+  },
+  tags: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginBottom: 12,
+  },
+  tag: {
+    backgroundColor: 'rgba(108, 92, 231, 0.2)',
+    borderRadius: 8,
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+    marginRight: 6,
+    marginBottom: 6,
+  },
+  tagText: {
+    fontSize: 12,
+    color: '#B8AFFF',
+  },
+  actions: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  actionButton: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 12,
+    borderRadius: 10,
+    gap: 6,
+  },
+  rejectButton: {
+    borderWidth: 1,
+    borderColor: '#FF6B6B',
+  },
+  rejectText: {
+    fontSize: 14,
+    color: '#FF6B6B',
+  },
+  approveButton: {
+    backgroundColor: '#00D46A',
+  },
+  approveText: {
+    fontSize: 14,
+    color: '#FFFFFF',
+  },
+  emptyContainer: {
+    flex: 1,
+    padding: 40,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  emptyTitle: {
+    fontSize: 18,
+    color: '#FFFFFF',
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#888',
+    textAlign: 'center',
+  },
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.7)',
+    justifyContent: 'center',
+    paddingHorizontal: 24,
+  },
+  modalContent: {
+    backgroundColor: '#1A1A1A',
+    borderRadius: 16,
+    padding: 20,
+  },
+  modalTitle: {
+    fontSize: 18,
+    color: '#FFFFFF',
+    marginBottom: 6,
+  },
+  modalSubtitle: {
+    fontSize: 13,
+    color: '#888',
+    marginBottom: 16,
+  },
+  reasonInput: {
+    backgroundColor: '#2A2A2A',
+    borderRadius: 12,
+    padding: 12,
+    fontSize: 14,
+    color: '#FFFFFF',
+    minHeight: 100,
+    marginBottom: 16,
+  },
+  modalActions: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  cancelButton: {
+    backgroundColor: '#333',
+  },
+  cancelText: {
+    fontSize: 14,
+    color: '#FFFFFF',
+  },
+  confirmRejectButton: {
+    backgroundColor: '#FF6B6B',
+  },
+});
@@ -0,0 +1,581 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  SafeAreaView,
+  ScrollView,
+  TouchableOpacity,
+  TextInput,
+  Alert,
+  Switch,
+  Modal,
+  ActivityIndicator,
+} from 'react-native';
+import { LinearGradient } from 'expo-linear-gradient';
+import { useFonts, Inter_400Regular, Inter_500Medium, Inter_600SemiBold } from '@expo-google-fonts/inter';
+import { ArrowLeft, Save, Plus, Minus, Trash2, Globe, CalendarX } from 'lucide-react-native';
+import { useUser } from '@/contexts/UserContext';
+import { dataService } from '@/services/dataService';
+import DatePicker from '@/components/DatePicker';
+import { AvailabilityException, AvailabilityWindow, HostAvailability, TimeWindow } from '@/types';
+import { formatTimeOfDay, getDeviceTimeZone, isValidTimeZone, parseTimeOfDay } from '@/utils/availabilitySlots';
+import { handleBackNavigation } from '@/utils/navigation';
+
+const DAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+const DEFAULT_WINDOW: TimeWindow = { startTime: '09:00', endTime: '17:00' };
+const STEP_MINUTES = 30;
+
+interface TimeStepperProps {
+  value: string;
+  min: number;
+  max: number;
+  onChange: (value: string) => void;
+}
+
+// Compact -/+ control moving a time in 30 minute steps
+const TimeStepper: React.FC<TimeStepperProps> = ({ value, min, max, onChange }) => {
+  const minutes = parseTimeOfDay(value);
+
+  return (
+    <View style={styles.stepper}>
+      <TouchableOpacity
+        style={styles.stepperButton}
+        onPress={() => onChange(formatTimeOfDay(Math.max(min, minutes - STEP_MINUTES)))}
+        disabled={minutes - STEP_MINUTES < min}
+      >
+        <Minus size={14} color="#FFFFFF" />
+      </TouchableOpacity>
+      <Text style={styles.stepperValue}>{value}</Text>
+      <TouchableOpacity
+        style={styles.stepperButton}
+        onPress={() => onChange(formatTimeOfDay(Math.min(max, minutes + STEP_MINUTES)))}
+        disabled={minutes + STEP_MINUTES > max}
+      >
+        <Plus size={14} color="#FFFFFF" />
+      </TouchableOpacity>
+    </View>
+  );
+};
+
+interface WindowRowProps {
+  window: TimeWindow;
+  onChange: (window: TimeWindow) => void;
+  onRemove: () => void;
+}
+
+const WindowRow: React.FC<WindowRowProps> = ({ window, onChange, onRemove }) => {
+  const start = parseTimeOfDay(window.startTime);
+  const end = parseTimeOfDay(window.endTime);
+
+  return (
+    <View style={styles.windowRow}>
+      <TimeStepper
+        value={window.startTime}
+        min={0}
+        max={end - STEP_MINUTES}
+        onChange={(startTime) => onChange({ ...window, startTime })}
+      />
+      <Text style={styles.windowSeparator}>to</Text>
+      <TimeStepper
+        value={window.endTime}
+        min={start + STEP_MINUTES}
+        max={24 * 60}
+        onChange={(endTime) => onChange({ ...window, endTime })}
+      />
+      <TouchableOpacity style={styles.removeButton} onPress={onRemove}>
+        <Trash2 size={16} color="#FF6B6B" />
+      </TouchableOpacity>
+    </View>
+  );
+};
+
+const toDateString = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+export default function HostAvailabilityScreen() {
+  const { user } = useUser();
+  const [timeZone, setTimeZone] = useState(getDeviceTimeZone());
+  const [weeklySchedule, setWeeklySchedule] = useState<AvailabilityWindow[]>([]);
+  const [exceptions, setExceptions] = useState<AvailabilityException[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [showExceptionPicker, setShowExceptionPicker] = useState(false);
+  const [fontsLoaded] = useFonts({
+    Inter_400Regular,
+    Inter_500Medium,
+    Inter_600SemiBold,
+  });
+
+  useEffect(() => {
+    const loadAvailability = async () => {
+      if (!user) return;
+
+      try {
+        setLoading(true);
+        const availability = await dataService.availability.getHostAvailability(user.id);
+        if (availability) {
+          setTimeZone(availability.timeZone);
+          setWeeklySchedule(availability.weeklySchedule);
+          setExceptions(availability.exceptions);
+        }
+      } catch (error) {
+        console.error('Error loading availability:', error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadAvailability();
+  }, [user]);
+
+  const handleBack = () => {
+    handleBackNavigation();
+  };
+
+  const toggleDay = (dayOfWeek: number, enabled: boolean) => {
+    setWeeklySchedule(prev => enabled
+      ? [...prev, { dayOfWeek, ...DEFAULT_WINDOW }]
+      : prev.filter(window => window.dayOfWeek !== dayOfWeek)
+    );
+  };
+
+  const updateWeeklyWindow = (index: number, window: TimeWindow) => {
+    setWeeklySchedule(prev => prev.map((item, i) => i === index ? { ...item, ...window } : item));
+  };
+
+  const removeWeeklyWindow = (index: number) => {
+    setWeeklySchedule(prev => prev.filter((_, i) => i !== index));
+  };
+
+  const addWeeklyWindow = (dayOfWeek: number) => {
+    const dayWindows = weeklySchedule.filter(window => window.dayOfWeek === dayOfWeek);
+    const latestEnd = Math.max(...dayWindows.map(window => parseTimeOfDay(window.endTime)));
+    const start = Math.min(latestEnd + 60, 23 * 60);
+    setWeeklySchedule(prev => [
+      ...prev,
+      { dayOfWeek, startTime: formatTimeOfDay(start), endTime: formatTimeOfDay(Math.min(start + 120, 24 * 60)) },
+    ]);
+  };
+
+  const addException = (date: Date) => {
+    const dateString = toDateString(date);
+    setShowExceptionPicker(false);
+
+    if (exceptions.some(exception => exception.date === dateString)) {
+      Alert.alert('Already Added', 'There is already an exception for this date.');
+      return;
+    }
+
+    setExceptions(prev => [...prev, { date: dateString, windows: [] }]
+      .sort((a, b) => a.date.localeCompare(b.date)));
+  };
+
+  const updateException = (date: string, windows: TimeWindow[]) => {
+    setExceptions(prev => prev.map(exception => exception.date === date ? { ...exception, windows } : exception));
+  };
+
+  const removeException = (date: string) => {
+    setExceptions(prev => prev.filter(exception => exception.date !== date));
+  };
+
+  // Windows on the same day must not overlap
+  const hasOverlaps = (windows: TimeWindow[]) => {
+    const sorted = [...windows].sort((a, b) => parseTimeOfDay(a.startTime) - parseTimeOfDay(b.startTime));
+    return sorted.some((window, index) =>
+      index > 0 && parseTimeOfDay(window.startTime) < parseTimeOfDay(sorted[index - 1].endTime)
+    );
+  };
+
+  const handleSave = async () => {
+    if (!user) return;
+
+    const trimmedTimeZone = timeZone.trim();
+    if (!isValidTimeZone(trimmedTimeZone)) {
+      Alert.alert('Invalid Time Zone', 'Please enter a time zone like "America/New_York".');
+      return;
+    }
+
+    const overlappingDay = DAY_NAMES.findIndex((_, day) =>
+      hasOverlaps(weeklySchedule.filter(window => window.dayOfWeek === day))
+    );
+    if (overlappingDay !== -1) {
+      Alert.alert('Overlapping Hours', `${DAY_NAMES[overlappingDay]} has overlapping time ranges.`);
+      return;
+    }
+
+    if (exceptions.some(exception => hasOverlaps(exception.windows))) {
+      Alert.alert('Overlapping Hours', 'One of your date exceptions has overlapping time ranges.');
+      return;
+    }
+
+    const availability: HostAvailability = {
+      hostId: user.id,
+      timeZone: trimmedTimeZone,
+      weeklySchedule: [...weeklySchedule].sort((a, b) =>
+        a.dayOfWeek - b.dayOfWeek || parseTimeOfDay(a.startTime) - parseTimeOfDay(b.startTime)
+      ),
+      exceptions,
+    };
+
+    try {
+      setSaving(true);
+      const success = await dataService.availability.saveHostAvailability(availability);
+      if (success) {
+        Alert.alert('Saved', 'Your availability has been updated.');
+      } else {
+        Alert.alert('Error', 'Failed to save availability');
+      }
+    } catch (error) {
+      console.error('Error saving availability:', error);
+      Alert.alert('Error', 'Failed to save availability');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (!fontsLoaded || loading) {
+    return (
+      <View style={styles.loadingContainer}>
+        <ActivityIndicator size="large" color="#6C5CE7" />
+        <Text style={styles.loadingText}>Loading...</Text>
+      </View>
+    );
+  }
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <LinearGradient
+        colors={['#1E1E1E', '#2A2A2A', '#1E1E1E']}
+        style={styles.background}
+      >
+        {/* Header */}
+        <View style={styles.header}>
+          <TouchableOpacity onPress={handleBack} style={styles.backButton}>
+            <ArrowLeft size={28} color="#FFFFFF" />
+          </TouchableOpacity>
+          <Text style={[styles.headerTitle, { fontFamily: 'Inter_600SemiBold' }]}>
+            Availability
+          </Text>
+          <TouchableOpacity onPress={handleSave} style={styles.saveButton} disabled={saving}>
+            {saving ? <ActivityIndicator size="small" color="#FFFFFF" /> : <Save size={22} color="#FFFFFF" />}
+          </TouchableOpacity>
+        </View>
+
+        <ScrollView
+          style={styles.scrollView}
+          contentContainerStyle={styles.scrollContent}
+          showsVerticalScrollIndicator={false}
+          keyboardShouldPersistTaps="handled"
+        >
+          {/* Time Zone */}
+          <View style={styles.section}>
+            <View style={styles.sectionHeader}>
+              <Globe size={18} color="#6C5CE7" />
+              <Text style={[styles.sectionTitle, { fontFamily: 'Inter_600SemiBold' }]}>Time Zone</Text>
+            </View>
+            <TextInput
+              style={[styles.input, { fontFamily: 'Inter_400Regular' }]}
+              value={timeZone}
+              onChangeText={setTimeZone}
+              autoCapitalize="none"
+              autoCorrect={false}
+              placeholder="e.g. America/New_York"
+              placeholderTextColor="#666"
+            />
+            {timeZone !== getDeviceTimeZone() && (
+              <TouchableOpacity onPress={() => setTimeZone(getDeviceTimeZone())}>
+                <Text style={[styles.linkText, { fontFamily: 'Inter_500Medium' }]}>
+                  Use device time zone ({getDeviceTimeZone()})
+                </Text>
+              </TouchableOpacity>
+            )}
+          </View>
+
+          {/* Weekly Schedule */}
+          <View style={styles.section}>
+            <Text style={[styles.sectionTitle, styles.sectionTitleSpacing, { fontFamily: 'Inter_600SemiBold' }]}>
+              Weekly Hours
+            </Text>
+            {DAY_NAMES.map((dayName, dayOfWeek) => {
+              const dayWindows = weeklySchedule
+                .map((window, index) => ({ window, index }))
+                .filter(({ window }) => window.dayOfWeek === dayOfWeek);
+              const enabled = dayWindows.length > 0;
+
+              return (
+                <View key={dayName} style={styles.dayCard}>
+                  <View style={styles.dayHeader}>
+                    <Text style={[styles.dayName, { fontFamily: 'Inter_500Medium' }]}>{dayName}</Text>
+                    <Switch
+                      value={enabled}
+                      onValueChange={(value) => toggleDay(dayOfWeek, value)}
+                      trackColor={{ false: '#3A3A3A', true: '#6C5CE7' }}
+                      thumbColor="#FFFFFF"
+                    />
+                  </View>
+                  {dayWindows.map(({ window, index }) => (
+                    <WindowRow
+                      key={index}
+                      window={window}
+                      onChange={(updated) => updateWeeklyWindow(index, updated)}
+                      onRemove={() => removeWeeklyWindow(index)}
+                    />
+                  ))}
+                  {enabled && (
+                    <TouchableOpacity onPress={() => addWeeklyWindow(dayOfWeek)}>
+                      <Text style={[styles.linkText, { fontFamily: 'Inter_500Medium' }]}>+ Add hours</Text>
+                    </TouchableOpacity>
+                  )}
+                </View>
+              );
+            })}
+          </View>
+
+          {/* Date Exceptions */}
+          <View style={styles.section}>
+            <View style={styles.sectionHeaderRow}>
+              <View style={styles.sectionHeader}>
+                <CalendarX size={18} color="#6C5CE7" />
+                <Text style={[styles.sectionTitle, { fontFamily: 'Inter_600SemiBold' }]}>Date Exceptions</Text>
+              </View>
+              <TouchableOpacity style={styles.addButton} onPress={() => setShowExceptionPicker(true)}>
+                <Plus size={16} color="#FFFFFF" />
+                <Text style={[styles.addButtonText, { fontFamily: 'Inter_500Medium' }]}>Add</Text>
+              </TouchableOpacity>
+            </View>
+            <Text style={[styles.helperText, { fontFamily: 'Inter_400Regular' }]}>
+              Exceptions replace your weekly hours for that date.
+            </Text>
+
+            {exceptions.map(exception => (
+              <View key={exception.date} style={styles.dayCard}>
+                <View style={styles.dayHeader}>
+                  <Text style={[styles.dayName, { fontFamily: 'Inter_500Medium' }]}>
+                    {new Date(`${exception.date}T00:00:00`).toLocaleDateString('en-US', {
+                      weekday: 'short', month: 'short', day: 'numeric', year: 'numeric',
+                    })}
+                  </Text>
+                  <TouchableOpacity onPress={() => removeException(exception.date)}>
+                    <Trash2 size={16} color="#FF6B6B" />
+                  </TouchableOpacity>
+                </View>
+                {exception.windows.length === 0 ? (
+                  <View style={styles.dayOffRow}>
+                    <Text style={[styles.helperText, { fontFamily: 'Inter_400Regular' }]}>Day off</Text>
+                    <TouchableOpacity onPress={() => updateException(exception.date, [DEFAULT_WINDOW])}>
+                      <Text style={[styles.linkText, { fontFamily: 'Inter_500Medium' }]}>Set custom hours</Text>
+                    </TouchableOpacity>
+                  </View>
+                ) : (
+                  exception.windows.map((window, index) => (
+                    <WindowRow
+                      key={index}
+                      window={window}
+                      onChange={(updated) => updateException(
+                        exception.date,
+                        exception.windows.map((item, i) => i === index ? updated : item)
+                      )}
+                      onRemove={() => updateException(
+                        exception.date,
+                        exception.windows.filter((_, i) => i !== index)
+                      )}
+                    />
+                  ))
+                )}
+              </View>
+            ))}
+          </View>
+        </ScrollView>
+
+        <Modal
+          visible={showExceptionPicker}
+          transparent={true}
+          animationType="fade"
+          onRequestClose={() => setShowExceptionPicker(false)}
+        >
+          <View style={styles.modalOverlay}>
+            <DatePicker
+              selectedDate={new Date()}
+              minimumDate={new Date()}
+              onDateChange={addException}
+              onCancel={() => setShowExceptionPicker(false)}
+            />
+          </View>
+        </Modal>
+      </LinearGradient>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  background: {
+    flex: 1,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: '#1E1E1E',
+  },
+  loadingText: {
+    color: '#FFFFFF',
+    fontSize: 16,
+    marginTop: 12,
+    fontFamily: 'Inter_400Regular',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: 'rgba(108, 92, 231, 0.2)',
+  },
+  backButton: {
+    padding: 16,
+    minWidth: 52,
+    minHeight: 52,
+    backgroundColor: 'rgba(255, 255, 255, 0.1)',
+    borderRadius: 26,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+  saveButton: {
+    minWidth: 52,
+    minHeight: 52,
+    backgroundColor: '#6C5CE7',
+    borderRadius: 26,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  scrollView: {
+    flex: 1,
+  },
+  scrollContent: {
+    paddingHorizontal: 20,
+    paddingVertical: 20,
+  },
+  section: {
+    marginBottom: 28,
+  },
+  sectionHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginBottom: 12,
+  },
+  sectionHeaderRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  sectionTitle: {
+    fontSize: 18,
+    color: '#FFFFFF',
+  },
+  sectionTitleSpacing: {
+    marginBottom: 12,
+  },
+  input: {
+    backgroundColor: '#1A1A1A',
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    fontSize: 16,
+    color: '#FFFFFF',
+    borderWidth: 1,
+    borderColor: '#333',
+  },
+  linkText: {
+    fontSize: 14,
+    color: '#6C5CE7',
+    marginTop: 10,
+  },
+  helperText: {
+    fontSize: 13,
+    color: '#888',
+    marginBottom: 12,
+  },
+  dayCard: {
+    backgroundColor: '#1A1A1A',
+    borderRadius: 12,
+    padding: 14,
+    marginBottom: 10,
+  },
+  dayHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  dayName: {
+    fontSize: 15,
+    color: '#FFFFFF',
+  },
+  dayOffRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginTop: 10,
+  },
+  windowRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 10,
+  },
+  windowSeparator: {
+    color: '#888',
+    fontSize: 13,
+    marginHorizontal: 8,
+    fontFamily: 'Inter_400Regular',
+  },
+  stepper: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#2A2A2A',
+    borderRadius: 8,
+  },
+  stepperButton: {
+    padding: 8,
+  },
+  stepperValue: {
+    color: '#FFFFFF',
+    fontSize: 14,
+    minWidth: 44,
+    textAlign: 'center',
+    fontFamily: 'Inter_500Medium',
+  },
+  removeButton: {
+    marginLeft: 'auto',
+    padding: 6,
+  },
+  addButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#6C5CE7',
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 8,
+    marginBottom: 12,
+  },
+  addButtonText: {
+    fontSize: 14,
+    color: '#FFFFFF',
+    marginLeft: 4,
+  },
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.7)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+});
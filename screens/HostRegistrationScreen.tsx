@@ -15,6 +15,7 @@ import { useRouter } from 'expo-router';
 import { useUser } from '@/contexts/UserContext';
 import LocationSearch from '@/components/LocationSearch';
 import { handleBackNavigation } from '@/utils/navigation';
+import { dataService } from '@/services/dataService';
 import { useDebugLogger, debug } from '@/utils/debugLogger';
 
 interface RegistrationData {
@@ -61,7 +62,7 @@ const priceCategories = [
 
 export default function HostRegistrationScreen() {
   const router = useRouter();
-  const { registerHost } = useUser();
+  const { user, registerHost } = useUser();
   const [currentStep, setCurrentStep] = useState(1);
   const [registrationData, setRegistrationData] = useState<RegistrationData>({
     description: '',
@@ -72,6 +73,34 @@ export default function HostRegistrationScreen() {
     priceCategory: 'casual',
     location: '',
   });
+  const [isResubmission, setIsResubmission] = useState(false);
+
+  // Prefill from a previous application so a rejected applicant can edit and resubmit
+  useEffect(() => {
+    if (!user?.id) return;
+
+    const loadExistingApplication = async () => {
+      const existing = await dataService.host.getHostProfile(user.id);
+      if (!existing) return;
+
+      const category = priceCategories.find(item => item.id === existing.priceCategory);
+      setIsResubmission(true);
+      setRegistrationData(prev => ({
+        ...prev,
+        description: existing.description || '',
+        relationshipRoles: existing.relationshipRoles || [],
+        interests: existing.interests || [],
+        expertise: existing.expertise || [],
+        priceCategory: category?.id || prev.priceCategory,
+        hourlyRate: user.hourlyRate || category?.price || prev.hourlyRate,
+        location: user.location || '',
+        latitude: user.latitude,
+        longitude: user.longitude,
+      }));
+    };
+
+    loadExistingApplication();
+  }, [user?.id]);
 
   const handleNext = () => {
     if (currentStep < 8) {
@@ -146,12 +175,16 @@ export default function HostRegistrationScreen() {
       
       if (success) {
         Alert.alert(
-          'Registration Complete!',
-          'Congratulations! You are now registered as a host. Your profile is now active.',
+          isResubmission ? 'Application Resubmitted' : 'Application Submitted',
+          'Thanks for applying to become a host. Our team will review your application and your profile will become visible to others once it is approved.',
           [
             {
-              text: 'Continue',
-              onPress: () => router.replace('/(tabs)/profile')
+              text: 'Set Availability',
+              onPress: () => router.replace('/host-availability')
+            },
+            {
+              text: 'View Status',
+              onPress: () => router.replace('/host-application-status')
             }
           ]
         );
@@ -28,193 +28,7 @@ import { useRouter } from 'expo-router';
 import * as ImagePicker from 'expo-image-picker';
 import { useUser } from '@/contexts/UserContext';
 import { debug, useDebugLogger } from '@/utils/debugLogger';
-
-// Custom Date Picker Component for Web
-const CustomDatePicker: React.FC<{
-  selectedDate: Date;
-  onDateChange: (date: Date) => void;
-  onCancel: () => void;
-}> = ({ selectedDate, onDateChange, onCancel }) => {
-  const [currentYear, setCurrentYear] = useState(selectedDate.getFullYear());
-  const [currentMonth, setCurrentMonth] = useState(selectedDate.getMonth());
-  const [selectedDay, setSelectedDay] = useState(selectedDate.getDate());
-  const [showYearDropdown, setShowYearDropdown] = useState(false);
-
-  const months = [
-    'January', 'February', 'March', 'April', 'May', 'June',
-    'July', 'August', 'September', 'October', 'November', 'December'
-  ];
-
-  // Generate years from current year back to 1900
-  const currentYearNum = new Date().getFullYear();
-  const years = Array.from({ length: currentYearNum - 1900 + 1 }, (_, i) => currentYearNum - i);
-
-  const getDaysInMonth = (year: number, month: number) => {
-    return new Date(year, month + 1, 0).getDate();
-  };
-
-  const getFirstDayOfMonth = (year: number, month: number) => {
-    return new Date(year, month, 1).getDay();
-  };
-
-  const handleDateSelect = (day: number) => {
-    const newDate = new Date(currentYear, currentMonth, day);
-    if (newDate <= new Date()) { // Can't select future dates
-      onDateChange(newDate);
-    }
-  };
-
-  const renderCalendar = () => {
-    const daysInMonth = getDaysInMonth(currentYear, currentMonth);
-    const firstDay = getFirstDayOfMonth(currentYear, currentMonth);
-    const days = [];
-
-    // Add empty cells for days before the first day of the month
-    for (let i = 0; i < firstDay; i++) {
-      days.push(<View key={`empty-${i}`} style={styles.calendarDay} />);
-    }
-
-    // Add days of the month
-    for (let day = 1; day <= daysInMonth; day++) {
-      const isSelected = day === selectedDay && 
-                        currentMonth === selectedDate.getMonth() && 
-                        currentYear === selectedDate.getFullYear();
-      const isToday = day === new Date().getDate() && 
-                     currentMonth === new Date().getMonth() && 
-                     currentYear === new Date().getFullYear();
-      const isFuture = new Date(currentYear, currentMonth, day) > new Date();
-
-      days.push(
-        <TouchableOpacity
-          key={day}
-          style={[
-            styles.calendarDay,
-            isSelected && styles.selectedDay,
-            isToday && styles.today,
-            isFuture && styles.futureDay
-          ]}
-          onPress={() => !isFuture && handleDateSelect(day)}
-          disabled={isFuture}
-        >
-          <Text style={[
-            styles.calendarDayText,
-            isSelected && styles.selectedDayText,
-            isToday && styles.todayText,
-            isFuture && styles.futureDayText
-          ]}>
-            {day}
-          </Text>
-        </TouchableOpacity>
-      );
-    }
-
-    return days;
-  };
-
-  return (
-    <View style={styles.customDatePicker}>
-      {/* Header */}
-      <View style={styles.calendarHeader}>
-        <TouchableOpacity
-          style={styles.calendarNavButton}
-          onPress={() => {
-            if (currentMonth === 0) {
-              setCurrentMonth(11);
-              setCurrentYear(currentYear - 1);
-            } else {
-              setCurrentMonth(currentMonth - 1);
-            }
-          }}
-        >
-          <Text style={styles.calendarNavText}>‹</Text>
-        </TouchableOpacity>
-        
-        <View style={styles.calendarTitleContainer}>
-          <Text style={styles.calendarMonthText}>
-            {months[currentMonth]}
-          </Text>
-          <TouchableOpacity
-            style={styles.yearSelector}
-            onPress={() => setShowYearDropdown(!showYearDropdown)}
-          >
-            <Text style={styles.calendarYearText}>
-              {currentYear} ▼
-            </Text>
-          </TouchableOpacity>
-        </View>
-        
-        <TouchableOpacity
-          style={styles.calendarNavButton}
-          onPress={() => {
-            if (currentMonth === 11) {
-              setCurrentMonth(0);
-              setCurrentYear(currentYear + 1);
-            } else {
-              setCurrentMonth(currentMonth + 1);
-            }
-          }}
-        >
-          <Text style={styles.calendarNavText}>›</Text>
-        </TouchableOpacity>
-      </View>
-
-      {/* Year Dropdown */}
-      {showYearDropdown && (
-        <View style={styles.yearDropdown}>
-          <ScrollView style={styles.yearScrollView} showsVerticalScrollIndicator={false}>
-            {years.map((year) => (
-              <TouchableOpacity
-                key={year}
-                style={[
-                  styles.yearOption,
-                  year === currentYear && styles.selectedYearOption
-                ]}
-                onPress={() => {
-                  setCurrentYear(year);
-                  setShowYearDropdown(false);
-                }}
-              >
-                <Text style={[
-                  styles.yearOptionText,
-                  year === currentYear && styles.selectedYearOptionText
-                ]}>
-                  {year}
-                </Text>
-              </TouchableOpacity>
-            ))}
-          </ScrollView>
-        </View>
-      )}
-
-      {/* Day headers */}
-      <View style={styles.calendarDaysHeader}>
-        {['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'].map(day => (
-          <Text key={day} style={styles.calendarDayHeader}>{day}</Text>
-        ))}
-      </View>
-
-      {/* Calendar grid */}
-      <View style={styles.calendarGrid}>
-        {renderCalendar()}
-      </View>
-
-      {/* Buttons */}
-      <View style={styles.calendarButtons}>
-        <TouchableOpacity style={styles.calendarButton} onPress={onCancel}>
-          <Text style={styles.calendarButtonText}>Cancel</Text>
-        </TouchableOpacity>
-        <TouchableOpacity 
-          style={[styles.calendarButton, styles.calendarButtonPrimary]}
-          onPress={() => handleDateSelect(selectedDay)}
-        >
-          <Text style={[styles.calendarButtonText, styles.calendarButtonPrimaryText]}>
-            Select
-          </Text>
-        </TouchableOpacity>
-      </View>
-    </View>
-  );
-};
+import DatePicker from '@/components/DatePicker';
 
 type RegistrationStep = 
   | 'login' 
@@ -1149,8 +963,9 @@ export default function LoginScreen() {
               <View style={styles.modalContent}>
                 <Text style={styles.modalTitle}>Select Date of Birth</Text>
                 <View style={styles.webDatePickerContainer}>
-                  <CustomDatePicker
+                  <DatePicker
                     selectedDate={selectedDate}
+                    maximumDate={new Date()} // Can't select future dates
                     onDateChange={(date: Date) => {
                       setSelectedDate(date);
                       const formattedDate = date.toLocaleDateString('en-US', {
@@ -1745,176 +1560,4 @@ const styles = StyleSheet.create({
     color: '#a855f7',
     fontWeight: '600',
   },
-  // Custom Date Picker Styles
-  customDatePicker: {
-    width: 320,
-    backgroundColor: '#1a1a1a',
-    borderRadius: 15,
-    padding: 20,
-  },
-  calendarHeader: {
-    flexDirection: 'row',
-    justifyContent: 'space-between',
-    alignItems: 'center',
-    marginBottom: 20,
-  },
-  calendarNavButton: {
-    width: 40,
-    height: 40,
-    borderRadius: 20,
-    backgroundColor: 'rgba(139, 92, 246, 0.1)',
-    justifyContent: 'center',
-    alignItems: 'center',
-    borderWidth: 1,
-    borderColor: 'rgba(139, 92, 246, 0.3)',
-  },
-  calendarNavText: {
-    fontSize: 20,
-    color: '#a855f7',
-    fontWeight: 'bold',
-  },
-  calendarTitle: {
-    fontSize: 18,
-    fontWeight: 'bold',
-    color: '#ffffff',
-  },
-  calendarDaysHeader: {
-    flexDirection: 'row',
-    marginBottom: 10,
-  },
-  calendarDayHeader: {
-    flex: 1,
-    textAlign: 'center',
-    fontSize: 14,
-    color: '#a855f7',
-    fontWeight: '600',
-    paddingVertical: 8,
-  },
-  calendarGrid: {
-    flexDirection: 'row',
-    flexWrap: 'wrap',
-    marginBottom: 20,
-  },
-  calendarDay: {
-    width: '14.28%',
-    height: 40,
-    justifyContent: 'center',
-    alignItems: 'center',
-    marginVertical: 2,
-  },
-  calendarDayText: {
-    fontSize: 16,
-    color: '#ffffff',
-  },
-  selectedDay: {
-    backgroundColor: '#a855f7',
-    borderRadius: 20,
-  },
-  selectedDayText: {
-    color: '#ffffff',
-    fontWeight: 'bold',
-  },
-  today: {
-    backgroundColor: 'rgba(139, 92, 246, 0.2)',
-    borderRadius: 20,
-    borderWidth: 2,
-    borderColor: '#a855f7',
-  },
-  todayText: {
-    color: '#a855f7',
-    fontWeight: 'bold',
-  },
-  futureDay: {
-    opacity: 0.3,
-  },
-  futureDayText: {
-    color: '#666666',
-  },
-  calendarButtons: {
-    flexDirection: 'row',
-    justifyContent: 'space-between',
-    gap: 10,
-  },
-  calendarButton: {
-    flex: 1,
-    backgroundColor: 'rgba(139, 92, 246, 0.1)',
-    borderRadius: 15,
-    paddingVertical: 12,
-    alignItems: 'center',
-    borderWidth: 1,
-    borderColor: 'rgba(139, 92, 246, 0.3)',
-  },
-  calendarButtonPrimary: {
-    backgroundColor: '#a855f7',
-  },
-  calendarButtonText: {
-    fontSize: 16,
-    color: '#a855f7',
-    fontWeight: '600',
-  },
-  calendarButtonPrimaryText: {
-    color: '#ffffff',
-  },
-  // Year Dropdown Styles
-  calendarTitleContainer: {
-    flexDirection: 'row',
-    alignItems: 'center',
-    gap: 8,
-  },
-  calendarMonthText: {
-    fontSize: 18,
-    fontWeight: 'bold',
-    color: '#ffffff',
-  },
-  yearSelector: {
-    paddingHorizontal: 8,
-    paddingVertical: 4,
-    borderRadius: 8,
-    backgroundColor: 'rgba(139, 92, 246, 0.1)',
-    borderWidth: 1,
-    borderColor: 'rgba(139, 92, 246, 0.3)',
-  },
-  calendarYearText: {
-    fontSize: 16,
-    fontWeight: 'bold',
-    color: '#a855f7',
-  },
-  yearDropdown: {
-    position: 'absolute',
-    top: 60,
-    left: '50%',
-    transform: [{ translateX: -50 }],
-    backgroundColor: '#1a1a1a',
-    borderRadius: 12,
-    borderWidth: 1,
-    borderColor: 'rgba(139, 92, 246, 0.3)',
-    maxHeight: 200,
-    zIndex: 1000,
-    shadowColor: '#000',
-    shadowOffset: { width: 0, height: 4 },
-    shadowOpacity: 0.3,
-    shadowRadius: 8,
-    elevation: 8,
-  },
-  yearScrollView: {
-    maxHeight: 200,
-  },
-  yearOption: {
-    paddingHorizontal: 16,
-    paddingVertical: 12,
-    borderBottomWidth: 1,
-    borderBottomColor: 'rgba(139, 92, 246, 0.1)',
-  },
-  selectedYearOption: {
-    backgroundColor: 'rgba(139, 92, 246, 0.2)',
-  },
-  yearOptionText: {
-    fontSize: 16,
-    color: '#ffffff',
-    textAlign: 'center',
-  },
-  selectedYearOptionText: {
-    color: '#a855f7',
-    fontWeight: 'bold',
-  },
 });
\ No newline at end of file
@@ -0,0 +1,569 @@
+import React, { useState, useEffect, useRef } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  SafeAreaView,
+  FlatList,
+  TouchableOpacity,
+  TextInput,
+  Image,
+  Modal,
+  ScrollView,
+  ActivityIndicator,
+} from 'react-native';
+import { router } from 'expo-router';
+import { LinearGradient } from 'expo-linear-gradient';
+import { ArrowLeft, Search, X, Calendar, User as UserIcon, Users } from 'lucide-react-native';
+import { useUser } from '@/contexts/UserContext';
+import { dataService, MESSAGE_SEARCH_PAGE_SIZE } from '@/services/dataService';
+import DatePicker from '@/components/DatePicker';
+import { MessageSearchFilters, MessageSearchResult, User } from '@/types';
+import { getSearchResultTitle, MESSAGE_TYPE_FILTERS, splitSnippet } from '@/utils/messageSearch';
+
+const SEARCH_DEBOUNCE_MS = 300;
+
+const formatDay = (date: Date) =>
+  date.toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+
+const startOfDay = (date: Date) => new Date(date.getFullYear(), date.getMonth(), date.getDate());
+
+export default function MessageSearchScreen() {
+  const { user: currentUser } = useUser();
+
+  const [query, setQuery] = useState('');
+  const [typeFilter, setTypeFilter] = useState<string | null>(null);
+  const [sender, setSender] = useState<User | null>(null);
+  const [fromDate, setFromDate] = useState<Date | null>(null);
+  const [toDate, setToDate] = useState<Date | null>(null);
+  const [results, setResults] = useState<MessageSearchResult[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [hasMore, setHasMore] = useState(false);
+  const [datePickerTarget, setDatePickerTarget] = useState<'from' | 'to' | null>(null);
+  const [senderPickerVisible, setSenderPickerVisible] = useState(false);
+  const [people, setPeople] = useState<User[]>([]);
+
+  // Ignore responses to searches that have since been replaced
+  const searchIdRef = useRef(0);
+
+  const filters: MessageSearchFilters = {
+    senderId: sender?.id,
+    from: fromDate ? startOfDay(fromDate).toISOString() : undefined,
+    // Inclusive of the chosen day
+    to: toDate ? new Date(startOfDay(toDate).getTime() + 24 * 60 * 60 * 1000).toISOString() : undefined,
+    types: MESSAGE_TYPE_FILTERS.find(filter => filter.label === typeFilter)?.types,
+  };
+  const hasFilters = !!(sender || fromDate || toDate || typeFilter);
+  const canSearch = query.trim().length > 0 || hasFilters;
+
+  // People from the user's conversations, offered in the sender filter
+  useEffect(() => {
+    if (!currentUser?.id) return;
+
+    dataService.message.getConversations(currentUser.id).then(conversations => {
+      const byId = new Map<string, User>();
+      conversations.forEach(conversation => {
+        conversation.participants.forEach(participant => byId.set(participant.id, participant));
+      });
+      setPeople([...byId.values()].sort((a, b) => (a.username || '').localeCompare(b.username || '')));
+    });
+  }, [currentUser?.id]);
+
+  // Search again whenever the query or a filter changes
+  useEffect(() => {
+    const searchId = ++searchIdRef.current;
+
+    if (!canSearch) {
+      setResults([]);
+      setHasMore(false);
+      setLoading(false);
+      return;
+    }
+
+    setLoading(true);
+    const timer = setTimeout(async () => {
+      const page = await dataService.message.searchMessages(query, filters);
+      if (searchId !== searchIdRef.current) return;
+
+      setResults(page);
+      setHasMore(page.length === MESSAGE_SEARCH_PAGE_SIZE);
+      setLoading(false);
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => clearTimeout(timer);
+  }, [query, typeFilter, sender?.id, fromDate?.getTime(), toDate?.getTime()]);
+
+  const loadMore = async () => {
+    if (!hasMore || loading || loadingMore || results.length === 0) return;
+
+    const last = results[results.length - 1].message;
+    const searchId = searchIdRef.current;
+
+    setLoadingMore(true);
+    const page = await dataService.message.searchMessages(query, filters, {
+      before: { createdAt: last.createdAt || last.timestamp, id: last.id },
+    });
+    if (searchId === searchIdRef.current) {
+      setResults(prev => [...prev, ...page.filter(result => !prev.some(item => item.message.id === result.message.id))]);
+      setHasMore(page.length === MESSAGE_SEARCH_PAGE_SIZE);
+    }
+    setLoadingMore(false);
+  };
+
+  // Open the conversation scrolled to the message
+  const openResult = (result: MessageSearchResult) => {
+    router.push({
+      pathname: '/conversation',
+      params: {
+        mode: 'chat',
+        conversationId: result.message.conversationId,
+        userId: result.otherUser?.id || result.message.senderId,
+        userName: getSearchResultTitle(result),
+        messageId: result.message.id,
+      },
+    });
+  };
+
+  const handleBack = () => {
+    if (router.canGoBack()) {
+      router.back();
+    } else {
+      router.push({ pathname: '/conversation', params: { mode: 'list' } });
+    }
+  };
+
+  const clearFilters = () => {
+    setTypeFilter(null);
+    setSender(null);
+    setFromDate(null);
+    setToDate(null);
+  };
+
+  const renderSnippet = (result: MessageSearchResult) => {
+    const typeLabel = MESSAGE_TYPE_FILTERS.find(filter => filter.types.includes(result.message.type))?.label;
+    const segments = splitSnippet(result.snippet);
+
+    if (segments.length === 0) {
+      return <Text style={styles.snippet}>{typeLabel && typeLabel !== 'Text' ? typeLabel : ''}</Text>;
+    }
+
+    return (
+      <Text style={styles.snippet} numberOfLines={2}>
+        {segments.map((segment, index) => (
+          <Text key={index} style={segment.highlighted ? styles.highlight : undefined}>
+            {segment.text}
+          </Text>
+        ))}
+      </Text>
+    );
+  };
+
+  const renderResult = ({ item }: { item: MessageSearchResult }) => {
+    const isGroup = item.conversationType === 'group';
+    const isOwn = item.message.senderId === currentUser?.id;
+    const senderLabel = isOwn ? 'You' : item.message.senderName;
+
+    return (
+      <TouchableOpacity style={styles.resultItem} onPress={() => openResult(item)}>
+        {!isGroup && item.otherUser?.avatar ? (
+          <Image source={{ uri: item.otherUser.avatar }} style={styles.avatar} />
+        ) : (
+          <View style={styles.avatarPlaceholder}>
+            {isGroup ? <Users size={18} color="#FFFFFF" /> : <UserIcon size={18} color="#FFFFFF" />}
+          </View>
+        )}
+        <View style={styles.resultContent}>
+          <View style={styles.resultHeader}>
+            <Text style={styles.resultTitle} numberOfLines={1}>{getSearchResultTitle(item)}</Text>
+            <Text style={styles.resultDate}>{formatDay(new Date(item.message.timestamp))}</Text>
+          </View>
+          {(isGroup || isOwn) && !!senderLabel && (
+            <Text style={styles.resultSender} numberOfLines={1}>{senderLabel}</Text>
+          )}
+          {renderSnippet(item)}
+        </View>
+      </TouchableOpacity>
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <LinearGradient colors={['#1E1E1E', '#2A2A2A']} style={styles.background}>
+        {/* Header */}
+        <View style={styles.header}>
+          <TouchableOpacity style={styles.backButton} onPress={handleBack}>
+            <ArrowLeft size={24} color="#FFFFFF" />
+          </TouchableOpacity>
+          <View style={styles.searchBar}>
+            <Search size={18} color="#999999" />
+            <TextInput
+              style={styles.searchInput}
+              value={query}
+              onChangeText={setQuery}
+              placeholder="Search messages..."
+              placeholderTextColor="#999999"
+              returnKeyType="search"
+              autoFocus
+            />
+            {query.length > 0 && (
+              <TouchableOpacity onPress={() => setQuery('')}>
+                <X size={18} color="#999999" />
+              </TouchableOpacity>
+            )}
+          </View>
+        </View>
+
+        {/* Filters */}
+        <ScrollView
+          horizontal
+          showsHorizontalScrollIndicator={false}
+          style={styles.filtersScroll}
+          contentContainerStyle={styles.filters}
+        >
+          <TouchableOpacity
+            style={[styles.filterChip, sender && styles.activeFilterChip]}
+            onPress={() => setSenderPickerVisible(true)}
+          >
+            <UserIcon size={14} color="#FFFFFF" />
+            <Text style={styles.filterText}>{sender ? sender.username : 'Anyone'}</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={[styles.filterChip, fromDate && styles.activeFilterChip]}
+            onPress={() => setDatePickerTarget('from')}
+          >
+            <Calendar size={14} color="#FFFFFF" />
+            <Text style={styles.filterText}>{fromDate ? `From ${formatDay(fromDate)}` : 'From'}</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={[styles.filterChip, toDate && styles.activeFilterChip]}
+            onPress={() => setDatePickerTarget('to')}
+          >
+            <Calendar size={14} color="#FFFFFF" />
+            <Text style={styles.filterText}>{toDate ? `To ${formatDay(toDate)}` : 'To'}</Text>
+          </TouchableOpacity>
+          {MESSAGE_TYPE_FILTERS.map(filter => (
+            <TouchableOpacity
+              key={filter.label}
+              style={[styles.filterChip, typeFilter === filter.label && styles.activeFilterChip]}
+              onPress={() => setTypeFilter(typeFilter === filter.label ? null : filter.label)}
+            >
+              <Text style={styles.filterText}>{filter.label}</Text>
+            </TouchableOpacity>
+          ))}
+          {hasFilters && (
+            <TouchableOpacity style={styles.clearChip} onPress={clearFilters}>
+              <Text style={styles.clearText}>Clear</Text>
+            </TouchableOpacity>
+          )}
+        </ScrollView>
+
+        {/* Results */}
+        {loading ? (
+          <View style={styles.centered}>
+            <ActivityIndicator size="large" color="#6C5CE7" />
+          </View>
+        ) : (
+          <FlatList
+            data={results}
+            keyExtractor={item => item.message.id}
+            renderItem={renderResult}
+            onEndReached={loadMore}
+            onEndReachedThreshold={0.5}
+            keyboardShouldPersistTaps="handled"
+            contentContainerStyle={results.length === 0 ? styles.centered : undefined}
+            ListEmptyComponent={
+              <View style={styles.emptyState}>
+                <Search size={40} color="#6C5CE7" />
+                <Text style={styles.emptyText}>
+                  {canSearch ? 'No messages found' : 'Search for messages in all your conversations'}
+                </Text>
+              </View>
+            }
+            ListFooterComponent={
+              loadingMore ? <ActivityIndicator style={styles.footerLoader} size="small" color="#6C5CE7" /> : null
+            }
+          />
+        )}
+
+        {/* Date filter */}
+        <Modal
+          visible={datePickerTarget !== null}
+          transparent={true}
+          animationType="fade"
+          onRequestClose={() => setDatePickerTarget(null)}
+        >
+          <View style={styles.modalOverlay}>
+            <DatePicker
+              selectedDate={(datePickerTarget === 'from' ? fromDate : toDate) || new Date()}
+              maximumDate={new Date()}
+              minimumDate={datePickerTarget === 'to' && fromDate ? fromDate : undefined}
+              onDateChange={(date) => {
+                if (datePickerTarget === 'from') {
+                  setFromDate(date);
+                  if (toDate && toDate < date) setToDate(null);
+                } else {
+                  setToDate(date);
+                }
+                setDatePickerTarget(null);
+              }}
+              onCancel={() => {
+                // Cancelling clears the filter that was being edited
+                if (datePickerTarget === 'from') setFromDate(null);
+                if (datePickerTarget === 'to') setToDate(null);
+                setDatePickerTarget(null);
+              }}
+            />
+          </View>
+        </Modal>
+
+        {/* Sender filter */}
+        <Modal
+          visible={senderPickerVisible}
+          animationType="slide"
+          presentationStyle="pageSheet"
+          onRequestClose={() => setSenderPickerVisible(false)}
+        >
+          <View style={styles.sheet}>
+            <View style={styles.sheetHeader}>
+              <Text style={styles.sheetTitle}>Sent by</Text>
+              <TouchableOpacity onPress={() => setSenderPickerVisible(false)}>
+                <X size={24} color="#FFFFFF" />
+              </TouchableOpacity>
+            </View>
+            <FlatList
+              data={[
+                ...(currentUser ? [currentUser] : []),
+                ...people.filter(person => person.id !== currentUser?.id),
+              ]}
+              keyExtractor={item => item.id}
+              ListHeaderComponent={
+                <TouchableOpacity
+                  style={styles.personRow}
+                  onPress={() => {
+                    setSender(null);
+                    setSenderPickerVisible(false);
+                  }}
+                >
+                  <Text style={[styles.personName, !sender && styles.selectedPerson]}>Anyone</Text>
+                </TouchableOpacity>
+              }
+              renderItem={({ item }) => (
+                <TouchableOpacity
+                  style={styles.personRow}
+                  onPress={() => {
+                    setSender(item);
+                    setSenderPickerVisible(false);
+                  }}
+                >
+                  {item.avatar ? (
+                    <Image source={{ uri: item.avatar }} style={styles.personAvatar} />
+                  ) : (
+                    <View style={[styles.avatarPlaceholder, styles.personAvatar]}>
+                      <UserIcon size={14} color="#FFFFFF" />
+                    </View>
+                  )}
+                  <Text style={[styles.personName, sender?.id === item.id && styles.selectedPerson]}>
+                    {item.id === currentUser?.id ? 'You' : item.username}
+                  </Text>
+                </TouchableOpacity>
+              )}
+            />
+          </View>
+        </Modal>
+      </LinearGradient>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#1E1E1E',
+  },
+  background: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: 'rgba(108, 92, 231, 0.2)',
+  },
+  backButton: {
+    width: 44,
+    height: 44,
+    borderRadius: 22,
+    backgroundColor: 'rgba(255, 255, 255, 0.1)',
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginRight: 12,
+  },
+  searchBar: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#2A2A2A',
+    borderRadius: 22,
+    paddingHorizontal: 14,
+    height: 44,
+  },
+  searchInput: {
+    flex: 1,
+    color: '#FFFFFF',
+    fontSize: 16,
+    marginHorizontal: 8,
+  },
+  filtersScroll: {
+    flexGrow: 0,
+  },
+  filters: {
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+  },
+  filterChip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#2A2A2A',
+    borderRadius: 16,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    marginRight: 8,
+  },
+  activeFilterChip: {
+    backgroundColor: '#6C5CE7',
+  },
+  filterText: {
+    color: '#FFFFFF',
+    fontSize: 13,
+    marginLeft: 4,
+  },
+  clearChip: {
+    justifyContent: 'center',
+    paddingHorizontal: 8,
+  },
+  clearText: {
+    color: '#A29BFE',
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  centered: {
+    flexGrow: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  resultItem: {
+    flexDirection: 'row',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: 'rgba(255, 255, 255, 0.05)',
+  },
+  avatar: {
+    width: 44,
+    height: 44,
+    borderRadius: 22,
+  },
+  avatarPlaceholder: {
+    width: 44,
+    height: 44,
+    borderRadius: 22,
+    backgroundColor: '#6C5CE7',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  resultContent: {
+    flex: 1,
+    marginLeft: 12,
+  },
+  resultHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  resultTitle: {
+    flex: 1,
+    color: '#FFFFFF',
+    fontSize: 15,
+    fontWeight: '600',
+    marginRight: 8,
+  },
+  resultDate: {
+    color: '#999999',
+    fontSize: 12,
+  },
+  resultSender: {
+    color: '#A29BFE',
+    fontSize: 13,
+    marginTop: 2,
+  },
+  snippet: {
+    color: '#CCCCCC',
+    fontSize: 14,
+    marginTop: 4,
+    lineHeight: 20,
+  },
+  highlight: {
+    color: '#FFFFFF',
+    fontWeight: '700',
+    backgroundColor: 'rgba(108, 92, 231, 0.45)',
+  },
+  emptyState: {
+    alignItems: 'center',
+    paddingHorizontal: 40,
+  },
+  emptyText: {
+    color: '#999999',
+    fontSize: 15,
+    textAlign: 'center',
+    marginTop: 12,
+  },
+  footerLoader: {
+    marginVertical: 16,
+  },
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.6)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  sheet: {
+    flex: 1,
+    backgroundColor: '#1E1E1E',
+  },
+  sheetHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: 20,
+    borderBottomWidth: 1,
+    borderBottomColor: 'rgba(255, 255, 255, 0.1)',
+  },
+  sheetTitle: {
+    color: '#FFFFFF',
+    fontSize: 18,
+    fontWeight: '600',
+  },
+  personRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingVertical: 14,
+  },
+  personAvatar: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    marginRight: 12,
+  },
+  personName: {
+    color: '#FFFFFF',
+    fontSize: 16,
+  },
+  selectedPerson: {
+    color: '#A29BFE',
+    fontWeight: '600',
+  },
+});
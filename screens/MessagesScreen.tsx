@@ -33,7 +33,7 @@ import Animated, {
 } from 'react-native-reanimated';
 import { PanGestureHandler, PanGestureHandlerGestureEvent } from 'react-native-gesture-handler';
 import * as Haptics from 'expo-haptics';
-import { MessageCircle, LocationEdit as Edit2, Pin, Archive, VolumeX, MoveHorizontal as MoreHorizontal, Search, Plus, ArrowLeft } from 'lucide-react-native';
+import { MessageCircle, LocationEdit as Edit2, Pin, Archive, VolumeX, MoveHorizontal as MoreHorizontal, Search, Plus, ArrowLeft, Users } from 'lucide-react-native';
 import { mockConversations, mockUsers } from '../data/mockData';
 import { Conversation, User } from '../types';
 import { useUser } from '@/contexts/UserContext';
@@ -85,14 +85,26 @@ const MessageCard: React.FC<MessageCardProps> = ({ conversation, onPress, onUser
     otherUserName: otherUser.username || otherUser.fullName
   });
 
+  // Groups show their own title and avatar instead of the other participant
+  const isGroup = conversation.type === 'group';
+  const displayName = isGroup
+    ? conversation.title || conversation.participants.map(p => p.username).join(', ')
+    : otherUser.username;
+  const displayAvatar = isGroup ? conversation.avatar || otherUser.avatar : otherUser.avatar;
+  const memberCount = conversation.members?.length || conversation.participants.length + 1;
+  const lastMessage = conversation.lastMessage;
+  const lastMessagePreview = isGroup && lastMessage.senderName && lastMessage.type !== 'system'
+    ? `${lastMessage.senderId === currentUser?.id ? 'You' : lastMessage.senderName}: ${lastMessage.content}`
+    : lastMessage.content;
+
   const handlePinMessage = () => {
     Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
-    Alert.alert('Pinned', `Conversation with ${otherUser.username} has been pinned`);
+    Alert.alert('Pinned', `Conversation with ${displayName} has been pinned`);
   };
 
   const handleArchiveMessage = () => {
     Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
-    Alert.alert('Archived', `Conversation with ${otherUser.username} has been archived`);
+    Alert.alert('Archived', `Conversation with ${displayName} has been archived`);
   };
 
   const gestureHandler = useAnimatedGestureHandler<PanGestureHandlerGestureEvent>({
@@ -133,6 +145,10 @@ const MessageCard: React.FC<MessageCardProps> = ({ conversation, onPress, onUser
 
   const handleUserPress = () => {
     Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    if (isGroup) {
+      onPress(conversation);
+      return;
+    }
     onUserPress(otherUser.id);
   };
 
@@ -216,16 +232,25 @@ const MessageCard: React.FC<MessageCardProps> = ({ conversation, onPress, onUser
                       />
                     </View>
                   )}
-                  <Image source={{ uri: otherUser.avatar }} style={styles.avatar} />
-                  <View style={styles.onlineIndicator} />
+                  <Image source={{ uri: displayAvatar }} style={styles.avatar} />
+                  {isGroup ? (
+                    <View style={styles.groupIndicator}>
+                      <Users size={10} color="#FFFFFF" />
+                    </View>
+                  ) : (
+                    <View style={styles.onlineIndicator} />
+                  )}
                 </Animated.View>
               </TouchableOpacity>
 
               {/* Message Content */}
               <View style={styles.messageContent}>
                 <View style={styles.messageHeader}>
-                  <TouchableOpacity onPress={handleUserPress}>
-                    <Text style={styles.username}>@{otherUser.username}</Text>
+                  <TouchableOpacity onPress={handleUserPress} style={styles.usernameButton}>
+                    <Text style={styles.username} numberOfLines={1}>
+                      {isGroup ? displayName : `@${displayName}`}
+                    </Text>
+                    {isGroup && <Text style={styles.memberCount}>{memberCount} members</Text>}
                   </TouchableOpacity>
                   <View style={styles.timestampContainer}>
                     <Text style={styles.timestamp}>• {conversation.lastMessage.timestamp}</Text>
@@ -233,7 +258,7 @@ const MessageCard: React.FC<MessageCardProps> = ({ conversation, onPress, onUser
                 </View>
                 
                 <Text style={styles.lastMessage} numberOfLines={2}>
-                  {conversation.lastMessage.content}
+                  {lastMessagePreview}
                 </Text>
               </View>
 
@@ -304,6 +329,7 @@ export default function MessagesScreen() {
       setFilteredConversations(conversations);
     } else {
       const filtered = conversations.filter(conv => 
+        conv.title?.toLowerCase().includes(searchQuery.toLowerCase()) ||
         conv.participants.some(participant => 
           participant.username?.toLowerCase().includes(searchQuery.toLowerCase()) ||
           participant.fullName?.toLowerCase().includes(searchQuery.toLowerCase())
@@ -336,7 +362,9 @@ export default function MessagesScreen() {
       params: { 
         conversationId: conversation.id,
         userId: conversation.participants[0]?.id || '',
-        userName: conversation.participants[0]?.username || ''
+        userName: conversation.type === 'group'
+          ? conversation.title || ''
+          : conversation.participants[0]?.username || ''
       }
     });
   };
@@ -890,12 +918,34 @@ const styles = StyleSheet.create({
     justifyContent: 'space-between',
     marginBottom: 6,
   },
+  usernameButton: {
+    flexShrink: 1,
+    marginRight: 8,
+  },
   username: {
     fontSize: 16,
     fontWeight: '700',
     color: '#FFFFFF',
     fontFamily: Platform.OS === 'ios' ? 'System' : 'sans-serif-medium',
   },
+  memberCount: {
+    fontSize: 12,
+    color: '#999999',
+    marginTop: 2,
+  },
+  groupIndicator: {
+    position: 'absolute',
+    bottom: 3,
+    right: 3,
+    width: 20,
+    height: 20,
+    borderRadius: 10,
+    backgroundColor: '#6C5CE7',
+    borderWidth: 3,
+    borderColor: '#1E1E1E',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
   timestampContainer: {
     flexDirection: 'row',
     alignItems: 'center',
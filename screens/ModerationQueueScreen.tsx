@@ -0,0 +1,465 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  SafeAreaView,
+  FlatList,
+  TouchableOpacity,
+  Alert,
+  Image,
+  ActivityIndicator,
+  RefreshControl,
+} from 'react-native';
+import { LinearGradient } from 'expo-linear-gradient';
+import { useFonts, Inter_400Regular, Inter_500Medium, Inter_600SemiBold } from '@expo-google-fonts/inter';
+import { ArrowLeft, Ban, EyeOff, Flag, ShieldCheck, X } from 'lucide-react-native';
+import { useUser } from '@/contexts/UserContext';
+import { dataService } from '@/services/dataService';
+import { ModerationAction, ModerationQueueItem } from '@/types';
+import { MODERATION_ACTION_LABELS, REPORT_TARGET_LABELS, getReportReasonLabel } from '@/utils/contentReports';
+import { handleBackNavigation } from '@/utils/navigation';
+
+const queueKey = (item: ModerationQueueItem) => `${item.targetType}:${item.targetId}`;
+
+interface ReportItemProps {
+  item: ModerationQueueItem;
+  processing: boolean;
+  onAction: (item: ModerationQueueItem, action: ModerationAction) => void;
+}
+
+const ReportItem: React.FC<ReportItemProps> = ({ item, processing, onAction }) => {
+  const reported = item.targetUser;
+  const canHide = item.targetType !== 'user' && !item.isHidden;
+
+  return (
+    <View style={styles.reportCard}>
+      <View style={styles.reportHeader}>
+        <View style={styles.typeBadge}>
+          <Flag size={12} color="#FF6B6B" />
+          <Text style={[styles.typeText, { fontFamily: 'Inter_600SemiBold' }]}>
+            {REPORT_TARGET_LABELS[item.targetType]}
+          </Text>
+        </View>
+        <Text style={[styles.reportMeta, { fontFamily: 'Inter_400Regular' }]}>
+          {item.reportCount} {item.reportCount === 1 ? 'report' : 'reports'} · since{' '}
+          {new Date(item.firstReportedAt).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}
+        </Text>
+      </View>
+
+      <View style={styles.userRow}>
+        <Image source={{ uri: reported?.avatar }} style={styles.avatar} />
+        <View style={styles.userInfo}>
+          <Text style={[styles.userName, { fontFamily: 'Inter_600SemiBold' }]}>
+            {reported?.fullName || reported?.username || 'Unknown user'}
+          </Text>
+          {!!reported && (
+            <Text style={[styles.reportMeta, { fontFamily: 'Inter_400Regular' }]}>
+              @{reported.handle || reported.username}
+              {reported.isSuspended ? ' · Suspended' : ''}
+            </Text>
+          )}
+        </View>
+        {item.isHidden && (
+          <View style={styles.hiddenBadge}>
+            <EyeOff size={12} color="#999" />
+            <Text style={[styles.hiddenText, { fontFamily: 'Inter_500Medium' }]}>Hidden</Text>
+          </View>
+        )}
+      </View>
+
+      {item.previewMediaUrl && item.targetType !== 'user' ? (
+        <Image source={{ uri: item.previewMediaUrl }} style={styles.previewImage} />
+      ) : null}
+
+      {item.previewText ? (
+        <Text style={[styles.previewText, { fontFamily: 'Inter_400Regular' }]} numberOfLines={4}>
+          {item.previewText}
+        </Text>
+      ) : null}
+
+      <View style={styles.tags}>
+        {item.reasons.map(reason => (
+          <View key={reason} style={styles.tag}>
+            <Text style={[styles.tagText, { fontFamily: 'Inter_500Medium' }]}>{getReportReasonLabel(reason)}</Text>
+          </View>
+        ))}
+      </View>
+
+      {item.notes.map((note, index) => (
+        <Text key={index} style={[styles.note, { fontFamily: 'Inter_400Regular' }]}>
+          “{note}”
+        </Text>
+      ))}
+
+      <View style={styles.actions}>
+        <TouchableOpacity
+          style={[styles.actionButton, styles.dismissButton]}
+          onPress={() => onAction(item, 'dismiss')}
+          disabled={processing}
+        >
+          <X size={16} color="#FFFFFF" />
+          <Text style={[styles.actionText, { fontFamily: 'Inter_600SemiBold' }]}>Dismiss</Text>
+        </TouchableOpacity>
+        {canHide && (
+          <TouchableOpacity
+            style={[styles.actionButton, styles.hideButton]}
+            onPress={() => onAction(item, 'hide_content')}
+            disabled={processing}
+          >
+            <EyeOff size={16} color="#FFFFFF" />
+            <Text style={[styles.actionText, { fontFamily: 'Inter_600SemiBold' }]}>Hide</Text>
+          </TouchableOpacity>
+        )}
+        <TouchableOpacity
+          style={[styles.actionButton, styles.suspendButton]}
+          onPress={() => onAction(item, 'suspend_user')}
+          disabled={processing || !!reported?.isSuspended}
+        >
+          {processing ? (
+            <ActivityIndicator size="small" color="#FFFFFF" />
+          ) : (
+            <>
+              <Ban size={16} color="#FFFFFF" />
+              <Text style={[styles.actionText, { fontFamily: 'Inter_600SemiBold' }]}>Suspend</Text>
+            </>
+          )}
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+};
+
+export default function ModerationQueueScreen() {
+  const { user } = useUser();
+  const [queue, setQueue] = useState<ModerationQueueItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [processingKey, setProcessingKey] = useState<string | null>(null);
+  const [fontsLoaded] = useFonts({
+    Inter_400Regular,
+    Inter_500Medium,
+    Inter_600SemiBold,
+  });
+
+  const loadQueue = useCallback(async () => {
+    try {
+      const items = await dataService.moderation.getModerationQueue();
+      setQueue(items);
+    } catch (error) {
+      console.error('Error loading moderation queue:', error);
+    } finally {
+      setLoading(false);
+      setRefreshing(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (user?.isModerator) {
+      loadQueue();
+    } else {
+      setLoading(false);
+    }
+  }, [user?.isModerator, loadQueue]);
+
+  const resolve = async (item: ModerationQueueItem, action: ModerationAction) => {
+    const key = queueKey(item);
+    setProcessingKey(key);
+    const success = await dataService.moderation.resolveReports(item.targetType, item.targetId, action);
+    setProcessingKey(null);
+
+    if (success) {
+      setQueue(prev => prev.filter(entry => queueKey(entry) !== key));
+    } else {
+      Alert.alert('Error', `Failed to ${MODERATION_ACTION_LABELS[action].toLowerCase()}. Please try again.`);
+      loadQueue();
+    }
+  };
+
+  const handleAction = (item: ModerationQueueItem, action: ModerationAction) => {
+    if (action === 'dismiss') {
+      resolve(item, action);
+      return;
+    }
+
+    const name = item.targetUser?.username || 'this user';
+    const message = action === 'hide_content'
+      ? `Hide this ${REPORT_TARGET_LABELS[item.targetType]} from everyone?`
+      : `Suspend ${name}? Their posts, reels, stories and comments will be hidden and they will not be able to post or message.`;
+
+    Alert.alert(MODERATION_ACTION_LABELS[action], message, [
+      { text: 'Cancel', style: 'cancel' },
+      { text: MODERATION_ACTION_LABELS[action], style: 'destructive', onPress: () => resolve(item, action) },
+    ]);
+  };
+
+  if (!fontsLoaded || loading) {
+    return (
+      <View style={styles.loadingContainer}>
+        <ActivityIndicator size="large" color="#6C5CE7" />
+        <Text style={styles.loadingText}>Loading...</Text>
+      </View>
+    );
+  }
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <LinearGradient
+        colors={['#1E1E1E', '#2A2A2A', '#1E1E1E']}
+        style={styles.background}
+      >
+        {/* Header */}
+        <View style={styles.header}>
+          <TouchableOpacity onPress={() => handleBackNavigation()} style={styles.backButton}>
+            <ArrowLeft size={28} color="#FFFFFF" />
+          </TouchableOpacity>
+          <Text style={[styles.headerTitle, { fontFamily: 'Inter_600SemiBold' }]}>
+            Moderation Queue
+          </Text>
+          <View style={styles.headerSpacer} />
+        </View>
+
+        {!user?.isModerator ? (
+          <View style={styles.emptyContainer}>
+            <ShieldCheck size={48} color="#666" />
+            <Text style={[styles.emptyTitle, { fontFamily: 'Inter_600SemiBold' }]}>
+              Moderators only
+            </Text>
+            <Text style={[styles.emptyText, { fontFamily: 'Inter_400Regular' }]}>
+              You do not have access to reported content.
+            </Text>
+          </View>
+        ) : (
+          <FlatList
+            data={queue}
+            keyExtractor={queueKey}
+            renderItem={({ item }) => (
+              <ReportItem
+                item={item}
+                processing={processingKey === queueKey(item)}
+                onAction={handleAction}
+              />
+            )}
+            contentContainerStyle={styles.listContent}
+            refreshControl={
+              <RefreshControl
+                refreshing={refreshing}
+                onRefresh={() => {
+                  setRefreshing(true);
+                  loadQueue();
+                }}
+                tintColor="#6C5CE7"
+              />
+            }
+            ListEmptyComponent={
+              <View style={styles.emptyContainer}>
+                <ShieldCheck size={48} color="#666" />
+                <Text style={[styles.emptyTitle, { fontFamily: 'Inter_600SemiBold' }]}>
+                  All caught up
+                </Text>
+                <Text style={[styles.emptyText, { fontFamily: 'Inter_400Regular' }]}>
+                  There are no reports waiting for review.
+                </Text>
+              </View>
+            }
+          />
+        )}
+      </LinearGradient>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  background: {
+    flex: 1,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: '#1E1E1E',
+  },
+  loadingText: {
+    color: '#FFFFFF',
+    fontSize: 16,
+    marginTop: 12,
+    fontFamily: 'Inter_400Regular',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: 'rgba(108, 92, 231, 0.2)',
+  },
+  backButton: {
+    padding: 16,
+    minWidth: 52,
+    minHeight: 52,
+    backgroundColor: 'rgba(255, 255, 255, 0.1)',
+    borderRadius: 26,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+  headerSpacer: {
+    minWidth: 52,
+  },
+  listContent: {
+    paddingHorizontal: 20,
+    paddingVertical: 20,
+    flexGrow: 1,
+  },
+  reportCard: {
+    backgroundColor: '#1A1A1A',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 12,
+  },
+  reportHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 12,
+  },
+  typeBadge: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    backgroundColor: 'rgba(255, 107, 107, 0.15)',
+    borderRadius: 8,
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+  },
+  typeText: {
+    fontSize: 12,
+    color: '#FF6B6B',
+    textTransform: 'capitalize',
+  },
+  reportMeta: {
+    fontSize: 12,
+    color: '#888',
+  },
+  userRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  avatar: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: '#333',
+    marginRight: 12,
+  },
+  userInfo: {
+    flex: 1,
+  },
+  userName: {
+    fontSize: 15,
+    color: '#FFFFFF',
+    marginBottom: 2,
+  },
+  hiddenBadge: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    backgroundColor: '#333',
+    borderRadius: 8,
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+  },
+  hiddenText: {
+    fontSize: 12,
+    color: '#999',
+  },
+  previewImage: {
+    width: '100%',
+    height: 180,
+    borderRadius: 10,
+    backgroundColor: '#333',
+    marginBottom: 12,
+  },
+  previewText: {
+    fontSize: 14,
+    color: '#CCCCCC',
+    lineHeight: 20,
+    marginBottom: 12,
+  },
+  tags: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginBottom: 6,
+  },
+  tag: {
+    backgroundColor: 'rgba(108, 92, 231, 0.2)',
+    borderRadius: 8,
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+    marginRight: 6,
+    marginBottom: 6,
+  },
+  tagText: {
+    fontSize: 12,
+    color: '#B8AFFF',
+  },
+  note: {
+    fontSize: 13,
+    color: '#AAAAAA',
+    fontStyle: 'italic',
+    marginBottom: 6,
+  },
+  actions: {
+    flexDirection: 'row',
+    gap: 8,
+    marginTop: 6,
+  },
+  actionButton: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 12,
+    borderRadius: 10,
+    gap: 6,
+  },
+  dismissButton: {
+    backgroundColor: '#333',
+  },
+  hideButton: {
+    backgroundColor: '#6C5CE7',
+  },
+  suspendButton: {
+    backgroundColor: '#FF6B6B',
+  },
+  actionText: {
+    fontSize: 14,
+    color: '#FFFFFF',
+  },
+  emptyContainer: {
+    flex: 1,
+    padding: 40,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  emptyTitle: {
+    fontSize: 18,
+    color: '#FFFFFF',
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#888',
+    textAlign: 'center',
+  },
+});
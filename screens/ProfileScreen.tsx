@@ -16,7 +16,7 @@ import {
 } from 'react-native';
 import { LinearGradient } from 'expo-linear-gradient';
 import { BlurView } from 'expo-blur';
-import { Share2, Settings, Grid2x2 as Grid, Camera, UserPlus, UserMinus, MessageCircle, Crown, DollarSign, Shield, MapPin, Clock, CreditCard as Edit3, Home as Home, TrendingUp, ArrowRight, ArrowLeft, Flag, Bell, Heart, UserCheck, Clock3, X, ChevronLeft, ChevronRight, Trophy, Upload, Users, Award, Play, Trash2 } from 'lucide-react-native';
+import { Share2, Settings, Grid2x2 as Grid, Camera, UserPlus, UserMinus, MessageCircle, Crown, DollarSign, Shield, MapPin, Clock, CreditCard as Edit3, Home as Home, TrendingUp, ArrowRight, ArrowLeft, Flag, Bell, Heart, UserCheck, Clock3, X, ChevronLeft, ChevronRight, Trophy, Upload, Users, Award, Play, Trash2, ShieldCheck, MoreHorizontal, Ban, Lock, Bookmark } from 'lucide-react-native';
 import { useRouter, useLocalSearchParams } from 'expo-router';
 import { useFonts, Inter_400Regular, Inter_500Medium, Inter_600SemiBold, Inter_700Bold } from '@expo-google-fonts/inter';
 import * as ImagePicker from 'expo-image-picker';
@@ -36,6 +36,9 @@ import BulletinBoardSection from '../components/BulletinBoardSection';
 import { useUser } from '@/contexts/UserContext';
 import { dataService } from '@/services/dataService';
 import ReviewsSection from '@/components/ReviewsSection';
+import BookingsSection from '@/components/BookingsSection';
+import ReportModal from '@/components/ReportModal';
+import SavedReelsSection from '@/components/SavedReelsSection';
 import { handleBackNavigation } from '@/utils/navigation';
 import { debug, useDebugLogger } from '@/utils/debugLogger';
 
@@ -89,9 +92,12 @@ export default function ProfileScreen({ route }: ProfileScreenProps) {
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [isFollowing, setIsFollowing] = useState(false);
+  const [followRequested, setFollowRequested] = useState(false);
+  const [blockStatus, setBlockStatus] = useState({ isBlocked: false, isMuted: false, blockedByMe: false });
+  const [showReportModal, setShowReportModal] = useState(false);
   const [showFullScreenPost, setShowFullScreenPost] = useState(false);
   const [selectedPostIndex, setSelectedPostIndex] = useState(0);
-  const [activeTab, setActiveTab] = useState<'posts' | 'reels'>('posts');
+  const [activeTab, setActiveTab] = useState<'posts' | 'reels' | 'saved'>('posts');
   const [deletingItemId, setDeletingItemId] = useState<string | null>(null);
   // TODO: Replace with actual cover image from server
   const [coverImage, setCoverImage] = useState('https://images.pexels.com/photos/1181677/pexels-photo-1181677.jpeg?auto=compress&cs=tinysrgb&w=800');
@@ -137,9 +143,11 @@ export default function ProfileScreen({ route }: ProfileScreenProps) {
             // Check follow status if current user is logged in
             if (currentUser) {
               try {
-                const followStatus = await dataService.user.checkFollowStatus(currentUser.id, actualUserId);
-                debugLogger.info('FOLLOW_STATUS_CHECKED', `Follow status checked`, { currentUserId: currentUser.id, targetUserId: actualUserId, isFollowing: followStatus });
-                setIsFollowing(followStatus);
+                const followState = await dataService.user.getFollowState(currentUser.id, actualUserId);
+                debugLogger.info('FOLLOW_STATUS_CHECKED', `Follow status checked`, { currentUserId: currentUser.id, targetUserId: actualUserId, followState });
+                setIsFollowing(followState === 'following');
+                setFollowRequested(followState === 'requested');
+                setBlockStatus(await dataService.user.getBlockStatus(currentUser.id, actualUserId));
               } catch (error) {
                 debugLogger.error('FOLLOW_STATUS_ERROR', 'Could not check follow status', error);
                 setIsFollowing(false);
@@ -230,8 +238,21 @@ export default function ProfileScreen({ route }: ProfileScreenProps) {
     scrollY.value = offsetY;
   };
 
+  // Private accounts only show their content to followers
+  const isPrivateLocked = !isCurrentUser && !!user?.isPrivate && !isFollowing;
+
   const handleFollow = async () => {
     if (!user || !currentUser) return;
+
+    // Tapping "Requested" withdraws the request
+    if (followRequested) {
+      if (await dataService.user.cancelFollowRequest(currentUser.id, user.id)) {
+        setFollowRequested(false);
+      } else {
+        Alert.alert('Error', 'Failed to cancel follow request');
+      }
+      return;
+    }
     
     try {
       debugLogger.info('FOLLOW_ACTION', `Attempting to ${isFollowing ? 'unfollow' : 'follow'} user`, { 
@@ -247,7 +268,12 @@ export default function ProfileScreen({ route }: ProfileScreenProps) {
         await dataService.user.unfollowUser(currentUser.id, user.id);
         debugLogger.success('UNFOLLOW_SUCCESS', `Successfully unfollowed user`, { targetUserId: user.id });
       } else {
-        await dataService.user.followUser(currentUser.id, user.id);
+        const followState = await dataService.user.followUser(currentUser.id, user.id);
+        if (followState === 'requested') {
+          debugLogger.success('FOLLOW_REQUESTED', `Follow request sent to private account`, { targetUserId: user.id });
+          setFollowRequested(true);
+          return;
+        }
         debugLogger.success('FOLLOW_SUCCESS', `Successfully followed user`, { targetUserId: user.id });
       }
       
@@ -320,6 +346,90 @@ export default function ProfileScreen({ route }: ProfileScreenProps) {
     }
   };
 
+  // Mute, block or report this user
+  const handleMoreOptions = () => {
+    if (!user || !currentUser) return;
+    const name = user.username || 'this user';
+
+    const toggleMute = async () => {
+      const success = blockStatus.isMuted
+        ? await dataService.user.unmuteUser(currentUser.id, user.id)
+        : await dataService.user.muteUser(currentUser.id, user.id);
+      if (!success) {
+        Alert.alert('Error', `Failed to ${blockStatus.isMuted ? 'unmute' : 'mute'} ${name}`);
+        return;
+      }
+      setBlockStatus(prev => ({ ...prev, isMuted: !prev.isMuted }));
+    };
+
+    const confirmBlock = () => {
+      Alert.alert(
+        `Block ${name}?`,
+        'They will not be able to find your profile, see your posts or message you. They will not be told that you blocked them.',
+        [
+          { text: 'Cancel', style: 'cancel' },
+          {
+            text: 'Block',
+            style: 'destructive',
+            onPress: async () => {
+              const success = await dataService.user.blockUser(currentUser.id, user.id);
+              if (!success) {
+                Alert.alert('Error', `Failed to block ${name}`);
+                return;
+              }
+              setBlockStatus(prev => ({ ...prev, isBlocked: true, blockedByMe: true }));
+              setIsFollowing(false);
+            },
+          },
+        ]
+      );
+    };
+
+    Alert.alert(name, undefined, [
+      {
+        text: blockStatus.isMuted ? 'Unmute' : 'Mute Posts and Stories',
+        onPress: toggleMute,
+      },
+      { text: 'Block', style: 'destructive', onPress: confirmBlock },
+      { text: 'Report', style: 'destructive', onPress: () => setShowReportModal(true) },
+      { text: 'Cancel', style: 'cancel' },
+    ]);
+  };
+
+  const handleUnblock = async () => {
+    if (!user || !currentUser) return;
+
+    const success = await dataService.user.unblockUser(currentUser.id, user.id);
+    if (!success) {
+      Alert.alert('Error', 'Failed to unblock this user');
+      return;
+    }
+    setBlockStatus(await dataService.user.getBlockStatus(currentUser.id, user.id));
+  };
+
+  const handleUnsuspend = () => {
+    if (!user) return;
+
+    Alert.alert(
+      'Lift Suspension',
+      `Lift the suspension on ${user.username}? Their posts, reels, stories and comments will be visible again.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Lift',
+          onPress: async () => {
+            const success = await dataService.moderation.unsuspendUser(user.id);
+            if (!success) {
+              Alert.alert('Error', 'Failed to lift the suspension');
+              return;
+            }
+            setUser(prev => (prev ? { ...prev, isSuspended: false } : prev));
+          },
+        },
+      ]
+    );
+  };
+
   const handleEditProfile = () => {
     Alert.alert('Edit Profile', 'Profile editing functionality would open here');
   };
@@ -563,6 +673,22 @@ export default function ProfileScreen({ route }: ProfileScreenProps) {
     router.push('/host-registration');
   };
 
+  const handleManageAvailability = () => {
+    router.push('/host-availability');
+  };
+
+  const handleHostApplicationStatus = () => {
+    router.push('/host-application-status');
+  };
+
+  const handleReviewHostApplications = () => {
+    router.push('/host-applications');
+  };
+
+  const handleModerationQueue = () => {
+    router.push('/moderation-queue');
+  };
+
   // Animated styles - must be called before any early returns
   const headerAnimatedStyle = useAnimatedStyle(() => {
     const opacity = interpolate(
@@ -1060,24 +1186,127 @@ export default function ProfileScreen({ route }: ProfileScreenProps) {
                     </TouchableOpacity>
                   </Animated.View>
                 )}
+
+                {/* Manage Availability Button (hosts only) */}
+                {user?.isHost && (
+                  <View style={styles.hostButton}>
+                    <TouchableOpacity onPress={handleManageAvailability}>
+                      <LinearGradient
+                        colors={['#6C5CE7', '#5A4FCF']}
+                        style={styles.hostButtonGradient}
+                      >
+                        <Clock size={18} color="#FFFFFF" />
+                        <Text style={[styles.hostButtonText, { fontFamily: 'Inter_600SemiBold' }]}>
+                          Manage Availability
+                        </Text>
+                      </LinearGradient>
+                    </TouchableOpacity>
+                  </View>
+                )}
+
+                {/* Host Application Status Button (hosts only) */}
+                {user?.isHost && (
+                  <View style={[styles.hostButton, styles.hostButtonSpacing]}>
+                    <TouchableOpacity onPress={handleHostApplicationStatus}>
+                      <LinearGradient
+                        colors={['#6C5CE7', '#5A4FCF']}
+                        style={styles.hostButtonGradient}
+                      >
+                        <Crown size={18} color="#FFFFFF" />
+                        <Text style={[styles.hostButtonText, { fontFamily: 'Inter_600SemiBold' }]}>
+                          Host Application
+                        </Text>
+                      </LinearGradient>
+                    </TouchableOpacity>
+                  </View>
+                )}
+
+                {/* Review Host Applications Button (moderators only) */}
+                {user?.isModerator && (
+                  <View style={[styles.hostButton, styles.hostButtonSpacing]}>
+                    <TouchableOpacity onPress={handleReviewHostApplications}>
+                      <LinearGradient
+                        colors={['#6C5CE7', '#5A4FCF']}
+                        style={styles.hostButtonGradient}
+                      >
+                        <ShieldCheck size={18} color="#FFFFFF" />
+                        <Text style={[styles.hostButtonText, { fontFamily: 'Inter_600SemiBold' }]}>
+                          Review Host Applications
+                        </Text>
+                      </LinearGradient>
+                    </TouchableOpacity>
+                  </View>
+                )}
+
+                {/* Moderation Queue Button (moderators only) */}
+                {user?.isModerator && (
+                  <View style={[styles.hostButton, styles.hostButtonSpacing]}>
+                    <TouchableOpacity onPress={handleModerationQueue}>
+                      <LinearGradient
+                        colors={['#6C5CE7', '#5A4FCF']}
+                        style={styles.hostButtonGradient}
+                      >
+                        <Flag size={18} color="#FFFFFF" />
+                        <Text style={[styles.hostButtonText, { fontFamily: 'Inter_600SemiBold' }]}>
+                          Moderation Queue
+                        </Text>
+                      </LinearGradient>
+                    </TouchableOpacity>
+                  </View>
+                )}
               </>
+            ) : user?.isSuspended ? (
+              <View style={styles.socialButtons}>
+                <Text style={[styles.blockedText, { fontFamily: 'Inter_400Regular' }]}>
+                  This account has been suspended.
+                </Text>
+                {currentUser?.isModerator && (
+                  <TouchableOpacity style={styles.messageButton} onPress={handleUnsuspend}>
+                    <BlurView intensity={30} style={styles.messageButtonBlur}>
+                      <ShieldCheck size={18} color="#FFFFFF" />
+                      <Text style={[styles.messageButtonText, { fontFamily: 'Inter_600SemiBold' }]}>
+                        Lift Suspension
+                      </Text>
+                    </BlurView>
+                  </TouchableOpacity>
+                )}
+              </View>
+            ) : blockStatus.isBlocked ? (
+              <View style={styles.socialButtons}>
+                {blockStatus.blockedByMe ? (
+                  <TouchableOpacity style={styles.messageButton} onPress={handleUnblock}>
+                    <BlurView intensity={30} style={styles.messageButtonBlur}>
+                      <Ban size={18} color="#FFFFFF" />
+                      <Text style={[styles.messageButtonText, { fontFamily: 'Inter_600SemiBold' }]}>
+                        Unblock
+                      </Text>
+                    </BlurView>
+                  </TouchableOpacity>
+                ) : (
+                  <Text style={[styles.blockedText, { fontFamily: 'Inter_400Regular' }]}>
+                    You can not follow or message this user.
+                  </Text>
+                )}
+              </View>
             ) : (
               <View style={styles.socialButtons}>
                 <TouchableOpacity 
-                  style={[styles.followButton, isFollowing && styles.followingButton]} 
+                  style={[styles.followButton, (isFollowing || followRequested) && styles.followingButton]} 
                   onPress={handleFollow}
                 >
                   <LinearGradient
-                    colors={isFollowing ? ['#666666', '#555555'] : ['#6C5CE7', '#5A4FCF']}
+                    colors={isFollowing || followRequested ? ['#666666', '#555555'] : ['#6C5CE7', '#5A4FCF']}
                     style={styles.followButtonGradient}
                   >
-                    {isFollowing ? (
+                    {followRequested ? (
+                      <Clock3 size={18} color="#FFFFFF" />
+                    ) : isFollowing ? (
                       <UserCheck size={18} color="#FFFFFF" />
                     ) : (
                       <UserPlus size={18} color="#FFFFFF" />
                     )}
                     <Text style={[styles.followButtonText, { fontFamily: 'Inter_600SemiBold' }]}>
-                      {isFollowing ? 'Following' : 'Follow'}
+                      {followRequested ? 'Requested' : isFollowing ? 'Following' : 'Follow'}
                     </Text>
                   </LinearGradient>
                 </TouchableOpacity>
@@ -1090,12 +1319,21 @@ export default function ProfileScreen({ route }: ProfileScreenProps) {
                     </Text>
                   </BlurView>
                 </TouchableOpacity>
+
+                <TouchableOpacity style={styles.moreOptionsButton} onPress={handleMoreOptions}>
+                  <BlurView intensity={30} style={styles.moreOptionsBlur}>
+                    <MoreHorizontal size={20} color="#FFFFFF" />
+                  </BlurView>
+                </TouchableOpacity>
               </View>
             )}
           </View>
 
           {/* Professional Bulletin Board */}
-          <BulletinBoardSection isCurrentUser={isCurrentUser} />
+          {!isPrivateLocked && <BulletinBoardSection isCurrentUser={isCurrentUser} userId={actualUserId} />}
+
+          {/* Bookings Section */}
+          {user && <BookingsSection user={user} />}
 
           {/* Reviews Section */}
           {user && (
@@ -1119,6 +1357,17 @@ export default function ProfileScreen({ route }: ProfileScreenProps) {
           )}
 
           {/* Content Section with Tabs */}
+          {isPrivateLocked ? (
+            <View style={[styles.postsSection, styles.emptyState]}>
+              <Lock size={48} color="#666666" />
+              <Text style={[styles.emptyText, { fontFamily: 'Inter_600SemiBold' }]}>
+                This account is private
+              </Text>
+              <Text style={[styles.emptySubtext, { fontFamily: 'Inter_400Regular' }]}>
+                Follow {user?.username || 'this user'} to see their posts, reels and stories
+              </Text>
+            </View>
+          ) : (
           <View style={styles.postsSection}>
           {/* Tab Navigation */}
           <View style={styles.tabContainer}>
@@ -1149,10 +1398,29 @@ export default function ProfileScreen({ route }: ProfileScreenProps) {
                 Reels ({userReels.length})
               </Text>
             </TouchableOpacity>
+
+            {/* Saved reels are private to the profile owner */}
+            {isCurrentUser && (
+              <TouchableOpacity
+                style={[styles.tabButton, activeTab === 'saved' && styles.activeTabButton]}
+                onPress={() => setActiveTab('saved')}
+              >
+                <Bookmark size={18} color={activeTab === 'saved' ? "#6C5CE7" : "#999999"} />
+                <Text style={[
+                  styles.tabText, 
+                  activeTab === 'saved' && styles.activeTabText,
+                  { fontFamily: 'Inter_600SemiBold' }
+                ]}>
+                  Saved
+                </Text>
+              </TouchableOpacity>
+            )}
           </View>
 
           {/* Content Grid */}
-          {activeTab === 'posts' ? (
+          {activeTab === 'saved' && isCurrentUser && user ? (
+            <SavedReelsSection userId={user.id} />
+          ) : activeTab === 'posts' ? (
             userPosts.length > 0 ? (
               <FlatList
                 data={userPosts}
@@ -1196,6 +1464,7 @@ export default function ProfileScreen({ route }: ProfileScreenProps) {
             )
           )}
           </View>
+          )}
       </Animated.ScrollView>
 
       {/* Full Screen Post Viewer */}
@@ -1207,6 +1476,16 @@ export default function ProfileScreen({ route }: ProfileScreenProps) {
         onLike={handleLike}
         onComment={handleComment}
       />
+
+      {user && !isCurrentUser && (
+        <ReportModal
+          visible={showReportModal}
+          onClose={() => setShowReportModal(false)}
+          targetType="user"
+          targetId={user.id}
+          targetUserId={user.id}
+        />
+      )}
     </View>
   );
 }
@@ -1496,6 +1775,9 @@ const styles = StyleSheet.create({
     fontWeight: '600',
     fontSize: 16,
   },
+  hostButtonSpacing: {
+    marginTop: 12,
+  },
   hostButton: {
     borderRadius: 24,
     overflow: 'hidden',
@@ -1559,6 +1841,23 @@ const styles = StyleSheet.create({
     fontWeight: '600',
     fontSize: 16,
   },
+  moreOptionsButton: {
+    width: 52,
+    borderRadius: 24,
+    overflow: 'hidden',
+  },
+  moreOptionsBlur: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  blockedText: {
+    flex: 1,
+    color: '#999999',
+    fontSize: 14,
+    textAlign: 'center',
+    paddingVertical: 16,
+  },
   postsSection: {
     marginTop: 32,
     paddingHorizontal: 24,
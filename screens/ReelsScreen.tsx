@@ -79,9 +79,11 @@ export default function ReelsScreen() {
         reelsData = await reelService.getReelsByHashtags(hashtagsToFilter, 20, 0);
         debug.dbSuccess('reels', 'HASHTAG_LOAD', { count: reelsData.length, hashtags: hashtagsToFilter });
       } else {
-        // Load regular reels
+        // Signed-in viewers get the personalized "For You" ranking
         const { data: { user } } = await supabase.auth.getUser();
-        reelsData = await reelService.getReels(20, 0, user?.id);
+        reelsData = user?.id
+          ? await reelService.getForYouReels(user.id, 20, 0)
+          : await reelService.getReels(20, 0);
         debug.dbSuccess('reels', 'LOAD', { count: reelsData.length });
       }
       
@@ -183,6 +185,12 @@ export default function ReelsScreen() {
     }
   }, []);
 
+  const handleWatched = useCallback((reelId: string) => {
+    debug.userAction('Reel watched to the end', { reelId });
+    // Feeds the "For You" ranking; completed views are only recorded server-side
+    reelService.markReelWatched(reelId);
+  }, []);
+
   const handleComment = useCallback((reelId: string) => {
     debug.userAction('Open comments', { reelId });
     // The ReelItem component handles comment display internally
@@ -313,9 +321,6 @@ export default function ReelsScreen() {
           clearTimeout(viewTrackingTimeoutRef.current);
         }
         
-        // Temporarily disabled view tracking to fix auth context error
-        // TODO: Re-enable once RPC functions are properly set up
-        /*
         viewTrackingTimeoutRef.current = setTimeout(async () => {
           if (!viewTrackingRef.current[reel.id]) {
             try {
@@ -338,7 +343,6 @@ export default function ReelsScreen() {
             }
           }
         }, 2000); // 2 second delay to ensure meaningful view
-        */
       }
     }
   });
@@ -352,8 +356,9 @@ export default function ReelsScreen() {
       onComment={handleComment}
       onShare={handleShare}
       onDelete={handleDeleteReel}
+      onWatched={handleWatched}
     />
-  ), [currentIndex, handleLike, handleSave, handleComment, handleShare, handleDeleteReel]);
+  ), [currentIndex, handleLike, handleSave, handleComment, handleShare, handleDeleteReel, handleWatched]);
 
   const renderEmptyState = () => (
     <View style={styles.emptyState}>
@@ -31,15 +31,18 @@ import LocationSearch from '@/components/LocationSearch';
 import DistanceSlider from '@/components/DistanceSlider';
 import AgeSlider from '@/components/AgeSlider';
 import FilterModal from '@/components/FilterModal';
+import NotificationPanel from '@/components/NotificationPanel';
 import { calculateDistance, formatDistance } from '@/utils/distanceCalculator';
 import { dataService } from '@/services/dataService';
 import { useUser } from '@/contexts/UserContext';
+import { useNotifications } from '@/hooks/useNotifications';
+import { navigateToNotificationTarget } from '@/utils/navigation';
 import { debug, useDebugLogger } from '@/utils/debugLogger';
 
 const { width } = Dimensions.get('window');
 const CARD_WIDTH = width > 400 ? (width - 64) / 2 : width - 32;
 
-import { User } from '@/types';
+import { Notification, User } from '@/types';
 
 
 
@@ -50,6 +53,16 @@ export default function SearchScreen() {
   const router = useRouter();
   const { user: currentUser } = useUser();
   const debugLogger = useDebugLogger('SearchScreen');
+  const {
+    notifications,
+    unreadCount,
+    loading: notificationsLoading,
+    loadingMore: notificationsLoadingMore,
+    hasMore: hasMoreNotifications,
+    loadMore: loadMoreNotifications,
+    markAsRead,
+    markAllAsRead,
+  } = useNotifications();
   
   // Log page load
   debug.pageLoad('SearchScreen', { currentUserId: currentUser?.id });
@@ -60,6 +73,7 @@ export default function SearchScreen() {
   const [searchLongitude, setSearchLongitude] = useState<number | undefined>();
   const [maxDistance, setMaxDistance] = useState(0);
   const [showFilterModal, setShowFilterModal] = useState(false);
+  const [showNotifications, setShowNotifications] = useState(false);
   const [users, setUsers] = useState<User[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -254,7 +268,14 @@ export default function SearchScreen() {
 
   const handleNotificationPress = () => {
     debugLogger.info('USER_ACTION', 'Notification button pressed');
-    // Handle notification press
+    setShowNotifications(true);
+  };
+
+  const handleNotificationItemPress = (notification: Notification) => {
+    debugLogger.info('USER_ACTION', 'Notification opened', { id: notification.id, type: notification.type });
+    markAsRead(notification.id);
+    setShowNotifications(false);
+    navigateToNotificationTarget(notification.data);
   };
 
   const renderStars = (rating: number) => {
@@ -419,9 +440,11 @@ export default function SearchScreen() {
               style={styles.iconButton}
             >
               <Bell size={22} color="#B0B0B0" />
-              <View style={styles.notificationBadge}>
-                <Text style={styles.badgeText}>2</Text>
-              </View>
+              {unreadCount > 0 && (
+                <View style={styles.notificationBadge}>
+                  <Text style={styles.badgeText}>{unreadCount > 99 ? '99+' : unreadCount}</Text>
+                </View>
+              )}
             </TouchableOpacity>
             
             <TouchableOpacity 
@@ -581,6 +604,18 @@ export default function SearchScreen() {
           }}
           currentFilters={filters}
         />
+        <NotificationPanel
+          visible={showNotifications}
+          onClose={() => setShowNotifications(false)}
+          notifications={notifications}
+          unreadCount={unreadCount}
+          loading={notificationsLoading}
+          loadingMore={notificationsLoadingMore}
+          hasMore={hasMoreNotifications}
+          onLoadMore={loadMoreNotifications}
+          onMarkAllRead={markAllAsRead}
+          onPressNotification={handleNotificationItemPress}
+        />
       </LinearGradient>
     </SafeAreaView>
   );
@@ -34,7 +34,7 @@ import * as Haptics from 'expo-haptics';
 import { Flame, ListFilter as Filter, Heart, X, Play, Eye, Clock } from 'lucide-react-native';
 import { useDebugLogger, debug } from '@/utils/debugLogger';
 import { reelService, supabase } from '../services/dataService';
-import { Reel } from '../types';
+import { Reel, TrendingStyle } from '../types';
 
 const { width } = Dimensions.get('window');
 
@@ -51,7 +51,12 @@ const genres = [
 const contentTypes = ['All', 'Image', 'Reel', 'Video', 'AI-generated'];
 const dateFilters = ['Today', 'Week', 'Month', 'All Time'];
 const regions = ['Global', 'Local', 'North America', 'Europe', 'Asia'];
-const trendingStyles = ['Likes', 'Shares', 'Velocity', 'Comments'];
+const trendingStyles: { label: string; style: TrendingStyle }[] = [
+  { label: 'Likes', style: 'likes' },
+  { label: 'Shares', style: 'shares' },
+  { label: 'Velocity', style: 'velocity' },
+  { label: 'Comments', style: 'comments' },
+];
 
 const AnimatedTouchableOpacity = Animated.createAnimatedComponent(TouchableOpacity);
 
@@ -102,21 +107,23 @@ export default function TrendingScreen() {
   const [showFilterModal, setShowFilterModal] = useState(false);
   const [isRefreshing, setIsRefreshing] = useState(false);
   const [isLoading, setIsLoading] = useState(true);
-  const [filters, setFilters] = useState({
+  const [filters, setFilters] = useState<{ contentType: string; date: string; region: string; trendingStyle: TrendingStyle }>({
     contentType: 'Reel',
     date: 'Today',
     region: 'Global',
-    trendingStyle: 'Likes',
+    trendingStyle: 'likes',
   });
+  // Ranking used for the list; changes when filters are applied
+  const [trendingStyle, setTrendingStyle] = useState<TrendingStyle>('likes');
 
   // Load trending reels from backend
   const loadTrendingReels = useCallback(async () => {
     try {
       setIsLoading(true);
-      debug.dbQuery('trending_reels', 'LOAD', { selectedGenre });
+      debug.dbQuery('trending_reels', 'LOAD', { selectedGenre, trendingStyle });
       
       const { data: { user } } = await supabase.auth.getUser();
-      const reels = await reelService.getTrendingReels(50, 0, user?.id);
+      const reels = await reelService.getTrendingReels(50, 0, user?.id, trendingStyle);
       const trendingReelsData = reels.map(convertReelToTrending);
       
       setTrendingReels(trendingReelsData);
@@ -126,7 +133,7 @@ export default function TrendingScreen() {
     } finally {
       setIsLoading(false);
     }
-  }, [selectedGenre]);
+  }, [selectedGenre, trendingStyle]);
 
   // Load trending reels on mount
   useEffect(() => {
@@ -237,6 +244,7 @@ export default function TrendingScreen() {
 
   const handleFilterApply = useCallback(() => {
     debug.userAction('Apply filters', { filters });
+    setTrendingStyle(filters.trendingStyle);
     setShowFilterModal(false);
     Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
   }, [filters]);
@@ -587,7 +595,7 @@ export default function TrendingScreen() {
                     Trending Style
                   </Text>
                   <View style={styles.filterOptions}>
-                    {trendingStyles.map((style) => (
+                    {trendingStyles.map(({ label, style }) => (
                       <TouchableOpacity
                         key={style}
                         style={[
@@ -600,7 +608,7 @@ export default function TrendingScreen() {
                           styles.filterOptionText,
                           filters.trendingStyle === style && styles.selectedFilterOptionText
                         ]}>
-                          {style}
+                          {label}
                         </Text>
                       </TouchableOpacity>
                     ))}
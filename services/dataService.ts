@@ -1,10 +1,22 @@
 import { supabase } from '@/app/lib/supabase';
 import { 
   User, Post, Story, Reel, Message, Conversation, Comment, 
-  Review, HostProfile, BulletinNote 
+  Review, HostProfile, HostApplicationStatus, BulletinNote, Booking, BookingStatus,
+  HostAvailability, BookingSlot, Notification, NotificationCursor, NotificationType,
+  NotificationPreferences, MessageCursor, ConversationMember, ConversationDetails, MessageReceiptUpdate,
+  MessageReactionUpdate, MessageReplyPreview, MessageSearchFilters, MessageSearchResult, ScheduledMessage,
+  ReportTargetType, ReportReason, ModerationAction, ModerationQueueItem, FollowState, FollowRequest,
+  StoryVisibility, SavedReel, SavedReelCollection, TrendingStyle, ForYouSignals,
+  Hashtag, HashtagSort, HashtagContentItem
 } from '@/types';
 import { calculateDistance } from '@/utils/distanceCalculator';
+import { generateBookableSlots, getDeviceTimeZone, isValidTimeZone, toZonedDateString } from '@/utils/availabilitySlots';
 import { debug, debugLogger } from '@/utils/debugLogger';
+import { sendConversationBroadcast } from '@/utils/conversationBroadcast';
+import { broadcastReceiptUpdates } from '@/utils/messageReceipts';
+import { REACTIONS_BROADCAST_EVENT } from '@/utils/messageReactions';
+import { rankForYouReels } from '@/utils/forYouRanking';
+import { formatHashtag, normalizeHashtag, normalizeHashtags } from '@/utils/hashtags';
 import { cacheService } from './cacheService';
 import * as FileSystem from 'expo-file-system';
 
@@ -115,6 +127,41 @@ const readUriToUint8Array = async (uri: string): Promise<Uint8Array> => {
 // USER OPERATIONS
 // =====================================================
 
+// Block and mute lists change rarely but are read by every feed
+const HIDDEN_USERS_CACHE_TTL = 2 * 60 * 1000;
+
+// "For You" reels are ranked from reels of the last FOR_YOU_WINDOW_DAYS,
+// taking up to FOR_YOU_CANDIDATE_LIMIT from each source (recent, followed
+// creators, matching hashtags, most liked; see get_for_you_candidates) and
+// using up to FOR_YOU_HISTORY_LIMIT engaged reels
+const FOR_YOU_CANDIDATE_LIMIT = 150;
+const FOR_YOU_WINDOW_DAYS = 30;
+const FOR_YOU_HISTORY_LIMIT = 200;
+
+// Drop items whose author is in the given list
+const withoutUsers = <T>(items: T[], userIds: string[], getUserId: (item: T) => string | undefined): T[] => {
+  if (userIds.length === 0) return items;
+  const hidden = new Set(userIds);
+  return items.filter(item => {
+    const id = getUserId(item);
+    return !id || !hidden.has(id);
+  });
+};
+
+// Whether a story row's audience includes the viewer; closeFriendOf holds the
+// owners who have the viewer on their close-friends list
+const isStoryVisibleTo = (story: any, viewerId: string | undefined, closeFriendOf: string[]): boolean => {
+  if (story.user_id === viewerId) return true;
+  switch (story.visibility || 'public') {
+    case 'public':
+      return true;
+    case 'friends':
+      return closeFriendOf.includes(story.user_id);
+    default:
+      return false;
+  }
+};
+
 export const userService = {
   // Get user profile by ID
   async getUserProfile(userId: string): Promise<User | null> {
@@ -184,6 +231,9 @@ export const userService = {
           followingCount: data.following_count || 0,
           // Community trust score
           communityTrustScore: data.community_trust_score || 0,
+          isModerator: data.is_moderator || false,
+          isSuspended: data.is_suspended || false,
+          isPrivate: data.is_private || false,
         };
     } catch (error) {
       debugLogger.error('DATABASE', 'SELECT_USER_PROFILE', 'Exception occurred while fetching user profile', error);
@@ -211,8 +261,6 @@ export const userService = {
           hourly_rate: updates.hourlyRate,
           total_chats: updates.totalChats,
           response_time: updates.responseTime,
-          rating: updates.rating,
-          total_reviews: updates.totalReviews,
           face_data: updates.faceData,
           // Profile completion fields
           interests: updates.interests,
@@ -228,6 +276,7 @@ export const userService = {
           // Follower/Following counts (for future use)
           followers_count: updates.followersCount,
           following_count: updates.followingCount,
+          is_private: updates.isPrivate,
         })
         .eq('id', userId);
 
@@ -335,9 +384,40 @@ export const userService = {
     }
   },
 
-  // Follow a user
-  async followUser(followerId: string, followingId: string): Promise<boolean> {
+  // Follow a user. Private accounts get a follow request instead, which the
+  // owner approves or denies. Returns null when nothing could be created.
+  async followUser(followerId: string, followingId: string): Promise<FollowState | null> {
     try {
+      const { blocked } = await userService.getHiddenUserIds(followerId);
+      if (blocked.includes(followingId)) {
+        debug.dbError('followers', 'INSERT', { error: 'Users have blocked each other' });
+        return null;
+      }
+
+      const { data: target } = await supabase
+        .from('user_profiles')
+        .select('is_private')
+        .eq('id', followingId)
+        .single();
+
+      if (target?.is_private) {
+        const { error } = await supabase
+          .from('follow_requests')
+          .insert({
+            requester_id: followerId,
+            target_id: followingId,
+          });
+
+        // Already requested
+        if (error && error.code !== '23505') {
+          debug.dbError('follow_requests', 'INSERT', error);
+          return null;
+        }
+
+        debug.dbSuccess('follow_requests', 'INSERT', { followerId, followingId });
+        return 'requested';
+      }
+
       const { error } = await supabase
         .from('followers')
         .insert({
@@ -345,14 +425,16 @@ export const userService = {
           following_id: followingId,
         });
 
-      if (!error) {
-        debug.dbSuccess('followers', 'INSERT', { followerId, followingId });
+      if (error) {
+        debug.dbError('followers', 'INSERT', error);
+        return null;
       }
 
-      return !error;
+      debug.dbSuccess('followers', 'INSERT', { followerId, followingId });
+      return 'following';
     } catch (error) {
       console.error('Error following user:', error);
-      return false;
+      return null;
     }
   },
 
@@ -376,6 +458,380 @@ export const userService = {
     }
   },
 
+  // =====================================================
+  // FOLLOW REQUESTS
+  // =====================================================
+  // Following a private account creates a request (see
+  // database_private_accounts.sql). Approving it turns it into a follow.
+
+  // Whether the viewer follows, has asked to follow, or does neither
+  async getFollowState(followerId: string, followingId: string): Promise<FollowState> {
+    try {
+      if (await userService.checkFollowStatus(followerId, followingId)) {
+        return 'following';
+      }
+
+      const { data, error } = await supabase
+        .from('follow_requests')
+        .select('requester_id')
+        .eq('requester_id', followerId)
+        .eq('target_id', followingId)
+        .maybeSingle();
+
+      if (error) {
+        debug.dbError('follow_requests', 'SELECT', error);
+        return 'none';
+      }
+
+      return data ? 'requested' : 'none';
+    } catch (error) {
+      console.error('Error checking follow state:', error);
+      return 'none';
+    }
+  },
+
+  // Withdraw a pending follow request
+  async cancelFollowRequest(requesterId: string, targetId: string): Promise<boolean> {
+    try {
+      const { error } = await supabase
+        .from('follow_requests')
+        .delete()
+        .eq('requester_id', requesterId)
+        .eq('target_id', targetId);
+
+      if (error) {
+        debug.dbError('follow_requests', 'DELETE', error);
+        return false;
+      }
+
+      return true;
+    } catch (error) {
+      console.error('Error cancelling follow request:', error);
+      return false;
+    }
+  },
+
+  // Pending requests to follow a user, newest first
+  async getFollowRequests(userId: string): Promise<FollowRequest[]> {
+    try {
+      debug.dbQuery('follow_requests', 'SELECT', { userId });
+
+      const { data, error } = await supabase
+        .from('follow_requests')
+        .select(`
+          created_at,
+          user_profiles!follow_requests_requester_id_fkey (
+            id, full_name, handle, username, avatar, profile_picture, bio
+          )
+        `)
+        .eq('target_id', userId)
+        .order('created_at', { ascending: false });
+
+      if (error || !data) {
+        if (error) debug.dbError('follow_requests', 'SELECT', error);
+        return [];
+      }
+
+      return (data as any[])
+        .map(request => {
+          const profile = Array.isArray(request.user_profiles) ? request.user_profiles[0] : request.user_profiles;
+          if (!profile) return null;
+
+          return {
+            user: {
+              id: profile.id,
+              username: profile.username || profile.handle || '',
+              avatar: profile.avatar || profile.profile_picture || 'https://images.pexels.com/photos/774909/pexels-photo-774909.jpeg?auto=compress&cs=tinysrgb&w=150',
+              bio: profile.bio || '',
+              fullName: profile.full_name,
+              handle: profile.handle,
+            },
+            createdAt: request.created_at,
+          };
+        })
+        .filter(Boolean) as FollowRequest[];
+    } catch (error) {
+      console.error('Error fetching follow requests:', error);
+      return [];
+    }
+  },
+
+  // Accept a request to follow userId
+  async approveFollowRequest(userId: string, requesterId: string): Promise<boolean> {
+    try {
+      debug.dbQuery('follow_requests', 'RPC', { function: 'approve_follow_request', userId, requesterId });
+
+      const { data, error } = await supabase.rpc('approve_follow_request', { p_requester_id: requesterId });
+
+      if (error) {
+        debug.dbError('follow_requests', 'RPC', error);
+        return false;
+      }
+
+      return data === true;
+    } catch (error) {
+      console.error('Error approving follow request:', error);
+      return false;
+    }
+  },
+
+  // Turn down a request to follow userId; the requester is not told
+  async denyFollowRequest(userId: string, requesterId: string): Promise<boolean> {
+    return userService.cancelFollowRequest(requesterId, userId);
+  },
+
+  // =====================================================
+  // BLOCKING AND MUTING
+  // =====================================================
+  // Blocking hides both users from each other and stops follows, reviews and
+  // direct messages between them (also enforced in RLS, see
+  // database_user_blocks.sql). Muting only hides a user's posts, reels and
+  // stories from the muter.
+
+  // Block a user; follows between the two are removed
+  async blockUser(userId: string, blockedId: string): Promise<boolean> {
+    try {
+      debug.userAction('Block user', { userId, blockedId });
+      const { error } = await supabase.rpc('block_user', { p_user_id: blockedId });
+
+      if (error) {
+        debug.dbError('user_blocks', 'INSERT', error);
+        return false;
+      }
+
+      await userService.clearHiddenUserCaches(userId);
+      debug.dbSuccess('user_blocks', 'INSERT', { userId, blockedId });
+      return true;
+    } catch (error) {
+      console.error('Error blocking user:', error);
+      return false;
+    }
+  },
+
+  async unblockUser(userId: string, blockedId: string): Promise<boolean> {
+    try {
+      const { error } = await supabase
+        .from('user_blocks')
+        .delete()
+        .eq('blocker_id', userId)
+        .eq('blocked_id', blockedId);
+
+      if (error) {
+        debug.dbError('user_blocks', 'DELETE', error);
+        return false;
+      }
+
+      await userService.clearHiddenUserCaches(userId);
+      debug.dbSuccess('user_blocks', 'DELETE', { userId, blockedId });
+      return true;
+    } catch (error) {
+      console.error('Error unblocking user:', error);
+      return false;
+    }
+  },
+
+  // People this user has blocked, most recent first
+  async getBlockedUsers(userId: string): Promise<User[]> {
+    try {
+      const { data, error } = await supabase
+        .from('user_blocks')
+        .select('created_at, user_profiles!user_blocks_blocked_id_fkey(id, username, full_name, handle, avatar, profile_picture)')
+        .eq('blocker_id', userId)
+        .order('created_at', { ascending: false });
+
+      if (error) {
+        debug.dbError('user_blocks', 'SELECT', error);
+        return [];
+      }
+
+      return (data || [])
+        .map((row: any) => mapBookingUser(row.user_profiles))
+        .filter((user): user is User => !!user);
+    } catch (error) {
+      console.error('Error fetching blocked users:', error);
+      return [];
+    }
+  },
+
+  async muteUser(userId: string, mutedId: string): Promise<boolean> {
+    try {
+      const { error } = await supabase
+        .from('user_mutes')
+        .upsert({ muter_id: userId, muted_id: mutedId }, { onConflict: 'muter_id,muted_id', ignoreDuplicates: true });
+
+      if (error) {
+        debug.dbError('user_mutes', 'INSERT', error);
+        return false;
+      }
+
+      await userService.clearHiddenUserCaches(userId);
+      return true;
+    } catch (error) {
+      console.error('Error muting user:', error);
+      return false;
+    }
+  },
+
+  async unmuteUser(userId: string, mutedId: string): Promise<boolean> {
+    try {
+      const { error } = await supabase
+        .from('user_mutes')
+        .delete()
+        .eq('muter_id', userId)
+        .eq('muted_id', mutedId);
+
+      if (error) {
+        debug.dbError('user_mutes', 'DELETE', error);
+        return false;
+      }
+
+      await userService.clearHiddenUserCaches(userId);
+      return true;
+    } catch (error) {
+      console.error('Error unmuting user:', error);
+      return false;
+    }
+  },
+
+  async getMutedUserIds(userId: string): Promise<string[]> {
+    return (await userService.getHiddenUserIds(userId)).muted;
+  },
+
+  // Whether this user has blocked, or been blocked by, another user
+  async getBlockStatus(userId: string, otherUserId: string): Promise<{ isBlocked: boolean; isMuted: boolean; blockedByMe: boolean }> {
+    const hidden = await userService.getHiddenUserIds(userId);
+    return {
+      isBlocked: hidden.blocked.includes(otherUserId),
+      isMuted: hidden.muted.includes(otherUserId),
+      blockedByMe: hidden.blockedByMe.includes(otherUserId),
+    };
+  },
+
+  // Ids to leave out of what this user sees: everyone blocked in either
+  // direction, and muted users. Cached briefly since most lists need it.
+  async getHiddenUserIds(userId: string): Promise<{ blocked: string[]; blockedByMe: string[]; muted: string[] }> {
+    const empty = { blocked: [], blockedByMe: [], muted: [] };
+    if (!userId) return empty;
+
+    const cacheKey = `hidden_users_${userId}`;
+    const cached = await cacheService.get<{ blocked: string[]; blockedByMe: string[]; muted: string[] }>('users', cacheKey);
+    if (cached) return cached;
+
+    try {
+      const [blockedResult, ownBlocksResult, mutesResult] = await Promise.all([
+        supabase.rpc('get_blocked_user_ids'),
+        supabase.from('user_blocks').select('blocked_id').eq('blocker_id', userId),
+        supabase.from('user_mutes').select('muted_id').eq('muter_id', userId),
+      ]);
+
+      if (blockedResult.error || ownBlocksResult.error || mutesResult.error) {
+        debug.dbError('user_blocks', 'SELECT', blockedResult.error || ownBlocksResult.error || mutesResult.error);
+        return empty;
+      }
+
+      const hidden = {
+        blocked: (blockedResult.data || []).map((row: any) => (typeof row === 'string' ? row : row.get_blocked_user_ids)),
+        blockedByMe: (ownBlocksResult.data || []).map((row: any) => row.blocked_id),
+        muted: (mutesResult.data || []).map((row: any) => row.muted_id),
+      };
+
+      await cacheService.set('users', cacheKey, hidden, HIDDEN_USERS_CACHE_TTL);
+      return hidden;
+    } catch (error) {
+      console.error('Error fetching blocked users:', error);
+      return empty;
+    }
+  },
+
+  // Lists that were filtered with the old block and mute lists
+  async clearHiddenUserCaches(userId: string): Promise<void> {
+    await cacheService.delete('users', `hidden_users_${userId}`);
+    await Promise.all([cacheService.clear('posts'), cacheService.clear('reels'), cacheService.clear('stories')]);
+  },
+
+  // Close friends are the audience for 'friends' stories (enforced in RLS,
+  // see database_close_friends.sql)
+
+  async getCloseFriends(userId: string): Promise<User[]> {
+    try {
+      const { data, error } = await supabase
+        .from('close_friends')
+        .select('created_at, user_profiles!close_friends_friend_id_fkey(id, username, full_name, handle, avatar, profile_picture)')
+        .eq('user_id', userId)
+        .order('created_at', { ascending: false });
+
+      if (error) {
+        debug.dbError('close_friends', 'SELECT', error);
+        return [];
+      }
+
+      return (data || [])
+        .map((row: any) => mapBookingUser(row.user_profiles))
+        .filter((user): user is User => !!user);
+    } catch (error) {
+      console.error('Error fetching close friends:', error);
+      return [];
+    }
+  },
+
+  async addCloseFriend(userId: string, friendId: string): Promise<boolean> {
+    try {
+      const { error } = await supabase
+        .from('close_friends')
+        .upsert({ user_id: userId, friend_id: friendId }, { onConflict: 'user_id,friend_id', ignoreDuplicates: true });
+
+      if (error) {
+        debug.dbError('close_friends', 'INSERT', error);
+        return false;
+      }
+
+      return true;
+    } catch (error) {
+      console.error('Error adding close friend:', error);
+      return false;
+    }
+  },
+
+  async removeCloseFriend(userId: string, friendId: string): Promise<boolean> {
+    try {
+      const { error } = await supabase
+        .from('close_friends')
+        .delete()
+        .eq('user_id', userId)
+        .eq('friend_id', friendId);
+
+      if (error) {
+        debug.dbError('close_friends', 'DELETE', error);
+        return false;
+      }
+
+      return true;
+    } catch (error) {
+      console.error('Error removing close friend:', error);
+      return false;
+    }
+  },
+
+  // Ids of the users who have this user on their close-friends list
+  async getCloseFriendOfIds(userId: string): Promise<string[]> {
+    try {
+      const { data, error } = await supabase
+        .from('close_friends')
+        .select('user_id')
+        .eq('friend_id', userId);
+
+      if (error) {
+        debug.dbError('close_friends', 'SELECT', error);
+        return [];
+      }
+
+      return (data || []).map((row: any) => row.user_id);
+    } catch (error) {
+      console.error('Error fetching close friend lists:', error);
+      return [];
+    }
+  },
+
   // Update follower/following counts
   async updateFollowerCounts(followerId: string, followingId: string, change: number): Promise<void> {
     try {
@@ -690,10 +1146,12 @@ export const userService = {
     try {
       const startTime = Date.now();
       debug.searchStart(searchParams.query || 'all', searchParams);
-      
-      let query = supabase
-        .from('user_profiles')
-        .select(`
+
+      // Hosts-only searches join the host application to check its approval
+      const hostJoin = searchParams.showHostsOnly
+        ? ', host_profiles!host_profiles_user_id_fkey!inner(is_approved)'
+        : '';
+      const columns: string = `
           id,
           username,
           handle,
@@ -732,8 +1190,13 @@ export const userService = {
           followers_count,
           following_count,
           community_trust_score
-        `)
-        .neq('id', searchParams.currentUserId); // Exclude current user
+        `;
+      
+      let query = supabase
+        .from('user_profiles')
+        .select(columns + hostJoin)
+        .neq('id', searchParams.currentUserId) // Exclude current user
+        .eq('is_suspended', false);
 
       // Text search
       if (searchParams.query) {
@@ -779,9 +1242,9 @@ export const userService = {
         query = query.lte('hourly_rate', searchParams.maxPrice);
       }
 
-      // Host filter
+      // Host filter (only hosts whose application was approved)
       if (searchParams.showHostsOnly) {
-        query = query.eq('is_host', true);
+        query = query.eq('is_host', true).eq('host_profiles.is_approved', true);
       }
 
       // Online filter
@@ -799,6 +1262,9 @@ export const userService = {
         query = query.overlaps('interests', searchParams.interests);
       }
 
+      // Leave out users blocked in either direction
+      query = query.eq('is_blocked', false);
+
       const { data, error } = await query.limit(50);
 
       if (error) {
@@ -812,7 +1278,7 @@ export const userService = {
       }
 
       // Transform the data to match User interface
-      const users: User[] = data.map(userData => {
+      const users: User[] = data.map((userData: any) => {
         // Calculate distance if coordinates are provided
         let distanceKm: number | undefined;
         if (searchParams.latitude && searchParams.longitude && userData.latitude && userData.longitude) {
@@ -880,20 +1346,48 @@ export const userService = {
       return [];
     }
   },
-};
-
-// =====================================================
-// POST OPERATIONS
-// =====================================================
 
-export const postService = {
-  // Get all posts with user data (with caching)
-  async getPosts(limit = 20, offset = 0, currentUserId?: string): Promise<Post[]> {
+  // @mention autocomplete: people the current user follows first, then
+  // their followers, then everyone else
+  async searchMentionCandidates(query: string, limit = 8): Promise<User[]> {
     try {
-      // Check cache first for the first page
-      if (offset === 0) {
-        const cacheKey = `posts_${currentUserId || 'guest'}_${limit}`;
-        const cachedPosts = await cacheService.get<Post[]>('posts', cacheKey);
+      const { data, error } = await supabase.rpc('search_mention_candidates', {
+        p_query: query.replace(/^@/, ''),
+        p_limit: limit,
+      });
+
+      if (error || !data) {
+        debug.dbError('user_profiles', 'MENTION_SEARCH', error);
+        return [];
+      }
+
+      return data.map((row: any) => ({
+        id: row.id,
+        username: row.username || row.handle || '',
+        handle: row.handle,
+        fullName: row.full_name,
+        avatar: row.avatar || 'https://images.pexels.com/photos/774909/pexels-photo-774909.jpeg?auto=compress&cs=tinysrgb&w=150',
+        isFollowing: row.relationship_rank >= 2,
+      }));
+    } catch (error) {
+      console.error('Error searching mention candidates:', error);
+      return [];
+    }
+  },
+};
+
+// =====================================================
+// POST OPERATIONS
+// =====================================================
+
+export const postService = {
+  // Get all posts with user data (with caching)
+  async getPosts(limit = 20, offset = 0, currentUserId?: string): Promise<Post[]> {
+    try {
+      // Check cache first for the first page
+      if (offset === 0) {
+        const cacheKey = `posts_${currentUserId || 'guest'}_${limit}`;
+        const cachedPosts = await cacheService.get<Post[]>('posts', cacheKey);
         if (cachedPosts) {
           debug.cacheHit('posts', 'GET_POSTS', { cacheKey, count: cachedPosts.length });
           return cachedPosts;
@@ -910,6 +1404,8 @@ export const postService = {
             id, full_name, handle, username, avatar, profile_picture, bio, location, age, is_host, hourly_rate, total_chats, response_time
           )
         `)
+        .eq('is_hidden', false)
+        .eq('is_muted', false)
         .order('created_at', { ascending: false })
         .range(offset, offset + limit - 1);
 
@@ -946,6 +1442,7 @@ export const postService = {
           isFollowing: false, // Will be checked separately
         },
         content: post.content,
+        mentions: post.mentions || [],
         image: post.image_url,
         imageUrl: post.image_url,
         likes: post.likes_count || 0,
@@ -975,40 +1472,22 @@ export const postService = {
     }
   },
 
-  // Get posts from users that the current user follows (Feed)
+  // Get posts from users and hashtags that the current user follows (Feed)
   async getFeedPosts(currentUserId: string, limit = 20, offset = 0): Promise<Post[]> {
     try {
       debug.dbQuery('feed_posts', 'SELECT', { currentUserId, limit, offset });
-      
-      // First, get the users that the current user follows
-      const { data: followingData, error: followingError } = await supabase
-        .from('followers')
-        .select('following_id')
-        .eq('follower_id', currentUserId);
-
-      if (followingError) {
-        debug.dbError('followers', 'SELECT', followingError);
-        return [];
-      }
-
-      const followingIds = followingData?.map(f => f.following_id) || [];
-      
-      // If user doesn't follow anyone, return empty array
-      if (followingIds.length === 0) {
-        debug.dbSuccess('feed_posts', 'SELECT', { message: 'No following users found', count: 0 });
-        return [];
-      }
 
-      // Get posts from followed users
+      // Posts from followed users and followed hashtags (see get_feed_posts)
       const { data, error } = await supabase
-        .from('posts')
+        .rpc('get_feed_posts')
         .select(`
           *,
           user_profiles!posts_user_id_fkey (
             id, full_name, handle, username, avatar, profile_picture, bio, location, age, is_host, hourly_rate, total_chats, response_time
           )
         `)
-        .in('user_id', followingIds)
+        .eq('is_hidden', false)
+        .eq('is_muted', false) // Muted users stay followed but are left out of the feed
         .order('created_at', { ascending: false })
         .range(offset, offset + limit - 1);
 
@@ -1017,9 +1496,18 @@ export const postService = {
         return [];
       }
 
+      // Which of these authors the current user follows (the rest are from hashtags)
+      const { data: followingData } = await supabase
+        .from('followers')
+        .select('following_id')
+        .eq('follower_id', currentUserId)
+        .in('following_id', Array.from(new Set(data.map((post: any) => post.user_id))));
+
+      const followingIds = followingData?.map(f => f.following_id) || [];
+
       // Get like status for current user
       let userLikes: Set<string> = new Set();
-      const postIds = data.map(post => post.id);
+      const postIds = data.map((post: any) => post.id);
       const { data: likesData } = await supabase
         .from('likes')
         .select('post_id')
@@ -1030,7 +1518,7 @@ export const postService = {
         userLikes = new Set(likesData.map(like => like.post_id));
       }
 
-      const posts = data.map(post => ({
+      const posts = data.map((post: any) => ({
         id: post.id,
         user: {
           id: post.user_profiles.id,
@@ -1043,9 +1531,10 @@ export const postService = {
           hourlyRate: post.user_profiles.hourly_rate || 0,
           totalChats: post.user_profiles.total_chats || 0,
           responseTime: post.user_profiles.response_time || '5 min',
-          isFollowing: true, // User follows this post creator
+          isFollowing: followingIds.includes(post.user_id),
         },
         content: post.content,
+        mentions: post.mentions || [],
         image: post.image_url,
         imageUrl: post.image_url,
         likes: post.likes_count || 0,
@@ -1084,8 +1573,9 @@ export const postService = {
       if (postError || !post) return null;
 
       // Insert hashtags if provided
-      if (hashtags && hashtags.length > 0) {
-        await hashtagService.addHashtagsToPost(post.id, hashtags);
+      const tags = normalizeHashtags(hashtags || []);
+      if (tags.length > 0) {
+        await hashtagService.addHashtagsToPost(post.id, tags);
       }
 
       // Get user profile for the post
@@ -1096,6 +1586,7 @@ export const postService = {
         id: post.id,
         user,
         content: post.content,
+        mentions: post.mentions || [],
         image: post.image_url,
         imageUrl: post.image_url,
         likes: 0,
@@ -1107,7 +1598,7 @@ export const postService = {
         timestamp: post.created_at,
         createdAt: post.created_at,
         updatedAt: post.updated_at,
-        hashtags,
+        hashtags: tags.map(formatHashtag),
       };
     } catch (error) {
       console.error('Error creating post:', error);
@@ -1126,6 +1617,7 @@ export const postService = {
             id, full_name, handle, username, avatar, profile_picture, bio, location, age, is_host, hourly_rate, total_chats, response_time
           )
         `)
+        .eq('is_hidden', false)
         .eq('user_id', userId)
         .order('created_at', { ascending: false })
         .range(offset, offset + limit - 1);
@@ -1163,6 +1655,7 @@ export const postService = {
           isFollowing: false, // Will be checked separately
         },
         content: post.content,
+        mentions: post.mentions || [],
         image: post.image_url,
         imageUrl: post.image_url,
         likes: post.likes_count || 0,
@@ -1346,8 +1839,8 @@ export const postService = {
 // =====================================================
 
 export const storyService = {
-  // Get all stories with user data
-  async getStories(): Promise<Story[]> {
+  // Get all stories with user data, leaving out blocked and muted users
+  async getStories(currentUserId?: string): Promise<Story[]> {
     try {
       const { data, error } = await supabase
         .from('stories')
@@ -1357,12 +1850,19 @@ export const storyService = {
             id, full_name, handle, username, avatar, profile_picture, bio, location, age, is_host, hourly_rate, total_chats, response_time
           )
         `)
+        .eq('is_hidden', false)
+        .eq('is_muted', false)
         .gte('expires_at', new Date().toISOString())
         .order('created_at', { ascending: false });
 
       if (error || !data) return [];
 
-      return data.map(story => ({
+      const userId = currentUserId || (await supabase.auth.getUser()).data.user?.id;
+      const closeFriendOf = userId ? await userService.getCloseFriendOfIds(userId) : [];
+
+      const visible = data.filter(story => isStoryVisibleTo(story, userId, closeFriendOf));
+
+      return visible.map(story => ({
         id: story.id,
         user: {
           id: story.user_profiles.id,
@@ -1393,7 +1893,7 @@ export const storyService = {
         storySettings: {
           allowReplies: true,
           allowShares: true,
-          visibility: 'public' as const
+          visibility: (story.visibility || 'public') as StoryVisibility
         },
         timestamp: new Date(story.created_at).getTime(),
       }));
@@ -1403,10 +1903,16 @@ export const storyService = {
     }
   },
 
-  // Create a new story with support for both images and videos
-  async createStory(userId: string, mediaUrl: string, mediaType: 'image' | 'video' = 'image', expiresInHours = 24): Promise<Story | null> {
+  // Create a new story with support for both images and videos, shown to the given audience
+  async createStory(
+    userId: string,
+    mediaUrl: string,
+    mediaType: 'image' | 'video' = 'image',
+    expiresInHours = 24,
+    visibility: StoryVisibility = 'public'
+  ): Promise<Story | null> {
     try {
-      console.log('Creating story with parameters:', { userId, mediaUrl, mediaType, expiresInHours });
+      console.log('Creating story with parameters:', { userId, mediaUrl, mediaType, expiresInHours, visibility });
       
       const expiresAt = new Date();
       expiresAt.setHours(expiresAt.getHours() + expiresInHours);
@@ -1424,6 +1930,7 @@ export const storyService = {
           is_fullscreen: true,
           aspect_ratio: '9:16',
           story_type: 'story',
+          visibility,
           view_count: 0,
           likes_count: 0,
         };
@@ -1449,10 +1956,12 @@ export const storyService = {
       } catch (enhancedError) {
         console.log('Enhanced approach failed, trying basic approach:', enhancedError);
         
-        // Fallback to basic approach (original columns only)
+        // Fallback to basic approach (original columns only, plus the audience
+        // so a close-friends story is never posted publicly)
         storyData = {
           user_id: userId,
           expires_at: expiresAt.toISOString(),
+          visibility,
         };
 
         // For basic approach, use image_url for both images and videos
@@ -1507,7 +2016,7 @@ export const storyService = {
         storySettings: {
           allowReplies: true,
           allowShares: true,
-          visibility: 'public' as const
+          visibility: (story.visibility || visibility) as StoryVisibility
         },
         timestamp: new Date(story.created_at).getTime(),
       };
@@ -1582,6 +2091,7 @@ export const storyService = {
             id, username, handle, avatar, profile_picture
           )
         `)
+        .eq('is_hidden', false)
         .eq('user_id', userId)
         .eq('is_archived', false)
         .gt('expires_at', new Date().toISOString())
@@ -1597,8 +2107,11 @@ export const storyService = {
         return [];
       }
 
+      const viewerId = (await supabase.auth.getUser()).data.user?.id;
+      const closeFriendOf = viewerId && viewerId !== userId ? await userService.getCloseFriendOfIds(viewerId) : [];
+
       // Map the data to the expected Story format
-      const stories = data.map(story => ({
+      const stories = data.filter(story => isStoryVisibleTo(story, viewerId, closeFriendOf)).map(story => ({
         id: story.id,
         user: {
           id: story.user_profiles?.id || userId,
@@ -1634,7 +2147,7 @@ export const storyService = {
         storySettings: {
           allowReplies: true,
           allowShares: true,
-          visibility: 'public' as const
+          visibility: (story.visibility || 'public') as StoryVisibility
         },
         timestamp: new Date(story.created_at).getTime(),
       }));
@@ -1685,6 +2198,8 @@ export const reelService = {
             id, full_name, handle, username, avatar, profile_picture, bio, location, age, is_host, hourly_rate, total_chats, response_time
           )
         `)
+        .eq('is_hidden', false)
+        .eq('is_muted', false)
         .order('created_at', { ascending: false })
         .range(offset, offset + limit - 1);
 
@@ -1707,6 +2222,7 @@ export const reelService = {
         },
         videoUrl: reel.video_url,
         caption: reel.caption || '',
+        mentions: reel.mentions || [],
         hashtags: reel.hashtags || [], // Now includes hashtags from database
         likes: reel.likes_count || 0,
         likesCount: reel.likes_count || 0,
@@ -1718,7 +2234,7 @@ export const reelService = {
         isLiked: false, // No user context for unauthenticated users
         isSaved: false, // No user context for unauthenticated users
         // isViewed: false, // Removed - property doesn't exist in Reel type // No user context for unauthenticated users
-        isTrending: (reel.likes_count || 0) > 1000 || (reel.view_count || 0) > 10000,
+        isTrending: reel.is_trending || false,
         duration: reel.duration || 0,
         location: reel.location || '',
         thumbnailUrl: reel.thumbnail_url,
@@ -1762,6 +2278,7 @@ export const reelService = {
     thumbnailUrl?: string
   ): Promise<Reel | null> {
     try {
+      const tags = normalizeHashtags(hashtags || []);
       const { data: reel, error } = await supabase
         .from('reels')
         .insert({
@@ -1770,6 +2287,7 @@ export const reelService = {
           thumbnail_url: thumbnailUrl,
           caption,
           duration,
+          hashtags: tags.map(formatHashtag),
           music_title: musicInfo?.title,
           music_artist: musicInfo?.artist,
           music_cover_url: musicInfo?.coverUrl,
@@ -1780,8 +2298,8 @@ export const reelService = {
       if (error || !reel) return null;
 
       // Insert hashtags if provided
-      if (hashtags && hashtags.length > 0) {
-        await hashtagService.addHashtagsToReel(reel.id, hashtags);
+      if (tags.length > 0) {
+        await hashtagService.addHashtagsToReel(reel.id, tags);
       }
 
       const user = await userService.getUserProfile(userId);
@@ -1793,7 +2311,8 @@ export const reelService = {
         videoUrl: reel.video_url,
         thumbnailUrl: reel.thumbnail_url,
         caption: reel.caption || '',
-        hashtags: hashtags || [],
+        mentions: reel.mentions || [],
+        hashtags: tags.map(formatHashtag),
         likes: 0,
         likesCount: 0,
         comments: 0,
@@ -1865,6 +2384,230 @@ export const reelService = {
     }
   },
 
+  // Saved reels, most recently saved first; pass a collection id to list
+  // only that collection (see database_saved_reels.sql)
+  async getSavedReels(userId: string, limit = 20, offset = 0, collectionId?: string): Promise<SavedReel[]> {
+    try {
+      debug.dbQuery('reel_saves', 'SELECT', { userId, limit, offset, collectionId });
+
+      let query = supabase
+        .from('reel_saves')
+        .select(`
+          created_at,
+          collection_id,
+          reels!reel_saves_reel_id_fkey (
+            *,
+            user_profiles!reels_user_id_fkey (
+              id, full_name, handle, username, avatar, profile_picture
+            )
+          )
+        `)
+        .eq('user_id', userId)
+        .order('created_at', { ascending: false })
+        .range(offset, offset + limit - 1);
+
+      if (collectionId) {
+        query = query.eq('collection_id', collectionId);
+      }
+
+      const { data, error } = await query;
+
+      if (error || !data) {
+        debug.dbError('reel_saves', 'SELECT', error);
+        return [];
+      }
+
+      // Reels that were deleted or hidden by a moderator drop out of the list
+      const saved = (data as any[])
+        .filter(row => row.reels && !row.reels.is_hidden && row.reels.user_profiles)
+        .map(row => {
+          const reel = row.reels;
+          return {
+            savedAt: row.created_at,
+            collectionId: row.collection_id || undefined,
+            reel: {
+              id: reel.id,
+              user: {
+                id: reel.user_profiles.id,
+                username: reel.user_profiles.username || reel.user_profiles.handle || '',
+                avatar: reel.user_profiles.avatar || reel.user_profiles.profile_picture || '',
+                fullName: reel.user_profiles.full_name,
+                handle: reel.user_profiles.handle,
+              },
+              videoUrl: reel.video_url,
+              caption: reel.caption || '',
+              mentions: reel.mentions || [],
+              hashtags: reel.hashtags || [],
+              likes: reel.likes_count || 0,
+              likesCount: reel.likes_count || 0,
+              comments: reel.comments_count || 0,
+              commentsCount: reel.comments_count || 0,
+              shares: reel.shares_count || 0,
+              sharesCount: reel.shares_count || 0,
+              viewCount: reel.view_count || 0,
+              isLiked: false,
+              isSaved: true,
+              duration: reel.duration || 0,
+              thumbnailUrl: reel.thumbnail_url,
+              timestamp: reel.created_at,
+              createdAt: reel.created_at,
+            },
+          };
+        });
+
+      debug.dbSuccess('reel_saves', 'SELECT', { count: saved.length });
+      return saved;
+    } catch (error) {
+      debug.dbError('reel_saves', 'SELECT', { error: (error as Error).message });
+      return [];
+    }
+  },
+
+  // Remove a reel from the user's saves (and from its collection)
+  async removeSavedReel(userId: string, reelId: string): Promise<boolean> {
+    try {
+      const { error } = await supabase
+        .from('reel_saves')
+        .delete()
+        .eq('user_id', userId)
+        .eq('reel_id', reelId);
+
+      if (error) {
+        debug.dbError('reel_saves', 'DELETE', error);
+        return false;
+      }
+
+      return true;
+    } catch (error) {
+      console.error('Error removing saved reel:', error);
+      return false;
+    }
+  },
+
+  // File a saved reel into a collection, or pass null to take it out of one
+  async moveSavedReel(userId: string, reelId: string, collectionId: string | null): Promise<boolean> {
+    try {
+      const { error } = await supabase
+        .from('reel_saves')
+        .update({ collection_id: collectionId })
+        .eq('user_id', userId)
+        .eq('reel_id', reelId);
+
+      if (error) {
+        debug.dbError('reel_saves', 'UPDATE', error);
+        return false;
+      }
+
+      return true;
+    } catch (error) {
+      console.error('Error moving saved reel:', error);
+      return false;
+    }
+  },
+
+  async getSaveCollections(userId: string): Promise<SavedReelCollection[]> {
+    try {
+      const [collectionsResult, filedResult] = await Promise.all([
+        supabase
+          .from('reel_save_collections')
+          .select('id, name, created_at')
+          .eq('user_id', userId)
+          .order('created_at', { ascending: true }),
+        supabase
+          .from('reel_saves')
+          .select('collection_id, reels!reel_saves_reel_id_fkey(thumbnail_url)')
+          .eq('user_id', userId)
+          .not('collection_id', 'is', null)
+          .order('created_at', { ascending: false }),
+      ]);
+
+      if (collectionsResult.error || filedResult.error) {
+        debug.dbError('reel_save_collections', 'SELECT', collectionsResult.error || filedResult.error);
+        return [];
+      }
+
+      // Count filed reels per collection; the newest one is the cover
+      const counts = new Map<string, number>();
+      const covers = new Map<string, string>();
+      (filedResult.data || []).forEach((row: any) => {
+        counts.set(row.collection_id, (counts.get(row.collection_id) || 0) + 1);
+        if (!covers.has(row.collection_id) && row.reels?.thumbnail_url) {
+          covers.set(row.collection_id, row.reels.thumbnail_url);
+        }
+      });
+
+      return (collectionsResult.data || []).map((row: any) => ({
+        id: row.id,
+        name: row.name,
+        reelCount: counts.get(row.id) || 0,
+        coverUrl: covers.get(row.id),
+        createdAt: row.created_at,
+      }));
+    } catch (error) {
+      console.error('Error fetching save collections:', error);
+      return [];
+    }
+  },
+
+  async createSaveCollection(userId: string, name: string): Promise<SavedReelCollection | null> {
+    try {
+      const { data, error } = await supabase
+        .from('reel_save_collections')
+        .insert({ user_id: userId, name: name.trim() })
+        .select('id, name, created_at')
+        .single();
+
+      if (error || !data) {
+        debug.dbError('reel_save_collections', 'INSERT', error);
+        return null;
+      }
+
+      return { id: data.id, name: data.name, reelCount: 0, createdAt: data.created_at };
+    } catch (error) {
+      console.error('Error creating save collection:', error);
+      return null;
+    }
+  },
+
+  async renameSaveCollection(collectionId: string, name: string): Promise<boolean> {
+    try {
+      const { error } = await supabase
+        .from('reel_save_collections')
+        .update({ name: name.trim() })
+        .eq('id', collectionId);
+
+      if (error) {
+        debug.dbError('reel_save_collections', 'UPDATE', error);
+        return false;
+      }
+
+      return true;
+    } catch (error) {
+      console.error('Error renaming save collection:', error);
+      return false;
+    }
+  },
+
+  // Delete a collection; its reels stay saved
+  async deleteSaveCollection(collectionId: string): Promise<boolean> {
+    try {
+      const { error } = await supabase
+        .from('reel_save_collections')
+        .delete()
+        .eq('id', collectionId);
+
+      if (error) {
+        debug.dbError('reel_save_collections', 'DELETE', error);
+        return false;
+      }
+
+      return true;
+    } catch (error) {
+      console.error('Error deleting save collection:', error);
+      return false;
+    }
+  },
+
   // Increment reel view count (only once per user)
   async incrementView(reelId: string): Promise<boolean> {
     try {
@@ -1899,6 +2642,160 @@ export const reelService = {
     }
   },
 
+  // The reel was watched to the end (see database_reel_watch_history.sql)
+  async markReelWatched(reelId: string): Promise<boolean> {
+    try {
+      const { error } = await supabase.rpc('mark_reel_watched', { p_reel_id: reelId });
+
+      if (error) {
+        debug.dbError('reel_views', 'COMPLETE', error);
+        return false;
+      }
+
+      return true;
+    } catch (error) {
+      debug.dbError('reel_views', 'COMPLETE', { error: (error as Error).message });
+      return false;
+    }
+  },
+
+  // Follows, interests, followed hashtags and reel engagement history for
+  // the "For You" ranking
+  async getForYouSignals(userId: string): Promise<ForYouSignals> {
+    const empty: ForYouSignals = { followedUserIds: [], interests: [], followedHashtags: [], engagements: [] };
+
+    try {
+      const [followsResult, profileResult, historyResult, followedHashtags] = await Promise.all([
+        supabase.from('followers').select('following_id').eq('follower_id', userId),
+        supabase.from('user_profiles').select('interests').eq('id', userId).single(),
+        supabase.rpc('get_reel_engagement_history', { p_limit: FOR_YOU_HISTORY_LIMIT }),
+        hashtagService.getFollowedHashtags(userId),
+      ]);
+
+      if (followsResult.error || historyResult.error) {
+        debug.dbError('reels', 'FOR_YOU_SIGNALS', followsResult.error || historyResult.error);
+      }
+
+      return {
+        followedUserIds: (followsResult.data || []).map((row: any) => row.following_id),
+        interests: profileResult.data?.interests || [],
+        followedHashtags: followedHashtags.map(hashtag => hashtag.name),
+        engagements: (historyResult.data || []).map((row: any) => ({
+          reelId: row.reel_id,
+          creatorId: row.creator_id,
+          hashtags: row.hashtags || [],
+          viewed: row.viewed || false,
+          completed: row.completed || false,
+          liked: row.liked || false,
+        })),
+      };
+    } catch (error) {
+      debug.dbError('reels', 'FOR_YOU_SIGNALS', { error: (error as Error).message });
+      return empty;
+    }
+  },
+
+  // Personalized reels: recent, followed, on-topic and popular reels from
+  // other people, ranked by utils/forYouRanking using the viewer's follows,
+  // interests and history
+  async getForYouReels(userId: string, limit = 20, offset = 0): Promise<Reel[]> {
+    try {
+      debug.dbQuery('reels', 'FOR_YOU_SELECT', { userId, limit, offset });
+
+      const [candidates, signals] = await Promise.all([
+        supabase
+          .rpc('get_for_you_candidates', {
+            p_days: FOR_YOU_WINDOW_DAYS,
+            p_per_source: FOR_YOU_CANDIDATE_LIMIT,
+          })
+          .select(`
+            *,
+            user_profiles!reels_user_id_fkey (
+              id, full_name, handle, username, avatar, profile_picture, bio, location, age, is_host, hourly_rate, total_chats, response_time
+            )
+          `)
+          .eq('is_muted', false)
+          .order('created_at', { ascending: false }),
+        reelService.getForYouSignals(userId),
+      ]);
+
+      if (candidates.error || !candidates.data) {
+        debug.dbError('reels', 'FOR_YOU_SELECT', candidates.error);
+        return [];
+      }
+
+      const viewedIds = new Set(signals.engagements.filter(e => e.viewed).map(e => e.reelId));
+
+      const reels: Reel[] = candidates.data.map((reel: any) => ({
+        id: reel.id,
+        user: {
+          id: reel.user_profiles.id,
+          username: reel.user_profiles.username || reel.user_profiles.handle || '',
+          avatar: reel.user_profiles.avatar || reel.user_profiles.profile_picture || '',
+          bio: reel.user_profiles.bio || '',
+          location: reel.user_profiles.location || '',
+          age: reel.user_profiles.age || 0,
+          isHost: reel.user_profiles.is_host || false,
+          hourlyRate: reel.user_profiles.hourly_rate || 0,
+          totalChats: reel.user_profiles.total_chats || 0,
+          responseTime: reel.user_profiles.response_time || '5 min',
+          isFollowing: signals.followedUserIds.includes(reel.user_id),
+        },
+        videoUrl: reel.video_url,
+        caption: reel.caption || '',
+        mentions: reel.mentions || [],
+        hashtags: reel.hashtags || [],
+        likes: reel.likes_count || 0,
+        likesCount: reel.likes_count || 0,
+        comments: reel.comments_count || 0,
+        commentsCount: reel.comments_count || 0,
+        shares: reel.shares_count || 0,
+        sharesCount: reel.shares_count || 0,
+        viewCount: reel.view_count || 0,
+        isLiked: false,
+        isSaved: false,
+        isViewed: viewedIds.has(reel.id),
+        isTrending: reel.is_trending || false,
+        duration: reel.duration || 0,
+        location: reel.location || '',
+        thumbnailUrl: reel.thumbnail_url,
+        musicInfo: reel.music_title ? {
+          title: reel.music_title,
+          artist: reel.music_artist || '',
+          coverUrl: reel.music_cover_url || '',
+        } : undefined,
+        musicTitle: reel.music_title,
+        musicArtist: reel.music_artist,
+        musicCoverUrl: reel.music_cover_url,
+        timestamp: reel.created_at,
+        createdAt: reel.created_at,
+        updatedAt: reel.updated_at,
+      }));
+
+      const ranked = rankForYouReels(reels, signals).slice(offset, offset + limit);
+
+      // Like status for the page itself, since the engagement history is capped
+      let userLikes: Set<string> = new Set();
+      if (ranked.length > 0) {
+        const { data: likesData } = await supabase
+          .from('reel_likes')
+          .select('reel_id')
+          .eq('user_id', userId)
+          .in('reel_id', ranked.map(reel => reel.id));
+
+        if (likesData) {
+          userLikes = new Set(likesData.map(like => like.reel_id));
+        }
+      }
+
+      debug.dbSuccess('reels', 'FOR_YOU_SELECT', { count: ranked.length, candidates: reels.length });
+      return ranked.map(reel => ({ ...reel, isLiked: userLikes.has(reel.id) }));
+    } catch (error) {
+      debug.dbError('reels', 'FOR_YOU_SELECT', { error: (error as Error).message });
+      return [];
+    }
+  },
+
   // Share reel
   async shareReel(reelId: string, shareType: 'internal' | 'external' | 'story' = 'internal', platform?: string): Promise<boolean> {
     try {
@@ -1942,6 +2839,7 @@ export const reelService = {
           user_profiles!inner(username, avatar, bio, location, age, is_host, hourly_rate, total_chats, response_time),
           reel_music(title, artist, cover_url, duration)
         `)
+        .eq('is_hidden', false)
         .eq('user_id', userId)
         .eq('status', 'active')
         .order('created_at', { ascending: false })
@@ -1981,6 +2879,7 @@ export const reelService = {
         },
         videoUrl: reel.video_url,
         caption: reel.caption,
+        mentions: reel.mentions || [],
         hashtags: reel.hashtags || [],
         likes: reel.likes_count,
         comments: reel.comments_count,
@@ -2004,95 +2903,26 @@ export const reelService = {
     }
   },
 
-  // Get trending reels based on engagement
-  async getTrendingReels(limit = 20, offset = 0, currentUserId?: string): Promise<Reel[]> {
+  // Get trending reels, ranked server-side by time-decayed engagement for
+  // the chosen trending style (see database_trending.sql)
+  async getTrendingReels(limit = 20, offset = 0, currentUserId?: string, trendingStyle: TrendingStyle = 'likes'): Promise<Reel[]> {
     try {
-      debug.dbQuery('reels', 'TRENDING_SELECT', { limit, offset });
-      
-      const { data: { user }, error: authError } = await supabase.auth.getUser();
-      const userId = currentUserId || user?.id;
-      
-      if (authError) {
-        debug.dbError('auth', 'GET_USER', authError);
-        // Continue without user context for unauthenticated access
-      }
-      
-      // Temporarily use fallback for everyone until RPC functions are fixed
-      // TODO: Re-enable RPC function once database is updated
-      /*
-      if (userId) {
-        const { data, error } = await supabase.rpc('get_reels_for_user', {
-          p_user_id: userId,
-          p_limit: limit,
-          p_offset: offset
-        });
-
-        if (error || !data) {
-          debug.dbError('reels', 'TRENDING_SELECT', error);
-          return [];
-        }
+      debug.dbQuery('reels', 'TRENDING_SELECT', { limit, offset, currentUserId, trendingStyle });
 
-        // Filter and sort for trending (last 7 days, high engagement)
-        const trendingReels = data
-          .filter(reel => {
-            const reelDate = new Date(reel.created_at);
-            const weekAgo = new Date(Date.now() - 7 * 24 * 60 * 60 * 1000);
-            return reelDate >= weekAgo;
-          })
-          .sort((a: any, b: any) => {
-            // Sort by engagement score (likes + views)
-            const scoreA = (a.likes_count || 0) + (a.view_count || 0) * 0.1;
-            const scoreB = (b.likes_count || 0) + (b.view_count || 0) * 0.1;
-            return scoreB - scoreA;
-          })
-          .slice(0, limit);
-
-        debug.dbSuccess('reels', 'TRENDING_SELECT', { count: trendingReels.length });
+      const { data: ranked, error: rankError } = await supabase.rpc('get_trending_reels', {
+        p_style: trendingStyle,
+        p_limit: limit,
+        p_offset: offset,
+      });
 
-        return trendingReels.map((reel: any) => ({
-          id: reel.id,
-          user: {
-            id: reel.user_id,
-            username: reel.username || '',
-            avatar: reel.avatar || '',
-            bio: reel.bio || '',
-            location: '',
-            age: 0,
-            isHost: false,
-            hourlyRate: 0,
-            totalChats: 0,
-            responseTime: '5 min',
-            isFollowing: false,
-          },
-          videoUrl: reel.video_url,
-          caption: reel.caption || '',
-          hashtags: reel.hashtags || [],
-          likes: reel.likes_count || 0,
-          likesCount: reel.likes_count || 0,
-          comments: reel.comments_count || 0,
-          commentsCount: reel.comments_count || 0,
-          shares: reel.shares_count || 0,
-          sharesCount: reel.shares_count || 0,
-          viewCount: reel.view_count || 0,
-          isLiked: reel.is_liked || false,
-          isSaved: reel.is_saved || false,
-          isViewed: reel.is_viewed || false,
-          isTrending: true, // These are trending by definition
-          duration: reel.duration || 0,
-          location: reel.location || '',
-          thumbnailUrl: reel.thumbnail_url,
-          musicInfo: reel.music_title ? {
-            title: reel.music_title,
-            artist: reel.music_artist || '',
-            coverUrl: reel.music_cover_url || '',
-          } : undefined,
-          createdAt: reel.created_at,
-          timestamp: reel.created_at,
-        }));
+      if (rankError || !ranked) {
+        debug.dbError('reels', 'TRENDING_RANK', rankError);
+        return [];
       }
-      */
 
-      // Fallback for unauthenticated users
+      const scores = new Map<string, number>(ranked.map((row: any) => [row.reel_id, row.trending_score]));
+      if (scores.size === 0) return [];
+
       const { data, error } = await supabase
         .from('reels')
         .select(`
@@ -2101,19 +2931,20 @@ export const reelService = {
             id, full_name, handle, username, avatar, profile_picture, bio, location, age, is_host, hourly_rate, total_chats, response_time
           )
         `)
-        .order('likes_count', { ascending: false })
-        .order('view_count', { ascending: false })
-        .gte('created_at', new Date(Date.now() - 7 * 24 * 60 * 60 * 1000).toISOString()) // Last 7 days
-        .range(offset, offset + limit - 1);
+        .eq('is_hidden', false)
+        .eq('is_muted', false)
+        .in('id', Array.from(scores.keys()));
 
       if (error || !data) {
         debug.dbError('reels', 'TRENDING_SELECT', error);
         return [];
       }
 
-      debug.dbSuccess('reels', 'TRENDING_SELECT', { count: data.length });
+      const visibleData = data.sort((a, b) => (scores.get(b.id) || 0) - (scores.get(a.id) || 0));
+
+      debug.dbSuccess('reels', 'TRENDING_SELECT', { count: visibleData.length, trendingStyle });
       
-      return data.map(reel => ({
+      return visibleData.map(reel => ({
         id: reel.id,
         user: {
           id: reel.user_profiles.id,
@@ -2130,6 +2961,7 @@ export const reelService = {
         },
         videoUrl: reel.video_url,
         caption: reel.caption || '',
+        mentions: reel.mentions || [],
         hashtags: reel.hashtags || [],
         likes: reel.likes_count || 0,
         likesCount: reel.likes_count || 0,
@@ -2140,8 +2972,8 @@ export const reelService = {
         viewCount: reel.view_count || 0,
         isLiked: false,
         isSaved: false,
-        // isViewed: false, // Removed - property doesn't exist in Reel type
-        isTrending: true, // These are trending by definition
+        isTrending: reel.is_trending || false,
+        trendingScore: scores.get(reel.id) || 0,
         duration: reel.duration || 0,
         location: reel.location || '',
         thumbnailUrl: reel.thumbnail_url,
@@ -2176,6 +3008,7 @@ export const reelService = {
             id, full_name, handle, username, avatar, profile_picture, bio, location, age, is_host, hourly_rate, total_chats, response_time
           )
         `)
+        .eq('is_hidden', false)
         .overlaps('hashtags', hashtags)
         .order('created_at', { ascending: false })
         .range(offset, offset + limit - 1);
@@ -2204,6 +3037,7 @@ export const reelService = {
         },
         videoUrl: reel.video_url,
         caption: reel.caption || '',
+        mentions: reel.mentions || [],
         hashtags: reel.hashtags || [],
         likes: reel.likes_count || 0,
         likesCount: reel.likes_count || 0,
@@ -2215,7 +3049,7 @@ export const reelService = {
         isLiked: false,
         isSaved: false,
         // isViewed: false, // Removed - property doesn't exist in Reel type
-        isTrending: (reel.likes_count || 0) > 1000 || (reel.view_count || 0) > 10000,
+        isTrending: reel.is_trending || false,
         duration: reel.duration || 0,
         location: reel.location || '',
         thumbnailUrl: reel.thumbnail_url,
@@ -2288,6 +3122,7 @@ export const reelService = {
             id, full_name, handle, username, avatar, profile_picture, bio, location, age, is_host, hourly_rate, total_chats, response_time
           )
         `)
+        .eq('is_hidden', false)
         .eq('user_id', userId)
         .order('created_at', { ascending: false })
         .range(offset, offset + limit - 1);
@@ -2316,6 +3151,7 @@ export const reelService = {
         },
         videoUrl: reel.video_url,
         caption: reel.caption || '',
+        mentions: reel.mentions || [],
         hashtags: reel.hashtags || [],
         likes: reel.likes_count || 0,
         likesCount: reel.likes_count || 0,
@@ -2327,7 +3163,7 @@ export const reelService = {
         isLiked: false,
         isSaved: false,
         // isViewed: false, // Removed - property doesn't exist in Reel type
-        isTrending: (reel.likes_count || 0) > 1000 || (reel.view_count || 0) > 10000,
+        isTrending: reel.is_trending || false,
         duration: reel.duration || 0,
         location: reel.location || '',
         thumbnailUrl: reel.thumbnail_url,
@@ -2354,80 +3190,267 @@ export const reelService = {
 // HASHTAG OPERATIONS
 // =====================================================
 
+const mapHashtag = (row: any, isFollowing?: boolean): Hashtag => ({
+  id: row.id,
+  name: row.name,
+  postCount: row.post_count || 0,
+  reelCount: row.reel_count || 0,
+  isFollowing,
+  createdAt: row.created_at,
+});
+
 export const hashtagService = {
-  // Add hashtags to a post
+  // Add hashtags to a post in one call; names are normalized server-side too
   async addHashtagsToPost(postId: string, hashtagNames: string[]): Promise<boolean> {
     try {
-      for (const hashtagName of hashtagNames) {
-        // Get or create hashtag
-        let { data: hashtag } = await supabase
-          .from('hashtags')
-          .select('id')
-          .eq('name', hashtagName)
-          .single();
+      const names = normalizeHashtags(hashtagNames);
+      if (names.length === 0) return true;
 
-        if (!hashtag) {
-          const { data: newHashtag } = await supabase
-            .from('hashtags')
-            .insert({ name: hashtagName })
-            .select('id')
-            .single();
-          hashtag = newHashtag;
-        }
+      debug.dbQuery('post_hashtags', 'INSERT', { postId, names });
+      const { data, error } = await supabase.rpc('add_post_hashtags', { p_post_id: postId, p_names: names });
 
-        if (hashtag) {
-          // Add hashtag to post
-          await supabase
-            .from('post_hashtags')
-            .insert({
-              post_id: postId,
-              hashtag_id: hashtag.id,
-            });
-        }
+      if (error) {
+        debug.dbError('post_hashtags', 'INSERT', error);
+        return false;
       }
-      return true;
+
+      return data === true;
     } catch (error) {
       console.error('Error adding hashtags to post:', error);
       return false;
     }
   },
 
-  // Add hashtags to a reel
+  // Add hashtags to a reel in one call
   async addHashtagsToReel(reelId: string, hashtagNames: string[]): Promise<boolean> {
     try {
-      for (const hashtagName of hashtagNames) {
-        // Get or create hashtag
-        let { data: hashtag } = await supabase
-          .from('hashtags')
-          .select('id')
-          .eq('name', hashtagName)
-          .single();
+      const names = normalizeHashtags(hashtagNames);
+      if (names.length === 0) return true;
 
-        if (!hashtag) {
-          const { data: newHashtag } = await supabase
-            .from('hashtags')
-            .insert({ name: hashtagName })
-            .select('id')
-            .single();
-          hashtag = newHashtag;
-        }
+      debug.dbQuery('reel_hashtags', 'INSERT', { reelId, names });
+      const { data, error } = await supabase.rpc('add_reel_hashtags', { p_reel_id: reelId, p_names: names });
 
-        if (hashtag) {
-          // Add hashtag to reel
-          await supabase
-            .from('reel_hashtags')
-            .insert({
-              reel_id: reelId,
-              hashtag_id: hashtag.id,
-            });
-        }
+      if (error) {
+        debug.dbError('reel_hashtags', 'INSERT', error);
+        return false;
       }
-      return true;
+
+      return data === true;
     } catch (error) {
       console.error('Error adding hashtags to reel:', error);
       return false;
     }
   },
+
+  // Get a hashtag by name (with or without '#', any case)
+  async getHashtag(name: string, currentUserId?: string): Promise<Hashtag | null> {
+    try {
+      const { data, error } = await supabase
+        .from('hashtags')
+        .select('*')
+        .eq('name', normalizeHashtag(name))
+        .maybeSingle();
+
+      if (error || !data) {
+        if (error) debug.dbError('hashtags', 'SELECT', error);
+        return null;
+      }
+
+      let isFollowing = false;
+      if (currentUserId) {
+        const { data: follow } = await supabase
+          .from('hashtag_follows')
+          .select('hashtag_id')
+          .eq('user_id', currentUserId)
+          .eq('hashtag_id', data.id)
+          .maybeSingle();
+        isFollowing = !!follow;
+      }
+
+      return mapHashtag(data, isFollowing);
+    } catch (error) {
+      console.error('Error fetching hashtag:', error);
+      return null;
+    }
+  },
+
+  // Posts and reels tagged with a hashtag, best first ('top') or newest first
+  async getHashtagContent(
+    name: string,
+    sort: HashtagSort = 'top',
+    limit = 30,
+    offset = 0,
+    currentUserId?: string
+  ): Promise<HashtagContentItem[]> {
+    try {
+      debug.dbQuery('hashtags', 'CONTENT_SELECT', { name, sort, limit, offset });
+
+      const { data: ranked, error: rankError } = await supabase.rpc('get_hashtag_content', {
+        p_name: normalizeHashtag(name),
+        p_sort: sort,
+        p_limit: limit,
+        p_offset: offset,
+      });
+
+      if (rankError || !ranked) {
+        debug.dbError('hashtags', 'CONTENT_RANK', rankError);
+        return [];
+      }
+
+      const postIds = ranked.filter((row: any) => row.content_type === 'post').map((row: any) => row.content_id);
+      const reelIds = ranked.filter((row: any) => row.content_type === 'reel').map((row: any) => row.content_id);
+
+      const [postsResult, reelsResult, hidden] = await Promise.all([
+        postIds.length > 0
+          ? supabase.from('posts').select('id, user_id, image_url, likes_count, comments_count, created_at').in('id', postIds)
+          : Promise.resolve({ data: [] as any[] }),
+        reelIds.length > 0
+          ? supabase.from('reels').select('id, user_id, thumbnail_url, likes_count, comments_count, view_count, created_at').in('id', reelIds)
+          : Promise.resolve({ data: [] as any[] }),
+        currentUserId ? userService.getHiddenUserIds(currentUserId) : Promise.resolve({ blocked: [], muted: [] }),
+      ]);
+
+      const items = new Map<string, HashtagContentItem>();
+      for (const post of postsResult.data || []) {
+        items.set(`post:${post.id}`, {
+          type: 'post',
+          id: post.id,
+          ownerId: post.user_id,
+          mediaUrl: post.image_url || undefined,
+          likes: post.likes_count || 0,
+          comments: post.comments_count || 0,
+          createdAt: post.created_at,
+        });
+      }
+      for (const reel of reelsResult.data || []) {
+        items.set(`reel:${reel.id}`, {
+          type: 'reel',
+          id: reel.id,
+          ownerId: reel.user_id,
+          mediaUrl: reel.thumbnail_url || undefined,
+          likes: reel.likes_count || 0,
+          comments: reel.comments_count || 0,
+          viewCount: reel.view_count || 0,
+          createdAt: reel.created_at,
+        });
+      }
+
+      // Keep the server's order; blocks are handled there, mutes are per viewer
+      const ordered: HashtagContentItem[] = [];
+      for (const row of ranked) {
+        const item = items.get(`${row.content_type}:${row.content_id}`);
+        if (item) ordered.push(item);
+      }
+      const content = withoutUsers(ordered, hidden.muted, item => item.ownerId);
+
+      debug.dbSuccess('hashtags', 'CONTENT_SELECT', { count: content.length, sort });
+      return content;
+    } catch (error) {
+      debug.dbError('hashtags', 'CONTENT_SELECT', { error: (error as Error).message });
+      return [];
+    }
+  },
+
+  // Hashtags that often appear together with this one
+  async getRelatedHashtags(name: string, limit = 10): Promise<Hashtag[]> {
+    try {
+      const { data, error } = await supabase.rpc('get_related_hashtags', {
+        p_name: normalizeHashtag(name),
+        p_limit: limit,
+      });
+
+      if (error || !data) {
+        debug.dbError('hashtags', 'RELATED_SELECT', error);
+        return [];
+      }
+
+      return data.map((row: any) => mapHashtag(row));
+    } catch (error) {
+      console.error('Error fetching related hashtags:', error);
+      return [];
+    }
+  },
+
+  // #tag autocomplete, most used first
+  async searchHashtags(prefix: string, limit = 8): Promise<Hashtag[]> {
+    try {
+      const { data, error } = await supabase.rpc('search_hashtags', {
+        p_prefix: normalizeHashtag(prefix),
+        p_limit: limit,
+      });
+
+      if (error || !data) {
+        debug.dbError('hashtags', 'SEARCH', error);
+        return [];
+      }
+
+      return data.map((row: any) => mapHashtag(row));
+    } catch (error) {
+      console.error('Error searching hashtags:', error);
+      return [];
+    }
+  },
+
+  async getFollowedHashtags(userId: string): Promise<Hashtag[]> {
+    try {
+      const { data, error } = await supabase
+        .from('hashtag_follows')
+        .select('hashtags!hashtag_follows_hashtag_id_fkey(*)')
+        .eq('user_id', userId)
+        .order('created_at', { ascending: false });
+
+      if (error || !data) {
+        debug.dbError('hashtag_follows', 'SELECT', error);
+        return [];
+      }
+
+      return data
+        .map((row: any) => row.hashtags)
+        .filter(Boolean)
+        .map((hashtag: any) => mapHashtag(hashtag, true));
+    } catch (error) {
+      console.error('Error fetching followed hashtags:', error);
+      return [];
+    }
+  },
+
+  async followHashtag(userId: string, hashtagId: string): Promise<boolean> {
+    try {
+      const { error } = await supabase
+        .from('hashtag_follows')
+        .upsert({ user_id: userId, hashtag_id: hashtagId }, { onConflict: 'user_id,hashtag_id', ignoreDuplicates: true });
+
+      if (error) {
+        debug.dbError('hashtag_follows', 'INSERT', error);
+        return false;
+      }
+
+      return true;
+    } catch (error) {
+      console.error('Error following hashtag:', error);
+      return false;
+    }
+  },
+
+  async unfollowHashtag(userId: string, hashtagId: string): Promise<boolean> {
+    try {
+      const { error } = await supabase
+        .from('hashtag_follows')
+        .delete()
+        .eq('user_id', userId)
+        .eq('hashtag_id', hashtagId);
+
+      if (error) {
+        debug.dbError('hashtag_follows', 'DELETE', error);
+        return false;
+      }
+
+      return true;
+    } catch (error) {
+      console.error('Error unfollowing hashtag:', error);
+      return false;
+    }
+  },
 };
 
 // =====================================================
@@ -2450,13 +3473,18 @@ export const reviewService = {
         id: review.review_id,
         reviewerId: review.reviewer_id,
         reviewedId: userId,
+        bookingId: review.booking_id || undefined,
         rating: review.rating,
         comment: review.comment,
         createdAt: review.created_at,
+        isVerified: review.is_verified || false,
+        hostReply: review.host_reply || undefined,
+        hostReplyAt: review.host_reply_at || undefined,
         // Additional fields for UI
         reviewerName: review.reviewer_name,
         reviewerAvatar: review.reviewer_avatar,
         canDelete: review.can_delete,
+        canReply: review.can_reply || false,
       }));
     } catch (error) {
       console.error('Error fetching user reviews:', error);
@@ -2464,7 +3492,60 @@ export const reviewService = {
     }
   },
 
-  // Create a new review
+  // Get rating and review counts straight from the reviews table
+  async getRatingSummary(userId: string): Promise<{ rating: number; totalReviews: number; verifiedReviews: number }> {
+    try {
+      const { data, error } = await supabase
+        .from('reviews')
+        .select('rating, is_verified')
+        .eq('reviewed_id', userId);
+
+      if (error || !data) return { rating: 0, totalReviews: 0, verifiedReviews: 0 };
+
+      const totalReviews = data.length;
+      const total = data.reduce((sum: number, review: any) => sum + (review.rating || 0), 0);
+
+      return {
+        rating: totalReviews > 0 ? Math.round((total / totalReviews) * 100) / 100 : 0,
+        totalReviews,
+        verifiedReviews: data.filter((review: any) => review.is_verified).length,
+      };
+    } catch (error) {
+      console.error('Error fetching rating summary:', error);
+      return { rating: 0, totalReviews: 0, verifiedReviews: 0 };
+    }
+  },
+
+  // Completed bookings of the reviewer with this host that have not been reviewed yet
+  async getReviewableBookings(reviewerId: string, reviewedId: string): Promise<Booking[]> {
+    try {
+      const { data: bookings, error } = await supabase
+        .from('bookings')
+        .select('*')
+        .eq('client_id', reviewerId)
+        .eq('host_id', reviewedId)
+        .eq('status', 'completed')
+        .order('start_time', { ascending: false });
+
+      if (error || !bookings || bookings.length === 0) return [];
+
+      const { data: reviewed } = await supabase
+        .from('reviews')
+        .select('booking_id')
+        .in('booking_id', bookings.map((booking: any) => booking.id));
+
+      const reviewedIds = new Set((reviewed || []).map((review: any) => review.booking_id));
+
+      return bookings
+        .filter((booking: any) => !reviewedIds.has(booking.id))
+        .map(mapBooking);
+    } catch (error) {
+      console.error('Error fetching reviewable bookings:', error);
+      return [];
+    }
+  },
+
+  // Create a new review, optionally tied to a completed booking
   async createReview(reviewData: {
     reviewerId: string;
     reviewedId: string;
@@ -2473,6 +3554,25 @@ export const reviewService = {
     bookingId?: string;
   }): Promise<Review | null> {
     try {
+      const { blocked } = await userService.getHiddenUserIds(reviewData.reviewerId);
+      if (blocked.includes(reviewData.reviewedId)) {
+        debug.dbError('reviews', 'INSERT', { error: 'Users have blocked each other' });
+        return null;
+      }
+
+      if (reviewData.bookingId) {
+        const booking = await bookingService.getBooking(reviewData.bookingId);
+        if (
+          !booking ||
+          booking.status !== 'completed' ||
+          booking.clientId !== reviewData.reviewerId ||
+          booking.hostId !== reviewData.reviewedId
+        ) {
+          debug.dbError('reviews', 'INSERT', { error: 'Booking is not a completed session between these users' });
+          return null;
+        }
+      }
+
       const { data, error } = await supabase
         .from('reviews')
         .insert({
@@ -2491,9 +3591,12 @@ export const reviewService = {
         id: data.id,
         reviewerId: data.reviewer_id,
         reviewedId: data.reviewed_id,
+        bookingId: data.booking_id || undefined,
         rating: data.rating,
         comment: data.comment,
         createdAt: data.created_at,
+        isVerified: data.is_verified || false,
+        canDelete: true,
       };
     } catch (error) {
       console.error('Error creating review:', error);
@@ -2501,6 +3604,30 @@ export const reviewService = {
     }
   },
 
+  // Post the reviewed user's public reply (only once per review)
+  async replyToReview(reviewId: string, hostId: string, reply: string): Promise<boolean> {
+    try {
+      const trimmed = reply.trim();
+      if (!trimmed) return false;
+
+      const { data, error } = await supabase
+        .from('reviews')
+        .update({
+          host_reply: trimmed,
+          host_reply_at: new Date().toISOString(),
+        })
+        .eq('id', reviewId)
+        .eq('reviewed_id', hostId)
+        .is('host_reply', null)
+        .select('id');
+
+      return !error && !!data && data.length > 0;
+    } catch (error) {
+      console.error('Error replying to review:', error);
+      return false;
+    }
+  },
+
   // Delete a review (only by the reviewer)
   async deleteReview(reviewId: string, reviewerId: string): Promise<boolean> {
     try {
@@ -2517,17 +3644,21 @@ export const reviewService = {
     }
   },
 
-  // Check if user has already reviewed another user
-  async hasUserReviewed(reviewerId: string, reviewedId: string): Promise<boolean> {
+  // Check if user has already reviewed another user (or a specific booking)
+  async hasUserReviewed(reviewerId: string, reviewedId: string, bookingId?: string): Promise<boolean> {
     try {
-      const { data, error } = await supabase
+      let query = supabase
         .from('reviews')
         .select('id')
         .eq('reviewer_id', reviewerId)
-        .eq('reviewed_id', reviewedId)
-        .single();
+        .eq('reviewed_id', reviewedId);
 
-      return !error && !!data;
+      // Each completed booking can be reviewed once; outside bookings one review per user
+      query = bookingId ? query.eq('booking_id', bookingId) : query.is('booking_id', null);
+
+      const { data, error } = await query.limit(1);
+
+      return !error && !!data && data.length > 0;
     } catch (error) {
       return false;
     }
@@ -2538,6 +3669,30 @@ export const reviewService = {
 // HOST PROFILE OPERATIONS
 // =====================================================
 
+// Pending until a moderator approves, or rejects with a reason
+export const getHostApplicationStatus = (isApproved?: boolean, rejectionReason?: string | null): HostApplicationStatus => {
+  if (isApproved) return 'approved';
+  return rejectionReason ? 'rejected' : 'pending';
+};
+
+const mapHostProfile = (data: any): HostProfile => ({
+  id: data.id,
+  userId: data.user_id,
+  description: data.description,
+  relationshipRoles: data.relationship_roles || [],
+  interests: data.interests || [],
+  expertise: data.expertise || [],
+  priceCategory: data.price_category,
+  isApproved: data.is_approved || false,
+  approvalDate: data.approval_date,
+  rejectionReason: data.rejection_reason || undefined,
+  status: getHostApplicationStatus(data.is_approved, data.rejection_reason),
+  reviewedBy: data.reviewed_by || undefined,
+  submittedAt: data.submitted_at || data.created_at,
+  createdAt: data.created_at,
+  updatedAt: data.updated_at,
+});
+
 export const hostService = {
   // Get host profile
   async getHostProfile(userId: string): Promise<HostProfile | null> {
@@ -2546,31 +3701,18 @@ export const hostService = {
         .from('host_profiles')
         .select('*')
         .eq('user_id', userId)
-        .single();
+        .maybeSingle();
 
       if (error || !data) return null;
 
-      return {
-        id: data.id,
-        userId: data.user_id,
-        description: data.description,
-        relationshipRoles: data.relationship_roles || [],
-        interests: data.interests || [],
-        expertise: data.expertise || [],
-        priceCategory: data.price_category,
-        isApproved: data.is_approved,
-        approvalDate: data.approval_date,
-        rejectionReason: data.rejection_reason,
-        createdAt: data.created_at,
-        updatedAt: data.updated_at,
-      };
+      return mapHostProfile(data);
     } catch (error) {
       console.error('Error fetching host profile:', error);
       return null;
     }
   },
 
-  // Create or update host profile
+  // Create a host application (starts pending until a moderator reviews it)
   async createHostProfile(hostData: Partial<HostProfile>): Promise<boolean> {
     try {
       console.log('🔧 Creating host profile for user:', hostData.userId);
@@ -2585,7 +3727,7 @@ export const hostService = {
           interests: hostData.interests,
           expertise: hostData.expertise,
           price_category: hostData.priceCategory,
-          is_approved: hostData.isApproved || false,
+          is_approved: false,
         })
         .select();
 
@@ -2607,49 +3749,570 @@ export const hostService = {
       return false;
     }
   },
-};
-
-// =====================================================
-// STORAGE OPERATIONS
-// =====================================================
 
-export const storageService = {
-  // Upload image to specific bucket
-  async uploadImage(
-    file: { uri: string; type?: string; name?: string },
-    bucket: 'avatars' | 'posts' | 'stories' | 'reels' | 'user-media',
-    userId: string,
-    options: {
-      folder?: string;
-      quality?: number;
-      resize?: { width: number; height: number };
-    } = {}
-  ): Promise<{ url: string; path: string } | null> {
+  // Resubmit an application with updated details; it goes back to pending
+  async resubmitHostProfile(userId: string, hostData: Partial<HostProfile>): Promise<boolean> {
     try {
-      const startTime = Date.now();
-      debug.apiCall('storage', 'uploadImage', { bucket, userId, file: file.name });
-      
-      // Validate inputs
-      if (!file.uri || !userId) {
-        throw new Error('Missing required parameters: file.uri or userId');
-      }
-      
-      debugLogger.info('STORAGE', 'UPLOAD_IMAGE_START', `Starting upload: ${file.name || 'unnamed'} to ${bucket}`);
-      
-      // Generate unique filename
-      const timestamp = Date.now();
-      const extension = file.name?.split('.').pop() || 'jpg';
-      const folder = options.folder || 'uploads';
-      const fileName = `${userId}/${folder}/${timestamp}.${extension}`;
+      debug.dbQuery('host_profiles', 'UPDATE', { userId, action: 'resubmit' });
 
-      // Convert file URI to binary data
-      debugLogger.info('STORAGE', 'UPLOAD_IMAGE_READ', `Reading file from: ${file.uri}`);
-      const uint8Array = await readUriToUint8Array(file.uri);
-      
-      // Validate file size
-      if (uint8Array.byteLength === 0) {
-        throw new Error('File is empty (0 bytes)');
-      }
+      const { error } = await supabase
+        .from('host_profiles')
+        .update({
+          description: hostData.description,
+          relationship_roles: hostData.relationshipRoles,
+          interests: hostData.interests,
+          expertise: hostData.expertise,
+          price_category: hostData.priceCategory,
+          is_approved: false,
+          approval_date: null,
+          rejection_reason: null,
+          reviewed_by: null,
+          submitted_at: new Date().toISOString(),
+        })
+        .eq('user_id', userId);
+
+      if (error) {
+        debug.dbError('host_profiles', 'UPDATE', error);
+        return false;
+      }
+
+      return true;
+    } catch (error) {
+      console.error('Error resubmitting host profile:', error);
+      return false;
+    }
+  },
+
+  // Moderation queue: applications waiting for review, oldest first
+  async getPendingHostApplications(): Promise<HostProfile[]> {
+    try {
+      debug.dbQuery('host_profiles', 'SELECT', { status: 'pending' });
+
+      const { data, error } = await supabase
+        .from('host_profiles')
+        .select('*')
+        .eq('is_approved', false)
+        .is('rejection_reason', null)
+        .order('submitted_at', { ascending: true });
+
+      if (error || !data) {
+        if (error) debug.dbError('host_profiles', 'SELECT', error);
+        return [];
+      }
+
+      const applicants = await Promise.all(
+        data.map((application: any) => userService.getUserProfile(application.user_id))
+      );
+
+      return data.map((application: any, index: number) => ({
+        ...mapHostProfile(application),
+        user: applicants[index] || undefined,
+      }));
+    } catch (error) {
+      console.error('Error fetching pending host applications:', error);
+      return [];
+    }
+  },
+
+  // Approve a pending application
+  async approveHostApplication(hostProfileId: string, moderatorId: string): Promise<boolean> {
+    try {
+      debug.dbQuery('host_profiles', 'UPDATE', { hostProfileId, moderatorId, action: 'approve' });
+
+      const { data, error } = await supabase
+        .from('host_profiles')
+        .update({
+          is_approved: true,
+          approval_date: new Date().toISOString(),
+          rejection_reason: null,
+          reviewed_by: moderatorId,
+        })
+        .eq('id', hostProfileId)
+        .eq('is_approved', false)
+        .is('rejection_reason', null)
+        .select('id');
+
+      if (error) {
+        debug.dbError('host_profiles', 'UPDATE', error);
+        return false;
+      }
+
+      return !!data && data.length > 0;
+    } catch (error) {
+      console.error('Error approving host application:', error);
+      return false;
+    }
+  },
+
+  // Reject a pending application with a reason the applicant can see
+  async rejectHostApplication(hostProfileId: string, moderatorId: string, reason: string): Promise<boolean> {
+    try {
+      const trimmed = reason.trim();
+      if (!trimmed) return false;
+
+      debug.dbQuery('host_profiles', 'UPDATE', { hostProfileId, moderatorId, action: 'reject' });
+
+      const { data, error } = await supabase
+        .from('host_profiles')
+        .update({
+          is_approved: false,
+          approval_date: null,
+          rejection_reason: trimmed,
+          reviewed_by: moderatorId,
+        })
+        .eq('id', hostProfileId)
+        .eq('is_approved', false)
+        .is('rejection_reason', null)
+        .select('id');
+
+      if (error) {
+        debug.dbError('host_profiles', 'UPDATE', error);
+        return false;
+      }
+
+      return !!data && data.length > 0;
+    } catch (error) {
+      console.error('Error rejecting host application:', error);
+      return false;
+    }
+  },
+
+  // Whether the user's host application has been approved; only approved
+  // hosts can be booked
+  async isApprovedHost(userId: string): Promise<boolean> {
+    try {
+      const { data, error } = await supabase
+        .from('host_profiles')
+        .select('id')
+        .eq('user_id', userId)
+        .eq('is_approved', true)
+        .maybeSingle();
+
+      if (error) return false;
+
+      return !!data;
+    } catch (error) {
+      console.error('Error checking host approval:', error);
+      return false;
+    }
+  },
+};
+
+// =====================================================
+// BOOKING OPERATIONS
+// =====================================================
+
+// Allowed booking status transitions. Declined, cancelled and completed are terminal.
+export const BOOKING_STATUS_TRANSITIONS: Record<BookingStatus, BookingStatus[]> = {
+  pending: ['accepted', 'declined', 'cancelled'],
+  accepted: ['cancelled', 'completed'],
+  declined: [],
+  cancelled: [],
+  completed: [],
+};
+
+export const canTransitionBooking = (from: BookingStatus, to: BookingStatus): boolean =>
+  BOOKING_STATUS_TRANSITIONS[from]?.includes(to) ?? false;
+
+const BOOKING_SELECT = `
+  *,
+  host:user_profiles!bookings_host_id_fkey(id, username, full_name, handle, avatar, profile_picture, hourly_rate),
+  client:user_profiles!bookings_client_id_fkey(id, username, full_name, handle, avatar, profile_picture)
+`;
+
+const mapBookingUser = (profile: any): User | undefined => profile ? {
+  id: profile.id,
+  username: profile.username || profile.handle || '',
+  avatar: profile.avatar || profile.profile_picture || 'https://images.pexels.com/photos/774909/pexels-photo-774909.jpeg?auto=compress&cs=tinysrgb&w=150',
+  fullName: profile.full_name,
+  handle: profile.handle,
+  hourlyRate: profile.hourly_rate,
+} : undefined;
+
+const mapBooking = (data: any): Booking => ({
+  id: data.id,
+  hostId: data.host_id,
+  clientId: data.client_id,
+  startTime: data.start_time,
+  endTime: data.end_time,
+  status: data.status || 'pending',
+  amount: Number(data.amount) || 0,
+  description: data.description,
+  createdAt: data.created_at,
+  updatedAt: data.updated_at,
+  host: mapBookingUser(data.host),
+  client: mapBookingUser(data.client),
+  statusChangedBy: data.status_changed_by,
+  statusChangedAt: data.status_changed_at,
+});
+
+export const bookingService = {
+  // Calculate the price of a session from the host's hourly rate
+  calculateBookingAmount(hourlyRate: number, startTime: string, endTime: string): number {
+    const hours = (new Date(endTime).getTime() - new Date(startTime).getTime()) / (1000 * 60 * 60);
+    if (!hourlyRate || hours <= 0) return 0;
+    return Math.round(hourlyRate * hours * 100) / 100;
+  },
+
+  // Request a session with a host
+  async requestBooking(bookingData: {
+    hostId: string;
+    clientId: string;
+    startTime: string;
+    endTime: string;
+    description?: string;
+  }): Promise<Booking | null> {
+    try {
+      const { hostId, clientId, startTime, endTime, description } = bookingData;
+      debug.dbQuery('bookings', 'INSERT', { hostId, clientId, startTime, endTime });
+
+      if (hostId === clientId) {
+        debug.dbError('bookings', 'INSERT', { error: 'Cannot book a session with yourself' });
+        return null;
+      }
+
+      if (new Date(endTime).getTime() <= new Date(startTime).getTime()) {
+        debug.dbError('bookings', 'INSERT', { error: 'Booking must end after it starts' });
+        return null;
+      }
+
+      const { data: host, error: hostError } = await supabase
+        .from('user_profiles')
+        .select('id, is_host, hourly_rate')
+        .eq('id', hostId)
+        .single();
+
+      if (hostError || !host?.is_host || !(await hostService.isApprovedHost(hostId))) {
+        debug.dbError('bookings', 'INSERT', hostError || { error: 'Bookings can only be requested with an approved host' });
+        return null;
+      }
+
+      const { data, error } = await supabase
+        .from('bookings')
+        .insert({
+          host_id: hostId,
+          client_id: clientId,
+          start_time: startTime,
+          end_time: endTime,
+          status: 'pending',
+          amount: bookingService.calculateBookingAmount(host.hourly_rate || 0, startTime, endTime),
+          description,
+        })
+        .select(BOOKING_SELECT)
+        .single();
+
+      if (error || !data) {
+        debug.dbError('bookings', 'INSERT', error);
+        return null;
+      }
+
+      debug.dbSuccess('bookings', 'INSERT', { bookingId: data.id });
+      return mapBooking(data);
+    } catch (error) {
+      debug.dbError('bookings', 'INSERT', { error: (error as Error).message });
+      return null;
+    }
+  },
+
+  // Get a single booking
+  async getBooking(bookingId: string): Promise<Booking | null> {
+    try {
+      const { data, error } = await supabase
+        .from('bookings')
+        .select(BOOKING_SELECT)
+        .eq('id', bookingId)
+        .single();
+
+      if (error || !data) return null;
+
+      return mapBooking(data);
+    } catch (error) {
+      console.error('Error fetching booking:', error);
+      return null;
+    }
+  },
+
+  // Get a user's bookings as host or client, split into upcoming and past
+  async getUserBookings(userId: string, otherUserId?: string): Promise<{ upcoming: Booking[]; past: Booking[] }> {
+    try {
+      debug.dbQuery('bookings', 'SELECT', { userId, otherUserId });
+
+      let query = supabase
+        .from('bookings')
+        .select(BOOKING_SELECT)
+        .order('start_time', { ascending: true });
+
+      query = otherUserId
+        ? query.or(`and(host_id.eq.${userId},client_id.eq.${otherUserId}),and(host_id.eq.${otherUserId},client_id.eq.${userId})`)
+        : query.or(`host_id.eq.${userId},client_id.eq.${userId}`);
+
+      const { data, error } = await query;
+
+      if (error || !data) {
+        debug.dbError('bookings', 'SELECT', error);
+        return { upcoming: [], past: [] };
+      }
+
+      const now = Date.now();
+      const bookings = data.map(mapBooking);
+
+      // Open bookings that have not finished yet are upcoming; everything else is history
+      const upcoming = bookings.filter(booking =>
+        (booking.status === 'pending' || booking.status === 'accepted') &&
+        new Date(booking.endTime).getTime() > now
+      );
+      const past = bookings
+        .filter(booking => !upcoming.includes(booking))
+        .reverse();
+
+      debug.dbSuccess('bookings', 'SELECT', { userId, upcoming: upcoming.length, past: past.length });
+      return { upcoming, past };
+    } catch (error) {
+      debug.dbError('bookings', 'SELECT', { error: (error as Error).message });
+      return { upcoming: [], past: [] };
+    }
+  },
+
+  // Move a booking to a new status, enforcing the state machine and who may do it
+  async updateBookingStatus(bookingId: string, userId: string, nextStatus: BookingStatus): Promise<Booking | null> {
+    try {
+      debug.dbQuery('bookings', 'UPDATE', { bookingId, userId, nextStatus });
+
+      const booking = await bookingService.getBooking(bookingId);
+      if (!booking) {
+        debug.dbError('bookings', 'UPDATE', { error: 'Booking not found' });
+        return null;
+      }
+
+      if (!canTransitionBooking(booking.status, nextStatus)) {
+        debug.dbError('bookings', 'UPDATE', { error: `Invalid transition ${booking.status} -> ${nextStatus}` });
+        return null;
+      }
+
+      const isHost = booking.hostId === userId;
+      const isClient = booking.clientId === userId;
+      const hostOnly = nextStatus === 'accepted' || nextStatus === 'declined' || nextStatus === 'completed';
+
+      if ((hostOnly && !isHost) || (!isHost && !isClient)) {
+        debug.dbError('bookings', 'UPDATE', { error: 'User not allowed to change this booking' });
+        return null;
+      }
+
+      if (nextStatus === 'completed' && new Date(booking.startTime).getTime() > Date.now()) {
+        debug.dbError('bookings', 'UPDATE', { error: 'Booking has not started yet' });
+        return null;
+      }
+
+      // Guard on the current status so two concurrent changes cannot both apply
+      const { data, error } = await supabase
+        .from('bookings')
+        .update({
+          status: nextStatus,
+          status_changed_by: userId,
+          status_changed_at: new Date().toISOString(),
+          updated_at: new Date().toISOString(),
+        })
+        .eq('id', bookingId)
+        .eq('status', booking.status)
+        .select(BOOKING_SELECT)
+        .single();
+
+      if (error || !data) {
+        debug.dbError('bookings', 'UPDATE', error || { error: 'Booking status changed concurrently' });
+        return null;
+      }
+
+      debug.dbSuccess('bookings', 'UPDATE', { bookingId, status: nextStatus });
+      return mapBooking(data);
+    } catch (error) {
+      debug.dbError('bookings', 'UPDATE', { error: (error as Error).message });
+      return null;
+    }
+  },
+
+  // Host accepts a pending request
+  async acceptBooking(bookingId: string, hostId: string): Promise<Booking | null> {
+    return bookingService.updateBookingStatus(bookingId, hostId, 'accepted');
+  },
+
+  // Host declines a pending request
+  async declineBooking(bookingId: string, hostId: string): Promise<Booking | null> {
+    return bookingService.updateBookingStatus(bookingId, hostId, 'declined');
+  },
+
+  // Either participant cancels a pending or accepted booking
+  async cancelBooking(bookingId: string, userId: string): Promise<Booking | null> {
+    return bookingService.updateBookingStatus(bookingId, userId, 'cancelled');
+  },
+
+  // Host marks an accepted session as completed
+  async completeBooking(bookingId: string, hostId: string): Promise<Booking | null> {
+    return bookingService.updateBookingStatus(bookingId, hostId, 'completed');
+  },
+};
+
+// =====================================================
+// HOST AVAILABILITY OPERATIONS
+// =====================================================
+
+export const availabilityService = {
+  // Get a host's weekly schedule, exceptions and time zone
+  async getHostAvailability(hostId: string): Promise<HostAvailability | null> {
+    try {
+      debug.dbQuery('host_availability', 'SELECT', { hostId });
+
+      const { data, error } = await supabase
+        .from('host_availability')
+        .select('*')
+        .eq('host_id', hostId)
+        .maybeSingle();
+
+      if (error) {
+        debug.dbError('host_availability', 'SELECT', error);
+        return null;
+      }
+
+      if (!data) return null;
+
+      return {
+        hostId: data.host_id,
+        timeZone: data.time_zone || 'UTC',
+        weeklySchedule: data.weekly_schedule || [],
+        exceptions: data.exceptions || [],
+        updatedAt: data.updated_at,
+      };
+    } catch (error) {
+      debug.dbError('host_availability', 'SELECT', { error: (error as Error).message });
+      return null;
+    }
+  },
+
+  // Create or replace a host's availability
+  async saveHostAvailability(availability: HostAvailability): Promise<boolean> {
+    try {
+      debug.dbQuery('host_availability', 'UPSERT', { hostId: availability.hostId });
+
+      if (!isValidTimeZone(availability.timeZone)) {
+        debug.dbError('host_availability', 'UPSERT', { error: `Unknown time zone: ${availability.timeZone}` });
+        return false;
+      }
+
+      const { error } = await supabase
+        .from('host_availability')
+        .upsert({
+          host_id: availability.hostId,
+          time_zone: availability.timeZone,
+          weekly_schedule: availability.weeklySchedule,
+          // Past exceptions no longer affect slots
+          exceptions: availability.exceptions.filter(
+            exception => exception.date >= toZonedDateString(new Date(), availability.timeZone)
+          ),
+          updated_at: new Date().toISOString(),
+        }, { onConflict: 'host_id' });
+
+      if (error) {
+        debug.dbError('host_availability', 'UPSERT', error);
+        return false;
+      }
+
+      debug.dbSuccess('host_availability', 'UPSERT', { hostId: availability.hostId });
+      return true;
+    } catch (error) {
+      debug.dbError('host_availability', 'UPSERT', { error: (error as Error).message });
+      return false;
+    }
+  },
+
+  // Get the time ranges a host is already booked for
+  async getHostBusyTimes(hostId: string, from: Date, to: Date): Promise<BookingSlot[]> {
+    try {
+      const { data, error } = await supabase
+        .rpc('get_host_busy_times', {
+          p_host_id: hostId,
+          p_from: from.toISOString(),
+          p_to: to.toISOString(),
+        });
+
+      if (error || !data) {
+        debug.dbError('bookings', 'BUSY_TIMES', error);
+        return [];
+      }
+
+      return (data as any[]).map((item: any) => ({
+        startTime: item.start_time,
+        endTime: item.end_time,
+      }));
+    } catch (error) {
+      console.error('Error fetching host busy times:', error);
+      return [];
+    }
+  },
+
+  // Get the slots a host can be booked for between two dates
+  async getBookableSlots(hostId: string, from: Date, to: Date, slotMinutes = 60): Promise<BookingSlot[]> {
+    try {
+      const [availability, busyTimes] = await Promise.all([
+        availabilityService.getHostAvailability(hostId),
+        availabilityService.getHostBusyTimes(hostId, from, to),
+      ]);
+
+      if (!availability) return [];
+
+      return generateBookableSlots(availability, busyTimes, {
+        from,
+        to,
+        slotMinutes,
+        stepMinutes: 30,
+        minimumNoticeMinutes: 60,
+      });
+    } catch (error) {
+      console.error('Error generating bookable slots:', error);
+      return [];
+    }
+  },
+};
+
+// =====================================================
+// STORAGE OPERATIONS
+// =====================================================
+
+export const storageService = {
+  // Upload image to specific bucket
+  async uploadImage(
+    file: { uri: string; type?: string; name?: string },
+    bucket: 'avatars' | 'posts' | 'stories' | 'reels' | 'user-media',
+    userId: string,
+    options: {
+      folder?: string;
+      quality?: number;
+      resize?: { width: number; height: number };
+    } = {}
+  ): Promise<{ url: string; path: string } | null> {
+    try {
+      const startTime = Date.now();
+      debug.apiCall('storage', 'uploadImage', { bucket, userId, file: file.name });
+      
+      // Validate inputs
+      if (!file.uri || !userId) {
+        throw new Error('Missing required parameters: file.uri or userId');
+      }
+      
+      debugLogger.info('STORAGE', 'UPLOAD_IMAGE_START', `Starting upload: ${file.name || 'unnamed'} to ${bucket}`);
+      
+      // Generate unique filename
+      const timestamp = Date.now();
+      const extension = file.name?.split('.').pop() || 'jpg';
+      const folder = options.folder || 'uploads';
+      const fileName = `${userId}/${folder}/${timestamp}.${extension}`;
+
+      // Convert file URI to binary data
+      debugLogger.info('STORAGE', 'UPLOAD_IMAGE_READ', `Reading file from: ${file.uri}`);
+      const uint8Array = await readUriToUint8Array(file.uri);
+      
+      // Validate file size
+      if (uint8Array.byteLength === 0) {
+        throw new Error('File is empty (0 bytes)');
+      }
       
       debugLogger.info('STORAGE', 'UPLOAD_IMAGE_READY', `File read successfully: ${uint8Array.byteLength} bytes`);
 
@@ -2913,6 +4576,7 @@ export const commentService = {
             user:user_profiles(id, username, avatar)
           `)
           .eq('post_id', postId)
+          .eq('is_hidden', false)
           .order('created_at', { ascending: true });
 
         if (commentsError) {
@@ -2926,8 +4590,14 @@ export const commentService = {
         return [];
       }
       
+      // Comments from users blocked in either direction are hidden, as are
+      // comments hidden by a moderator
+      const { data: { user: currentUser } } = await supabase.auth.getUser();
+      const { blocked } = currentUser ? await userService.getHiddenUserIds(currentUser.id) : { blocked: [] };
+      const visible = (data || []).filter((comment: any) => !comment.is_hidden);
+
       // Transform data to match Comment interface
-      const comments = (data || []).map((comment: any) => {
+      const comments = withoutUsers(visible, blocked, (comment: any) => comment.user_id || comment.user?.id).map((comment: any) => {
         // Handle both view and direct table query formats
         const userData = comment.user || {
           id: comment.user_id,
@@ -2946,6 +4616,7 @@ export const commentService = {
             avatar: userData.avatar
           },
           content: comment.content,
+          mentions: comment.mentions || [],
           parentId: comment.parent_id,
           likesCount: comment.likes_count,
           isLiked: comment.is_liked_by_current_user || comment.is_liked || false,
@@ -3039,6 +4710,7 @@ export const commentService = {
           avatar: data.user.avatar
         },
         content: data.content,
+        mentions: data.mentions || [],
         parentId: data.parent_id,
         likesCount: data.likes_count,
         isLiked: false,
@@ -3170,6 +4842,7 @@ export const commentService = {
           avatar: data.user.avatar
         },
         content: data.content,
+        mentions: data.mentions || [],
         parentId: data.parent_id,
         likesCount: data.likes_count,
         isLiked: false, // Will be updated when fetched
@@ -3214,6 +4887,50 @@ export const commentService = {
 // MESSAGE OPERATIONS
 // =====================================================
 
+// Messages are loaded newest first in pages of this size
+export const MESSAGE_PAGE_SIZE = 30;
+
+// Message search results are paged newest first in pages of this size
+export const MESSAGE_SEARCH_PAGE_SIZE = 20;
+
+const mapReceiptUpdate = (row: any): MessageReceiptUpdate => ({
+  messageId: row.message_id,
+  conversationId: row.conversation_id,
+  userId: row.user_id,
+  deliveredAt: row.delivered_at || undefined,
+  readAt: row.read_at || undefined,
+});
+
+// Columns for the message a reply quotes
+const REPLY_TO_SELECT = `reply_to:messages!messages_reply_to_message_id_fkey(
+  id, sender_id, content, message_type, is_deleted,
+  user_profiles!messages_sender_id_fkey(username, handle)
+)`;
+
+const mapScheduledMessage = (row: any): ScheduledMessage => ({
+  id: row.id,
+  conversationId: row.conversation_id,
+  senderId: row.sender_id,
+  content: row.content,
+  messageType: row.message_type || 'text',
+  mediaUrl: row.media_url || undefined,
+  replyToMessageId: row.reply_to_message_id || undefined,
+  sendAt: row.send_at,
+  status: row.status,
+  sentMessageId: row.sent_message_id || undefined,
+  errorMessage: row.error_message || undefined,
+  createdAt: row.created_at,
+});
+
+const mapReplyPreview = (row: any): MessageReplyPreview | undefined => row ? {
+  id: row.id,
+  senderId: row.sender_id,
+  senderName: row.user_profiles?.username || row.user_profiles?.handle || undefined,
+  content: row.content,
+  type: row.message_type || 'text',
+  isDeleted: row.is_deleted || undefined,
+} : undefined;
+
 export const messageService = {
   // Get conversations for a user
   async getConversations(userId: string): Promise<Conversation[]> {
@@ -3240,9 +4957,9 @@ export const messageService = {
       const { data, error } = await supabase
         .from('conversations')
         .select(`
-          id, conversation_type, created_by, created_at, updated_at,
+          id, conversation_type, title, avatar_url, created_by, created_at, updated_at,
           conversation_participants(
-            user_id,
+            user_id, role, joined_at,
             user_profiles!conversation_participants_user_id_fkey(
               id, username, handle, full_name, avatar, profile_picture, is_online, last_seen
             )
@@ -3267,18 +4984,26 @@ export const messageService = {
       }
 
       const conversations: Conversation[] = data.map((conv: any) => {
-        // Get the other participant (not the current user)
-        const otherParticipants = conv.conversation_participants
-          .filter((p: any) => p.user_id !== userId)
+        const members: ConversationMember[] = conv.conversation_participants
+          .filter((p: any) => p.user_profiles)
           .map((p: any) => ({
-            id: p.user_profiles.id,
-            username: p.user_profiles.username || p.user_profiles.handle || '',
-            avatar: p.user_profiles.avatar || p.user_profiles.profile_picture || 'https://images.pexels.com/photos/774909/pexels-photo-774909.jpeg?auto=compress&cs=tinysrgb&w=150',
-            fullName: p.user_profiles.full_name || '',
-            isOnline: p.user_profiles.is_online || false,
-            lastSeen: p.user_profiles.last_seen || '',
+            user: {
+              id: p.user_profiles.id,
+              username: p.user_profiles.username || p.user_profiles.handle || '',
+              avatar: p.user_profiles.avatar || p.user_profiles.profile_picture || 'https://images.pexels.com/photos/774909/pexels-photo-774909.jpeg?auto=compress&cs=tinysrgb&w=150',
+              fullName: p.user_profiles.full_name || '',
+              isOnline: p.user_profiles.is_online || false,
+              lastSeen: p.user_profiles.last_seen || '',
+            },
+            role: p.role === 'admin' ? 'admin' : 'member',
+            joinedAt: p.joined_at,
           }));
 
+        // Get the other participants (not the current user)
+        const otherParticipants = members
+          .filter(member => member.user.id !== userId)
+          .map(member => member.user);
+
         // Get the latest message
         const latestMessage = conv.messages && conv.messages.length > 0 
           ? conv.messages.reduce((latest: any, msg: any) => 
@@ -3301,8 +5026,9 @@ export const messageService = {
             senderId: latestMessage.sender_id,
             receiverId: userId,
             content: latestMessage.content,
-            type: latestMessage.type || 'text',
+            type: latestMessage.message_type || 'text',
             timestamp: latestMessage.created_at,
+            senderName: latestMessage.user_profiles?.username || undefined,
             conversationId: conv.id,
             isRead: latestMessage.is_read,
             createdAt: latestMessage.created_at,
@@ -3318,6 +5044,11 @@ export const messageService = {
             createdAt: conv.created_at,
           },
           unreadCount,
+          type: conv.conversation_type === 'group' ? 'group' : 'direct',
+          title: conv.title || undefined,
+          avatar: conv.avatar_url || undefined,
+          createdBy: conv.created_by,
+          members,
           createdAt: conv.created_at,
           updatedAt: conv.updated_at,
         };
@@ -3333,20 +5064,30 @@ export const messageService = {
     }
   },
 
-  // Get messages for a conversation
-  async getMessages(conversationId: string, userId: string): Promise<Message[]> {
+  // Get a page of messages for a conversation, newest first. Pass the cursor
+  // of the oldest loaded message as `before` to page back through history.
+  async getMessages(
+    conversationId: string,
+    userId: string,
+    options: { limit?: number; before?: MessageCursor } = {}
+  ): Promise<Message[]> {
+    const { limit = MESSAGE_PAGE_SIZE, before } = options;
+
     try {
       const startTime = Date.now();
-      debug.dbQuery('messages', 'SELECT', { conversationId });
+      debug.dbQuery('messages', 'SELECT', { conversationId, limit, before });
       debugLogger.info('MESSAGE', 'GET_MESSAGES_START', `Fetching messages for conversation: ${conversationId}`);
 
-      const { data, error } = await supabase
+      let query = supabase
         .from('messages')
         .select(`
           *,
           user_profiles!messages_sender_id_fkey(
             id, username, handle, avatar, profile_picture
           ),
+          message_receipts(user_id, delivered_at, read_at),
+          message_reactions(user_id, emoji, created_at),
+          ${REPLY_TO_SELECT},
           reels!messages_shared_reel_id_fkey(
             id, video_url, thumbnail_url, caption, likes_count, comments_count, shares_count,
             user_profiles!reels_user_id_fkey(id, username, avatar)
@@ -3361,7 +5102,17 @@ export const messageService = {
           )
         `)
         .eq('conversation_id', conversationId)
-        .order('created_at', { ascending: false });
+        .order('created_at', { ascending: false })
+        .order('id', { ascending: false })
+        .limit(limit);
+
+      if (before) {
+        query = query.or(
+          `created_at.lt.${before.createdAt},and(created_at.eq.${before.createdAt},id.lt.${before.id})`
+        );
+      }
+
+      const { data, error } = await query;
 
       if (error) {
         debug.dbError('messages', 'SELECT', error);
@@ -3398,7 +5149,25 @@ export const messageService = {
           content: msg.content,
           type: msg.message_type || msg.type || 'text',
           mediaUrl: msg.media_url,
+          duration: msg.duration ?? undefined,
+          waveform: msg.waveform || undefined,
+          transcript: msg.transcript ?? null,
+          expiresAt: msg.expires_at || undefined,
           timestamp: msg.created_at,
+          senderName: msg.user_profiles?.username || msg.user_profiles?.handle || undefined,
+          senderAvatar: msg.user_profiles?.avatar || msg.user_profiles?.profile_picture || undefined,
+          receipts: (msg.message_receipts || []).map((receipt: any) => ({
+            userId: receipt.user_id,
+            deliveredAt: receipt.delivered_at || undefined,
+            readAt: receipt.read_at || undefined,
+          })),
+          reactions: (msg.message_reactions || []).map((reaction: any) => ({
+            userId: reaction.user_id,
+            emoji: reaction.emoji,
+            createdAt: reaction.created_at,
+          })),
+          replyToMessageId: msg.reply_to_message_id || undefined,
+          replyTo: mapReplyPreview(msg.reply_to),
           conversationId: msg.conversation_id,
           isRead: msg.is_read,
           createdAt: msg.created_at,
@@ -3564,8 +5333,20 @@ export const messageService = {
     }
   },
 
+  // Load the page of messages sent before the given cursor
+  async getOlderMessages(
+    conversationId: string,
+    userId: string,
+    before: MessageCursor,
+    limit: number = MESSAGE_PAGE_SIZE
+  ): Promise<Message[]> {
+    return messageService.getMessages(conversationId, userId, { limit, before });
+  },
+
   // Send a new message
-  async sendMessage(conversationId: string, senderId: string, content: string, messageType: string = 'text', sharedPost?: Post, sharedReel?: Reel, sharedStory?: any, mediaUrl?: string): Promise<Message | null> {
+  // Pass a client-generated id to make retries safe: a second send with the
+  // same id returns the message that was already stored.
+  async sendMessage(conversationId: string, senderId: string, content: string, messageType: string = 'text', sharedPost?: Post, sharedReel?: Reel, sharedStory?: any, mediaUrl?: string, clientId?: string, replyToMessageId?: string, voice?: { duration?: number; waveform?: number[] }): Promise<Message | null> {
     try {
       const startTime = Date.now();
       debug.userAction('Send message', { conversationId, senderId, messageType });
@@ -3587,6 +5368,22 @@ export const messageService = {
           insertData.media_url = mediaUrl;
         }
 
+        if (clientId) {
+          insertData.client_id = clientId;
+        }
+
+        if (replyToMessageId) {
+          insertData.reply_to_message_id = replyToMessageId;
+        }
+
+        // Voice note length and waveform
+        if (voice?.duration !== undefined) {
+          insertData.duration = Math.round(voice.duration);
+        }
+        if (voice?.waveform && voice.waveform.length > 0) {
+          insertData.waveform = voice.waveform;
+        }
+
         // Add shared content if provided
         if (sharedPost) {
           console.error('🚨🚨🚨 SEND_MESSAGE - Setting shared_post_id:', sharedPost.id, 'full post:', sharedPost);
@@ -3611,6 +5408,7 @@ export const messageService = {
             user_profiles!messages_sender_id_fkey(
               id, username, handle, avatar, profile_picture
             ),
+            ${REPLY_TO_SELECT},
             reels!messages_shared_reel_id_fkey(
               id, video_url, thumbnail_url, caption, likes_count, comments_count, shares_count,
               user_profiles!reels_user_id_fkey(id, username, avatar)
@@ -3670,6 +5468,20 @@ export const messageService = {
         }
       }
 
+      // Unique violation on (sender_id, client_id): an earlier attempt got through
+      if (error && error.code === '23505' && clientId) {
+        debugLogger.info('MESSAGE', 'SEND_MESSAGE_DUPLICATE', 'Message already sent, using stored copy', { clientId });
+        const existing = await supabase
+          .from('messages')
+          .select('*')
+          .eq('sender_id', senderId)
+          .eq('client_id', clientId)
+          .single();
+
+        data = existing.data;
+        error = existing.error;
+      }
+
       if (error) {
         debug.dbError('messages', 'INSERT', error);
         debugLogger.error('MESSAGE', 'SEND_MESSAGE_ERROR', 'Failed to send message', error);
@@ -3692,18 +5504,150 @@ export const messageService = {
         isRead: data.is_read,
         createdAt: data.created_at,
         type: messageType as any,
+        mediaUrl: data.media_url || undefined,
+        duration: data.duration ?? undefined,
+        waveform: data.waveform || undefined,
+        transcript: data.transcript ?? null,
+        expiresAt: data.expires_at || undefined,
+        clientId: data.client_id || undefined,
+        replyToMessageId: data.reply_to_message_id || undefined,
+        replyTo: mapReplyPreview(data.reply_to),
         sharedPost: sharedPost,
         sharedReel: sharedReel,
         sharedStory: sharedStory,
       };
 
-      debug.dbSuccess('messages', 'INSERT', { conversationId, messageId: data.id }, Date.now() - startTime);
-      debugLogger.success('MESSAGE', 'SEND_MESSAGE_SUCCESS', `Message sent successfully`, { messageId: data.id });
-      
-      return message;
+      debug.dbSuccess('messages', 'INSERT', { conversationId, messageId: data.id }, Date.now() - startTime);
+      debugLogger.success('MESSAGE', 'SEND_MESSAGE_SUCCESS', `Message sent successfully`, { messageId: data.id });
+      
+      return message;
+    } catch (error) {
+      debugLogger.error('MESSAGE', 'SEND_MESSAGE_EXCEPTION', 'Exception occurred while sending message', error);
+      return null;
+    }
+  },
+
+  // Store a message to be sent at a later time. It is delivered by the server
+  // even if the sender's app is closed.
+  async scheduleMessage(
+    conversationId: string,
+    senderId: string,
+    content: string,
+    sendAt: Date,
+    options: { messageType?: string; mediaUrl?: string; replyToMessageId?: string } = {}
+  ): Promise<ScheduledMessage | null> {
+    try {
+      const startTime = Date.now();
+      debug.userAction('Schedule message', { conversationId, senderId, sendAt: sendAt.toISOString() });
+
+      if (sendAt.getTime() <= Date.now()) {
+        debugLogger.warn('MESSAGE', 'SCHEDULE_MESSAGE_IN_PAST', 'Scheduled time must be in the future', { sendAt });
+        return null;
+      }
+
+      const { data, error } = await supabase
+        .from('scheduled_messages')
+        .insert({
+          conversation_id: conversationId,
+          sender_id: senderId,
+          content,
+          message_type: options.messageType || 'text',
+          media_url: options.mediaUrl || null,
+          reply_to_message_id: options.replyToMessageId || null,
+          send_at: sendAt.toISOString(),
+        })
+        .select('*')
+        .single();
+
+      if (error) {
+        debug.dbError('scheduled_messages', 'INSERT', error);
+        debugLogger.error('MESSAGE', 'SCHEDULE_MESSAGE_ERROR', 'Failed to schedule message', error);
+        return null;
+      }
+
+      debug.dbSuccess('scheduled_messages', 'INSERT', { conversationId, id: data.id }, Date.now() - startTime);
+      return mapScheduledMessage(data);
+    } catch (error) {
+      debugLogger.error('MESSAGE', 'SCHEDULE_MESSAGE_EXCEPTION', 'Exception occurred while scheduling message', error);
+      return null;
+    }
+  },
+
+  // The sender's messages that are still waiting to be sent, soonest first.
+  // Leave out the conversation to list them across all conversations.
+  async getScheduledMessages(senderId: string, conversationId?: string): Promise<ScheduledMessage[]> {
+    try {
+      let query = supabase
+        .from('scheduled_messages')
+        .select('*')
+        .eq('sender_id', senderId)
+        .eq('status', 'scheduled')
+        .order('send_at', { ascending: true });
+
+      if (conversationId) {
+        query = query.eq('conversation_id', conversationId);
+      }
+
+      const { data, error } = await query;
+
+      if (error) {
+        debug.dbError('scheduled_messages', 'SELECT', error);
+        debugLogger.error('MESSAGE', 'GET_SCHEDULED_MESSAGES_ERROR', 'Failed to fetch scheduled messages', error);
+        return [];
+      }
+
+      return (data || []).map(mapScheduledMessage);
+    } catch (error) {
+      debugLogger.error('MESSAGE', 'GET_SCHEDULED_MESSAGES_EXCEPTION', 'Exception occurred while fetching scheduled messages', error);
+      return [];
+    }
+  },
+
+  // Cancel a scheduled message that has not been sent yet
+  async cancelScheduledMessage(scheduledMessageId: string, senderId: string): Promise<boolean> {
+    try {
+      const { data, error } = await supabase
+        .from('scheduled_messages')
+        .update({ status: 'canceled', updated_at: new Date().toISOString() })
+        .eq('id', scheduledMessageId)
+        .eq('sender_id', senderId)
+        .eq('status', 'scheduled')
+        .select('id');
+
+      if (error) {
+        debug.dbError('scheduled_messages', 'UPDATE', error);
+        debugLogger.error('MESSAGE', 'CANCEL_SCHEDULED_MESSAGE_ERROR', 'Failed to cancel scheduled message', error);
+        return false;
+      }
+
+      // Nothing updated: it was sent or canceled in the meantime
+      return !!data && data.length > 0;
+    } catch (error) {
+      debugLogger.error('MESSAGE', 'CANCEL_SCHEDULED_MESSAGE_EXCEPTION', 'Exception occurred while canceling scheduled message', error);
+      return false;
+    }
+  },
+
+  // Send the current user's due scheduled messages now. The server job does
+  // this every minute; the app calls it while open so nothing waits on the job.
+  async deliverDueScheduledMessages(): Promise<{ scheduledId: string; conversationId: string; messageId: string }[]> {
+    try {
+      const { data, error } = await supabase.rpc('deliver_my_scheduled_messages');
+
+      if (error) {
+        debug.dbError('scheduled_messages', 'DELIVER', error);
+        debugLogger.error('MESSAGE', 'DELIVER_SCHEDULED_ERROR', 'Failed to deliver scheduled messages', error);
+        return [];
+      }
+
+      return (data || []).map((row: any) => ({
+        scheduledId: row.scheduled_id,
+        conversationId: row.conversation_id,
+        messageId: row.message_id,
+      }));
     } catch (error) {
-      debugLogger.error('MESSAGE', 'SEND_MESSAGE_EXCEPTION', 'Exception occurred while sending message', error);
-      return null;
+      debugLogger.error('MESSAGE', 'DELIVER_SCHEDULED_EXCEPTION', 'Exception occurred while delivering scheduled messages', error);
+      return [];
     }
   },
 
@@ -3802,6 +5746,22 @@ export const messageService = {
 
       debugLogger.info('MESSAGE', 'PARTICIPANTS_VALIDATED', `Valid participants: ${uniqueParticipants.length}`);
 
+      // Groups are created through the RPC so the creator becomes their admin
+      if (uniqueParticipants.length > 2) {
+        const title = (!Array.isArray(participants) && participants?.title) || 'Group chat';
+        return messageService.createGroupConversation(title, uniqueParticipants, participants?.avatarUrl);
+      }
+
+      // No new conversations between users who have blocked each other
+      if (uniqueParticipants.length === 2) {
+        const { data: { user } } = await supabase.auth.getUser();
+        const { blocked } = user ? await userService.getHiddenUserIds(user.id) : { blocked: [] as string[] };
+        if (uniqueParticipants.some(id => blocked.includes(id))) {
+          debugLogger.warn('MESSAGE', 'CREATE_CONVERSATION_BLOCKED', 'Users have blocked each other', { participants: uniqueParticipants });
+          return null;
+        }
+      }
+
       // Check if conversation already exists between these participants (for direct messages only)
       if (uniqueParticipants.length === 2) {
         try {
@@ -3829,9 +5789,6 @@ export const messageService = {
         conversation_type: uniqueParticipants.length === 2 ? 'direct' : 'group',
       };
 
-      // Note: title column was removed from database, so we don't add it
-      // Group chats will be identified by conversation_type = 'group'
-
       // Add created_by if we have a current user (first participant is usually the creator)
       if (uniqueParticipants.length > 0) {
         conversationData.created_by = uniqueParticipants[0];
@@ -3937,16 +5894,8 @@ export const messageService = {
       debug.userAction('Mark messages as read', { conversationId, userId });
       debugLogger.info('MESSAGE', 'MARK_READ_START', `Marking messages as read`, { conversationId, userId });
 
-      const { error } = await supabase
-        .from('messages')
-        .update({ is_read: true })
-        .eq('conversation_id', conversationId)
-        .neq('sender_id', userId)
-        .eq('is_read', false);
-
-      if (error) {
-        debug.dbError('messages', 'UPDATE', error);
-        debugLogger.error('MESSAGE', 'MARK_READ_ERROR', 'Failed to mark messages as read', error);
+      const updates = await messageService.markMessagesRead(conversationId);
+      if (!updates) {
         return false;
       }
 
@@ -4010,6 +5959,253 @@ export const messageService = {
     }
   },
 
+  // Create a group conversation; the current user becomes its admin
+  async createGroupConversation(title: string, memberIds: string[], avatarUrl?: string): Promise<string | null> {
+    try {
+      debug.userAction('Create group conversation', { title, memberCount: memberIds.length });
+
+      const { data, error } = await supabase.rpc('create_group_conversation', {
+        p_title: title.trim(),
+        p_member_ids: [...new Set(memberIds)],
+        p_avatar_url: avatarUrl || null,
+      });
+
+      if (error) {
+        debug.dbError('conversations', 'CREATE_GROUP', error);
+        debugLogger.error('MESSAGE', 'CREATE_GROUP_ERROR', 'Failed to create group conversation', error);
+        return null;
+      }
+
+      debugLogger.success('MESSAGE', 'CREATE_GROUP_SUCCESS', 'Group conversation created', { conversationId: data });
+      return data as string;
+    } catch (error) {
+      debugLogger.error('MESSAGE', 'CREATE_GROUP_EXCEPTION', 'Exception occurred while creating group conversation', error);
+      return null;
+    }
+  },
+
+  // Get group members with their roles
+  async getConversationMembers(conversationId: string): Promise<ConversationMember[]> {
+    try {
+      const { data, error } = await supabase
+        .from('conversation_participants')
+        .select(`
+          role, joined_at,
+          user_profiles!conversation_participants_user_id_fkey(
+            id, username, handle, full_name, avatar, profile_picture, is_online, last_seen
+          )
+        `)
+        .eq('conversation_id', conversationId)
+        .order('joined_at', { ascending: true });
+
+      if (error) {
+        debug.dbError('conversation_participants', 'SELECT', error);
+        debugLogger.error('MESSAGE', 'GET_MEMBERS_ERROR', 'Failed to fetch group members', error);
+        return [];
+      }
+
+      return (data || [])
+        .filter((p: any) => p.user_profiles)
+        .map((p: any) => ({
+          user: {
+            id: p.user_profiles.id,
+            username: p.user_profiles.username || p.user_profiles.handle || '',
+            avatar: p.user_profiles.avatar || p.user_profiles.profile_picture || '',
+            fullName: p.user_profiles.full_name || '',
+            isOnline: p.user_profiles.is_online || false,
+            lastSeen: p.user_profiles.last_seen || '',
+          } as User,
+          role: p.role === 'admin' ? 'admin' : 'member',
+          joinedAt: p.joined_at,
+        }));
+    } catch (error) {
+      debugLogger.error('MESSAGE', 'GET_MEMBERS_EXCEPTION', 'Exception occurred while fetching group members', error);
+      return [];
+    }
+  },
+
+  // Get the type, group details and members of a conversation
+  async getConversationDetails(conversationId: string): Promise<ConversationDetails | null> {
+    try {
+      const { data, error } = await supabase
+        .from('conversations')
+        .select('id, conversation_type, title, avatar_url, created_by, message_ttl_seconds')
+        .eq('id', conversationId)
+        .single();
+
+      if (error || !data) {
+        debug.dbError('conversations', 'SELECT', error);
+        debugLogger.error('MESSAGE', 'GET_CONVERSATION_DETAILS_ERROR', 'Failed to fetch conversation details', error);
+        return null;
+      }
+
+      const members = await messageService.getConversationMembers(conversationId);
+
+      return {
+        id: data.id,
+        type: data.conversation_type === 'group' ? 'group' : 'direct',
+        title: data.title || undefined,
+        avatar: data.avatar_url || undefined,
+        createdBy: data.created_by,
+        members,
+        messageTtlSeconds: data.message_ttl_seconds ?? null,
+      };
+    } catch (error) {
+      debugLogger.error('MESSAGE', 'GET_CONVERSATION_DETAILS_EXCEPTION', 'Exception occurred while fetching conversation details', error);
+      return null;
+    }
+  },
+
+  // Turn disappearing messages on (24h, 7d or 90d) or off. In groups only
+  // admins can change it. A system message records the change.
+  async setMessageTtl(conversationId: string, ttlSeconds: number | null): Promise<boolean> {
+    try {
+      debug.userAction('Set disappearing messages', { conversationId, ttlSeconds });
+      const { error } = await supabase.rpc('set_conversation_message_ttl', {
+        p_conversation_id: conversationId,
+        p_ttl_seconds: ttlSeconds,
+      });
+
+      if (error) {
+        debug.dbError('conversations', 'SET_MESSAGE_TTL', error);
+        debugLogger.error('MESSAGE', 'SET_MESSAGE_TTL_ERROR', 'Failed to change disappearing messages', error);
+        return false;
+      }
+
+      return true;
+    } catch (error) {
+      debugLogger.error('MESSAGE', 'SET_MESSAGE_TTL_EXCEPTION', 'Exception occurred while changing disappearing messages', error);
+      return false;
+    }
+  },
+
+  // Delete messages in a conversation whose timer ran out. The server job
+  // does this for every conversation; this covers projects without pg_cron.
+  async purgeExpiredMessages(conversationId: string): Promise<number> {
+    try {
+      const { data, error } = await supabase.rpc('purge_expired_conversation_messages', {
+        p_conversation_id: conversationId,
+      });
+
+      if (error) {
+        debug.dbError('messages', 'PURGE_EXPIRED', error);
+        debugLogger.error('MESSAGE', 'PURGE_EXPIRED_ERROR', 'Failed to delete expired messages', error);
+        return 0;
+      }
+
+      return data || 0;
+    } catch (error) {
+      debugLogger.error('MESSAGE', 'PURGE_EXPIRED_EXCEPTION', 'Exception occurred while deleting expired messages', error);
+      return 0;
+    }
+  },
+
+  // Rename a group or change its avatar (admins only)
+  async updateGroupDetails(conversationId: string, title: string, avatarUrl?: string): Promise<boolean> {
+    try {
+      const { error } = await supabase.rpc('update_group_details', {
+        p_conversation_id: conversationId,
+        p_title: title.trim(),
+        p_avatar_url: avatarUrl || null,
+      });
+
+      if (error) {
+        debug.dbError('conversations', 'UPDATE_GROUP', error);
+        debugLogger.error('MESSAGE', 'UPDATE_GROUP_ERROR', 'Failed to update group details', error);
+        return false;
+      }
+
+      return true;
+    } catch (error) {
+      debugLogger.error('MESSAGE', 'UPDATE_GROUP_EXCEPTION', 'Exception occurred while updating group details', error);
+      return false;
+    }
+  },
+
+  // Add members to a group (admins only). Returns how many were added.
+  async addGroupMembers(conversationId: string, userIds: string[]): Promise<number> {
+    try {
+      const { data, error } = await supabase.rpc('add_group_members', {
+        p_conversation_id: conversationId,
+        p_user_ids: [...new Set(userIds)],
+      });
+
+      if (error) {
+        debug.dbError('conversation_participants', 'ADD_MEMBERS', error);
+        debugLogger.error('MESSAGE', 'ADD_MEMBERS_ERROR', 'Failed to add group members', error);
+        return 0;
+      }
+
+      return (data as number) || 0;
+    } catch (error) {
+      debugLogger.error('MESSAGE', 'ADD_MEMBERS_EXCEPTION', 'Exception occurred while adding group members', error);
+      return 0;
+    }
+  },
+
+  // Remove a member from a group (admins only)
+  async removeGroupMember(conversationId: string, userId: string): Promise<boolean> {
+    try {
+      const { error } = await supabase.rpc('remove_group_member', {
+        p_conversation_id: conversationId,
+        p_user_id: userId,
+      });
+
+      if (error) {
+        debug.dbError('conversation_participants', 'REMOVE_MEMBER', error);
+        debugLogger.error('MESSAGE', 'REMOVE_MEMBER_ERROR', 'Failed to remove group member', error);
+        return false;
+      }
+
+      return true;
+    } catch (error) {
+      debugLogger.error('MESSAGE', 'REMOVE_MEMBER_EXCEPTION', 'Exception occurred while removing group member', error);
+      return false;
+    }
+  },
+
+  // Promote a member to admin or demote an admin (admins only)
+  async setGroupAdmin(conversationId: string, userId: string, isAdmin: boolean): Promise<boolean> {
+    try {
+      const { error } = await supabase.rpc('set_group_admin', {
+        p_conversation_id: conversationId,
+        p_user_id: userId,
+        p_is_admin: isAdmin,
+      });
+
+      if (error) {
+        debug.dbError('conversation_participants', 'SET_ADMIN', error);
+        debugLogger.error('MESSAGE', 'SET_ADMIN_ERROR', 'Failed to change group role', error);
+        return false;
+      }
+
+      return true;
+    } catch (error) {
+      debugLogger.error('MESSAGE', 'SET_ADMIN_EXCEPTION', 'Exception occurred while changing group role', error);
+      return false;
+    }
+  },
+
+  // Leave a group conversation
+  async leaveGroupConversation(conversationId: string): Promise<boolean> {
+    try {
+      const { error } = await supabase.rpc('leave_group_conversation', {
+        p_conversation_id: conversationId,
+      });
+
+      if (error) {
+        debug.dbError('conversation_participants', 'LEAVE_GROUP', error);
+        debugLogger.error('MESSAGE', 'LEAVE_GROUP_ERROR', 'Failed to leave group conversation', error);
+        return false;
+      }
+
+      return true;
+    } catch (error) {
+      debugLogger.error('MESSAGE', 'LEAVE_GROUP_EXCEPTION', 'Exception occurred while leaving group conversation', error);
+      return false;
+    }
+  },
+
   // Search conversations
   async searchConversations(userId: string, query: string): Promise<Conversation[]> {
     try {
@@ -4100,6 +6296,68 @@ export const messageService = {
     }
   },
 
+  // Search message bodies across every conversation the current user is in,
+  // newest first. Pass the cursor of the last result as `before` for the next page.
+  async searchMessages(
+    query: string,
+    filters: MessageSearchFilters = {},
+    options: { limit?: number; before?: MessageCursor } = {}
+  ): Promise<MessageSearchResult[]> {
+    const { limit = MESSAGE_SEARCH_PAGE_SIZE, before } = options;
+
+    try {
+      const startTime = Date.now();
+      debug.dbQuery('messages', 'SEARCH', { query, filters, before });
+
+      const { data, error } = await supabase.rpc('search_messages', {
+        p_query: query.trim(),
+        p_sender_id: filters.senderId || null,
+        p_from: filters.from || null,
+        p_to: filters.to || null,
+        p_types: filters.types && filters.types.length > 0 ? filters.types : null,
+        p_limit: limit,
+        p_before_created_at: before?.createdAt || null,
+        p_before_id: before?.id || null,
+      });
+
+      if (error) {
+        debug.dbError('messages', 'SEARCH', error);
+        debugLogger.error('MESSAGE', 'SEARCH_MESSAGES_ERROR', 'Failed to search messages', error);
+        return [];
+      }
+
+      const results: MessageSearchResult[] = (data || []).map((row: any) => ({
+        message: {
+          id: row.id,
+          senderId: row.sender_id,
+          receiverId: '',
+          content: row.content,
+          type: row.message_type || 'text',
+          mediaUrl: row.media_url || undefined,
+          timestamp: row.created_at,
+          createdAt: row.created_at,
+          conversationId: row.conversation_id,
+          senderName: row.sender_username || undefined,
+          senderAvatar: row.sender_avatar || undefined,
+        },
+        snippet: row.snippet || '',
+        conversationType: row.conversation_type === 'group' ? 'group' : 'direct',
+        conversationTitle: row.conversation_title || undefined,
+        otherUser: row.other_user_id ? {
+          id: row.other_user_id,
+          username: row.other_username || 'Unknown',
+          avatar: row.other_avatar || '',
+        } : undefined,
+      }));
+
+      debug.dbSuccess('messages', 'SEARCH', { query, count: results.length }, Date.now() - startTime);
+      return results;
+    } catch (error) {
+      debugLogger.error('MESSAGE', 'SEARCH_MESSAGES_EXCEPTION', 'Exception occurred while searching messages', error);
+      return [];
+    }
+  },
+
   // Edit a message
   async editMessage(messageId: string, newContent: string, userId: string): Promise<boolean> {
     try {
@@ -4204,34 +6462,149 @@ export const messageService = {
       console.log('🎉 DELETE_MESSAGE - Success:', messageId);
       return true;
     } catch (error) {
-      console.error('🚨 DELETE_MESSAGE - Exception:', error);
-      debugLogger.error('MESSAGE', 'DELETE_MESSAGE_EXCEPTION', 'Exception occurred while deleting message', error);
-      return false;
+      console.error('🚨 DELETE_MESSAGE - Exception:', error);
+      debugLogger.error('MESSAGE', 'DELETE_MESSAGE_EXCEPTION', 'Exception occurred while deleting message', error);
+      return false;
+    }
+  },
+
+  // React to a message, replacing the user's earlier reaction. Pass null to
+  // remove it. The change is broadcast to the other participants.
+  async setReaction(conversationId: string, messageId: string, userId: string, emoji: string | null): Promise<boolean> {
+    try {
+      const startTime = Date.now();
+      debug.userAction('Set message reaction', { messageId, userId, emoji });
+
+      const { error } = emoji
+        ? await supabase
+            .from('message_reactions')
+            .upsert(
+              { message_id: messageId, user_id: userId, emoji, created_at: new Date().toISOString() },
+              { onConflict: 'message_id,user_id' }
+            )
+        : await supabase
+            .from('message_reactions')
+            .delete()
+            .eq('message_id', messageId)
+            .eq('user_id', userId);
+
+      if (error) {
+        debug.dbError('message_reactions', emoji ? 'UPSERT' : 'DELETE', error);
+        debugLogger.error('MESSAGE', 'SET_REACTION_ERROR', 'Failed to update message reaction', error);
+        return false;
+      }
+
+      const update: MessageReactionUpdate = { messageId, conversationId, userId, emoji };
+      sendConversationBroadcast(conversationId, REACTIONS_BROADCAST_EVENT, update);
+
+      debug.dbSuccess('message_reactions', emoji ? 'UPSERT' : 'DELETE', { messageId }, Date.now() - startTime);
+      return true;
+    } catch (error) {
+      debugLogger.error('MESSAGE', 'SET_REACTION_EXCEPTION', 'Exception occurred while updating message reaction', error);
+      return false;
+    }
+  },
+
+  // Mark messages as read
+  async markMessagesAsRead(conversationId: string, userId: string): Promise<boolean> {
+    try {
+      debugLogger.info('MESSAGE', 'MARK_AS_READ_START', `Marking messages as read`, { conversationId, userId });
+
+      const updates = await messageService.markMessagesRead(conversationId);
+      if (!updates) {
+        return false;
+      }
+
+      debugLogger.success('MESSAGE', 'MARK_AS_READ_SUCCESS', 'Messages marked as read successfully');
+      return true;
+    } catch (error) {
+      debugLogger.error('MESSAGE', 'MARK_AS_READ_EXCEPTION', 'Exception occurred while marking messages as read', error);
+      return false;
+    }
+  },
+
+  // Record that the current user's device received their messages, in one
+  // conversation or all of them. Changes are broadcast to the senders.
+  async markMessagesDelivered(conversationId?: string): Promise<MessageReceiptUpdate[] | null> {
+    try {
+      const { data, error } = await supabase.rpc('mark_messages_delivered', {
+        p_conversation_id: conversationId || null,
+      });
+
+      if (error) {
+        debug.dbError('message_receipts', 'MARK_DELIVERED', error);
+        debugLogger.error('MESSAGE', 'MARK_DELIVERED_ERROR', 'Failed to mark messages as delivered', error);
+        return null;
+      }
+
+      const updates = (data || []).map(mapReceiptUpdate);
+      if (updates.length > 0) {
+        broadcastReceiptUpdates(updates);
+      }
+      return updates;
+    } catch (error) {
+      debugLogger.error('MESSAGE', 'MARK_DELIVERED_EXCEPTION', 'Exception occurred while marking messages as delivered', error);
+      return null;
+    }
+  },
+
+  // Record that the current user read a conversation. Changes are broadcast
+  // to the senders.
+  async markMessagesRead(conversationId: string): Promise<MessageReceiptUpdate[] | null> {
+    try {
+      const { data, error } = await supabase.rpc('mark_messages_read', {
+        p_conversation_id: conversationId,
+      });
+
+      if (error) {
+        debug.dbError('message_receipts', 'MARK_READ', error);
+        debugLogger.error('MESSAGE', 'MARK_READ_RECEIPTS_ERROR', 'Failed to mark messages as read', error);
+        return null;
+      }
+
+      const updates = (data || []).map(mapReceiptUpdate);
+      if (updates.length > 0) {
+        broadcastReceiptUpdates(updates);
+      }
+      return updates;
+    } catch (error) {
+      debugLogger.error('MESSAGE', 'MARK_READ_RECEIPTS_EXCEPTION', 'Exception occurred while marking messages as read', error);
+      return null;
     }
   },
 
-  // Mark messages as read
-  async markMessagesAsRead(conversationId: string, userId: string): Promise<boolean> {
+  // Count conversations with at least one unread message from someone else
+  async getUnreadConversationCount(userId: string): Promise<number> {
     try {
-      debugLogger.info('MESSAGE', 'MARK_AS_READ_START', `Marking messages as read`, { conversationId, userId });
+      const { data: participations, error: participantsError } = await supabase
+        .from('conversation_participants')
+        .select('conversation_id')
+        .eq('user_id', userId);
 
-      const { error } = await supabase
+      if (participantsError) {
+        debug.dbError('conversation_participants', 'SELECT', participantsError);
+        return 0;
+      }
+
+      const conversationIds = (participations || []).map((p: any) => p.conversation_id);
+      if (conversationIds.length === 0) return 0;
+
+      const { data, error } = await supabase
         .from('messages')
-        .update({ is_read: true })
-        .eq('conversation_id', conversationId)
-        .neq('sender_id', userId) // Mark messages NOT sent by the current user as read
+        .select('conversation_id')
+        .in('conversation_id', conversationIds)
+        .neq('sender_id', userId)
         .eq('is_read', false);
 
       if (error) {
-        debugLogger.error('MESSAGE', 'MARK_AS_READ_ERROR', 'Failed to mark messages as read', error);
-        return false;
+        debug.dbError('messages', 'SELECT', error);
+        return 0;
       }
 
-      debugLogger.success('MESSAGE', 'MARK_AS_READ_SUCCESS', 'Messages marked as read successfully');
-      return true;
+      return new Set((data || []).map((m: any) => m.conversation_id)).size;
     } catch (error) {
-      debugLogger.error('MESSAGE', 'MARK_AS_READ_EXCEPTION', 'Exception occurred while marking messages as read', error);
-      return false;
+      debugLogger.error('MESSAGE', 'UNREAD_COUNT_EXCEPTION', 'Exception occurred while counting unread conversations', error);
+      return 0;
     }
   },
 };
@@ -4416,6 +6789,468 @@ const bulletinService = {
   },
 };
 
+// =====================================================
+// NOTIFICATION INBOX OPERATIONS
+// =====================================================
+// Entries are created by database triggers (database_notifications_inbox.sql)
+
+export const mapNotification = (data: any): Notification => ({
+  id: data.id,
+  userId: data.user_id,
+  type: data.type,
+  title: data.title,
+  message: data.message,
+  data: data.data || {},
+  isRead: data.is_read || false,
+  createdAt: data.created_at,
+  actorId: data.actor_id || undefined,
+  readAt: data.read_at || undefined,
+});
+
+export const notificationInboxService = {
+  // Get a page of notifications, newest first
+  async getNotifications(
+    userId: string,
+    limit: number = 20,
+    cursor?: NotificationCursor
+  ): Promise<{ notifications: Notification[]; nextCursor: NotificationCursor | null }> {
+    try {
+      debug.dbQuery('notifications', 'SELECT', { userId, limit, cursor });
+
+      let query = supabase
+        .from('notifications')
+        .select('*')
+        .eq('user_id', userId)
+        .order('created_at', { ascending: false })
+        .order('id', { ascending: false })
+        .limit(limit);
+
+      if (cursor) {
+        query = query.or(
+          `created_at.lt.${cursor.createdAt},and(created_at.eq.${cursor.createdAt},id.lt.${cursor.id})`
+        );
+      }
+
+      const { data, error } = await query;
+
+      if (error || !data) {
+        if (error) debug.dbError('notifications', 'SELECT', error);
+        return { notifications: [], nextCursor: null };
+      }
+
+      const notifications = data.map(mapNotification);
+      const last = notifications[notifications.length - 1];
+
+      return {
+        notifications,
+        nextCursor: notifications.length === limit && last?.createdAt
+          ? { createdAt: last.createdAt, id: last.id }
+          : null,
+      };
+    } catch (error) {
+      console.error('Error fetching notifications:', error);
+      return { notifications: [], nextCursor: null };
+    }
+  },
+
+  // Count unread notifications, optionally ignoring some types
+  async getUnreadCount(userId: string, excludeTypes: NotificationType[] = []): Promise<number> {
+    try {
+      let query = supabase
+        .from('notifications')
+        .select('id', { count: 'exact', head: true })
+        .eq('user_id', userId)
+        .eq('is_read', false);
+
+      if (excludeTypes.length > 0) {
+        query = query.not('type', 'in', `(${excludeTypes.join(',')})`);
+      }
+
+      const { count, error } = await query;
+
+      if (error) {
+        debug.dbError('notifications', 'COUNT', error);
+        return 0;
+      }
+
+      return count || 0;
+    } catch (error) {
+      console.error('Error counting unread notifications:', error);
+      return 0;
+    }
+  },
+
+  // Mark a single notification as read
+  async markAsRead(notificationId: string, userId: string): Promise<boolean> {
+    try {
+      const { error } = await supabase
+        .from('notifications')
+        .update({ is_read: true })
+        .eq('id', notificationId)
+        .eq('user_id', userId);
+
+      if (error) {
+        debug.dbError('notifications', 'UPDATE', error);
+        return false;
+      }
+
+      return true;
+    } catch (error) {
+      console.error('Error marking notification as read:', error);
+      return false;
+    }
+  },
+
+  // Mark every unread notification as read
+  async markAllAsRead(userId: string): Promise<boolean> {
+    try {
+      const { error } = await supabase
+        .from('notifications')
+        .update({ is_read: true })
+        .eq('user_id', userId)
+        .eq('is_read', false);
+
+      if (error) {
+        debug.dbError('notifications', 'UPDATE', error);
+        return false;
+      }
+
+      return true;
+    } catch (error) {
+      console.error('Error marking all notifications as read:', error);
+      return false;
+    }
+  },
+
+  // Delete a notification from the inbox
+  async deleteNotification(notificationId: string, userId: string): Promise<boolean> {
+    try {
+      const { error } = await supabase
+        .from('notifications')
+        .delete()
+        .eq('id', notificationId)
+        .eq('user_id', userId);
+
+      return !error;
+    } catch (error) {
+      console.error('Error deleting notification:', error);
+      return false;
+    }
+  },
+};
+
+// =====================================================
+// NOTIFICATION PREFERENCE OPERATIONS
+// =====================================================
+
+const NOTIFICATION_PREFERENCE_COLUMNS: Record<NotificationType, string> = {
+  message: 'message_enabled',
+  follow: 'follow_enabled',
+  like: 'like_enabled',
+  comment: 'comment_enabled',
+  booking: 'booking_enabled',
+  review: 'review_enabled',
+  reel_share: 'reel_share_enabled',
+  mention: 'mention_enabled',
+};
+
+// Everything on, quiet hours off, in the device's time zone
+export const getDefaultNotificationPreferences = (): NotificationPreferences => ({
+  types: {
+    message: true,
+    follow: true,
+    like: true,
+    comment: true,
+    booking: true,
+    review: true,
+    reel_share: true,
+    mention: true,
+  },
+  quietHours: {
+    enabled: false,
+    start: '22:00',
+    end: '07:00',
+    timeZone: getDeviceTimeZone(),
+  },
+  mutedConversations: [],
+});
+
+export const notificationPreferenceService = {
+  // Get a user's preferences, falling back to the defaults if none are saved
+  async getPreferences(userId: string): Promise<NotificationPreferences> {
+    const preferences = getDefaultNotificationPreferences();
+
+    try {
+      const [{ data, error }, { data: mutes, error: mutesError }] = await Promise.all([
+        supabase
+          .from('notification_preferences')
+          .select('*')
+          .eq('user_id', userId)
+          .maybeSingle(),
+        supabase
+          .from('conversation_mutes')
+          .select('conversation_id, muted_until')
+          .eq('user_id', userId),
+      ]);
+
+      if (error) {
+        debug.dbError('notification_preferences', 'SELECT', error);
+      } else if (data) {
+        (Object.keys(NOTIFICATION_PREFERENCE_COLUMNS) as NotificationType[]).forEach(type => {
+          preferences.types[type] = data[NOTIFICATION_PREFERENCE_COLUMNS[type]] !== false;
+        });
+        preferences.quietHours = {
+          enabled: !!data.quiet_hours_enabled,
+          start: (data.quiet_hours_start || '22:00').slice(0, 5),
+          end: (data.quiet_hours_end || '07:00').slice(0, 5),
+          timeZone: isValidTimeZone(data.time_zone) ? data.time_zone : preferences.quietHours.timeZone,
+        };
+      }
+
+      if (mutesError) {
+        debug.dbError('conversation_mutes', 'SELECT', mutesError);
+      } else {
+        const now = Date.now();
+        preferences.mutedConversations = (mutes || [])
+          .filter((mute: any) => !mute.muted_until || new Date(mute.muted_until).getTime() > now)
+          .map((mute: any) => ({
+            conversationId: mute.conversation_id,
+            mutedUntil: mute.muted_until,
+          }));
+      }
+    } catch (error) {
+      console.error('Error fetching notification preferences:', error);
+    }
+
+    return preferences;
+  },
+
+  // Save type switches and quiet hours (conversation mutes are saved separately)
+  async updatePreferences(
+    userId: string,
+    preferences: Pick<NotificationPreferences, 'types' | 'quietHours'>
+  ): Promise<boolean> {
+    try {
+      if (!isValidTimeZone(preferences.quietHours.timeZone)) {
+        console.error('Invalid quiet hours time zone:', preferences.quietHours.timeZone);
+        return false;
+      }
+
+      const row: Record<string, any> = {
+        user_id: userId,
+        quiet_hours_enabled: preferences.quietHours.enabled,
+        quiet_hours_start: preferences.quietHours.start,
+        quiet_hours_end: preferences.quietHours.end,
+        time_zone: preferences.quietHours.timeZone,
+      };
+      (Object.keys(NOTIFICATION_PREFERENCE_COLUMNS) as NotificationType[]).forEach(type => {
+        row[NOTIFICATION_PREFERENCE_COLUMNS[type]] = preferences.types[type];
+      });
+
+      const { error } = await supabase
+        .from('notification_preferences')
+        .upsert(row, { onConflict: 'user_id' });
+
+      if (error) {
+        debug.dbError('notification_preferences', 'UPSERT', error);
+        return false;
+      }
+
+      return true;
+    } catch (error) {
+      console.error('Error saving notification preferences:', error);
+      return false;
+    }
+  },
+
+  // Mute a conversation until a given time, or indefinitely when mutedUntil is null
+  async muteConversation(userId: string, conversationId: string, mutedUntil: Date | null): Promise<boolean> {
+    try {
+      const { error } = await supabase
+        .from('conversation_mutes')
+        .upsert({
+          user_id: userId,
+          conversation_id: conversationId,
+          muted_until: mutedUntil ? mutedUntil.toISOString() : null,
+        }, { onConflict: 'user_id,conversation_id' });
+
+      if (error) {
+        debug.dbError('conversation_mutes', 'UPSERT', error);
+        return false;
+      }
+
+      return true;
+    } catch (error) {
+      console.error('Error muting conversation:', error);
+      return false;
+    }
+  },
+
+  // Unmute a conversation
+  async unmuteConversation(userId: string, conversationId: string): Promise<boolean> {
+    try {
+      const { error } = await supabase
+        .from('conversation_mutes')
+        .delete()
+        .eq('user_id', userId)
+        .eq('conversation_id', conversationId);
+
+      if (error) {
+        debug.dbError('conversation_mutes', 'DELETE', error);
+        return false;
+      }
+
+      return true;
+    } catch (error) {
+      console.error('Error unmuting conversation:', error);
+      return false;
+    }
+  },
+};
+
+// =====================================================
+// CONTENT REPORTS AND MODERATION
+// =====================================================
+
+export const moderationService = {
+  // Report a post, reel, story, comment or user. targetUserId is the author
+  // (or the user themselves) so the queue can show who was reported.
+  async reportContent(
+    reporterId: string,
+    targetType: ReportTargetType,
+    targetId: string,
+    reason: ReportReason,
+    notes?: string,
+    targetUserId?: string
+  ): Promise<boolean> {
+    try {
+      debug.dbQuery('content_reports', 'INSERT', { reporterId, targetType, targetId, reason });
+
+      const { error } = await supabase
+        .from('content_reports')
+        .insert({
+          reporter_id: reporterId,
+          target_type: targetType,
+          target_id: targetId,
+          target_user_id: targetUserId || (targetType === 'user' ? targetId : null),
+          reason,
+          notes: notes?.trim() || null,
+        });
+
+      // Already reported and still open: nothing more to do
+      if (error && error.code !== '23505') {
+        debug.dbError('content_reports', 'INSERT', error);
+        return false;
+      }
+
+      debug.userAction('Reported content', { targetType, targetId, reason });
+      return true;
+    } catch (error) {
+      console.error('Error reporting content:', error);
+      return false;
+    }
+  },
+
+  // Moderation queue: reported items with open reports, oldest first
+  async getModerationQueue(limit = 50, offset = 0): Promise<ModerationQueueItem[]> {
+    try {
+      debug.dbQuery('content_reports', 'RPC', { function: 'get_moderation_queue', limit, offset });
+
+      const { data, error } = await supabase.rpc('get_moderation_queue', {
+        p_limit: limit,
+        p_offset: offset,
+      });
+
+      if (error || !data) {
+        if (error) debug.dbError('content_reports', 'RPC', error);
+        return [];
+      }
+
+      const userIds = [...new Set(data.map((row: any) => row.target_user_id).filter(Boolean))] as string[];
+      const users = await Promise.all(userIds.map(id => userService.getUserProfile(id)));
+      const usersById = new Map(userIds.map((id, index) => [id, users[index]]));
+
+      return data.map((row: any) => ({
+        targetType: row.target_type,
+        targetId: row.target_id,
+        targetUser: usersById.get(row.target_user_id) || undefined,
+        reportCount: Number(row.report_count) || 0,
+        reasons: row.reasons || [],
+        notes: row.notes || [],
+        firstReportedAt: row.first_reported_at,
+        lastReportedAt: row.last_reported_at,
+        previewText: row.preview_text || undefined,
+        previewMediaUrl: row.preview_media_url || undefined,
+        isHidden: !!row.content_is_hidden,
+      }));
+    } catch (error) {
+      console.error('Error fetching moderation queue:', error);
+      return [];
+    }
+  },
+
+  // Close every open report on an item, hiding the content or suspending its
+  // author when asked to
+  async resolveReports(targetType: ReportTargetType, targetId: string, action: ModerationAction): Promise<boolean> {
+    try {
+      debug.dbQuery('content_reports', 'RPC', { function: 'resolve_content_reports', targetType, targetId, action });
+
+      const { error } = await supabase.rpc('resolve_content_reports', {
+        p_target_type: targetType,
+        p_target_id: targetId,
+        p_action: action,
+      });
+
+      if (error) {
+        debug.dbError('content_reports', 'RPC', error);
+        return false;
+      }
+
+      // Hidden content must not linger in cached feeds
+      if (action !== 'dismiss') {
+        await Promise.all([
+          cacheService.clear('posts'),
+          cacheService.clear('reels'),
+          cacheService.clear('stories'),
+          cacheService.clear('comments'),
+        ]);
+      }
+
+      return true;
+    } catch (error) {
+      console.error('Error resolving reports:', error);
+      return false;
+    }
+  },
+
+  // Lift a user's suspension (moderators only)
+  async unsuspendUser(userId: string): Promise<boolean> {
+    try {
+      debug.dbQuery('user_profiles', 'RPC', { function: 'unsuspend_user', userId });
+
+      const { error } = await supabase.rpc('unsuspend_user', { p_user_id: userId });
+
+      if (error) {
+        debug.dbError('user_profiles', 'RPC', error);
+        return false;
+      }
+
+      // Their content was left out of cached feeds while suspended
+      await Promise.all([
+        cacheService.clear('posts'),
+        cacheService.clear('reels'),
+        cacheService.clear('stories'),
+        cacheService.clear('comments'),
+      ]);
+
+      return true;
+    } catch (error) {
+      console.error('Error lifting suspension:', error);
+      return false;
+    }
+  },
+};
+
 // =====================================================
 // EXPORT ALL SERVICES
 // =====================================================
@@ -4427,9 +7262,14 @@ export const dataService = {
   reel: reelService,
   hashtag: hashtagService,
   host: hostService,
+  booking: bookingService,
+  availability: availabilityService,
   review: reviewService,
   storage: storageService,
   comment: commentService,
   message: messageService,
   bulletin: bulletinService,
+  inbox: notificationInboxService,
+  notificationPreferences: notificationPreferenceService,
+  moderation: moderationService,
 }; 
\ No newline at end of file
@@ -0,0 +1,284 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import NetInfo, { NetInfoState } from '@react-native-community/netinfo';
+import { debugLogger } from '@/utils/debugLogger';
+import { dataService } from '@/services/dataService';
+import { Message, MessageDeliveryStatus, MessageReplyPreview, Post, Reel } from '@/types';
+
+// =====================================================
+// OFFLINE MESSAGE OUTBOX
+// =====================================================
+// Messages are queued on the device before they are sent, so anything typed
+// without a connection survives restarts and goes out once the connection
+// returns. Items are sent one at a time in the order they were written; a
+// failed item holds back the rest of its conversation until the user retries
+// or discards it. Every item carries a client id that the server uses to drop
+// duplicate sends.
+
+const STORAGE_KEY_PREFIX = 'messageOutbox:';
+const MAX_ATTEMPTS = 3;
+const RETRY_BASE_DELAY = 2000; // Doubled after every failed attempt
+
+export interface OutboxItem {
+  clientId: string;
+  conversationId: string;
+  senderId: string;
+  content: string;
+  messageType: string;
+  mediaUrl?: string;
+  sharedPost?: Post;
+  sharedReel?: Reel;
+  sharedStory?: any;
+  replyTo?: MessageReplyPreview;
+  createdAt: string;
+  attempts: number;
+  status: MessageDeliveryStatus;
+  lastError?: string;
+}
+
+export type OutboxMessageInput = Pick<
+  OutboxItem,
+  'conversationId' | 'senderId' | 'content' | 'messageType' | 'mediaUrl' | 'sharedPost' | 'sharedReel' | 'sharedStory' | 'replyTo'
+>;
+
+export interface OutboxEvent {
+  items: OutboxItem[];
+  // Set when an item reached the server, so screens can swap in the stored message
+  sent?: { clientId: string; message: Message };
+}
+
+export const generateClientId = (): string =>
+  `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}-${Math.random().toString(36).slice(2, 10)}`;
+
+// Placeholder ids start with 'temp' so history paging never uses them as a cursor
+export const getOutboxMessageId = (clientId: string) => `temp-outbox-${clientId}`;
+
+export const outboxItemToMessage = (item: OutboxItem): Message => ({
+  id: getOutboxMessageId(item.clientId),
+  clientId: item.clientId,
+  senderId: item.senderId,
+  receiverId: '',
+  content: item.content,
+  type: item.messageType as Message['type'],
+  mediaUrl: item.mediaUrl,
+  sharedPost: item.sharedPost,
+  sharedReel: item.sharedReel,
+  sharedStory: item.sharedStory,
+  replyToMessageId: item.replyTo?.id,
+  replyTo: item.replyTo,
+  timestamp: item.createdAt,
+  createdAt: item.createdAt,
+  conversationId: item.conversationId,
+  isRead: false,
+  deliveryStatus: item.status,
+});
+
+class MessageOutbox {
+  private userId: string | null = null;
+  private items: OutboxItem[] = [];
+  private listeners = new Set<(event: OutboxEvent) => void>();
+  private unsubscribeNetInfo: (() => void) | null = null;
+  private isOnline = true;
+  private flushPromise: Promise<void> | null = null;
+  private retryTimer: ReturnType<typeof setTimeout> | null = null;
+
+  // Load the signed in user's queue and start sending when online
+  async initialize(userId: string): Promise<void> {
+    if (this.userId === userId) return;
+    if (this.userId) this.cleanup();
+
+    this.userId = userId;
+
+    try {
+      const stored = await AsyncStorage.getItem(this.storageKey(userId));
+      this.items = stored ? JSON.parse(stored) : [];
+      debugLogger.info('OUTBOX', 'INIT', `Loaded ${this.items.length} queued messages`, { userId });
+    } catch (error) {
+      debugLogger.error('OUTBOX', 'INIT_ERROR', 'Failed to load message outbox', error);
+      this.items = [];
+    }
+
+    this.unsubscribeNetInfo = NetInfo.addEventListener((state: NetInfoState) => {
+      const wasOnline = this.isOnline;
+      this.isOnline = !!state.isConnected && state.isInternetReachable !== false;
+
+      if (this.isOnline && !wasOnline) {
+        debugLogger.info('OUTBOX', 'ONLINE', 'Connection restored, sending queued messages');
+        this.flush();
+      }
+    });
+
+    this.emit();
+    this.flush();
+  }
+
+  cleanup(): void {
+    if (this.unsubscribeNetInfo) {
+      this.unsubscribeNetInfo();
+      this.unsubscribeNetInfo = null;
+    }
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
+    this.userId = null;
+    this.items = [];
+    this.emit();
+  }
+
+  // Queue a message and try to send it straight away. Returns the pending
+  // message to show until the stored copy arrives through subscribe().
+  async enqueue(input: OutboxMessageInput): Promise<Message> {
+    const item: OutboxItem = {
+      ...input,
+      clientId: generateClientId(),
+      createdAt: new Date().toISOString(),
+      attempts: 0,
+      status: 'pending',
+    };
+
+    this.items = [...this.items, item];
+    await this.persist();
+    this.emit();
+    this.flush();
+
+    return outboxItemToMessage(item);
+  }
+
+  // Put a failed item back in the queue
+  async retry(clientId: string): Promise<void> {
+    this.items = this.items.map(item =>
+      item.clientId === clientId ? { ...item, status: 'pending', attempts: 0, lastError: undefined } : item
+    );
+    await this.persist();
+    this.emit();
+    this.flush();
+  }
+
+  // Drop an item; later messages in its conversation can then go out
+  async discard(clientId: string): Promise<void> {
+    this.items = this.items.filter(item => item.clientId !== clientId);
+    await this.persist();
+    this.emit();
+    this.flush();
+  }
+
+  getItems(conversationId?: string): OutboxItem[] {
+    return conversationId
+      ? this.items.filter(item => item.conversationId === conversationId)
+      : [...this.items];
+  }
+
+  // Queued messages for a conversation, oldest first
+  getMessages(conversationId: string): Message[] {
+    return this.getItems(conversationId).map(outboxItemToMessage);
+  }
+
+  subscribe(listener: (event: OutboxEvent) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  // Send queued items in order. Only one flush runs at a time so an item is
+  // never in flight twice.
+  flush(): Promise<void> {
+    if (!this.flushPromise) {
+      this.flushPromise = this.sendQueued().finally(() => {
+        this.flushPromise = null;
+      });
+    }
+    return this.flushPromise;
+  }
+
+  private async sendQueued(): Promise<void> {
+    if (!this.userId || !this.isOnline) return;
+
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
+
+    // Conversations held back by a failed item keep their order
+    const blocked = new Set<string>();
+
+    for (const queued of [...this.items]) {
+      if (!this.userId || !this.isOnline) return;
+
+      const item = this.items.find(candidate => candidate.clientId === queued.clientId);
+      if (!item || blocked.has(item.conversationId)) continue;
+
+      if (item.status === 'failed') {
+        blocked.add(item.conversationId);
+        continue;
+      }
+
+      const message = await dataService.message.sendMessage(
+        item.conversationId,
+        item.senderId,
+        item.content,
+        item.messageType,
+        item.sharedPost,
+        item.sharedReel,
+        item.sharedStory,
+        item.mediaUrl,
+        item.clientId,
+        item.replyTo?.id
+      );
+
+      if (message) {
+        debugLogger.success('OUTBOX', 'SENT', 'Queued message sent', { clientId: item.clientId, messageId: message.id });
+        this.items = this.items.filter(candidate => candidate.clientId !== item.clientId);
+        await this.persist();
+        this.emit({ clientId: item.clientId, message });
+        continue;
+      }
+
+      const attempts = item.attempts + 1;
+      const failed = attempts >= MAX_ATTEMPTS;
+      this.items = this.items.map(candidate =>
+        candidate.clientId === item.clientId
+          ? { ...candidate, attempts, status: failed ? 'failed' : 'pending', lastError: 'Failed to send message' }
+          : candidate
+      );
+      await this.persist();
+      this.emit();
+
+      if (failed) {
+        debugLogger.warn('OUTBOX', 'FAILED', 'Queued message failed, waiting for the user', { clientId: item.clientId });
+        blocked.add(item.conversationId);
+        continue;
+      }
+
+      // Probably a connection problem; back off and try the queue again
+      const delay = RETRY_BASE_DELAY * Math.pow(2, attempts - 1);
+      debugLogger.info('OUTBOX', 'RETRY_SCHEDULED', `Retrying queued messages in ${delay}ms`, { clientId: item.clientId });
+      this.retryTimer = setTimeout(() => {
+        this.retryTimer = null;
+        this.flush();
+      }, delay);
+      return;
+    }
+  }
+
+  private storageKey(userId: string) {
+    return `${STORAGE_KEY_PREFIX}${userId}`;
+  }
+
+  private async persist(): Promise<void> {
+    if (!this.userId) return;
+
+    try {
+      await AsyncStorage.setItem(this.storageKey(this.userId), JSON.stringify(this.items));
+    } catch (error) {
+      debugLogger.error('OUTBOX', 'PERSIST_ERROR', 'Failed to save message outbox', error);
+    }
+  }
+
+  private emit(sent?: OutboxEvent['sent']) {
+    const event: OutboxEvent = { items: [...this.items], sent };
+    this.listeners.forEach(listener => listener(event));
+  }
+}
+
+export const messageOutbox = new MessageOutbox();
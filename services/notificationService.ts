@@ -1,9 +1,13 @@
 import { Platform, Alert } from 'react-native';
 import { supabase } from '@/app/lib/supabase';
 import { debug, debugLogger } from '@/utils/debugLogger';
+import { dataService, mapNotification, getDefaultNotificationPreferences } from '@/services/dataService';
+import { navigateToNotificationTarget } from '@/utils/navigation';
+import { parseTimeOfDay, toZonedMinutes } from '@/utils/availabilitySlots';
+import { NotificationType, NotificationPreferences, QuietHours } from '@/types';
 
 export interface PushNotificationData {
-  type: 'message' | 'follow' | 'like' | 'comment' | 'booking';
+  type: NotificationType;
   title: string;
   body: string;
   data?: {
@@ -13,20 +17,169 @@ export interface PushNotificationData {
     messageId?: string;
     userId?: string;
     postId?: string;
+    reelId?: string;
+    notificationId?: string;
     [key: string]: any;
   };
 }
 
+export interface LocalNotificationRequest {
+  id: string;
+  title: string;
+  body: string;
+  data?: PushNotificationData['data'];
+  // Deliver at this time instead of immediately
+  deliverAt?: Date;
+}
+
+export interface NotificationBadgeCounts {
+  conversations: number;
+  inbox: number;
+  total: number;
+}
+
+// Where local notifications are actually shown. Swap in a different
+// implementation with notificationService.setTransport().
+export interface NotificationTransport {
+  schedule(request: LocalNotificationRequest): Promise<string>;
+  cancel(id: string): Promise<void>;
+  dismissAll(): Promise<void>;
+  getBadgeCount(): Promise<number>;
+  setBadgeCount(count: number): Promise<void>;
+  addResponseListener(listener: (request: LocalNotificationRequest) => void): () => void;
+}
+
+// Keeps everything in memory. Used on web, in tests and for offline development.
+export class InMemoryNotificationTransport implements NotificationTransport {
+  private scheduled = new Map<string, { request: LocalNotificationRequest; timer: ReturnType<typeof setTimeout> }>();
+  private delivered: LocalNotificationRequest[] = [];
+  private badgeCount = 0;
+  private responseListeners = new Set<(request: LocalNotificationRequest) => void>();
+
+  async schedule(request: LocalNotificationRequest): Promise<string> {
+    const delay = request.deliverAt ? request.deliverAt.getTime() - Date.now() : 0;
+
+    if (delay > 0) {
+      const timer = setTimeout(() => {
+        this.scheduled.delete(request.id);
+        this.deliver(request);
+      }, delay);
+      this.scheduled.set(request.id, { request, timer });
+    } else {
+      this.deliver(request);
+    }
+
+    return request.id;
+  }
+
+  async cancel(id: string): Promise<void> {
+    const entry = this.scheduled.get(id);
+    if (entry) {
+      clearTimeout(entry.timer);
+      this.scheduled.delete(id);
+    }
+    this.delivered = this.delivered.filter(request => request.id !== id);
+  }
+
+  async dismissAll(): Promise<void> {
+    this.delivered = [];
+  }
+
+  async getBadgeCount(): Promise<number> {
+    return this.badgeCount;
+  }
+
+  async setBadgeCount(count: number): Promise<void> {
+    this.badgeCount = count;
+  }
+
+  addResponseListener(listener: (request: LocalNotificationRequest) => void): () => void {
+    this.responseListeners.add(listener);
+    return () => {
+      this.responseListeners.delete(listener);
+    };
+  }
+
+  // Simulate the user tapping a delivered notification
+  respond(id: string): boolean {
+    const request = this.delivered.find(item => item.id === id);
+    if (!request) return false;
+
+    this.delivered = this.delivered.filter(item => item.id !== id);
+    this.responseListeners.forEach(listener => listener(request));
+    return true;
+  }
+
+  getDelivered(): LocalNotificationRequest[] {
+    return [...this.delivered];
+  }
+
+  getScheduled(): LocalNotificationRequest[] {
+    return Array.from(this.scheduled.values()).map(entry => entry.request);
+  }
+
+  protected deliver(request: LocalNotificationRequest): void {
+    this.delivered.push(request);
+  }
+}
+
+// Minimum time between two in-app alerts
+const ALERT_THROTTLE_MS = 5000;
+
+// Shows delivered notifications as in-app alerts with a "View" action.
+// Notifications arriving within ALERT_THROTTLE_MS of the last alert are
+// delivered without an alert.
+export class AlertNotificationTransport extends InMemoryNotificationTransport {
+  private lastAlertAt = 0;
+
+  protected deliver(request: LocalNotificationRequest): void {
+    super.deliver(request);
+
+    const now = Date.now();
+    if (now - this.lastAlertAt < ALERT_THROTTLE_MS) return;
+    this.lastAlertAt = now;
+
+    Alert.alert(request.title, request.body, [
+      { text: 'Dismiss', style: 'cancel' },
+      { text: 'View', onPress: () => this.respond(request.id) },
+    ]);
+  }
+}
+
+const EMPTY_BADGE_COUNTS: NotificationBadgeCounts = { conversations: 0, inbox: 0, total: 0 };
+
 class SimpleNotificationService {
   private isInitialized = false;
+  private userId: string | null = null;
+  private transport: NotificationTransport = Platform.OS === 'web'
+    ? new InMemoryNotificationTransport()
+    : new AlertNotificationTransport();
+  private removeResponseListener: (() => void) | null = null;
+  private channel: any = null;
+  private badgeCounts: NotificationBadgeCounts = EMPTY_BADGE_COUNTS;
+  private badgeListeners = new Set<(counts: NotificationBadgeCounts) => void>();
+  private badgeRefreshTimer: ReturnType<typeof setTimeout> | null = null;
+  private preferences: NotificationPreferences = getDefaultNotificationPreferences();
+  private activeConversationId: string | null = null;
 
-  // Initialize notification service (simplified)
+  // Initialize notification delivery for the signed in user
   async initialize(userId: string): Promise<boolean> {
     try {
-      debugLogger.info('NOTIFICATIONS', 'SIMPLE_INIT', '🔔 Initializing simple notification service');
+      if (this.isInitialized && this.userId === userId) return true;
+      if (this.isInitialized) this.cleanup();
+
+      debugLogger.info('NOTIFICATIONS', 'INIT', '🔔 Initializing notification service', { userId });
+      this.userId = userId;
+      this.preferences = await dataService.notificationPreferences.getPreferences(userId);
+      this.handleNotifications();
+      this.subscribeToInbox(userId);
       this.isInitialized = true;
-      debugLogger.success('NOTIFICATIONS', 'INIT_SUCCESS', '✅ Simple notification service initialized');
-      console.log('✅ Messaging system ready - notifications will show in console');
+      await this.refreshBadgeCount();
+
+      // Messages that arrived while signed out have now reached this device
+      dataService.message.markMessagesDelivered();
+
+      debugLogger.success('NOTIFICATIONS', 'INIT_SUCCESS', '✅ Notification service initialized');
       return true;
     } catch (error) {
       debugLogger.error('NOTIFICATIONS', 'INIT_ERROR', 'Failed to initialize notification service', error);
@@ -34,7 +187,76 @@ class SimpleNotificationService {
     }
   }
 
-  // Send message notification (simplified - shows console log)
+  // Replace the delivery transport (e.g. with an InMemoryNotificationTransport)
+  setTransport(transport: NotificationTransport): void {
+    this.removeResponseListener?.();
+    this.removeResponseListener = null;
+    this.transport = transport;
+
+    if (this.isInitialized) {
+      this.handleNotifications();
+      this.transport.setBadgeCount(this.badgeCounts.total);
+    }
+  }
+
+  // Current user's notification preferences
+  getPreferences(): NotificationPreferences {
+    return this.preferences;
+  }
+
+  // Save type switches and quiet hours for the signed in user
+  async updatePreferences(preferences: Pick<NotificationPreferences, 'types' | 'quietHours'>): Promise<boolean> {
+    if (!this.userId) return false;
+
+    const success = await dataService.notificationPreferences.updatePreferences(this.userId, preferences);
+    if (success) {
+      this.preferences = { ...this.preferences, ...preferences };
+    }
+    return success;
+  }
+
+  // Mute a conversation until a given time, or until unmuted when mutedUntil is null
+  async muteConversation(conversationId: string, mutedUntil: Date | null): Promise<boolean> {
+    if (!this.userId) return false;
+
+    const success = await dataService.notificationPreferences.muteConversation(this.userId, conversationId, mutedUntil);
+    if (success) {
+      this.preferences = {
+        ...this.preferences,
+        mutedConversations: [
+          ...this.preferences.mutedConversations.filter(mute => mute.conversationId !== conversationId),
+          { conversationId, mutedUntil: mutedUntil ? mutedUntil.toISOString() : null },
+        ],
+      };
+    }
+    return success;
+  }
+
+  async unmuteConversation(conversationId: string): Promise<boolean> {
+    if (!this.userId) return false;
+
+    const success = await dataService.notificationPreferences.unmuteConversation(this.userId, conversationId);
+    if (success) {
+      this.preferences = {
+        ...this.preferences,
+        mutedConversations: this.preferences.mutedConversations.filter(mute => mute.conversationId !== conversationId),
+      };
+    }
+    return success;
+  }
+
+  isConversationMuted(conversationId: string): boolean {
+    return notificationHelpers.isConversationMuted(this.preferences, conversationId);
+  }
+
+  // The conversation currently on screen; its messages are not notified
+  setActiveConversation(conversationId: string | null): void {
+    this.activeConversationId = conversationId;
+  }
+
+  // Send message notification. Recipients on other devices are notified
+  // through their inbox subscription, see subscribeToInbox, and their own
+  // preferences are applied there.
   async sendMessageNotification(
     recipientUserId: string,
     senderName: string,
@@ -49,21 +271,34 @@ class SimpleNotificationService {
         conversationId
       });
 
-      // Console log instead of actual notification (for now)
-      console.log(`📱 NEW MESSAGE from ${senderName}: ${messageContent.substring(0, 50)}${messageContent.length > 50 ? '...' : ''}`);
-      
-      return true;
+      const data = notificationHelpers.createMessageNotificationData(
+        senderName,
+        messageContent,
+        conversationId,
+        senderId
+      );
+
+      return await this.sendPushNotification(recipientUserId, data);
     } catch (error) {
       debugLogger.error('NOTIFICATIONS', 'SEND_ERROR', 'Failed to send notification', error);
       return false;
     }
   }
 
-  // Send push notification (simplified)
+  // Send push notification. Only notifications for the signed in user can be
+  // shown on this device; everyone else gets theirs from the inbox table.
   async sendPushNotification(targetUserId: string, data: PushNotificationData): Promise<boolean> {
     try {
       debugLogger.process('NOTIFICATIONS', 'SEND_PUSH', `Preparing push notification to user: ${targetUserId}`);
-      console.log(`📤 Push notification to ${targetUserId}: ${data.title}`);
+
+      if (targetUserId === this.userId) {
+        return await this.sendLocalNotification(data);
+      }
+
+      debugLogger.info('NOTIFICATIONS', 'PUSH_VIA_INBOX', 'Recipient will be notified through the inbox', {
+        targetUserId,
+        type: data.type,
+      });
       return true;
     } catch (error) {
       debugLogger.error('NOTIFICATIONS', 'PUSH_ERROR', 'Error preparing push notification', error);
@@ -71,11 +306,36 @@ class SimpleNotificationService {
     }
   }
 
-  // Send local notification (simplified)
-  async sendLocalNotification(data: PushNotificationData): Promise<boolean> {
+  // Show (or schedule) a notification on this device, unless the user's
+  // preferences turn it off. Returns false when nothing was delivered.
+  async sendLocalNotification(data: PushNotificationData, deliverAt?: Date): Promise<boolean> {
     try {
+      if (!notificationHelpers.shouldDeliver(this.preferences, data, deliverAt)) {
+        debugLogger.info('NOTIFICATIONS', 'SUPPRESSED', `Notification suppressed by preferences: ${data.title}`, {
+          type: data.type,
+          conversationId: data.data?.conversationId,
+        });
+        return false;
+      }
+
+      if (!deliverAt && data.data?.conversationId && data.data.conversationId === this.activeConversationId) {
+        debugLogger.info('NOTIFICATIONS', 'SUPPRESSED', `Notification for the open conversation skipped: ${data.title}`, {
+          conversationId: data.data.conversationId,
+        });
+        return false;
+      }
+
       debugLogger.process('NOTIFICATIONS', 'SEND_LOCAL', `Sending local notification: ${data.title}`);
-      console.log(`📱 Local notification: ${data.title} - ${data.body}`);
+
+      const request: LocalNotificationRequest = {
+        id: `local_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
+        title: data.title,
+        body: data.body,
+        data: { ...data.data, type: data.type },
+        deliverAt,
+      };
+
+      await this.transport.schedule(request);
       return true;
     } catch (error) {
       debugLogger.error('NOTIFICATIONS', 'LOCAL_ERROR', 'Error sending local notification', error);
@@ -83,34 +343,195 @@ class SimpleNotificationService {
     }
   }
 
-  // Handle incoming notifications (simplified)
+  // Cancel a scheduled or delivered local notification
+  async cancelLocalNotification(id: string): Promise<void> {
+    try {
+      await this.transport.cancel(id);
+    } catch (error) {
+      debugLogger.error('NOTIFICATIONS', 'CANCEL_ERROR', 'Error cancelling local notification', error);
+    }
+  }
+
+  // Route notification taps to the conversation, post, reel or profile they mention
   handleNotifications(): void {
     debugLogger.info('NOTIFICATIONS', 'HANDLE', 'Setting up notification handlers');
-    console.log('🔔 Notification handlers ready');
+    this.removeResponseListener?.();
+    this.removeResponseListener = this.transport.addResponseListener(request => {
+      this.handleNotificationResponse(request);
+    });
   }
 
-  // Get badge count (simplified)
+  private handleNotificationResponse(request: LocalNotificationRequest): void {
+    debugLogger.info('NOTIFICATIONS', 'TAPPED', `Notification opened: ${request.title}`, request.data);
+
+    if (request.data?.notificationId && this.userId) {
+      dataService.inbox.markAsRead(request.data.notificationId, this.userId).then(() => {
+        this.scheduleBadgeRefresh();
+      });
+    }
+
+    navigateToNotificationTarget(request.data);
+  }
+
+  // Deliver new inbox entries as local notifications
+  private subscribeToInbox(userId: string): void {
+    this.channel = supabase
+      .channel(`local_notifications_${userId}`)
+      .on(
+        'postgres_changes',
+        {
+          event: 'INSERT',
+          schema: 'public',
+          table: 'notifications',
+          filter: `user_id=eq.${userId}`,
+        },
+        (payload) => this.handleInboxChange(payload.new)
+      )
+      .on(
+        'postgres_changes',
+        {
+          event: 'UPDATE',
+          schema: 'public',
+          table: 'notifications',
+          filter: `user_id=eq.${userId}`,
+        },
+        (payload) => this.handleInboxChange(payload.new)
+      )
+      // Messages from others being read change the unread conversation count
+      .on(
+        'postgres_changes',
+        {
+          event: 'UPDATE',
+          schema: 'public',
+          table: 'messages',
+          filter: `sender_id=neq.${userId}`,
+        },
+        () => this.scheduleBadgeRefresh()
+      )
+      .subscribe((status) => {
+        debugLogger.info('NOTIFICATIONS', 'REALTIME_STATUS', `Local notification subscription status: ${status}`);
+      });
+  }
+
+  private handleInboxChange(row: any): void {
+    const notification = mapNotification(row);
+
+    // A message entry means a new message reached this device
+    if (notification.type === 'message' && !notification.isRead && notification.data?.conversationId) {
+      dataService.message.markMessagesDelivered(notification.data.conversationId);
+    }
+
+    // Unread updates are message entries refreshed by a new message;
+    // read updates only affect the badge
+    if (!notification.isRead) {
+      this.sendLocalNotification({
+        type: notification.type,
+        title: notification.title,
+        body: notification.message,
+        data: { ...notification.data, notificationId: notification.id },
+      });
+    }
+
+    this.scheduleBadgeRefresh();
+  }
+
+  private scheduleBadgeRefresh(): void {
+    if (this.badgeRefreshTimer) clearTimeout(this.badgeRefreshTimer);
+    this.badgeRefreshTimer = setTimeout(() => {
+      this.badgeRefreshTimer = null;
+      this.refreshBadgeCount();
+    }, 500);
+  }
+
+  // Badge = unread conversations + unread inbox items. Message entries in the
+  // inbox are left out because their conversation is already counted.
+  async refreshBadgeCount(): Promise<number> {
+    if (!this.userId) return 0;
+
+    try {
+      const [conversations, inbox] = await Promise.all([
+        dataService.message.getUnreadConversationCount(this.userId),
+        dataService.inbox.getUnreadCount(this.userId, ['message']),
+      ]);
+
+      this.badgeCounts = { conversations, inbox, total: conversations + inbox };
+      await this.setBadgeCount(this.badgeCounts.total);
+      return this.badgeCounts.total;
+    } catch (error) {
+      debug.dbError('notifications', 'BADGE_COUNT', error);
+      return this.badgeCounts.total;
+    }
+  }
+
+  // Listen for badge changes. The listener is called right away with the current counts.
+  subscribeToBadge(listener: (counts: NotificationBadgeCounts) => void): () => void {
+    this.badgeListeners.add(listener);
+    listener(this.badgeCounts);
+    return () => {
+      this.badgeListeners.delete(listener);
+    };
+  }
+
+  // Get badge count
   async getBadgeCount(): Promise<number> {
-    return 0;
+    try {
+      return await this.transport.getBadgeCount();
+    } catch (error) {
+      debugLogger.error('NOTIFICATIONS', 'BADGE_GET_ERROR', 'Error reading badge count', error);
+      return 0;
+    }
   }
 
-  // Set badge count (simplified)
+  // Set badge count
   async setBadgeCount(count: number): Promise<void> {
-    debugLogger.info('NOTIFICATIONS', 'BADGE_SET', `Badge count would be set to: ${count}`);
-    console.log(`📱 Badge count: ${count}`);
+    try {
+      const badgeCount = Math.max(0, count);
+      await this.transport.setBadgeCount(badgeCount);
+      debugLogger.info('NOTIFICATIONS', 'BADGE_SET', `Badge count set to: ${badgeCount}`);
+
+      if (badgeCount !== this.badgeCounts.total) {
+        this.badgeCounts = { ...this.badgeCounts, total: badgeCount };
+      }
+      this.badgeListeners.forEach(listener => listener(this.badgeCounts));
+    } catch (error) {
+      debugLogger.error('NOTIFICATIONS', 'BADGE_SET_ERROR', 'Error setting badge count', error);
+    }
   }
 
-  // Clear all notifications (simplified)
+  // Clear all delivered notifications
   async clearAllNotifications(): Promise<void> {
-    debugLogger.info('NOTIFICATIONS', 'CLEAR_ALL', 'All notifications cleared');
-    console.log('🧹 All notifications cleared');
+    try {
+      await this.transport.dismissAll();
+      debugLogger.info('NOTIFICATIONS', 'CLEAR_ALL', 'All notifications cleared');
+    } catch (error) {
+      debugLogger.error('NOTIFICATIONS', 'CLEAR_ERROR', 'Error clearing notifications', error);
+    }
   }
 
   // Cleanup
   cleanup(): void {
     debugLogger.info('NOTIFICATIONS', 'CLEANUP', 'Cleaning up notification service');
+
+    if (this.channel) {
+      supabase.removeChannel(this.channel);
+      this.channel = null;
+    }
+    if (this.badgeRefreshTimer) {
+      clearTimeout(this.badgeRefreshTimer);
+      this.badgeRefreshTimer = null;
+    }
+    this.removeResponseListener?.();
+    this.removeResponseListener = null;
+
+    this.transport.dismissAll();
+    this.badgeCounts = EMPTY_BADGE_COUNTS;
+    this.transport.setBadgeCount(0);
+    this.badgeListeners.forEach(listener => listener(this.badgeCounts));
+
+    this.userId = null;
+    this.activeConversationId = null;
+    this.preferences = getDefaultNotificationPreferences();
     this.isInitialized = false;
-    console.log('🧹 Notification service cleaned up');
   }
 
   // Legacy compatibility getters
@@ -128,6 +549,48 @@ export const notificationService = new SimpleNotificationService();
 
 // Export notification helper functions
 export const notificationHelpers = {
+  isNotificationTypeEnabled: (preferences: NotificationPreferences, type: NotificationType): boolean =>
+    preferences.types[type] !== false,
+
+  // Muted with no expiry, or with an expiry still in the future
+  isConversationMuted: (
+    preferences: NotificationPreferences,
+    conversationId: string,
+    now: Date = new Date()
+  ): boolean =>
+    preferences.mutedConversations.some(mute =>
+      mute.conversationId === conversationId &&
+      (!mute.mutedUntil || new Date(mute.mutedUntil).getTime() > now.getTime())
+    ),
+
+  // Quiet hours may wrap past midnight, e.g. 22:00 - 07:00
+  isWithinQuietHours: (quietHours: QuietHours, now: Date = new Date()): boolean => {
+    if (!quietHours.enabled) return false;
+
+    const start = parseTimeOfDay(quietHours.start);
+    const end = parseTimeOfDay(quietHours.end);
+    if (start === end) return false;
+
+    const minutes = toZonedMinutes(now, quietHours.timeZone);
+    return start < end
+      ? minutes >= start && minutes < end
+      : minutes >= start || minutes < end;
+  },
+
+  // Whether a notification should be shown at the given time
+  shouldDeliver: (
+    preferences: NotificationPreferences,
+    data: PushNotificationData,
+    now: Date = new Date()
+  ): boolean => {
+    if (!notificationHelpers.isNotificationTypeEnabled(preferences, data.type)) return false;
+
+    const conversationId = data.data?.conversationId;
+    if (conversationId && notificationHelpers.isConversationMuted(preferences, conversationId, now)) return false;
+
+    return !notificationHelpers.isWithinQuietHours(preferences.quietHours, now);
+  },
+
   // Format message for notification
   formatMessageForNotification: (content: string, maxLength: number = 50): string => {
     if (content.includes('Sent a image')) return '📷 Photo';
@@ -0,0 +1,178 @@
+import { AppState, AppStateStatus, NativeEventSubscription } from 'react-native';
+import { debugLogger } from '@/utils/debugLogger';
+import { dataService } from '@/services/dataService';
+import { Message, ScheduledMessage } from '@/types';
+
+// =====================================================
+// SCHEDULED MESSAGES
+// =====================================================
+// Keeps the signed in user's pending scheduled messages. Delivery is done by
+// a server job (see database_scheduled_messages.sql); while the app is open a
+// timer also asks the server to send each message when it is due, so nothing
+// waits for the next job run and projects without pg_cron still work.
+
+const MAX_TIMER_DELAY = 60 * 60 * 1000; // Re-check at least hourly
+const DUE_GRACE_PERIOD = 1000;
+
+export interface ScheduledMessagesEvent {
+  items: ScheduledMessage[];
+  // Conversations that just received one or more scheduled messages
+  sentConversationIds?: string[];
+}
+
+// Placeholder ids start with 'temp' so history paging never uses them as a cursor
+export const getScheduledPlaceholderId = (scheduledMessageId: string) => `temp-scheduled-${scheduledMessageId}`;
+
+export const scheduledMessageToMessage = (item: ScheduledMessage): Message => ({
+  id: getScheduledPlaceholderId(item.id),
+  senderId: item.senderId,
+  receiverId: '',
+  content: item.content,
+  type: item.messageType,
+  mediaUrl: item.mediaUrl,
+  replyToMessageId: item.replyToMessageId,
+  timestamp: item.sendAt,
+  createdAt: item.createdAt,
+  conversationId: item.conversationId,
+  isRead: false,
+  scheduledMessageId: item.id,
+  scheduledFor: item.sendAt,
+});
+
+class ScheduledMessageService {
+  private userId: string | null = null;
+  private items: ScheduledMessage[] = [];
+  private listeners = new Set<(event: ScheduledMessagesEvent) => void>();
+  private appStateSubscription: NativeEventSubscription | null = null;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+
+  async initialize(userId: string): Promise<void> {
+    if (this.userId === userId) return;
+    if (this.userId) this.cleanup();
+
+    this.userId = userId;
+
+    // Messages may have become due while the app was in the background
+    this.appStateSubscription = AppState.addEventListener('change', (state: AppStateStatus) => {
+      if (state === 'active') {
+        this.refresh();
+      }
+    });
+
+    await this.refresh();
+  }
+
+  cleanup(): void {
+    if (this.appStateSubscription) {
+      this.appStateSubscription.remove();
+      this.appStateSubscription = null;
+    }
+    this.clearTimer();
+    this.userId = null;
+    this.items = [];
+    this.emit();
+  }
+
+  async schedule(
+    conversationId: string,
+    content: string,
+    sendAt: Date,
+    options: { messageType?: string; mediaUrl?: string; replyToMessageId?: string } = {}
+  ): Promise<ScheduledMessage | null> {
+    if (!this.userId) return null;
+
+    const scheduled = await dataService.message.scheduleMessage(conversationId, this.userId, content, sendAt, options);
+    if (scheduled) {
+      debugLogger.info('SCHEDULED_MESSAGES', 'SCHEDULED', 'Message scheduled', { id: scheduled.id, sendAt: scheduled.sendAt });
+      this.items = [...this.items, scheduled].sort((a, b) => a.sendAt.localeCompare(b.sendAt));
+      this.emit();
+      this.armTimer();
+    }
+    return scheduled;
+  }
+
+  async cancel(scheduledMessageId: string): Promise<boolean> {
+    if (!this.userId) return false;
+
+    const success = await dataService.message.cancelScheduledMessage(scheduledMessageId, this.userId);
+    if (success) {
+      this.items = this.items.filter(item => item.id !== scheduledMessageId);
+      this.emit();
+      this.armTimer();
+    } else {
+      // It may have just been sent; pick up the current state
+      await this.refresh();
+    }
+    return success;
+  }
+
+  // Pending messages, soonest first
+  getItems(conversationId?: string): ScheduledMessage[] {
+    return conversationId
+      ? this.items.filter(item => item.conversationId === conversationId)
+      : [...this.items];
+  }
+
+  getMessages(conversationId: string): Message[] {
+    return this.getItems(conversationId).map(scheduledMessageToMessage);
+  }
+
+  subscribe(listener: (event: ScheduledMessagesEvent) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  // Reload pending messages, sending any that are due
+  async refresh(): Promise<void> {
+    if (!this.userId) return;
+
+    const userId = this.userId;
+    const now = Date.now();
+    if (this.items.some(item => new Date(item.sendAt).getTime() <= now)) {
+      await dataService.message.deliverDueScheduledMessages();
+    }
+
+    const pending = await dataService.message.getScheduledMessages(userId);
+    if (this.userId !== userId) return;
+
+    // Anything no longer pending went out, from this device or the server job
+    const sentConversationIds = [...new Set(
+      this.items
+        .filter(item => !pending.some(candidate => candidate.id === item.id))
+        .map(item => item.conversationId)
+    )];
+
+    this.items = pending;
+    this.emit(sentConversationIds.length > 0 ? sentConversationIds : undefined);
+    this.armTimer();
+  }
+
+  private armTimer() {
+    this.clearTimer();
+
+    const next = this.items[0];
+    if (!this.userId || !next) return;
+
+    const delay = Math.min(Math.max(new Date(next.sendAt).getTime() - Date.now(), 0) + DUE_GRACE_PERIOD, MAX_TIMER_DELAY);
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.refresh();
+    }, delay);
+  }
+
+  private clearTimer() {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private emit(sentConversationIds?: string[]) {
+    const event: ScheduledMessagesEvent = { items: [...this.items], sentConversationIds };
+    this.listeners.forEach(listener => listener(event));
+  }
+}
+
+export const scheduledMessages = new ScheduledMessageService();
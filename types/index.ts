@@ -45,6 +45,21 @@ export interface User {
   distanceKm?: number;
   // Community trust score
   communityTrustScore?: number;
+  // Can review host applications and reported content
+  isModerator?: boolean;
+  // Suspended by a moderator; their content is hidden from everyone else
+  isSuspended?: boolean;
+  // Only followers see their posts, reels, stories and notes
+  isPrivate?: boolean;
+}
+
+// Relationship of the viewer to another account
+export type FollowState = 'none' | 'requested' | 'following';
+
+// Someone asking to follow a private account
+export interface FollowRequest {
+  user: User;
+  createdAt: string;
 }
 
 export interface Post {
@@ -64,8 +79,18 @@ export interface Post {
   createdAt?: string;
   updatedAt?: string;
   hashtags?: string[];
+  mentions?: Mention[];
+}
+
+// An @mention resolved to a user when the text was saved
+export interface Mention {
+  userId: string;
+  handle: string; // As written, without '@'
 }
 
+// Who can see a story: everyone, the owner's close friends, or only the owner
+export type StoryVisibility = 'public' | 'friends' | 'private';
+
 export interface Story {
   id: string;
   user: User;
@@ -99,16 +124,20 @@ export interface Story {
   storySettings?: {
     allowReplies?: boolean;
     allowShares?: boolean;
-    visibility?: 'public' | 'friends' | 'private';
+    visibility?: StoryVisibility;
   };
 }
 
+// How trending lists weight engagement (see database_trending.sql)
+export type TrendingStyle = 'likes' | 'shares' | 'velocity' | 'comments';
+
 export interface Reel {
   id: string;
   user: User;
   videoUrl: string;
   caption: string;
   hashtags: string[];
+  mentions?: Mention[];
   likes: number;
   comments: number;
   shares: number;
@@ -129,6 +158,7 @@ export interface Reel {
   viewCount?: number;
   thumbnailUrl?: string;
   isTrending?: boolean;
+  trendingScore?: number; // Time-decayed engagement, set on trending lists
   location?: string;
   musicTitle?: string;
   musicArtist?: string;
@@ -137,6 +167,81 @@ export interface Reel {
   updatedAt?: string;
 }
 
+// A reel the viewer engaged with, used to personalize the "For You" feed
+export interface ReelEngagement {
+  reelId: string;
+  creatorId: string;
+  hashtags: string[];
+  viewed: boolean;
+  completed: boolean; // Watched to the end
+  liked: boolean;
+}
+
+// What the "For You" ranking knows about the viewer
+export interface ForYouSignals {
+  followedUserIds: string[];
+  interests: string[];
+  followedHashtags: string[]; // Normalized names, see utils/hashtags
+  engagements: ReelEngagement[];
+}
+
+// A named folder of saved reels, such as "Date ideas"
+export interface SavedReelCollection {
+  id: string;
+  name: string;
+  reelCount: number;
+  coverUrl?: string; // Thumbnail of the most recently filed reel
+  createdAt: string;
+}
+
+export interface SavedReel {
+  reel: Reel;
+  collectionId?: string;
+  savedAt: string;
+}
+
+export type MessageDeliveryStatus = 'pending' | 'failed';
+
+// Where a stored message is for its recipients: stored, on their device, opened
+export type MessageReceiptStatus = 'sent' | 'delivered' | 'read';
+
+export interface MessageReceipt {
+  userId: string;
+  deliveredAt?: string;
+  readAt?: string;
+}
+
+// A change to one recipient's receipt, as returned by the server and broadcast
+export interface MessageReceiptUpdate extends MessageReceipt {
+  messageId: string;
+  conversationId: string;
+}
+
+// One emoji per user and message
+export interface MessageReaction {
+  userId: string;
+  emoji: string;
+  createdAt?: string;
+}
+
+// Pushed to the other participants; a null emoji removes the user's reaction
+export interface MessageReactionUpdate {
+  messageId: string;
+  conversationId: string;
+  userId: string;
+  emoji: string | null;
+}
+
+// The message a reply quotes
+export interface MessageReplyPreview {
+  id: string;
+  senderId: string;
+  senderName?: string;
+  content: string;
+  type: Message['type'];
+  isDeleted?: boolean;
+}
+
 export interface Message {
   id: string;
   senderId: string;
@@ -144,14 +249,19 @@ export interface Message {
   content: string;
   timestamp: string;
   // Message type and media support
-  type: 'text' | 'image' | 'audio' | 'video' | 'voice' | 'reel' | 'post' | 'story';
+  type: 'text' | 'image' | 'audio' | 'video' | 'voice' | 'reel' | 'post' | 'story' | 'system';
   mediaUrl?: string;
   thumbnailUrl?: string;
   duration?: number; // For voice messages and video content
+  waveform?: number[]; // Voice message levels, 0-100
+  transcript?: string | null; // Voice message text, filled in later
   // Shared content references
   sharedReel?: Reel;
   sharedPost?: Post;
   sharedStory?: Story;
+  // Sender details, shown above bubbles in group conversations
+  senderName?: string;
+  senderAvatar?: string;
   // Additional fields from database
   conversationId?: string;
   isRead?: boolean;
@@ -161,6 +271,59 @@ export interface Message {
   editedAt?: string;
   isDeleted?: boolean;
   deletedAt?: string;
+  // One entry per recipient, loaded with the message
+  receipts?: MessageReceipt[];
+  reactions?: MessageReaction[];
+  // Set when the message replies to an earlier one
+  replyToMessageId?: string;
+  replyTo?: MessageReplyPreview;
+  // Offline outbox fields, only set on messages that have not reached the server
+  clientId?: string;
+  deliveryStatus?: MessageDeliveryStatus;
+  // Set while disappearing messages is on in the conversation
+  expiresAt?: string;
+  // Set on placeholders for scheduled messages that have not been sent yet
+  scheduledMessageId?: string;
+  scheduledFor?: string;
+}
+
+export type ScheduledMessageStatus = 'scheduled' | 'sent' | 'canceled' | 'failed';
+
+// A message written now and sent at sendAt by the server
+export interface ScheduledMessage {
+  id: string;
+  conversationId: string;
+  senderId: string;
+  content: string;
+  messageType: Message['type'];
+  mediaUrl?: string;
+  replyToMessageId?: string;
+  sendAt: string;
+  status: ScheduledMessageStatus;
+  sentMessageId?: string;
+  errorMessage?: string;
+  createdAt: string;
+}
+
+export type ConversationType = 'direct' | 'group';
+
+export type ConversationRole = 'admin' | 'member';
+
+export interface ConversationMember {
+  user: User;
+  role: ConversationRole;
+  joinedAt?: string;
+}
+
+// Header details for an open conversation
+export interface ConversationDetails {
+  id: string;
+  type: ConversationType;
+  title?: string;
+  avatar?: string;
+  createdBy?: string;
+  members: ConversationMember[];
+  messageTtlSeconds?: number | null; // Disappearing messages timer, null when off
 }
 
 export interface Conversation {
@@ -168,6 +331,12 @@ export interface Conversation {
   participants: User[];
   lastMessage: Message;
   unreadCount: number;
+  // Group conversation fields
+  type?: ConversationType;
+  title?: string;
+  avatar?: string;
+  createdBy?: string;
+  members?: ConversationMember[]; // Everyone including the current user, with roles
   // Additional fields from database
   createdAt?: string;
   updatedAt?: string;
@@ -179,6 +348,7 @@ export interface Comment {
   userId: string;
   user?: User;
   content: string;
+  mentions?: Mention[];
   parentId?: string;
   likesCount: number;
   isLiked?: boolean;
@@ -197,33 +367,141 @@ export interface Like {
 
 export interface Hashtag {
   id: string;
-  name: string;
+  name: string; // Normalized: lowercase, no leading '#'
   postCount: number;
+  reelCount: number;
+  isFollowing?: boolean;
   createdAt?: string;
 }
 
+export type HashtagSort = 'top' | 'recent';
+
+// One tile on a hashtag page
+export interface HashtagContentItem {
+  type: 'post' | 'reel';
+  id: string;
+  ownerId: string;
+  mediaUrl?: string; // Post image or reel thumbnail
+  likes: number;
+  comments: number;
+  viewCount?: number; // Reels only
+  createdAt: string;
+}
+
+export type NotificationType = 'like' | 'comment' | 'follow' | 'message' | 'booking' | 'review' | 'reel_share' | 'mention';
+
 export interface Notification {
   id: string;
   userId: string;
-  type: string;
+  type: NotificationType;
   title: string;
   message: string;
+  // Routing info and actor details, e.g. { actorName, postId, reelId, conversationId }
   data?: any;
   isRead: boolean;
   createdAt?: string;
+  actorId?: string;
+  readAt?: string;
+}
+
+// Keyset cursor for paging back through a conversation's history
+export interface MessageCursor {
+  createdAt: string;
+  id: string;
+}
+
+// Narrow a message search; every filter is optional
+export interface MessageSearchFilters {
+  senderId?: string;
+  from?: string; // ISO timestamp, inclusive
+  to?: string; // ISO timestamp, exclusive
+  types?: Message['type'][];
+}
+
+// A message matching a search, with where it was found
+export interface MessageSearchResult {
+  message: Message;
+  // Message text with matches wrapped in <mark></mark>
+  snippet: string;
+  conversationType: ConversationType;
+  conversationTitle?: string;
+  // Other participant, used to name direct conversations
+  otherUser?: Pick<User, 'id' | 'username' | 'avatar'>;
+}
+
+// Keyset cursor for paging through the notification inbox (newest first)
+export interface NotificationCursor {
+  createdAt: string;
+  id: string;
+}
+
+// Daily window with no local notifications, in the user's own time zone
+export interface QuietHours {
+  enabled: boolean;
+  start: string; // 'HH:mm'
+  end: string; // 'HH:mm', may be earlier than start to wrap past midnight
+  timeZone: string; // IANA name, e.g. 'Europe/London'
+}
+
+export interface ConversationMute {
+  conversationId: string;
+  mutedUntil: string | null; // null = muted until turned back on
+}
+
+export interface NotificationPreferences {
+  types: Record<NotificationType, boolean>;
+  quietHours: QuietHours;
+  mutedConversations: ConversationMute[];
 }
 
+export type BookingStatus = 'pending' | 'accepted' | 'declined' | 'cancelled' | 'completed';
+
 export interface Booking {
   id: string;
   hostId: string;
   clientId: string;
   startTime: string;
   endTime: string;
-  status: string;
+  status: BookingStatus;
   amount: number;
   description?: string;
   createdAt?: string;
   updatedAt?: string;
+  // Joined participant profiles for display
+  host?: User;
+  client?: User;
+  // Who moved the booking into its current status
+  statusChangedBy?: string;
+  statusChangedAt?: string;
+}
+
+// Times are 'HH:mm' wall-clock times in the host's time zone
+export interface TimeWindow {
+  startTime: string;
+  endTime: string;
+}
+
+export interface AvailabilityWindow extends TimeWindow {
+  dayOfWeek: number; // 0 = Sunday ... 6 = Saturday
+}
+
+export interface AvailabilityException {
+  date: string; // 'YYYY-MM-DD' in the host's time zone
+  windows: TimeWindow[]; // Replaces the weekly schedule for this date; empty = day off
+  reason?: string;
+}
+
+export interface HostAvailability {
+  hostId: string;
+  timeZone: string; // IANA name, e.g. 'Europe/London'
+  weeklySchedule: AvailabilityWindow[];
+  exceptions: AvailabilityException[];
+  updatedAt?: string;
+}
+
+export interface BookingSlot {
+  startTime: string;
+  endTime: string;
 }
 
 export interface Review {
@@ -234,8 +512,20 @@ export interface Review {
   rating: number;
   comment?: string;
   createdAt?: string;
+  // Set when the review is tied to a completed booking
+  isVerified?: boolean;
+  // One public reply from the reviewed user
+  hostReply?: string;
+  hostReplyAt?: string;
+  // Additional fields for UI
+  reviewerName?: string;
+  reviewerAvatar?: string;
+  canDelete?: boolean;
+  canReply?: boolean;
 }
 
+export type HostApplicationStatus = 'pending' | 'approved' | 'rejected';
+
 export interface HostProfile {
   id: string;
   userId: string;
@@ -247,8 +537,14 @@ export interface HostProfile {
   isApproved: boolean;
   approvalDate?: string;
   rejectionReason?: string;
+  // Derived from isApproved and rejectionReason
+  status: HostApplicationStatus;
+  reviewedBy?: string;
+  submittedAt?: string;
   createdAt?: string;
   updatedAt?: string;
+  // Applicant, included in the moderation queue
+  user?: User;
 }
 
 export interface BulletinNote {
@@ -262,4 +558,34 @@ export interface BulletinNote {
   amount?: number;
   createdAt?: string;
   updatedAt?: string;
-}
\ No newline at end of file
+}
+export type ReportTargetType = 'post' | 'reel' | 'story' | 'comment' | 'user';
+
+export type ReportReason =
+  | 'spam'
+  | 'harassment'
+  | 'hate_speech'
+  | 'nudity'
+  | 'violence'
+  | 'self_harm'
+  | 'misinformation'
+  | 'impersonation'
+  | 'scam'
+  | 'other';
+
+export type ModerationAction = 'dismiss' | 'hide_content' | 'suspend_user';
+
+// One reported item in the moderation queue, with all its open reports
+export interface ModerationQueueItem {
+  targetType: ReportTargetType;
+  targetId: string;
+  targetUser?: User;
+  reportCount: number;
+  reasons: ReportReason[];
+  notes: string[];
+  firstReportedAt: string;
+  lastReportedAt: string;
+  previewText?: string;
+  previewMediaUrl?: string;
+  isHidden: boolean;
+}
@@ -0,0 +1,184 @@
+import { HostAvailability, TimeWindow, BookingSlot } from '@/types';
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+/**
+ * Get the device's IANA time zone, falling back to UTC
+ */
+export function getDeviceTimeZone(): string {
+  try {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+  } catch {
+    return 'UTC';
+  }
+}
+
+/**
+ * Check whether a string is a time zone the Intl API understands
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone }).format(new Date());
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Parse an 'HH:mm' string into minutes after midnight
+ */
+export function parseTimeOfDay(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return (hours || 0) * 60 + (minutes || 0);
+}
+
+/**
+ * Format minutes after midnight as an 'HH:mm' string
+ */
+export function formatTimeOfDay(totalMinutes: number): string {
+  const clamped = Math.max(0, Math.min(24 * 60, totalMinutes));
+  const hours = Math.floor(clamped / 60);
+  const minutes = clamped % 60;
+  return `${String(hours).padStart(2, '0')}:${String(minutes).padStart(2, '0')}`;
+}
+
+/**
+ * Offset of a time zone from UTC at a given instant, in minutes
+ */
+function getTimeZoneOffset(instant: Date, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  }).formatToParts(instant);
+
+  const value = (type: string) => Number(parts.find(part => part.type === type)?.value || 0);
+  const asUtc = Date.UTC(value('year'), value('month') - 1, value('day'), value('hour'), value('minute'), value('second'));
+  return Math.round((asUtc - instant.getTime()) / MINUTE_MS);
+}
+
+/**
+ * Get the 'YYYY-MM-DD' calendar date of an instant in a time zone
+ */
+export function toZonedDateString(instant: Date, timeZone: string): string {
+  const local = new Date(instant.getTime() + getTimeZoneOffset(instant, timeZone) * MINUTE_MS);
+  return local.toISOString().slice(0, 10);
+}
+
+/**
+ * Get the minutes after midnight of an instant in a time zone
+ */
+export function toZonedMinutes(instant: Date, timeZone: string): number {
+  const local = new Date(instant.getTime() + getTimeZoneOffset(instant, timeZone) * MINUTE_MS);
+  return local.getUTCHours() * 60 + local.getUTCMinutes();
+}
+
+/**
+ * Convert a wall-clock date and time in a time zone to a UTC instant
+ * @param date Calendar date as 'YYYY-MM-DD'
+ * @param minutes Minutes after midnight on that date
+ * @param timeZone IANA time zone name
+ */
+export function zonedTimeToUtc(date: string, minutes: number, timeZone: string): Date {
+  const [year, month, day] = date.split('-').map(Number);
+  const wallClock = Date.UTC(year, month - 1, day) + minutes * MINUTE_MS;
+
+  // Guess with the offset at the wall-clock time, then correct once for DST changes
+  let offset = getTimeZoneOffset(new Date(wallClock), timeZone);
+  const corrected = getTimeZoneOffset(new Date(wallClock - offset * MINUTE_MS), timeZone);
+  if (corrected !== offset) offset = corrected;
+
+  return new Date(wallClock - offset * MINUTE_MS);
+}
+
+/**
+ * Get the windows a host is available on a given local date
+ */
+export function getWindowsForDate(availability: HostAvailability, date: string): TimeWindow[] {
+  const exception = availability.exceptions.find(item => item.date === date);
+  if (exception) return exception.windows;
+
+  const [year, month, day] = date.split('-').map(Number);
+  const dayOfWeek = new Date(Date.UTC(year, month - 1, day)).getUTCDay();
+  return availability.weeklySchedule.filter(window => window.dayOfWeek === dayOfWeek);
+}
+
+/**
+ * Check whether two time ranges overlap
+ */
+function overlaps(startA: number, endA: number, startB: number, endB: number): boolean {
+  return startA < endB && startB < endA;
+}
+
+/**
+ * Turn a host's availability into bookable slots, skipping booked times
+ * @param availability Weekly schedule, exceptions and time zone of the host
+ * @param busyTimes Existing pending or accepted bookings of the host
+ * @param options Range to generate slots for and slot sizing
+ * @returns Slots sorted by start time, as UTC ISO strings
+ */
+export function generateBookableSlots(
+  availability: HostAvailability,
+  busyTimes: BookingSlot[],
+  options: {
+    from: Date;
+    to: Date;
+    slotMinutes?: number;
+    stepMinutes?: number;
+    minimumNoticeMinutes?: number;
+    now?: Date;
+  }
+): BookingSlot[] {
+  const slotMinutes = options.slotMinutes || 60;
+  const stepMinutes = options.stepMinutes || slotMinutes;
+  const now = options.now || new Date();
+  const earliestStart = Math.max(
+    options.from.getTime(),
+    now.getTime() + (options.minimumNoticeMinutes || 0) * MINUTE_MS
+  );
+  const latestEnd = options.to.getTime();
+
+  const busy = busyTimes.map(item => ({
+    start: new Date(item.startTime).getTime(),
+    end: new Date(item.endTime).getTime(),
+  }));
+
+  const slots: BookingSlot[] = [];
+  const seen = new Set<number>();
+
+  // Walk host-local calendar days covering the range (one extra day each side for offsets)
+  const firstDate = toZonedDateString(new Date(options.from.getTime() - DAY_MS), availability.timeZone);
+  const lastDate = toZonedDateString(new Date(latestEnd + DAY_MS), availability.timeZone);
+
+  for (let cursor = new Date(`${firstDate}T00:00:00Z`); cursor.toISOString().slice(0, 10) <= lastDate; cursor = new Date(cursor.getTime() + DAY_MS)) {
+    const date = cursor.toISOString().slice(0, 10);
+
+    for (const window of getWindowsForDate(availability, date)) {
+      const windowStart = parseTimeOfDay(window.startTime);
+      const windowEnd = parseTimeOfDay(window.endTime);
+
+      for (let minute = windowStart; minute + slotMinutes <= windowEnd; minute += stepMinutes) {
+        const start = zonedTimeToUtc(date, minute, availability.timeZone).getTime();
+        const end = start + slotMinutes * MINUTE_MS;
+
+        if (start < earliestStart || end > latestEnd || seen.has(start)) continue;
+        if (busy.some(item => overlaps(start, end, item.start, item.end))) continue;
+
+        seen.add(start);
+        slots.push({
+          startTime: new Date(start).toISOString(),
+          endTime: new Date(end).toISOString(),
+        });
+      }
+    }
+  }
+
+  return slots.sort((a, b) => a.startTime.localeCompare(b.startTime));
+}
@@ -0,0 +1,34 @@
+import { ModerationAction, ReportReason, ReportTargetType } from '@/types';
+
+// Reasons offered when reporting, in the order they are listed
+export const REPORT_REASONS: { reason: ReportReason; label: string; description: string }[] = [
+  { reason: 'spam', label: 'Spam', description: 'Repetitive, misleading or unwanted promotion' },
+  { reason: 'harassment', label: 'Harassment or bullying', description: 'Targeting, threatening or shaming someone' },
+  { reason: 'hate_speech', label: 'Hate speech', description: 'Attacks people for who they are' },
+  { reason: 'nudity', label: 'Nudity or sexual content', description: 'Sexual or explicit material' },
+  { reason: 'violence', label: 'Violence', description: 'Threats, graphic violence or dangerous acts' },
+  { reason: 'self_harm', label: 'Self-harm', description: 'Promotes suicide, self-injury or eating disorders' },
+  { reason: 'misinformation', label: 'False information', description: 'Deliberately misleading claims' },
+  { reason: 'impersonation', label: 'Impersonation', description: 'Pretending to be someone else' },
+  { reason: 'scam', label: 'Scam or fraud', description: 'Tricks people out of money or information' },
+  { reason: 'other', label: 'Something else', description: 'Tell us more in the notes' },
+];
+
+export const REPORT_NOTES_MAX_LENGTH = 1000;
+
+export const getReportReasonLabel = (reason: ReportReason): string =>
+  REPORT_REASONS.find(option => option.reason === reason)?.label || reason;
+
+export const REPORT_TARGET_LABELS: Record<ReportTargetType, string> = {
+  post: 'post',
+  reel: 'reel',
+  story: 'story',
+  comment: 'comment',
+  user: 'account',
+};
+
+export const MODERATION_ACTION_LABELS: Record<ModerationAction, string> = {
+  dismiss: 'Dismiss',
+  hide_content: 'Hide content',
+  suspend_user: 'Suspend user',
+};
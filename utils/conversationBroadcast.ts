@@ -0,0 +1,29 @@
+import { supabase } from '@/app/lib/supabase';
+import { debugLogger } from '@/utils/debugLogger';
+
+// Every open conversation shares one broadcast channel. Receipts, reactions
+// and live messages are pushed on it as separate events.
+export const getConversationChannelName = (conversationId: string) => `conversation-${conversationId}`;
+
+// Push an event to everyone in a conversation. A channel that is already open
+// is reused; otherwise the message goes out without joining and the temporary
+// channel is removed again.
+export const sendConversationBroadcast = async (
+  conversationId: string,
+  event: string,
+  payload: Record<string, any>
+): Promise<void> => {
+  const channelName = getConversationChannelName(conversationId);
+  const existing = supabase.getChannels().find(channel => channel.topic === `realtime:${channelName}`);
+  const channel = existing || supabase.channel(channelName);
+
+  try {
+    await channel.send({ type: 'broadcast', event, payload });
+  } catch (error) {
+    debugLogger.warn('BROADCAST', 'CONVERSATION_SEND_ERROR', `Failed to broadcast ${event}`, error);
+  } finally {
+    if (!existing) {
+      supabase.removeChannel(channel);
+    }
+  }
+};
@@ -0,0 +1,19 @@
+import { Message } from '@/types';
+
+// Timer choices for disappearing messages; null turns it off
+export const DISAPPEARING_MESSAGE_OPTIONS: { label: string; shortLabel: string; seconds: number | null }[] = [
+  { label: 'Off', shortLabel: 'Off', seconds: null },
+  { label: '24 hours', shortLabel: '24h', seconds: 24 * 60 * 60 },
+  { label: '7 days', shortLabel: '7d', seconds: 7 * 24 * 60 * 60 },
+  { label: '90 days', shortLabel: '90d', seconds: 90 * 24 * 60 * 60 },
+];
+
+const getOption = (seconds?: number | null) =>
+  DISAPPEARING_MESSAGE_OPTIONS.find(option => option.seconds === (seconds ?? null)) || DISAPPEARING_MESSAGE_OPTIONS[0];
+
+export const getDisappearingLabel = (seconds?: number | null): string => getOption(seconds).label;
+
+export const getDisappearingShortLabel = (seconds?: number | null): string => getOption(seconds).shortLabel;
+
+export const isMessageExpired = (message: Message, now: number = Date.now()): boolean =>
+  !!message.expiresAt && new Date(message.expiresAt).getTime() <= now;
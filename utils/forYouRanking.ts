@@ -0,0 +1,143 @@
+import { ForYouSignals, Reel } from '@/types';
+import { normalizeHashtag } from '@/utils/hashtags';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// How much each signal adds to a reel's relevance
+export const FOR_YOU_WEIGHTS = {
+  followedCreator: 3,
+  followedHashtag: 3, // Any of the reel's hashtags is followed
+  interestMatch: 2, // Per matching hashtag, up to MAX_INTEREST_MATCHES
+  similarHashtags: 2.5, // Scaled by the viewer's affinity for the reel's hashtags
+  similarCreator: 1.5, // Scaled by the viewer's affinity for the creator
+  popularity: 0.5, // Per order of magnitude of engagement
+  recencyHalfLifeHours: 48,
+  viewedPenalty: 0.25, // Multiplier for reels the viewer has already seen
+};
+
+const MAX_INTEREST_MATCHES = 2;
+
+// How far ahead to look for a different creator when two reels in a row
+// would come from the same person
+const DIVERSITY_LOOKAHEAD = 3;
+
+interface TasteProfile {
+  hashtagAffinity: Map<string, number>; // 0..1
+  creatorAffinity: Map<string, number>; // 0..1
+  viewedReelIds: Set<string>;
+}
+
+/**
+ * Build the viewer's taste from reels they liked or watched to the end.
+ * Each such reel credits its hashtags and creator; a reel that was both
+ * liked and finished counts twice. Affinities are scaled so the strongest
+ * is 1.
+ */
+export function buildTasteProfile(signals: ForYouSignals): TasteProfile {
+  const hashtagAffinity = new Map<string, number>();
+  const creatorAffinity = new Map<string, number>();
+  const viewedReelIds = new Set<string>();
+
+  for (const engagement of signals.engagements) {
+    if (engagement.viewed || engagement.completed) viewedReelIds.add(engagement.reelId);
+
+    const weight = (engagement.liked ? 1 : 0) + (engagement.completed ? 1 : 0);
+    if (weight === 0) continue;
+
+    for (const tag of new Set(engagement.hashtags.map(normalizeHashtag))) {
+      if (tag) hashtagAffinity.set(tag, (hashtagAffinity.get(tag) || 0) + weight);
+    }
+    creatorAffinity.set(engagement.creatorId, (creatorAffinity.get(engagement.creatorId) || 0) + weight);
+  }
+
+  return {
+    hashtagAffinity: scaleToOne(hashtagAffinity),
+    creatorAffinity: scaleToOne(creatorAffinity),
+    viewedReelIds,
+  };
+}
+
+function scaleToOne(values: Map<string, number>): Map<string, number> {
+  const max = Math.max(0, ...values.values());
+  if (max === 0) return values;
+  return new Map(Array.from(values, ([key, value]) => [key, value / max]));
+}
+
+/**
+ * Score one reel for the viewer. Relevance (followed creators and hashtags,
+ * interests, similarity to reels they liked or finished) and popularity are boosted for fresh
+ * reels, and reels the viewer has already seen are demoted.
+ */
+export function scoreReelForYou(
+  reel: Reel,
+  signals: ForYouSignals,
+  taste: TasteProfile = buildTasteProfile(signals),
+  now: number = Date.now()
+): number {
+  const tags = Array.from(new Set((reel.hashtags || []).map(normalizeHashtag).filter(Boolean)));
+  const interests = new Set(signals.interests.map(normalizeHashtag));
+  const followedHashtags = new Set(signals.followedHashtags.map(normalizeHashtag));
+
+  let relevance = 0;
+
+  if (signals.followedUserIds.includes(reel.user.id)) {
+    relevance += FOR_YOU_WEIGHTS.followedCreator;
+  }
+
+  if (tags.some(tag => followedHashtags.has(tag))) {
+    relevance += FOR_YOU_WEIGHTS.followedHashtag;
+  }
+
+  const interestMatches = tags.filter(tag => interests.has(tag)).length;
+  relevance += FOR_YOU_WEIGHTS.interestMatch * Math.min(interestMatches, MAX_INTEREST_MATCHES);
+
+  // Strongest match among the reel's hashtags, so long tag lists are not favoured
+  const hashtagSimilarity = Math.max(0, ...tags.map(tag => taste.hashtagAffinity.get(tag) || 0));
+  relevance += FOR_YOU_WEIGHTS.similarHashtags * hashtagSimilarity;
+  relevance += FOR_YOU_WEIGHTS.similarCreator * (taste.creatorAffinity.get(reel.user.id) || 0);
+
+  const engagement = (reel.likes || 0) + 2 * (reel.comments || 0) + 3 * (reel.shares || 0) + (reel.viewCount || 0) / 10;
+  const popularity = FOR_YOU_WEIGHTS.popularity * Math.log10(1 + engagement);
+
+  const createdAt = new Date(reel.createdAt || reel.timestamp).getTime();
+  const ageHours = Number.isNaN(createdAt) ? Infinity : Math.max(0, now - createdAt) / HOUR_MS;
+  const freshness = Math.pow(0.5, ageHours / FOR_YOU_WEIGHTS.recencyHalfLifeHours);
+
+  // Old reels keep some of their score so a relevant one can still surface
+  let score = (1 + relevance + popularity) * (0.3 + 0.7 * freshness);
+
+  if (reel.isViewed || taste.viewedReelIds.has(reel.id)) {
+    score *= FOR_YOU_WEIGHTS.viewedPenalty;
+  }
+
+  return score;
+}
+
+/**
+ * Rank reels for the "For You" feed, best first. Ties keep the input order.
+ * Reels from the same creator are spread out where another candidate is
+ * close behind.
+ */
+export function rankForYouReels(reels: Reel[], signals: ForYouSignals, now: number = Date.now()): Reel[] {
+  const taste = buildTasteProfile(signals);
+  const ranked = reels
+    .map((reel, index) => ({ reel, index, score: scoreReelForYou(reel, signals, taste, now) }))
+    .sort((a, b) => b.score - a.score || a.index - b.index)
+    .map(item => item.reel);
+
+  return spreadCreators(ranked);
+}
+
+function spreadCreators(ranked: Reel[]): Reel[] {
+  const remaining = [...ranked];
+  const result: Reel[] = [];
+
+  while (remaining.length > 0) {
+    const previousCreator = result[result.length - 1]?.user.id;
+    const lookahead = remaining.slice(0, DIVERSITY_LOOKAHEAD + 1);
+    const nextIndex = Math.max(0, lookahead.findIndex(reel => reel.user.id !== previousCreator));
+    result.push(remaining.splice(nextIndex, 1)[0]);
+  }
+
+  return result;
+}
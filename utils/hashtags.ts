@@ -0,0 +1,35 @@
+// Longest hashtag name stored, matching the hashtags table constraint
+export const HASHTAG_MAX_LENGTH = 50;
+
+const HASHTAG_PATTERN = /(?:^|[^\p{L}\p{N}_])#([\p{L}\p{N}_]+)/gu;
+
+/**
+ * Normalize a hashtag for storage and comparison: no leading '#', lowercase
+ */
+export function normalizeHashtag(tag: string): string {
+  return tag.trim().replace(/^#+/, '').trim().toLowerCase();
+}
+
+/**
+ * Normalize a list of hashtags, dropping empty, overlong and repeated ones
+ */
+export function normalizeHashtags(tags: string[]): string[] {
+  const normalized = tags
+    .map(normalizeHashtag)
+    .filter(tag => tag.length > 0 && tag.length <= HASHTAG_MAX_LENGTH);
+  return Array.from(new Set(normalized));
+}
+
+/**
+ * Find the hashtags written in a caption, e.g. "Sunset #Beach #beach" -> ['beach']
+ */
+export function extractHashtags(text: string): string[] {
+  return normalizeHashtags(Array.from(text.matchAll(HASHTAG_PATTERN), match => match[1]));
+}
+
+/**
+ * Display form of a stored hashtag name
+ */
+export function formatHashtag(name: string): string {
+  return `#${normalizeHashtag(name)}`;
+}
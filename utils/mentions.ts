@@ -0,0 +1,93 @@
+import { Mention } from '@/types';
+import { normalizeHashtag } from '@/utils/hashtags';
+
+// '#' or '@' followed by the word being typed, at the start or after a
+// non-word character (so emails are not treated as mentions)
+const TOKEN_PATTERN = /(^|[^\p{L}\p{N}_])([#@])([\p{L}\p{N}_.]*)$/u;
+
+// @handles and #hashtags inside saved text
+const RICH_TEXT_PATTERN = /(^|[^\p{L}\p{N}_])([#@])([\p{L}\p{N}_.]*[\p{L}\p{N}_])/gu;
+
+export type AutocompleteTrigger = '#' | '@';
+
+export interface AutocompleteToken {
+  trigger: AutocompleteTrigger;
+  query: string; // Text typed after the trigger
+  start: number; // Index of the trigger character
+  end: number; // Index just past the query
+}
+
+export type RichTextSegment =
+  | { type: 'text'; text: string }
+  | { type: 'mention'; text: string; userId: string }
+  | { type: 'hashtag'; text: string; hashtag: string };
+
+/**
+ * Find the #tag or @handle the cursor is in, if any
+ * @param text - Current input text
+ * @param cursor - Cursor position (selection end)
+ */
+export function getAutocompleteToken(text: string, cursor: number = text.length): AutocompleteToken | null {
+  const match = TOKEN_PATTERN.exec(text.slice(0, cursor));
+  if (!match) return null;
+
+  // The word continues after the cursor; complete the whole word
+  const rest = /^[\p{L}\p{N}_.]*/u.exec(text.slice(cursor))?.[0] || '';
+  const start = match.index + match[1].length;
+
+  return {
+    trigger: match[2] as AutocompleteTrigger,
+    query: match[3] + rest,
+    start,
+    end: cursor + rest.length,
+  };
+}
+
+/**
+ * Replace the token with the chosen hashtag or handle and a trailing space
+ * @returns The new text and where the cursor should go
+ */
+export function applyAutocomplete(
+  text: string,
+  token: AutocompleteToken,
+  value: string
+): { text: string; cursor: number } {
+  const insert = `${token.trigger}${value} `;
+  const after = text.slice(token.end).replace(/^ /, '');
+  return {
+    text: text.slice(0, token.start) + insert + after,
+    cursor: token.start + insert.length,
+  };
+}
+
+/**
+ * Split saved text into plain text, mentions and hashtags. Only @handles
+ * with a resolved mention become mention segments.
+ */
+export function splitRichText(text: string, mentions: Mention[] = []): RichTextSegment[] {
+  const usersByHandle = new Map(mentions.map(mention => [mention.handle.toLowerCase(), mention.userId]));
+  const segments: RichTextSegment[] = [];
+
+  let lastIndex = 0;
+  for (const match of text.matchAll(RICH_TEXT_PATTERN)) {
+    const start = (match.index ?? 0) + match[1].length;
+    const [, , trigger, fullWord] = match;
+    // Hashtags stop at the first '.', handles may contain dots
+    const word = trigger === '#' ? fullWord.split('.')[0] : fullWord;
+    const userId = trigger === '@' ? usersByHandle.get(word.toLowerCase()) : undefined;
+
+    if (trigger === '@' && !userId) continue;
+
+    if (start > lastIndex) segments.push({ type: 'text', text: text.slice(lastIndex, start) });
+    segments.push(
+      userId
+        ? { type: 'mention', text: `@${word}`, userId }
+        : { type: 'hashtag', text: `#${word}`, hashtag: normalizeHashtag(word) }
+    );
+    lastIndex = start + 1 + word.length;
+  }
+
+  if (lastIndex < text.length) segments.push({ type: 'text', text: text.slice(lastIndex) });
+
+  return segments;
+}
@@ -1,4 +1,5 @@
-import { Message, Conversation } from '@/types';
+import { Message, Conversation, MessageCursor } from '@/types';
+import { isMessageExpired } from '@/utils/disappearingMessages';
 
 /**
  * Message Performance Optimization Utilities
@@ -13,12 +14,19 @@ interface MessageGroup {
 
 interface ConversationCache {
   [conversationId: string]: {
-    messages: Message[];
+    messages: Message[]; // Newest first
     lastUpdated: number;
     participants: string[];
+    hasMore: boolean; // Older messages exist that are not cached
   };
 }
 
+const getMessageTime = (message: Message): string => message.createdAt || message.timestamp || '';
+
+// Newest first; ties on created_at are broken by id, matching the database order
+const compareNewestFirst = (a: Message, b: Message): number =>
+  getMessageTime(b).localeCompare(getMessageTime(a)) || b.id.localeCompare(a.id);
+
 export class MessageOptimizer {
   private static messageCache: ConversationCache = {};
   private static readonly CACHE_DURATION = 5 * 60 * 1000; // 5 minutes
@@ -89,7 +97,12 @@ export class MessageOptimizer {
   /**
    * Cache messages for a conversation to reduce API calls
    */
-  static cacheMessages(conversationId: string, messages: Message[], participants: string[] = []): void {
+  static cacheMessages(
+    conversationId: string,
+    messages: Message[],
+    participants: string[] = [],
+    hasMore: boolean = true
+  ): void {
     // Remove old cache entries if we have too many
     const cacheKeys = Object.keys(this.messageCache);
     if (cacheKeys.length >= this.MAX_CACHED_CONVERSATIONS) {
@@ -101,12 +114,92 @@ export class MessageOptimizer {
     }
 
     this.messageCache[conversationId] = {
-      messages: [...messages],
+      messages: [...this.withoutExpired(messages)].sort(compareNewestFirst),
       lastUpdated: Date.now(),
       participants,
+      hasMore,
     };
   }
 
+  /**
+   * Merge message lists, dropping duplicates and keeping newest first
+   * (or oldest first for chronological lists). Incoming copies replace
+   * existing ones with the same id.
+   */
+  static mergeMessages(existing: Message[], incoming: Message[], oldestFirst: boolean = false): Message[] {
+    const byId = new Map<string, Message>();
+    existing.forEach(message => byId.set(message.id, message));
+    incoming.forEach(message => byId.set(message.id, message));
+
+    const merged = Array.from(byId.values()).sort(compareNewestFirst);
+    return oldestFirst ? merged.reverse() : merged;
+  }
+
+  /**
+   * Cursor for loading the page before the oldest of these messages
+   */
+  static getOlderCursor(messages: Message[]): MessageCursor | null {
+    let oldest: Message | null = null;
+    for (const message of messages) {
+      // Optimistic messages are not in the database yet
+      if (message.id.startsWith('temp') || !getMessageTime(message)) continue;
+      if (!oldest || compareNewestFirst(message, oldest) > 0) oldest = message;
+    }
+    return oldest ? { createdAt: getMessageTime(oldest), id: oldest.id } : null;
+  }
+
+  /**
+   * Merge a page from getMessages into the conversation cache.
+   * The newest page replaces everything it covers, so deleted messages drop
+   * out; older cached pages are kept only if they connect to it without a gap.
+   * Older pages are merged in and update whether more history remains.
+   */
+  static cacheMessagePage(
+    conversationId: string,
+    page: Message[],
+    options: { older: boolean; hasMore: boolean; participants?: string[] }
+  ): Message[] {
+    const cached = this.messageCache[conversationId];
+    const sortedPage = [...this.withoutExpired(page)].sort(compareNewestFirst);
+
+    if (!cached) {
+      // An older page on its own would hide the newest messages
+      if (options.older) return [...sortedPage];
+
+      this.cacheMessages(conversationId, sortedPage, options.participants, options.hasMore);
+      return [...sortedPage];
+    }
+
+    if (options.older) {
+      cached.messages = this.mergeMessages(cached.messages, sortedPage);
+      cached.hasMore = options.hasMore;
+    } else if (!options.hasMore || sortedPage.length === 0) {
+      // The page is the whole conversation
+      cached.messages = sortedPage;
+      cached.hasMore = false;
+    } else {
+      const oldestInPage = sortedPage[sortedPage.length - 1];
+      const connects = cached.messages.some(message => message.id === oldestInPage.id);
+      const olderCached = connects
+        ? cached.messages.filter(message => compareNewestFirst(message, oldestInPage) > 0)
+        : [];
+
+      cached.messages = [...sortedPage, ...olderCached];
+      cached.hasMore = connects ? cached.hasMore : true;
+    }
+
+    if (options.participants) cached.participants = options.participants;
+    cached.lastUpdated = Date.now();
+    return [...cached.messages];
+  }
+
+  /**
+   * Whether older messages exist beyond the cached ones
+   */
+  static hasMoreCachedHistory(conversationId: string): boolean {
+    return this.messageCache[conversationId]?.hasMore ?? true;
+  }
+
   /**
    * Get cached messages if still valid
    */
@@ -120,6 +213,7 @@ export class MessageOptimizer {
       return null;
     }
 
+    this.evictExpiredMessages(conversationId);
     return [...cached.messages];
   }
 
@@ -130,7 +224,7 @@ export class MessageOptimizer {
     const cached = this.messageCache[conversationId];
     if (!cached) return;
 
-    cached.messages.push(message);
+    cached.messages = this.mergeMessages(cached.messages, [message]);
     cached.lastUpdated = Date.now();
   }
 
@@ -145,6 +239,44 @@ export class MessageOptimizer {
     cached.lastUpdated = Date.now();
   }
 
+  /**
+   * Drop disappearing messages whose time is up, from one conversation or
+   * every cached one. Returns the ids that were removed.
+   */
+  static evictExpiredMessages(conversationId?: string): string[] {
+    const now = Date.now();
+    const keys = conversationId ? [conversationId] : Object.keys(this.messageCache);
+    const evicted: string[] = [];
+
+    keys.forEach(key => {
+      const cached = this.messageCache[key];
+      if (!cached) return;
+
+      const kept = cached.messages.filter(message => {
+        if (!isMessageExpired(message, now)) return true;
+        evicted.push(message.id);
+        return false;
+      });
+
+      if (kept.length !== cached.messages.length) {
+        cached.messages = kept;
+        cached.lastUpdated = now;
+      }
+    });
+
+    return evicted;
+  }
+
+  /**
+   * Messages from a list whose disappearing timer has not run out
+   */
+  static withoutExpired(messages: Message[]): Message[] {
+    const now = Date.now();
+    return messages.some(message => isMessageExpired(message, now))
+      ? messages.filter(message => !isMessageExpired(message, now))
+      : messages;
+  }
+
   /**
    * Update message read status in cache
    */
@@ -308,6 +440,10 @@ export const messageUtils = {
   shouldShowTimestamp: MessageOptimizer.shouldShowTimestamp.bind(MessageOptimizer),
   cacheMessages: MessageOptimizer.cacheMessages.bind(MessageOptimizer),
   getCachedMessages: MessageOptimizer.getCachedMessages.bind(MessageOptimizer),
+  mergeMessages: MessageOptimizer.mergeMessages.bind(MessageOptimizer),
+  cacheMessagePage: MessageOptimizer.cacheMessagePage.bind(MessageOptimizer),
+  getOlderCursor: MessageOptimizer.getOlderCursor.bind(MessageOptimizer),
+  evictExpiredMessages: MessageOptimizer.evictExpiredMessages.bind(MessageOptimizer),
   createTypingDebouncer: MessageOptimizer.createTypingDebouncer.bind(MessageOptimizer),
   createMessageThrottle: MessageOptimizer.createMessageThrottle.bind(MessageOptimizer),
 };
\ No newline at end of file
@@ -0,0 +1,77 @@
+import { Message, MessageReaction, MessageReactionUpdate, MessageReplyPreview } from '@/types';
+
+// Reaction changes are pushed on the same broadcast channel as the conversation
+export const REACTIONS_BROADCAST_EVENT = 'message_reaction';
+
+// Offered in the message options; any emoji can be stored
+export const QUICK_REACTIONS = ['❤️', '😂', '😮', '😢', '😡', '👍'];
+
+export interface ReactionSummary {
+  emoji: string;
+  count: number;
+  reactedByMe: boolean;
+}
+
+// The emoji a user reacted to a message with, if any
+export const getUserReaction = (message: Message, userId?: string): string | undefined =>
+  userId ? message.reactions?.find(reaction => reaction.userId === userId)?.emoji : undefined;
+
+// Reactions grouped by emoji, most used first
+export const summarizeReactions = (reactions: MessageReaction[] = [], currentUserId?: string): ReactionSummary[] => {
+  const summaries = new Map<string, ReactionSummary>();
+
+  reactions.forEach(reaction => {
+    const summary = summaries.get(reaction.emoji) || { emoji: reaction.emoji, count: 0, reactedByMe: false };
+    summary.count += 1;
+    summary.reactedByMe = summary.reactedByMe || reaction.userId === currentUserId;
+    summaries.set(reaction.emoji, summary);
+  });
+
+  return [...summaries.values()].sort((a, b) => b.count - a.count);
+};
+
+// Apply one user's reaction change to a list of messages. Each user has at
+// most one reaction per message; a null emoji removes it.
+export const applyReactionUpdate = (messages: Message[], update: MessageReactionUpdate): Message[] =>
+  messages.map(message => {
+    if (message.id !== update.messageId) return message;
+
+    const reactions = (message.reactions || []).filter(reaction => reaction.userId !== update.userId);
+    if (update.emoji) {
+      reactions.push({ userId: update.userId, emoji: update.emoji, createdAt: new Date().toISOString() });
+    }
+
+    return { ...message, reactions };
+  });
+
+// Quote shown above a reply and in the composer while replying
+export const getReplyPreview = (message: Message): MessageReplyPreview => ({
+  id: message.id,
+  senderId: message.senderId,
+  senderName: message.senderName,
+  content: message.content,
+  type: message.type,
+  isDeleted: message.isDeleted,
+});
+
+export const getReplyPreviewText = (reply: MessageReplyPreview): string => {
+  if (reply.isDeleted) return 'Deleted message';
+
+  switch (reply.type) {
+    case 'image':
+      return 'Photo';
+    case 'video':
+      return 'Video';
+    case 'audio':
+    case 'voice':
+      return 'Voice message';
+    case 'post':
+      return 'Shared post';
+    case 'reel':
+      return 'Shared reel';
+    case 'story':
+      return 'Shared story';
+    default:
+      return reply.content;
+  }
+};
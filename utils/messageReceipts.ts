@@ -0,0 +1,81 @@
+import { sendConversationBroadcast } from '@/utils/conversationBroadcast';
+import { Message, MessageReceipt, MessageReceiptStatus, MessageReceiptUpdate } from '@/types';
+
+// Receipt changes are pushed on the same broadcast channel as the conversation
+export const RECEIPTS_BROADCAST_EVENT = 'message_receipts';
+
+// Overall state of a message for its sender: read once every recipient has
+// read it, delivered once it reached every recipient
+export const getReceiptStatus = (message: Message): MessageReceiptStatus => {
+  const receipts = message.receipts;
+
+  if (!receipts || receipts.length === 0) {
+    return message.isRead ? 'read' : 'sent';
+  }
+  if (receipts.every(receipt => receipt.readAt)) return 'read';
+  if (receipts.every(receipt => receipt.deliveredAt || receipt.readAt)) return 'delivered';
+  return 'sent';
+};
+
+// Recipients who have read the message, earliest first
+export const getSeenBy = (message: Message): MessageReceipt[] =>
+  (message.receipts || [])
+    .filter(receipt => receipt.readAt)
+    .sort((a, b) => (a.readAt || '').localeCompare(b.readAt || ''));
+
+// Recipients the message reached but who have not read it yet
+export const getDeliveredTo = (message: Message): MessageReceipt[] =>
+  (message.receipts || []).filter(receipt => receipt.deliveredAt && !receipt.readAt);
+
+// Merge receipt changes into a list of messages, keeping the latest timestamps
+export const applyReceiptUpdates = (messages: Message[], updates: MessageReceiptUpdate[]): Message[] => {
+  if (updates.length === 0) return messages;
+
+  const byMessage = new Map<string, MessageReceiptUpdate[]>();
+  updates.forEach(update => {
+    byMessage.set(update.messageId, [...(byMessage.get(update.messageId) || []), update]);
+  });
+
+  return messages.map(message => {
+    const messageUpdates = byMessage.get(message.id);
+    if (!messageUpdates) return message;
+
+    const receipts = [...(message.receipts || [])];
+    messageUpdates.forEach(update => {
+      const index = receipts.findIndex(receipt => receipt.userId === update.userId);
+      const current = index >= 0 ? receipts[index] : { userId: update.userId };
+      const merged: MessageReceipt = {
+        userId: update.userId,
+        deliveredAt: current.deliveredAt || update.deliveredAt,
+        readAt: current.readAt || update.readAt,
+      };
+
+      if (index >= 0) {
+        receipts[index] = merged;
+      } else {
+        receipts.push(merged);
+      }
+    });
+
+    return {
+      ...message,
+      receipts,
+      isRead: message.isRead || receipts.some(receipt => receipt.readAt),
+    };
+  });
+};
+
+// Push receipt changes to everyone in the affected conversations
+export const broadcastReceiptUpdates = async (updates: MessageReceiptUpdate[]): Promise<void> => {
+  const byConversation = new Map<string, MessageReceiptUpdate[]>();
+  updates.forEach(update => {
+    byConversation.set(update.conversationId, [...(byConversation.get(update.conversationId) || []), update]);
+  });
+
+  for (const [conversationId, conversationUpdates] of byConversation) {
+    await sendConversationBroadcast(conversationId, RECEIPTS_BROADCAST_EVENT, {
+      conversationId,
+      updates: conversationUpdates,
+    });
+  }
+};
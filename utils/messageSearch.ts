@@ -0,0 +1,38 @@
+import { Message, MessageSearchResult } from '@/types';
+
+export interface SnippetSegment {
+  text: string;
+  highlighted: boolean;
+}
+
+export interface MessageTypeFilter {
+  label: string;
+  types: Message['type'][];
+}
+
+// Type filters offered on the search screen
+export const MESSAGE_TYPE_FILTERS: MessageTypeFilter[] = [
+  { label: 'Text', types: ['text'] },
+  { label: 'Photos', types: ['image'] },
+  { label: 'Videos', types: ['video'] },
+  { label: 'Voice', types: ['voice', 'audio'] },
+  { label: 'Reels', types: ['reel'] },
+  { label: 'Posts', types: ['post'] },
+  { label: 'Stories', types: ['story'] },
+];
+
+// Split a search snippet into plain and highlighted parts. Matches are
+// wrapped in <mark></mark> by the search_messages function.
+export const splitSnippet = (snippet: string): SnippetSegment[] =>
+  snippet
+    .split(/(<mark>.*?<\/mark>)/g)
+    .filter(part => part.length > 0)
+    .map(part => part.startsWith('<mark>') && part.endsWith('</mark>')
+      ? { text: part.slice('<mark>'.length, -'</mark>'.length), highlighted: true }
+      : { text: part, highlighted: false });
+
+// Group title, or the other participant's name for direct conversations
+export const getSearchResultTitle = (result: MessageSearchResult): string =>
+  result.conversationType === 'group'
+    ? result.conversationTitle || 'Group'
+    : result.otherUser?.username || 'Conversation';
@@ -47,4 +47,55 @@ export const handleProfileBackNavigation = (userId?: string) => {
   } else {
     handleBackNavigation('/(tabs)/profile');
   }
-}; 
\ No newline at end of file
+}; 
+/**
+ * Opens the conversation, reel, post or profile a notification points to
+ * @param data - Notification data (inbox `data` or push `PushNotificationData.data`)
+ * @returns Whether a destination was found
+ */
+export const navigateToNotificationTarget = (data?: Record<string, any>): boolean => {
+  if (!data) return false;
+
+  try {
+    if (data.conversationId) {
+      router.push({
+        pathname: '/conversation',
+        params: {
+          mode: 'chat',
+          conversationId: data.conversationId,
+          userId: data.senderId || data.actorId || '',
+          userName: data.senderName || data.actorName || '',
+        },
+      });
+      return true;
+    }
+
+    if (data.reelId) {
+      router.push({
+        pathname: '/(tabs)/reels',
+        params: { startReelId: data.reelId },
+      });
+      return true;
+    }
+
+    // There is no single post screen; posts are shown on their owner's profile
+    if (data.postId) {
+      if (data.postOwnerId) {
+        router.push({ pathname: '/ProfileScreen', params: { userId: data.postOwnerId } });
+      } else {
+        router.push('/(tabs)/profile');
+      }
+      return true;
+    }
+
+    const profileId = data.userId || data.actorId || data.senderId;
+    if (profileId) {
+      router.push({ pathname: '/ProfileScreen', params: { userId: profileId } });
+      return true;
+    }
+  } catch (error) {
+    console.error('Notification navigation error:', error);
+  }
+
+  return false;
+};
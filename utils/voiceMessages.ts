@@ -0,0 +1,100 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+// Number of bars stored with a voice message and drawn in its bubble
+export const WAVEFORM_BARS = 40;
+
+export const PLAYBACK_SPEEDS = [1, 1.5, 2] as const;
+export type PlaybackSpeed = typeof PLAYBACK_SPEEDS[number];
+
+// Recording metering is reported in dBFS, roughly -160 (silence) to 0 (loudest).
+// Anything below the floor is treated as silence.
+const METERING_FLOOR_DB = -60;
+
+const PLAYBACK_POSITIONS_KEY = 'voicePlaybackPositions';
+const MAX_STORED_POSITIONS = 200;
+
+// Convert a metering reading into a level between 0 and 1
+export const meteringToLevel = (metering?: number): number => {
+  if (metering === undefined || !isFinite(metering)) return 0;
+  if (metering <= METERING_FLOOR_DB) return 0;
+  if (metering >= 0) return 1;
+  return (metering - METERING_FLOOR_DB) / -METERING_FLOOR_DB;
+};
+
+// Reduce the levels captured while recording to a fixed number of bars
+// (0-100), keeping the loudest sample of each bucket so short peaks show
+export const compressWaveform = (levels: number[], bars: number = WAVEFORM_BARS): number[] => {
+  if (levels.length === 0) return [];
+
+  const count = Math.min(bars, levels.length);
+  const bucketSize = levels.length / count;
+
+  return Array.from({ length: count }, (_, index) => {
+    const start = Math.floor(index * bucketSize);
+    const end = Math.max(start + 1, Math.floor((index + 1) * bucketSize));
+    const peak = Math.max(...levels.slice(start, end));
+    return Math.round(Math.min(Math.max(peak, 0), 1) * 100);
+  });
+};
+
+// Bars to draw for a message. Older messages without a waveform get a flat
+// placeholder shape.
+export const getWaveformBars = (waveform: number[] | undefined, bars: number = WAVEFORM_BARS): number[] => {
+  if (!waveform || waveform.length === 0) {
+    return Array.from({ length: bars }, (_, index) => 30 + ((index * 37) % 40));
+  }
+  if (waveform.length === bars) return waveform;
+
+  return Array.from({ length: bars }, (_, index) => waveform[Math.floor((index * waveform.length) / bars)]);
+};
+
+export const getNextPlaybackSpeed = (speed: PlaybackSpeed): PlaybackSpeed =>
+  PLAYBACK_SPEEDS[(PLAYBACK_SPEEDS.indexOf(speed) + 1) % PLAYBACK_SPEEDS.length];
+
+// =====================================================
+// PLAYBACK POSITIONS
+// =====================================================
+// Where the user stopped listening to each voice message, kept on the device
+// so playback resumes from there. Only the most recent entries are kept.
+
+let playbackPositions: Record<string, number> | null = null;
+
+const loadPlaybackPositions = async (): Promise<Record<string, number>> => {
+  if (playbackPositions) return playbackPositions;
+
+  try {
+    const stored = await AsyncStorage.getItem(PLAYBACK_POSITIONS_KEY);
+    playbackPositions = stored ? JSON.parse(stored) : {};
+  } catch (error) {
+    console.error('Error loading voice playback positions:', error);
+    playbackPositions = {};
+  }
+  return playbackPositions!;
+};
+
+export const getPlaybackPosition = async (messageId: string): Promise<number> => {
+  const positions = await loadPlaybackPositions();
+  return positions[messageId] || 0;
+};
+
+// Save where playback stopped; a position of 0 forgets the message
+export const savePlaybackPosition = async (messageId: string, positionMillis: number): Promise<void> => {
+  const positions = await loadPlaybackPositions();
+
+  delete positions[messageId];
+  if (positionMillis > 0) {
+    positions[messageId] = Math.round(positionMillis);
+  }
+
+  // Object keys keep insertion order, so the oldest entries come first
+  const ids = Object.keys(positions);
+  ids.slice(0, Math.max(ids.length - MAX_STORED_POSITIONS, 0)).forEach(id => {
+    delete positions[id];
+  });
+
+  try {
+    await AsyncStorage.setItem(PLAYBACK_POSITIONS_KEY, JSON.stringify(positions));
+  } catch (error) {
+    console.error('Error saving voice playback position:', error);
+  }
+};